@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import {
   DollarSign,
   TrendingUp,
@@ -8,6 +9,7 @@ import {
   Clock,
   Percent,
   Package,
+  FileText,
 } from "lucide-react";
 import {
   Select,
@@ -17,6 +19,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
 import {
   StatsCard,
   RevenueChart,
@@ -25,6 +28,9 @@ import {
   SlowMoversTable,
   InventoryValueCard,
   ExportButton,
+  PromotionsTable,
+  SourcingRoiTable,
+  ProfitLossCard,
 } from "@/components/analytics";
 import { trpc } from "@/lib/trpc/client";
 
@@ -58,6 +64,17 @@ export default function AnalyticsPage() {
     limit: 10,
   });
   const inventoryValueQuery = trpc.analytics.inventoryValue.useQuery();
+  const promotionsQuery = trpc.analytics.promotionPerformance.useQuery();
+  const sourcingQuery = trpc.analytics.sourcingRoi.useQuery();
+  const profitAndLossQuery = trpc.analytics.profitAndLoss.useQuery({ period });
+
+  const utils = trpc.useUtils();
+  const cancelPromotion = trpc.promotions.cancel.useMutation({
+    onSuccess: () => {
+      utils.analytics.promotionPerformance.invalidate();
+      utils.promotions.list.invalidate();
+    },
+  });
 
   const dashboard = dashboardQuery.data;
 
@@ -85,6 +102,12 @@ export default function AnalyticsPage() {
             </SelectContent>
           </Select>
           <ExportButton period={period} />
+          <Button variant="outline" asChild>
+            <Link href="/analytics/taxes">
+              <FileText className="mr-2 h-4 w-4" />
+              Tax Report
+            </Link>
+          </Button>
         </div>
       </div>
 
@@ -145,6 +168,8 @@ export default function AnalyticsPage() {
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="inventory">Inventory</TabsTrigger>
+          <TabsTrigger value="promotions">Sales</TabsTrigger>
+          <TabsTrigger value="sourcing">Sourcing</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -160,6 +185,11 @@ export default function AnalyticsPage() {
             />
           </div>
 
+          <ProfitLossCard
+            data={profitAndLossQuery.data}
+            loading={profitAndLossQuery.isLoading}
+          />
+
           {/* Top Items Table */}
           <TopItemsTable
             data={topItemsQuery.data ?? []}
@@ -183,6 +213,19 @@ export default function AnalyticsPage() {
             daysThreshold={60}
           />
         </TabsContent>
+
+        <TabsContent value="promotions" className="space-y-4">
+          <PromotionsTable
+            data={promotionsQuery.data ?? []}
+            loading={promotionsQuery.isLoading}
+            onCancel={(id) => cancelPromotion.mutate({ id })}
+            cancelling={cancelPromotion.isPending}
+          />
+        </TabsContent>
+
+        <TabsContent value="sourcing" className="space-y-4">
+          <SourcingRoiTable data={sourcingQuery.data} loading={sourcingQuery.isLoading} />
+        </TabsContent>
       </Tabs>
     </div>
   );
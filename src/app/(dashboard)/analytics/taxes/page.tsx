@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ClipboardCheck,
+  FileArchive,
+  Loader2,
+  Printer,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ReconciliationTable } from "@/components/tax";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency } from "@/lib/utils";
+import { CHANNEL_NAMES } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+
+// Until filing season ends, default to the year being filed
+function defaultTaxYear(now: Date = new Date()): number {
+  return now.getMonth() < 4 ? now.getFullYear() - 1 : now.getFullYear();
+}
+
+function download(filename: string, blob: Blob) {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function base64ToBlob(content: string, type: string): Blob {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+export default function TaxReportPage() {
+  const { toast } = useToast();
+  const currentYear = new Date().getFullYear();
+  const [taxYear, setTaxYear] = useState(defaultTaxYear);
+  const [exporting, setExporting] = useState<"zip" | "html" | null>(null);
+
+  const reportQuery = trpc.tax.report.useQuery({ taxYear });
+  const zipExport = trpc.tax.exportZip.useQuery({ taxYear }, { enabled: false });
+  const htmlExport = trpc.tax.exportHtml.useQuery({ taxYear }, { enabled: false });
+  const report = reportQuery.data;
+
+  const handleExport = async (type: "zip" | "html") => {
+    setExporting(type);
+    try {
+      if (type === "zip") {
+        const result = await zipExport.refetch();
+        if (result.data) {
+          download(result.data.filename, base64ToBlob(result.data.content, "application/zip"));
+        }
+      } else {
+        const result = await htmlExport.refetch();
+        if (result.data) {
+          const url = URL.createObjectURL(
+            new Blob([result.data.content], { type: "text/html;charset=utf-8" })
+          );
+          const printWindow = window.open(url, "_blank");
+          printWindow?.addEventListener("load", () => printWindow.print());
+        }
+      }
+    } catch {
+      toast({
+        title: "Export failed",
+        description: "Could not generate the tax report. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const flagged = report?.reconciliation.filter((entry) => entry.status !== "matched") ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/analytics">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Tax Report</h1>
+            <p className="text-muted-foreground">
+              Year-end Schedule C figures and 1099-K reconciliation
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(taxYear)} onValueChange={(value) => setTaxYear(Number(value))}>
+            <SelectTrigger className="w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 6 }, (_, i) => currentYear - i).map((year) => (
+                <SelectItem key={year} value={String(year)}>
+                  {year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => handleExport("html")}
+            disabled={exporting !== null}
+          >
+            {exporting === "html" ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Printer className="mr-2 h-4 w-4" />
+            )}
+            Print Summary
+          </Button>
+          <Button onClick={() => handleExport("zip")} disabled={exporting !== null}>
+            {exporting === "zip" ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileArchive className="mr-2 h-4 w-4" />
+            )}
+            Download (.zip)
+          </Button>
+        </div>
+      </div>
+
+      {reportQuery.isLoading || !report ? (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <Skeleton className="h-80 w-full" />
+          <Skeleton className="h-80 w-full" />
+        </div>
+      ) : (
+        <>
+          {flagged.length > 0 && (
+            <Card className="border-amber-300">
+              <CardContent className="flex items-start gap-3 pt-6">
+                <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {flagged.length} channel(s) need attention before filing
+                  </p>
+                  <p className="text-muted-foreground">
+                    Enter each 1099-K total you receive. Gaps usually mean sales missing here,
+                    refunds, or sales tax the platform collected.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {/* Schedule C */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Schedule C Summary</CardTitle>
+                <CardDescription>
+                  Part I income and Part II expenses for {report.taxYear}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableBody>
+                    {report.scheduleC.map((line) => (
+                      <TableRow key={`${line.line}-${line.label}`}>
+                        <TableCell className="w-[50px] text-muted-foreground">{line.line}</TableCell>
+                        <TableCell>{line.label}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(line.amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Part III */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Cost of Goods Sold</CardTitle>
+                <CardDescription>
+                  Part III, from inventory on hand and items bought during the year
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Table>
+                  <TableBody>
+                    {[
+                      ["35", "Inventory at beginning of year", report.costOfGoods.beginningInventory],
+                      ["36", "Purchases", report.costOfGoods.purchases],
+                      ["41", "Inventory at end of year", report.costOfGoods.endingInventory],
+                      ["42", "Cost of goods sold", report.costOfGoods.costOfGoodsSold],
+                    ].map(([line, label, amount]) => (
+                      <TableRow key={line}>
+                        <TableCell className="w-[50px] text-muted-foreground">{line}</TableCell>
+                        <TableCell>{label}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(amount as number)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {report.costOfGoods.itemsWithoutCost > 0 && (
+                  <p className="text-sm text-amber-600">
+                    {report.costOfGoods.itemsWithoutCost} item(s) have no cost basis and are left
+                    out. Add their costs in inventory for an accurate figure.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Gross receipts */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Gross Receipts by Channel</CardTitle>
+              <CardDescription>
+                Sales plus shipping charged to buyers, excluding cancelled orders
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.channels.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No sales recorded in {report.taxYear}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Channel</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">Gross Receipts</TableHead>
+                      <TableHead className="text-right">Returns</TableHead>
+                      <TableHead className="text-right">Platform Fees</TableHead>
+                      <TableHead className="text-right">Shipping Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.channels.map((entry) => (
+                      <TableRow key={entry.channel}>
+                        <TableCell className="font-medium">{CHANNEL_NAMES[entry.channel]}</TableCell>
+                        <TableCell className="text-right">{entry.orderCount}</TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(entry.grossReceipts)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.returns)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(entry.platformFees)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(entry.shippingCost)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* 1099-K */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                1099-K Reconciliation
+              </CardTitle>
+              <CardDescription>
+                Copy Box 1a from each 1099-K you receive to check it against your records
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReconciliationTable taxYear={report.taxYear} rows={report.reconciliation} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import * as React from "react";
+import { Edit, Loader2, MoreHorizontal, Plus, Receipt, Trash2, Upload } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ExpenseFormDialog,
+  RECURRENCE_LABELS,
+  type ExpenseDetails,
+} from "@/components/expenses";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, formatDate, truncate } from "@/lib/utils";
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_CATEGORY_NAMES,
+  type ExpenseCategory,
+} from "@/lib/constants";
+
+type ExpenseRow = ExpenseDetails & { receiptUrl: string | null };
+
+export default function ExpensesPage() {
+  const utils = trpc.useUtils();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [category, setCategory] = React.useState<ExpenseCategory | "all">("all");
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [editing, setEditing] = React.useState<ExpenseDetails | undefined>();
+  const [deleting, setDeleting] = React.useState<string | null>(null);
+  const [uploadingFor, setUploadingFor] = React.useState<string | null>(null);
+  const [uploadError, setUploadError] = React.useState<string | null>(null);
+  const uploadTarget = React.useRef<string | null>(null);
+
+  const expensesQuery = trpc.expenses.list.useQuery(
+    category === "all" ? undefined : { category }
+  );
+  const expenses: ExpenseRow[] = expensesQuery.data ?? [];
+
+  const getUploadUrl = trpc.expenses.getReceiptUploadUrl.useMutation();
+  const addReceipt = trpc.expenses.addReceipt.useMutation({
+    onSuccess: () => utils.expenses.list.invalidate(),
+  });
+  const deleteMutation = trpc.expenses.delete.useMutation({
+    onSuccess: () => {
+      utils.expenses.list.invalidate();
+      utils.analytics.profitAndLoss.invalidate();
+      setDeleting(null);
+    },
+  });
+
+  const openForm = (expense?: ExpenseDetails) => {
+    setEditing(expense);
+    setFormOpen(true);
+  };
+
+  const chooseReceipt = (expenseId: string) => {
+    uploadTarget.current = expenseId;
+    fileInputRef.current?.click();
+  };
+
+  const handleReceiptUpload = async (expenseId: string, file: File) => {
+    setUploadingFor(expenseId);
+    setUploadError(null);
+    try {
+      const contentType = file.type as
+        | "image/jpeg"
+        | "image/jpg"
+        | "image/png"
+        | "image/webp"
+        | "image/heic"
+        | "image/heif";
+
+      const { uploadUrl, key } = await getUploadUrl.mutateAsync({ expenseId, contentType });
+      const response = await fetch(uploadUrl, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": file.type },
+      });
+      if (!response.ok) {
+        throw new Error("Upload failed");
+      }
+      await addReceipt.mutateAsync({ expenseId, key });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setUploadingFor(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Expenses</h1>
+          <p className="text-muted-foreground">
+            Supplies, subscriptions, mileage and other costs of running the business
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={category}
+            onValueChange={(value) => setCategory(value as ExpenseCategory | "all")}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {EXPENSE_CATEGORIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {EXPENSE_CATEGORY_NAMES[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Expense
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Expenses</CardTitle>
+          <CardDescription>
+            Recurring expenses are counted once per occurrence in your profit and loss.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {uploadError && <p className="text-sm text-destructive mb-2">{uploadError}</p>}
+          {expensesQuery.isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : expenses.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <p className="text-muted-foreground">No expenses recorded</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Add what you spend on supplies and services to see your true profit
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Expense</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Repeats</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead className="w-[50px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expenses.map((expense) => (
+                  <TableRow key={expense.id}>
+                    <TableCell>
+                      <p className="font-medium">{truncate(expense.description, 40)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(expense.incurredAt)}
+                        {expense.miles != null && <> · {expense.miles} mi</>}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {EXPENSE_CATEGORY_NAMES[expense.category]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {RECURRENCE_LABELS[expense.recurrence]}
+                      {expense.recurrenceEndsAt && (
+                        <p className="text-xs text-muted-foreground">
+                          until {formatDate(expense.recurrenceEndsAt)}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(expense.amount)}</TableCell>
+                    <TableCell>
+                      {uploadingFor === expense.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : expense.receiptUrl ? (
+                        <a
+                          href={expense.receiptUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-sm underline-offset-4 hover:underline"
+                        >
+                          <Receipt className="h-4 w-4" />
+                          View
+                        </a>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Expense actions">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openForm(expense)}>
+                            <Edit className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => chooseReceipt(expense.id)}
+                            disabled={uploadingFor !== null}
+                          >
+                            <Upload className="h-4 w-4 mr-2" />
+                            {expense.receiptUrl ? "Replace Receipt" : "Upload Receipt"}
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() => setDeleting(expense.id)}
+                            className="text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file && uploadTarget.current) handleReceiptUpload(uploadTarget.current, file);
+              e.target.value = "";
+            }}
+          />
+        </CardContent>
+      </Card>
+
+      <ExpenseFormDialog open={formOpen} onOpenChange={setFormOpen} expense={editing} />
+
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Expense</DialogTitle>
+            <DialogDescription>
+              Delete this expense and its receipt? Recurring expenses are removed from every
+              period.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleting && deleteMutation.mutate({ id: deleting })}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -43,12 +43,14 @@ import {
   ChannelSelector,
   ChannelId,
   Condition,
+  NetPriceCalculator,
 } from "@/components/inventory";
 import {
   CrossListDialog,
   CrossListStatus,
   AssistedChannel,
 } from "@/components/listings";
+import { ItemAutopilotRules } from "@/components/autopilot/item-rules";
 
 import {
   ArrowLeft,
@@ -62,6 +64,7 @@ import {
   DollarSign,
   RefreshCw,
   MapPin,
+  Tag,
 } from "lucide-react";
 
 // ============ TYPES ============
@@ -119,12 +122,25 @@ export default function EditListingPage({ params }: EditListingPageProps) {
   const [bin, setBin] = React.useState<string>("");
   const [shelf, setShelf] = React.useState<string>("");
 
+  // Comma-separated tags, used to scope autopilot rules
+  const [tags, setTags] = React.useState<string>("");
+
   // Cross-list dialog state
   const [crossListDialogOpen, setCrossListDialogOpen] = React.useState(false);
   const [crossListChannel, setCrossListChannel] = React.useState<AssistedChannel | null>(null);
 
   // Queries
   const { data: item, isLoading } = trpc.inventory.getById.useQuery({ id });
+  const { data: ebayPolicies } = trpc.channels.getEbayPolicies.useQuery();
+
+  // Offer per-item policy overrides once the seller has loaded their eBay policies
+  const policyOptions = React.useMemo(
+    () =>
+      ebayPolicies?.policies
+        ? { ...ebayPolicies.policies, defaults: ebayPolicies.defaults }
+        : null,
+    [ebayPolicies]
+  );
 
   // Cross-list template query (only when dialog is open)
   const { data: crossListTemplate, isLoading: isLoadingTemplate } =
@@ -145,6 +161,7 @@ export default function EditListingPage({ params }: EditListingPageProps) {
         costBasis: item.costBasis,
         itemSpecifics: item.itemSpecifics || {},
         suggestedCategory: item.suggestedCategory,
+        listingPolicies: item.listingPolicies,
       });
       setImages(
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -161,6 +178,7 @@ export default function EditListingPage({ params }: EditListingPageProps) {
       setStorageLocation(item.storageLocation ?? "");
       setBin(item.bin ?? "");
       setShelf(item.shelf ?? "");
+      setTags(item.tags.join(", "));
     }
   }, [item, formData]);
 
@@ -176,6 +194,8 @@ export default function EditListingPage({ params }: EditListingPageProps) {
       setHasChanges(false);
       utils.inventory.getById.invalidate({ id });
       utils.inventory.list.invalidate();
+      // Category, tags, and price decide which autopilot rules apply
+      utils.autopilot.getItemRules.invalidate({ itemId: id });
     },
   });
 
@@ -237,9 +257,14 @@ export default function EditListingPage({ params }: EditListingPageProps) {
         ? formData.itemSpecifics
         : null,
       suggestedCategory: formData.suggestedCategory,
+      listingPolicies: formData.listingPolicies ?? null,
       storageLocation: storageLocation.trim() || null,
       bin: bin.trim() || null,
       shelf: shelf.trim() || null,
+      tags: tags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
     });
   };
 
@@ -444,6 +469,7 @@ export default function EditListingPage({ params }: EditListingPageProps) {
                   onChange={handleFormChange}
                   aiConfidence={item.aiConfidence}
                   errors={errors}
+                  policyOptions={policyOptions}
                 />
               )}
             </CardContent>
@@ -515,6 +541,36 @@ export default function EditListingPage({ params }: EditListingPageProps) {
               </div>
             </CardContent>
           </Card>
+
+          {/* Tags Card */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Tag className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <CardTitle>Tags</CardTitle>
+                  <CardDescription>
+                    Group items for autopilot rules and filtering.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Input
+                value={tags}
+                onChange={(e) => {
+                  setTags(e.target.value);
+                  setHasChanges(true);
+                }}
+                placeholder="e.g. vintage, designer"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Separate tags with commas
+              </p>
+            </CardContent>
+          </Card>
+
+          <ItemAutopilotRules itemId={id} />
         </TabsContent>
 
         {/* Photos Tab */}
@@ -657,6 +713,25 @@ export default function EditListingPage({ params }: EditListingPageProps) {
             </CardContent>
           </Card>
 
+          {/* Net Price Card */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Net at This Price</CardTitle>
+              <CardDescription>
+                What you keep on each channel after fees, payment processing, postage, and cost.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoaded && (
+                <NetPriceCalculator
+                  askingPrice={formData.askingPrice}
+                  costBasis={formData.costBasis}
+                  category={formData.suggestedCategory}
+                />
+              )}
+            </CardContent>
+          </Card>
+
           {/* Cross-List Card */}
           <Card>
             <CardHeader>
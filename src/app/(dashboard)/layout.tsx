@@ -12,6 +12,9 @@ import {
   Zap,
   Home,
   Menu,
+  HandCoins,
+  ShoppingBag,
+  Receipt,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -23,12 +26,16 @@ import {
 import { ErrorBoundary } from "@/components/error-boundary";
 import { cn } from "@/lib/utils";
 import { UserProfile } from "@/components/user-profile";
+import { NotificationBell } from "@/components/notification-bell";
 
 const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: Home },
   { name: "Inventory", href: "/inventory", icon: Package },
   { name: "Listings", href: "/listings", icon: Tags },
   { name: "Orders", href: "/orders", icon: ShoppingCart },
+  { name: "Offers", href: "/offers", icon: HandCoins },
+  { name: "Sourcing", href: "/sourcing", icon: ShoppingBag },
+  { name: "Expenses", href: "/expenses", icon: Receipt },
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
   { name: "Autopilot", href: "/settings/autopilot", icon: Zap },
   { name: "Settings", href: "/settings", icon: Settings },
@@ -73,11 +80,12 @@ export default function DashboardLayout({
     <div className="flex min-h-screen">
       {/* Desktop Sidebar - hidden on mobile */}
       <aside className="hidden md:flex md:w-64 md:flex-col md:border-r md:bg-card">
-        <div className="flex h-16 items-center border-b px-6">
+        <div className="flex h-16 items-center justify-between border-b pl-6 pr-3">
           <Link href="/dashboard" className="flex items-center gap-2 font-bold text-lg">
             <Package className="h-6 w-6" />
             ResellerOS
           </Link>
+          <NotificationBell />
         </div>
         <div className="flex flex-1 flex-col justify-between">
           <NavLinks />
@@ -118,6 +126,9 @@ export default function DashboardLayout({
             <Package className="h-5 w-5" />
             ResellerOS
           </Link>
+          <div className="ml-auto">
+            <NotificationBell />
+          </div>
         </header>
 
         <main className="flex-1 overflow-auto">
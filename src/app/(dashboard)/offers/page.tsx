@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { trpc } from "@/lib/trpc/client";
+import { OffersTable, OfferDetailDialog } from "@/components/offers";
+import { type OfferStatus } from "@/components/offers/offers-table";
+
+const PAGE_SIZE = 25;
+
+export default function OffersPage() {
+  const [offset, setOffset] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<OfferStatus | "all">("all");
+  const [selectedOfferId, setSelectedOfferId] = useState<string | null>(null);
+
+  // Fetch offers
+  const offersQuery = trpc.offers.list.useQuery({
+    limit: PAGE_SIZE,
+    offset,
+    status: statusFilter === "all" ? undefined : statusFilter,
+  });
+
+  // Fetch offer detail when selected
+  const offerDetailQuery = trpc.offers.getById.useQuery(
+    { id: selectedOfferId! },
+    { enabled: !!selectedOfferId }
+  );
+
+  const handleStatusFilter = (status: OfferStatus | "all") => {
+    setStatusFilter(status);
+    setOffset(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Offers</h1>
+        <p className="text-muted-foreground">
+          Buyer offers and negotiation history across your listings
+          {offersQuery.data && offersQuery.data.pendingCount > 0 && (
+            <> &middot; {offersQuery.data.pendingCount} pending</>
+          )}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Offer Inbox</CardTitle>
+          <CardDescription>
+            Each row is one offer; counter-offers from the same buyer advance the round.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OffersTable
+            offers={
+              (offersQuery.data?.offers ?? []) as Parameters<typeof OffersTable>[0]["offers"]
+            }
+            isLoading={offersQuery.isLoading}
+            limit={PAGE_SIZE}
+            offset={offset}
+            hasMore={offersQuery.data?.hasMore}
+            onOffsetChange={setOffset}
+            onOfferClick={(offer) => setSelectedOfferId(offer.id)}
+            onStatusFilter={handleStatusFilter}
+            statusFilter={statusFilter}
+          />
+        </CardContent>
+      </Card>
+
+      <OfferDetailDialog
+        offer={offerDetailQuery.data as Parameters<typeof OfferDetailDialog>[0]["offer"]}
+        open={!!selectedOfferId}
+        onOpenChange={(open) => !open && setSelectedOfferId(null)}
+      />
+    </div>
+  );
+}
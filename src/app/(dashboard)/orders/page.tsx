@@ -1,12 +1,15 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import {
   RefreshCw,
   Plus,
   DollarSign,
   TrendingUp,
   Loader2,
+  Upload,
+  Undo2,
 } from "lucide-react";
 import {
   Card,
@@ -22,7 +25,9 @@ import {
   OrdersTable,
   OrderDetailDialog,
   RecordSaleDialog,
+  ImportSalesDialog,
 } from "@/components/orders";
+import { ReturnFormDialog, type ReturnOrderDetails } from "@/components/returns";
 import { type Channel, type OrderStatus } from "@/lib/constants";
 
 function formatCurrency(amount: number | null | undefined): string {
@@ -39,6 +44,8 @@ export default function OrdersPage() {
   const [channelFilter, setChannelFilter] = useState<Channel | "all">("all");
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [isRecordSaleOpen, setIsRecordSaleOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [returnOrder, setReturnOrder] = useState<ReturnOrderDetails | null>(null);
 
   const utils = trpc.useUtils();
 
@@ -59,10 +66,10 @@ export default function OrdersPage() {
     { enabled: !!selectedOrderId }
   );
 
-  // Fetch active inventory items for record sale dialog
+  // Fetch active inventory items for the record sale and import dialogs
   const inventoryQuery = trpc.inventory.list.useQuery(
     { status: "active", limit: 100 },
-    { enabled: isRecordSaleOpen }
+    { enabled: isRecordSaleOpen || isImportOpen }
   );
 
   // Sync from eBay mutation
@@ -107,6 +114,19 @@ export default function OrdersPage() {
     setSelectedOrderId(order.id);
   };
 
+  const handleStartReturn = () => {
+    const order = orderDetailQuery.data;
+    if (!order) return;
+    setReturnOrder({
+      id: order.id,
+      itemTitle: order.item?.title ?? "Unknown Item",
+      salePrice: order.salePrice,
+      shippingPaid: order.shippingPaid,
+      quantity: order.quantity,
+    });
+    setSelectedOrderId(null);
+  };
+
   const handleMarkShipped = async (data: {
     orderId: string;
     trackingNumber: string;
@@ -125,6 +145,7 @@ export default function OrdersPage() {
     itemId: string;
     channel: Channel;
     salePrice: number;
+    quantity: number;
     platformFees?: number;
     shippingCost?: number;
     buyerUsername?: string;
@@ -133,6 +154,7 @@ export default function OrdersPage() {
       itemId: data.itemId,
       channel: data.channel as "poshmark" | "mercari" | "depop",
       salePrice: data.salePrice,
+      quantity: data.quantity,
       platformFees: data.platformFees,
       shippingCost: data.shippingCost,
       buyerUsername: data.buyerUsername,
@@ -165,6 +187,20 @@ export default function OrdersPage() {
             )}
             Sync from eBay
           </Button>
+          <Button variant="outline" className="h-11 md:h-9" asChild>
+            <Link href="/orders/returns">
+              <Undo2 className="mr-2 h-4 w-4" />
+              Returns
+            </Link>
+          </Button>
+          <Button
+            variant="outline"
+            className="h-11 md:h-9"
+            onClick={() => setIsImportOpen(true)}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Import Sales
+          </Button>
           <Button className="h-11 md:h-9" onClick={() => setIsRecordSaleOpen(true)}>
             <Plus className="mr-2 h-4 w-4" />
             Record Sale
@@ -294,6 +330,14 @@ export default function OrdersPage() {
         onOpenChange={(open) => !open && setSelectedOrderId(null)}
         onMarkShipped={handleMarkShipped}
         isShipping={markShippedMutation.isPending}
+        onStartReturn={handleStartReturn}
+      />
+
+      {/* Return Form Dialog */}
+      <ReturnFormDialog
+        open={!!returnOrder}
+        onOpenChange={(open) => !open && setReturnOrder(null)}
+        order={returnOrder}
       />
 
       {/* Record Sale Dialog */}
@@ -308,12 +352,33 @@ export default function OrdersPage() {
             sku: item.sku,
             askingPrice: item.askingPrice,
             costBasis: item.costBasis,
+            quantity: item.quantity,
+            suggestedCategory: item.suggestedCategory,
           })) as Parameters<typeof RecordSaleDialog>[0]["items"]
         }
         isLoadingItems={inventoryQuery.isLoading}
         onSubmit={handleRecordSale}
         isSubmitting={recordSaleMutation.isPending}
       />
+
+      {/* Import Sales Dialog */}
+      <ImportSalesDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        items={
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (inventoryQuery.data?.items ?? []).map((item: any) => ({
+            id: item.id,
+            title: item.title,
+            sku: item.sku,
+          }))
+        }
+        onImported={() => {
+          utils.orders.list.invalidate();
+          utils.orders.getStats.invalidate();
+          utils.inventory.list.invalidate();
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,267 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  DollarSign,
+  Loader2,
+  MoreHorizontal,
+  PackageCheck,
+  PackageOpen,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  RefundDialog,
+  RestockDialog,
+  type RefundReturnDetails,
+  type RestockReturnDetails,
+} from "@/components/returns";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, formatDate, truncate } from "@/lib/utils";
+import { CHANNEL_NAMES, type Channel, type Condition } from "@/lib/constants";
+
+type ReturnStatus = "requested" | "received" | "refunded" | "restocked";
+
+interface ReturnRow {
+  id: string;
+  channel: Channel;
+  status: ReturnStatus;
+  quantity: number;
+  reason: string | null;
+  refundAmount: number | null;
+  returnShippingCost: number | null;
+  refundedAt: Date | null;
+  requestedAt: Date;
+  itemTitle: string;
+  itemSku: string;
+  itemCondition: Condition;
+  salePrice: number;
+  shippingPaid: number | null;
+  orderQuantity: number;
+  externalOrderId: string | null;
+  buyerUsername: string | null;
+}
+
+const STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  received: "Received",
+  refunded: "Refunded",
+  restocked: "Restocked",
+};
+
+const STATUS_VARIANTS: Record<ReturnStatus, "warning" | "info" | "secondary" | "success"> = {
+  requested: "warning",
+  received: "info",
+  refunded: "secondary",
+  restocked: "success",
+};
+
+export default function ReturnsPage() {
+  const utils = trpc.useUtils();
+  const [status, setStatus] = React.useState<ReturnStatus | "all">("all");
+  const [refunding, setRefunding] = React.useState<RefundReturnDetails | null>(null);
+  const [restocking, setRestocking] = React.useState<RestockReturnDetails | null>(null);
+
+  const returnsQuery = trpc.returns.list.useQuery(status === "all" ? undefined : { status });
+  const returns: ReturnRow[] = returnsQuery.data ?? [];
+
+  const receivedMutation = trpc.returns.markReceived.useMutation({
+    onSuccess: () => utils.returns.list.invalidate(),
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <Link
+            href="/orders"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Orders
+          </Link>
+          <h1 className="text-3xl font-bold">Returns</h1>
+          <p className="text-muted-foreground">
+            Refund returned sales and put the items back in inventory
+          </p>
+        </div>
+        <Select
+          value={status}
+          onValueChange={(value) => setStatus(value as ReturnStatus | "all")}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All returns</SelectItem>
+            {(Object.keys(STATUS_LABELS) as ReturnStatus[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Returns</CardTitle>
+          <CardDescription>
+            eBay return requests are picked up automatically. Start returns from other channels
+            on the order.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {receivedMutation.error && (
+            <p className="text-sm text-destructive mb-2">{receivedMutation.error.message}</p>
+          )}
+          {returnsQuery.isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : returns.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <p className="text-muted-foreground">No returns</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Returns you start from an order or receive on eBay show up here
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Refund</TableHead>
+                  <TableHead className="w-[50px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returns.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <p className="font-medium">{truncate(entry.itemTitle, 40)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(entry.requestedAt)}
+                        {entry.quantity > 1 && <> · {entry.quantity} units</>}
+                        {entry.buyerUsername && <> · {entry.buyerUsername}</>}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {CHANNEL_NAMES[entry.channel]}
+                      {entry.externalOrderId && (
+                        <p className="text-xs text-muted-foreground">#{entry.externalOrderId}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.reason ? truncate(entry.reason, 40) : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[entry.status]}>
+                        {STATUS_LABELS[entry.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {entry.refundedAt ? formatCurrency(entry.refundAmount ?? 0) : "—"}
+                      {entry.returnShippingCost ? (
+                        <p className="text-xs text-muted-foreground">
+                          + {formatCurrency(entry.returnShippingCost)} shipping
+                        </p>
+                      ) : null}
+                    </TableCell>
+                    <TableCell>
+                      {receivedMutation.isPending && receivedMutation.variables?.id === entry.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : entry.status === "restocked" && entry.refundedAt ? null : (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" aria-label="Return actions">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {entry.status === "requested" && (
+                              <DropdownMenuItem
+                                onClick={() => receivedMutation.mutate({ id: entry.id })}
+                              >
+                                <PackageOpen className="h-4 w-4 mr-2" />
+                                Mark Received
+                              </DropdownMenuItem>
+                            )}
+                            {!entry.refundedAt && (
+                              <DropdownMenuItem onClick={() => setRefunding(entry)}>
+                                <DollarSign className="h-4 w-4 mr-2" />
+                                Record Refund
+                              </DropdownMenuItem>
+                            )}
+                            {entry.status !== "restocked" && (
+                              <DropdownMenuItem
+                                onClick={() => setRestocking(entry)}
+                                disabled={entry.status === "requested"}
+                              >
+                                <PackageCheck className="h-4 w-4 mr-2" />
+                                Restock
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RefundDialog
+        open={refunding !== null}
+        onOpenChange={(open) => !open && setRefunding(null)}
+        entry={refunding}
+      />
+
+      <RestockDialog
+        open={restocking !== null}
+        onOpenChange={(open) => !open && setRestocking(null)}
+        entry={restocking}
+      />
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 "use client";
 
-import { ArrowLeft, Zap, Clock, TrendingDown, Bell } from "lucide-react";
+import { ArrowLeft, Zap, Clock, TrendingDown, Bell, Layers } from "lucide-react";
 import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { OfferRulesConfig } from "@/components/autopilot/offer-rules-config";
 import { RepriceRulesConfig } from "@/components/autopilot/reprice-rules-config";
 import { PendingActions } from "@/components/autopilot/pending-actions";
+import { ScopedRules } from "@/components/autopilot/scoped-rules";
 import { trpc } from "@/lib/trpc/client";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -81,36 +83,42 @@ function RecentActivityCard() {
   );
 }
 
+const RATE_LIMIT_LABELS = {
+  ebayRevisions: "eBay Revisions",
+  reprices: "Auto Reprices",
+  autoAccepts: "Auto Accepts",
+  autoCounters: "Auto Counters",
+  relists: "Relists",
+} as const;
+
 function RateLimitCard() {
   const { data: rateLimits } = trpc.autopilot.getRateLimitStatus.useQuery();
 
   if (!rateLimits) return null;
 
+  const buckets = Object.keys(RATE_LIMIT_LABELS) as Array<keyof typeof RATE_LIMIT_LABELS>;
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="text-lg">Daily Limits</CardTitle>
-        <CardDescription>Remaining automated actions today</CardDescription>
+        <CardDescription>
+          Remaining automated actions today. Resets{" "}
+          {formatDistanceToNow(new Date(rateLimits.ebayRevisions.resetsAt), {
+            addSuffix: true,
+          })}
+          .
+        </CardDescription>
       </CardHeader>
       <CardContent className="space-y-3">
-        <div className="flex items-center justify-between">
-          <span className="text-sm">eBay Revisions</span>
-          <span className="text-sm font-medium">
-            {rateLimits.ebayRevisions.remaining} / {rateLimits.ebayRevisions.daily}
-          </span>
-        </div>
-        <div className="flex items-center justify-between">
-          <span className="text-sm">Auto Reprices</span>
-          <span className="text-sm font-medium">
-            {rateLimits.reprices.remaining} / {rateLimits.reprices.daily}
-          </span>
-        </div>
-        <div className="flex items-center justify-between">
-          <span className="text-sm">Auto Accepts</span>
-          <span className="text-sm font-medium">
-            {rateLimits.autoAccepts.remaining} / {rateLimits.autoAccepts.daily}
-          </span>
-        </div>
+        {buckets.map((bucket) => (
+          <div key={bucket} className="flex items-center justify-between">
+            <span className="text-sm">{RATE_LIMIT_LABELS[bucket]}</span>
+            <span className="text-sm font-medium">
+              {rateLimits[bucket].remaining} / {rateLimits[bucket].limit}
+            </span>
+          </div>
+        ))}
       </CardContent>
     </Card>
   );
@@ -162,6 +170,10 @@ export default function AutopilotSettingsPage() {
                 <TrendingDown className="h-4 w-4" />
                 Repricing
               </TabsTrigger>
+              <TabsTrigger value="overrides" className="gap-2">
+                <Layers className="h-4 w-4" />
+                Overrides
+              </TabsTrigger>
               <TabsTrigger value="notifications" className="gap-2" disabled>
                 <Bell className="h-4 w-4" />
                 Notifications
@@ -180,6 +192,10 @@ export default function AutopilotSettingsPage() {
               <RepriceRulesConfig />
             </TabsContent>
 
+            <TabsContent value="overrides">
+              <ScopedRules />
+            </TabsContent>
+
             <TabsContent value="notifications">
               <Card>
                 <CardHeader>
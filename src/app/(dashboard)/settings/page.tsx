@@ -1,6 +1,6 @@
 "use client";
 
-import { Link as LinkIcon, Zap, User, History, Bell } from "lucide-react";
+import { Link as LinkIcon, Zap, User, History, Bell, FileText } from "lucide-react";
 import Link from "next/link";
 import {
   Card,
@@ -14,6 +14,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AuditLog } from "@/components/audit/audit-log";
 import { NotificationPreferences } from "@/components/settings/notification-preferences";
 import { ConnectedChannels } from "@/components/settings/connected-channels";
+import { EbayPolicies } from "@/components/settings/ebay-policies";
+import { PlanUsage } from "@/components/settings/plan-usage";
 
 export default function SettingsPage() {
   return (
@@ -40,17 +42,18 @@ export default function SettingsPage() {
 
         <TabsContent value="general" className="space-y-6">
           <div className="grid gap-6 md:grid-cols-2">
-            <Card>
+            <Card id="plan">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <User className="h-5 w-5" />
                   Account
                 </CardTitle>
                 <CardDescription>
-                  Manage your profile and subscription
+                  Your subscription and this month&apos;s usage
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
+                <PlanUsage />
                 <Button variant="outline" className="w-full">
                   Manage Account
                 </Button>
@@ -72,6 +75,22 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
 
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  eBay Listing Policies
+                </CardTitle>
+                <CardDescription>
+                  Default shipping, payment, and return policies and ship-from
+                  location for new eBay listings
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EbayPolicies />
+              </CardContent>
+            </Card>
+
             <Card className="md:col-span-2">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
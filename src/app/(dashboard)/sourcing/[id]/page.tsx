@@ -0,0 +1,278 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Edit, Loader2, Receipt, Trash2, Upload } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  LotFormDialog,
+  LotItemsTable,
+  ALLOCATION_METHOD_LABELS,
+  type AllocationMethod,
+} from "@/components/sourcing";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+interface LotPageProps {
+  params: { id: string };
+}
+
+export default function LotPage({ params }: LotPageProps) {
+  const { id } = params;
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [editOpen, setEditOpen] = React.useState(false);
+  const [deleteOpen, setDeleteOpen] = React.useState(false);
+  const [uploading, setUploading] = React.useState(false);
+  const [uploadError, setUploadError] = React.useState<string | null>(null);
+
+  const { data: lot, isLoading } = trpc.sourcing.get.useQuery({ id });
+
+  const getUploadUrl = trpc.sourcing.getReceiptUploadUrl.useMutation();
+  const addReceipt = trpc.sourcing.addReceipt.useMutation({
+    onSuccess: () => utils.sourcing.get.invalidate({ id }),
+  });
+  const deleteMutation = trpc.sourcing.delete.useMutation({
+    onSuccess: () => {
+      utils.sourcing.list.invalidate();
+      utils.inventory.list.invalidate();
+      router.push("/sourcing");
+    },
+  });
+
+  const handleReceiptUpload = async (file: File) => {
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const contentType = file.type as
+        | "image/jpeg"
+        | "image/jpg"
+        | "image/png"
+        | "image/webp"
+        | "image/heic"
+        | "image/heif";
+
+      const { uploadUrl, key } = await getUploadUrl.mutateAsync({ lotId: id, contentType });
+      const response = await fetch(uploadUrl, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": file.type },
+      });
+      if (!response.ok) {
+        throw new Error("Upload failed");
+      }
+      await addReceipt.mutateAsync({ lotId: id, key });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 max-w-4xl mx-auto">
+        <Skeleton className="h-10 w-1/2" />
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!lot) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <h1 className="text-2xl font-bold mb-2">Lot Not Found</h1>
+        <p className="text-muted-foreground mb-4">
+          The lot you are looking for does not exist or has been deleted.
+        </p>
+        <Button asChild>
+          <Link href="/sourcing">Back to Sourcing</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/sourcing">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold line-clamp-1">{lot.name}</h1>
+              <Badge variant="secondary">{ALLOCATION_METHOD_LABELS[lot.allocationMethod as AllocationMethod]}</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {formatDate(lot.purchasedAt)}
+              {lot.source && <> · {lot.source}</>}
+              {lot.location && <> · {lot.location}</>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setEditOpen(true)}>
+            <Edit className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setDeleteOpen(true)}
+            className="text-destructive hover:text-destructive"
+            aria-label="Delete lot"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <Card>
+        <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-4 pt-6">
+          <div>
+            <p className="text-xs text-muted-foreground">Total cost</p>
+            <p className="text-lg font-semibold">{formatCurrency(lot.totalCost)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Items</p>
+            <p className="text-lg font-semibold">{lot.items.length}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Unallocated</p>
+            <p className="text-lg font-semibold">{formatCurrency(lot.unallocated)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Mileage</p>
+            <p className="text-lg font-semibold">{lot.mileage ?? 0} mi</p>
+          </div>
+          {lot.notes && (
+            <p className="col-span-2 sm:col-span-4 text-sm text-muted-foreground">{lot.notes}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Items */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+          <CardDescription>
+            Cost basis is recalculated whenever items are added or removed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LotItemsTable lotId={lot.id} allocationMethod={lot.allocationMethod} items={lot.items} />
+        </CardContent>
+      </Card>
+
+      {/* Receipts */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="h-5 w-5" />
+                Receipts
+              </CardTitle>
+              <CardDescription>Photos of what you paid, kept for your records</CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+            >
+              {uploading ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Upload
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleReceiptUpload(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {uploadError && <p className="text-sm text-destructive mb-2">{uploadError}</p>}
+          {(lot.receiptUrls ?? []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">No receipts uploaded</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {(lot.receiptUrls ?? []).map((url: string, i: number) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm underline-offset-4 hover:underline"
+                >
+                  Receipt {i + 1}
+                </a>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <LotFormDialog open={editOpen} onOpenChange={setEditOpen} lot={lot} />
+
+      <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Lot</DialogTitle>
+            <DialogDescription>
+              Delete this lot? Its {lot.items.length} item(s) stay in your inventory but lose
+              their cost basis.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate({ id })}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
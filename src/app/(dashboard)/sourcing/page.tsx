@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Plus } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LotFormDialog } from "@/components/sourcing";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, formatDate, truncate } from "@/lib/utils";
+
+export default function SourcingPage() {
+  const router = useRouter();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const lotsQuery = trpc.sourcing.list.useQuery();
+  const lots = lotsQuery.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Sourcing</h1>
+          <p className="text-muted-foreground">
+            Purchase lots and how their cost splits across the items you bought
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Lot
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lots</CardTitle>
+          <CardDescription>
+            Profit is what the lot&apos;s sales brought in after fees and shipping, less the lot
+            cost.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lotsQuery.isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : lots.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <p className="text-muted-foreground">No lots yet</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Create a lot for your next haul, then add its items from your inventory
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Sold</TableHead>
+                  <TableHead className="text-right">Profit</TableHead>
+                  <TableHead className="text-right">ROI</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lots.map((lot) => (
+                  <TableRow key={lot.lotId}>
+                    <TableCell>
+                      <Link href={`/sourcing/${lot.lotId}`} className="hover:underline">
+                        <p className="font-medium">{truncate(lot.name, 40)}</p>
+                      </Link>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(lot.purchasedAt)}
+                        {lot.source && <> · {lot.source}</>}
+                      </p>
+                    </TableCell>
+                    <TableCell>{lot.location ?? "—"}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(lot.totalCost)}</TableCell>
+                    <TableCell className="text-right">
+                      {lot.soldCount}/{lot.itemCount}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className={lot.profit >= 0 ? "text-green-600" : "text-red-600"}>
+                        {formatCurrency(lot.profit)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {lot.roi !== null ? `${Math.round(lot.roi * 100)}%` : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <LotFormDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onSaved={(lotId) => router.push(`/sourcing/${lotId}`)}
+      />
+    </div>
+  );
+}
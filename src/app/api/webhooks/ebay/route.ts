@@ -4,6 +4,7 @@
  * Receives real-time notifications from eBay for:
  * - Order creation/updates (MARKETPLACE_ACCOUNT_DELETION, ORDER_*)
  * - Item sold notifications
+ * - Best Offer notifications (fed to the autopilot offer engine)
  *
  * https://developer.ebay.com/api-docs/sell/notification/overview.html
  */
@@ -36,6 +37,7 @@ const SUPPORTED_TOPICS = [
   "MARKETPLACE.ORDER.PAYMENT_COMPLETE",
   "MARKETPLACE.ORDER.SHIPPED",
   "MARKETPLACE.ITEM.SOLD",
+  "MARKETPLACE.BEST_OFFER.CREATED",
 ];
 
 /**
@@ -123,6 +125,19 @@ export async function POST(request: NextRequest) {
           },
         });
         break;
+
+      case "MARKETPLACE.BEST_OFFER.CREATED":
+        await inngest.send({
+          name: "ebay/offer.received",
+          data: {
+            notificationId,
+            topic,
+            itemId: (data as { itemId?: string }).itemId,
+            bestOfferId: (data as { bestOfferId?: string }).bestOfferId,
+            payload: data,
+          },
+        });
+        break;
     }
 
     return NextResponse.json({
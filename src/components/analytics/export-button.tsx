@@ -50,7 +50,12 @@ export function ExportButton({ period }: ExportButtonProps) {
     { enabled: false }
   );
 
-  const handleExport = async (type: "sales" | "inventory" | "profit") => {
+  const pnlExport = trpc.analytics.exportPnLCSV.useQuery(
+    { period },
+    { enabled: false }
+  );
+
+  const handleExport = async (type: "sales" | "inventory" | "profit" | "pnl") => {
     setIsExporting(type);
     try {
       let result;
@@ -64,6 +69,9 @@ export function ExportButton({ period }: ExportButtonProps) {
         case "profit":
           result = await profitExport.refetch();
           break;
+        case "pnl":
+          result = await pnlExport.refetch();
+          break;
       }
 
       if (result.data) {
@@ -121,6 +129,13 @@ export function ExportButton({ period }: ExportButtonProps) {
           <FileSpreadsheet className="mr-2 h-4 w-4" />
           Profit Report (CSV)
         </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => handleExport("pnl")}
+          disabled={isExporting !== null}
+        >
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          P&amp;L Statement (CSV)
+        </DropdownMenuItem>
         <DropdownMenuItem
           onClick={() => handleExport("inventory")}
           disabled={isExporting !== null}
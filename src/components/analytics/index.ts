@@ -5,3 +5,6 @@ export { TopItemsTable } from "./top-items-table";
 export { SlowMoversTable } from "./slow-movers-table";
 export { InventoryValueCard } from "./inventory-value-card";
 export { ExportButton } from "./export-button";
+export { PromotionsTable } from "./promotions-table";
+export { SourcingRoiTable } from "./sourcing-roi-table";
+export { ProfitLossCard } from "./profit-loss-card";
@@ -0,0 +1,103 @@
+"use client";
+
+import { Receipt } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils";
+import { EXPENSE_CATEGORY_NAMES, type ExpenseCategory } from "@/lib/constants";
+
+interface ProfitAndLoss {
+  orderCount: number;
+  revenue: number;
+  refunds: number;
+  costOfGoods: number;
+  platformFees: number;
+  shippingCost: number;
+  grossProfit: number;
+  expenses: {
+    total: number;
+    byCategory: Array<{ category: ExpenseCategory; amount: number }>;
+  };
+  netProfit: number;
+}
+
+interface ProfitLossCardProps {
+  data: ProfitAndLoss | undefined;
+  loading?: boolean;
+}
+
+function Line({
+  label,
+  amount,
+  negative = false,
+  bold = false,
+  indent = false,
+}: {
+  label: string;
+  amount: number;
+  negative?: boolean;
+  bold?: boolean;
+  indent?: boolean;
+}) {
+  return (
+    <div
+      className={`flex items-center justify-between py-1 text-sm ${bold ? "font-semibold border-t" : ""} ${indent ? "pl-4 text-muted-foreground" : ""}`}
+    >
+      <span>{label}</span>
+      <span>{negative ? `(${formatCurrency(amount)})` : formatCurrency(amount)}</span>
+    </div>
+  );
+}
+
+export function ProfitLossCard({ data, loading = false }: ProfitLossCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Profit &amp; Loss
+        </CardTitle>
+        <CardDescription>Sales less cost of goods, selling costs, and business expenses</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading || !data ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-6 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : (
+          <div>
+            <Line label={`Revenue (${data.orderCount} orders)`} amount={data.revenue} />
+            {data.refunds > 0 && <Line label="Refunds" amount={data.refunds} negative />}
+            <Line label="Cost of goods sold" amount={data.costOfGoods} negative />
+            <Line label="Platform fees" amount={data.platformFees} negative />
+            <Line label="Shipping" amount={data.shippingCost} negative />
+            <Line label="Gross profit" amount={data.grossProfit} bold />
+            {data.expenses.byCategory.map(({ category, amount }) => (
+              <Line
+                key={category}
+                label={EXPENSE_CATEGORY_NAMES[category]}
+                amount={amount}
+                negative
+                indent
+              />
+            ))}
+            <Line label="Total expenses" amount={data.expenses.total} negative />
+            <div
+              className={`flex items-center justify-between border-t pt-2 mt-1 font-bold ${data.netProfit >= 0 ? "text-green-600" : "text-red-600"}`}
+            >
+              <span>Net profit</span>
+              <span>{formatCurrency(data.netProfit)}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
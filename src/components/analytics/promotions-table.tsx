@@ -0,0 +1,167 @@
+"use client";
+
+import { Tag } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatDate, truncate } from "@/lib/utils";
+
+type PromotionStatus = "scheduled" | "running" | "ended" | "cancelled" | "error";
+
+interface PromotionRow {
+  promotionId: string;
+  name: string;
+  status: PromotionStatus;
+  discountPercent: number;
+  startsAt: Date;
+  endsAt: Date;
+  itemCount: number;
+  orderCount: number;
+  unitsSold: number;
+  revenue: number;
+  netProfit: number;
+  sellThrough: number;
+}
+
+interface PromotionsTableProps {
+  data: PromotionRow[];
+  loading?: boolean;
+  onCancel?: (promotionId: string) => void;
+  cancelling?: boolean;
+}
+
+const statusColors: Record<PromotionStatus, string> = {
+  scheduled: "bg-gray-100 text-gray-800",
+  running: "bg-green-100 text-green-800",
+  ended: "bg-blue-100 text-blue-800",
+  cancelled: "bg-gray-100 text-gray-500",
+  error: "bg-red-100 text-red-800",
+};
+
+export function PromotionsTable({
+  data,
+  loading = false,
+  onCancel,
+  cancelling = false,
+}: PromotionsTableProps) {
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Sales
+          </CardTitle>
+          <CardDescription>Orders placed during your markdown sales</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const hasData = data.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Sales
+        </CardTitle>
+        <CardDescription>
+          Orders placed during your markdown sales, counted for the items in each sale
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!hasData ? (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <p className="text-muted-foreground">No sales yet</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Select items in your inventory and choose Run Sale to start one
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sale</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Orders</TableHead>
+                <TableHead className="text-right">Sell-through</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Profit</TableHead>
+                {onCancel && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.map((promotion) => (
+                <TableRow key={promotion.promotionId}>
+                  <TableCell>
+                    <div>
+                      <p className="font-medium">
+                        {truncate(promotion.name, 40)} · {promotion.discountPercent}% off
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(promotion.startsAt)} – {formatDate(promotion.endsAt)} ·{" "}
+                        {promotion.itemCount} item(s)
+                      </p>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={statusColors[promotion.status]}>
+                      {promotion.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{promotion.orderCount}</TableCell>
+                  <TableCell className="text-right">
+                    {Math.round(promotion.sellThrough * 100)}%
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(promotion.revenue)}</TableCell>
+                  <TableCell className="text-right">
+                    <span className={promotion.netProfit >= 0 ? "text-green-600" : "text-red-600"}>
+                      {formatCurrency(promotion.netProfit)}
+                    </span>
+                  </TableCell>
+                  {onCancel && (
+                    <TableCell className="text-right">
+                      {(promotion.status === "scheduled" || promotion.status === "running") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onCancel(promotion.promotionId)}
+                          disabled={cancelling}
+                        >
+                          {promotion.status === "scheduled" ? "Cancel" : "End now"}
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
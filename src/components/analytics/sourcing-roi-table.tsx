@@ -0,0 +1,177 @@
+"use client";
+
+import { MapPin, ShoppingBag } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency, formatDate, truncate } from "@/lib/utils";
+
+interface LotRoiRow {
+  lotId: string;
+  name: string;
+  purchasedAt: Date;
+  location: string | null;
+  totalCost: number;
+  itemCount: number;
+  soldCount: number;
+  revenue: number;
+  profit: number;
+  roi: number | null;
+}
+
+interface LocationRoiRow {
+  location: string;
+  lotCount: number;
+  totalCost: number;
+  mileage: number;
+  itemCount: number;
+  soldCount: number;
+  revenue: number;
+  profit: number;
+  roi: number | null;
+}
+
+interface SourcingRoiTableProps {
+  data?: { lots: LotRoiRow[]; locations: LocationRoiRow[] };
+  loading?: boolean;
+}
+
+const formatRoi = (roi: number | null) => (roi !== null ? `${Math.round(roi * 100)}%` : "—");
+
+const roiColor = (roi: number | null) =>
+  roi === null ? "" : roi >= 0 ? "text-green-600" : "text-red-600";
+
+function LoadingRows() {
+  return (
+    <div className="space-y-2">
+      {[...Array(3)].map((_, i) => (
+        <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+      ))}
+    </div>
+  );
+}
+
+function EmptyState() {
+  return (
+    <div className="flex flex-col items-center justify-center py-8 text-center">
+      <p className="text-muted-foreground">No sourcing lots yet</p>
+      <p className="text-sm text-muted-foreground mt-1">
+        Add items to a lot to see what each haul returned
+      </p>
+    </div>
+  );
+}
+
+export function SourcingRoiTable({ data, loading = false }: SourcingRoiTableProps) {
+  const lots = data?.lots ?? [];
+  const locations = data?.locations ?? [];
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingBag className="h-5 w-5" />
+            ROI by Lot
+          </CardTitle>
+          <CardDescription>Sales after fees and shipping, against what each lot cost</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingRows />
+          ) : lots.length === 0 ? (
+            <EmptyState />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lot</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Profit</TableHead>
+                  <TableHead className="text-right">ROI</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lots.map((lot) => (
+                  <TableRow key={lot.lotId}>
+                    <TableCell>
+                      <p className="font-medium">{truncate(lot.name, 30)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(lot.purchasedAt)} · {lot.soldCount}/{lot.itemCount} sold
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(lot.totalCost)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(lot.profit)}</TableCell>
+                    <TableCell className={`text-right font-medium ${roiColor(lot.roi)}`}>
+                      {formatRoi(lot.roi)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            ROI by Location
+          </CardTitle>
+          <CardDescription>Which places are worth the drive</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingRows />
+          ) : locations.length === 0 ? (
+            <EmptyState />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="text-right">Lots</TableHead>
+                  <TableHead className="text-right">Miles</TableHead>
+                  <TableHead className="text-right">Profit</TableHead>
+                  <TableHead className="text-right">ROI</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((location) => (
+                  <TableRow key={location.location}>
+                    <TableCell>
+                      <p className="font-medium">{truncate(location.location, 30)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(location.totalCost)} spent · {location.soldCount}/
+                        {location.itemCount} sold
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">{location.lotCount}</TableCell>
+                    <TableCell className="text-right">{Math.round(location.mileage)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(location.profit)}</TableCell>
+                    <TableCell className={`text-right font-medium ${roiColor(location.roi)}`}>
+                      {formatRoi(location.roi)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,3 +7,6 @@
 export { OfferRulesConfig } from "./offer-rules-config";
 export { RepriceRulesConfig } from "./reprice-rules-config";
 export { PendingActions } from "./pending-actions";
+export { OfferRulesPreview, RepriceRulesPreview } from "./rules-preview";
+export { ScopedRules } from "./scoped-rules";
+export { ItemAutopilotRules } from "./item-rules";
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState } from "react";
+import { Bot, Save, Trash2, X } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { OfferRuleConfig, RepriceRuleConfig } from "@/server/db/schema";
+
+interface ItemAutopilotRulesProps {
+  itemId: string;
+}
+
+const DEFAULT_OFFER_CONFIG: OfferRuleConfig = {
+  autoAcceptThreshold: 0.9,
+  autoDeclineThreshold: 0.5,
+  autoCounterEnabled: true,
+  counterStrategy: "midpoint",
+  maxCounterRounds: 2,
+  highValueThreshold: 200,
+};
+
+const DEFAULT_REPRICE_CONFIG: RepriceRuleConfig = {
+  strategy: "time_decay",
+  maxDailyDropPercent: 0.1,
+  maxWeeklyDropPercent: 0.2,
+  respectFloorPrice: true,
+  highValueThreshold: 200,
+};
+
+const STRATEGY_LABELS: Record<RepriceRuleConfig["strategy"], string> = {
+  time_decay: "Time decay",
+  performance: "Performance",
+  competitive: "Competitive",
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function describeOfferConfig(config: OfferRuleConfig): string {
+  const counter = config.autoCounterEnabled ? `counter at ${config.counterStrategy}` : "no counters";
+  return `Accept at ${percent(config.autoAcceptThreshold)}+, decline at ${percent(config.autoDeclineThreshold)} or less, ${counter}`;
+}
+
+function describeRepriceConfig(config: RepriceRuleConfig): string {
+  return `${STRATEGY_LABELS[config.strategy]}, up to ${percent(config.maxDailyDropPercent)} per day`;
+}
+
+/**
+ * Shows which autopilot rules govern an item and lets the user
+ * override them for this item alone
+ */
+export function ItemAutopilotRules({ itemId }: ItemAutopilotRulesProps) {
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.autopilot.getItemRules.useQuery({ itemId });
+
+  const [editing, setEditing] = useState<"offer" | "reprice" | null>(null);
+  const [offerDraft, setOfferDraft] = useState<OfferRuleConfig>(DEFAULT_OFFER_CONFIG);
+  const [repriceDraft, setRepriceDraft] = useState<RepriceRuleConfig>(DEFAULT_REPRICE_CONFIG);
+
+  const onSuccess = () => {
+    setEditing(null);
+    utils.autopilot.getItemRules.invalidate({ itemId });
+    utils.autopilot.listRules.invalidate();
+  };
+
+  const saveOverride = trpc.autopilot.upsertScopedRule.useMutation({ onSuccess });
+  const deleteOverride = trpc.autopilot.deleteRule.useMutation({ onSuccess });
+  const toggleOverride = trpc.autopilot.toggleRule.useMutation({ onSuccess });
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Autopilot</CardTitle>
+          <CardDescription>Loading rules...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const startEditing = (ruleType: "offer" | "reprice") => {
+    if (ruleType === "offer") {
+      const source = data.offer.override ?? data.offer.governing;
+      setOfferDraft((source?.config as OfferRuleConfig | undefined) ?? DEFAULT_OFFER_CONFIG);
+    } else {
+      const source = data.reprice.override ?? data.reprice.governing;
+      setRepriceDraft((source?.config as RepriceRuleConfig | undefined) ?? DEFAULT_REPRICE_CONFIG);
+    }
+    setEditing(ruleType);
+  };
+
+  const handleSave = () => {
+    const scope = { scopeType: "item" as const, scopeValue: itemId };
+    if (editing === "offer") {
+      saveOverride.mutate({ ...scope, ruleType: "offer", config: offerDraft });
+    } else if (editing === "reprice") {
+      saveOverride.mutate({
+        ...scope,
+        ruleType: "reprice",
+        config: {
+          strategy: repriceDraft.strategy,
+          maxDailyDrop: repriceDraft.maxDailyDropPercent,
+          maxWeeklyDrop: repriceDraft.maxWeeklyDropPercent,
+          respectFloorPrice: repriceDraft.respectFloorPrice,
+          highValueThreshold: repriceDraft.highValueThreshold,
+        },
+      });
+    }
+  };
+
+  const sections = [
+    {
+      ruleType: "offer" as const,
+      title: "Offers",
+      resolved: data.offer,
+      summary:
+        data.offer.governing && !data.offer.governing.enabled
+          ? "Turned off: offers wait for your review"
+          : describeOfferConfig(
+              (data.offer.governing?.config as OfferRuleConfig | undefined) ?? DEFAULT_OFFER_CONFIG
+            ),
+      // Offers fall back to the built-in defaults when no rule applies
+      fallback: "Built-in defaults",
+    },
+    {
+      ruleType: "reprice" as const,
+      title: "Repricing",
+      resolved: data.reprice,
+      summary:
+        data.reprice.governing?.enabled
+          ? describeRepriceConfig(data.reprice.governing.config as RepriceRuleConfig)
+          : "This item isn't repriced automatically",
+      fallback: "No rule",
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bot className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <CardTitle>Autopilot</CardTitle>
+            <CardDescription>
+              The most specific rule applies: this item, then tag, category, price band, and
+              finally your default rule.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sections.map(({ ruleType, title, resolved, summary, fallback }) => (
+          <div key={ruleType} className="space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Label className="text-base">{title}</Label>
+                  <Badge variant={resolved.governing?.scopeType === "item" ? "info" : "secondary"}>
+                    {resolved.governing?.label ?? fallback}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">{summary}</p>
+              </div>
+
+              {resolved.override ? (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={resolved.override.enabled}
+                    onCheckedChange={(enabled) =>
+                      toggleOverride.mutate({ id: resolved.override!.id, enabled })
+                    }
+                    aria-label={`Enable ${title.toLowerCase()} override`}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => startEditing(ruleType)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteOverride.mutate({ id: resolved.override!.id })}
+                    disabled={deleteOverride.isPending}
+                    aria-label={`Remove ${title.toLowerCase()} override`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => startEditing(ruleType)}>
+                  Override for this item
+                </Button>
+              )}
+            </div>
+
+            {editing === ruleType && (
+              <div className="rounded-lg border p-4 space-y-4">
+                {ruleType === "offer" ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Auto-accept at (%)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={Math.round(offerDraft.autoAcceptThreshold * 100)}
+                        onChange={(e) =>
+                          setOfferDraft((prev) => ({
+                            ...prev,
+                            autoAcceptThreshold: (parseFloat(e.target.value) || 0) / 100,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Auto-decline at (%)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={Math.round(offerDraft.autoDeclineThreshold * 100)}
+                        onChange={(e) =>
+                          setOfferDraft((prev) => ({
+                            ...prev,
+                            autoDeclineThreshold: (parseFloat(e.target.value) || 0) / 100,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="flex items-center justify-between gap-2 sm:flex-col sm:items-start">
+                      <Label className="text-xs text-muted-foreground">Counter offers</Label>
+                      <Switch
+                        checked={offerDraft.autoCounterEnabled}
+                        onCheckedChange={(checked) =>
+                          setOfferDraft((prev) => ({ ...prev, autoCounterEnabled: checked }))
+                        }
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Strategy</Label>
+                      <Select
+                        value={repriceDraft.strategy}
+                        onValueChange={(value) =>
+                          setRepriceDraft((prev) => ({
+                            ...prev,
+                            strategy: value as RepriceRuleConfig["strategy"],
+                          }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Max daily drop (%)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={50}
+                        value={Math.round(repriceDraft.maxDailyDropPercent * 100)}
+                        onChange={(e) =>
+                          setRepriceDraft((prev) => ({
+                            ...prev,
+                            maxDailyDropPercent: (parseFloat(e.target.value) || 0) / 100,
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {saveOverride.error && (
+                  <p className="text-sm text-destructive">{saveOverride.error.message}</p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleSave} disabled={saveOverride.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {saveOverride.isPending ? "Saving..." : "Save Override"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
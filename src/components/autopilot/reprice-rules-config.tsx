@@ -24,6 +24,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { RepriceRulesPreview } from "./rules-preview";
 
 interface RepriceRuleFormData {
   enabled: boolean;
@@ -59,9 +60,11 @@ export function RepriceRulesConfig() {
     },
   });
 
-  // Find the reprice rule from the rules list
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const repriceRule = rules?.find((r: any) => r.ruleType === "reprice");
+  // Find the default (all items) reprice rule from the rules list
+  const repriceRule = rules?.find(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (r: any) => r.ruleType === "reprice" && r.scopeType === "global"
+  );
 
   // Initialize form from fetched data
   useEffect(() => {
@@ -129,175 +132,178 @@ export function RepriceRulesConfig() {
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <div className="flex items-center justify-between">
-          <div>
-            <CardTitle className="flex items-center gap-2">
-              <TrendingDown className="h-5 w-5" />
-              Repricing Rules
-            </CardTitle>
-            <CardDescription>
-              Automatically adjust prices based on time and performance
-            </CardDescription>
-          </div>
-          <div className="flex items-center gap-2">
-            <Label htmlFor="reprice-enabled" className="text-sm">
-              Enable Repricing
-            </Label>
-            <Switch
-              id="reprice-enabled"
-              checked={formData.enabled}
-              onCheckedChange={(checked) => updateField("enabled", checked)}
-            />
-          </div>
-        </div>
-      </CardHeader>
-      <CardContent className="space-y-8">
-        {/* Strategy Selection */}
-        <div className="space-y-2">
-          <Label className="text-base">Repricing Strategy</Label>
-          <p className="text-sm text-muted-foreground">
-            How prices should be adjusted over time
-          </p>
-          <Select
-            value={formData.strategy}
-            onValueChange={(value) =>
-              updateField("strategy", value as "time_decay" | "performance" | "competitive")
-            }
-          >
-            <SelectTrigger>
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="time_decay">
-                Time Decay - Gradually reduce price as listing ages
-              </SelectItem>
-              <SelectItem value="performance">
-                Performance - Adjust based on views and engagement
-              </SelectItem>
-              <SelectItem value="competitive">
-                Competitive - Match similar listings (coming soon)
-              </SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Max Daily Drop */}
-        <div className="space-y-4">
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)] lg:items-start">
+      <Card>
+        <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <Label className="text-base">Max Daily Price Drop</Label>
-              <p className="text-sm text-muted-foreground">
-                Maximum percentage a price can drop in a single day
-              </p>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Repricing Rules
+              </CardTitle>
+              <CardDescription>
+                Automatically adjust prices based on time and performance
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="reprice-enabled" className="text-sm">
+                Enable Repricing
+              </Label>
+              <Switch
+                id="reprice-enabled"
+                checked={formData.enabled}
+                onCheckedChange={(checked) => updateField("enabled", checked)}
+              />
             </div>
-            <span className="text-2xl font-bold text-orange-600 dark:text-orange-400">
-              {(formData.maxDailyDrop * 100).toFixed(0)}%
-            </span>
           </div>
-          <Slider
-            value={[formData.maxDailyDrop * 100]}
-            onValueChange={([value]) =>
-              updateField("maxDailyDrop", value / 100)
-            }
-            min={1}
-            max={25}
-            step={1}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-muted-foreground">
-            <span>1%</span>
-            <span>25%</span>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          {/* Strategy Selection */}
+          <div className="space-y-2">
+            <Label className="text-base">Repricing Strategy</Label>
+            <p className="text-sm text-muted-foreground">
+              How prices should be adjusted over time
+            </p>
+            <Select
+              value={formData.strategy}
+              onValueChange={(value) =>
+                updateField("strategy", value as "time_decay" | "performance" | "competitive")
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="time_decay">
+                  Time Decay - Gradually reduce price as listing ages
+                </SelectItem>
+                <SelectItem value="performance">
+                  Performance - Adjust based on views and engagement
+                </SelectItem>
+                <SelectItem value="competitive">
+                  Competitive - Price to similar active and sold listings
+                </SelectItem>
+              </SelectContent>
+            </Select>
           </div>
-        </div>
 
-        {/* Max Weekly Drop */}
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <Label className="text-base">Max Weekly Price Drop</Label>
-              <p className="text-sm text-muted-foreground">
-                Maximum cumulative price drop over a week
-              </p>
+          {/* Max Daily Drop */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-base">Max Daily Price Drop</Label>
+                <p className="text-sm text-muted-foreground">
+                  Maximum percentage a price can drop in a single day
+                </p>
+              </div>
+              <span className="text-2xl font-bold text-orange-600 dark:text-orange-400">
+                {(formData.maxDailyDrop * 100).toFixed(0)}%
+              </span>
+            </div>
+            <Slider
+              value={[formData.maxDailyDrop * 100]}
+              onValueChange={([value]) =>
+                updateField("maxDailyDrop", value / 100)
+              }
+              min={1}
+              max={25}
+              step={1}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>1%</span>
+              <span>25%</span>
             </div>
-            <span className="text-2xl font-bold text-red-600 dark:text-red-400">
-              {(formData.maxWeeklyDrop * 100).toFixed(0)}%
-            </span>
-          </div>
-          <Slider
-            value={[formData.maxWeeklyDrop * 100]}
-            onValueChange={([value]) =>
-              updateField("maxWeeklyDrop", value / 100)
-            }
-            min={1}
-            max={50}
-            step={1}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-muted-foreground">
-            <span>1%</span>
-            <span>50%</span>
           </div>
-        </div>
 
-        {/* Floor Price Protection */}
-        <div className="space-y-4 border-t pt-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <Label className="text-base">Respect Floor Price</Label>
-              <p className="text-sm text-muted-foreground">
-                Never reprice below the item&apos;s floor price
-              </p>
+          {/* Max Weekly Drop */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-base">Max Weekly Price Drop</Label>
+                <p className="text-sm text-muted-foreground">
+                  Maximum cumulative price drop over a week
+                </p>
+              </div>
+              <span className="text-2xl font-bold text-red-600 dark:text-red-400">
+                {(formData.maxWeeklyDrop * 100).toFixed(0)}%
+              </span>
             </div>
-            <Switch
-              checked={formData.respectFloorPrice}
-              onCheckedChange={(checked) =>
-                updateField("respectFloorPrice", checked)
+            <Slider
+              value={[formData.maxWeeklyDrop * 100]}
+              onValueChange={([value]) =>
+                updateField("maxWeeklyDrop", value / 100)
               }
+              min={1}
+              max={50}
+              step={1}
+              className="w-full"
             />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>1%</span>
+              <span>50%</span>
+            </div>
           </div>
-        </div>
 
-        {/* High Value Threshold */}
-        <div className="space-y-4 border-t pt-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <Label className="text-base">High Value Threshold</Label>
-              <p className="text-sm text-muted-foreground">
-                Items above this price require manual approval for repricing
-              </p>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="text-muted-foreground">$</span>
-              <Input
-                type="number"
-                value={formData.highValueThreshold}
-                onChange={(e) =>
-                  updateField("highValueThreshold", parseFloat(e.target.value) || 0)
+          {/* Floor Price Protection */}
+          <div className="space-y-4 border-t pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-base">Respect Floor Price</Label>
+                <p className="text-sm text-muted-foreground">
+                  Never reprice below the item&apos;s floor price
+                </p>
+              </div>
+              <Switch
+                checked={formData.respectFloorPrice}
+                onCheckedChange={(checked) =>
+                  updateField("respectFloorPrice", checked)
                 }
-                className="w-24"
-                min={0}
-                step={50}
               />
             </div>
           </div>
-        </div>
-      </CardContent>
-      <CardFooter className="flex justify-between">
-        <Button
-          variant="outline"
-          onClick={handleReset}
-          disabled={!hasChanges || saveRule.isPending}
-        >
-          <RotateCcw className="h-4 w-4 mr-2" />
-          Reset
-        </Button>
-        <Button onClick={handleSave} disabled={!hasChanges || saveRule.isPending}>
-          <Save className="h-4 w-4 mr-2" />
-          {saveRule.isPending ? "Saving..." : "Save Changes"}
-        </Button>
-      </CardFooter>
-    </Card>
+
+          {/* High Value Threshold */}
+          <div className="space-y-4 border-t pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-base">High Value Threshold</Label>
+                <p className="text-sm text-muted-foreground">
+                  Items above this price require manual approval for repricing
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">$</span>
+                <Input
+                  type="number"
+                  value={formData.highValueThreshold}
+                  onChange={(e) =>
+                    updateField("highValueThreshold", parseFloat(e.target.value) || 0)
+                  }
+                  className="w-24"
+                  min={0}
+                  step={50}
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={handleReset}
+            disabled={!hasChanges || saveRule.isPending}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset
+          </Button>
+          <Button onClick={handleSave} disabled={!hasChanges || saveRule.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveRule.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </CardFooter>
+      </Card>
+      <RepriceRulesPreview config={formData} />
+    </div>
   );
 }
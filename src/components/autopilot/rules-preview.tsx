@@ -0,0 +1,298 @@
+"use client";
+
+import { useState } from "react";
+import { FlaskConical, Play } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface OfferRulesPreviewProps {
+  config: {
+    autoAcceptThreshold: number;
+    autoDeclineThreshold: number;
+    autoCounterEnabled: boolean;
+    counterStrategy: "floor" | "midpoint" | "asking-5%";
+    maxCounterRounds: number;
+    highValueThreshold: number;
+  };
+}
+
+interface RepriceRulesPreviewProps {
+  config: {
+    strategy: "time_decay" | "performance" | "competitive";
+    maxDailyDrop: number;
+    maxWeeklyDrop: number;
+    respectFloorPrice: boolean;
+    highValueThreshold: number;
+  };
+}
+
+type ConfidenceCounts = Record<"HIGH" | "MEDIUM" | "LOW" | "VERY_LOW", number>;
+
+const LOOKBACK_OPTIONS = [30, 90, 180, 365];
+
+// ============ SHARED PIECES ============
+
+function PreviewHeader({
+  description,
+  lookbackDays,
+  onLookbackChange,
+  onRun,
+  isRunning,
+}: {
+  description: string;
+  lookbackDays: number;
+  onLookbackChange: (days: number) => void;
+  onRun: () => void;
+  isRunning: boolean;
+}) {
+  return (
+    <CardHeader className="space-y-4">
+      <div>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Preview
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label className="text-xs text-muted-foreground">History</Label>
+          <Select
+            value={lookbackDays.toString()}
+            onValueChange={(value) => onLookbackChange(parseInt(value, 10))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOOKBACK_OPTIONS.map((days) => (
+                <SelectItem key={days} value={days.toString()}>
+                  Last {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={onRun} disabled={isRunning}>
+          <Play className="h-4 w-4 mr-2" />
+          {isRunning ? "Running..." : "Run"}
+        </Button>
+      </div>
+    </CardHeader>
+  );
+}
+
+function Stat({ label, value, className }: { label: string; value: string | number; className?: string }) {
+  return (
+    <div className="rounded-lg bg-muted/50 p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={cn("text-lg font-semibold", className)}>{value}</p>
+    </div>
+  );
+}
+
+function RevenueImpact({ impact }: { impact: number }) {
+  return (
+    <Stat
+      label="Revenue impact"
+      value={`${impact > 0 ? "+" : ""}${formatCurrency(impact)}`}
+      className={
+        impact > 0
+          ? "text-green-600 dark:text-green-400"
+          : impact < 0
+            ? "text-red-600 dark:text-red-400"
+            : undefined
+      }
+    />
+  );
+}
+
+function ConfidenceBreakdown({ confidence }: { confidence: ConfidenceCounts }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="success">High {confidence.HIGH}</Badge>
+      <Badge variant="info">Medium {confidence.MEDIUM}</Badge>
+      <Badge variant="warning">Low {confidence.LOW}</Badge>
+      <Badge variant="destructive">Very low {confidence.VERY_LOW}</Badge>
+    </div>
+  );
+}
+
+function ErrorMessage({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-sm text-destructive">{message}</p>;
+}
+
+// ============ OFFER RULES ============
+
+/**
+ * Shows what the offer rules being edited would have done with past offers
+ */
+export function OfferRulesPreview({ config }: OfferRulesPreviewProps) {
+  const [lookbackDays, setLookbackDays] = useState(90);
+  const simulate = trpc.autopilot.simulateOfferRules.useMutation();
+  const report = simulate.data;
+
+  return (
+    <Card>
+      <PreviewHeader
+        description="Replay past offers through these rules. Nothing is sent to buyers."
+        lookbackDays={lookbackDays}
+        onLookbackChange={setLookbackDays}
+        onRun={() => simulate.mutate({ ...config, lookbackDays })}
+        isRunning={simulate.isPending}
+      />
+      <CardContent className="space-y-4">
+        <ErrorMessage message={simulate.error?.message} />
+
+        {!report && !simulate.error && (
+          <p className="text-sm text-muted-foreground">
+            Adjust the rules, then run a preview to compare them against your history.
+          </p>
+        )}
+
+        {report && report.offersReplayed === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No offers in the last {report.lookbackDays} days.
+          </p>
+        )}
+
+        {report && report.offersReplayed > 0 && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Stat label="Offers replayed" value={report.offersReplayed} />
+              <Stat label="Handled differently" value={report.changedFromActual} />
+              <Stat label="Accepted" value={report.decisions.ACCEPT} />
+              <Stat label="Declined" value={report.decisions.DECLINE} />
+              <Stat label="Countered" value={report.decisions.COUNTER} />
+              <Stat label="Manual review" value={report.decisions.MANUAL_REVIEW} />
+              <Stat label="Auto-executed" value={report.autoExecuted} />
+              <Stat label="Needs approval" value={report.needsApproval} />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Confidence</Label>
+              <ConfidenceBreakdown confidence={report.confidence} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Stat label="Would accept" value={formatCurrency(report.estimatedRevenue)} />
+              <RevenueImpact impact={report.revenueImpact} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Compared with the {formatCurrency(report.actualRevenue)} in offers you accepted.
+              Counters worth {formatCurrency(report.counterValue)} would have been sent.
+            </p>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label className="text-xs text-muted-foreground">Recent offers</Label>
+              {report.samples.slice(0, 5).map((entry) => (
+                <div key={entry.offerId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{entry.itemTitle}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {formatCurrency(entry.offerAmount)} → {entry.decision.replace("_", " ").toLowerCase()}
+                    {entry.counterAmount !== undefined && ` at ${formatCurrency(entry.counterAmount)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============ REPRICE RULES ============
+
+/**
+ * Shows how the repricing rules being edited would have moved past listings
+ */
+export function RepriceRulesPreview({ config }: RepriceRulesPreviewProps) {
+  const [lookbackDays, setLookbackDays] = useState(90);
+  const simulate = trpc.autopilot.simulateRepriceRules.useMutation();
+  const report = simulate.data;
+
+  return (
+    <Card>
+      <PreviewHeader
+        description="Replay past listings day by day through these rules. No prices are changed."
+        lookbackDays={lookbackDays}
+        onLookbackChange={setLookbackDays}
+        onRun={() => simulate.mutate({ ...config, lookbackDays })}
+        isRunning={simulate.isPending}
+      />
+      <CardContent className="space-y-4">
+        <ErrorMessage message={simulate.error?.message} />
+
+        {!report && !simulate.error && (
+          <p className="text-sm text-muted-foreground">
+            Adjust the rules, then run a preview to compare them against your history.
+          </p>
+        )}
+
+        {report && report.listingsReplayed === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No listings in the last {report.lookbackDays} days.
+          </p>
+        )}
+
+        {report && report.listingsReplayed > 0 && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Stat label="Listings replayed" value={report.listingsReplayed} />
+              <Stat label="Listings repriced" value={report.listingsAffected} />
+              <Stat label="Price drops" value={report.repricesSimulated} />
+              <Stat label="Needs approval" value={report.needsApproval} />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Confidence</Label>
+              <ConfidenceBreakdown confidence={report.confidence} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Stat label="Sold revenue" value={formatCurrency(report.estimatedRevenue)} />
+              <RevenueImpact impact={report.revenueImpact} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Across {report.soldListings} sold listings, against {formatCurrency(report.actualRevenue)} actual.
+              Assumes each item still sold on the same day.
+            </p>
+
+            {report.samples.length > 0 && (
+              <div className="space-y-2 border-t pt-4">
+                <Label className="text-xs text-muted-foreground">Largest drops</Label>
+                {report.samples.slice(0, 5).map((entry) => (
+                  <div key={entry.listingId} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{entry.itemTitle}</span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {formatCurrency(entry.startPrice)} → {formatCurrency(entry.simulatedPrice)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { OfferRuleConfig, RepriceRuleConfig } from "@/server/db/schema";
+
+type ScopeType = "category" | "tag" | "price_band";
+
+interface NewRuleFormData {
+  ruleType: "offer" | "reprice";
+  scopeType: ScopeType;
+  scopeValue: string;
+  priceMin: string;
+  priceMax: string;
+  autoAcceptThreshold: number;
+  autoDeclineThreshold: number;
+  strategy: RepriceRuleConfig["strategy"];
+  maxDailyDrop: number;
+}
+
+const DEFAULT_FORM_DATA: NewRuleFormData = {
+  ruleType: "offer",
+  scopeType: "category",
+  scopeValue: "",
+  priceMin: "",
+  priceMax: "",
+  autoAcceptThreshold: 0.9,
+  autoDeclineThreshold: 0.5,
+  strategy: "time_decay",
+  maxDailyDrop: 0.1,
+};
+
+const parsePrice = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+/**
+ * Lists the user's category, tag, price band and item rules, and adds new
+ * category, tag and price band rules. Item overrides are added from the
+ * item page.
+ */
+export function ScopedRules() {
+  const [formData, setFormData] = useState<NewRuleFormData>(DEFAULT_FORM_DATA);
+  const [adding, setAdding] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: rules, isLoading } = trpc.autopilot.listRules.useQuery();
+  const { data: offerRule } = trpc.autopilot.getOfferRule.useQuery();
+
+  const onSuccess = () => utils.autopilot.listRules.invalidate();
+  const createRule = trpc.autopilot.upsertScopedRule.useMutation({
+    onSuccess: () => {
+      setAdding(false);
+      setFormData(DEFAULT_FORM_DATA);
+      onSuccess();
+    },
+  });
+  const deleteRule = trpc.autopilot.deleteRule.useMutation({ onSuccess });
+  const toggleRule = trpc.autopilot.toggleRule.useMutation({ onSuccess });
+
+  const scopedRules =
+    rules?.filter(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (rule: any) =>
+        rule.scopeType !== "global" && (rule.ruleType === "offer" || rule.ruleType === "reprice")
+    ) ?? [];
+
+  const updateField = <K extends keyof NewRuleFormData>(field: K, value: NewRuleFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleCreate = () => {
+    const scope = {
+      scopeType: formData.scopeType,
+      scopeValue: formData.scopeType === "price_band" ? null : formData.scopeValue,
+      priceMin: formData.scopeType === "price_band" ? parsePrice(formData.priceMin) : null,
+      priceMax: formData.scopeType === "price_band" ? parsePrice(formData.priceMax) : null,
+    };
+
+    if (formData.ruleType === "offer") {
+      // Start from the default rule and change the thresholds
+      const base = offerRule?.config ?? {};
+      createRule.mutate({
+        ...scope,
+        ruleType: "offer",
+        config: {
+          ...base,
+          autoAcceptThreshold: formData.autoAcceptThreshold,
+          autoDeclineThreshold: formData.autoDeclineThreshold,
+        },
+      });
+    } else {
+      createRule.mutate({
+        ...scope,
+        ruleType: "reprice",
+        config: { strategy: formData.strategy, maxDailyDrop: formData.maxDailyDrop },
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Scoped Rules</CardTitle>
+          <CardDescription>Loading rules...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Scoped Rules
+            </CardTitle>
+            <CardDescription>
+              Give categories, tags, or price ranges their own thresholds. The most specific rule
+              applies: item, then tag, category, price band, and finally your default rules.
+            </CardDescription>
+          </div>
+          {!adding && (
+            <Button variant="outline" onClick={() => setAdding(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {adding && (
+          <div className="rounded-lg border p-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Rule</Label>
+                <Select
+                  value={formData.ruleType}
+                  onValueChange={(value) => updateField("ruleType", value as "offer" | "reprice")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="offer">Offers</SelectItem>
+                    <SelectItem value="reprice">Repricing</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Applies to</Label>
+                <Select
+                  value={formData.scopeType}
+                  onValueChange={(value) => updateField("scopeType", value as ScopeType)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="category">Category</SelectItem>
+                    <SelectItem value="tag">Tag</SelectItem>
+                    <SelectItem value="price_band">Price range</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.scopeType === "price_band" ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Min ($)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={formData.priceMin}
+                      onChange={(e) => updateField("priceMin", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Max ($)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={formData.priceMax}
+                      onChange={(e) => updateField("priceMax", e.target.value)}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    {formData.scopeType === "tag" ? "Tag" : "Category"}
+                  </Label>
+                  <Input
+                    value={formData.scopeValue}
+                    onChange={(e) => updateField("scopeValue", e.target.value)}
+                    placeholder={formData.scopeType === "tag" ? "e.g. vintage" : "e.g. Jackets"}
+                  />
+                </div>
+              )}
+            </div>
+
+            {formData.ruleType === "offer" ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Auto-accept at (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(formData.autoAcceptThreshold * 100)}
+                    onChange={(e) =>
+                      updateField("autoAcceptThreshold", (parseFloat(e.target.value) || 0) / 100)
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Auto-decline at (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(formData.autoDeclineThreshold * 100)}
+                    onChange={(e) =>
+                      updateField("autoDeclineThreshold", (parseFloat(e.target.value) || 0) / 100)
+                    }
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Strategy</Label>
+                  <Select
+                    value={formData.strategy}
+                    onValueChange={(value) =>
+                      updateField("strategy", value as RepriceRuleConfig["strategy"])
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="time_decay">Time decay</SelectItem>
+                      <SelectItem value="performance">Performance</SelectItem>
+                      <SelectItem value="competitive">Competitive</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Max daily drop (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={50}
+                    value={Math.round(formData.maxDailyDrop * 100)}
+                    onChange={(e) =>
+                      updateField("maxDailyDrop", (parseFloat(e.target.value) || 0) / 100)
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            {createRule.error && (
+              <p className="text-sm text-destructive">{createRule.error.message}</p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setAdding(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={createRule.isPending}>
+                {createRule.isPending ? "Saving..." : "Save Rule"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {scopedRules.length === 0 && !adding && (
+          <p className="text-sm text-muted-foreground">
+            No scoped rules yet. Every item uses your default rules.
+          </p>
+        )}
+
+        {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+        {scopedRules.map((rule: any) => (
+          <div key={rule.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{rule.ruleType === "offer" ? "Offers" : "Repricing"}</Badge>
+                <span className="text-sm font-medium">{rule.scopeLabel}</span>
+                {rule.scopeType === "item" && (
+                  <Link
+                    href={`/inventory/${rule.scopeValue}`}
+                    className="text-xs text-muted-foreground underline-offset-4 hover:underline"
+                  >
+                    View item
+                  </Link>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {rule.ruleType === "offer"
+                  ? `Accept at ${Math.round((rule.config as OfferRuleConfig).autoAcceptThreshold * 100)}%+, decline at ${Math.round((rule.config as OfferRuleConfig).autoDeclineThreshold * 100)}% or less`
+                  : `${(rule.config as RepriceRuleConfig).strategy.replace("_", " ")}, up to ${Math.round((rule.config as RepriceRuleConfig).maxDailyDropPercent * 100)}% per day`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => toggleRule.mutate({ id: rule.id, enabled })}
+                aria-label="Enable rule"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteRule.mutate({ id: rule.id })}
+                disabled={deleteRule.isPending}
+                aria-label="Delete rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
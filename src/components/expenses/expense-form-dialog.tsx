@@ -0,0 +1,291 @@
+"use client";
+
+/**
+ * Expense Form Dialog
+ *
+ * Records a business expense or edits an existing one. Mileage is entered
+ * as miles driven and valued at the standard mileage rate.
+ */
+
+import * as React from "react";
+import { format } from "date-fns";
+import { trpc } from "@/lib/trpc/client";
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_CATEGORY_NAMES,
+  EXPENSE_RECURRENCES,
+  MILEAGE_RATE,
+  type ExpenseCategory,
+  type ExpenseRecurrence,
+} from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import { Loader2 } from "lucide-react";
+
+// ============ TYPES ============
+
+export interface ExpenseDetails {
+  id: string;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  miles: number | null;
+  incurredAt: Date;
+  recurrence: ExpenseRecurrence;
+  recurrenceEndsAt: Date | null;
+  notes: string | null;
+}
+
+interface ExpenseFormData {
+  category: ExpenseCategory;
+  description: string;
+  amount: string;
+  miles: string;
+  incurredAt: string;
+  recurrence: ExpenseRecurrence;
+  recurrenceEndsAt: string;
+  notes: string;
+}
+
+interface ExpenseFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Edit this expense instead of creating one */
+  expense?: ExpenseDetails;
+}
+
+// ============ HELPERS ============
+
+export const RECURRENCE_LABELS: Record<ExpenseRecurrence, string> = {
+  none: "One-time",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+function toFormData(expense?: ExpenseDetails): ExpenseFormData {
+  return {
+    category: expense?.category ?? "supplies",
+    description: expense?.description ?? "",
+    amount: expense ? String(expense.amount) : "",
+    miles: expense?.miles != null ? String(expense.miles) : "",
+    incurredAt: format(expense?.incurredAt ?? new Date(), "yyyy-MM-dd"),
+    recurrence: expense?.recurrence ?? "none",
+    recurrenceEndsAt: expense?.recurrenceEndsAt
+      ? format(expense.recurrenceEndsAt, "yyyy-MM-dd")
+      : "",
+    notes: expense?.notes ?? "",
+  };
+}
+
+const emptyToNull = (value: string) => (value.trim() === "" ? null : value.trim());
+
+// ============ COMPONENT ============
+
+export function ExpenseFormDialog({ open, onOpenChange, expense }: ExpenseFormDialogProps) {
+  const utils = trpc.useUtils();
+  const [formData, setFormData] = React.useState<ExpenseFormData>(() => toFormData(expense));
+
+  React.useEffect(() => {
+    if (open) setFormData(toFormData(expense));
+  }, [open, expense]);
+
+  const onSuccess = () => {
+    utils.expenses.list.invalidate();
+    utils.analytics.profitAndLoss.invalidate();
+    onOpenChange(false);
+  };
+
+  const createMutation = trpc.expenses.create.useMutation({ onSuccess });
+  const updateMutation = trpc.expenses.update.useMutation({ onSuccess });
+
+  const updateField = <K extends keyof ExpenseFormData>(field: K, value: ExpenseFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const isMileage = formData.category === "mileage";
+  const miles = parseFloat(formData.miles) || 0;
+
+  const handleSubmit = () => {
+    const fields = {
+      category: formData.category,
+      description: formData.description.trim(),
+      amount: isMileage ? undefined : parseFloat(formData.amount) || 0,
+      miles: isMileage ? miles : null,
+      incurredAt: new Date(`${formData.incurredAt}T12:00:00`),
+      recurrence: formData.recurrence,
+      recurrenceEndsAt:
+        formData.recurrence !== "none" && formData.recurrenceEndsAt
+          ? new Date(`${formData.recurrenceEndsAt}T12:00:00`)
+          : null,
+      notes: emptyToNull(formData.notes),
+    };
+
+    if (expense) {
+      updateMutation.mutate({ id: expense.id, ...fields });
+    } else {
+      createMutation.mutate(fields);
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+  const error = createMutation.error ?? updateMutation.error;
+  const missingAmount = isMileage ? formData.miles === "" : formData.amount === "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{expense ? "Edit Expense" : "New Expense"}</DialogTitle>
+          <DialogDescription>
+            Business costs outside of individual sales, counted in your profit and loss.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="expense-description">Description</Label>
+              <Input
+                id="expense-description"
+                value={formData.description}
+                onChange={(e) => updateField("description", e.target.value)}
+                placeholder="e.g. Poly mailers"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select
+                value={formData.category}
+                onValueChange={(value) => updateField("category", value as ExpenseCategory)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPENSE_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {EXPENSE_CATEGORY_NAMES[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="expense-date">Date</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={formData.incurredAt}
+                onChange={(e) => updateField("incurredAt", e.target.value)}
+              />
+            </div>
+            {isMileage ? (
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="expense-miles">Miles driven</Label>
+                <Input
+                  id="expense-miles"
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={formData.miles}
+                  onChange={(e) => updateField("miles", e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(miles * MILEAGE_RATE)} at ${MILEAGE_RATE.toFixed(2)}/mile
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="expense-amount">Amount ($)</Label>
+                <Input
+                  id="expense-amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => updateField("amount", e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Repeats</Label>
+              <Select
+                value={formData.recurrence}
+                onValueChange={(value) => updateField("recurrence", value as ExpenseRecurrence)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPENSE_RECURRENCES.map((recurrence) => (
+                    <SelectItem key={recurrence} value={recurrence}>
+                      {RECURRENCE_LABELS[recurrence]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.recurrence !== "none" && (
+              <div className="space-y-1">
+                <Label htmlFor="expense-ends">Ends (optional)</Label>
+                <Input
+                  id="expense-ends"
+                  type="date"
+                  value={formData.recurrenceEndsAt}
+                  onChange={(e) => updateField("recurrenceEndsAt", e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="expense-notes">Notes</Label>
+              <Textarea
+                id="expense-notes"
+                rows={2}
+                value={formData.notes}
+                onChange={(e) => updateField("notes", e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error.message}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isPending || formData.description.trim() === "" || missingAmount}
+          >
+            {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {expense ? "Save Expense" : "Add Expense"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExpenseFormDialog;
@@ -0,0 +1,2 @@
+export { ExpenseFormDialog, RECURRENCE_LABELS } from "./expense-form-dialog";
+export type { ExpenseDetails } from "./expense-form-dialog";
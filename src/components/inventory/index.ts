@@ -1,6 +1,8 @@
 export { InventoryTable } from "./inventory-table";
 export { CreateListingWizard } from "./create-listing-wizard";
 export { ListingForm } from "./listing-form";
+export { SaleDialog } from "./sale-dialog";
+export { NetPriceCalculator } from "./net-price-calculator";
 export type { ListingFormData, SuggestedPrice, Condition } from "./listing-form";
 export { ChannelSelector } from "./channel-selector";
 export type { ChannelId } from "./channel-selector";
@@ -51,6 +51,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { SaleDialog } from "./sale-dialog";
+import { AddToLotDialog } from "@/components/sourcing/add-to-lot-dialog";
 
 import {
   Search,
@@ -64,6 +66,8 @@ import {
   Loader2,
   PackageCheck,
   MapPin,
+  Percent,
+  ShoppingBag,
 } from "lucide-react";
 
 // ============ TYPES ============
@@ -113,6 +117,8 @@ export function InventoryTable({ className }: InventoryTableProps) {
   const [debouncedLocation, setDebouncedLocation] = React.useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
   const [archiveDialogOpen, setArchiveDialogOpen] = React.useState(false);
+  const [saleDialogOpen, setSaleDialogOpen] = React.useState(false);
+  const [lotDialogOpen, setLotDialogOpen] = React.useState(false);
 
   // Debounce search
   React.useEffect(() => {
@@ -240,6 +246,22 @@ export function InventoryTable({ className }: InventoryTableProps) {
             <span className="text-sm text-muted-foreground">
               {selectedIds.size} selected
             </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSaleDialogOpen(true)}
+            >
+              <Percent className="h-4 w-4 mr-1" />
+              Run Sale
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLotDialogOpen(true)}
+            >
+              <ShoppingBag className="h-4 w-4 mr-1" />
+              Add to Lot
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -701,6 +723,22 @@ export function InventoryTable({ className }: InventoryTableProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Markdown Sale Dialog */}
+      <SaleDialog
+        open={saleDialogOpen}
+        onOpenChange={setSaleDialogOpen}
+        itemIds={Array.from(selectedIds)}
+        onCreated={() => setSelectedIds(new Set())}
+      />
+
+      {/* Sourcing Lot Dialog */}
+      <AddToLotDialog
+        open={lotDialogOpen}
+        onOpenChange={setLotDialogOpen}
+        itemIds={Array.from(selectedIds)}
+        onAdded={() => setSelectedIds(new Set())}
+      />
     </div>
   );
 }
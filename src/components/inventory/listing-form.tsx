@@ -8,10 +8,13 @@
  * - Condition selector
  * - Pricing fields
  * - Item specifics as editable tags
+ * - eBay policy overrides (when policy options are provided)
  */
 
 import * as React from "react";
 import { cn } from "@/lib/utils";
+import { CHANNEL_NAMES } from "@/lib/constants";
+import { compareChannels, ebayFeeCategoryFor } from "@/lib/fees";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -38,6 +41,24 @@ export interface ListingFormData {
   costBasis: number | null;
   itemSpecifics: Record<string, string>;
   suggestedCategory: string | null;
+  /** Per-item eBay policy overrides; unset fields use the seller defaults */
+  listingPolicies?: ListingPolicies | null;
+}
+
+export interface ListingPolicies {
+  fulfillmentPolicyId?: string;
+  paymentPolicyId?: string;
+  returnPolicyId?: string;
+  merchantLocationKey?: string;
+}
+
+/** The seller's eBay policies and current defaults */
+export interface PolicyOptions {
+  fulfillmentPolicies: Array<{ id: string; name: string }>;
+  paymentPolicies: Array<{ id: string; name: string }>;
+  returnPolicies: Array<{ id: string; name: string }>;
+  locations: Array<{ key: string; name: string }>;
+  defaults: ListingPolicies;
 }
 
 export interface SuggestedPrice {
@@ -56,6 +77,7 @@ interface ListingFormProps {
   isRegenerating?: boolean;
   className?: string;
   errors?: Partial<Record<keyof ListingFormData, string>>;
+  policyOptions?: PolicyOptions | null;
 }
 
 // ============ CONSTANTS ============
@@ -68,6 +90,9 @@ const conditionOptions: { value: Condition; label: string; description: string }
   { value: "poor", label: "Poor", description: "Heavy wear, may have issues" },
 ];
 
+// Radix Select items can't use an empty value
+const USE_DEFAULT_POLICY = "__default";
+
 // ============ COMPONENT ============
 
 export function ListingForm({
@@ -80,6 +105,7 @@ export function ListingForm({
   isRegenerating,
   className,
   errors,
+  policyOptions,
 }: ListingFormProps) {
   const [newSpecificKey, setNewSpecificKey] = React.useState("");
   const [newSpecificValue, setNewSpecificValue] = React.useState("");
@@ -108,6 +134,48 @@ export function ListingForm({
     updateField("itemSpecifics", newSpecifics);
   };
 
+  const updatePolicy = (field: keyof ListingPolicies, value: string) => {
+    const policies: ListingPolicies = { ...(data.listingPolicies ?? {}) };
+    if (value === USE_DEFAULT_POLICY) {
+      delete policies[field];
+    } else {
+      policies[field] = value;
+    }
+    updateField(
+      "listingPolicies",
+      Object.keys(policies).length > 0 ? policies : null
+    );
+  };
+
+  const policyFields: Array<{
+    field: keyof ListingPolicies;
+    label: string;
+    options: Array<{ value: string; label: string }>;
+  }> = policyOptions
+    ? [
+        {
+          field: "fulfillmentPolicyId",
+          label: "Shipping Policy",
+          options: policyOptions.fulfillmentPolicies.map((p) => ({ value: p.id, label: p.name })),
+        },
+        {
+          field: "paymentPolicyId",
+          label: "Payment Policy",
+          options: policyOptions.paymentPolicies.map((p) => ({ value: p.id, label: p.name })),
+        },
+        {
+          field: "returnPolicyId",
+          label: "Return Policy",
+          options: policyOptions.returnPolicies.map((p) => ({ value: p.id, label: p.name })),
+        },
+        {
+          field: "merchantLocationKey",
+          label: "Ship-From Location",
+          options: policyOptions.locations.map((l) => ({ value: l.key, label: l.name })),
+        },
+      ]
+    : [];
+
   const handlePriceInput = (
     value: string,
     field: "askingPrice" | "floorPrice" | "costBasis"
@@ -339,21 +407,30 @@ export function ListingForm({
 
         {/* Profit Estimate */}
         {data.askingPrice > 0 && data.costBasis !== null && data.costBasis > 0 && (
-          <div className="flex items-center gap-2 text-sm">
-            <span className="text-muted-foreground">Estimated Profit:</span>
-            <span
-              className={cn(
-                "font-medium",
-                data.askingPrice - data.costBasis > 0
-                  ? "text-green-600"
-                  : "text-red-600"
-              )}
-            >
-              ${(data.askingPrice - data.costBasis).toFixed(2)}
-            </span>
-            <span className="text-muted-foreground text-xs">
-              (before fees)
-            </span>
+          <div className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Estimated Profit after fees:</span>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-4">
+              {compareChannels({
+                salePrice: data.askingPrice,
+                costBasis: data.costBasis,
+                ebayCategory: ebayFeeCategoryFor(data.suggestedCategory),
+              }).map((estimate) => (
+                <div key={estimate.channel} className="flex items-center gap-2">
+                  <span className="text-muted-foreground text-xs">
+                    {CHANNEL_NAMES[estimate.channel]}
+                  </span>
+                  <span
+                    className={cn(
+                      "font-medium",
+                      estimate.net > 0 ? "text-green-600" : "text-red-600"
+                    )}
+                  >
+                    ${estimate.net.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">(before shipping)</p>
           </div>
         )}
       </div>
@@ -438,6 +515,47 @@ export function ListingForm({
           Add item details like Brand, Size, Color, Material, etc.
         </p>
       </div>
+
+      {/* eBay Policies */}
+      {policyOptions && (
+        <div className="space-y-3">
+          <label className="text-sm font-medium">eBay Policies</label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {policyFields.map(({ field, label, options }) => {
+              const defaultName = options.find(
+                (o) => o.value === policyOptions.defaults[field]
+              )?.label;
+
+              return (
+                <div key={field} className="space-y-1">
+                  <label className="text-xs text-muted-foreground">{label}</label>
+                  <Select
+                    value={data.listingPolicies?.[field] ?? USE_DEFAULT_POLICY}
+                    onValueChange={(value) => updatePolicy(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={USE_DEFAULT_POLICY}>
+                        Default{defaultName ? ` (${defaultName})` : ""}
+                      </SelectItem>
+                      {options.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Override your default eBay policies for this item only
+          </p>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,193 @@
+"use client";
+
+/**
+ * Net Price Calculator Component
+ *
+ * Shows what the seller keeps at a given price on each channel, after
+ * platform fees, payment processing, postage, and cost. Starts from the
+ * item's asking price and cost and can be adjusted freely.
+ */
+
+import * as React from "react";
+import { cn, formatCurrency } from "@/lib/utils";
+import { CHANNEL_NAMES } from "@/lib/constants";
+import {
+  EBAY_FEE_CATEGORIES,
+  EBAY_FEE_CATEGORY_NAMES,
+  compareChannels,
+  ebayFeeCategoryFor,
+  type EbayFeeCategory,
+} from "@/lib/fees";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// ============ TYPES ============
+
+interface NetPriceCalculatorProps {
+  askingPrice: number;
+  costBasis: number | null;
+  /** Free-text category used to pick the eBay fee tier */
+  category?: string | null;
+  className?: string;
+}
+
+interface CalculatorFields {
+  salePrice: string;
+  shippingCharged: string;
+  shippingCost: string;
+  costBasis: string;
+}
+
+// ============ HELPERS ============
+
+const parseAmount = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+
+// ============ COMPONENT ============
+
+export function NetPriceCalculator({
+  askingPrice,
+  costBasis,
+  category,
+  className,
+}: NetPriceCalculatorProps) {
+  const [fields, setFields] = React.useState<CalculatorFields>({
+    salePrice: askingPrice > 0 ? String(askingPrice) : "",
+    shippingCharged: "",
+    shippingCost: "",
+    costBasis: costBasis !== null ? String(costBasis) : "",
+  });
+  const [ebayCategory, setEbayCategory] = React.useState<EbayFeeCategory>(() =>
+    ebayFeeCategoryFor(category)
+  );
+
+  const results = compareChannels({
+    salePrice: parseAmount(fields.salePrice),
+    shippingCharged: parseAmount(fields.shippingCharged),
+    shippingCost: parseAmount(fields.shippingCost),
+    costBasis: parseAmount(fields.costBasis),
+    ebayCategory,
+  });
+
+  const amountField = (key: keyof CalculatorFields, label: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`net-${key}`} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+          $
+        </span>
+        <Input
+          id={`net-${key}`}
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="0.00"
+          className="pl-7"
+          value={fields[key]}
+          onChange={(e) => setFields({ ...fields, [key]: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+        {amountField("salePrice", "Sale price")}
+        {amountField("shippingCharged", "Shipping charged")}
+        {amountField("shippingCost", "Postage you pay")}
+        {amountField("costBasis", "Cost")}
+        <div className="space-y-1">
+          <Label htmlFor="net-ebayCategory" className="text-xs text-muted-foreground">
+            eBay fee category
+          </Label>
+          <Select
+            value={ebayCategory}
+            onValueChange={(value) => setEbayCategory(value as EbayFeeCategory)}
+          >
+            <SelectTrigger id="net-ebayCategory">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EBAY_FEE_CATEGORIES.map((feeCategory) => (
+                <SelectItem key={feeCategory} value={feeCategory}>
+                  {EBAY_FEE_CATEGORY_NAMES[feeCategory]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Channel</TableHead>
+            <TableHead className="text-right">Selling Fee</TableHead>
+            <TableHead className="text-right">Per-Order</TableHead>
+            <TableHead className="text-right">Processing</TableHead>
+            <TableHead className="text-right">Total Fees</TableHead>
+            <TableHead className="text-right">Net</TableHead>
+            <TableHead className="text-right">Margin</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.map((result) => (
+            <TableRow key={result.channel}>
+              <TableCell className="font-medium">{CHANNEL_NAMES[result.channel]}</TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(result.fees.sellingFee)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(result.fees.perOrderFee)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(result.fees.processingFee)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(result.fees.total)}
+                <p className="text-xs text-muted-foreground">
+                  {formatRate(result.fees.effectiveRate)}
+                </p>
+              </TableCell>
+              <TableCell
+                className={cn(
+                  "text-right font-medium",
+                  result.net >= 0 ? "text-green-600" : "text-red-600"
+                )}
+              >
+                {formatCurrency(result.net)}
+              </TableCell>
+              <TableCell className="text-right">{formatRate(result.margin)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <p className="text-xs text-muted-foreground">
+        Estimates from each channel&apos;s standard US fee schedule. eBay fees apply to the
+        item price plus shipping charged and include payment processing.
+      </p>
+    </div>
+  );
+}
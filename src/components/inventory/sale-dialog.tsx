@@ -0,0 +1,213 @@
+"use client";
+
+/**
+ * Sale Dialog Component
+ *
+ * Schedules a percent-off markdown sale for the items selected in the
+ * inventory table. Items without an active eBay listing are left out and
+ * reported back.
+ */
+
+import * as React from "react";
+import { addDays, format } from "date-fns";
+import { trpc } from "@/lib/trpc/client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import { Loader2, Percent } from "lucide-react";
+
+// ============ TYPES ============
+
+interface SaleFormData {
+  name: string;
+  discountPercent: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface SaleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemIds: string[];
+  onCreated?: () => void;
+}
+
+// ============ HELPERS ============
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+function defaultFormData(): SaleFormData {
+  const today = new Date();
+  return {
+    name: "",
+    discountPercent: "20",
+    startDate: toDateInput(today),
+    endDate: toDateInput(addDays(today, 7)),
+  };
+}
+
+// ============ COMPONENT ============
+
+export function SaleDialog({ open, onOpenChange, itemIds, onCreated }: SaleDialogProps) {
+  const utils = trpc.useUtils();
+  const [formData, setFormData] = React.useState<SaleFormData>(defaultFormData);
+  const [skippedCount, setSkippedCount] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setFormData(defaultFormData());
+      setSkippedCount(null);
+    }
+  }, [open]);
+
+  const createMutation = trpc.promotions.create.useMutation({
+    onSuccess: (result) => {
+      utils.promotions.list.invalidate();
+      utils.analytics.promotionPerformance.invalidate();
+      if (!result.success) return;
+
+      onCreated?.();
+      if (result.skipped.length > 0) {
+        // Keep the dialog open so the user sees what was left out
+        setSkippedCount(result.skipped.length);
+      } else {
+        onOpenChange(false);
+      }
+    },
+  });
+
+  const updateField = <K extends keyof SaleFormData>(field: K, value: SaleFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = () => {
+    // A sale starting today starts now; otherwise at the start of the day
+    const start = new Date(`${formData.startDate}T00:00:00`);
+    const startsAt = formData.startDate === toDateInput(new Date()) ? new Date() : start;
+
+    createMutation.mutate({
+      name: formData.name.trim(),
+      discountPercent: parseInt(formData.discountPercent, 10) || 0,
+      itemIds,
+      startsAt,
+      endsAt: new Date(`${formData.endDate}T23:59:59`),
+    });
+  };
+
+  const failed = createMutation.data && !createMutation.data.success;
+  const done = skippedCount !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Run a Sale</DialogTitle>
+          <DialogDescription>
+            Mark down {itemIds.length} item(s) on eBay for a set time. Buyers see the original
+            price crossed out; your listing prices don&apos;t change.
+          </DialogDescription>
+        </DialogHeader>
+
+        {done ? (
+          <p className="text-sm">
+            Sale scheduled. {skippedCount} item(s) were left out because they aren&apos;t
+            actively listed on eBay.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="sale-name">Name</Label>
+              <Input
+                id="sale-name"
+                value={formData.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                placeholder="e.g. Weekend clearance"
+                maxLength={90}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sale-discount">Discount (%)</Label>
+              <Input
+                id="sale-discount"
+                type="number"
+                min={5}
+                max={80}
+                value={formData.discountPercent}
+                onChange={(e) => updateField("discountPercent", e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="sale-start">Starts</Label>
+                <Input
+                  id="sale-start"
+                  type="date"
+                  min={toDateInput(new Date())}
+                  value={formData.startDate}
+                  onChange={(e) => updateField("startDate", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sale-end">Ends</Label>
+                <Input
+                  id="sale-end"
+                  type="date"
+                  min={formData.startDate}
+                  value={formData.endDate}
+                  onChange={(e) => updateField("endDate", e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              eBay allows 5–80% off for up to 45 days.
+            </p>
+
+            {createMutation.error && (
+              <p className="text-sm text-destructive">{createMutation.error.message}</p>
+            )}
+            {failed && (
+              <p className="text-sm text-destructive">
+                {createMutation.data?.error ?? "eBay rejected the sale"}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {done ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={createMutation.isPending || formData.name.trim() === ""}
+              >
+                {createMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Percent className="h-4 w-4 mr-2" />
+                )}
+                Schedule Sale
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SaleDialog;
@@ -0,0 +1,150 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { trpc } from "@/lib/trpc/client";
+import { cn } from "@/lib/utils";
+
+const PRIORITY_DOT: Record<string, string> = {
+  CRITICAL: "bg-red-500",
+  HIGH: "bg-orange-500",
+  MEDIUM: "bg-blue-500",
+  LOW: "bg-muted-foreground",
+};
+
+// Poll for new notifications while the dashboard is open
+const REFETCH_INTERVAL_MS = 60 * 1000;
+
+export function NotificationBell() {
+  const utils = trpc.useUtils();
+
+  const unreadQuery = trpc.notifications.unreadCount.useQuery(undefined, {
+    refetchInterval: REFETCH_INTERVAL_MS,
+  });
+  const listQuery = trpc.notifications.list.useQuery({ limit: 10 });
+
+  const invalidate = () => {
+    utils.notifications.unreadCount.invalidate();
+    utils.notifications.list.invalidate();
+  };
+
+  const markReadMutation = trpc.notifications.markRead.useMutation({
+    onSuccess: invalidate,
+  });
+  const markAllReadMutation = trpc.notifications.markAllRead.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const unreadCount = unreadQuery.data?.count ?? 0;
+  const notifications = listQuery.data?.notifications ?? [];
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) listQuery.refetch();
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-11 w-11 md:h-9 md:w-9"
+          aria-label={
+            unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"
+          }
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              <CheckCheck className="mr-1 h-3 w-3" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const unread = !notification.readAt;
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className="flex items-start gap-2 py-2"
+                  onSelect={() => {
+                    if (unread) markReadMutation.mutate({ ids: [notification.id] });
+                  }}
+                  asChild={!!notification.itemId}
+                >
+                  {notification.itemId ? (
+                    <Link href={`/inventory/${notification.itemId}`}>
+                      <NotificationRow notification={notification} unread={unread} />
+                    </Link>
+                  ) : (
+                    <NotificationRow notification={notification} unread={unread} />
+                  )}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function NotificationRow({
+  notification,
+  unread,
+}: {
+  notification: { priority: string; message: string; createdAt: Date | string };
+  unread: boolean;
+}) {
+  return (
+    <>
+      <span
+        className={cn(
+          "mt-1.5 h-2 w-2 flex-shrink-0 rounded-full",
+          unread ? PRIORITY_DOT[notification.priority] : "bg-transparent"
+        )}
+      />
+      <div className="min-w-0 flex-1">
+        <p className={cn("text-sm leading-snug", unread ? "font-medium" : "text-muted-foreground")}>
+          {notification.message}
+        </p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,2 @@
+export { OffersTable } from "./offers-table";
+export { OfferDetailDialog } from "./offer-detail";
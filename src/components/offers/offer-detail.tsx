@@ -0,0 +1,156 @@
+"use client";
+
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ExternalLink, MessageSquare, User } from "lucide-react";
+import { CHANNEL_NAMES, type Channel } from "@/lib/constants";
+import {
+  formatOfferCurrency,
+  getOfferStatusBadgeVariant,
+  type OfferStatus,
+} from "./offers-table";
+
+interface ThreadOffer {
+  id: string;
+  amount: number;
+  counterAmount: number | null;
+  round: number;
+  status: OfferStatus;
+  buyerMessage: string | null;
+  createdAt: Date;
+  respondedAt: Date | null;
+}
+
+interface OfferDetail extends ThreadOffer {
+  channel: Channel;
+  buyerUsername: string | null;
+  askingPrice: number;
+  expiresAt: Date | null;
+  reason: string | null;
+  item: {
+    id: string;
+    title: string;
+    sku: string;
+    floorPrice: number | null;
+  } | null;
+  channelListing: {
+    externalUrl: string | null;
+  } | null;
+  thread: ThreadOffer[];
+}
+
+interface OfferDetailDialogProps {
+  offer: OfferDetail | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function OfferDetailDialog({ offer, open, onOpenChange }: OfferDetailDialogProps) {
+  if (!offer) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{offer.item?.title ?? "Offer"}</DialogTitle>
+          <DialogDescription>
+            {CHANNEL_NAMES[offer.channel]} offer &middot; Round {offer.round}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Offer</p>
+              <p className="text-lg font-semibold">{formatOfferCurrency(offer.amount)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Asking</p>
+              <p className="text-lg font-semibold">{formatOfferCurrency(offer.askingPrice)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Floor</p>
+              <p className="text-lg font-semibold">
+                {formatOfferCurrency(offer.item?.floorPrice ?? null)}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2">
+              <User className="h-4 w-4 text-muted-foreground" />
+              {offer.buyerUsername ?? "Unknown buyer"}
+            </span>
+            <Badge variant={getOfferStatusBadgeVariant(offer.status)}>
+              {offer.status}
+            </Badge>
+          </div>
+
+          {offer.reason && (
+            <p className="text-sm text-muted-foreground">{offer.reason}</p>
+          )}
+
+          {offer.expiresAt && (
+            <p className="text-sm text-muted-foreground">
+              Expires {format(new Date(offer.expiresAt), "MMM d, yyyy h:mm a")}
+            </p>
+          )}
+
+          {offer.channelListing?.externalUrl && (
+            <a
+              href={offer.channelListing.externalUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              View listing <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+
+          <Separator />
+
+          {/* Negotiation history */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Negotiation History</h4>
+            {offer.thread.map((entry) => (
+              <div key={entry.id} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    Round {entry.round}: {formatOfferCurrency(entry.amount)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {format(new Date(entry.createdAt), "MMM d, h:mm a")}
+                  </span>
+                </div>
+                {entry.buyerMessage && (
+                  <p className="mt-1 flex items-start gap-1 text-muted-foreground">
+                    <MessageSquare className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                    {entry.buyerMessage}
+                  </p>
+                )}
+                <div className="mt-2 flex items-center gap-2">
+                  <Badge variant={getOfferStatusBadgeVariant(entry.status)}>
+                    {entry.status}
+                  </Badge>
+                  {entry.counterAmount !== null && (
+                    <span className="text-muted-foreground">
+                      Countered at {formatOfferCurrency(entry.counterAmount)}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight, HandCoins } from "lucide-react";
+import { CHANNEL_NAMES, type Channel } from "@/lib/constants";
+
+export type OfferStatus = "pending" | "accepted" | "declined" | "countered" | "expired";
+
+// Offer type from tRPC response
+export interface Offer {
+  id: string;
+  itemId: string;
+  channelListingId: string;
+  channel: Channel;
+  externalOfferId: string;
+  buyerUsername: string | null;
+  amount: number;
+  askingPrice: number;
+  buyerMessage: string | null;
+  round: number;
+  counterAmount: number | null;
+  status: OfferStatus;
+  expiresAt: Date | null;
+  respondedAt: Date | null;
+  createdAt: Date;
+  item: {
+    id: string;
+    title: string;
+    sku: string;
+  } | null;
+}
+
+interface OffersTableProps {
+  offers: Offer[];
+  isLoading?: boolean;
+  limit: number;
+  offset: number;
+  hasMore?: boolean;
+  onOffsetChange?: (offset: number) => void;
+  onOfferClick?: (offer: Offer) => void;
+  onStatusFilter?: (status: OfferStatus | "all") => void;
+  statusFilter?: OfferStatus | "all";
+}
+
+export function getOfferStatusBadgeVariant(
+  status: OfferStatus
+): "default" | "secondary" | "success" | "warning" | "destructive" | "info" {
+  switch (status) {
+    case "pending":
+      return "warning";
+    case "accepted":
+      return "success";
+    case "countered":
+      return "info";
+    case "declined":
+      return "destructive";
+    case "expired":
+      return "secondary";
+    default:
+      return "default";
+  }
+}
+
+export function formatOfferCurrency(amount: number | null): string {
+  if (amount === null) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function getStatusLabel(status: OfferStatus): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+function getOfferPercent(offer: Offer): string {
+  if (offer.askingPrice <= 0) return "-";
+  return `${Math.round((offer.amount / offer.askingPrice) * 100)}%`;
+}
+
+function OffersTableSkeleton() {
+  return (
+    <div className="space-y-4">
+      {[...Array(5)].map((_, i) => (
+        <div key={i} className="flex items-center space-x-4 py-4">
+          <div className="space-y-2 flex-1">
+            <Skeleton className="h-4 w-[250px]" />
+            <Skeleton className="h-4 w-[200px]" />
+          </div>
+          <Skeleton className="h-4 w-[80px]" />
+          <Skeleton className="h-4 w-[80px]" />
+          <Skeleton className="h-6 w-[70px] rounded-full" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function OffersTable({
+  offers,
+  isLoading,
+  limit,
+  offset,
+  hasMore,
+  onOffsetChange,
+  onOfferClick,
+  onStatusFilter,
+  statusFilter = "all",
+}: OffersTableProps) {
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex gap-4">
+        <div className="w-[180px]">
+          <Select
+            value={statusFilter}
+            onValueChange={(value) =>
+              onStatusFilter?.(value as OfferStatus | "all")
+            }
+          >
+            <SelectTrigger className="h-11 md:h-9">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="accepted">Accepted</SelectItem>
+              <SelectItem value="countered">Countered</SelectItem>
+              <SelectItem value="declined">Declined</SelectItem>
+              <SelectItem value="expired">Expired</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <OffersTableSkeleton />
+      ) : offers.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <HandCoins className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold">No offers found</h3>
+          <p className="text-muted-foreground">
+            {statusFilter !== "all"
+              ? "Try adjusting your filters."
+              : "Offers from buyers will appear here."}
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[300px]">Item</TableHead>
+                <TableHead>Buyer</TableHead>
+                <TableHead className="text-right">Offer</TableHead>
+                <TableHead className="text-right">Asking</TableHead>
+                <TableHead className="text-right">Counter</TableHead>
+                <TableHead>Round</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Received</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {offers.map((offer) => (
+                <TableRow
+                  key={offer.id}
+                  className="cursor-pointer"
+                  onClick={() => onOfferClick?.(offer)}
+                >
+                  <TableCell>
+                    <p className="font-medium truncate">
+                      {offer.item?.title ?? "Unknown Item"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {CHANNEL_NAMES[offer.channel]}
+                      {offer.item?.sku && <> &middot; {offer.item.sku}</>}
+                    </p>
+                  </TableCell>
+                  <TableCell>{offer.buyerUsername ?? "-"}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatOfferCurrency(offer.amount)}
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      ({getOfferPercent(offer)})
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatOfferCurrency(offer.askingPrice)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatOfferCurrency(offer.counterAmount)}
+                  </TableCell>
+                  <TableCell>{offer.round}</TableCell>
+                  <TableCell>
+                    <Badge variant={getOfferStatusBadgeVariant(offer.status)}>
+                      {getStatusLabel(offer.status)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(offer.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {(offset > 0 || hasMore) && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onOffsetChange?.(Math.max(0, offset - limit))}
+            disabled={offset === 0}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onOffsetChange?.(offset + limit)}
+            disabled={!hasMore}
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, AlertTriangle, FileSpreadsheet } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { useToast } from "@/hooks/use-toast";
+
+type ImportChannel = "poshmark" | "depop";
+
+interface InventoryItem {
+  id: string;
+  title: string;
+  sku: string;
+}
+
+interface ImportSalesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Unsold items offered for rows that did not match automatically */
+  items: InventoryItem[];
+  onImported?: () => void;
+}
+
+const MATCH_LABELS: Record<string, string> = {
+  sku: "SKU",
+  url: "Listing URL",
+  title: "Title",
+};
+
+function formatCurrency(amount: number | null): string {
+  if (amount === null) return "-";
+  return `$${amount.toFixed(2)}`;
+}
+
+export function ImportSalesDialog({
+  open,
+  onOpenChange,
+  items,
+  onImported,
+}: ImportSalesDialogProps) {
+  const { toast } = useToast();
+  const [channel, setChannel] = useState<ImportChannel | "">("");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  // Row number -> selected item ID ("" = skip)
+  const [selections, setSelections] = useState<Record<number, string>>({});
+
+  const previewMutation = trpc.orders.previewImport.useMutation({
+    onSuccess: (data) => {
+      const initial: Record<number, string> = {};
+      for (const row of data.rows) {
+        initial[row.rowNumber] = row.match && !row.duplicate ? row.match.itemId : "";
+      }
+      setSelections(initial);
+    },
+  });
+
+  const confirmMutation = trpc.orders.confirmImport.useMutation({
+    onSuccess: (result) => {
+      toast({
+        title: "Sales imported",
+        description: `${result.created} orders created${
+          result.skipped > 0 ? `, ${result.skipped} already recorded` : ""
+        }.`,
+      });
+      onImported?.();
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const preview = previewMutation.data;
+  const selectedRows = Object.entries(selections)
+    .filter(([, itemId]) => itemId)
+    .map(([rowNumber, itemId]) => ({ rowNumber: Number(rowNumber), itemId }));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    previewMutation.reset();
+  };
+
+  const handlePreview = () => {
+    if (!channel || !csv) return;
+    previewMutation.mutate({ channel, csv });
+  };
+
+  const handleConfirm = () => {
+    if (!channel || selectedRows.length === 0) return;
+    confirmMutation.mutate({ channel, csv, rows: selectedRows });
+  };
+
+  const handleClose = () => {
+    setChannel("");
+    setCsv("");
+    setFileName("");
+    setSelections({});
+    previewMutation.reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Sales Report</DialogTitle>
+          <DialogDescription>
+            Upload the sales report CSV from Poshmark or Depop. Sales are matched
+            to your inventory by SKU, listing URL, or title. Review the matches
+            before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-channel">Marketplace</Label>
+              <Select
+                value={channel}
+                onValueChange={(value) => setChannel(value as ImportChannel)}
+              >
+                <SelectTrigger id="import-channel">
+                  <SelectValue placeholder="Select marketplace" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="poshmark">Poshmark</SelectItem>
+                  <SelectItem value="depop">Depop</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Sales Report (CSV)</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+              />
+              {fileName && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <FileSpreadsheet className="h-3 w-3" />
+                  {fileName}
+                </p>
+              )}
+            </div>
+
+            {previewMutation.error && (
+              <p className="text-sm text-destructive">{previewMutation.error.message}</p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handlePreview}
+                disabled={!channel || !csv || previewMutation.isPending}
+              >
+                {previewMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Preview
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="success">{preview.summary.matched} matched</Badge>
+              <Badge variant="warning">{preview.summary.unmatched} unmatched</Badge>
+              <Badge variant="secondary">
+                {preview.summary.duplicates} already imported
+              </Badge>
+            </div>
+
+            {preview.errors.length > 0 && (
+              <div className="flex items-start gap-3 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800">
+                <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
+                <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
+                  {preview.errors.map((error) => (
+                    <li key={`${error.rowNumber}-${error.message}`}>
+                      {error.rowNumber > 0 ? `Row ${error.rowNumber}: ` : ""}
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="max-h-[400px] overflow-y-auto rounded-md border divide-y">
+              {preview.rows.map((row) => (
+                <div key={row.rowNumber} className="p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{row.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(row.orderedAt).toLocaleDateString()} |{" "}
+                        {formatCurrency(row.salePrice)} | Fees{" "}
+                        {formatCurrency(row.platformFees)}
+                        {row.quantity > 1 && ` | Qty ${row.quantity}`}
+                      </p>
+                    </div>
+                    {row.duplicate ? (
+                      <Badge variant="secondary">Already imported</Badge>
+                    ) : row.match ? (
+                      <Badge variant="success">
+                        {MATCH_LABELS[row.match.matchedBy]}
+                        {row.match.matchedBy === "title" &&
+                          ` ${Math.round(row.match.confidence * 100)}%`}
+                      </Badge>
+                    ) : (
+                      <Badge variant="warning">No match</Badge>
+                    )}
+                  </div>
+
+                  {!row.duplicate && (
+                    <Select
+                      value={selections[row.rowNumber] || "skip"}
+                      onValueChange={(value) =>
+                        setSelections((prev) => ({
+                          ...prev,
+                          [row.rowNumber]: value === "skip" ? "" : value,
+                        }))
+                      }
+                      disabled={confirmMutation.isPending}
+                    >
+                      <SelectTrigger className="h-8 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip this sale</SelectItem>
+                        {row.match &&
+                          !items.some((item) => item.id === row.match?.itemId) && (
+                            <SelectItem value={row.match.itemId}>
+                              {row.match.title} ({row.match.sku})
+                            </SelectItem>
+                          )}
+                        {items.map((item) => (
+                          <SelectItem key={item.id} value={item.id}>
+                            {item.title} ({item.sku})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+              {preview.rows.length === 0 && (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  No sales found in this report.
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => previewMutation.reset()}
+                disabled={confirmMutation.isPending}
+              >
+                Back
+              </Button>
+              <Button
+                onClick={handleConfirm}
+                disabled={selectedRows.length === 0 || confirmMutation.isPending}
+              >
+                {confirmMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Import {selectedRows.length} {selectedRows.length === 1 ? "Sale" : "Sales"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,3 +2,4 @@ export { OrdersTable } from "./orders-table";
 export { OrderDetailDialog } from "./order-detail";
 export { ShipOrderForm } from "./ship-order-form";
 export { RecordSaleDialog } from "./record-sale-dialog";
+export { ImportSalesDialog } from "./import-sales-dialog";
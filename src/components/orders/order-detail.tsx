@@ -28,8 +28,16 @@ import {
   Truck,
   DollarSign,
   Warehouse,
+  Undo2,
 } from "lucide-react";
-import { CHANNEL_NAMES, type Channel, type OrderStatus } from "@/lib/constants";
+import {
+  CARRIER_NAMES,
+  CHANNEL_NAMES,
+  type Carrier,
+  type Channel,
+  type OrderStatus,
+} from "@/lib/constants";
+import { getTrackingUrl } from "@/lib/utils";
 import { ShipOrderForm } from "./ship-order-form";
 import { useState } from "react";
 
@@ -65,10 +73,13 @@ interface OrderDetail {
   channel: Channel;
   externalOrderId: string | null;
   salePrice: number;
+  quantity: number;
   shippingPaid: number | null;
   platformFees: number | null;
   shippingCost: number | null;
   netProfit: number | null;
+  trackingNumber: string | null;
+  carrier: Carrier | null;
   buyerUsername: string | null;
   shippingAddress: ShippingAddress | null;
   status: OrderStatus;
@@ -90,6 +101,8 @@ interface OrderDetailDialogProps {
     shippingCost?: number;
   }) => Promise<void>;
   isShipping?: boolean;
+  /** Open a return against this order */
+  onStartReturn?: () => void;
 }
 
 function getStatusBadgeVariant(
@@ -146,13 +159,16 @@ export function OrderDetailDialog({
   onOpenChange,
   onMarkShipped,
   isShipping = false,
+  onStartReturn,
 }: OrderDetailDialogProps) {
   const [showShipForm, setShowShipForm] = useState(false);
 
   if (!order) return null;
 
   const canShip = order.status === "paid" && !order.shippedAt;
+  const canReturn = ["paid", "shipped", "delivered"].includes(order.status);
   const addressLines = formatAddress(order.shippingAddress);
+  const trackingUrl = getTrackingUrl(order.carrier, order.trackingNumber);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -340,6 +356,38 @@ export function OrderDetailDialog({
             </CardContent>
           </Card>
 
+          {/* Tracking */}
+          {order.trackingNumber && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Truck className="h-4 w-4" />
+                  Tracking
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">
+                    {order.carrier ? CARRIER_NAMES[order.carrier] : "Carrier"}
+                  </span>
+                  {trackingUrl ? (
+                    <a
+                      href={trackingUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 font-mono text-primary hover:underline"
+                    >
+                      {order.trackingNumber}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  ) : (
+                    <span className="font-mono">{order.trackingNumber}</span>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Shipping Address */}
           {addressLines.length > 0 && (
             <Card>
@@ -410,6 +458,14 @@ export function OrderDetailDialog({
             </Card>
           )}
 
+          {/* Start Return */}
+          {canReturn && onStartReturn && (
+            <Button variant="outline" className="w-full" onClick={onStartReturn}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Start Return
+            </Button>
+          )}
+
           {/* External Link */}
           {order.externalOrderId && order.channel === "ebay" && (
             <Button variant="outline" className="w-full" asChild>
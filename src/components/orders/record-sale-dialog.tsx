@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/select";
 import { Loader2, AlertTriangle, Package } from "lucide-react";
 import { CHANNEL_NAMES, type Channel } from "@/lib/constants";
+import { calculateFees, ebayFeeCategoryFor } from "@/lib/fees";
 
 interface InventoryItem {
   id: string;
@@ -29,6 +30,8 @@ interface InventoryItem {
   sku: string;
   askingPrice: number;
   costBasis: number | null;
+  quantity?: number;
+  suggestedCategory?: string | null;
   imageUrl?: string;
 }
 
@@ -41,6 +44,7 @@ interface RecordSaleDialogProps {
     itemId: string;
     channel: Channel;
     salePrice: number;
+    quantity: number;
     platformFees?: number;
     shippingCost?: number;
     buyerUsername?: string;
@@ -48,13 +52,6 @@ interface RecordSaleDialogProps {
   isSubmitting?: boolean;
 }
 
-// Default platform fee percentages
-const PLATFORM_FEES: Record<string, number> = {
-  poshmark: 0.2, // 20%
-  mercari: 0.1, // 10%
-  depop: 0.1, // 10%
-};
-
 export function RecordSaleDialog({
   open,
   onOpenChange,
@@ -66,35 +63,54 @@ export function RecordSaleDialog({
   const [selectedItemId, setSelectedItemId] = useState<string>("");
   const [channel, setChannel] = useState<Channel | "">("");
   const [salePrice, setSalePrice] = useState("");
+  const [quantity, setQuantity] = useState("1");
   const [platformFees, setPlatformFees] = useState("");
+  const [feesEdited, setFeesEdited] = useState(false);
   const [shippingCost, setShippingCost] = useState("");
   const [buyerUsername, setBuyerUsername] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [delistWarning, setDelistWarning] = useState<string[]>([]);
 
   const selectedItem = items.find((item) => item.id === selectedItemId);
+  const availableQuantity = selectedItem?.quantity ?? 1;
+
+  // Keep estimated fees in step with channel and sale price until edited by hand
+  const estimateFees = (
+    nextChannel: Channel | "",
+    nextPrice: string,
+    item: InventoryItem | undefined = selectedItem
+  ) => {
+    if (feesEdited || !nextChannel) return;
+    const price = parseFloat(nextPrice);
+    setPlatformFees(
+      isNaN(price)
+        ? ""
+        : calculateFees({
+            channel: nextChannel,
+            salePrice: price,
+            ebayCategory: ebayFeeCategoryFor(item?.suggestedCategory),
+          }).total.toFixed(2)
+    );
+  };
+
+  const handleItemChange = (value: string) => {
+    setSelectedItemId(value);
+    estimateFees(channel, salePrice, items.find((item) => item.id === value));
+  };
 
-  // Calculate estimated fees when channel or sale price changes
   const handleSalePriceChange = (value: string) => {
     setSalePrice(value);
-    if (channel && value && !platformFees) {
-      const price = parseFloat(value);
-      if (!isNaN(price)) {
-        const feeRate = PLATFORM_FEES[channel] || 0;
-        setPlatformFees((price * feeRate).toFixed(2));
-      }
-    }
+    estimateFees(channel, value);
   };
 
   const handleChannelChange = (value: string) => {
     setChannel(value as Channel);
-    if (salePrice && !platformFees) {
-      const price = parseFloat(salePrice);
-      if (!isNaN(price)) {
-        const feeRate = PLATFORM_FEES[value] || 0;
-        setPlatformFees((price * feeRate).toFixed(2));
-      }
-    }
+    estimateFees(value as Channel, salePrice);
+  };
+
+  const handlePlatformFeesChange = (value: string) => {
+    setPlatformFees(value);
+    setFeesEdited(value !== "");
   };
 
   const validate = (): boolean => {
@@ -112,6 +128,11 @@ export function RecordSaleDialog({
       newErrors.salePrice = "Please enter a valid sale price";
     }
 
+    const units = parseInt(quantity, 10);
+    if (isNaN(units) || units < 1 || units > availableQuantity) {
+      newErrors.quantity = `Enter a quantity between 1 and ${availableQuantity}`;
+    }
+
     if (platformFees && isNaN(parseFloat(platformFees))) {
       newErrors.platformFees = "Please enter a valid amount";
     }
@@ -133,6 +154,7 @@ export function RecordSaleDialog({
       itemId: selectedItemId,
       channel: channel as Channel,
       salePrice: parseFloat(salePrice),
+      quantity: parseInt(quantity, 10),
       platformFees: platformFees ? parseFloat(platformFees) : undefined,
       shippingCost: shippingCost ? parseFloat(shippingCost) : undefined,
       buyerUsername: buyerUsername || undefined,
@@ -147,7 +169,9 @@ export function RecordSaleDialog({
     setSelectedItemId("");
     setChannel("");
     setSalePrice("");
+    setQuantity("1");
     setPlatformFees("");
+    setFeesEdited(false);
     setShippingCost("");
     setBuyerUsername("");
     setErrors({});
@@ -163,7 +187,8 @@ export function RecordSaleDialog({
 
     const fees = platformFees ? parseFloat(platformFees) : 0;
     const shipping = shippingCost ? parseFloat(shippingCost) : 0;
-    const cost = selectedItem?.costBasis ?? 0;
+    const units = parseInt(quantity, 10) || 1;
+    const cost = (selectedItem?.costBasis ?? 0) * units;
 
     return price - fees - shipping - cost;
   })();
@@ -175,7 +200,8 @@ export function RecordSaleDialog({
           <DialogTitle>Record Manual Sale</DialogTitle>
           <DialogDescription>
             Record a sale made on Poshmark, Mercari, or Depop. This will update
-            inventory and notify you to delist from other channels.
+            inventory quantity and notify you to delist from other channels
+            once the item is sold out.
           </DialogDescription>
         </DialogHeader>
 
@@ -214,7 +240,7 @@ export function RecordSaleDialog({
               ) : (
                 <Select
                   value={selectedItemId}
-                  onValueChange={setSelectedItemId}
+                  onValueChange={handleItemChange}
                   disabled={isSubmitting}
                 >
                   <SelectTrigger id="item">
@@ -254,10 +280,34 @@ export function RecordSaleDialog({
                   {selectedItem.costBasis
                     ? `$${selectedItem.costBasis.toFixed(2)}`
                     : "-"}
+                  {availableQuantity > 1 && ` | In stock: ${availableQuantity}`}
                 </p>
               )}
             </div>
 
+            {/* Quantity (multi-quantity items only) */}
+            {availableQuantity > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="quantity">Quantity Sold</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max={availableQuantity}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                {errors.quantity && (
+                  <p className="text-sm text-destructive">{errors.quantity}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Other channels are only delisted once the last unit sells.
+                </p>
+              </div>
+            )}
+
             {/* Channel Selection */}
             <div className="space-y-2">
               <Label htmlFor="channel">Sold On</Label>
@@ -319,7 +369,7 @@ export function RecordSaleDialog({
                   placeholder="0.00"
                   className="pl-7"
                   value={platformFees}
-                  onChange={(e) => setPlatformFees(e.target.value)}
+                  onChange={(e) => handlePlatformFeesChange(e.target.value)}
                   disabled={isSubmitting}
                 />
               </div>
@@ -327,7 +377,8 @@ export function RecordSaleDialog({
                 <p className="text-sm text-destructive">{errors.platformFees}</p>
               )}
               <p className="text-xs text-muted-foreground">
-                Auto-calculated based on typical platform fees. Adjust if needed.
+                Auto-calculated from the channel&apos;s fee schedule, including payment
+                processing. Adjust if needed.
               </p>
             </div>
 
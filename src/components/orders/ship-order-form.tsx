@@ -12,6 +12,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import { CARRIERS, CARRIER_NAMES } from "@/lib/constants";
 
 interface ShipOrderFormProps {
   orderId: string;
@@ -25,13 +26,10 @@ interface ShipOrderFormProps {
   isLoading?: boolean;
 }
 
-const CARRIERS = [
-  { value: "usps", label: "USPS" },
-  { value: "ups", label: "UPS" },
-  { value: "fedex", label: "FedEx" },
-  { value: "dhl", label: "DHL" },
-  { value: "other", label: "Other" },
-] as const;
+const CARRIER_OPTIONS = CARRIERS.map((value) => ({
+  value,
+  label: CARRIER_NAMES[value],
+}));
 
 export function ShipOrderForm({
   orderId,
@@ -99,7 +97,7 @@ export function ShipOrderForm({
             <SelectValue placeholder="Select carrier" />
           </SelectTrigger>
           <SelectContent>
-            {CARRIERS.map((c) => (
+            {CARRIER_OPTIONS.map((c) => (
               <SelectItem key={c.value} value={c.value}>
                 {c.label}
               </SelectItem>
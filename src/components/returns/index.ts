@@ -0,0 +1,6 @@
+export { ReturnFormDialog } from "./return-form-dialog";
+export { RefundDialog } from "./refund-dialog";
+export { RestockDialog } from "./restock-dialog";
+export type { ReturnOrderDetails } from "./return-form-dialog";
+export type { RefundReturnDetails } from "./refund-dialog";
+export type { RestockReturnDetails } from "./restock-dialog";
@@ -0,0 +1,157 @@
+"use client";
+
+/**
+ * Refund Dialog
+ *
+ * Records the refund paid to the buyer on a return, along with any return
+ * label the seller paid for. Both come out of the order's profit.
+ */
+
+import * as React from "react";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import { Loader2 } from "lucide-react";
+
+// ============ TYPES ============
+
+export interface RefundReturnDetails {
+  id: string;
+  itemTitle: string;
+  salePrice: number;
+  shippingPaid: number | null;
+  quantity: number;
+  orderQuantity: number;
+  refundAmount: number | null;
+  returnShippingCost: number | null;
+}
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: RefundReturnDetails | null;
+}
+
+// ============ HELPERS ============
+
+/**
+ * What the buyer paid for the returned units: the order total split by unit
+ */
+function paidForUnits(entry: RefundReturnDetails): number {
+  const paid = entry.salePrice + (entry.shippingPaid ?? 0);
+  return Math.round(((paid * entry.quantity) / Math.max(entry.orderQuantity, 1)) * 100) / 100;
+}
+
+// ============ COMPONENT ============
+
+export function RefundDialog({ open, onOpenChange, entry }: RefundDialogProps) {
+  const utils = trpc.useUtils();
+  const [refundAmount, setRefundAmount] = React.useState("");
+  const [returnShippingCost, setReturnShippingCost] = React.useState("");
+
+  React.useEffect(() => {
+    if (open && entry) {
+      setRefundAmount(String(entry.refundAmount ?? paidForUnits(entry)));
+      setReturnShippingCost(
+        entry.returnShippingCost !== null ? String(entry.returnShippingCost) : ""
+      );
+    }
+  }, [open, entry]);
+
+  const refundMutation = trpc.returns.refund.useMutation({
+    onSuccess: () => {
+      utils.returns.list.invalidate();
+      utils.orders.list.invalidate();
+      utils.orders.getStats.invalidate();
+      onOpenChange(false);
+    },
+  });
+
+  if (!entry) return null;
+
+  const handleSubmit = () => {
+    refundMutation.mutate({
+      id: entry.id,
+      refundAmount: Math.max(0, parseFloat(refundAmount) || 0),
+      returnShippingCost:
+        returnShippingCost.trim() === ""
+          ? undefined
+          : Math.max(0, parseFloat(returnShippingCost) || 0),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Refund</DialogTitle>
+          <DialogDescription>
+            {entry.itemTitle} · buyer paid {formatCurrency(paidForUnits(entry))}
+            {entry.orderQuantity > 1 && (
+              <>
+                {" "}
+                for {entry.quantity} of {entry.orderQuantity} units
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="refund-amount">Refund ($)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min={0}
+                max={paidForUnits(entry)}
+                step="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="refund-shipping">Return shipping ($)</Label>
+              <Input
+                id="refund-shipping"
+                type="number"
+                min={0}
+                step="0.01"
+                value={returnShippingCost}
+                onChange={(e) => setReturnShippingCost(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {refundMutation.error && (
+            <p className="text-sm text-destructive">{refundMutation.error.message}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={refundMutation.isPending || refundAmount === ""}>
+            {refundMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Record Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RefundDialog;
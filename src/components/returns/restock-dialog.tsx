@@ -0,0 +1,206 @@
+"use client";
+
+/**
+ * Restock Dialog
+ *
+ * Puts a returned item back into inventory. Returns often come back worn,
+ * so the condition can be lowered, and active items can be relisted on
+ * the channels they sold through.
+ */
+
+import * as React from "react";
+import { trpc } from "@/lib/trpc/client";
+import { CHANNEL_NAMES, CONDITIONS, CONDITION_NAMES, type Condition } from "@/lib/constants";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import { Loader2 } from "lucide-react";
+
+// ============ TYPES ============
+
+export interface RestockReturnDetails {
+  id: string;
+  itemTitle: string;
+  itemCondition: Condition;
+  quantity: number;
+}
+
+interface RestockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: RestockReturnDetails | null;
+}
+
+// ============ COMPONENT ============
+
+export function RestockDialog({ open, onOpenChange, entry }: RestockDialogProps) {
+  const utils = trpc.useUtils();
+  const [status, setStatus] = React.useState<"active" | "draft">("active");
+  const [condition, setCondition] = React.useState<Condition>("good");
+  const [relist, setRelist] = React.useState(false);
+
+  const restockMutation = trpc.returns.restock.useMutation({
+    onSuccess: (result) => {
+      utils.returns.list.invalidate();
+      utils.orders.list.invalidate();
+      utils.orders.getStats.invalidate();
+      utils.inventory.list.invalidate();
+      // Keep the dialog open to report relists that need a manual step
+      if (!result.relists.some((r) => r.requiresManualAction || !r.success)) {
+        onOpenChange(false);
+      }
+    },
+  });
+
+  const { reset } = restockMutation;
+  React.useEffect(() => {
+    if (open && entry) {
+      setStatus("active");
+      setCondition(entry.itemCondition);
+      setRelist(false);
+      reset();
+    }
+  }, [open, entry, reset]);
+
+  if (!entry) return null;
+
+  // Conditions can only stay the same or get worse
+  const allowedConditions = CONDITIONS.slice(CONDITIONS.indexOf(entry.itemCondition));
+  const relists = restockMutation.data?.relists ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Restock Item</DialogTitle>
+          <DialogDescription>
+            Return {entry.quantity} unit{entry.quantity === 1 ? "" : "s"} of {entry.itemTitle} to
+            inventory. The cost comes back out of the sale&apos;s profit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {relists.length > 0 ? (
+          <div className="space-y-2 text-sm">
+            {relists.map((relist) => (
+              <p
+                key={relist.channel}
+                className={relist.success ? undefined : "text-destructive"}
+              >
+                {CHANNEL_NAMES[relist.channel]}:{" "}
+                {!relist.success
+                  ? relist.error ?? "Relist failed"
+                  : relist.requiresManualAction
+                    ? "draft listing created. Relist it there and mark it listed."
+                    : "relisted."}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Restock as</Label>
+                <Select
+                  value={status}
+                  onValueChange={(value) => {
+                    setStatus(value as "active" | "draft");
+                    if (value === "draft") setRelist(false);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="draft">Draft</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Condition</Label>
+                <Select
+                  value={condition}
+                  onValueChange={(value) => setCondition(value as Condition)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allowedConditions.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {CONDITION_NAMES[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="restock-relist">Relist on original channels</Label>
+                <p className="text-xs text-muted-foreground">
+                  eBay is relisted automatically; other channels get a draft to relist by hand.
+                </p>
+              </div>
+              <Switch
+                id="restock-relist"
+                checked={relist}
+                disabled={status !== "active"}
+                onCheckedChange={setRelist}
+              />
+            </div>
+
+            {restockMutation.error && (
+              <p className="text-sm text-destructive">{restockMutation.error.message}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {relists.length > 0 ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() =>
+                  restockMutation.mutate({
+                    id: entry.id,
+                    status,
+                    condition: condition === entry.itemCondition ? undefined : condition,
+                    relist,
+                  })
+                }
+                disabled={restockMutation.isPending}
+              >
+                {restockMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Restock
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RestockDialog;
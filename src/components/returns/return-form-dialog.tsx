@@ -0,0 +1,189 @@
+"use client";
+
+/**
+ * Return Form Dialog
+ *
+ * Opens a return against an order. The refund can be recorded here if the
+ * buyer has already been refunded, or later from the returns page.
+ */
+
+import * as React from "react";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import { Loader2 } from "lucide-react";
+
+// ============ TYPES ============
+
+export interface ReturnOrderDetails {
+  id: string;
+  itemTitle: string;
+  salePrice: number;
+  shippingPaid: number | null;
+  quantity: number;
+}
+
+interface ReturnFormData {
+  quantity: string;
+  reason: string;
+  refundAmount: string;
+  returnShippingCost: string;
+}
+
+interface ReturnFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: ReturnOrderDetails | null;
+}
+
+// ============ HELPERS ============
+
+function toFormData(order: ReturnOrderDetails | null): ReturnFormData {
+  return {
+    quantity: String(order?.quantity ?? 1),
+    reason: "",
+    refundAmount: "",
+    returnShippingCost: "",
+  };
+}
+
+const parseOptionalAmount = (value: string) =>
+  value.trim() === "" ? undefined : Math.max(0, parseFloat(value) || 0);
+
+// ============ COMPONENT ============
+
+export function ReturnFormDialog({ open, onOpenChange, order }: ReturnFormDialogProps) {
+  const utils = trpc.useUtils();
+  const [formData, setFormData] = React.useState<ReturnFormData>(() => toFormData(order));
+
+  React.useEffect(() => {
+    if (open) setFormData(toFormData(order));
+  }, [open, order]);
+
+  const createMutation = trpc.returns.create.useMutation({
+    onSuccess: () => {
+      utils.returns.list.invalidate();
+      utils.orders.list.invalidate();
+      utils.orders.getStats.invalidate();
+      utils.orders.getById.invalidate();
+      onOpenChange(false);
+    },
+  });
+
+  const updateField = <K extends keyof ReturnFormData>(field: K, value: ReturnFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  if (!order) return null;
+
+  const maxRefund = order.salePrice + (order.shippingPaid ?? 0);
+
+  const handleSubmit = () => {
+    createMutation.mutate({
+      orderId: order.id,
+      quantity: order.quantity > 1 ? parseInt(formData.quantity, 10) || 1 : undefined,
+      reason: formData.reason.trim() || undefined,
+      refundAmount: parseOptionalAmount(formData.refundAmount),
+      returnShippingCost: parseOptionalAmount(formData.returnShippingCost),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Start Return</DialogTitle>
+          <DialogDescription>
+            {order.itemTitle} · sold for {formatCurrency(order.salePrice)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {order.quantity > 1 && (
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="return-quantity">Units returned</Label>
+                <Input
+                  id="return-quantity"
+                  type="number"
+                  min={1}
+                  max={order.quantity}
+                  step={1}
+                  value={formData.quantity}
+                  onChange={(e) => updateField("quantity", e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="return-reason">Reason</Label>
+              <Textarea
+                id="return-reason"
+                rows={2}
+                value={formData.reason}
+                onChange={(e) => updateField("reason", e.target.value)}
+                placeholder="e.g. Doesn't fit"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="return-refund">Refund issued ($)</Label>
+              <Input
+                id="return-refund"
+                type="number"
+                min={0}
+                max={maxRefund}
+                step="0.01"
+                value={formData.refundAmount}
+                onChange={(e) => updateField("refundAmount", e.target.value)}
+                placeholder="Not yet"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="return-shipping">Return shipping ($)</Label>
+              <Input
+                id="return-shipping"
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.returnShippingCost}
+                onChange={(e) => updateField("returnShippingCost", e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Recording the refund takes it, and any return label you paid for, out of this
+            order&apos;s profit.
+          </p>
+
+          {createMutation.error && (
+            <p className="text-sm text-destructive">{createMutation.error.message}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={createMutation.isPending}>
+            {createMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Start Return
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ReturnFormDialog;
@@ -29,6 +29,11 @@ export function ConnectedChannels() {
     (c: { channel: string; status: string }) =>
       c.channel === "ebay" && c.status === "active"
   );
+  // Set when a token refresh was rejected; syncing stops until the user reconnects
+  const ebayExpired = connectionsQuery.data?.some(
+    (c: { channel: string; status: string }) =>
+      c.channel === "ebay" && c.status === "expired"
+  );
 
   const handleConnectEbay = async () => {
     setIsConnecting(true);
@@ -87,13 +92,20 @@ export function ConnectedChannels() {
               </Button>
             </>
           ) : (
-            <Button
-              size="sm"
-              onClick={handleConnectEbay}
-              disabled={isConnecting}
-            >
-              {isConnecting ? "Connecting..." : "Connect"}
-            </Button>
+            <>
+              {ebayExpired && <Badge variant="warning">Expired</Badge>}
+              <Button
+                size="sm"
+                onClick={handleConnectEbay}
+                disabled={isConnecting}
+              >
+                {isConnecting
+                  ? "Connecting..."
+                  : ebayExpired
+                    ? "Reconnect"
+                    : "Connect"}
+              </Button>
+            </>
           )}
         </div>
       </div>
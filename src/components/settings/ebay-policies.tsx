@@ -0,0 +1,143 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatRelativeTime } from "@/lib/utils";
+import { Loader2, RefreshCw } from "lucide-react";
+
+type PolicyField =
+  | "fulfillmentPolicyId"
+  | "paymentPolicyId"
+  | "returnPolicyId"
+  | "merchantLocationKey";
+
+interface PolicyOption {
+  value: string;
+  label: string;
+}
+
+export function EbayPolicies() {
+  const utils = trpc.useUtils();
+  const policiesQuery = trpc.channels.getEbayPolicies.useQuery();
+
+  const refreshMutation = trpc.channels.refreshEbayPolicies.useMutation({
+    onSuccess: () => {
+      utils.channels.getEbayPolicies.invalidate();
+    },
+  });
+
+  const saveMutation = trpc.channels.setEbayPolicyDefaults.useMutation({
+    onSuccess: () => {
+      utils.channels.getEbayPolicies.invalidate();
+    },
+  });
+
+  if (policiesQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const policies = policiesQuery.data?.policies ?? null;
+  const defaults = policiesQuery.data?.defaults ?? {};
+
+  const fields: Array<{ field: PolicyField; label: string; options: PolicyOption[] }> =
+    policies
+      ? [
+          {
+            field: "fulfillmentPolicyId",
+            label: "Shipping Policy",
+            options: policies.fulfillmentPolicies.map((p) => ({ value: p.id, label: p.name })),
+          },
+          {
+            field: "paymentPolicyId",
+            label: "Payment Policy",
+            options: policies.paymentPolicies.map((p) => ({ value: p.id, label: p.name })),
+          },
+          {
+            field: "returnPolicyId",
+            label: "Return Policy",
+            options: policies.returnPolicies.map((p) => ({ value: p.id, label: p.name })),
+          },
+          {
+            field: "merchantLocationKey",
+            label: "Ship-From Location",
+            options: policies.locations.map((l) => ({ value: l.key, label: l.name })),
+          },
+        ]
+      : [];
+
+  const handleChange = (field: PolicyField, value: string) => {
+    saveMutation.mutate({ ...defaults, [field]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {policies
+            ? `Fetched ${formatRelativeTime(policies.fetchedAt)}`
+            : "Load your business policies from eBay to choose listing defaults."}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refreshMutation.mutate()}
+          disabled={refreshMutation.isPending}
+        >
+          {refreshMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          {policies ? "Refresh" : "Load Policies"}
+        </Button>
+      </div>
+
+      {refreshMutation.error && (
+        <p className="text-sm text-destructive">{refreshMutation.error.message}</p>
+      )}
+      {saveMutation.error && (
+        <p className="text-sm text-destructive">{saveMutation.error.message}</p>
+      )}
+
+      {fields.map(({ field, label, options }) => (
+        <div key={field} className="space-y-2">
+          <Label htmlFor={`ebay-${field}`}>{label}</Label>
+          {options.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              None found. Create one in eBay Seller Hub, then refresh.
+            </p>
+          ) : (
+            <Select
+              value={defaults[field] ?? ""}
+              onValueChange={(value) => handleChange(field, value)}
+              disabled={saveMutation.isPending}
+            >
+              <SelectTrigger id={`ebay-${field}`}>
+                <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
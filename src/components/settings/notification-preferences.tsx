@@ -247,8 +247,9 @@ export function NotificationPreferences() {
         <Separator className="mt-2" />
 
         <p className="text-xs text-muted-foreground mt-4">
-          Email notifications are sent to your account email address.
-          In-app notifications appear in your dashboard.
+          Email notifications are sent to your account email address. Urgent
+          alerts are emailed right away; everything else arrives in one daily
+          digest. In-app notifications appear in your dashboard.
         </p>
       </CardContent>
     </Card>
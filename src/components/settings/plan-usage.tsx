@@ -0,0 +1,89 @@
+"use client";
+
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { PRICING_TIERS } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+const USAGE_ROWS = [
+  { key: "listings", label: "Listings" },
+  { key: "aiListings", label: "AI listing drafts" },
+  { key: "bgRemovals", label: "Background removals" },
+] as const;
+
+const TIER_ORDER = Object.keys(PRICING_TIERS) as Array<keyof typeof PRICING_TIERS>;
+
+function formatLimit(limit: number): string {
+  return limit === -1 ? "Unlimited" : limit.toLocaleString();
+}
+
+export function PlanUsage() {
+  const usageQuery = trpc.settings.getUsage.useQuery();
+
+  if (usageQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!usageQuery.data) {
+    return (
+      <p className="text-sm text-muted-foreground">Unable to load plan usage.</p>
+    );
+  }
+
+  const { tier, tierName, periodResetAt, usage } = usageQuery.data;
+  const nextTier = TIER_ORDER[TIER_ORDER.indexOf(tier) + 1];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">Current plan</span>
+          <Badge variant="secondary">{tierName}</Badge>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          Resets {format(new Date(periodResetAt), "MMM d, yyyy")}
+        </span>
+      </div>
+
+      {USAGE_ROWS.map(({ key, label }) => {
+        const { used, limit } = usage[key];
+        const percent = limit === -1 ? 0 : Math.min(100, (used / limit) * 100);
+        return (
+          <div key={key} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span>{label}</span>
+              <span className="text-muted-foreground">
+                {used.toLocaleString()} / {formatLimit(limit)}
+              </span>
+            </div>
+            {limit !== -1 && (
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={cn(
+                    "h-full rounded-full",
+                    percent >= 100 ? "bg-destructive" : percent >= 80 ? "bg-yellow-500" : "bg-primary"
+                  )}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {nextTier && (
+        <p className="text-xs text-muted-foreground">
+          Need more? The {PRICING_TIERS[nextTier].name} plan includes{" "}
+          {formatLimit(PRICING_TIERS[nextTier].listings)} listings and{" "}
+          {formatLimit(PRICING_TIERS[nextTier].aiListings)} AI drafts per month.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * Add to Lot Dialog
+ *
+ * Puts the items selected in the inventory table into an existing
+ * sourcing lot, or starts a new lot for them.
+ */
+
+import * as React from "react";
+import { trpc } from "@/lib/trpc/client";
+import { formatDate } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { LotFormDialog } from "./lot-form-dialog";
+
+import { Loader2, Plus } from "lucide-react";
+
+interface AddToLotDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemIds: string[];
+  onAdded?: () => void;
+}
+
+export function AddToLotDialog({ open, onOpenChange, itemIds, onAdded }: AddToLotDialogProps) {
+  const utils = trpc.useUtils();
+  const [lotId, setLotId] = React.useState<string>("");
+  const [creating, setCreating] = React.useState(false);
+
+  const { data: lots, isLoading } = trpc.sourcing.list.useQuery(undefined, { enabled: open });
+
+  React.useEffect(() => {
+    if (open) setLotId("");
+  }, [open]);
+
+  const addMutation = trpc.sourcing.addItems.useMutation({
+    onSuccess: () => {
+      utils.sourcing.list.invalidate();
+      utils.sourcing.get.invalidate({ id: lotId });
+      utils.inventory.list.invalidate();
+      utils.analytics.sourcingRoi.invalidate();
+      onOpenChange(false);
+      onAdded?.();
+    },
+  });
+
+  return (
+    <>
+      <Dialog open={open && !creating} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add to Sourcing Lot</DialogTitle>
+            <DialogDescription>
+              Add {itemIds.length} item(s) to a lot. Their cost basis becomes a share of the
+              lot&apos;s cost.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1">
+            <Label>Lot</Label>
+            <Select value={lotId} onValueChange={setLotId} disabled={isLoading}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoading ? "Loading lots..." : "Choose a lot"} />
+              </SelectTrigger>
+              <SelectContent>
+                {lots?.map((lot) => (
+                  <SelectItem key={lot.lotId} value={lot.lotId}>
+                    {lot.name} · {formatDate(lot.purchasedAt)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {lots && lots.length === 0 && (
+              <p className="text-xs text-muted-foreground">No lots yet. Create one below.</p>
+            )}
+          </div>
+
+          {addMutation.error && (
+            <p className="text-sm text-destructive">{addMutation.error.message}</p>
+          )}
+
+          <DialogFooter className="sm:justify-between">
+            <Button variant="ghost" onClick={() => setCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Lot
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => addMutation.mutate({ lotId, itemIds })}
+                disabled={!lotId || addMutation.isPending}
+              >
+                {addMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Add Items
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <LotFormDialog
+        open={open && creating}
+        onOpenChange={(isOpen) => {
+          setCreating(false);
+          if (!isOpen) onOpenChange(false);
+        }}
+        itemIds={itemIds}
+        onSaved={() => onAdded?.()}
+      />
+    </>
+  );
+}
+
+export default AddToLotDialog;
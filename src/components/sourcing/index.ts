@@ -0,0 +1,4 @@
+export { LotFormDialog, ALLOCATION_METHOD_LABELS } from "./lot-form-dialog";
+export type { AllocationMethod, LotDetails } from "./lot-form-dialog";
+export { AddToLotDialog } from "./add-to-lot-dialog";
+export { LotItemsTable } from "./lot-items-table";
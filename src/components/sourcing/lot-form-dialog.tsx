@@ -0,0 +1,268 @@
+"use client";
+
+/**
+ * Lot Form Dialog
+ *
+ * Creates a sourcing lot (optionally with items already picked in the
+ * inventory table) or edits an existing lot's details.
+ */
+
+import * as React from "react";
+import { format } from "date-fns";
+import { trpc } from "@/lib/trpc/client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import { Loader2 } from "lucide-react";
+
+// ============ TYPES ============
+
+export type AllocationMethod = "even" | "estimated_value" | "manual";
+
+export interface LotDetails {
+  id: string;
+  name: string;
+  purchasedAt: Date;
+  source: string | null;
+  location: string | null;
+  totalCost: number;
+  mileage: number | null;
+  allocationMethod: AllocationMethod;
+  notes: string | null;
+}
+
+interface LotFormData {
+  name: string;
+  purchasedAt: string;
+  source: string;
+  location: string;
+  totalCost: string;
+  mileage: string;
+  allocationMethod: AllocationMethod;
+  notes: string;
+}
+
+interface LotFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Edit this lot instead of creating one */
+  lot?: LotDetails;
+  /** Items to put in a new lot */
+  itemIds?: string[];
+  onSaved?: (lotId: string) => void;
+}
+
+// ============ HELPERS ============
+
+export const ALLOCATION_METHOD_LABELS: Record<AllocationMethod, string> = {
+  even: "Split evenly",
+  estimated_value: "By estimated value",
+  manual: "Manual split",
+};
+
+function toFormData(lot?: LotDetails): LotFormData {
+  return {
+    name: lot?.name ?? "",
+    purchasedAt: format(lot?.purchasedAt ?? new Date(), "yyyy-MM-dd"),
+    source: lot?.source ?? "",
+    location: lot?.location ?? "",
+    totalCost: lot ? String(lot.totalCost) : "",
+    mileage: lot?.mileage != null ? String(lot.mileage) : "",
+    allocationMethod: lot?.allocationMethod ?? "even",
+    notes: lot?.notes ?? "",
+  };
+}
+
+const emptyToNull = (value: string) => (value.trim() === "" ? null : value.trim());
+
+// ============ COMPONENT ============
+
+export function LotFormDialog({ open, onOpenChange, lot, itemIds, onSaved }: LotFormDialogProps) {
+  const utils = trpc.useUtils();
+  const [formData, setFormData] = React.useState<LotFormData>(() => toFormData(lot));
+
+  React.useEffect(() => {
+    if (open) setFormData(toFormData(lot));
+  }, [open, lot]);
+
+  const onSuccess = (lotId: string) => {
+    utils.sourcing.list.invalidate();
+    utils.sourcing.get.invalidate({ id: lotId });
+    utils.inventory.list.invalidate();
+    utils.analytics.sourcingRoi.invalidate();
+    onOpenChange(false);
+    onSaved?.(lotId);
+  };
+
+  const createMutation = trpc.sourcing.create.useMutation({
+    onSuccess: (result) => onSuccess(result.id),
+  });
+  const updateMutation = trpc.sourcing.update.useMutation({
+    onSuccess: () => lot && onSuccess(lot.id),
+  });
+
+  const updateField = <K extends keyof LotFormData>(field: K, value: LotFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = () => {
+    const fields = {
+      name: formData.name.trim(),
+      purchasedAt: new Date(`${formData.purchasedAt}T12:00:00`),
+      source: emptyToNull(formData.source),
+      location: emptyToNull(formData.location),
+      totalCost: parseFloat(formData.totalCost) || 0,
+      mileage: formData.mileage.trim() === "" ? null : parseFloat(formData.mileage) || 0,
+      allocationMethod: formData.allocationMethod,
+      notes: emptyToNull(formData.notes),
+    };
+
+    if (lot) {
+      updateMutation.mutate({ id: lot.id, ...fields });
+    } else {
+      createMutation.mutate({ ...fields, itemIds });
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+  const error = createMutation.error ?? updateMutation.error;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{lot ? "Edit Lot" : "New Sourcing Lot"}</DialogTitle>
+          <DialogDescription>
+            {itemIds && itemIds.length > 0
+              ? `The lot cost is split across the ${itemIds.length} selected item(s).`
+              : "Record what you paid for a batch of items; the cost is split into each item's cost basis."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="lot-name">Name</Label>
+              <Input
+                id="lot-name"
+                value={formData.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                placeholder="e.g. Estate sale bag"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lot-date">Purchased</Label>
+              <Input
+                id="lot-date"
+                type="date"
+                value={formData.purchasedAt}
+                onChange={(e) => updateField("purchasedAt", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lot-cost">Total cost ($)</Label>
+              <Input
+                id="lot-cost"
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.totalCost}
+                onChange={(e) => updateField("totalCost", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lot-source">Source</Label>
+              <Input
+                id="lot-source"
+                value={formData.source}
+                onChange={(e) => updateField("source", e.target.value)}
+                placeholder="e.g. Smith Estate Sales"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lot-location">Location</Label>
+              <Input
+                id="lot-location"
+                value={formData.location}
+                onChange={(e) => updateField("location", e.target.value)}
+                placeholder="e.g. Portland, OR"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lot-mileage">Mileage</Label>
+              <Input
+                id="lot-mileage"
+                type="number"
+                min={0}
+                value={formData.mileage}
+                onChange={(e) => updateField("mileage", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Cost split</Label>
+              <Select
+                value={formData.allocationMethod}
+                onValueChange={(value) => updateField("allocationMethod", value as AllocationMethod)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ALLOCATION_METHOD_LABELS) as AllocationMethod[]).map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {ALLOCATION_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="lot-notes">Notes</Label>
+              <Textarea
+                id="lot-notes"
+                rows={2}
+                value={formData.notes}
+                onChange={(e) => updateField("notes", e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error.message}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isPending || formData.name.trim() === "" || formData.totalCost === ""}
+          >
+            {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {lot ? "Save Lot" : "Create Lot"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default LotFormDialog;
@@ -0,0 +1,172 @@
+"use client";
+
+/**
+ * Lot Items Table
+ *
+ * The items in a sourcing lot with their share of the lot cost. By-value
+ * and manual splits get an editable value per item.
+ */
+
+import * as React from "react";
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+import { formatCurrency, truncate } from "@/lib/utils";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import type { AllocationMethod } from "./lot-form-dialog";
+
+import { Loader2, X } from "lucide-react";
+
+interface LotItem {
+  id: string;
+  title: string;
+  sku: string;
+  status: string;
+  askingPrice: number;
+  costBasis: number | null;
+  lotAllocationValue: number | null;
+}
+
+interface LotItemsTableProps {
+  lotId: string;
+  allocationMethod: AllocationMethod;
+  items: LotItem[];
+}
+
+export function LotItemsTable({ lotId, allocationMethod, items }: LotItemsTableProps) {
+  const utils = trpc.useUtils();
+  const [values, setValues] = React.useState<Record<string, string>>({});
+
+  // Reset edits when the lot reloads
+  React.useEffect(() => {
+    setValues({});
+  }, [items]);
+
+  const onSuccess = () => {
+    utils.sourcing.get.invalidate({ id: lotId });
+    utils.sourcing.list.invalidate();
+    utils.analytics.sourcingRoi.invalidate();
+  };
+
+  const saveValues = trpc.sourcing.setAllocationValues.useMutation({ onSuccess });
+  const removeItems = trpc.sourcing.removeItems.useMutation({ onSuccess });
+
+  const editable = allocationMethod !== "even";
+  const edited = Object.entries(values);
+
+  const handleSave = () => {
+    saveValues.mutate({
+      lotId,
+      values: edited.map(([itemId, value]) => ({
+        itemId,
+        value: value.trim() === "" ? null : parseFloat(value) || 0,
+      })),
+    });
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <p className="text-muted-foreground">No items in this lot</p>
+        <p className="text-sm text-muted-foreground mt-1">
+          Select items in your inventory and choose Add to Lot
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Asking Price</TableHead>
+            {editable && (
+              <TableHead className="text-right">
+                {allocationMethod === "manual" ? "Cost ($)" : "Est. Value ($)"}
+              </TableHead>
+            )}
+            <TableHead className="text-right">Cost Basis</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item) => (
+            <TableRow key={item.id}>
+              <TableCell>
+                <Link href={`/inventory/${item.id}`} className="hover:underline">
+                  <p className="font-medium">{truncate(item.title, 40)}</p>
+                </Link>
+                <div className="flex items-center gap-2">
+                  <p className="text-xs text-muted-foreground">{item.sku}</p>
+                  <Badge variant="secondary" className="capitalize text-xs">
+                    {item.status}
+                  </Badge>
+                </div>
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(item.askingPrice)}</TableCell>
+              {editable && (
+                <TableCell className="text-right">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="w-28 ml-auto h-8"
+                    value={values[item.id] ?? (item.lotAllocationValue?.toString() ?? "")}
+                    placeholder={
+                      allocationMethod === "estimated_value" ? item.askingPrice.toString() : "0"
+                    }
+                    onChange={(e) =>
+                      setValues((prev) => ({ ...prev, [item.id]: e.target.value }))
+                    }
+                  />
+                </TableCell>
+              )}
+              <TableCell className="text-right">
+                {item.costBasis != null ? formatCurrency(item.costBasis) : "—"}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeItems.mutate({ itemIds: [item.id] })}
+                  disabled={removeItems.isPending}
+                  aria-label="Remove from lot"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {editable && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            {allocationMethod === "manual"
+              ? "Each item's cost is what you enter."
+              : "Blank values use the asking price."}
+          </p>
+          <Button size="sm" onClick={handleSave} disabled={edited.length === 0 || saveValues.isPending}>
+            {saveValues.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Recalculate
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LotItemsTable;
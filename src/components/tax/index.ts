@@ -0,0 +1,2 @@
+export { ReconciliationTable } from "./reconciliation-table";
+export type { ReconciliationRow } from "./reconciliation-table";
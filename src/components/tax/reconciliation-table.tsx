@@ -0,0 +1,240 @@
+"use client";
+
+/**
+ * 1099-K Reconciliation Table
+ *
+ * Recorded gross receipts next to the 1099-K total for each channel, with
+ * inline entry of the form amounts and a flag where they disagree.
+ */
+
+import * as React from "react";
+import { AlertTriangle, CheckCircle2, Edit, HelpCircle, Loader2, Trash2 } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { CHANNEL_NAMES, CHANNELS, type Channel } from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// ============ TYPES ============
+
+export interface ReconciliationRow {
+  channel: Channel;
+  recordedGross: number;
+  recordedTransactions: number;
+  reportedGross: number | null;
+  reportedTransactions: number | null;
+  difference: number | null;
+  status: "matched" | "gap" | "not_entered";
+}
+
+interface ReconciliationTableProps {
+  taxYear: number;
+  rows: ReconciliationRow[];
+}
+
+interface FormEntry {
+  channel: Channel;
+  grossAmount: string;
+  transactionCount: string;
+}
+
+// ============ HELPERS ============
+
+const STATUS_DISPLAY = {
+  matched: { label: "Matched", icon: CheckCircle2, className: "text-green-600" },
+  gap: { label: "Gap", icon: AlertTriangle, className: "text-red-600" },
+  not_entered: { label: "Not entered", icon: HelpCircle, className: "text-amber-600" },
+} as const;
+
+// ============ COMPONENT ============
+
+export function ReconciliationTable({ taxYear, rows }: ReconciliationTableProps) {
+  const utils = trpc.useUtils();
+  const [editing, setEditing] = React.useState<FormEntry | null>(null);
+
+  const onSuccess = () => {
+    utils.tax.report.invalidate({ taxYear });
+    setEditing(null);
+  };
+  const setMutation = trpc.tax.set1099K.useMutation({ onSuccess });
+  const deleteMutation = trpc.tax.delete1099K.useMutation({ onSuccess });
+
+  const startEditing = (row?: ReconciliationRow) => {
+    const channel = row?.channel ?? CHANNELS.find((c) => !rows.some((r) => r.channel === c));
+    if (!channel) return;
+    setEditing({
+      channel,
+      grossAmount: row?.reportedGross != null ? String(row.reportedGross) : "",
+      transactionCount: row?.reportedTransactions != null ? String(row.reportedTransactions) : "",
+    });
+  };
+
+  const save = () => {
+    if (!editing) return;
+    setMutation.mutate({
+      taxYear,
+      channel: editing.channel,
+      grossAmount: parseFloat(editing.grossAmount) || 0,
+      transactionCount:
+        editing.transactionCount.trim() === "" ? null : parseInt(editing.transactionCount, 10) || 0,
+    });
+  };
+
+  const isNewChannel = editing !== null && !rows.some((row) => row.channel === editing.channel);
+  const error = setMutation.error ?? deleteMutation.error;
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Channel</TableHead>
+            <TableHead className="text-right">Recorded</TableHead>
+            <TableHead className="text-right">1099-K (Box 1a)</TableHead>
+            <TableHead className="text-right">Difference</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-[90px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => {
+            const status = STATUS_DISPLAY[row.status];
+            const StatusIcon = status.icon;
+            return (
+              <TableRow key={row.channel}>
+                <TableCell className="font-medium">{CHANNEL_NAMES[row.channel]}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.recordedGross)}
+                  <p className="text-xs text-muted-foreground">
+                    {row.recordedTransactions} orders
+                  </p>
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.reportedGross !== null ? formatCurrency(row.reportedGross) : "—"}
+                  {row.reportedTransactions !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      {row.reportedTransactions} transactions
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.difference !== null ? formatCurrency(row.difference) : "—"}
+                </TableCell>
+                <TableCell>
+                  <span className={`inline-flex items-center gap-1 text-sm ${status.className}`}>
+                    <StatusIcon className="h-4 w-4" />
+                    {status.label}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => startEditing(row)}
+                      aria-label={`Enter 1099-K for ${CHANNEL_NAMES[row.channel]}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    {row.reportedGross !== null && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate({ taxYear, channel: row.channel })}
+                        disabled={deleteMutation.isPending}
+                        aria-label={`Remove 1099-K for ${CHANNEL_NAMES[row.channel]}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {editing ? (
+        <div className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Channel</p>
+            {isNewChannel ? (
+              <Select
+                value={editing.channel}
+                onValueChange={(value) => setEditing({ ...editing, channel: value as Channel })}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHANNELS.filter((channel) => !rows.some((row) => row.channel === channel)).map(
+                    (channel) => (
+                      <SelectItem key={channel} value={channel}>
+                        {CHANNEL_NAMES[channel]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="h-10 flex items-center font-medium">{CHANNEL_NAMES[editing.channel]}</p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Gross amount ($)</p>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              className="w-[140px]"
+              value={editing.grossAmount}
+              onChange={(e) => setEditing({ ...editing, grossAmount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Transactions</p>
+            <Input
+              type="number"
+              min={0}
+              className="w-[110px]"
+              value={editing.transactionCount}
+              onChange={(e) => setEditing({ ...editing, transactionCount: e.target.value })}
+            />
+          </div>
+          <Button onClick={save} disabled={setMutation.isPending || editing.grossAmount === ""}>
+            {setMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save
+          </Button>
+          <Button variant="outline" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        rows.length < CHANNELS.length && (
+          <Button variant="outline" size="sm" onClick={() => startEditing()}>
+            Add 1099-K
+          </Button>
+        )
+      )}
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Platform Fee Engine Tests
+ *
+ * Fee schedules per channel, eBay category tiers, and net at a price.
+ */
+
+import { describe, it, expect } from "vitest";
+import { calculateFees, calculateNet, compareChannels, ebayFeeCategoryFor } from "../fees";
+
+describe("calculateFees", () => {
+  describe("eBay", () => {
+    it("should add the per-order fee by order total", () => {
+      const fees = calculateFees({ channel: "ebay", salePrice: 50 });
+
+      expect(fees).toMatchObject({ sellingFee: 6.8, perOrderFee: 0.4, processingFee: 0, total: 7.2 });
+      expect(fees.effectiveRate).toBeCloseTo(0.144);
+      expect(calculateFees({ channel: "ebay", salePrice: 8 }).total).toBe(1.39);
+    });
+
+    it("should charge on shipping charged to the buyer", () => {
+      expect(calculateFees({ channel: "ebay", salePrice: 40, shippingCharged: 10 }).total).toBe(
+        7.2
+      );
+    });
+
+    it("should apply category tiers to the portion of the total in each tier", () => {
+      expect(calculateFees({ channel: "ebay", salePrice: 10000 }).sellingFee).toBe(1078.75);
+      expect(
+        calculateFees({ channel: "ebay", salePrice: 2000, ebayCategory: "watches" }).sellingFee
+      ).toBe(215);
+    });
+
+    it("should charge sneakers a flat rate with no per-order fee from $150", () => {
+      expect(calculateFees({ channel: "ebay", salePrice: 200, ebayCategory: "sneakers" })).toMatchObject(
+        { sellingFee: 16, perOrderFee: 0, total: 16 }
+      );
+      expect(calculateFees({ channel: "ebay", salePrice: 100, ebayCategory: "sneakers" }).total).toBe(
+        14
+      );
+    });
+  });
+
+  it("should charge Poshmark's flat fee under $15 and 20% from $15", () => {
+    expect(calculateFees({ channel: "poshmark", salePrice: 10 }).total).toBe(2.95);
+    expect(calculateFees({ channel: "poshmark", salePrice: 15 }).total).toBe(3);
+    expect(calculateFees({ channel: "poshmark", salePrice: 100 }).total).toBe(20);
+  });
+
+  it("should add payment processing for Mercari and Depop", () => {
+    expect(calculateFees({ channel: "mercari", salePrice: 100 })).toMatchObject({
+      sellingFee: 10,
+      processingFee: 3.4,
+      total: 13.4,
+    });
+    expect(calculateFees({ channel: "depop", salePrice: 100 })).toMatchObject({
+      sellingFee: 0,
+      processingFee: 3.75,
+      total: 3.75,
+    });
+  });
+
+  it("should charge nothing on a zero sale", () => {
+    for (const result of compareChannels({ salePrice: 0 })) {
+      expect(result.fees.total).toBe(0);
+    }
+  });
+});
+
+describe("calculateNet", () => {
+  it("should subtract fees, postage, and cost", () => {
+    const result = calculateNet({
+      channel: "poshmark",
+      salePrice: 100,
+      shippingCost: 5,
+      costBasis: 30,
+    });
+
+    expect(result.net).toBe(45);
+    expect(result.margin).toBe(0.45);
+  });
+
+  it("should compare every channel at the same price", () => {
+    const results = compareChannels({ salePrice: 100, costBasis: 30 });
+
+    expect(results.map(({ channel, net }) => ({ channel, net }))).toEqual([
+      { channel: "ebay", net: 56 },
+      { channel: "poshmark", net: 50 },
+      { channel: "mercari", net: 56.6 },
+      { channel: "depop", net: 66.25 },
+    ]);
+  });
+});
+
+describe("ebayFeeCategoryFor", () => {
+  it("should map category names to fee categories", () => {
+    expect(ebayFeeCategoryFor("Men's Athletic Shoes > Sneakers")).toBe("sneakers");
+    expect(ebayFeeCategoryFor("Wristwatches")).toBe("watches");
+    expect(ebayFeeCategoryFor("Women's Bags & Handbags")).toBe("handbags");
+    expect(ebayFeeCategoryFor("Books")).toBe("books_media");
+    expect(ebayFeeCategoryFor("Men's Jeans")).toBe("most");
+    expect(ebayFeeCategoryFor(null)).toBe("most");
+  });
+});
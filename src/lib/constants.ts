@@ -48,6 +48,27 @@ export const ORDER_STATUSES = [
 ] as const;
 export type OrderStatus = (typeof ORDER_STATUSES)[number];
 
+// Shipping carriers
+export const CARRIERS = ["usps", "ups", "fedex", "dhl", "other"] as const;
+export type Carrier = (typeof CARRIERS)[number];
+
+// Carrier display names
+export const CARRIER_NAMES: Record<Carrier, string> = {
+  usps: "USPS",
+  ups: "UPS",
+  fedex: "FedEx",
+  dhl: "DHL",
+  other: "Other",
+};
+
+// Carrier tracking page URLs (tracking number is appended)
+export const CARRIER_TRACKING_URLS: Record<Exclude<Carrier, "other">, string> = {
+  usps: "https://tools.usps.com/go/TrackConfirmAction?tLabels=",
+  ups: "https://www.ups.com/track?tracknum=",
+  fedex: "https://www.fedex.com/fedextrack/?trknbr=",
+  dhl: "https://www.dhl.com/us-en/home/tracking/tracking-express.html?tracking-id=",
+};
+
 // Autopilot action types
 export const ACTION_TYPES = [
   "OFFER_ACCEPT",
@@ -128,3 +149,49 @@ export const DEFAULT_REPRICE_RULES = {
   respectFloorPrice: true,
   highValueThreshold: 200,
 };
+
+// Engagement thresholds for the performance reprice strategy
+export const PERFORMANCE_REPRICE_THRESHOLDS = {
+  metricsWindowDays: 7, // Traffic and offers are measured over the last week
+  holdWatchers: 3, // Hold price with this many watchers
+  lowViewsPerDay: 1, // Below this, the listing is low engagement
+  fastDropIntervalDays: 7, // Low engagement drops every week instead of every 15 days
+};
+
+// Comparable thresholds for the competitive reprice strategy
+export const COMPETITIVE_REPRICE_THRESHOLDS = {
+  minComparables: 3, // Fewer comps than this falls back to time decay
+  minSoldComparables: 3, // Price to the sold median once this many sold comps exist; otherwise the active 25th percentile
+};
+
+// Business expense categories
+export const EXPENSE_CATEGORIES = [
+  "supplies",
+  "shipping",
+  "subscriptions",
+  "mileage",
+  "storage",
+  "equipment",
+  "fees",
+  "other",
+] as const;
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+
+// Expense category display names
+export const EXPENSE_CATEGORY_NAMES: Record<ExpenseCategory, string> = {
+  supplies: "Supplies",
+  shipping: "Shipping & Postage",
+  subscriptions: "Subscriptions",
+  mileage: "Mileage",
+  storage: "Storage & Rent",
+  equipment: "Equipment",
+  fees: "Bank & Service Fees",
+  other: "Other",
+};
+
+// How often a recurring expense repeats
+export const EXPENSE_RECURRENCES = ["none", "weekly", "monthly", "yearly"] as const;
+export type ExpenseRecurrence = (typeof EXPENSE_RECURRENCES)[number];
+
+// IRS standard mileage rate ($/mile) used to value mileage expenses
+export const MILEAGE_RATE = 0.7;
@@ -0,0 +1,271 @@
+/**
+ * Platform Fee Engine
+ *
+ * Seller fees for each channel, modelled on their published US fee
+ * schedules. Shared by the server (price suggestions, recorded sales) and
+ * the client (listing previews, the net-at-this-price calculator) so every
+ * estimate in the app agrees.
+ *
+ * - eBay: final value fee by category tier on the order total (item plus
+ *   shipping charged), plus a per-order fee. Payment processing is included.
+ * - Poshmark: flat fee under $15, a percentage at $15 and up. Processing
+ *   is included.
+ * - Mercari: selling fee on the item price plus payment processing.
+ * - Depop: no selling fee for US sellers; payment processing only.
+ */
+
+import { CHANNELS, type Channel } from "./constants";
+
+// ============ TYPES ============
+
+export const EBAY_FEE_CATEGORIES = [
+  "most",
+  "books_media",
+  "handbags",
+  "jewelry",
+  "watches",
+  "sneakers",
+  "trading_cards",
+  "guitars",
+  "coins_bullion",
+] as const;
+export type EbayFeeCategory = (typeof EBAY_FEE_CATEGORIES)[number];
+
+export interface FeeInput {
+  channel: Channel;
+  /** Item price the buyer paid, for all units */
+  salePrice: number;
+  /** Shipping charged to the buyer */
+  shippingCharged?: number;
+  /** eBay fee category; defaults to most categories */
+  ebayCategory?: EbayFeeCategory;
+}
+
+export interface FeeBreakdown {
+  /** Final value, selling, or commission fee */
+  sellingFee: number;
+  /** Fixed per-order fee */
+  perOrderFee: number;
+  /** Payment processing when the channel charges it separately */
+  processingFee: number;
+  total: number;
+  /** Total fees as a share of what the buyer paid */
+  effectiveRate: number;
+}
+
+export interface NetInput extends FeeInput {
+  /** Postage the seller pays */
+  shippingCost?: number;
+  /** What the seller paid for the units sold */
+  costBasis?: number | null;
+}
+
+export interface NetAtPrice {
+  channel: Channel;
+  salePrice: number;
+  fees: FeeBreakdown;
+  shippingCost: number;
+  costBasis: number;
+  /** Sale price and shipping charged, less fees, postage, and cost */
+  net: number;
+  /** Net as a share of the sale price */
+  margin: number | null;
+}
+
+interface FeeTier {
+  /** Upper bound of the tier; null for everything above */
+  upTo: number | null;
+  rate: number;
+}
+
+// ============ FEE SCHEDULES ============
+
+export const EBAY_FEE_CATEGORY_NAMES: Record<EbayFeeCategory, string> = {
+  most: "Most categories",
+  books_media: "Books, Movies & Music",
+  handbags: "Women's Bags & Handbags",
+  jewelry: "Jewelry",
+  watches: "Watches",
+  sneakers: "Athletic Shoes",
+  trading_cards: "Trading Cards",
+  guitars: "Guitars & Basses",
+  coins_bullion: "Coins & Bullion",
+};
+
+/** Final value fee tiers; each rate applies to the portion of the total in its tier */
+const EBAY_FEE_TIERS: Record<EbayFeeCategory, FeeTier[]> = {
+  most: [
+    { upTo: 7500, rate: 0.136 },
+    { upTo: null, rate: 0.0235 },
+  ],
+  books_media: [
+    { upTo: 7500, rate: 0.153 },
+    { upTo: null, rate: 0.0235 },
+  ],
+  handbags: [
+    { upTo: 2000, rate: 0.15 },
+    { upTo: null, rate: 0.09 },
+  ],
+  jewelry: [
+    { upTo: 5000, rate: 0.15 },
+    { upTo: null, rate: 0.09 },
+  ],
+  watches: [
+    { upTo: 1000, rate: 0.15 },
+    { upTo: 7500, rate: 0.065 },
+    { upTo: null, rate: 0.03 },
+  ],
+  sneakers: [
+    { upTo: 7500, rate: 0.136 },
+    { upTo: null, rate: 0.0235 },
+  ],
+  trading_cards: [
+    { upTo: 7500, rate: 0.1325 },
+    { upTo: null, rate: 0.0235 },
+  ],
+  guitars: [
+    { upTo: 7500, rate: 0.067 },
+    { upTo: null, rate: 0.0235 },
+  ],
+  coins_bullion: [
+    { upTo: 7500, rate: 0.136 },
+    { upTo: null, rate: 0.07 },
+  ],
+};
+
+export const FEE_SCHEDULES = {
+  ebay: {
+    /** Per-order fee at or below the threshold, and above it */
+    perOrderFee: { threshold: 10, low: 0.3, high: 0.4 },
+    /** Athletic shoes at or above this price pay a flat rate and no per-order fee */
+    sneakers: { threshold: 150, rate: 0.08 },
+  },
+  poshmark: { flatFeeBelow: 15, flatFee: 2.95, rate: 0.2 },
+  mercari: { rate: 0.1, processingRate: 0.029, processingFixed: 0.5 },
+  depop: { rate: 0, processingRate: 0.033, processingFixed: 0.45 },
+} as const;
+
+/** Keywords that place a free-text category in an eBay fee category */
+const EBAY_CATEGORY_KEYWORDS: Array<[EbayFeeCategory, RegExp]> = [
+  ["sneakers", /sneaker|athletic shoe|basketball shoe|running shoe/],
+  ["watches", /\bwatch(es)?\b|wristwatch/],
+  ["handbags", /handbag|purse|\btote\b|crossbody|clutch/],
+  ["jewelry", /jewel|necklace|bracelet|earring|\brings?\b|pendant/],
+  ["trading_cards", /trading card|sports card|pok[eé]mon|\btcg\b|\bccg\b/],
+  ["books_media", /\bbooks?\b|\bdvds?\b|blu-?ray|vinyl|\brecords?\b|\bcds?\b|music|movie/],
+  ["guitars", /guitar|\bbass(es)?\b/],
+  ["coins_bullion", /\bcoins?\b|bullion|paper money/],
+];
+
+// ============ HELPERS ============
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function tieredFee(amount: number, tiers: FeeTier[]): number {
+  let fee = 0;
+  let floor = 0;
+  for (const tier of tiers) {
+    const ceiling = tier.upTo ?? Infinity;
+    if (amount <= floor) break;
+    fee += (Math.min(amount, ceiling) - floor) * tier.rate;
+    floor = ceiling;
+  }
+  return fee;
+}
+
+/**
+ * Best-matching eBay fee category for a free-text category name
+ */
+export function ebayFeeCategoryFor(category?: string | null): EbayFeeCategory {
+  if (!category) return "most";
+  const text = category.toLowerCase();
+  return EBAY_CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? "most";
+}
+
+// ============ CALCULATIONS ============
+
+/**
+ * Fees the channel charges on a sale
+ */
+export function calculateFees(input: FeeInput): FeeBreakdown {
+  const salePrice = Math.max(0, input.salePrice);
+  const shippingCharged = Math.max(0, input.shippingCharged ?? 0);
+  const orderTotal = salePrice + shippingCharged;
+
+  let sellingFee = 0;
+  let perOrderFee = 0;
+  let processingFee = 0;
+
+  switch (input.channel) {
+    case "ebay": {
+      const { perOrderFee: perOrder, sneakers } = FEE_SCHEDULES.ebay;
+      const category = input.ebayCategory ?? "most";
+      if (category === "sneakers" && salePrice >= sneakers.threshold) {
+        sellingFee = orderTotal * sneakers.rate;
+      } else {
+        sellingFee = tieredFee(orderTotal, EBAY_FEE_TIERS[category]);
+        perOrderFee =
+          orderTotal === 0 ? 0 : orderTotal <= perOrder.threshold ? perOrder.low : perOrder.high;
+      }
+      break;
+    }
+    case "poshmark": {
+      const { flatFeeBelow, flatFee, rate } = FEE_SCHEDULES.poshmark;
+      sellingFee = salePrice === 0 ? 0 : salePrice < flatFeeBelow ? flatFee : salePrice * rate;
+      break;
+    }
+    case "mercari":
+    case "depop": {
+      const { rate, processingRate, processingFixed } = FEE_SCHEDULES[input.channel];
+      sellingFee = salePrice * rate;
+      processingFee = orderTotal === 0 ? 0 : orderTotal * processingRate + processingFixed;
+      break;
+    }
+  }
+
+  sellingFee = roundCurrency(sellingFee);
+  processingFee = roundCurrency(processingFee);
+  const total = roundCurrency(sellingFee + perOrderFee + processingFee);
+
+  return {
+    sellingFee,
+    perOrderFee,
+    processingFee,
+    total,
+    effectiveRate: orderTotal > 0 ? total / orderTotal : 0,
+  };
+}
+
+/**
+ * What the seller keeps from a sale at this price
+ */
+export function calculateNet(input: NetInput): NetAtPrice {
+  const fees = calculateFees(input);
+  const shippingCost = input.shippingCost ?? 0;
+  const costBasis = input.costBasis ?? 0;
+  const net = roundCurrency(
+    input.salePrice + (input.shippingCharged ?? 0) - fees.total - shippingCost - costBasis
+  );
+
+  return {
+    channel: input.channel,
+    salePrice: input.salePrice,
+    fees,
+    shippingCost,
+    costBasis,
+    net,
+    margin: input.salePrice > 0 ? net / input.salePrice : null,
+  };
+}
+
+/**
+ * Net at the same price on each channel
+ */
+export function compareChannels(
+  input: Omit<NetInput, "channel">,
+  channels: readonly Channel[] = CHANNELS
+): NetAtPrice[] {
+  return channels.map((channel) => calculateNet({ ...input, channel }));
+}
@@ -1,6 +1,8 @@
+import { createElement } from 'react';
 import { TRPCClientError } from '@trpc/client';
 import type { AppRouter } from '@/server/trpc/root';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction, type ToastActionElement } from '@/components/ui/toast';
 
 // Type alias for our app's tRPC client error
 type AppTRPCError = TRPCClientError<AppRouter>;
@@ -9,9 +11,23 @@ type AppTRPCError = TRPCClientError<AppRouter>;
 interface TRPCErrorData {
   code?: string;
   httpStatus?: number;
+  entitlement?: EntitlementErrorData | null;
   [key: string]: unknown;
 }
 
+/**
+ * Plan limit details attached to FORBIDDEN errors by the server
+ */
+export interface EntitlementErrorData {
+  entitlement: 'listings' | 'aiListings' | 'bgRemovals';
+  tier: string;
+  used: number;
+  limit: number;
+}
+
+// Where the upgrade prompt sends the user
+const UPGRADE_URL = '/settings#plan';
+
 /**
  * Map of tRPC error codes to user-friendly messages.
  * These messages are shown to users in toast notifications.
@@ -109,6 +125,15 @@ function getErrorCode(error: AppTRPCError): string {
   return 'UNKNOWN';
 }
 
+/**
+ * Returns plan limit details if the error is a plan limit (FORBIDDEN) error.
+ */
+export function getEntitlementError(error: AppTRPCError): EntitlementErrorData | null {
+  const data = error.data as TRPCErrorData | null | undefined;
+  if (data?.code !== 'FORBIDDEN') return null;
+  return data.entitlement ?? null;
+}
+
 /**
  * Gets a user-friendly error message from a tRPC error.
  * Optionally accepts an operation context for more specific messages.
@@ -169,6 +194,23 @@ export function handleTRPCError(
     data: error.data,
   });
 
+  // Plan limits get an upgrade prompt instead of a generic error
+  if (showToast && getEntitlementError(error)) {
+    toast({
+      title: 'Plan limit reached',
+      description: error.message,
+      action: createElement(
+        ToastAction,
+        {
+          altText: 'Upgrade plan',
+          onClick: () => window.location.assign(UPGRADE_URL),
+        },
+        'Upgrade'
+      ) as unknown as ToastActionElement,
+    });
+    return error.message;
+  }
+
   // Show toast notification
   if (showToast) {
     toast({
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { CARRIER_TRACKING_URLS, type Carrier } from "./constants";
 
 /**
  * Combines class names with Tailwind CSS merge
@@ -85,3 +86,14 @@ export function truncate(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength - 3) + "...";
 }
+
+/**
+ * Build a carrier tracking page URL, or null for unknown carriers
+ */
+export function getTrackingUrl(
+  carrier: Carrier | null | undefined,
+  trackingNumber: string | null | undefined
+): string | null {
+  if (!carrier || !trackingNumber || carrier === "other") return null;
+  return `${CARRIER_TRACKING_URLS[carrier]}${encodeURIComponent(trackingNumber)}`;
+}
@@ -197,7 +197,8 @@ async function syncChannelConnection(
         tokenExpiresAt: tokenExpiry,
         externalUserId: account.providerAccountId,
         status: "active",
-        lastSyncAt: now,
+        // Keep the order sync watermark across sign-ins so no window is skipped
+        lastSyncAt: existing[0].lastSyncAt ?? now,
       })
       .where(eq(channelConnections.id, existing[0].id));
   } else {
@@ -211,6 +212,9 @@ async function syncChannelConnection(
       tokenExpiresAt: tokenExpiry,
       externalUserId: account.providerAccountId,
       status: "active",
+      // Sales from before the connection are already reflected in inventory,
+      // so order sync starts from now instead of backfilling
+      lastSyncAt: now,
       createdAt: now,
     });
   }
@@ -235,7 +239,6 @@ async function updateChannelTokens(
       refreshToken: tokens.refresh_token,
       tokenExpiresAt: new Date(tokens.expires_at * 1000),
       status: "active",
-      lastSyncAt: new Date(),
     })
     .where(
       and(
@@ -0,0 +1,28 @@
+CREATE TABLE `offers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`channel_listing_id` text NOT NULL,
+	`channel` text NOT NULL,
+	`external_offer_id` text NOT NULL,
+	`buyer_username` text,
+	`amount` real NOT NULL,
+	`asking_price` real NOT NULL,
+	`buyer_message` text,
+	`round` integer DEFAULT 1 NOT NULL,
+	`counter_amount` real,
+	`status` text NOT NULL,
+	`autopilot_action_id` text,
+	`expires_at` integer,
+	`responded_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`item_id`) REFERENCES `inventory_items`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`channel_listing_id`) REFERENCES `channel_listings`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`autopilot_action_id`) REFERENCES `autopilot_actions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `offers_channel_external_offer_idx` ON `offers` (`channel`,`external_offer_id`);--> statement-breakpoint
+CREATE INDEX `offers_user_status_idx` ON `offers` (`user_id`,`status`);--> statement-breakpoint
+CREATE INDEX `offers_listing_buyer_idx` ON `offers` (`channel_listing_id`,`buyer_username`);
\ No newline at end of file
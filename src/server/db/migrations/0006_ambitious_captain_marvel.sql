@@ -0,0 +1,2 @@
+ALTER TABLE `orders` ADD `tracking_number` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `carrier` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `channel_connections` ADD `business_policies` text;--> statement-breakpoint
+ALTER TABLE `channel_connections` ADD `policy_defaults` text;--> statement-breakpoint
+ALTER TABLE `inventory_items` ADD `listing_policies` text;
\ No newline at end of file
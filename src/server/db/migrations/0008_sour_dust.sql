@@ -0,0 +1,12 @@
+CREATE TABLE `rate_limit_usage` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`bucket` text NOT NULL,
+	`window_start` integer NOT NULL,
+	`resets_at` integer NOT NULL,
+	`count` integer DEFAULT 0 NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `rate_limit_usage_user_bucket_window_idx` ON `rate_limit_usage` (`user_id`,`bucket`,`window_start`);
\ No newline at end of file
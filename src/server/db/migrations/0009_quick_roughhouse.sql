@@ -0,0 +1,16 @@
+CREATE TABLE `listing_metrics` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`channel_listing_id` text NOT NULL,
+	`channel` text NOT NULL,
+	`date` text NOT NULL,
+	`views` integer DEFAULT 0 NOT NULL,
+	`impressions` integer,
+	`watchers` integer DEFAULT 0 NOT NULL,
+	`recorded_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`channel_listing_id`) REFERENCES `channel_listings`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `listing_metrics_listing_date_idx` ON `listing_metrics` (`channel_listing_id`,`date`);--> statement-breakpoint
+CREATE INDEX `listing_metrics_user_date_idx` ON `listing_metrics` (`user_id`,`date`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `orders` ADD `quantity` integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `notifications` ADD `in_app` integer DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE `notifications` ADD `email_status` text;--> statement-breakpoint
+ALTER TABLE `notifications` ADD `emailed_at` integer;--> statement-breakpoint
+CREATE INDEX `notifications_email_status_idx` ON `notifications` (`email_status`);
\ No newline at end of file
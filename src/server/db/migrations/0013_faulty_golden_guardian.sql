@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `ai_listings_this_month` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
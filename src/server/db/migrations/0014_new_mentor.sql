@@ -0,0 +1,5 @@
+ALTER TABLE `autopilot_rules` ADD `scope_type` text DEFAULT 'global' NOT NULL;--> statement-breakpoint
+ALTER TABLE `autopilot_rules` ADD `scope_value` text;--> statement-breakpoint
+ALTER TABLE `autopilot_rules` ADD `price_min` real;--> statement-breakpoint
+ALTER TABLE `autopilot_rules` ADD `price_max` real;--> statement-breakpoint
+ALTER TABLE `inventory_items` ADD `tags` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `channel_listings` ADD `relisted_from_id` text;
\ No newline at end of file
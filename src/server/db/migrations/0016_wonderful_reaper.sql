@@ -0,0 +1,30 @@
+CREATE TABLE `promotion_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`promotion_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`channel_listing_id` text NOT NULL,
+	`original_price` real NOT NULL,
+	FOREIGN KEY (`promotion_id`) REFERENCES `promotions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `inventory_items`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`channel_listing_id`) REFERENCES `channel_listings`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `promotion_items_promotion_idx` ON `promotion_items` (`promotion_id`);--> statement-breakpoint
+CREATE INDEX `promotion_items_item_idx` ON `promotion_items` (`item_id`);--> statement-breakpoint
+CREATE TABLE `promotions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`channel` text NOT NULL,
+	`external_id` text,
+	`name` text NOT NULL,
+	`discount_percent` real NOT NULL,
+	`starts_at` integer NOT NULL,
+	`ends_at` integer NOT NULL,
+	`status` text NOT NULL,
+	`status_message` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `promotions_user_starts_idx` ON `promotions` (`user_id`,`starts_at`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `sourcing_lots` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`purchased_at` integer NOT NULL,
+	`source` text,
+	`location` text,
+	`total_cost` real NOT NULL,
+	`mileage` real,
+	`allocation_method` text DEFAULT 'even' NOT NULL,
+	`receipt_urls` text,
+	`notes` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `sourcing_lots_user_purchased_idx` ON `sourcing_lots` (`user_id`,`purchased_at`);--> statement-breakpoint
+ALTER TABLE `inventory_items` ADD `lot_id` text REFERENCES sourcing_lots(id);--> statement-breakpoint
+ALTER TABLE `inventory_items` ADD `lot_allocation_value` real;--> statement-breakpoint
+CREATE INDEX `inventory_items_lot_idx` ON `inventory_items` (`lot_id`);
\ No newline at end of file
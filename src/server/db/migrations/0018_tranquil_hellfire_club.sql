@@ -0,0 +1,18 @@
+CREATE TABLE `expenses` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`category` text NOT NULL,
+	`description` text NOT NULL,
+	`amount` real NOT NULL,
+	`miles` real,
+	`incurred_at` integer NOT NULL,
+	`recurrence` text DEFAULT 'none' NOT NULL,
+	`recurrence_ends_at` integer,
+	`receipt_url` text,
+	`notes` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `expenses_user_incurred_idx` ON `expenses` (`user_id`,`incurred_at`);
\ No newline at end of file
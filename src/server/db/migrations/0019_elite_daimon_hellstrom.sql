@@ -0,0 +1,13 @@
+CREATE TABLE `form_1099k_totals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`tax_year` integer NOT NULL,
+	`channel` text NOT NULL,
+	`gross_amount` real NOT NULL,
+	`transaction_count` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `form_1099k_totals_user_year_channel_idx` ON `form_1099k_totals` (`user_id`,`tax_year`,`channel`);
\ No newline at end of file
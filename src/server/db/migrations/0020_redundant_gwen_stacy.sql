@@ -0,0 +1,29 @@
+CREATE TABLE `returns` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`order_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`channel` text NOT NULL,
+	`external_return_id` text,
+	`status` text NOT NULL,
+	`quantity` integer DEFAULT 1 NOT NULL,
+	`reason` text,
+	`refund_amount` real,
+	`return_shipping_cost` real,
+	`restocked_to` text,
+	`condition_before` text,
+	`condition_after` text,
+	`requested_at` integer NOT NULL,
+	`received_at` integer,
+	`refunded_at` integer,
+	`restocked_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`item_id`) REFERENCES `inventory_items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `returns_user_status_idx` ON `returns` (`user_id`,`status`);--> statement-breakpoint
+CREATE INDEX `returns_order_idx` ON `returns` (`order_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `returns_channel_external_return_idx` ON `returns` (`channel`,`external_return_id`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `orders` ADD `stock_decremented_at` integer;--> statement-breakpoint
+-- Confirmed sales recorded before this column existed have already been
+-- applied to stock; pending ones never triggered the decrement
+UPDATE `orders` SET `stock_decremented_at` = `ordered_at` WHERE `status` != 'pending';
@@ -4,6 +4,7 @@ import {
   integer,
   real,
   index,
+  uniqueIndex,
 } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 
@@ -30,6 +31,7 @@ export const users = sqliteTable(
 
     // Limits (current period)
     listingsThisMonth: integer("listings_this_month").notNull().default(0),
+    aiListingsThisMonth: integer("ai_listings_this_month").notNull().default(0),
     bgRemovalsThisMonth: integer("bg_removals_this_month").notNull().default(0),
     periodResetAt: integer("period_reset_at", { mode: "timestamp" }),
   },
@@ -118,6 +120,22 @@ export const channelConnections = sqliteTable(
     externalUserId: text("external_user_id"),
     externalUsername: text("external_username"),
 
+    // Seller business policies and locations (eBay Account API), cached
+    businessPolicies: text("business_policies", { mode: "json" }).$type<{
+      fulfillmentPolicies: Array<{ id: string; name: string }>;
+      paymentPolicies: Array<{ id: string; name: string }>;
+      returnPolicies: Array<{ id: string; name: string }>;
+      locations: Array<{ key: string; name: string }>;
+      fetchedAt: string;
+    }>(),
+    // Default policies used when publishing
+    policyDefaults: text("policy_defaults", { mode: "json" }).$type<{
+      fulfillmentPolicyId?: string;
+      paymentPolicyId?: string;
+      returnPolicyId?: string;
+      merchantLocationKey?: string;
+    }>(),
+
     // Status
     status: text("status", { enum: ["active", "expired", "revoked"] }).notNull(),
     lastSyncAt: integer("last_sync_at", { mode: "timestamp" }),
@@ -154,6 +172,11 @@ export const inventoryItems = sqliteTable(
     floorPrice: real("floor_price"),
     costBasis: real("cost_basis"), // What user paid (COGS)
 
+    // Sourcing lot the item was bought in; costBasis is then the item's share of the lot cost
+    lotId: text("lot_id").references(() => sourcingLots.id),
+    // Estimated resale value (by-value split) or fixed cost (manual split) within the lot
+    lotAllocationValue: real("lot_allocation_value"),
+
     // Status
     status: text("status", {
       enum: ["draft", "active", "sold", "shipped", "archived"],
@@ -169,11 +192,20 @@ export const inventoryItems = sqliteTable(
       Record<string, string>
     >(),
 
+    // Per-item overrides of the seller's default listing policies
+    listingPolicies: text("listing_policies", { mode: "json" }).$type<{
+      fulfillmentPolicyId?: string;
+      paymentPolicyId?: string;
+      returnPolicyId?: string;
+      merchantLocationKey?: string;
+    }>(),
+
     // Storage & Organization
     storageLocation: text("storage_location"), // e.g. "Garage", "Closet A"
     bin: text("bin"), // e.g. "B3", "Tote-12"
     shelf: text("shelf"), // e.g. "Top", "S2"
     shipReady: integer("ship_ready", { mode: "boolean" }).notNull().default(false),
+    tags: text("tags", { mode: "json" }).$type<string[]>(), // Free-form labels, lowercase
 
     // Timestamps
     createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
@@ -193,6 +225,7 @@ export const inventoryItems = sqliteTable(
       table.userId,
       table.storageLocation
     ),
+    lotIdx: index("inventory_items_lot_idx").on(table.lotId),
   })
 );
 
@@ -254,6 +287,10 @@ export const channelListings = sqliteTable(
       .notNull()
       .default(false),
 
+    // The ended listing this one replaced when relisted; offers, metrics,
+    // and orders stay on the listing they came from
+    relistedFromId: text("relisted_from_id"),
+
     // Timestamps
     createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
     publishedAt: integer("published_at", { mode: "timestamp" }),
@@ -268,6 +305,42 @@ export const channelListings = sqliteTable(
   })
 );
 
+// ============ LISTING METRICS ============
+
+export const listingMetrics = sqliteTable(
+  "listing_metrics",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    channelListingId: text("channel_listing_id")
+      .notNull()
+      .references(() => channelListings.id),
+    channel: text("channel", {
+      enum: ["ebay", "poshmark", "mercari", "depop"],
+    }).notNull(),
+
+    // Traffic day the metrics cover (YYYY-MM-DD)
+    date: text("date").notNull(),
+
+    // Traffic for the day
+    views: integer("views").notNull().default(0),
+    impressions: integer("impressions"),
+    // Watcher count snapshot when recorded
+    watchers: integer("watchers").notNull().default(0),
+
+    recordedAt: integer("recorded_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    listingDateIdx: uniqueIndex("listing_metrics_listing_date_idx").on(
+      table.channelListingId,
+      table.date
+    ),
+    userDateIdx: index("listing_metrics_user_date_idx").on(table.userId, table.date),
+  })
+);
+
 // ============ ORDERS ============
 
 export const orders = sqliteTable(
@@ -289,6 +362,7 @@ export const orders = sqliteTable(
       enum: ["ebay", "poshmark", "mercari", "depop"],
     }).notNull(),
     externalOrderId: text("external_order_id"),
+    quantity: integer("quantity").notNull().default(1), // Units sold on this line item
 
     // Financials
     salePrice: real("sale_price").notNull(),
@@ -297,6 +371,12 @@ export const orders = sqliteTable(
     shippingCost: real("shipping_cost"),
     netProfit: real("net_profit"), // Calculated
 
+    // Shipment tracking
+    trackingNumber: text("tracking_number"),
+    carrier: text("carrier", {
+      enum: ["usps", "ups", "fedex", "dhl", "other"],
+    }),
+
     // Buyer info (minimal for privacy)
     buyerUsername: text("buyer_username"),
     shippingAddress: text("shipping_address", { mode: "json" }).$type<{
@@ -319,6 +399,8 @@ export const orders = sqliteTable(
     paidAt: integer("paid_at", { mode: "timestamp" }),
     shippedAt: integer("shipped_at", { mode: "timestamp" }),
     deliveredAt: integer("delivered_at", { mode: "timestamp" }),
+    // When inventory was reduced for this line; a sale is only applied once
+    stockDecrementedAt: integer("stock_decremented_at", { mode: "timestamp" }),
   },
   (table) => ({
     userIdIdx: index("orders_user_id_idx").on(table.userId),
@@ -326,6 +408,63 @@ export const orders = sqliteTable(
   })
 );
 
+// ============ RETURNS ============
+
+// A return against an order line. Moves forward through requested,
+// received, refunded, and restocked; refunding reverses the order's profit
+// and restocking puts the units back in inventory.
+export const returns = sqliteTable(
+  "returns",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    orderId: text("order_id")
+      .notNull()
+      .references(() => orders.id),
+    itemId: text("item_id")
+      .notNull()
+      .references(() => inventoryItems.id),
+    channel: text("channel", {
+      enum: ["ebay", "poshmark", "mercari", "depop"],
+    }).notNull(),
+    externalReturnId: text("external_return_id"), // eBay Post-Order return ID
+
+    status: text("status", {
+      enum: ["requested", "received", "refunded", "restocked"],
+    }).notNull(),
+    quantity: integer("quantity").notNull().default(1), // Units being returned
+    reason: text("reason"),
+    refundAmount: real("refund_amount"),
+    returnShippingCost: real("return_shipping_cost"), // Return label paid by the seller
+
+    // Restock outcome
+    restockedTo: text("restocked_to", { enum: ["active", "draft"] }),
+    conditionBefore: text("condition_before", {
+      enum: ["new", "like_new", "good", "fair", "poor"],
+    }),
+    conditionAfter: text("condition_after", {
+      enum: ["new", "like_new", "good", "fair", "poor"],
+    }),
+
+    requestedAt: integer("requested_at", { mode: "timestamp" }).notNull(),
+    receivedAt: integer("received_at", { mode: "timestamp" }),
+    refundedAt: integer("refunded_at", { mode: "timestamp" }),
+    restockedAt: integer("restocked_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userStatusIdx: index("returns_user_status_idx").on(table.userId, table.status),
+    orderIdx: index("returns_order_idx").on(table.orderId),
+    externalReturnIdx: uniqueIndex("returns_channel_external_return_idx").on(
+      table.channel,
+      table.externalReturnId
+    ),
+  })
+);
+
 // ============ AUTOPILOT ============
 
 export const autopilotRules = sqliteTable(
@@ -341,6 +480,16 @@ export const autopilotRules = sqliteTable(
       enum: ["offer", "reprice", "stale", "delist"],
     }).notNull(),
 
+    // Which items the rule applies to; the most specific enabled rule wins
+    scopeType: text("scope_type", {
+      enum: ["global", "price_band", "category", "tag", "item"],
+    })
+      .notNull()
+      .default("global"),
+    scopeValue: text("scope_value"), // Category, tag, or inventory item ID
+    priceMin: real("price_min"), // Price band bounds, inclusive; null = open
+    priceMax: real("price_max"),
+
     // Configuration (JSON based on rule type)
     config: text("config", { mode: "json" }).notNull().$type<
       | OfferRuleConfig
@@ -458,6 +607,67 @@ export const autopilotActions = sqliteTable(
   })
 );
 
+// ============ OFFERS ============
+
+export const offers = sqliteTable(
+  "offers",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    itemId: text("item_id")
+      .notNull()
+      .references(() => inventoryItems.id),
+    channelListingId: text("channel_listing_id")
+      .notNull()
+      .references(() => channelListings.id),
+    channel: text("channel", {
+      enum: ["ebay", "poshmark", "mercari", "depop"],
+    }).notNull(),
+
+    // Marketplace offer ID (eBay BestOfferID)
+    externalOfferId: text("external_offer_id").notNull(),
+
+    // Offer details
+    buyerUsername: text("buyer_username"),
+    amount: real("amount").notNull(),
+    askingPrice: real("asking_price").notNull(),
+    buyerMessage: text("buyer_message"),
+
+    // Negotiation: round 1 is the buyer's first offer, each buyer counter adds one
+    round: integer("round").notNull().default(1),
+    counterAmount: real("counter_amount"),
+
+    // Outcome
+    status: text("status", {
+      enum: ["pending", "accepted", "declined", "countered", "expired"],
+    }).notNull(),
+    autopilotActionId: text("autopilot_action_id").references(
+      () => autopilotActions.id
+    ),
+
+    expiresAt: integer("expires_at", { mode: "timestamp" }),
+    respondedAt: integer("responded_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    externalOfferIdx: uniqueIndex("offers_channel_external_offer_idx").on(
+      table.channel,
+      table.externalOfferId
+    ),
+    userStatusIdx: index("offers_user_status_idx").on(
+      table.userId,
+      table.status
+    ),
+    listingBuyerIdx: index("offers_listing_buyer_idx").on(
+      table.channelListingId,
+      table.buyerUsername
+    ),
+  })
+);
+
 // ============ AUDIT LOG ============
 
 export const auditLog = sqliteTable(
@@ -513,6 +723,37 @@ export const auditLog = sqliteTable(
   })
 );
 
+// ============ RATE LIMIT USAGE ============
+
+export const rateLimitUsage = sqliteTable(
+  "rate_limit_usage",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+
+    // One of the RATE_LIMITS keys
+    bucket: text("bucket", {
+      enum: ["ebayRevisions", "reprices", "autoAccepts", "autoCounters", "relists"],
+    }).notNull(),
+
+    // Daily window (midnight to midnight Pacific Time)
+    windowStart: integer("window_start", { mode: "timestamp" }).notNull(),
+    resetsAt: integer("resets_at", { mode: "timestamp" }).notNull(),
+
+    count: integer("count").notNull().default(0),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userBucketWindowIdx: uniqueIndex("rate_limit_usage_user_bucket_window_idx").on(
+      table.userId,
+      table.bucket,
+      table.windowStart
+    ),
+  })
+);
+
 // ============ NOTIFICATION PREFERENCES ============
 
 export interface NotificationPrefs {
@@ -553,6 +794,222 @@ export const notificationPreferences = sqliteTable(
   })
 );
 
+// ============ NOTIFICATIONS ============
+
+export const notifications = sqliteTable(
+  "notifications",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+
+    // One of the NotificationType values (e.g. "DELIST_FAILED")
+    type: text("type").notNull(),
+    priority: text("priority", {
+      enum: ["CRITICAL", "HIGH", "MEDIUM", "LOW"],
+    })
+      .notNull()
+      .default("MEDIUM"),
+    message: text("message").notNull(),
+
+    // Related entities
+    itemId: text("item_id").references(() => inventoryItems.id),
+    channel: text("channel", {
+      enum: ["ebay", "poshmark", "mercari", "depop"],
+    }),
+    metadata: text("metadata", { mode: "json" }).$type<Record<string, unknown>>(),
+
+    // Shown in the notification center (false for email-only notifications)
+    inApp: integer("in_app", { mode: "boolean" }).notNull().default(true),
+    // Null until the user reads it
+    readAt: integer("read_at", { mode: "timestamp" }),
+
+    // Email delivery: "pending" rows go out in the next daily digest
+    emailStatus: text("email_status", { enum: ["pending", "sent"] }),
+    emailedAt: integer("emailed_at", { mode: "timestamp" }),
+
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userCreatedIdx: index("notifications_user_created_idx").on(table.userId, table.createdAt),
+    userReadIdx: index("notifications_user_read_idx").on(table.userId, table.readAt),
+    emailStatusIdx: index("notifications_email_status_idx").on(table.emailStatus),
+  })
+);
+
+// ============ PROMOTIONS ============
+
+export const promotions = sqliteTable(
+  "promotions",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    channel: text("channel", {
+      enum: ["ebay", "poshmark", "mercari", "depop"],
+    }).notNull(),
+
+    // Marketplace promotion ID (eBay item price markdown ID)
+    externalId: text("external_id"),
+
+    name: text("name").notNull(),
+    discountPercent: real("discount_percent").notNull(),
+    startsAt: integer("starts_at", { mode: "timestamp" }).notNull(),
+    endsAt: integer("ends_at", { mode: "timestamp" }).notNull(),
+
+    // scheduled -> running -> ended follow the dates; cancelled and error are final
+    status: text("status", {
+      enum: ["scheduled", "running", "ended", "cancelled", "error"],
+    }).notNull(),
+    statusMessage: text("status_message"),
+
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userStartsIdx: index("promotions_user_starts_idx").on(table.userId, table.startsAt),
+  })
+);
+
+export const promotionItems = sqliteTable(
+  "promotion_items",
+  {
+    id: text("id").primaryKey(),
+    promotionId: text("promotion_id")
+      .notNull()
+      .references(() => promotions.id, { onDelete: "cascade" }),
+    itemId: text("item_id")
+      .notNull()
+      .references(() => inventoryItems.id),
+    channelListingId: text("channel_listing_id")
+      .notNull()
+      .references(() => channelListings.id),
+    // Listing price when the promotion was created
+    originalPrice: real("original_price").notNull(),
+  },
+  (table) => ({
+    promotionIdx: index("promotion_items_promotion_idx").on(table.promotionId),
+    itemIdx: index("promotion_items_item_idx").on(table.itemId),
+  })
+);
+
+// ============ SOURCING ============
+
+export const sourcingLots = sqliteTable(
+  "sourcing_lots",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+
+    name: text("name").notNull(), // e.g. "Estate sale bag"
+    purchasedAt: integer("purchased_at", { mode: "timestamp" }).notNull(),
+    source: text("source"), // Vendor, e.g. "Smith Estate Sales", "Goodwill"
+    location: text("location"), // Where it was bought, e.g. "Portland, OR"
+
+    totalCost: real("total_cost").notNull(),
+    mileage: real("mileage"), // Miles driven for the trip
+
+    // How totalCost is split into the items' costBasis
+    allocationMethod: text("allocation_method", {
+      enum: ["even", "estimated_value", "manual"],
+    })
+      .notNull()
+      .default("even"),
+
+    receiptUrls: text("receipt_urls", { mode: "json" }).$type<string[]>(), // R2 URLs
+    notes: text("notes"),
+
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userPurchasedIdx: index("sourcing_lots_user_purchased_idx").on(
+      table.userId,
+      table.purchasedAt
+    ),
+  })
+);
+
+// ============ EXPENSES ============
+
+export const expenses = sqliteTable(
+  "expenses",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+
+    category: text("category", {
+      enum: [
+        "supplies",
+        "shipping",
+        "subscriptions",
+        "mileage",
+        "storage",
+        "equipment",
+        "fees",
+        "other",
+      ],
+    }).notNull(),
+    description: text("description").notNull(),
+    amount: real("amount").notNull(), // Per occurrence for recurring expenses
+    miles: real("miles"), // Mileage expenses: amount = miles * MILEAGE_RATE
+
+    // First (or only) date the expense was incurred
+    incurredAt: integer("incurred_at", { mode: "timestamp" }).notNull(),
+    recurrence: text("recurrence", {
+      enum: ["none", "weekly", "monthly", "yearly"],
+    })
+      .notNull()
+      .default("none"),
+    recurrenceEndsAt: integer("recurrence_ends_at", { mode: "timestamp" }), // Null repeats indefinitely
+
+    receiptUrl: text("receipt_url"), // R2 URL
+    notes: text("notes"),
+
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userIncurredIdx: index("expenses_user_incurred_idx").on(table.userId, table.incurredAt),
+  })
+);
+
+// ============ TAX ============
+
+// Per-channel 1099-K gross amounts the user copies from the forms they
+// receive, reconciled against recorded sales in the year-end tax report
+export const form1099kTotals = sqliteTable(
+  "form_1099k_totals",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    taxYear: integer("tax_year").notNull(),
+    channel: text("channel", {
+      enum: ["ebay", "poshmark", "mercari", "depop"],
+    }).notNull(),
+    grossAmount: real("gross_amount").notNull(), // Box 1a
+    transactionCount: integer("transaction_count"), // Box 3
+
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userYearChannelIdx: uniqueIndex("form_1099k_totals_user_year_channel_idx").on(
+      table.userId,
+      table.taxYear,
+      table.channel
+    ),
+  })
+);
+
 // ============ RELATIONS ============
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -563,8 +1020,17 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   orders: many(orders),
   autopilotRules: many(autopilotRules),
   autopilotActions: many(autopilotActions),
+  offers: many(offers),
   auditLog: many(auditLog),
+  rateLimitUsage: many(rateLimitUsage),
+  listingMetrics: many(listingMetrics),
   notificationPreferences: one(notificationPreferences),
+  notifications: many(notifications),
+  promotions: many(promotions),
+  sourcingLots: many(sourcingLots),
+  expenses: many(expenses),
+  form1099kTotals: many(form1099kTotals),
+  returns: many(returns),
 }));
 
 export const notificationPreferencesRelations = relations(
@@ -601,14 +1067,27 @@ export const inventoryItemsRelations = relations(
     images: many(itemImages),
     channelListings: many(channelListings),
     orders: many(orders),
+    offers: many(offers),
+    lot: one(sourcingLots, {
+      fields: [inventoryItems.lotId],
+      references: [sourcingLots.id],
+    }),
   })
 );
 
-export const channelListingsRelations = relations(channelListings, ({ one }) => ({
+export const channelListingsRelations = relations(channelListings, ({ one, many }) => ({
   item: one(inventoryItems, {
     fields: [channelListings.itemId],
     references: [inventoryItems.id],
   }),
+  relistedFrom: one(channelListings, {
+    fields: [channelListings.relistedFromId],
+    references: [channelListings.id],
+    relationName: "relists",
+  }),
+  relistedAs: many(channelListings, { relationName: "relists" }),
+  offers: many(offers),
+  metrics: many(listingMetrics),
 }));
 
 export const itemImagesRelations = relations(itemImages, ({ one }) => ({
@@ -628,7 +1107,7 @@ export const channelConnectionsRelations = relations(
   })
 );
 
-export const ordersRelations = relations(orders, ({ one }) => ({
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, {
     fields: [orders.userId],
     references: [users.id],
@@ -641,6 +1120,22 @@ export const ordersRelations = relations(orders, ({ one }) => ({
     fields: [orders.channelListingId],
     references: [channelListings.id],
   }),
+  returns: many(returns),
+}));
+
+export const returnsRelations = relations(returns, ({ one }) => ({
+  user: one(users, {
+    fields: [returns.userId],
+    references: [users.id],
+  }),
+  order: one(orders, {
+    fields: [returns.orderId],
+    references: [orders.id],
+  }),
+  item: one(inventoryItems, {
+    fields: [returns.itemId],
+    references: [inventoryItems.id],
+  }),
 }));
 
 export const autopilotRulesRelations = relations(
@@ -672,9 +1167,102 @@ export const autopilotActionsRelations = relations(
   })
 );
 
+export const offersRelations = relations(offers, ({ one }) => ({
+  user: one(users, {
+    fields: [offers.userId],
+    references: [users.id],
+  }),
+  item: one(inventoryItems, {
+    fields: [offers.itemId],
+    references: [inventoryItems.id],
+  }),
+  channelListing: one(channelListings, {
+    fields: [offers.channelListingId],
+    references: [channelListings.id],
+  }),
+  autopilotAction: one(autopilotActions, {
+    fields: [offers.autopilotActionId],
+    references: [autopilotActions.id],
+  }),
+}));
+
 export const auditLogRelations = relations(auditLog, ({ one }) => ({
   user: one(users, {
     fields: [auditLog.userId],
     references: [users.id],
   }),
 }));
+
+export const rateLimitUsageRelations = relations(rateLimitUsage, ({ one }) => ({
+  user: one(users, {
+    fields: [rateLimitUsage.userId],
+    references: [users.id],
+  }),
+}));
+
+export const listingMetricsRelations = relations(listingMetrics, ({ one }) => ({
+  user: one(users, {
+    fields: [listingMetrics.userId],
+    references: [users.id],
+  }),
+  channelListing: one(channelListings, {
+    fields: [listingMetrics.channelListingId],
+    references: [channelListings.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  item: one(inventoryItems, {
+    fields: [notifications.itemId],
+    references: [inventoryItems.id],
+  }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [promotions.userId],
+    references: [users.id],
+  }),
+  items: many(promotionItems),
+}));
+
+export const promotionItemsRelations = relations(promotionItems, ({ one }) => ({
+  promotion: one(promotions, {
+    fields: [promotionItems.promotionId],
+    references: [promotions.id],
+  }),
+  item: one(inventoryItems, {
+    fields: [promotionItems.itemId],
+    references: [inventoryItems.id],
+  }),
+  channelListing: one(channelListings, {
+    fields: [promotionItems.channelListingId],
+    references: [channelListings.id],
+  }),
+}));
+
+export const sourcingLotsRelations = relations(sourcingLots, ({ one, many }) => ({
+  user: one(users, {
+    fields: [sourcingLots.userId],
+    references: [users.id],
+  }),
+  items: many(inventoryItems),
+}));
+
+export const expensesRelations = relations(expenses, ({ one }) => ({
+  user: one(users, {
+    fields: [expenses.userId],
+    references: [users.id],
+  }),
+}));
+
+export const form1099kTotalsRelations = relations(form1099kTotals, ({ one }) => ({
+  user: one(users, {
+    fields: [form1099kTotals.userId],
+    references: [users.id],
+  }),
+}));
@@ -0,0 +1,22 @@
+/**
+ * In-memory database for tests
+ *
+ * Stands in for the client so services and routers run against the real
+ * schema and migrations:
+ *
+ *   vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+ *
+ * Each test file gets its own database. Clear tables between tests with
+ * `sqlite.exec("DELETE FROM ...")`.
+ */
+
+import path from "path";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import * as schema from "./schema";
+
+export const sqlite = new Database(":memory:");
+export const db = drizzle(sqlite, { schema });
+
+migrate(db, { migrationsFolder: path.join(process.cwd(), "src/server/db/migrations") });
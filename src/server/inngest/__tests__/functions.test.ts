@@ -6,13 +6,17 @@ import { describe, it, expect } from 'vitest';
 import { functions } from '../functions';
 import { delistOnSale } from '../functions/delist-on-sale';
 import { handleOffer } from '../functions/handle-offer';
+import { handleEbayOfferReceived, pollOffers, scheduledOfferPoll } from '../functions/ingest-offers';
+import { pollReturns, scheduledReturnPoll } from '../functions/ingest-returns';
 import { repriceCheck } from '../functions/reprice-check';
 import { syncOrders } from '../functions/sync-orders';
+import { scheduledSync } from '../functions/scheduled-sync';
+import { sendDigest, scheduledDigest } from '../functions/notification-digest';
 
 describe('Inngest Functions', () => {
   describe('functions array', () => {
     it('should export all functions', () => {
-      expect(functions).toHaveLength(10); // 7 core + 3 eBay webhook handlers
+      expect(functions).toHaveLength(19); // 15 core + 4 eBay webhook handlers
     });
 
     it('should include delistOnSale', () => {
@@ -23,6 +27,12 @@ describe('Inngest Functions', () => {
       expect(functions).toContain(handleOffer);
     });
 
+    it('should include offer ingestion functions', () => {
+      expect(functions).toContain(handleEbayOfferReceived);
+      expect(functions).toContain(pollOffers);
+      expect(functions).toContain(scheduledOfferPoll);
+    });
+
     it('should include repriceCheck', () => {
       expect(functions).toContain(repriceCheck);
     });
@@ -30,6 +40,20 @@ describe('Inngest Functions', () => {
     it('should include syncOrders', () => {
       expect(functions).toContain(syncOrders);
     });
+
+    it('should include scheduledSync', () => {
+      expect(functions).toContain(scheduledSync);
+    });
+
+    it('should include return ingestion functions', () => {
+      expect(functions).toContain(pollReturns);
+      expect(functions).toContain(scheduledReturnPoll);
+    });
+
+    it('should include notification digest functions', () => {
+      expect(functions).toContain(sendDigest);
+      expect(functions).toContain(scheduledDigest);
+    });
   });
 
   describe('delistOnSale', () => {
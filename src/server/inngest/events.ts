@@ -18,6 +18,7 @@ export interface OrderConfirmedEvent {
     itemId: string;
     channel: Channel;
     salePrice: number;
+    quantity?: number; // Units sold on this line item (default 1)
   };
 }
 
@@ -43,6 +44,14 @@ export interface OfferReceivedEvent {
     askingPrice: number;
     floorPrice?: number;
     buyerUsername?: string;
+    buyerMessage?: string;
+    expiresAt?: string; // ISO date string
+  };
+}
+
+export interface PollOffersEvent {
+  data: {
+    userId: string;
   };
 }
 
@@ -77,6 +86,12 @@ export interface SyncInventoryEvent {
   };
 }
 
+export interface SyncReturnsEvent {
+  data: {
+    userId: string;
+  };
+}
+
 // ============ DELIST EVENTS ============
 
 export interface DelistOnSaleEvent {
@@ -85,6 +100,15 @@ export interface DelistOnSaleEvent {
     itemId: string;
     soldOnChannel: Channel;
     orderId: string;
+    quantity?: number; // Units sold on this line item (default 1)
+  };
+}
+
+// ============ NOTIFICATION EVENTS ============
+
+export interface SendDigestEvent {
+  data: {
+    userId: string;
   };
 }
 
@@ -117,6 +141,16 @@ export interface EbayOrderShippedEvent {
   };
 }
 
+export interface EbayOfferReceivedEvent {
+  data: {
+    notificationId: string;
+    topic: string;
+    itemId?: string;
+    bestOfferId?: string;
+    payload: Record<string, unknown>;
+  };
+}
+
 // ============ SCHEDULED EVENTS ============
 
 export interface ScheduledRepriceEvent {
@@ -140,16 +174,21 @@ export type Events = {
 
   // Autopilot events
   'autopilot/offer-received': OfferReceivedEvent;
+  'autopilot/poll-offers': PollOffersEvent;
   'autopilot/reprice-check': RepriceCheckEvent;
   'autopilot/stale-check': StaleCheckEvent;
 
   // Sync events
   'sync/orders': SyncOrdersEvent;
   'sync/inventory': SyncInventoryEvent;
+  'sync/returns': SyncReturnsEvent;
 
   // Delist events
   'autopilot/delist-on-sale': DelistOnSaleEvent;
 
+  // Notification events
+  'notifications/send-digest': SendDigestEvent;
+
   // Scheduled events (triggered by cron)
   'scheduled/reprice': ScheduledRepriceEvent;
   'scheduled/stale-check': ScheduledStaleCheckEvent;
@@ -159,4 +198,5 @@ export type Events = {
   'ebay/order.received': EbayOrderReceivedEvent;
   'ebay/item.sold': EbayItemSoldEvent;
   'ebay/order.shipped': EbayOrderShippedEvent;
+  'ebay/offer.received': EbayOfferReceivedEvent;
 };
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { delistOnSale } from "../delist-on-sale";
+import { delistOnSale, getSaleDetails } from "../delist-on-sale";
 
 // Mock the database
 vi.mock("@/server/db/client", () => ({
@@ -36,6 +36,7 @@ vi.mock("@/server/services/channels", () => ({
     capabilities: { canDelist: true },
   })),
   isNativeChannel: vi.fn((channel: string) => channel === "ebay"),
+  canAutomateChannel: vi.fn((_userId: string, channel: string) => Promise.resolve(channel === "ebay")),
   CHANNEL_CAPABILITIES: {
     ebay: {
       canPublish: true,
@@ -138,6 +139,50 @@ describe("Delist On Sale Function", () => {
         expect(hasOrderConfirmed).toBe(true);
       }
     });
+
+    it("should listen for autopilot/delist-on-sale event", () => {
+      const triggers = (delistOnSale as unknown as { triggers?: Array<{ event: string }> })?.triggers;
+      if (triggers && Array.isArray(triggers)) {
+        expect(triggers.some((t) => t.event === "autopilot/delist-on-sale")).toBe(true);
+      }
+    });
+  });
+
+  describe("getSaleDetails", () => {
+    it("should normalize order/confirmed data", () => {
+      expect(
+        getSaleDetails({
+          orderId: "order-1",
+          userId: "user-1",
+          itemId: "item-1",
+          channel: "poshmark",
+          salePrice: 40,
+          quantity: 2,
+        })
+      ).toEqual({
+        orderId: "order-1",
+        userId: "user-1",
+        itemId: "item-1",
+        soldOnChannel: "poshmark",
+        salePrice: 40,
+        quantity: 2,
+      });
+    });
+
+    it("should normalize autopilot/delist-on-sale data and default to one unit", () => {
+      expect(
+        getSaleDetails({
+          orderId: "order-1",
+          userId: "user-1",
+          itemId: "item-1",
+          soldOnChannel: "ebay",
+        })
+      ).toMatchObject({
+        soldOnChannel: "ebay",
+        salePrice: undefined,
+        quantity: 1,
+      });
+    });
   });
 
   describe("notification service integration", () => {
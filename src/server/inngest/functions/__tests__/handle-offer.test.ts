@@ -91,6 +91,7 @@ vi.mock("@/server/services/autopilot", () => ({
       offerPercent: 0.95,
     })
   ),
+  findGoverningRule: vi.fn(() => Promise.resolve({ id: "rule-123" })),
 }));
 
 // Mock the audit service
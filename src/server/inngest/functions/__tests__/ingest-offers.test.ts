@@ -0,0 +1,160 @@
+/**
+ * Tests for Offer Ingestion Functions
+ *
+ * Covers normalization of webhook and GetBestOffers payloads and the
+ * function wiring that feeds offers into the autopilot offer engine.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseOfferNotification,
+  fromTradingOffer,
+  isOfferExpired,
+  handleEbayOfferReceived,
+  pollOffers,
+  scheduledOfferPoll,
+} from "../ingest-offers";
+
+vi.mock("@/server/db/client", () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([])),
+      })),
+    })),
+  },
+}));
+
+vi.mock("@/server/services/channels/ebay", () => ({
+  getEbayAdapter: vi.fn(() => ({
+    getBestOffers: vi.fn(() => Promise.resolve({ success: true, offers: [] })),
+  })),
+}));
+
+describe("Offer Ingestion", () => {
+  describe("parseOfferNotification", () => {
+    it("should normalize a Best Offer notification", () => {
+      const offer = parseOfferNotification({
+        bestOfferId: "offer-001",
+        itemId: "ebay-item-123",
+        price: { value: "80.00", currency: "USD" },
+        buyer: { username: "buyer42" },
+        message: "Would you take 80?",
+        expirationDate: "2025-01-03T10:00:00.000Z",
+      });
+
+      expect(offer).toEqual({
+        offerId: "offer-001",
+        ebayItemId: "ebay-item-123",
+        amount: 80,
+        buyerUsername: "buyer42",
+        buyerMessage: "Would you take 80?",
+        expiresAt: "2025-01-03T10:00:00.000Z",
+      });
+    });
+
+    it("should return null when the offer ID is missing", () => {
+      expect(
+        parseOfferNotification({ itemId: "ebay-item-123", price: { value: "80.00" } })
+      ).toBeNull();
+    });
+
+    it("should return null when the item ID is missing", () => {
+      expect(
+        parseOfferNotification({ bestOfferId: "offer-001", price: { value: "80.00" } })
+      ).toBeNull();
+    });
+
+    it("should return null for a missing or invalid amount", () => {
+      expect(
+        parseOfferNotification({ bestOfferId: "offer-001", itemId: "ebay-item-123" })
+      ).toBeNull();
+      expect(
+        parseOfferNotification({
+          bestOfferId: "offer-001",
+          itemId: "ebay-item-123",
+          price: { value: "abc" },
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("fromTradingOffer", () => {
+    const baseOffer = {
+      bestOfferId: "offer-002",
+      itemId: "ebay-item-456",
+      price: 65.5,
+      currency: "USD",
+      status: "Pending",
+      buyerUsername: "buyer7",
+      quantity: 1,
+    };
+
+    it("should convert buyer offers", () => {
+      expect(fromTradingOffer({ ...baseOffer, offerType: "BuyerBestOffer" })).toMatchObject({
+        offerId: "offer-002",
+        ebayItemId: "ebay-item-456",
+        amount: 65.5,
+        buyerUsername: "buyer7",
+      });
+    });
+
+    it("should convert buyer counter-offers", () => {
+      expect(
+        fromTradingOffer({ ...baseOffer, offerType: "BuyerCounterOffer" })
+      ).not.toBeNull();
+    });
+
+    it("should skip the seller's own counter-offers", () => {
+      expect(
+        fromTradingOffer({ ...baseOffer, offerType: "SellerCounterOffer" })
+      ).toBeNull();
+    });
+
+    it("should carry eBay's offer status", () => {
+      expect(fromTradingOffer({ ...baseOffer, status: "Expired" })?.status).toBe("Expired");
+    });
+  });
+
+  describe("isOfferExpired", () => {
+    const now = new Date("2025-01-02T10:00:00.000Z");
+    const offer = { offerId: "offer-001", ebayItemId: "ebay-item-123", amount: 80 };
+
+    it("should treat offers eBay reports expired as expired", () => {
+      expect(isOfferExpired({ ...offer, status: "Expired" }, now)).toBe(true);
+    });
+
+    it("should treat offers past their expiry as expired", () => {
+      expect(isOfferExpired({ ...offer, expiresAt: "2025-01-02T09:59:59.000Z" }, now)).toBe(true);
+      expect(isOfferExpired({ ...offer, expiresAt: "2025-01-03T10:00:00.000Z" }, now)).toBe(false);
+    });
+
+    it("should keep pending offers without an expiry", () => {
+      expect(isOfferExpired({ ...offer, status: "Pending" }, now)).toBe(false);
+    });
+  });
+
+  describe("function configuration", () => {
+    it("should define the webhook handler", () => {
+      expect(handleEbayOfferReceived).toBeDefined();
+      expect(typeof handleEbayOfferReceived).toBe("object");
+    });
+
+    it("should define the per-user poller", () => {
+      expect(pollOffers).toBeDefined();
+      expect(typeof pollOffers).toBe("object");
+    });
+
+    it("should define the scheduled poll", () => {
+      expect(scheduledOfferPoll).toBeDefined();
+      expect(typeof scheduledOfferPoll).toBe("object");
+    });
+
+    it("should listen for ebay/offer.received", () => {
+      const triggers = (handleEbayOfferReceived as unknown as { triggers?: Array<{ event: string }> })?.triggers;
+      if (triggers && Array.isArray(triggers)) {
+        expect(triggers.some((t) => t.event === "ebay/offer.received")).toBe(true);
+      }
+    });
+  });
+});
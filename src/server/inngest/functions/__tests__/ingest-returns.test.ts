@@ -0,0 +1,104 @@
+/**
+ * Tests for Return Ingestion Functions
+ *
+ * Covers mapping of eBay Post-Order return cases onto the returns
+ * workflow and the function wiring that polls them.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { fromEbayReturn, pollReturns, scheduledReturnPoll } from "../ingest-returns";
+
+vi.mock("@/server/db/client", () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([])),
+      })),
+    })),
+  },
+}));
+
+vi.mock("@/server/services/channels/ebay", () => ({
+  getEbayAdapter: vi.fn(() => ({
+    getReturns: vi.fn(() => Promise.resolve({ success: true, returns: [] })),
+  })),
+}));
+
+vi.mock("@/server/services/returns", () => ({
+  recordChannelReturn: vi.fn(() => Promise.resolve({ outcome: "unchanged" })),
+}));
+
+vi.mock("@/server/services/notifications", () => ({
+  notifyUser: vi.fn(() => Promise.resolve()),
+}));
+
+describe("Return Ingestion", () => {
+  describe("fromEbayReturn", () => {
+    const baseCase = {
+      returnId: "5000012345",
+      orderId: "12-34567-89012",
+      itemId: "ebay-item-123",
+      quantity: 1,
+      state: "RETURN_REQUESTED",
+      createdAt: "2025-03-01T10:00:00.000Z",
+    };
+
+    it("should map a new case to a requested return", () => {
+      expect(
+        fromEbayReturn({ ...baseCase, reason: "NOT_AS_DESCRIBED", buyerComments: "Stain on sleeve" })
+      ).toEqual({
+        channel: "ebay",
+        externalReturnId: "5000012345",
+        externalOrderId: "12-34567-89012",
+        externalListingId: "ebay-item-123",
+        quantity: 1,
+        status: "requested",
+        reason: "not as described: Stain on sleeve",
+        refundAmount: undefined,
+        requestedAt: new Date("2025-03-01T10:00:00.000Z"),
+      });
+    });
+
+    it("should map delivered cases to received", () => {
+      expect(fromEbayReturn({ ...baseCase, state: "ITEM_DELIVERED" }).status).toBe("received");
+      expect(fromEbayReturn({ ...baseCase, state: "ITEM_RECEIVED" }).status).toBe("received");
+    });
+
+    it("should map refunded cases to refunded", () => {
+      expect(fromEbayReturn({ ...baseCase, state: "REFUND_ISSUED" }).status).toBe("refunded");
+      expect(
+        fromEbayReturn({ ...baseCase, state: "PARTIAL_REFUND_ISSUED", refundAmount: 20 })
+      ).toMatchObject({ status: "refunded", refundAmount: 20 });
+    });
+
+    it("should treat a closed case with a refund as refunded", () => {
+      expect(fromEbayReturn({ ...baseCase, state: "CLOSED", refundAmount: 45 }).status).toBe(
+        "refunded"
+      );
+      expect(fromEbayReturn({ ...baseCase, state: "CLOSED" }).status).toBe("requested");
+    });
+
+    it("should leave the reason empty when eBay gives none", () => {
+      expect(fromEbayReturn(baseCase).reason).toBeUndefined();
+    });
+  });
+
+  describe("function configuration", () => {
+    it("should define the per-user poller", () => {
+      expect(pollReturns).toBeDefined();
+      expect(typeof pollReturns).toBe("object");
+    });
+
+    it("should define the scheduled poll", () => {
+      expect(scheduledReturnPoll).toBeDefined();
+      expect(typeof scheduledReturnPoll).toBe("object");
+    });
+
+    it("should listen for sync/returns", () => {
+      const triggers = (pollReturns as unknown as { triggers?: Array<{ event: string }> })?.triggers;
+      if (triggers && Array.isArray(triggers)) {
+        expect(triggers.some((t) => t.event === "sync/returns")).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for the Scheduled Sync Function
+ *
+ * Connection selection, token refresh handling and the sync fan-out,
+ * against an in-memory SQLite database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { sqlite, refreshToken, notifyUser } = vi.hoisted(() => ({
+  sqlite: { exec: (_sql: string) => {} },
+  refreshToken: vi.fn(),
+  notifyUser: vi.fn(),
+}));
+
+vi.mock("@/server/db/client", async () => {
+  const { default: Database } = await import("better-sqlite3");
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const schema = await import("@/server/db/schema");
+
+  const database = new Database(":memory:");
+  database.exec(`
+    CREATE TABLE channel_connections (
+      id text PRIMARY KEY NOT NULL,
+      user_id text NOT NULL,
+      channel text NOT NULL,
+      access_token text,
+      refresh_token text,
+      token_expires_at integer,
+      external_user_id text,
+      external_username text,
+      business_policies text,
+      policy_defaults text,
+      status text NOT NULL,
+      last_sync_at integer,
+      created_at integer NOT NULL
+    );
+  `);
+  sqlite.exec = (sql: string) => database.exec(sql);
+
+  return { db: drizzle(database, { schema }) };
+});
+
+vi.mock("@/server/services/channels", () => ({
+  getAdapter: vi.fn(() => ({ refreshToken })),
+  isNativeChannel: (channel: string) => channel === "ebay" || channel === "mercari",
+}));
+
+vi.mock("@/server/services/notifications", () => ({ notifyUser }));
+
+// Import after mocking
+import { getConnectionsToSync, buildSyncEvents, scheduledSync } from "../scheduled-sync";
+
+// Seconds since epoch, as drizzle stores timestamps
+const now = Math.floor(Date.now() / 1000);
+const inTwoHours = now + 2 * 60 * 60;
+const inFiveMinutes = now + 5 * 60;
+const lastSync = now - 30 * 60;
+
+describe("Scheduled Sync", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    refreshToken.mockResolvedValue(true);
+    sqlite.exec(`
+      DELETE FROM channel_connections;
+      INSERT INTO channel_connections (id, user_id, channel, token_expires_at, status, last_sync_at, created_at) VALUES
+        ('conn-fresh', 'user-1', 'ebay', ${inTwoHours}, 'active', ${lastSync}, ${now}),
+        ('conn-new', 'user-2', 'mercari', ${inTwoHours}, 'active', NULL, ${now}),
+        ('conn-revoked', 'user-3', 'ebay', ${inTwoHours}, 'revoked', ${lastSync}, ${now});
+    `);
+  });
+
+  describe("getConnectionsToSync", () => {
+    it("should return active connections with their watermarks", async () => {
+      const connections = await getConnectionsToSync();
+
+      expect(connections).toEqual([
+        { userId: "user-1", channel: "ebay", lastSyncAt: new Date(lastSync * 1000).toISOString() },
+        { userId: "user-2", channel: "mercari", lastSyncAt: null },
+      ]);
+      // Neither token is close to expiring
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+
+    it("should refresh tokens that are about to expire", async () => {
+      sqlite.exec(`UPDATE channel_connections SET token_expires_at = ${inFiveMinutes} WHERE id = 'conn-fresh'`);
+
+      const connections = await getConnectionsToSync();
+
+      expect(refreshToken).toHaveBeenCalledWith("user-1");
+      expect(connections.map((c) => c.userId)).toEqual(["user-1", "user-2"]);
+    });
+
+    it("should skip and notify when the refresh marks the connection expired", async () => {
+      sqlite.exec(`UPDATE channel_connections SET token_expires_at = ${inFiveMinutes} WHERE id = 'conn-fresh'`);
+      refreshToken.mockImplementation(async () => {
+        // The channel client marks the connection when the refresh is rejected
+        sqlite.exec(`UPDATE channel_connections SET status = 'expired' WHERE id = 'conn-fresh'`);
+        return false;
+      });
+
+      const connections = await getConnectionsToSync();
+
+      expect(connections.map((c) => c.userId)).toEqual(["user-2"]);
+      expect(notifyUser).toHaveBeenCalledWith(
+        "user-1",
+        expect.objectContaining({ type: "SYNC_ERROR", channel: "ebay", priority: "HIGH" })
+      );
+    });
+
+    it("should skip without notifying when the refresh fails transiently", async () => {
+      sqlite.exec(`UPDATE channel_connections SET token_expires_at = ${inFiveMinutes} WHERE id = 'conn-fresh'`);
+      refreshToken.mockResolvedValue(false);
+
+      const connections = await getConnectionsToSync();
+
+      expect(connections.map((c) => c.userId)).toEqual(["user-2"]);
+      expect(notifyUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildSyncEvents", () => {
+    it("should fan out order and inventory syncs per connection", () => {
+      const events = buildSyncEvents([
+        { userId: "user-1", channel: "ebay", lastSyncAt: "2026-10-01T00:00:00.000Z" },
+        { userId: "user-2", channel: "mercari", lastSyncAt: null },
+      ]);
+
+      expect(events).toEqual([
+        {
+          name: "sync/orders",
+          data: { userId: "user-1", channel: "ebay", since: "2026-10-01T00:00:00.000Z" },
+        },
+        { name: "sync/inventory", data: { userId: "user-1", channel: "ebay" } },
+        { name: "sync/orders", data: { userId: "user-2", channel: "mercari" } },
+        { name: "sync/inventory", data: { userId: "user-2", channel: "mercari" } },
+      ]);
+    });
+  });
+
+  describe("function configuration", () => {
+    it("should run on a cron and on scheduled/sync", () => {
+      const { triggers } = (scheduledSync as unknown as { opts: { triggers: unknown[] } }).opts;
+
+      expect(triggers).toContainEqual({ event: "scheduled/sync" });
+      expect(triggers).toContainEqual({ cron: expect.any(String) });
+    });
+  });
+});
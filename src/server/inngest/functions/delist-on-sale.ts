@@ -3,16 +3,20 @@
  *
  * CRITICAL AUTOPILOT FUNCTION
  *
- * When an item sells on one channel, this function automatically
- * delists it from all other channels to prevent overselling (double-selling).
+ * When an item sells on one channel, this function decrements its
+ * quantity by the units sold. Once no units remain, it delists the item
+ * from all other channels to prevent overselling (double-selling).
  *
  * Flow:
- * 1. Receive order/confirmed event
- * 2. Find all other active listings for the same item
- * 3. For API-integrated channels (eBay): delist automatically
- * 4. For assisted channels (Poshmark, etc.): create notification for manual delist
- * 5. Update inventory status to 'sold'
- * 6. Log all actions to audit
+ * 1. Receive order/confirmed or autopilot/delist-on-sale event
+ * 2. Decrement inventory quantity by the units on the order line item,
+ *    once per order line (webhooks and order sync can report the same sale)
+ * 3. Units remaining: push the new quantity to other native listings (eBay)
+ * 4. Sold out: find all other active listings for the same item
+ *    - For API-integrated channels (eBay): delist automatically
+ *    - For assisted channels (Poshmark, etc.): create notification for manual delist
+ *    - Update inventory status to 'sold'
+ * 5. Log all actions to audit
  *
  * Failure handling:
  * - Retries 3 times with exponential backoff
@@ -29,12 +33,19 @@ import {
 import { eq, and, ne } from "drizzle-orm";
 import {
   getAdapter,
-  isNativeChannel,
+  canAutomateChannel,
   CHANNEL_CAPABILITIES,
   type ChannelId,
 } from "@/server/services/channels";
 import { auditService } from "@/server/services/audit";
 import { notifyUser } from "@/server/services/notifications";
+import {
+  claimStockDecrement,
+  decrementItemQuantity,
+  pushItemQuantity,
+  releaseStockDecrement,
+} from "@/server/services/orders";
+import type { Channel, DelistOnSaleEvent, OrderConfirmedEvent } from "../events";
 
 // ============ TYPES ============
 
@@ -47,6 +58,36 @@ interface DelistResult {
   error?: string;
 }
 
+interface SaleDetails {
+  orderId: string;
+  userId: string;
+  itemId: string;
+  soldOnChannel: Channel;
+  salePrice?: number;
+  quantity: number;
+}
+
+// ============ HELPERS ============
+
+/**
+ * Normalize the two sale events into one shape.
+ * order/confirmed carries `channel`; autopilot/delist-on-sale carries `soldOnChannel`.
+ */
+export function getSaleDetails(
+  data: OrderConfirmedEvent["data"] | DelistOnSaleEvent["data"]
+): SaleDetails {
+  const isOrderConfirmed = "channel" in data;
+
+  return {
+    orderId: data.orderId,
+    userId: data.userId,
+    itemId: data.itemId,
+    soldOnChannel: isOrderConfirmed ? data.channel : data.soldOnChannel,
+    salePrice: isOrderConfirmed ? data.salePrice : undefined,
+    quantity: Math.max(1, data.quantity ?? 1),
+  };
+}
+
 // ============ MAIN FUNCTION ============
 
 export const delistOnSale = inngest.createFunction(
@@ -58,7 +99,7 @@ export const delistOnSale = inngest.createFunction(
       // CRITICAL: Alert user immediately when delist fails after all retries
       // In onFailure, the original event is nested within failureEvent.data.event
       const originalEvent = failureEvent.data.event;
-      const { userId, itemId, channel: soldOnChannel } = originalEvent.data;
+      const { userId, itemId, soldOnChannel } = getSaleDetails(originalEvent.data);
 
       console.error(
         `[delist-on-sale] CRITICAL FAILURE after retries for item ${itemId}:`,
@@ -96,14 +137,15 @@ export const delistOnSale = inngest.createFunction(
       });
     },
   },
-  { event: "order/confirmed" },
+  [{ event: "order/confirmed" }, { event: "autopilot/delist-on-sale" }],
   async ({ event, step }) => {
-    const { orderId, userId, itemId, channel: soldOnChannel, salePrice } = event.data;
+    const { orderId, userId, itemId, soldOnChannel, salePrice, quantity } =
+      getSaleDetails(event.data);
 
     // Step 1: Log the sale event and get item details
     const itemDetails = await step.run("get-item-details", async () => {
       console.log(
-        `[delist-on-sale] Processing sale: item ${itemId} sold on ${soldOnChannel} (order: ${orderId})`
+        `[delist-on-sale] Processing sale: ${quantity}x item ${itemId} sold on ${soldOnChannel} (order: ${orderId})`
       );
 
       // Get item title for notifications
@@ -113,6 +155,7 @@ export const delistOnSale = inngest.createFunction(
           title: inventoryItems.title,
           sku: inventoryItems.sku,
           status: inventoryItems.status,
+          quantity: inventoryItems.quantity,
         })
         .from(inventoryItems)
         .where(eq(inventoryItems.id, itemId))
@@ -125,7 +168,116 @@ export const delistOnSale = inngest.createFunction(
       return item[0];
     });
 
-    // Step 2: Find all other active listings for this item
+    // Step 2: Decrement quantity by the units sold
+    const stock = await step.run("decrement-quantity", async () => {
+      if (!(await claimStockDecrement(orderId))) {
+        console.log(
+          `[delist-on-sale] Order ${orderId} was already applied to item ${itemId}, skipping`
+        );
+        return null;
+      }
+
+      try {
+        const result = await decrementItemQuantity(itemId, quantity);
+
+        console.log(
+          `[delist-on-sale] Item ${itemId} quantity ${result.previousQuantity} -> ${result.remainingQuantity}`
+        );
+
+        return result;
+      } catch (error) {
+        await releaseStockDecrement(orderId);
+        throw error;
+      }
+    });
+
+    // Another path already handled this sale, including any delisting
+    if (!stock) {
+      return {
+        success: true,
+        skipped: true,
+        reason: "Sale already applied to inventory",
+        itemId,
+        orderId,
+      };
+    }
+
+    // Units remain: keep listings live and push the new quantity instead
+    if (!stock.soldOut) {
+      const quantityUpdates = await step.run("sync-remaining-quantity", async () => {
+        return pushItemQuantity(userId, itemId, stock.remainingQuantity, soldOnChannel);
+      });
+      const failedUpdates = quantityUpdates.filter((u) => !u.success);
+
+      await step.run("audit-log", async () => {
+        await auditService.log({
+          userId,
+          actionType: "SALE_QUANTITY_DECREMENT",
+          itemId,
+          channel: soldOnChannel,
+          source: "SYSTEM",
+          beforeState: { quantity: stock.previousQuantity },
+          afterState: {
+            quantity: stock.remainingQuantity,
+            quantityPushedTo: quantityUpdates
+              .filter((u) => u.success)
+              .map((u) => u.channel),
+            failedQuantityUpdates: failedUpdates.map((u) => ({
+              channel: u.channel,
+              error: u.error,
+            })),
+          },
+          metadata: {
+            orderId,
+            soldOnChannel,
+            salePrice,
+            quantitySold: quantity,
+          },
+          reversible: false,
+        });
+      });
+
+      if (failedUpdates.length > 0) {
+        await step.run("notify-failures", async () => {
+          for (const failure of failedUpdates) {
+            await notifyUser(userId, {
+              type: "SYNC_ERROR",
+              channel: failure.channel,
+              itemId,
+              itemTitle: itemDetails.title,
+              priority: "HIGH",
+              message: `Failed to update quantity to ${stock.remainingQuantity} after a sale on ${soldOnChannel}: ${failure.error}`,
+              metadata: {
+                externalId: failure.externalId,
+                soldOnChannel,
+              },
+            });
+          }
+        });
+      }
+
+      console.log(
+        `[delist-on-sale] Item ${itemId} has ${stock.remainingQuantity} left; listings stay active`
+      );
+
+      return {
+        success: true,
+        itemId,
+        itemTitle: itemDetails.title,
+        soldOnChannel,
+        orderId,
+        quantitySold: quantity,
+        remainingQuantity: stock.remainingQuantity,
+        quantityUpdates,
+        totalOtherListings: 0,
+        automaticallyDelisted: 0,
+        manualDelistRequired: 0,
+        failed: failedUpdates.length,
+        delistResults: [] as DelistResult[],
+      };
+    }
+
+    // Step 3: Find all other active listings for this item
     const otherListings = await step.run("find-other-listings", async () => {
       const listings = await db
         .select({
@@ -152,7 +304,7 @@ export const delistOnSale = inngest.createFunction(
       return listings;
     });
 
-    // Step 3: Delist from each channel (in parallel where possible)
+    // Step 4: Delist from each channel (in parallel where possible)
     const delistResults: DelistResult[] = [];
 
     for (const listing of otherListings) {
@@ -163,7 +315,7 @@ export const delistOnSale = inngest.createFunction(
           const capabilities = CHANNEL_CAPABILITIES[channel];
 
           // Check if channel supports native delist
-          if (isNativeChannel(channel) && capabilities.canDelist) {
+          if (capabilities.canDelist && (await canAutomateChannel(userId, channel))) {
             // Native delist via API
             try {
               const adapter = getAdapter(channel);
@@ -283,7 +435,7 @@ export const delistOnSale = inngest.createFunction(
       delistResults.push(result);
     }
 
-    // Step 4: Update inventory status to 'sold'
+    // Step 5: Update inventory status to 'sold'
     await step.run("update-inventory-status", async () => {
       const now = new Date();
 
@@ -296,10 +448,25 @@ export const delistOnSale = inngest.createFunction(
         })
         .where(eq(inventoryItems.id, itemId));
 
+      // The listing that made the final sale is sold, not ended
+      await db
+        .update(channelListings)
+        .set({
+          status: "sold",
+          endedAt: now,
+        })
+        .where(
+          and(
+            eq(channelListings.itemId, itemId),
+            eq(channelListings.channel, soldOnChannel),
+            eq(channelListings.status, "active")
+          )
+        );
+
       console.log(`[delist-on-sale] Updated item ${itemId} status to sold`);
     });
 
-    // Step 5: Log to audit
+    // Step 6: Log to audit
     await step.run("audit-log", async () => {
       const successfulDelists = delistResults.filter((r) => r.success && !r.requiresManualAction);
       const manualDelists = delistResults.filter((r) => r.requiresManualAction);
@@ -313,6 +480,7 @@ export const delistOnSale = inngest.createFunction(
         source: "SYSTEM",
         beforeState: {
           itemStatus: itemDetails.status,
+          quantity: stock.previousQuantity,
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           activeListings: otherListings.map((l: any) => ({
             channel: l.channel,
@@ -321,6 +489,7 @@ export const delistOnSale = inngest.createFunction(
         },
         afterState: {
           itemStatus: "sold",
+          quantity: 0,
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           delistedAutomatically: successfulDelists.map((r: any) => r.channel),
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -335,6 +504,7 @@ export const delistOnSale = inngest.createFunction(
           orderId,
           soldOnChannel,
           salePrice,
+          quantitySold: quantity,
           totalListings: otherListings.length,
           automaticDelists: successfulDelists.length,
           manualDelists: manualDelists.length,
@@ -344,7 +514,7 @@ export const delistOnSale = inngest.createFunction(
       });
     });
 
-    // Step 6: Send notifications for any failures
+    // Step 7: Send notifications for any failures
     const failures = delistResults.filter((r) => !r.success);
     if (failures.length > 0) {
       await step.run("notify-failures", async () => {
@@ -372,6 +542,8 @@ export const delistOnSale = inngest.createFunction(
       itemTitle: itemDetails.title,
       soldOnChannel,
       orderId,
+      quantitySold: quantity,
+      remainingQuantity: 0,
       totalOtherListings: otherListings.length,
       automaticallyDelisted: delistResults.filter(
         (r) => r.success && !r.requiresManualAction
@@ -2,9 +2,10 @@
  * Handle eBay Webhook Notifications
  *
  * Processes real-time notifications from eBay:
- * - Order received: Sync order data and trigger delist-on-sale
- * - Item sold: Trigger cross-platform delist
- * - Order shipped: Update order status
+ * - Order received: Record each line item and trigger delist-on-sale with
+ *   the units sold
+ * - Item sold: Fetch the seller's recent orders, which records the sale
+ * - Order shipped: Update order status and tracking
  */
 import { inngest } from "../client";
 import { db } from "@/server/db/client";
@@ -14,14 +15,57 @@ import {
   orders,
 } from "@/server/db/schema";
 import { eq, and } from "drizzle-orm";
+import { splitOrderLineItems } from "@/server/services/orders";
+
+/**
+ * Order line item fields used from eBay order notifications
+ */
+interface EbayNotificationLineItem {
+  legacyItemId?: string;
+  sku?: string;
+  title?: string;
+  quantity?: number;
+  lineItemCost?: { value?: string };
+}
+
+/**
+ * eBay shipping carrier codes mapped to our carrier values
+ */
+const CARRIER_FROM_EBAY: Record<string, "usps" | "ups" | "fedex" | "dhl"> = {
+  USPS: "usps",
+  UPS: "ups",
+  FEDEX: "fedex",
+  DHL: "dhl",
+};
+
+/**
+ * Extract tracking details from an order shipped notification, if present
+ */
+export function parseShipmentTracking(
+  payload: Record<string, unknown>
+): { trackingNumber: string; carrier: "usps" | "ups" | "fedex" | "dhl" | "other" } | null {
+  const data = payload as {
+    trackingNumber?: string;
+    shippingCarrierCode?: string;
+  };
+
+  if (!data.trackingNumber) {
+    return null;
+  }
+
+  return {
+    trackingNumber: data.trackingNumber,
+    carrier: CARRIER_FROM_EBAY[data.shippingCarrierCode?.toUpperCase() ?? ""] ?? "other",
+  };
+}
 
 /**
  * Handle eBay order received notification
  *
  * When an order is placed on eBay, this function:
- * 1. Finds the associated item
- * 2. Creates/updates the order record
- * 3. Triggers delist-on-sale for other channels
+ * 1. Finds the listing and item for each line item
+ * 2. Creates an order record per line item (once per order and item)
+ * 3. Triggers delist-on-sale with the units sold for each new line item
  */
 export const handleEbayOrderReceived = inngest.createFunction(
   {
@@ -37,35 +81,76 @@ export const handleEbayOrderReceived = inngest.createFunction(
       return { status: "skipped", reason: "No orderId in notification" };
     }
 
-    // Step 1: Find the channel listing and associated item
-    const listing = await step.run("find-listing", async () => {
-      // Extract item ID from payload (structure depends on eBay notification format)
-      const lineItems = (payload as { lineItems?: Array<{ legacyItemId?: string; sku?: string }> }).lineItems || [];
-      if (lineItems.length === 0) {
-        return null;
-      }
+    const orderData = payload as {
+      lineItems?: EbayNotificationLineItem[];
+      pricingSummary?: { total?: { value?: string } };
+      buyer?: { username?: string };
+      creationDate?: string;
+    };
 
-      const ebayItemId = lineItems[0].legacyItemId || lineItems[0].sku;
-      if (!ebayItemId) {
-        return null;
-      }
+    // Step 1: Find the channel listing and associated item for each line item
+    const lines = await step.run("find-listings", async () => {
+      const lineItems = orderData.lineItems || [];
+      const total = orderData.pricingSummary?.total?.value
+        ? parseFloat(orderData.pricingSummary.total.value)
+        : undefined;
 
-      // Find the channel listing
-      const [found] = await db
-        .select()
-        .from(channelListings)
-        .where(
-          and(
-            eq(channelListings.externalId, ebayItemId),
-            eq(channelListings.channel, "ebay")
+      const matched: Array<{
+        listingId: string;
+        itemId: string;
+        userId: string;
+        quantity: number;
+        salePrice: number;
+      }> = [];
+
+      const sales = splitOrderLineItems({
+        salePrice: total ?? 0,
+        lineItems: lineItems.map((line) => ({
+          sku: line.sku ?? "",
+          title: line.title ?? "",
+          quantity: line.quantity ?? 1,
+          price: parseFloat(line.lineItemCost?.value ?? "") || 0,
+          externalListingId: line.legacyItemId,
+        })),
+      });
+
+      for (const sale of sales) {
+        const ebayItemId = sale.externalListingId || sale.sku;
+        if (!ebayItemId) continue;
+
+        const [listing] = await db
+          .select()
+          .from(channelListings)
+          .where(
+            and(
+              eq(channelListings.externalId, ebayItemId),
+              eq(channelListings.channel, "ebay")
+            )
           )
-        )
-        .limit(1);
+          .limit(1);
+        if (!listing) continue;
 
-      return found || null;
+        const [item] = await db
+          .select()
+          .from(inventoryItems)
+          .where(eq(inventoryItems.id, listing.itemId))
+          .limit(1);
+        if (!item) continue;
+
+        matched.push({
+          listingId: listing.id,
+          itemId: item.id,
+          userId: item.userId,
+          quantity: sale.quantity,
+          // Fall back to the listing price when the total is missing
+          salePrice: total !== undefined ? sale.salePrice : (listing.price || 0) * sale.quantity,
+        });
+      }
+
+      return matched;
     });
 
-    if (!listing) {
+    if (lines.length === 0) {
       return {
         status: "skipped",
         reason: "Could not find listing for eBay order",
@@ -73,90 +158,92 @@ export const handleEbayOrderReceived = inngest.createFunction(
       };
     }
 
-    // Step 2: Get the item details
-    const item = await step.run("get-item", async () => {
-      const [found] = await db
-        .select()
-        .from(inventoryItems)
-        .where(eq(inventoryItems.id, listing.itemId))
-        .limit(1);
-      return found || null;
-    });
-
-    if (!item) {
-      return {
-        status: "error",
-        reason: "Item not found for listing",
-        listingId: listing.id,
-      };
-    }
+    // Step 2: Create order records for line items we have not seen yet.
+    // ORDER.CREATED and PAYMENT_COMPLETE both arrive for the same order, so
+    // only new line items trigger a quantity decrement.
+    const created = await step.run("upsert-orders", async () => {
+      const newLines: Array<{
+        orderId: string;
+        userId: string;
+        itemId: string;
+        quantity: number;
+      }> = [];
 
-    // Step 3: Create or update order record
-    const order = await step.run("upsert-order", async () => {
-      const orderData = payload as {
-        pricingSummary?: { total?: { value?: string } };
-        buyer?: { username?: string };
-        creationDate?: string;
-      };
+      for (const line of lines) {
+        const existing = await db
+          .select()
+          .from(orders)
+          .where(
+            and(
+              eq(orders.externalOrderId, orderId),
+              eq(orders.itemId, line.itemId)
+            )
+          )
+          .limit(1);
 
-      const existing = await db
-        .select()
-        .from(orders)
-        .where(eq(orders.externalOrderId, orderId))
-        .limit(1);
+        if (existing.length > 0) {
+          // Update existing - just update status
+          await db
+            .update(orders)
+            .set({
+              status: "pending",
+            })
+            .where(eq(orders.id, existing[0].id));
+          continue;
+        }
 
-      const now = new Date();
-      const salePrice = orderData.pricingSummary?.total?.value
-        ? parseFloat(orderData.pricingSummary.total.value)
-        : listing.price || 0;
-
-      if (existing.length > 0) {
-        // Update existing - just update status
-        await db
-          .update(orders)
-          .set({
-            status: "pending",
-          })
-          .where(eq(orders.id, existing[0].id));
-        return existing[0];
-      } else {
-        // Create new order
         const newOrderId = crypto.randomUUID();
         await db.insert(orders).values({
           id: newOrderId,
-          userId: item.userId,
-          itemId: item.id,
+          userId: line.userId,
+          itemId: line.itemId,
+          channelListingId: line.listingId,
           channel: "ebay",
           externalOrderId: orderId,
+          quantity: line.quantity,
           status: "pending",
-          salePrice,
+          salePrice: line.salePrice,
           buyerUsername: orderData.buyer?.username,
           orderedAt: orderData.creationDate
             ? new Date(orderData.creationDate)
-            : now,
+            : new Date(),
         });
 
-        return { id: newOrderId };
+        newLines.push({
+          orderId: newOrderId,
+          userId: line.userId,
+          itemId: line.itemId,
+          quantity: line.quantity,
+        });
       }
-    });
 
-    // Step 4: Trigger delist on other channels
-    await step.sendEvent("trigger-delist", {
-      name: "autopilot/delist-on-sale",
-      data: {
-        userId: item.userId,
-        itemId: item.id,
-        soldOnChannel: "ebay",
-        orderId: order.id,
-      },
+      return newLines;
     });
 
+    // Step 3: Decrement quantity and delist on other channels once sold out
+    if (created.length > 0) {
+      await step.sendEvent(
+        "trigger-delist",
+        created.map((line) => ({
+          name: "autopilot/delist-on-sale" as const,
+          data: {
+            userId: line.userId,
+            itemId: line.itemId,
+            soldOnChannel: "ebay" as const,
+            orderId: line.orderId,
+            quantity: line.quantity,
+          },
+        }))
+      );
+    }
+
     return {
       status: "processed",
       notificationId,
       orderId,
-      itemId: item.id,
-      action: "order-created-delist-triggered",
+      itemIds: lines.map((line) => line.itemId),
+      ordersCreated: created.length,
+      action: created.length > 0 ? "order-created-delist-triggered" : "order-updated",
     };
   }
 );
@@ -164,7 +251,10 @@ export const handleEbayOrderReceived = inngest.createFunction(
 /**
  * Handle eBay item sold notification
  *
- * Similar to order received but specifically for item sold events
+ * The notification has no order ID or quantity, so it cannot be applied to
+ * stock directly without risking a second decrement for a sale the order
+ * notification already recorded. Instead it triggers an order sync, which
+ * records the order line and decrements it once.
  */
 export const handleEbayItemSold = inngest.createFunction(
   {
@@ -180,11 +270,12 @@ export const handleEbayItemSold = inngest.createFunction(
       return { status: "skipped", reason: "No itemId in notification" };
     }
 
-    // Find the channel listing
+    // Find the seller through the listing
     const listing = await step.run("find-listing", async () => {
       const [found] = await db
-        .select()
+        .select({ itemId: channelListings.itemId, userId: inventoryItems.userId })
         .from(channelListings)
+        .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
         .where(
           and(
             eq(channelListings.externalId, ebayItemId),
@@ -204,39 +295,12 @@ export const handleEbayItemSold = inngest.createFunction(
       };
     }
 
-    // Get the item
-    const item = await step.run("get-item", async () => {
-      const [found] = await db
-        .select()
-        .from(inventoryItems)
-        .where(eq(inventoryItems.id, listing.itemId))
-        .limit(1);
-      return found || null;
-    });
-
-    if (!item) {
-      return { status: "error", reason: "Item not found" };
-    }
-
-    // Update listing status
-    await step.run("update-listing-status", async () => {
-      await db
-        .update(channelListings)
-        .set({
-          status: "sold",
-          endedAt: new Date(),
-        })
-        .where(eq(channelListings.id, listing.id));
-    });
-
-    // Trigger delist on other channels
-    await step.sendEvent("trigger-delist", {
-      name: "autopilot/delist-on-sale",
+    // Pull the order behind the sale; the sync decrements each line once
+    await step.sendEvent("trigger-order-sync", {
+      name: "sync/orders",
       data: {
-        userId: item.userId,
-        itemId: item.id,
-        soldOnChannel: "ebay",
-        orderId: `ebay-${ebayItemId}`, // Use item ID if no order ID
+        userId: listing.userId,
+        channel: "ebay",
       },
     });
 
@@ -244,8 +308,8 @@ export const handleEbayItemSold = inngest.createFunction(
       status: "processed",
       notificationId,
       ebayItemId,
-      itemId: item.id,
-      action: "item-sold-delist-triggered",
+      itemId: listing.itemId,
+      action: "item-sold-order-sync-triggered",
     };
   }
 );
@@ -261,19 +325,25 @@ export const handleEbayOrderShipped = inngest.createFunction(
   },
   { event: "ebay/order.shipped" },
   async ({ event, step }) => {
-    const { notificationId, orderId } = event.data;
+    const { notificationId, orderId, payload } = event.data;
 
     if (!orderId) {
       return { status: "skipped", reason: "No orderId in notification" };
     }
 
-    // Update order status (tracking info would require schema addition)
+    const tracking = parseShipmentTracking(payload);
+
+    // Update order status and tracking
     await step.run("update-order", async () => {
       await db
         .update(orders)
         .set({
           status: "shipped",
           shippedAt: new Date(),
+          ...(tracking && {
+            trackingNumber: tracking.trackingNumber,
+            carrier: tracking.carrier,
+          }),
         })
         .where(eq(orders.externalOrderId, orderId));
     });
@@ -282,6 +352,7 @@ export const handleEbayOrderShipped = inngest.createFunction(
       status: "processed",
       notificationId,
       orderId,
+      trackingNumber: tracking?.trackingNumber,
       action: "order-marked-shipped",
     };
   }
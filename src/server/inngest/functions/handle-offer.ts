@@ -5,24 +5,27 @@
  * Supports auto-accept, auto-decline, and auto-counter strategies.
  *
  * Decision Flow:
- * 1. Load user's offer rules
- * 2. Evaluate offer using autopilot engine
+ * 1. Record the offer (dedupes redelivered offers, assigns negotiation round)
+ * 2. Evaluate offer using autopilot engine (enforces maxCounterRounds)
  * 3. Based on confidence:
  *    - HIGH/MEDIUM: Execute immediately
  *    - LOW: Queue for approval
  *    - VERY_LOW: Log only, don't act
+ *    - Auto-accepts and auto-counters beyond the daily limit are queued for approval
  * 4. Log to audit
- * 5. Create autopilotAction record
+ * 5. Create autopilotAction record and record the offer outcome
  */
 
 import { inngest } from "../client";
 import { db } from "@/server/db/client";
-import { autopilotActions, autopilotRules, channelListings, inventoryItems } from "@/server/db/schema";
-import { eq, and } from "drizzle-orm";
-import { evaluateOffer, type OfferContext } from "@/server/services/autopilot";
+import { autopilotActions, channelListings, inventoryItems } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { evaluateOffer, findGoverningRule, type OfferContext } from "@/server/services/autopilot";
 import { auditService } from "@/server/services/audit";
-import { isNativeChannel, type ChannelId } from "@/server/services/channels";
+import { type ChannelId } from "@/server/services/channels";
 import { getEbayAdapter } from "@/server/services/channels/ebay";
+import { recordOffer, linkOfferAction, resolveOffer } from "@/server/services/offers";
+import { consumeRateLimit } from "@/server/services/rate-limits";
 
 export const handleOffer = inngest.createFunction(
   {
@@ -42,6 +45,8 @@ export const handleOffer = inngest.createFunction(
       askingPrice,
       floorPrice,
       buyerUsername,
+      buyerMessage,
+      expiresAt,
     } = event.data;
 
     // Step 1: Load item details for context
@@ -67,7 +72,35 @@ export const handleOffer = inngest.createFunction(
       };
     });
 
-    // Step 2: Evaluate offer using autopilot engine
+    // Step 2: Persist the offer and work out the negotiation round
+    const offerRecord = await step.run("record-offer", async () => {
+      const { offer, isNew } = await recordOffer({
+        userId,
+        itemId,
+        channelListingId,
+        channel,
+        externalOfferId: offerId,
+        amount: offerAmount,
+        askingPrice: askingPrice ?? item.askingPrice,
+        buyerUsername,
+        buyerMessage,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      });
+
+      return { id: offer.id, round: offer.round, status: offer.status, isNew };
+    });
+
+    if (!offerRecord.isNew && offerRecord.status !== "pending") {
+      console.log(`[handle-offer] Offer ${offerId} already ${offerRecord.status} - skipping`);
+      return {
+        success: true,
+        offerId,
+        skipped: true,
+        reason: `Offer already ${offerRecord.status}`,
+      };
+    }
+
+    // Step 3: Evaluate offer using autopilot engine
     const evaluation = await step.run("evaluate-offer", async () => {
       const context: OfferContext = {
         userId,
@@ -80,6 +113,7 @@ export const handleOffer = inngest.createFunction(
         channel,
         buyerUsername,
         daysListed: item.daysListed,
+        round: offerRecord.round,
       };
 
       const result = await evaluateOffer(context);
@@ -94,20 +128,13 @@ export const handleOffer = inngest.createFunction(
       return result;
     });
 
-    // Step 3: Load the offer rule ID for linking
+    // Step 4: Load the offer rule ID for linking
     const offerRuleId = await step.run("load-offer-rule-id", async () => {
-      const rule = await db.query.autopilotRules.findFirst({
-        where: and(
-          eq(autopilotRules.userId, userId),
-          eq(autopilotRules.ruleType, "offer"),
-          eq(autopilotRules.enabled, true)
-        ),
-        columns: { id: true },
-      });
+      const rule = await findGoverningRule(userId, "offer", itemId);
       return rule?.id ?? null;
     });
 
-    // Step 4: Create autopilot action record
+    // Step 5: Create autopilot action record
     const actionId = await step.run("create-action-record", async () => {
       const id = crypto.randomUUID();
       const now = new Date();
@@ -154,6 +181,8 @@ export const handleOffer = inngest.createFunction(
         },
         payload: {
           offerId,
+          offerRecordId: offerRecord.id,
+          round: offerRecord.round,
           channelListingId,
           channel,
           offerAmount,
@@ -174,10 +203,12 @@ export const handleOffer = inngest.createFunction(
         retryCount: 0,
       });
 
+      await linkOfferAction(offerRecord.id, id);
+
       return id;
     });
 
-    // Step 5: Execute the decision (if auto-execute is enabled)
+    // Step 6: Execute the decision (if auto-execute is enabled)
     const executionResult = await step.run("execute-decision", async () => {
       if (!evaluation.autoExecute) {
         console.log(
@@ -195,9 +226,9 @@ export const handleOffer = inngest.createFunction(
       const channelId = channel as ChannelId;
       console.log(`[handle-offer] Executing: ${evaluation.decision} on ${channel}`);
 
-      // Check if this is a native channel with API support
-      if (!isNativeChannel(channelId)) {
-        // Assisted channels (Poshmark, Mercari, Depop) require manual action
+      // Offer responses are only automated through the eBay API
+      if (channelId !== "ebay") {
+        // Other channels (Poshmark, Mercari, Depop) require manual action
         console.log(`[handle-offer] ${channel} is an assisted channel - manual action required`);
         return {
           executed: false,
@@ -206,6 +237,34 @@ export const handleOffer = inngest.createFunction(
         };
       }
 
+      // Accepts and counters draw from their daily autopilot limits;
+      // over the limit, the action falls back to manual approval
+      const bucket =
+        evaluation.decision === "ACCEPT"
+          ? "autoAccepts"
+          : evaluation.decision === "COUNTER"
+            ? "autoCounters"
+            : null;
+      if (bucket) {
+        const rateLimit = await consumeRateLimit(userId, bucket);
+        if (!rateLimit.allowed) {
+          await db
+            .update(autopilotActions)
+            .set({
+              status: "pending",
+              requiresApproval: true,
+              executedAt: null,
+            })
+            .where(eq(autopilotActions.id, actionId));
+
+          return {
+            executed: false,
+            reason: `Daily ${bucket} limit reached (${rateLimit.used}/${rateLimit.limit}) - queued for approval`,
+            rateLimitReached: true,
+          };
+        }
+      }
+
       try {
         // Look up the eBay listing ID (externalId) from the channel listing
         const listing = await db.query.channelListings.findFirst({
@@ -259,6 +318,18 @@ export const handleOffer = inngest.createFunction(
           })
           .where(eq(autopilotActions.id, actionId));
 
+        // Record the outcome on the offer
+        await resolveOffer(offerRecord.id, {
+          status:
+            evaluation.decision === "ACCEPT"
+              ? "accepted"
+              : evaluation.decision === "DECLINE"
+                ? "declined"
+                : "countered",
+          counterAmount: evaluation.counterAmount,
+          autopilotActionId: actionId,
+        });
+
         return {
           executed: true,
           reason: `Auto-executed ${evaluation.decision} via ${channel} Trading API`,
@@ -285,7 +356,7 @@ export const handleOffer = inngest.createFunction(
       }
     });
 
-    // Step 6: Log to audit
+    // Step 7: Log to audit
     await step.run("log-audit", async () => {
       await auditService.log({
         userId,
@@ -314,6 +385,7 @@ export const handleOffer = inngest.createFunction(
           confidenceLevel: evaluation.confidenceLevel,
           reason: evaluation.reason,
           buyerUsername,
+          round: offerRecord.round,
         },
         reversible: false, // Offer actions are not reversible
       });
@@ -325,6 +397,8 @@ export const handleOffer = inngest.createFunction(
       success: true,
       actionId,
       offerId,
+      offerRecordId: offerRecord.id,
+      round: offerRecord.round,
       decision: evaluation.decision,
       confidence: evaluation.confidence,
       confidenceLevel: evaluation.confidenceLevel,
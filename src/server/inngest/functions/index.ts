@@ -7,9 +7,14 @@
 
 import { delistOnSale } from './delist-on-sale';
 import { handleOffer } from './handle-offer';
+import { handleEbayOfferReceived, pollOffers, scheduledOfferPoll } from './ingest-offers';
 import { repriceCheck, scheduledRepriceCheck } from './reprice-check';
 import { staleCheck, scheduledStaleCheck } from './stale-check';
 import { syncOrders } from './sync-orders';
+import { syncInventory } from './sync-inventory';
+import { pollReturns, scheduledReturnPoll } from './ingest-returns';
+import { scheduledSync } from './scheduled-sync';
+import { sendDigest, scheduledDigest } from './notification-digest';
 import {
   handleEbayOrderReceived,
   handleEbayItemSold,
@@ -24,6 +29,8 @@ export const functions = [
   // Autopilot functions
   delistOnSale,
   handleOffer,
+  pollOffers,
+  scheduledOfferPoll,
   repriceCheck,
   scheduledRepriceCheck,
   staleCheck,
@@ -31,9 +38,18 @@ export const functions = [
 
   // Sync functions
   syncOrders,
+  syncInventory,
+  scheduledSync,
+  pollReturns,
+  scheduledReturnPoll,
+
+  // Notification functions
+  sendDigest,
+  scheduledDigest,
 
   // eBay webhook handlers
   handleEbayOrderReceived,
   handleEbayItemSold,
   handleEbayOrderShipped,
+  handleEbayOfferReceived,
 ];
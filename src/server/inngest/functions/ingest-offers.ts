@@ -0,0 +1,404 @@
+/**
+ * Offer Ingestion Functions
+ *
+ * Feeds eBay Best Offers into the autopilot offer engine by emitting
+ * `autopilot/offer-received` for each new offer.
+ *
+ * Sources:
+ * - eBay Best Offer webhook notifications (real-time)
+ * - Scheduled GetBestOffers poll per connected seller (catch-up)
+ *
+ * Both paths dedupe by offer ID: offers already recorded in the offers
+ * table are skipped, and emitted events carry the offer ID as their
+ * Inngest event ID so the webhook and the poller can't double-fire.
+ *
+ * Offers reported expired, or past their expiry, are marked expired
+ * instead of being evaluated, and each poll expires the seller's pending
+ * offers whose expiry has passed.
+ */
+
+import { inngest } from "../client";
+import { db } from "@/server/db/client";
+import {
+  channelConnections,
+  channelListings,
+  inventoryItems,
+  offers as offersTable,
+} from "@/server/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { getEbayAdapter, type EbayBestOffer } from "@/server/services/channels/ebay";
+import { expireOffer, expireLapsedOffers } from "@/server/services/offers";
+
+// ============ TYPES ============
+
+/**
+ * A Best Offer normalized from either the webhook payload or GetBestOffers
+ */
+export interface IncomingOffer {
+  offerId: string;
+  /** eBay item ID (matches channelListings.externalId) */
+  ebayItemId: string;
+  amount: number;
+  buyerUsername?: string;
+  buyerMessage?: string;
+  /** ISO date string */
+  expiresAt?: string;
+  /** Offer status as reported by eBay (Pending, Expired, ...) */
+  status?: string;
+}
+
+/**
+ * Data for an `autopilot/offer-received` event
+ */
+interface OfferReceivedData {
+  userId: string;
+  offerId: string;
+  itemId: string;
+  channelListingId: string;
+  channel: "ebay";
+  offerAmount: number;
+  askingPrice: number;
+  floorPrice?: number;
+  buyerUsername?: string;
+  buyerMessage?: string;
+  expiresAt?: string;
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Normalize a Best Offer webhook notification payload.
+ * Returns null if the payload is missing the offer ID, item ID, or amount.
+ */
+export function parseOfferNotification(
+  payload: Record<string, unknown>
+): IncomingOffer | null {
+  const data = payload as {
+    bestOfferId?: string;
+    itemId?: string;
+    price?: { value?: string | number };
+    buyer?: { username?: string };
+    message?: string;
+    expirationDate?: string;
+    status?: string;
+  };
+
+  const amount = Number(data.price?.value);
+  if (!data.bestOfferId || !data.itemId || !amount || amount <= 0) {
+    return null;
+  }
+
+  return {
+    offerId: data.bestOfferId,
+    ebayItemId: data.itemId,
+    amount,
+    buyerUsername: data.buyer?.username,
+    buyerMessage: data.message,
+    expiresAt: data.expirationDate,
+    ...(data.status && { status: data.status }),
+  };
+}
+
+/**
+ * Convert a GetBestOffers result into an incoming offer.
+ * Seller counter-offers are our own responses, not offers to evaluate.
+ */
+export function fromTradingOffer(offer: EbayBestOffer): IncomingOffer | null {
+  if (offer.offerType === "SellerCounterOffer") {
+    return null;
+  }
+
+  return {
+    offerId: offer.bestOfferId,
+    ebayItemId: offer.itemId,
+    amount: offer.price,
+    buyerUsername: offer.buyerUsername,
+    buyerMessage: offer.buyerMessage,
+    expiresAt: offer.expiresAt,
+    status: offer.status,
+  };
+}
+
+/**
+ * Whether eBay reports the offer expired or its expiry has passed
+ */
+export function isOfferExpired(offer: IncomingOffer, now: Date = new Date()): boolean {
+  if (offer.status?.toLowerCase() === "expired") {
+    return true;
+  }
+
+  return offer.expiresAt !== undefined && new Date(offer.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Get the eBay offer IDs that have already been recorded
+ */
+async function findProcessedOfferIds(offerIds: string[]): Promise<Set<string>> {
+  if (offerIds.length === 0) {
+    return new Set();
+  }
+
+  const rows = await db
+    .select({ externalOfferId: offersTable.externalOfferId })
+    .from(offersTable)
+    .where(
+      and(
+        eq(offersTable.channel, "ebay"),
+        inArray(offersTable.externalOfferId, offerIds)
+      )
+    );
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return new Set(rows.map((r: any) => r.externalOfferId as string));
+}
+
+/**
+ * Match new offers to their eBay channel listings and build event data.
+ *
+ * @param offers - Normalized incoming offers
+ * @param userId - When set, only listings owned by this user are matched
+ */
+async function resolveOffers(
+  offers: IncomingOffer[],
+  userId?: string
+): Promise<{
+  events: OfferReceivedData[];
+  duplicates: number;
+  unmatched: number;
+  expired: number;
+}> {
+  const processed = await findProcessedOfferIds(offers.map((o) => o.offerId));
+  const events: OfferReceivedData[] = [];
+  let duplicates = 0;
+  let unmatched = 0;
+  let expired = 0;
+
+  for (const offer of offers) {
+    // Too late to respond; settle a recorded offer instead of evaluating it
+    if (isOfferExpired(offer)) {
+      expired++;
+      if (processed.has(offer.offerId)) {
+        await expireOffer("ebay", offer.offerId);
+      }
+      continue;
+    }
+
+    if (processed.has(offer.offerId)) {
+      duplicates++;
+      continue;
+    }
+
+    const conditions = [
+      eq(channelListings.channel, "ebay"),
+      eq(channelListings.externalId, offer.ebayItemId),
+    ];
+    if (userId) {
+      conditions.push(eq(inventoryItems.userId, userId));
+    }
+
+    const [match] = await db
+      .select({
+        listingId: channelListings.id,
+        itemId: inventoryItems.id,
+        userId: inventoryItems.userId,
+        listingPrice: channelListings.price,
+        floorPrice: inventoryItems.floorPrice,
+      })
+      .from(channelListings)
+      .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
+      .where(and(...conditions))
+      .limit(1);
+
+    if (!match) {
+      unmatched++;
+      console.log(`[ingest-offers] No listing found for eBay item ${offer.ebayItemId}`);
+      continue;
+    }
+
+    events.push({
+      userId: match.userId,
+      offerId: offer.offerId,
+      itemId: match.itemId,
+      channelListingId: match.listingId,
+      channel: "ebay",
+      offerAmount: offer.amount,
+      askingPrice: match.listingPrice,
+      floorPrice: match.floorPrice ?? undefined,
+      buyerUsername: offer.buyerUsername,
+      buyerMessage: offer.buyerMessage,
+      expiresAt: offer.expiresAt,
+    });
+  }
+
+  return { events, duplicates, unmatched, expired };
+}
+
+/**
+ * Build offer-received events keyed by offer ID for Inngest-level dedupe
+ */
+function toOfferEvents(events: OfferReceivedData[]) {
+  return events.map((data) => ({
+    id: `ebay-offer-${data.offerId}`,
+    name: "autopilot/offer-received" as const,
+    data,
+  }));
+}
+
+// ============ WEBHOOK HANDLER ============
+
+/**
+ * Handle an eBay Best Offer notification
+ */
+export const handleEbayOfferReceived = inngest.createFunction(
+  {
+    id: "handle-ebay-offer-received",
+    name: "Handle eBay Best Offer Received",
+    retries: 3,
+  },
+  { event: "ebay/offer.received" },
+  async ({ event, step }) => {
+    const { notificationId, payload } = event.data;
+
+    const offer = parseOfferNotification(payload);
+    if (!offer) {
+      return {
+        status: "skipped",
+        reason: "Notification missing offer ID, item ID, or amount",
+        notificationId,
+      };
+    }
+
+    const resolved = await step.run("resolve-offer", async () => {
+      return resolveOffers([offer]);
+    });
+
+    if (resolved.events.length === 0) {
+      return {
+        status: "skipped",
+        reason:
+          resolved.expired > 0
+            ? "Offer expired"
+            : resolved.duplicates > 0
+              ? "Offer already processed"
+              : "Could not find listing for offer",
+        notificationId,
+        offerId: offer.offerId,
+      };
+    }
+
+    await step.sendEvent("emit-offer-received", toOfferEvents(resolved.events));
+
+    return {
+      status: "processed",
+      notificationId,
+      offerId: offer.offerId,
+    };
+  }
+);
+
+// ============ POLLER ============
+
+/**
+ * Poll a single seller's active Best Offers via the Trading API
+ */
+export const pollOffers = inngest.createFunction(
+  {
+    id: "poll-offers",
+    name: "Poll eBay Best Offers",
+    retries: 2,
+    concurrency: {
+      key: "event.data.userId",
+      limit: 1,
+    },
+  },
+  { event: "autopilot/poll-offers" },
+  async ({ event, step }) => {
+    const { userId } = event.data;
+
+    const lapsed = await step.run("expire-lapsed-offers", async () => {
+      return expireLapsedOffers(userId);
+    });
+
+    const offers = await step.run("fetch-offers", async () => {
+      const result = await getEbayAdapter().getBestOffers(userId);
+      if (!result.success) {
+        throw new Error(result.error ?? "GetBestOffers failed");
+      }
+
+      return result.offers
+        .map(fromTradingOffer)
+        .filter((o): o is IncomingOffer => o !== null);
+    });
+
+    if (offers.length === 0) {
+      return { success: true, userId, offersFound: 0, offersEmitted: 0, expired: lapsed };
+    }
+
+    const resolved = await step.run("resolve-offers", async () => {
+      return resolveOffers(offers, userId);
+    });
+
+    if (resolved.events.length > 0) {
+      await step.sendEvent("emit-offers-received", toOfferEvents(resolved.events));
+    }
+
+    return {
+      success: true,
+      userId,
+      offersFound: offers.length,
+      offersEmitted: resolved.events.length,
+      duplicates: resolved.duplicates,
+      unmatched: resolved.unmatched,
+      expired: lapsed + resolved.expired,
+    };
+  }
+);
+
+/**
+ * Scheduled offer poll - fans out to every active eBay connection
+ */
+export const scheduledOfferPoll = inngest.createFunction(
+  {
+    id: "scheduled-offer-poll",
+    name: "Scheduled eBay Best Offer Poll",
+    retries: 1,
+  },
+  { cron: "*/15 * * * *" }, // Every 15 minutes
+  async ({ step }) => {
+    const userIds = await step.run("get-ebay-sellers", async () => {
+      const connections = await db
+        .select({ userId: channelConnections.userId })
+        .from(channelConnections)
+        .where(
+          and(
+            eq(channelConnections.channel, "ebay"),
+            eq(channelConnections.status, "active")
+          )
+        );
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return Array.from(new Set(connections.map((c: any) => c.userId as string)));
+    });
+
+    if (userIds.length === 0) {
+      return {
+        success: true,
+        message: "No active eBay connections",
+        usersProcessed: 0,
+      };
+    }
+
+    await step.sendEvent(
+      "trigger-user-offer-polls",
+      userIds.map((userId) => ({
+        name: "autopilot/poll-offers" as const,
+        data: { userId },
+      }))
+    );
+
+    return {
+      success: true,
+      usersProcessed: userIds.length,
+    };
+  }
+);
@@ -0,0 +1,199 @@
+/**
+ * Return Ingestion Functions
+ *
+ * Pulls buyer return cases from the eBay Post-Order API into the returns
+ * subsystem. New cases are opened against their orders and the seller is
+ * asked to follow up; known cases move forward as eBay reports the item
+ * delivered back or the refund issued. Restocking stays a manual step.
+ *
+ * Cases are keyed by eBay return ID, so repeated polls over the same
+ * window are harmless.
+ */
+
+import { subDays } from "date-fns";
+import { inngest } from "../client";
+import { db } from "@/server/db/client";
+import { channelConnections, inventoryItems } from "@/server/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getEbayAdapter, type EbayReturnCase } from "@/server/services/channels/ebay";
+import { recordChannelReturn, type ChannelReturnInput } from "@/server/services/returns";
+import { notifyUser } from "@/server/services/notifications";
+
+// ============ CONSTANTS ============
+
+/** How far back each poll looks for return cases */
+const RETURN_LOOKBACK_DAYS = 60;
+
+/** eBay return states where the item has arrived back with the seller */
+const RECEIVED_STATES = ["ITEM_DELIVERED", "ITEM_RECEIVED"];
+
+/** eBay return states where the buyer has been refunded */
+const REFUNDED_STATES = [
+  "REFUND_ISSUED",
+  "PARTIAL_REFUND_ISSUED",
+  "LESS_THAN_A_FULL_REFUND_ISSUED",
+];
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Normalize a Post-Order return case for the returns service
+ */
+export function fromEbayReturn(returnCase: EbayReturnCase): ChannelReturnInput {
+  let status: ChannelReturnInput["status"] = "requested";
+  if (REFUNDED_STATES.includes(returnCase.state) || (returnCase.refundAmount ?? 0) > 0) {
+    status = "refunded";
+  } else if (RECEIVED_STATES.includes(returnCase.state)) {
+    status = "received";
+  }
+
+  const reason = [returnCase.reason?.replace(/_/g, " ").toLowerCase(), returnCase.buyerComments]
+    .filter(Boolean)
+    .join(": ");
+
+  return {
+    channel: "ebay",
+    externalReturnId: returnCase.returnId,
+    externalOrderId: returnCase.orderId,
+    externalListingId: returnCase.itemId,
+    quantity: returnCase.quantity,
+    status,
+    reason: reason || undefined,
+    refundAmount: returnCase.refundAmount,
+    requestedAt: new Date(returnCase.createdAt),
+  };
+}
+
+// ============ POLLER ============
+
+/**
+ * Poll a single seller's eBay return cases via the Post-Order API
+ */
+export const pollReturns = inngest.createFunction(
+  {
+    id: "poll-returns",
+    name: "Poll eBay Returns",
+    retries: 2,
+    concurrency: {
+      key: "event.data.userId",
+      limit: 1,
+    },
+  },
+  { event: "sync/returns" },
+  async ({ event, step }) => {
+    const { userId } = event.data;
+
+    const cases = await step.run("fetch-returns", async () => {
+      const result = await getEbayAdapter().getReturns(
+        userId,
+        subDays(new Date(), RETURN_LOOKBACK_DAYS)
+      );
+      if (!result.success) {
+        throw new Error(result.error ?? "Return search failed");
+      }
+
+      return result.returns;
+    });
+
+    if (cases.length === 0) {
+      return { success: true, userId, returnsFound: 0 };
+    }
+
+    const recorded = await step.run("record-returns", async () => {
+      const tally = { created: 0, updated: 0, unchanged: 0, unmatched: 0 };
+      const opened: Array<{ itemId: string; reason: string | null }> = [];
+
+      for (const returnCase of cases) {
+        const result = await recordChannelReturn(userId, fromEbayReturn(returnCase));
+        tally[result.outcome]++;
+
+        if (result.outcome === "created" && result.return) {
+          opened.push({ itemId: result.return.itemId, reason: result.return.reason });
+        } else if (result.outcome === "unmatched") {
+          console.log(
+            `[ingest-returns] No order found for eBay return ${returnCase.returnId} (order ${returnCase.orderId})`
+          );
+        }
+      }
+
+      return { tally, opened };
+    });
+
+    if (recorded.opened.length > 0) {
+      await step.run("notify-new-returns", async () => {
+        for (const opened of recorded.opened) {
+          const [item] = await db
+            .select({ title: inventoryItems.title })
+            .from(inventoryItems)
+            .where(eq(inventoryItems.id, opened.itemId))
+            .limit(1);
+
+          await notifyUser(userId, {
+            type: "ACTION_REQUIRED",
+            channel: "ebay",
+            itemId: opened.itemId,
+            itemTitle: item?.title,
+            priority: "HIGH",
+            message: `A buyer opened an eBay return for "${item?.title ?? "an item"}"${opened.reason ? ` (${opened.reason})` : ""}. Review it under Returns.`,
+          });
+        }
+      });
+    }
+
+    return {
+      success: true,
+      userId,
+      returnsFound: cases.length,
+      ...recorded.tally,
+    };
+  }
+);
+
+/**
+ * Scheduled return poll - fans out to every active eBay connection
+ */
+export const scheduledReturnPoll = inngest.createFunction(
+  {
+    id: "scheduled-return-poll",
+    name: "Scheduled eBay Return Poll",
+    retries: 1,
+  },
+  { cron: "0 * * * *" }, // Every hour
+  async ({ step }) => {
+    const userIds = await step.run("get-ebay-sellers", async () => {
+      const connections = await db
+        .select({ userId: channelConnections.userId })
+        .from(channelConnections)
+        .where(
+          and(
+            eq(channelConnections.channel, "ebay"),
+            eq(channelConnections.status, "active")
+          )
+        );
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return Array.from(new Set(connections.map((c: any) => c.userId as string)));
+    });
+
+    if (userIds.length === 0) {
+      return {
+        success: true,
+        message: "No active eBay connections",
+        usersProcessed: 0,
+      };
+    }
+
+    await step.sendEvent(
+      "trigger-user-return-polls",
+      userIds.map((userId) => ({
+        name: "sync/returns" as const,
+        data: { userId },
+      }))
+    );
+
+    return {
+      success: true,
+      usersProcessed: userIds.length,
+    };
+  }
+);
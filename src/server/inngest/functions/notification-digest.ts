@@ -0,0 +1,78 @@
+/**
+ * Notification Digest Function
+ *
+ * Emails each user one daily digest of their LOW and MEDIUM priority
+ * notifications. CRITICAL and HIGH priority notifications are emailed
+ * immediately by notifyUser and never wait for the digest.
+ *
+ * Flow:
+ * 1. Cron finds users with pending digest notifications
+ * 2. Fan out one send-digest event per user
+ * 3. Each event renders and sends the digest, then marks the rows sent
+ */
+
+import { inngest } from "../client";
+import {
+  getUsersWithPendingDigest,
+  sendNotificationDigest,
+} from "@/server/services/notifications";
+
+// ============ MAIN FUNCTION ============
+
+export const sendDigest = inngest.createFunction(
+  {
+    id: "send-notification-digest",
+    name: "Send Notification Digest",
+    retries: 2,
+  },
+  { event: "notifications/send-digest" },
+  async ({ event, step }) => {
+    const { userId } = event.data;
+
+    const included = await step.run("send-digest-email", async () => {
+      return sendNotificationDigest(userId);
+    });
+
+    return {
+      success: true,
+      userId,
+      notificationsIncluded: included,
+    };
+  }
+);
+
+// ============ SCHEDULED TRIGGER ============
+
+export const scheduledDigest = inngest.createFunction(
+  {
+    id: "scheduled-notification-digest",
+    name: "Scheduled Daily Notification Digest",
+    retries: 1,
+  },
+  { cron: "0 14 * * *" }, // 2 PM UTC daily (morning in the US)
+  async ({ step }) => {
+    const usersToEmail = await step.run("get-users-with-pending-digest", async () => {
+      return getUsersWithPendingDigest();
+    });
+
+    if (usersToEmail.length === 0) {
+      return {
+        success: true,
+        message: "No pending digest notifications",
+        usersProcessed: 0,
+      };
+    }
+
+    const events = usersToEmail.map((userId) => ({
+      name: "notifications/send-digest" as const,
+      data: { userId },
+    }));
+
+    await step.sendEvent("trigger-digests", events);
+
+    return {
+      success: true,
+      usersProcessed: usersToEmail.length,
+    };
+  }
+);
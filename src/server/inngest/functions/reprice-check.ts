@@ -2,12 +2,15 @@
  * Reprice Check Function
  *
  * Evaluates items for potential price adjustments based on
- * user's repricing rules and item performance.
+ * user's repricing rules and item performance. Each listing is evaluated
+ * with the most specific rule covering its item (see rule-scopes).
  *
  * Strategies:
  * - time_decay: Gradually reduce price over time
- * - performance: Adjust based on views/watchers (future)
- * - competitive: Match competitor pricing (future)
+ * - performance: Adjust based on views/watchers/offers (traffic is pulled
+ *   into listing_metrics before evaluation)
+ * - competitive: Price to comparable active and sold listings (comps are
+ *   loaded from the comparables provider before evaluation)
  *
  * Guardrails:
  * - Never go below floor price
@@ -19,10 +22,12 @@
 import { inngest } from "../client";
 import {
   evaluateReprice,
-  getRepriceRules,
+  toRepriceRules,
   getActiveListingsForRepricing,
+  loadComparableStats,
   checkRepriceLimit,
   incrementRepriceCount,
+  releaseRepriceCount,
   createRepriceAction,
   markRepriceExecuted,
   markRepriceFailed,
@@ -30,10 +35,12 @@ import {
   type RepricingContext,
   type RepricingResult,
 } from "@/server/services/autopilot/repricing";
+import { syncListingMetrics } from "@/server/services/autopilot/listing-metrics";
+import { loadScopedRules, pickGoverningRule } from "@/server/services/autopilot/rule-scopes";
 import { auditService } from "@/server/services/audit";
-import { getAdapter, isNativeChannel } from "@/server/services/channels";
+import { canAutomateChannel, getAdapter, type ChannelId } from "@/server/services/channels";
 import { db } from "@/server/db/client";
-import { autopilotRules } from "@/server/db/schema";
+import { autopilotRules, type RepriceRuleConfig } from "@/server/db/schema";
 import { eq, and } from "drizzle-orm";
 
 // ============ TYPES ============
@@ -48,6 +55,7 @@ interface RepriceAdjustment {
   action: "reprice" | "skip" | "require_approval" | "rate_limited";
   reason: string;
   confidence: number;
+  ruleId?: string;
   actionId?: string;
 }
 
@@ -96,10 +104,12 @@ export const repriceCheck = inngest.createFunction(
       };
     }
 
-    // Step 2: Load user's reprice rules
-    const rules = await step.run("load-reprice-rules", async () => {
-      return getRepriceRules(userId);
+    // Step 2: Load user's reprice rules (all scopes)
+    const scopedRules = await step.run("load-reprice-rules", async () => {
+      return loadScopedRules<RepriceRuleConfig>(userId, "reprice");
     });
+    const usesStrategy = (strategy: RepriceRuleConfig["strategy"]) =>
+      scopedRules.some((rule) => rule.enabled && rule.config.strategy === strategy);
 
     // Step 3: Check rate limit
     const rateLimit = await step.run("check-rate-limit", async () => {
@@ -113,13 +123,25 @@ export const repriceCheck = inngest.createFunction(
       return {
         success: true,
         userId,
-        message: `Daily reprice limit reached (${100 - rateLimit.remaining}/100). Resets at ${resetsAtStr}`,
+        message: `Daily reprice limit reached (${rateLimit.used}/${rateLimit.limit}). Resets at ${resetsAtStr}`,
         itemsChecked: 0,
         itemsRepriced: 0,
         rateLimitReached: true,
       };
     }
 
+    // Step 3b: Pull the latest listing traffic for the performance strategy
+    if (usesStrategy("performance")) {
+      await step.run("sync-listing-metrics", async () => {
+        const result = await syncListingMetrics(userId);
+        if (!result.success) {
+          // Not fatal: listings without traffic data fall back to time decay
+          console.error(`[reprice-check] Listing metrics sync failed: ${result.error}`);
+        }
+        return result;
+      });
+    }
+
     // Step 4: Get items to check
     const contexts = await step.run("get-items-to-check", async () => {
       const listings = await getActiveListingsForRepricing(userId, itemId);
@@ -148,6 +170,14 @@ export const repriceCheck = inngest.createFunction(
       };
     }
 
+    // Step 4b: Load comparables for the competitive strategy
+    const comparables =
+      usesStrategy("competitive")
+        ? await step.run("load-comparables", async () => {
+            return loadComparableStats(userId, contexts);
+          })
+        : {};
+
     // Step 5: Evaluate each item for repricing
     const adjustments = await step.run("evaluate-repricing", async () => {
       const results: RepriceAdjustment[] = [];
@@ -171,9 +201,35 @@ export const repriceCheck = inngest.createFunction(
           lastRepriceAt: serializedCtx.lastRepriceAt
             ? new Date(serializedCtx.lastRepriceAt)
             : null,
+          comparables: comparables[serializedCtx.listing.id] ?? null,
         };
 
-        const result = await evaluateReprice(ctx, rules);
+        const rule = pickGoverningRule(scopedRules, {
+          itemId: ctx.item.id,
+          category: ctx.item.category,
+          tags: ctx.item.tags,
+          price: ctx.currentPrice,
+        });
+
+        // Only items covered by an enabled rule are repriced
+        if (!rule || !rule.enabled) {
+          results.push({
+            itemId: ctx.item.id,
+            listingId: ctx.listing.id,
+            channel: ctx.listing.channel,
+            currentPrice: ctx.currentPrice,
+            suggestedPrice: ctx.currentPrice,
+            dropPercent: 0,
+            action: "skip",
+            reason: rule
+              ? "Repricing is turned off for this item"
+              : "No repricing rule covers this item",
+            confidence: 1,
+          });
+          continue;
+        }
+
+        const result = await evaluateReprice(ctx, toRepriceRules(rule.config));
 
         let action: RepriceAdjustment["action"] = "skip";
         if (result.shouldReprice) {
@@ -195,6 +251,7 @@ export const repriceCheck = inngest.createFunction(
           action,
           reason: result.reason,
           confidence: result.confidence,
+          ruleId: rule.id,
         });
       }
 
@@ -206,24 +263,23 @@ export const repriceCheck = inngest.createFunction(
       const appliedChanges: string[] = [];
       const failedChanges: Array<{ itemId: string; error: string }> = [];
 
-      let repricesRemaining = rateLimit.remaining;
-
       for (const adj of adjustments) {
         if (adj.action !== "reprice") {
           continue;
         }
 
-        // Check if we still have reprices remaining
-        if (repricesRemaining <= 0) {
+        // Find the original context for this adjustment
+        const serializedCtx = contexts.find((c) => c.item.id === adj.itemId);
+        if (!serializedCtx) continue;
+
+        // Reserve a reprice from the daily limit before touching the channel
+        const reservation = await incrementRepriceCount(userId);
+        if (!reservation.allowed) {
           adj.action = "rate_limited";
           adj.reason = "Daily reprice limit reached";
           continue;
         }
 
-        // Find the original context for this adjustment
-        const serializedCtx = contexts.find((c) => c.item.id === adj.itemId);
-        if (!serializedCtx) continue;
-
         // Reconstruct context with dates
         const ctx: RepricingContext = {
           ...serializedCtx,
@@ -242,6 +298,7 @@ export const repriceCheck = inngest.createFunction(
           lastRepriceAt: serializedCtx.lastRepriceAt
             ? new Date(serializedCtx.lastRepriceAt)
             : null,
+          comparables: comparables[serializedCtx.listing.id] ?? null,
         };
 
         try {
@@ -262,15 +319,15 @@ export const repriceCheck = inngest.createFunction(
             dropPercent: adj.dropPercent,
           };
 
-          const actionId = await createRepriceAction(userId, ctx, result);
+          const actionId = await createRepriceAction(userId, ctx, result, adj.ruleId);
           adj.actionId = actionId;
 
           // Update price on the channel if native integration
           if (
-            isNativeChannel(ctx.listing.channel as "ebay" | "poshmark" | "mercari" | "depop") &&
-            ctx.listing.externalId
+            ctx.listing.externalId &&
+            (await canAutomateChannel(userId, ctx.listing.channel as ChannelId))
           ) {
-            const adapter = getAdapter(ctx.listing.channel as "ebay");
+            const adapter = getAdapter(ctx.listing.channel as ChannelId);
 
             if (adapter.capabilities.canReprice) {
               const updateResult = await adapter.updatePrice(
@@ -280,6 +337,7 @@ export const repriceCheck = inngest.createFunction(
               );
 
               if (!updateResult.success) {
+                await releaseRepriceCount(userId);
                 await markRepriceFailed(actionId, updateResult.error ?? "Unknown error");
                 failedChanges.push({
                   itemId: adj.itemId,
@@ -296,13 +354,10 @@ export const repriceCheck = inngest.createFunction(
           // Mark action as executed
           await markRepriceExecuted(actionId);
 
-          // Track the reprice
-          incrementRepriceCount(userId);
-          repricesRemaining--;
-
           appliedChanges.push(adj.itemId);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : "Unknown error";
+          await releaseRepriceCount(userId);
           if (adj.actionId) {
             await markRepriceFailed(adj.actionId, errorMessage);
           }
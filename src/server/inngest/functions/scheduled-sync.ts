@@ -0,0 +1,151 @@
+/**
+ * Scheduled Sync Function
+ *
+ * Keeps orders and inventory in step with every connected marketplace
+ * without the user pressing "Sync".
+ *
+ * Flow:
+ * 1. Find all active channel connections
+ * 2. Refresh tokens that are about to expire; connections whose refresh is
+ *    rejected are marked expired by the channel client and the user is told
+ *    to reconnect
+ * 3. Fan out sync/orders (from each connection's lastSyncAt watermark) and
+ *    sync/inventory for the connections that are still usable
+ */
+
+import { inngest } from "../client";
+import { db } from "@/server/db/client";
+import { channelConnections } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { getAdapter, isNativeChannel, type ChannelId } from "@/server/services/channels";
+import { notifyUser } from "@/server/services/notifications";
+import { CHANNEL_NAMES } from "@/lib/constants";
+
+// Refresh tokens expiring within this window before syncing with them
+const TOKEN_REFRESH_WINDOW_MS = 15 * 60 * 1000;
+
+export interface ConnectionToSync {
+  userId: string;
+  channel: ChannelId;
+  /** ISO date string, null if the connection has never synced */
+  lastSyncAt: string | null;
+}
+
+/**
+ * Get the active connections to sync, refreshing expiring tokens first.
+ * Connections that can't be refreshed are skipped for this run.
+ */
+export async function getConnectionsToSync(now: Date = new Date()): Promise<ConnectionToSync[]> {
+  const connections = await db
+    .select({
+      id: channelConnections.id,
+      userId: channelConnections.userId,
+      channel: channelConnections.channel,
+      tokenExpiresAt: channelConnections.tokenExpiresAt,
+      lastSyncAt: channelConnections.lastSyncAt,
+    })
+    .from(channelConnections)
+    .where(eq(channelConnections.status, "active"));
+
+  const toSync: ConnectionToSync[] = [];
+
+  for (const connection of connections) {
+    const channel = connection.channel as ChannelId;
+    const expiresSoon =
+      !connection.tokenExpiresAt ||
+      connection.tokenExpiresAt.getTime() - now.getTime() < TOKEN_REFRESH_WINDOW_MS;
+
+    if (isNativeChannel(channel) && expiresSoon) {
+      const refreshed = await getAdapter(channel).refreshToken(connection.userId);
+
+      if (!refreshed) {
+        const current = await db.query.channelConnections.findFirst({
+          where: eq(channelConnections.id, connection.id),
+          columns: { status: true },
+        });
+
+        if (current?.status === "expired") {
+          console.log(
+            `[scheduled-sync] ${channel} connection for user ${connection.userId} expired`
+          );
+          await notifyUser(connection.userId, {
+            type: "SYNC_ERROR",
+            channel,
+            priority: "HIGH",
+            message: `Your ${CHANNEL_NAMES[channel]} connection has expired. Reconnect it in Settings to resume syncing.`,
+          });
+        } else {
+          console.log(
+            `[scheduled-sync] Token refresh failed for ${channel} user ${connection.userId}, skipping this run`
+          );
+        }
+        continue;
+      }
+    }
+
+    toSync.push({
+      userId: connection.userId,
+      channel,
+      lastSyncAt: connection.lastSyncAt?.toISOString() ?? null,
+    });
+  }
+
+  return toSync;
+}
+
+/**
+ * Build the sync/orders and sync/inventory events for each connection
+ */
+export function buildSyncEvents(connections: ConnectionToSync[]) {
+  return connections.flatMap((connection) => [
+    {
+      name: "sync/orders" as const,
+      data: {
+        userId: connection.userId,
+        channel: connection.channel,
+        ...(connection.lastSyncAt ? { since: connection.lastSyncAt } : {}),
+      },
+    },
+    {
+      name: "sync/inventory" as const,
+      data: {
+        userId: connection.userId,
+        channel: connection.channel,
+      },
+    },
+  ]);
+}
+
+// ============ SCHEDULED TRIGGER ============
+
+export const scheduledSync = inngest.createFunction(
+  {
+    id: "scheduled-sync",
+    name: "Scheduled Channel Sync",
+    retries: 1,
+  },
+  [
+    { cron: "*/30 * * * *" }, // Every 30 minutes
+    { event: "scheduled/sync" }, // On demand
+  ],
+  async ({ step }) => {
+    const connections = await step.run("get-connections-to-sync", async () => {
+      return getConnectionsToSync();
+    });
+
+    if (connections.length === 0) {
+      return {
+        success: true,
+        message: "No active channel connections",
+        connectionsProcessed: 0,
+      };
+    }
+
+    await step.sendEvent("trigger-syncs", buildSyncEvents(connections));
+
+    return {
+      success: true,
+      connectionsProcessed: connections.length,
+    };
+  }
+);
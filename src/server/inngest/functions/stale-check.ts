@@ -12,6 +12,7 @@
  * Actions:
  * - Notify user with suggestions
  * - Optionally auto-archive after configurable days
+ * - Optionally auto-relist stale eBay listings (end and publish fresh)
  * - Suggest repricing strategies
  */
 
@@ -21,6 +22,7 @@ import { inventoryItems, channelListings, autopilotRules, autopilotActions } fro
 import type { StaleRuleConfig } from "@/server/db/schema";
 import { eq, and, lt } from "drizzle-orm";
 import { auditService } from "@/server/services/audit";
+import { relistStaleListing } from "@/server/services/autopilot/relist";
 
 // ============ TYPES ============
 
@@ -30,6 +32,7 @@ export interface StaleItemReport {
   daysListed: number;
   currentPrice: number;
   floorPrice?: number | null;
+  listingId?: string;
   channel?: string;
   staleness: "warning" | "stale" | "very_stale";
   suggestion: string;
@@ -38,7 +41,7 @@ export interface StaleItemReport {
 
 interface StaleCheckResult {
   itemId: string;
-  action: "notify" | "archive" | "skip";
+  action: "notify" | "archive" | "relist" | "skip";
   reason: string;
 }
 
@@ -156,7 +159,11 @@ export const staleCheck = inngest.createFunction(
           listing: channelListings,
         })
         .from(inventoryItems)
-        .leftJoin(channelListings, eq(inventoryItems.id, channelListings.itemId))
+        // Only the live listing; relists leave the ended originals behind
+        .leftJoin(
+          channelListings,
+          and(eq(inventoryItems.id, channelListings.itemId), eq(channelListings.status, "active"))
+        )
         .where(
           and(
             eq(inventoryItems.userId, userId),
@@ -179,6 +186,7 @@ export const staleCheck = inngest.createFunction(
           ? {
               id: row.listing.id,
               channel: row.listing.channel,
+              externalId: row.listing.externalId,
               price: row.listing.price,
               publishedAt: row.listing.publishedAt?.toISOString() ?? null,
             }
@@ -223,7 +231,13 @@ export const staleCheck = inngest.createFunction(
           action = "notify";
         } else if (staleness === "very_stale" && !rules.autoRelist) {
           action = "archive";
-        } else if (rules.autoRelist && (staleness === "stale" || staleness === "very_stale")) {
+        } else if (
+          rules.autoRelist &&
+          (staleness === "stale" || staleness === "very_stale") &&
+          listing?.channel === "ebay" &&
+          listing.externalId
+        ) {
+          // Only native eBay listings can be ended and republished
           action = "relist";
         } else {
           action = "notify";
@@ -235,6 +249,7 @@ export const staleCheck = inngest.createFunction(
           daysListed,
           currentPrice,
           floorPrice: item.floorPrice,
+          listingId: listing?.id,
           channel: listing?.channel,
           staleness,
           suggestion,
@@ -317,6 +332,26 @@ export const staleCheck = inngest.createFunction(
             action: "archive",
             reason: `Auto-archived: stale for ${report.daysListed} days`,
           });
+        } else if (report.action === "relist" && report.listingId && !rules.notifyOnly) {
+          const relist = await relistStaleListing(userId, report.listingId, {
+            reason: `Stale for ${report.daysListed} days`,
+            daysListed: report.daysListed,
+          });
+
+          results.push(
+            relist.success
+              ? {
+                  itemId: report.itemId,
+                  action: "relist",
+                  reason: `Auto-relisted on eBay as ${relist.externalId}`,
+                }
+              : {
+                  // Over the daily limit or eBay refused: leave it to the user
+                  itemId: report.itemId,
+                  action: "notify",
+                  reason: `Relist failed: ${relist.error}. ${report.suggestion}`,
+                }
+          );
         } else {
           // Just notify
           results.push({
@@ -336,6 +371,7 @@ export const staleCheck = inngest.createFunction(
       const staleCount = reports.filter((r) => r.staleness === "stale").length;
       const veryStaleCount = reports.filter((r) => r.staleness === "very_stale").length;
       const archivedCount = actions.filter((a) => a.action === "archive").length;
+      const relistedCount = actions.filter((a) => a.action === "relist").length;
 
       return {
         totalStale: reports.length,
@@ -343,10 +379,12 @@ export const staleCheck = inngest.createFunction(
         staleCount,
         veryStaleCount,
         archivedCount,
+        relistedCount,
         message:
           `Found ${reports.length} potentially stale items: ` +
           `${veryStaleCount} very stale, ${staleCount} stale, ${warningCount} warnings. ` +
-          (archivedCount > 0 ? `Auto-archived ${archivedCount} items.` : ""),
+          (archivedCount > 0 ? `Auto-archived ${archivedCount} items. ` : "") +
+          (relistedCount > 0 ? `Auto-relisted ${relistedCount} items.` : ""),
       };
     });
 
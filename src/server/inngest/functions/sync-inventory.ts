@@ -0,0 +1,113 @@
+/**
+ * Sync Inventory Function
+ *
+ * Reconciles local listings with changes made directly on the marketplace.
+ * Triggered per connection by the scheduled sync.
+ *
+ * Flow:
+ * 1. Get user's channel connection
+ * 2. Fetch the channel's current inventory snapshot
+ * 3. Reconcile ended listings and price/quantity/title drift into
+ *    channelListings and inventoryItems, auditing each change as SYSTEM
+ *
+ * Only eBay exposes an inventory API; other channels are skipped.
+ */
+
+import { inngest } from '../client';
+import { db } from '@/server/db/client';
+import { channelConnections } from '@/server/db/schema';
+import { eq, and } from 'drizzle-orm';
+import {
+  getEbayAdapter,
+  reconcileEbayInventory,
+  type EbayInventoryItemData,
+} from '@/server/services/channels/ebay';
+
+interface FetchInventoryResult {
+  items: EbayInventoryItemData[];
+  error: string | null;
+}
+
+export const syncInventory = inngest.createFunction(
+  {
+    id: 'sync-inventory',
+    name: 'Sync Inventory from Marketplace',
+    retries: 3,
+    // Concurrency limit per user
+    concurrency: {
+      key: 'sync-inventory-{{ event.data.userId }}',
+      limit: 1,
+    },
+  },
+  { event: 'sync/inventory' },
+  async ({ event, step }) => {
+    const { userId, channel } = event.data;
+
+    if (channel !== 'ebay') {
+      return {
+        success: true,
+        skipped: true,
+        message: `${channel} has no inventory API to reconcile against`,
+      };
+    }
+
+    // Step 1: Get channel connection
+    const connection = await step.run('get-channel-connection', async () => {
+      const conn = await db.query.channelConnections.findFirst({
+        where: and(
+          eq(channelConnections.userId, userId),
+          eq(channelConnections.channel, channel),
+          eq(channelConnections.status, 'active')
+        ),
+        columns: { id: true },
+      });
+
+      return conn ? { id: conn.id } : null;
+    });
+
+    if (!connection) {
+      return {
+        success: false,
+        error: `No active ${channel} connection found`,
+      };
+    }
+
+    // Step 2: Fetch the eBay inventory snapshot
+    const fetched = await step.run('fetch-channel-inventory', async (): Promise<FetchInventoryResult> => {
+      try {
+        const items = await getEbayAdapter().syncInventory(userId);
+        console.log(`[sync-inventory] Fetched ${items.length} inventory items from ${channel}`);
+        return { items, error: null };
+      } catch (error) {
+        console.error(`[sync-inventory] Error fetching inventory from ${channel}:`, error);
+        return {
+          items: [],
+          error: error instanceof Error ? error.message : 'Failed to fetch inventory',
+        };
+      }
+    });
+
+    // Reconciling against a failed fetch would end every listing
+    if (fetched.error) {
+      return {
+        success: false,
+        error: fetched.error,
+      };
+    }
+
+    // Step 3: Reconcile local listings
+    const result = await step.run('reconcile-listings', async () => {
+      return reconcileEbayInventory(userId, fetched.items);
+    });
+
+    console.log(
+      `[sync-inventory] ${channel} for user ${userId}: ${result.ended} ended, ` +
+        `${result.relisted} relisted, ${result.revised} revised`
+    );
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+);
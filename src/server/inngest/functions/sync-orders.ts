@@ -7,10 +7,13 @@
  * Flow:
  * 1. Get user's channel connection
  * 2. Fetch orders from channel API since last sync
- * 3. Match orders to inventory items
- * 4. Create/update order records
- * 5. Trigger delist-on-sale for new confirmed orders
- * 6. Update last sync timestamp
+ * 3. Match each order line item to an inventory item
+ * 4. Create/update one order record per line item
+ * 5. Trigger delist-on-sale for newly confirmed line items, with the units sold
+ * 6. Advance the lastSyncAt watermark to when this fetch started
+ *
+ * A failed fetch leaves the watermark where it was so the next run
+ * re-fetches the same window instead of skipping it.
  */
 
 import { inngest } from '../client';
@@ -18,6 +21,20 @@ import { db } from '@/server/db/client';
 import { channelConnections, channelListings, inventoryItems, orders } from '@/server/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { getAdapter, isNativeChannel, type ChannelId, type ChannelOrder } from '@/server/services/channels';
+import { splitOrderLineItems } from '@/server/services/orders';
+
+// Channel order with dates as ISO strings, as returned from an Inngest step
+type SerializedChannelOrder = Omit<ChannelOrder, 'orderedAt' | 'paidAt' | 'shippedAt'> & {
+  orderedAt: string;
+  paidAt: string | null;
+  shippedAt: string | null;
+};
+
+interface FetchOrdersResult {
+  orders: SerializedChannelOrder[];
+  fetchedAt: string;
+  error: string | null;
+}
 
 /**
  * Map channel order status to our internal order status
@@ -90,8 +107,10 @@ export const syncOrders = inngest.createFunction(
     }
 
     // Step 2: Fetch orders from channel
-    const channelOrders = await step.run('fetch-channel-orders', async () => {
+    const fetched = await step.run('fetch-channel-orders', async (): Promise<FetchOrdersResult> => {
       const channelId = channel as ChannelId;
+      // Taken before the request so orders placed mid-sync fall in the next window
+      const fetchedAt = new Date().toISOString();
       console.log(
         `[sync-orders] Fetching ${channel} orders since ${connection.lastSyncAt ?? 'beginning'}`
       );
@@ -99,7 +118,7 @@ export const syncOrders = inngest.createFunction(
       // Only native channels support order syncing via API
       if (!isNativeChannel(channelId)) {
         console.log(`[sync-orders] ${channel} is an assisted channel - no API sync available`);
-        return [];
+        return { orders: [], fetchedAt, error: null };
       }
 
       try {
@@ -108,7 +127,7 @@ export const syncOrders = inngest.createFunction(
         // Check if adapter supports order syncing
         if (!adapter.syncOrders) {
           console.log(`[sync-orders] ${channel} adapter does not support order syncing`);
-          return [];
+          return { orders: [], fetchedAt, error: null };
         }
 
         // Determine the since date for syncing
@@ -121,27 +140,42 @@ export const syncOrders = inngest.createFunction(
         console.log(`[sync-orders] Fetched ${fetchedOrders.length} orders from ${channel}`);
 
         // Serialize orders for Inngest step (convert Date objects to ISO strings)
-        return fetchedOrders.map((order) => ({
+        const serialized: SerializedChannelOrder[] = fetchedOrders.map((order) => ({
           ...order,
           orderedAt: order.orderedAt.toISOString(),
           paidAt: order.paidAt?.toISOString() ?? null,
           shippedAt: order.shippedAt?.toISOString() ?? null,
         }));
+        return { orders: serialized, fetchedAt, error: null };
       } catch (error) {
         console.error(`[sync-orders] Error fetching orders from ${channel}:`, error);
-        return [];
+        return {
+          orders: [],
+          fetchedAt,
+          error: error instanceof Error ? error.message : 'Failed to fetch orders',
+        };
       }
     });
 
+    if (fetched.error) {
+      return {
+        success: false,
+        error: fetched.error,
+      };
+    }
+
+    const channelOrders = fetched.orders;
+
     // Order status type matching our schema
     type OrderStatus = 'pending' | 'paid' | 'shipped' | 'delivered' | 'returned' | 'cancelled';
 
-    // Step 3: Match orders to inventory items
+    // Step 3: Match order line items to inventory items
     const matchedOrders = await step.run('match-to-inventory', async () => {
       const matched: Array<{
         externalOrderId: string;
         itemId: string | null;
         channelListingId: string | null;
+        quantity: number;
         salePrice: number;
         shippingPaid: number | null;
         platformFees: number | null;
@@ -154,82 +188,89 @@ export const syncOrders = inngest.createFunction(
       }> = [];
 
       for (const order of channelOrders) {
-        // Find matching inventory item by looking up channel listings
-        // Each order can have multiple line items, so we process the first one
-        const lineItem = order.lineItems[0];
-        if (!lineItem) {
+        if (order.lineItems.length === 0) {
           console.log(`[sync-orders] Order ${order.externalOrderId} has no line items, skipping`);
           continue;
         }
 
-        // Try to find the channel listing by external listing ID or SKU
-        let listing = null;
+        // Each line item is matched and recorded separately
+        for (const lineItem of splitOrderLineItems(order)) {
+          // Try to find the channel listing by external listing ID or SKU
+          let listing = null;
 
-        // First try by external listing ID (legacyItemId for eBay)
-        if (lineItem.externalListingId) {
-          listing = await db.query.channelListings.findFirst({
-            where: eq(channelListings.externalId, lineItem.externalListingId),
-            with: { item: true },
-          });
-        }
+          // First try by external listing ID (legacyItemId for eBay)
+          if (lineItem.externalListingId) {
+            listing = await db.query.channelListings.findFirst({
+              where: eq(channelListings.externalId, lineItem.externalListingId),
+              with: { item: true },
+            });
+          }
 
-        // If not found by external ID, try by SKU
-        if (!listing && lineItem.sku) {
-          const item = await db.query.inventoryItems.findFirst({
-            where: and(
-              eq(inventoryItems.userId, userId),
-              eq(inventoryItems.sku, lineItem.sku)
-            ),
-            with: {
-              channelListings: {
-                where: eq(channelListings.channel, channel),
-                limit: 1,
+          // If not found by external ID, try by SKU
+          if (!listing && lineItem.sku) {
+            const item = await db.query.inventoryItems.findFirst({
+              where: and(
+                eq(inventoryItems.userId, userId),
+                eq(inventoryItems.sku, lineItem.sku)
+              ),
+              with: {
+                channelListings: {
+                  where: eq(channelListings.channel, channel),
+                  limit: 1,
+                },
               },
-            },
-          });
+            });
 
-          if (item && item.channelListings.length > 0) {
-            listing = {
-              ...item.channelListings[0],
-              item,
-            };
+            if (item && item.channelListings.length > 0) {
+              listing = {
+                ...item.channelListings[0],
+                item,
+              };
+            }
           }
-        }
 
-        const matchedOrder = {
-          externalOrderId: order.externalOrderId,
-          itemId: listing?.item?.id ?? null,
-          channelListingId: listing?.id ?? null,
-          salePrice: order.salePrice,
-          shippingPaid: order.shippingPaid ?? null,
-          platformFees: order.platformFees ?? null,
-          buyerUsername: order.buyerUsername ?? null,
-          shippingAddress: order.shippingAddress ?? null,
-          status: mapChannelOrderStatus(order.status),
-          orderedAt: order.orderedAt as string, // Already serialized
-          paidAt: (order.paidAt as string | null) ?? null,
-          shippedAt: (order.shippedAt as string | null) ?? null,
-        };
+          const matchedOrder = {
+            externalOrderId: order.externalOrderId,
+            itemId: listing?.item?.id ?? null,
+            channelListingId: listing?.id ?? null,
+            quantity: lineItem.quantity,
+            salePrice: lineItem.salePrice,
+            shippingPaid: lineItem.shippingPaid,
+            platformFees: lineItem.platformFees,
+            buyerUsername: order.buyerUsername ?? null,
+            shippingAddress: order.shippingAddress ?? null,
+            status: mapChannelOrderStatus(order.status),
+            orderedAt: order.orderedAt as string, // Already serialized
+            paidAt: (order.paidAt as string | null) ?? null,
+            shippedAt: (order.shippedAt as string | null) ?? null,
+          };
+
+          if (listing) {
+            console.log(
+              `[sync-orders] Matched order ${order.externalOrderId} line (${lineItem.quantity}x) to item ${listing.item?.id}`
+            );
+          } else {
+            console.log(
+              `[sync-orders] Could not match order ${order.externalOrderId} to inventory (SKU: ${lineItem.sku}, ListingID: ${lineItem.externalListingId})`
+            );
+          }
 
-        if (listing) {
-          console.log(
-            `[sync-orders] Matched order ${order.externalOrderId} to item ${listing.item?.id}`
-          );
-        } else {
-          console.log(
-            `[sync-orders] Could not match order ${order.externalOrderId} to inventory (SKU: ${lineItem.sku}, ListingID: ${lineItem.externalListingId})`
-          );
+          matched.push(matchedOrder);
         }
-
-        matched.push(matchedOrder);
       }
 
       return matched;
     });
 
     // Step 4: Create/update order records
+    // Returns the line items that became confirmed sales during this sync
     const savedOrders = await step.run('save-orders', async () => {
       const saved: string[] = [];
+      const newlyConfirmed: Array<{
+        orderId: string;
+        itemId: string;
+        quantity: number;
+      }> = [];
 
       for (const order of matchedOrders) {
         // Skip orders that don't have a matched item (we still track them but can't link)
@@ -241,18 +282,18 @@ export const syncOrders = inngest.createFunction(
         }
 
         try {
-          // Check if order already exists
+          // Check if this line's order already exists
           const existingOrder = await db.query.orders.findFirst({
             where: and(
               eq(orders.userId, userId),
-              eq(orders.externalOrderId, order.externalOrderId)
+              eq(orders.externalOrderId, order.externalOrderId),
+              eq(orders.itemId, order.itemId)
             ),
           });
 
           const orderId = existingOrder?.id ?? crypto.randomUUID();
-          const now = new Date();
 
-          // Calculate net profit if we have cost basis
+          // Calculate net profit if we have cost basis (cost basis is per unit)
           let netProfit: number | null = null;
           if (order.itemId) {
             const item = await db.query.inventoryItems.findFirst({
@@ -263,7 +304,7 @@ export const syncOrders = inngest.createFunction(
               netProfit =
                 order.salePrice -
                 (order.platformFees ?? 0) -
-                (item.costBasis ?? 0);
+                (item.costBasis ?? 0) * order.quantity;
             }
           }
 
@@ -273,6 +314,7 @@ export const syncOrders = inngest.createFunction(
               .update(orders)
               .set({
                 status: order.status,
+                quantity: order.quantity,
                 salePrice: order.salePrice,
                 shippingPaid: order.shippingPaid,
                 platformFees: order.platformFees,
@@ -294,6 +336,7 @@ export const syncOrders = inngest.createFunction(
               channelListingId: order.channelListingId,
               channel: channel as 'ebay' | 'poshmark' | 'mercari' | 'depop',
               externalOrderId: order.externalOrderId,
+              quantity: order.quantity,
               salePrice: order.salePrice,
               shippingPaid: order.shippingPaid,
               platformFees: order.platformFees,
@@ -307,27 +350,22 @@ export const syncOrders = inngest.createFunction(
             });
 
             console.log(`[sync-orders] Created order ${order.externalOrderId}`);
+          }
 
-            // Update inventory item status to sold
-            await db
-              .update(inventoryItems)
-              .set({
-                status: 'sold',
-                soldAt: now,
-                updatedAt: now,
-              })
-              .where(eq(inventoryItems.id, order.itemId));
-
-            // Update channel listing status to sold
-            if (order.channelListingId) {
-              await db
-                .update(channelListings)
-                .set({
-                  status: 'sold',
-                  endedAt: now,
-                })
-                .where(eq(channelListings.id, order.channelListingId));
-            }
+          // "paid" or "shipped" status indicates a confirmed sale. Only the
+          // transition into it counts, and lines the order webhook already
+          // applied to stock are skipped, so units are decremented once.
+          const isConfirmed = order.status === 'paid' || order.status === 'shipped';
+          const wasConfirmed =
+            existingOrder?.status === 'paid' ||
+            existingOrder?.status === 'shipped' ||
+            existingOrder?.status === 'delivered';
+          if (isConfirmed && !wasConfirmed && !existingOrder?.stockDecrementedAt) {
+            newlyConfirmed.push({
+              orderId,
+              itemId: order.itemId,
+              quantity: order.quantity,
+            });
           }
 
           saved.push(order.externalOrderId);
@@ -339,38 +377,33 @@ export const syncOrders = inngest.createFunction(
         }
       }
 
-      return saved;
+      return { saved, newlyConfirmed };
     });
 
-    // Step 5: Trigger delist-on-sale for new paid/shipped orders
-    // "paid" or "shipped" status indicates a confirmed sale
-    const newConfirmedOrders = matchedOrders.filter(
-      (o) => (o.status === 'paid' || o.status === 'shipped') && o.itemId
-    );
-
-    for (const order of newConfirmedOrders) {
+    // Step 5: Trigger delist-on-sale for newly confirmed line items
+    // The delist function decrements quantity and only delists once sold out
+    for (const order of savedOrders.newlyConfirmed) {
       await step.sendEvent('trigger-delist', {
         name: 'autopilot/delist-on-sale',
         data: {
           userId,
-          itemId: order.itemId!,
+          itemId: order.itemId,
           soldOnChannel: channel,
-          orderId: order.externalOrderId,
+          orderId: order.orderId,
+          quantity: order.quantity,
         },
       });
     }
 
     // Step 6: Update last sync timestamp
     await step.run('update-sync-timestamp', async () => {
-      const now = new Date();
-
       await db
         .update(channelConnections)
-        .set({ lastSyncAt: now })
+        .set({ lastSyncAt: new Date(fetched.fetchedAt) })
         .where(eq(channelConnections.id, connection.id));
 
-      console.log(`[sync-orders] Updated last sync timestamp to ${now.toISOString()}`);
-      return { updated: true, timestamp: now.toISOString() };
+      console.log(`[sync-orders] Updated last sync timestamp to ${fetched.fetchedAt}`);
+      return { updated: true, timestamp: fetched.fetchedAt };
     });
 
     return {
@@ -379,8 +412,8 @@ export const syncOrders = inngest.createFunction(
       channel,
       ordersFetched: channelOrders.length,
       ordersMatched: matchedOrders.length,
-      ordersSaved: savedOrders.length,
-      delistTriggered: newConfirmedOrders.length,
+      ordersSaved: savedOrders.saved.length,
+      delistTriggered: savedOrders.newlyConfirmed.length,
     };
   }
 );
@@ -51,6 +51,9 @@ vi.mock("@/server/services/storage/r2", () => ({
 import { extractKeyFromUrl } from "../background-removal";
 import { db } from "@/server/db/client";
 
+// Usage period still running, so counters are not reset
+const NEXT_RESET = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
 // ============ UNIT TESTS ============
 
 describe("Background Removal Service", () => {
@@ -93,6 +96,7 @@ describe("Background Removal Service", () => {
       vi.mocked(db.query.users.findFirst).mockResolvedValueOnce({
         bgRemovalsThisMonth: 3,
         tier: "free",
+        periodResetAt: NEXT_RESET,
       });
 
       const result = await checkBgRemovalQuota("user-1");
@@ -106,6 +110,7 @@ describe("Background Removal Service", () => {
       vi.mocked(db.query.users.findFirst).mockResolvedValueOnce({
         bgRemovalsThisMonth: 10,
         tier: "free",
+        periodResetAt: NEXT_RESET,
       });
 
       const result = await checkBgRemovalQuota("user-1");
@@ -119,6 +124,7 @@ describe("Background Removal Service", () => {
       vi.mocked(db.query.users.findFirst).mockResolvedValueOnce({
         bgRemovalsThisMonth: 9999,
         tier: "business",
+        periodResetAt: NEXT_RESET,
       });
 
       const result = await checkBgRemovalQuota("user-1");
@@ -133,6 +139,7 @@ describe("Background Removal Service", () => {
       vi.mocked(db.query.users.findFirst).mockResolvedValueOnce({
         bgRemovalsThisMonth: 10,
         tier: "free",
+        periodResetAt: NEXT_RESET,
       });
 
       const result = await removeBackground("user-1", "image-1");
@@ -146,6 +153,7 @@ describe("Background Removal Service", () => {
       vi.mocked(db.query.users.findFirst).mockResolvedValueOnce({
         bgRemovalsThisMonth: 0,
         tier: "free",
+        periodResetAt: NEXT_RESET,
       });
       // Mock image lookup - not found
       vi.mocked(db.query.itemImages.findFirst).mockResolvedValueOnce(
@@ -163,12 +171,14 @@ describe("Background Removal Service", () => {
       vi.mocked(db.query.users.findFirst).mockResolvedValueOnce({
         bgRemovalsThisMonth: 0,
         tier: "free",
+        periodResetAt: NEXT_RESET,
       });
       // Mock image lookup - already processed
       vi.mocked(db.query.itemImages.findFirst).mockResolvedValueOnce({
         id: "image-1",
         originalUrl: "https://cdn.example.com/original.jpg",
         processedUrl: "https://cdn.example.com/processed.png",
+        item: { userId: "user-1" },
       });
 
       const result = await removeBackground("user-1", "image-1");
@@ -179,6 +189,27 @@ describe("Background Removal Service", () => {
     });
   });
 
+  describe("removeBackground ownership", () => {
+    it("should treat another user's image as not found", async () => {
+      const { removeBackground } = await import("../background-removal");
+      vi.mocked(db.query.users.findFirst).mockResolvedValueOnce({
+        bgRemovalsThisMonth: 0,
+        tier: "free",
+        periodResetAt: NEXT_RESET,
+      });
+      vi.mocked(db.query.itemImages.findFirst).mockResolvedValueOnce({
+        id: "image-1",
+        originalUrl: "https://cdn.example.com/original.jpg",
+        processedUrl: "https://cdn.example.com/processed.png",
+        item: { userId: "user-2" },
+      });
+
+      const result = await removeBackground("user-1", "image-1");
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Image not found");
+    });
+  });
+
   describe("BackgroundRemovalResult type", () => {
     it("should have correct structure for success result", () => {
       const result = {
@@ -16,6 +16,7 @@ import type {
   PriceSuggestionInput,
   PriceSuggestionResult,
 } from "../price-suggestion";
+import { calculateFees } from "@/lib/fees";
 
 // ============ MOCK DATA ============
 
@@ -178,22 +179,16 @@ describe("Price Suggestion Service", () => {
   });
 
   describe("Platform Fee Rates", () => {
-    it("should use approximately 13.13% for eBay", () => {
-      const price = 100;
-      const ebayFee = price * 0.1313;
-      expect(ebayFee).toBeCloseTo(13.13, 1);
+    it("should charge eBay's final value fee plus the per-order fee", () => {
+      expect(calculateFees({ channel: "ebay", salePrice: 100 }).total).toBe(14);
     });
 
     it("should use 20% for Poshmark", () => {
-      const price = 100;
-      const poshFee = price * 0.2;
-      expect(poshFee).toBe(20);
+      expect(calculateFees({ channel: "poshmark", salePrice: 100 }).total).toBe(20);
     });
 
-    it("should use 10% for Mercari", () => {
-      const price = 100;
-      const mercariFee = price * 0.1;
-      expect(mercariFee).toBe(10);
+    it("should use 10% plus payment processing for Mercari", () => {
+      expect(calculateFees({ channel: "mercari", salePrice: 100 }).total).toBe(13.4);
     });
   });
 
@@ -8,13 +8,14 @@
  * - remove.bg (default) - High quality, paid API
  * - Fallback: stores original as processed URL if API unavailable
  *
- * Usage tracking is enforced per user/month via the users table
- * (bgRemovalsThisMonth field).
+ * Usage tracking is enforced per user/month via the entitlement service
+ * (users.bgRemovalsThisMonth).
  */
 
 import { db } from "@/server/db/client";
 import { itemImages, users } from "@/server/db/schema";
-import { eq } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
+import { checkEntitlement } from "@/server/services/entitlements";
 import {
   r2Storage,
   generateProcessedImageKey,
@@ -53,33 +54,8 @@ export async function checkBgRemovalQuota(userId: string): Promise<{
   used: number;
   limit: number;
 }> {
-  const user = await db.query.users.findFirst({
-    where: eq(users.id, userId),
-    columns: {
-      bgRemovalsThisMonth: true,
-      tier: true,
-    },
-  });
-
-  if (!user) {
-    return { allowed: false, used: 0, limit: 0 };
-  }
-
-  // Import tier limits
-  const { PRICING_TIERS } = await import("@/lib/constants");
-  const tierConfig = PRICING_TIERS[user.tier as keyof typeof PRICING_TIERS];
-  const limit = tierConfig.bgRemovals;
-
-  // -1 means unlimited
-  if (limit === -1) {
-    return { allowed: true, used: user.bgRemovalsThisMonth, limit: -1 };
-  }
-
-  return {
-    allowed: user.bgRemovalsThisMonth < limit,
-    used: user.bgRemovalsThisMonth,
-    limit,
-  };
+  const { allowed, used, limit } = await checkEntitlement(userId, "bgRemovals");
+  return { allowed, used, limit };
 }
 
 /**
@@ -88,12 +64,7 @@ export async function checkBgRemovalQuota(userId: string): Promise<{
 export async function incrementBgRemovalUsage(userId: string): Promise<void> {
   await db
     .update(users)
-    .set({
-      bgRemovalsThisMonth: (await db.query.users.findFirst({
-        where: eq(users.id, userId),
-        columns: { bgRemovalsThisMonth: true },
-      }))!.bgRemovalsThisMonth + 1,
-    })
+    .set({ bgRemovalsThisMonth: sql`${users.bgRemovalsThisMonth} + 1` })
     .where(eq(users.id, userId));
 }
 
@@ -206,7 +177,7 @@ export function extractKeyFromUrl(url: string): string {
  * 5. Update the database record with the processed URL
  * 6. Increment usage count
  *
- * @param userId - The user's ID (for quota tracking)
+ * @param userId - The user's ID (for quota tracking and ownership)
  * @param imageId - The image record ID in the database
  * @param options - Processing options
  */
@@ -229,9 +200,11 @@ export async function removeBackground(
   // Step 2: Get image from database
   const image = await db.query.itemImages.findFirst({
     where: eq(itemImages.id, imageId),
+    with: { item: { columns: { userId: true } } },
   });
 
-  if (!image) {
+  // Images belonging to another user's item are treated as missing
+  if (!image || image.item?.userId !== userId) {
     return {
       success: false,
       error: "Image not found",
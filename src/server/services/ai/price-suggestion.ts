@@ -9,6 +9,7 @@
  */
 
 import OpenAI from "openai";
+import { calculateFees, ebayFeeCategoryFor } from "@/lib/fees";
 
 // ============ CONFIGURATION ============
 
@@ -98,14 +99,7 @@ function getOpenAIClient(): OpenAI {
   return openaiClient;
 }
 
-// ============ PLATFORM FEES ============
-
-/** Estimated platform fee percentages */
-const PLATFORM_FEES: Record<string, number> = {
-  ebay: 0.1313, // 13.13% (12.9% FVF + 0.30 insertion avg)
-  poshmark: 0.20, // 20% flat
-  mercari: 0.10, // 10%
-};
+// ============ SHIPPING ============
 
 const SHIPPING_ESTIMATES: Record<string, number> = {
   ebay: 8.0,
@@ -234,14 +228,17 @@ export async function suggestPrice(
     // Calculate estimated profit if cost basis is provided
     let estimatedProfit: PriceSuggestionResult["estimatedProfit"];
     if (input.costBasis !== undefined) {
-      const feeRate = PLATFORM_FEES[input.targetPlatform] ?? 0.13;
       const shippingEstimate = SHIPPING_ESTIMATES[input.targetPlatform] ?? 8;
-      const platformFees = recommended * feeRate;
+      const platformFees = calculateFees({
+        channel: input.targetPlatform,
+        salePrice: recommended,
+        ebayCategory: ebayFeeCategoryFor(input.category),
+      }).total;
       const net = recommended - platformFees - shippingEstimate - input.costBasis;
 
       estimatedProfit = {
         gross: recommended - input.costBasis,
-        platformFees: Math.round(platformFees * 100) / 100,
+        platformFees,
         shippingEstimate,
         net: Math.round(net * 100) / 100,
       };
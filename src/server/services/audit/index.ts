@@ -27,6 +27,8 @@ export type AuditActionType =
   | "OFFER_COUNTER"
   | "ORDER_CREATE"
   | "ORDER_SHIP"
+  | "ORDER_RETURN"
+  | "RETURN_RESTOCK"
   | "RULE_CREATE"
   | "RULE_UPDATE"
   | "RULE_DELETE"
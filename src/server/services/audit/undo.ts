@@ -7,8 +7,9 @@
 
 import { db } from "@/server/db/client";
 import { inventoryItems, channelListings } from "@/server/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, ne } from "drizzle-orm";
 import { auditService, type AuditLogEntry, UNDO_DEADLINES } from "./index";
+import { getEbayAdapter } from "@/server/services/channels/ebay/adapter";
 
 // ============ TYPES ============
 
@@ -352,6 +353,11 @@ export const undoService = {
       };
     }
 
+    // Autopilot relists replaced the listing with a new one; end that
+    if (typeof entry.afterState?.listingId === "string") {
+      return this.undoReplacementRelist(entry, entry.afterState.listingId);
+    }
+
     const previousStatus = beforeState.status as string | undefined;
 
     // Restore to the previous status (likely "ended" or "archived")
@@ -388,6 +394,76 @@ export const undoService = {
     return { success: true };
   },
 
+  /**
+   * Undo a relist that published a replacement listing. The old listing
+   * can't be revived on the channel, so the replacement is ended and the
+   * item goes back to draft unless it's still listed elsewhere.
+   */
+  async undoReplacementRelist(entry: AuditLogEntry, listingId: string): Promise<UndoResult> {
+    const itemId = entry.itemId!;
+
+    const listing = await db.query.channelListings.findFirst({
+      where: and(eq(channelListings.id, listingId), eq(channelListings.itemId, itemId)),
+    });
+
+    if (!listing) {
+      return {
+        success: false,
+        error: "Relisted listing not found",
+      };
+    }
+
+    if (listing.status === "sold") {
+      return {
+        success: false,
+        error: "Cannot undo relist: the new listing has sold",
+      };
+    }
+
+    if (listing.status === "active" && listing.channel === "ebay" && listing.externalId) {
+      const result = await getEbayAdapter().endListing(entry.userId, listing.externalId);
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error ?? "Failed to end the relisted listing on eBay",
+        };
+      }
+    }
+
+    const now = new Date();
+    await db
+      .update(channelListings)
+      .set({ status: "ended", endedAt: now })
+      .where(eq(channelListings.id, listingId));
+
+    const otherActive = await db.query.channelListings.findFirst({
+      where: and(
+        eq(channelListings.itemId, itemId),
+        eq(channelListings.status, "active"),
+        ne(channelListings.id, listingId)
+      ),
+      columns: { id: true },
+    });
+
+    const previousListedAt = entry.beforeState?.listedAt as string | null | undefined;
+    await db
+      .update(inventoryItems)
+      .set({
+        ...(otherActive ? {} : { status: "draft" as const }),
+        listedAt: previousListedAt ? new Date(previousListedAt) : null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(inventoryItems.id, itemId),
+          eq(inventoryItems.userId, entry.userId),
+          eq(inventoryItems.status, "active")
+        )
+      );
+
+    return { success: true };
+  },
+
   /**
    * Undo a general item update
    */
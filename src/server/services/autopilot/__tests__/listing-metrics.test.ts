@@ -0,0 +1,156 @@
+/**
+ * Listing Metrics Service Tests
+ *
+ * Tests for pulling eBay traffic into listing_metrics and summarizing
+ * recent engagement.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { selectResults, insertValues, mockGetListingMetrics } = vi.hoisted(() => ({
+  selectResults: [] as unknown[][],
+  insertValues: vi.fn(),
+  mockGetListingMetrics: vi.fn(),
+}));
+
+// Mock the database: each select chain resolves to the next queued result
+vi.mock("@/server/db/client", () => {
+  const nextResult = () => Promise.resolve(selectResults.shift() ?? []);
+  const chain = {
+    from: vi.fn(() => chain),
+    innerJoin: vi.fn(() => chain),
+    where: vi.fn(() => chain),
+    orderBy: vi.fn(nextResult),
+    groupBy: vi.fn(nextResult),
+    // Awaiting the chain directly also resolves
+    then: (resolve: (value: unknown[]) => void) => nextResult().then(resolve),
+  };
+
+  return {
+    db: {
+      select: vi.fn(() => chain),
+      insert: vi.fn(() => ({
+        values: (values: unknown) => {
+          insertValues(values);
+          return { onConflictDoUpdate: vi.fn().mockResolvedValue(undefined) };
+        },
+      })),
+    },
+  };
+});
+
+vi.mock("@/server/services/channels/ebay", () => ({
+  getEbayAdapter: () => ({ getListingMetrics: mockGetListingMetrics }),
+}));
+
+// Import after mocking
+import {
+  syncListingMetrics,
+  getListingEngagement,
+  countRecentOffers,
+  getLatestMetricsDate,
+} from "../listing-metrics";
+
+describe("Listing Metrics Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    selectResults.length = 0;
+  });
+
+  describe("getLatestMetricsDate", () => {
+    it("should return yesterday as YYYY-MM-DD", () => {
+      expect(getLatestMetricsDate(new Date("2024-01-15T03:00:00Z"))).toBe("2024-01-14");
+    });
+  });
+
+  describe("syncListingMetrics", () => {
+    it("should record metrics against local listing IDs", async () => {
+      selectResults.push([
+        { id: "listing-1", externalId: "111" },
+        { id: "listing-2", externalId: "222" },
+      ]);
+      mockGetListingMetrics.mockResolvedValueOnce({
+        success: true,
+        metrics: [
+          { listingId: "111", views: 12, impressions: 300, watchers: 4 },
+          { listingId: "222", views: 0, impressions: null, watchers: 0 },
+        ],
+      });
+
+      const result = await syncListingMetrics("user-1", "2024-01-14");
+
+      expect(result).toEqual({ success: true, listingsUpdated: 2 });
+      expect(mockGetListingMetrics).toHaveBeenCalledWith("user-1", ["111", "222"], "2024-01-14");
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          channelListingId: "listing-1",
+          date: "2024-01-14",
+          views: 12,
+          watchers: 4,
+        })
+      );
+    });
+
+    it("should not call eBay without active listings", async () => {
+      selectResults.push([]);
+
+      const result = await syncListingMetrics("user-1", "2024-01-14");
+
+      expect(result).toEqual({ success: true, listingsUpdated: 0 });
+      expect(mockGetListingMetrics).not.toHaveBeenCalled();
+    });
+
+    it("should surface adapter errors without recording", async () => {
+      selectResults.push([{ id: "listing-1", externalId: "111" }]);
+      mockGetListingMetrics.mockResolvedValueOnce({
+        success: false,
+        metrics: [],
+        error: "Insufficient permissions",
+      });
+
+      const result = await syncListingMetrics("user-1", "2024-01-14");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Insufficient permissions");
+      expect(insertValues).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getListingEngagement", () => {
+    it("should sum views and keep the latest watcher count", async () => {
+      selectResults.push([
+        { channelListingId: "listing-1", date: "2024-01-12", views: 5, impressions: 100, watchers: 1 },
+        { channelListingId: "listing-1", date: "2024-01-13", views: 7, impressions: null, watchers: 3 },
+        { channelListingId: "listing-2", date: "2024-01-13", views: 0, impressions: null, watchers: 0 },
+      ]);
+
+      const engagement = await getListingEngagement(["listing-1", "listing-2", "listing-3"]);
+
+      expect(engagement.get("listing-1")).toEqual({
+        views: 12,
+        impressions: 100,
+        watchers: 3,
+        days: 2,
+      });
+      expect(engagement.get("listing-2")?.impressions).toBeNull();
+      expect(engagement.has("listing-3")).toBe(false);
+    });
+
+    it("should skip the query for no listings", async () => {
+      const engagement = await getListingEngagement([]);
+      expect(engagement.size).toBe(0);
+    });
+  });
+
+  describe("countRecentOffers", () => {
+    it("should map offer counts by listing", async () => {
+      selectResults.push([{ channelListingId: "listing-1", count: 2 }]);
+
+      const counts = await countRecentOffers(["listing-1", "listing-2"]);
+
+      expect(counts.get("listing-1")).toBe(2);
+      expect(counts.has("listing-2")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Stale Listing Relist Tests
+ *
+ * Relists a seeded eBay listing against the real schema with the eBay
+ * adapter mocked, then reverses it through the undo service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockAdapter, notifyUser } = vi.hoisted(() => ({
+  mockAdapter: {
+    relist: vi.fn(),
+    endListing: vi.fn(),
+  },
+  notifyUser: vi.fn(),
+}));
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+vi.mock("@/server/services/channels/ebay/adapter", () => ({
+  getEbayAdapter: () => mockAdapter,
+}));
+
+vi.mock("@/server/services/notifications", () => ({ notifyUser }));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import {
+  users,
+  inventoryItems,
+  channelListings,
+  autopilotActions,
+  auditLog,
+  rateLimitUsage,
+} from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { RATE_LIMITS } from "@/lib/constants";
+import { checkRateLimit, getRateLimitWindow } from "@/server/services/rate-limits";
+import { undoService } from "@/server/services/audit/undo";
+import { relistStaleListing } from "../relist";
+
+const USER = "user-1";
+const now = new Date();
+const listedAt = new Date(now.getTime() - 70 * 24 * 60 * 60 * 1000);
+const options = { reason: "Stale for 70 days", daysListed: 70 };
+
+describe("relistStaleListing", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    sqlite.exec(`
+      DELETE FROM audit_log;
+      DELETE FROM autopilot_actions;
+      DELETE FROM rate_limit_usage;
+      DELETE FROM channel_listings;
+      DELETE FROM inventory_items;
+      DELETE FROM users;
+    `);
+
+    await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+    await db.insert(inventoryItems).values({
+      id: "item-1",
+      userId: USER,
+      sku: "SKU-1",
+      title: "Stale jacket",
+      description: "Test item",
+      condition: "good",
+      askingPrice: 80,
+      status: "active",
+      listedAt,
+      createdAt: listedAt,
+      updatedAt: listedAt,
+    });
+    await db.insert(channelListings).values({
+      id: "listing-1",
+      itemId: "item-1",
+      channel: "ebay",
+      externalId: "111",
+      externalUrl: "https://www.ebay.com/itm/111",
+      price: 80,
+      status: "active",
+      createdAt: listedAt,
+      publishedAt: listedAt,
+    });
+
+    mockAdapter.relist.mockResolvedValue({
+      success: true,
+      externalId: "222",
+      externalUrl: "https://www.ebay.com/itm/222",
+    });
+    mockAdapter.endListing.mockResolvedValue({ success: true });
+  });
+
+  it("should end the old listing and link a fresh one to it", async () => {
+    const result = await relistStaleListing(USER, "listing-1", options, now);
+
+    expect(result).toMatchObject({ success: true, externalId: "222" });
+    expect(mockAdapter.relist).toHaveBeenCalledWith(USER, "111");
+
+    const old = await db.query.channelListings.findFirst({
+      where: eq(channelListings.id, "listing-1"),
+    });
+    expect(old).toMatchObject({ status: "ended", statusMessage: "Relisted as 222" });
+
+    const fresh = await db.query.channelListings.findFirst({
+      where: eq(channelListings.id, result.listingId!),
+    });
+    expect(fresh).toMatchObject({
+      status: "active",
+      externalId: "222",
+      externalUrl: "https://www.ebay.com/itm/222",
+      price: 80,
+      relistedFromId: "listing-1",
+    });
+
+    const item = await db.query.inventoryItems.findFirst({
+      where: eq(inventoryItems.id, "item-1"),
+    });
+    expect(item.listedAt.getTime()).toBe(Math.floor(now.getTime() / 1000) * 1000);
+  });
+
+  it("should record a reversible RELIST action and LISTING_RELIST audit entry", async () => {
+    const result = await relistStaleListing(USER, "listing-1", options, now);
+
+    const action = await db.query.autopilotActions.findFirst({
+      where: eq(autopilotActions.id, result.actionId!),
+    });
+    expect(action).toMatchObject({ actionType: "RELIST", status: "executed", reversible: true });
+
+    const [entry] = await db.select().from(auditLog);
+    expect(entry).toMatchObject({
+      actionType: "LISTING_RELIST",
+      actionId: result.actionId,
+      source: "AUTOPILOT",
+      reversible: true,
+    });
+    expect(entry.beforeState).toMatchObject({ listingId: "listing-1", externalId: "111" });
+    expect(entry.afterState).toMatchObject({ listingId: result.listingId, externalId: "222" });
+  });
+
+  it("should draw from the relists rate limit", async () => {
+    const { windowStart, resetsAt } = getRateLimitWindow();
+    await db.insert(rateLimitUsage).values({
+      id: "usage-1",
+      userId: USER,
+      bucket: "relists",
+      windowStart,
+      resetsAt,
+      count: RATE_LIMITS.relists,
+      updatedAt: now,
+    });
+
+    const result = await relistStaleListing(USER, "listing-1", options, now);
+
+    expect(result).toMatchObject({ success: false, rateLimitReached: true });
+    expect(mockAdapter.relist).not.toHaveBeenCalled();
+  });
+
+  it("should leave the listing alone and record a failed action when eBay refuses", async () => {
+    mockAdapter.relist.mockResolvedValue({
+      success: false,
+      error: "No offer found for listing",
+      errorCode: "OFFER_NOT_FOUND",
+    });
+
+    const result = await relistStaleListing(USER, "listing-1", options, now);
+
+    expect(result.success).toBe(false);
+    const listings = await db.select().from(channelListings);
+    expect(listings).toHaveLength(1);
+    expect(listings[0].status).toBe("active");
+
+    const action = await db.query.autopilotActions.findFirst({
+      where: eq(autopilotActions.id, result.actionId!),
+    });
+    expect(action).toMatchObject({ status: "failed", errorMessage: "No offer found for listing" });
+    expect(await db.select().from(auditLog)).toHaveLength(0);
+    expect((await checkRateLimit(USER, "relists")).used).toBe(0);
+    expect(notifyUser).not.toHaveBeenCalled();
+  });
+
+  it("should end the local listing and notify when eBay ended it without a replacement", async () => {
+    mockAdapter.relist.mockResolvedValue({
+      success: false,
+      error: "Listing 111 was ended but its replacement could not be published: Invalid category",
+      errorCode: "RELIST_INCOMPLETE",
+    });
+
+    const result = await relistStaleListing(USER, "listing-1", options, now);
+
+    expect(result.success).toBe(false);
+    const listings = await db.select().from(channelListings);
+    expect(listings).toHaveLength(1);
+    expect(listings[0].status).toBe("ended");
+    expect(listings[0].statusMessage).toContain("Invalid category");
+    expect(notifyUser).toHaveBeenCalledWith(
+      USER,
+      expect.objectContaining({ type: "ACTION_REQUIRED", itemId: "item-1" })
+    );
+    expect((await checkRateLimit(USER, "relists")).used).toBe(0);
+  });
+
+  it("should refuse listings that aren't active on eBay", async () => {
+    await db
+      .update(channelListings)
+      .set({ status: "ended" })
+      .where(eq(channelListings.id, "listing-1"));
+
+    const result = await relistStaleListing(USER, "listing-1", options, now);
+
+    expect(result.success).toBe(false);
+    expect(mockAdapter.relist).not.toHaveBeenCalled();
+  });
+
+  it("should refuse another user's listing", async () => {
+    const result = await relistStaleListing("user-2", "listing-1", options, now);
+
+    expect(result).toEqual({ success: false, error: "Listing not found" });
+  });
+
+  describe("undoRelist", () => {
+    it("should end the replacement listing and return the item to draft", async () => {
+      const result = await relistStaleListing(USER, "listing-1", options, now);
+      const [entry] = await db.select().from(auditLog);
+
+      const undo = await undoService.undo(entry.id, USER);
+
+      expect(undo.success).toBe(true);
+      expect(mockAdapter.endListing).toHaveBeenCalledWith(USER, "222");
+
+      const fresh = await db.query.channelListings.findFirst({
+        where: eq(channelListings.id, result.listingId!),
+      });
+      expect(fresh.status).toBe("ended");
+
+      const item = await db.query.inventoryItems.findFirst({
+        where: eq(inventoryItems.id, "item-1"),
+      });
+      expect(item.status).toBe("draft");
+      expect(item.listedAt.getTime()).toBe(Math.floor(listedAt.getTime() / 1000) * 1000);
+    });
+
+    it("should fail without local changes when eBay won't end the listing", async () => {
+      const result = await relistStaleListing(USER, "listing-1", options, now);
+      const [entry] = await db.select().from(auditLog);
+      mockAdapter.endListing.mockResolvedValue({ success: false, error: "eBay unavailable" });
+
+      const undo = await undoService.undo(entry.id, USER);
+
+      expect(undo).toEqual({ success: false, error: "eBay unavailable" });
+      const fresh = await db.query.channelListings.findFirst({
+        where: eq(channelListings.id, result.listingId!),
+      });
+      expect(fresh.status).toBe("active");
+    });
+  });
+});
@@ -1,19 +1,28 @@
 /**
  * Repricing Service Tests
  *
- * Tests for the time decay repricing strategy and guardrails.
+ * Tests for the repricing strategies and guardrails.
  */
 
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
   evaluateReprice,
   calculateNewPrice,
   calculateTimeDecayDrop,
+  calculatePerformanceDrop,
+  calculateCompetitiveDrop,
+  loadComparableStats,
   checkRepriceLimit,
   incrementRepriceCount,
+  releaseRepriceCount,
   type RepricingContext,
   type RepriceRules,
 } from "../repricing";
+import {
+  FixtureComparablesProvider,
+  type ComparableStats,
+  type PriceStats,
+} from "@/server/services/comparables";
 
 // Mock the database
 vi.mock("@/server/db/client", () => ({
@@ -31,6 +40,28 @@ vi.mock("@/server/db/client", () => ({
   },
 }));
 
+// Mock the shared rate limit service
+const { mockCheckRateLimit, mockConsumeRateLimit, mockReleaseRateLimit } = vi.hoisted(() => {
+  const status = (used: number) => ({
+    allowed: used < 100,
+    limit: 100,
+    used,
+    remaining: 100 - used,
+    resetsAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  return {
+    mockCheckRateLimit: vi.fn(() => Promise.resolve(status(0))),
+    mockConsumeRateLimit: vi.fn(() => Promise.resolve(status(1))),
+    mockReleaseRateLimit: vi.fn(() => Promise.resolve()),
+  };
+});
+
+vi.mock("@/server/services/rate-limits", () => ({
+  checkRateLimit: mockCheckRateLimit,
+  consumeRateLimit: mockConsumeRateLimit,
+  releaseRateLimit: mockReleaseRateLimit,
+}));
+
 describe("Repricing Service", () => {
   // ============ CALCULATE TIME DECAY DROP ============
 
@@ -85,6 +116,164 @@ describe("Repricing Service", () => {
     });
   });
 
+  // ============ CALCULATE PERFORMANCE DROP ============
+
+  describe("calculatePerformanceDrop", () => {
+    it("should hold price when enough buyers are watching", () => {
+      const result = calculatePerformanceDrop({ daysListed: 60, views: 50, watchers: 3, offers: 0 });
+      expect(result.dropPercent).toBe(0);
+      expect(result.dropReason).toContain("3 watchers");
+    });
+
+    it("should hold price when offers came in recently", () => {
+      const result = calculatePerformanceDrop({ daysListed: 60, views: 0, watchers: 0, offers: 1 });
+      expect(result.dropPercent).toBe(0);
+      expect(result.dropReason).toContain("1 offer in the last 7 days");
+    });
+
+    it("should follow time decay when traffic data is missing", () => {
+      const result = calculatePerformanceDrop({ daysListed: 30, offers: 0 });
+      expect(result.dropPercent).toBe(calculateTimeDecayDrop(30).dropPercent);
+      expect(result.dropReason).toContain("no traffic data yet");
+    });
+
+    it("should not drop during the initial listing period", () => {
+      const result = calculatePerformanceDrop({ daysListed: 10, views: 0, watchers: 0, offers: 0 });
+      expect(result.dropPercent).toBe(0);
+    });
+
+    it("should drop every week for low-engagement listings", () => {
+      // 15 days after the initial period: third weekly tier vs second 15-day tier
+      const result = calculatePerformanceDrop({ daysListed: 29, views: 3, watchers: 0, offers: 0 });
+      expect(result.dropPercent).toBe(15);
+      expect(calculateTimeDecayDrop(29).dropPercent).toBe(10);
+    });
+
+    it("should follow time decay for listings with healthy traffic", () => {
+      const result = calculatePerformanceDrop({ daysListed: 29, views: 70, watchers: 1, offers: 0 });
+      expect(result.dropPercent).toBe(10);
+      expect(result.dropReason).toContain("70 views");
+    });
+
+    it("should cap low-engagement drops at 50%", () => {
+      const result = calculatePerformanceDrop({ daysListed: 400, views: 0, watchers: 0, offers: 0 });
+      expect(result.dropPercent).toBe(50);
+    });
+  });
+
+  // ============ COMPETITIVE DROP ============
+
+  describe("calculateCompetitiveDrop", () => {
+    function priceStats(count: number, median: number, p25: number = median): PriceStats {
+      return { count, min: p25, max: median, median, p25, p75: median };
+    }
+
+    function comps(active: PriceStats | null, sold: PriceStats | null): ComparableStats {
+      return { active, sold };
+    }
+
+    it("should follow time decay without enough comparables", () => {
+      const result = calculateCompetitiveDrop({
+        daysListed: 30,
+        currentPrice: 100,
+        comparables: comps(priceStats(1, 50), priceStats(1, 50)),
+      });
+      expect(result.dropPercent).toBe(calculateTimeDecayDrop(30).dropPercent);
+      expect(result.dropReason).toContain("not enough comparables");
+    });
+
+    it("should not drop during the initial listing period", () => {
+      const result = calculateCompetitiveDrop({
+        daysListed: 10,
+        currentPrice: 100,
+        comparables: comps(null, priceStats(5, 60)),
+      });
+      expect(result.dropPercent).toBe(0);
+    });
+
+    it("should price to the sold median when there are enough sold comps", () => {
+      const result = calculateCompetitiveDrop({
+        daysListed: 30,
+        currentPrice: 100,
+        comparables: comps(priceStats(10, 95, 85), priceStats(5, 80)),
+      });
+      expect(result.marketPrice).toBe(80);
+      expect(result.dropPercent).toBe(20);
+      expect(result.dropReason).toContain("median of 5 sold comparables");
+    });
+
+    it("should price to the 25th percentile of active comps otherwise", () => {
+      const result = calculateCompetitiveDrop({
+        daysListed: 30,
+        currentPrice: 100,
+        comparables: comps(priceStats(8, 95, 90), priceStats(2, 60)),
+      });
+      expect(result.marketPrice).toBe(90);
+      expect(result.dropPercent).toBe(10);
+      expect(result.dropReason).toContain("25th percentile of 8 active comparables");
+    });
+
+    it("should hold when already priced at or below market", () => {
+      const result = calculateCompetitiveDrop({
+        daysListed: 60,
+        currentPrice: 75,
+        comparables: comps(null, priceStats(4, 80)),
+      });
+      expect(result.dropPercent).toBe(0);
+      expect(result.dropReason).toContain("at or below market");
+    });
+  });
+
+  // ============ LOAD COMPARABLES ============
+
+  describe("loadComparableStats", () => {
+    const provider = new FixtureComparablesProvider([
+      { id: "c1", title: "Nike Air Max 90 Sneakers", price: 60, status: "sold" },
+      { id: "c2", title: "Nike Air Max 90 White", price: 70, status: "sold" },
+      { id: "c3", title: "Nike Air Max 90 Size 10", price: 80, status: "active" },
+      { id: "ext-123", title: "Nike Air Max 90 Mine", price: 100, status: "active" },
+      { id: "c4", title: "Levi's 501 Jeans", price: 40, status: "sold" },
+    ]);
+
+    it("should summarize comparables per listing, excluding the listing itself", async () => {
+      const stats = await loadComparableStats("user-1", [
+        {
+          item: { title: "Nike Air Max 90", category: null, condition: "good" },
+          listing: { id: "listing-1", externalId: "ext-123" },
+        },
+      ], provider);
+
+      expect(stats["listing-1"].sold?.count).toBe(2);
+      expect(stats["listing-1"].sold?.median).toBe(65);
+      expect(stats["listing-1"].active?.count).toBe(1);
+      expect(stats["listing-1"].active?.median).toBe(80);
+    });
+
+    it("should leave out listings whose search fails", async () => {
+      const failing = {
+        name: "failing",
+        search: vi.fn().mockResolvedValue({ success: false, comparables: [], error: "boom" }),
+      };
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const stats = await loadComparableStats("user-1", [
+        {
+          item: { title: "Nike Air Max 90", category: "Shoes" },
+          listing: { id: "listing-1", externalId: null },
+        },
+      ], failing);
+
+      expect(stats).toEqual({});
+      expect(failing.search).toHaveBeenCalledWith("user-1", {
+        title: "Nike Air Max 90",
+        categoryId: "Shoes",
+        condition: undefined,
+        excludeIds: [],
+      });
+      errorSpy.mockRestore();
+    });
+  });
+
   // ============ CALCULATE NEW PRICE ============
 
   describe("calculateNewPrice", () => {
@@ -122,41 +311,42 @@ describe("Repricing Service", () => {
   // ============ RATE LIMITING ============
 
   describe("checkRepriceLimit", () => {
-    beforeEach(() => {
-      // Clear the rate limit map by checking with a fresh user each test
-    });
-
-    it("should allow repricing for a new user", () => {
-      const userId = `test-user-${Date.now()}-${Math.random()}`;
-      const result = checkRepriceLimit(userId);
+    it("should read the reprices bucket", async () => {
+      const result = await checkRepriceLimit("test-user");
 
+      expect(mockCheckRateLimit).toHaveBeenCalledWith("test-user", "reprices");
       expect(result.allowed).toBe(true);
       expect(result.remaining).toBe(100);
     });
+  });
 
-    it("should track increments correctly", () => {
-      const userId = `test-user-increment-${Date.now()}`;
-
-      // Initial check
-      let result = checkRepriceLimit(userId);
-      expect(result.remaining).toBe(100);
+  describe("incrementRepriceCount", () => {
+    it("should atomically consume one reprice", async () => {
+      const result = await incrementRepriceCount("test-user");
 
-      // Increment once
-      incrementRepriceCount(userId);
-      result = checkRepriceLimit(userId);
+      expect(mockConsumeRateLimit).toHaveBeenCalledWith("test-user", "reprices");
       expect(result.remaining).toBe(99);
+    });
+
+    it("should report when the daily limit is reached", async () => {
+      mockConsumeRateLimit.mockResolvedValueOnce({
+        allowed: false,
+        limit: 100,
+        used: 100,
+        remaining: 0,
+        resetsAt: new Date(),
+      });
 
-      // Increment again
-      incrementRepriceCount(userId);
-      result = checkRepriceLimit(userId);
-      expect(result.remaining).toBe(98);
+      const result = await incrementRepriceCount("test-user");
+      expect(result.allowed).toBe(false);
     });
+  });
 
-    it("should have a reset time in the future", () => {
-      const userId = `test-user-reset-${Date.now()}`;
-      const result = checkRepriceLimit(userId);
+  describe("releaseRepriceCount", () => {
+    it("should give the reprice back to the daily limit", async () => {
+      await releaseRepriceCount("test-user");
 
-      expect(result.resetsAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockReleaseRateLimit).toHaveBeenCalledWith("test-user", "reprices");
     });
   });
 
@@ -285,19 +475,50 @@ describe("Repricing Service", () => {
       expect(result.confidenceLevel).toBe("HIGH");
     });
 
-    it("should handle performance strategy fallback", async () => {
+    it("should fall back to time decay without traffic data", async () => {
       const rules: RepriceRules = {
         ...defaultRules,
         strategy: "performance",
       };
-      const context = createContext({ daysListed: 30 });
+      const context = createContext({ daysListed: 22 });
       const result = await evaluateReprice(context, rules);
 
-      // Should still work (falls back to time decay)
-      expect(result.reason).toContain("performance strategy pending");
+      expect(result.reason).toContain("no traffic data yet");
+      expect(result.newPrice).toBe(95);
+    });
+
+    it("should hold price for watched listings with the performance strategy", async () => {
+      const rules: RepriceRules = {
+        ...defaultRules,
+        strategy: "performance",
+      };
+      const context = createContext({ daysListed: 60, views: 40, watchers: 5 });
+      const result = await evaluateReprice(context, rules);
+
+      expect(result.shouldReprice).toBe(false);
+      expect(result.reason).toContain("5 watchers");
+    });
+
+    it("should drop low-engagement listings faster with the performance strategy", async () => {
+      const rules: RepriceRules = {
+        ...defaultRules,
+        strategy: "performance",
+      };
+      const timeDecay = await evaluateReprice(
+        createContext({ daysListed: 22 }),
+        defaultRules
+      );
+      const performance = await evaluateReprice(
+        createContext({ daysListed: 22, views: 2, watchers: 0 }),
+        rules
+      );
+
+      expect(timeDecay.newPrice).toBe(95);
+      expect(performance.newPrice).toBe(90);
+      expect(performance.reason).toContain("Low engagement");
     });
 
-    it("should handle competitive strategy fallback", async () => {
+    it("should fall back to time decay without comparables", async () => {
       const rules: RepriceRules = {
         ...defaultRules,
         strategy: "competitive",
@@ -305,8 +526,23 @@ describe("Repricing Service", () => {
       const context = createContext({ daysListed: 30 });
       const result = await evaluateReprice(context, rules);
 
-      // Should still work (falls back to time decay)
-      expect(result.reason).toContain("competitive strategy pending");
+      expect(result.reason).toContain("not enough comparables");
+    });
+
+    it("should price toward comparables within the daily drop cap", async () => {
+      const rules: RepriceRules = {
+        ...defaultRules,
+        strategy: "competitive",
+      };
+      const sold = { count: 6, min: 60, max: 90, median: 75, p25: 70, p75: 80 };
+      const result = await evaluateReprice(
+        createContext({ daysListed: 30, comparables: { active: null, sold } }),
+        rules
+      );
+
+      // 25% below market, capped at the 10% daily drop
+      expect(result.shouldReprice).toBe(true);
+      expect(result.newPrice).toBe(90);
     });
   });
 
@@ -0,0 +1,241 @@
+/**
+ * Autopilot Rule Scope Tests
+ *
+ * Precedence between global, price band, category, tag and item rules,
+ * plus loading the governing rule for a seeded item.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import { users, inventoryItems, autopilotRules, type OfferRuleConfig } from "@/server/db/schema";
+import {
+  ruleMatches,
+  pickGoverningRule,
+  describeRuleScope,
+  findGoverningRule,
+  type RuleScope,
+  type ScopedRule,
+  type RuleTarget,
+} from "../rule-scopes";
+import { loadOfferRules, evaluateOffer, DEFAULT_OFFER_RULE_CONFIG } from "../engine";
+
+const USER = "user-1";
+const now = new Date("2026-10-01T12:00:00.000Z");
+
+const target: RuleTarget = {
+  itemId: "item-1",
+  category: "Jackets",
+  tags: ["vintage", "designer"],
+  price: 120,
+};
+
+function rule(
+  id: string,
+  scope: Partial<RuleScope>,
+  updatedAt: Date = now
+): ScopedRule<{ id: string }> {
+  return {
+    id,
+    scopeType: "global",
+    scopeValue: null,
+    priceMin: null,
+    priceMax: null,
+    config: { id },
+    enabled: true,
+    updatedAt,
+    ...scope,
+  };
+}
+
+const offerConfig = (autoAcceptThreshold: number): OfferRuleConfig => ({
+  ...DEFAULT_OFFER_RULE_CONFIG,
+  autoAcceptThreshold,
+});
+
+describe("Autopilot Rule Scopes", () => {
+  describe("ruleMatches", () => {
+    it("should match categories and tags case-insensitively", () => {
+      expect(ruleMatches(rule("a", { scopeType: "category", scopeValue: "jackets" }), target)).toBe(true);
+      expect(ruleMatches(rule("b", { scopeType: "tag", scopeValue: "Vintage" }), target)).toBe(true);
+      expect(ruleMatches(rule("c", { scopeType: "tag", scopeValue: "sneakers" }), target)).toBe(false);
+    });
+
+    it("should treat price band bounds as inclusive and open when null", () => {
+      expect(ruleMatches(rule("a", { scopeType: "price_band", priceMin: 120, priceMax: 200 }), target)).toBe(true);
+      expect(ruleMatches(rule("b", { scopeType: "price_band", priceMin: 150 }), target)).toBe(false);
+      expect(ruleMatches(rule("c", { scopeType: "price_band", priceMax: 120 }), target)).toBe(true);
+    });
+
+    it("should only match item rules for that item", () => {
+      expect(ruleMatches(rule("a", { scopeType: "item", scopeValue: "item-1" }), target)).toBe(true);
+      expect(ruleMatches(rule("b", { scopeType: "item", scopeValue: "item-2" }), target)).toBe(false);
+    });
+  });
+
+  describe("pickGoverningRule", () => {
+    const rules = [
+      rule("global", {}),
+      rule("band", { scopeType: "price_band", priceMin: 100, priceMax: 200 }),
+      rule("category", { scopeType: "category", scopeValue: "Jackets" }),
+      rule("tag", { scopeType: "tag", scopeValue: "vintage" }),
+      rule("item", { scopeType: "item", scopeValue: "item-1" }),
+    ];
+
+    it("should pick the most specific matching rule", () => {
+      expect(pickGoverningRule(rules, target)?.id).toBe("item");
+      expect(pickGoverningRule(rules.slice(0, 4), target)?.id).toBe("tag");
+      expect(pickGoverningRule(rules.slice(0, 3), target)?.id).toBe("category");
+      expect(pickGoverningRule(rules.slice(0, 2), target)?.id).toBe("band");
+      expect(pickGoverningRule(rules.slice(0, 1), target)?.id).toBe("global");
+    });
+
+    it("should return null when no rule covers the item", () => {
+      expect(pickGoverningRule([rules[2]], { ...target, category: "Shoes" })).toBeNull();
+    });
+
+    it("should prefer the narrower price band", () => {
+      const bands = [
+        rule("wide", { scopeType: "price_band", priceMin: 0 }),
+        rule("narrow", { scopeType: "price_band", priceMin: 100, priceMax: 150 }),
+      ];
+
+      expect(pickGoverningRule(bands, target)?.id).toBe("narrow");
+    });
+
+    it("should prefer the most recently updated rule at the same level", () => {
+      const tags = [
+        rule("older", { scopeType: "tag", scopeValue: "vintage" }, new Date("2026-09-01")),
+        rule("newer", { scopeType: "tag", scopeValue: "designer" }, new Date("2026-09-15")),
+      ];
+
+      expect(pickGoverningRule(tags, target)?.id).toBe("newer");
+    });
+  });
+
+  describe("describeRuleScope", () => {
+    it("should describe each scope", () => {
+      expect(describeRuleScope(rule("a", {}))).toBe("All items");
+      expect(describeRuleScope(rule("b", { scopeType: "tag", scopeValue: "vintage" }))).toBe("Tag: vintage");
+      expect(describeRuleScope(rule("c", { scopeType: "price_band", priceMin: 50, priceMax: 100 }))).toBe(
+        "Priced $50–$100"
+      );
+      expect(describeRuleScope(rule("d", { scopeType: "price_band", priceMin: 50 }))).toBe("Priced $50+");
+    });
+  });
+
+  describe("loading", () => {
+    beforeEach(async () => {
+      sqlite.exec(`
+        DELETE FROM autopilot_rules;
+        DELETE FROM inventory_items;
+        DELETE FROM users;
+      `);
+      await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+      await db.insert(inventoryItems).values({
+        id: "item-1",
+        userId: USER,
+        sku: "SKU-1",
+        title: "Vintage jacket",
+        description: "Test item",
+        condition: "good",
+        askingPrice: 120,
+        suggestedCategory: "Jackets",
+        tags: ["vintage"],
+        status: "active",
+        createdAt: now,
+        updatedAt: now,
+      });
+      await db.insert(autopilotRules).values([
+        {
+          id: "rule-global",
+          userId: USER,
+          ruleType: "offer",
+          config: offerConfig(0.9),
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: "rule-category",
+          userId: USER,
+          ruleType: "offer",
+          scopeType: "category",
+          scopeValue: "Jackets",
+          config: offerConfig(0.85),
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]);
+    });
+
+    it("should find the rule governing an item", async () => {
+      const governing = await findGoverningRule(USER, "offer", "item-1");
+
+      expect(governing?.id).toBe("rule-category");
+    });
+
+    it("should return the global rule when no item is given", async () => {
+      const governing = await findGoverningRule(USER, "offer");
+
+      expect(governing?.id).toBe("rule-global");
+    });
+
+    it("should let a disabled override turn autopilot off for its scope", async () => {
+      await db.insert(autopilotRules).values({
+        id: "rule-item",
+        userId: USER,
+        ruleType: "offer",
+        scopeType: "item",
+        scopeValue: "item-1",
+        config: offerConfig(0.7),
+        enabled: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const governing = await findGoverningRule(USER, "offer", "item-1");
+      expect(governing).toMatchObject({ id: "rule-item", enabled: false });
+      expect(await loadOfferRules(USER, "item-1")).toBeNull();
+
+      const evaluation = await evaluateOffer({
+        userId: USER,
+        itemId: "item-1",
+        offerId: "offer-1",
+        offerAmount: 115,
+        askingPrice: 120,
+        itemValue: 120,
+      });
+      expect(evaluation).toMatchObject({
+        decision: "MANUAL_REVIEW",
+        reason: "Offer autopilot is turned off for this item",
+        autoExecute: false,
+      });
+    });
+
+    it("should load the most specific offer rule config", async () => {
+      await db.insert(autopilotRules).values({
+        id: "rule-tag",
+        userId: USER,
+        ruleType: "offer",
+        scopeType: "tag",
+        scopeValue: "vintage",
+        config: offerConfig(0.8),
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      expect((await loadOfferRules(USER, "item-1"))?.autoAcceptThreshold).toBe(0.8);
+      expect((await loadOfferRules(USER))?.autoAcceptThreshold).toBe(0.9);
+    });
+
+    it("should fall back to the defaults when no rule exists", async () => {
+      sqlite.exec("DELETE FROM autopilot_rules;");
+
+      expect(await loadOfferRules(USER, "item-1")).toEqual(DEFAULT_OFFER_RULE_CONFIG);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Autopilot Simulation Tests
+ *
+ * Replays seeded offers and listings through candidate rules against the
+ * real schema, and checks that nothing is written.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import {
+  users,
+  inventoryItems,
+  channelListings,
+  offers,
+  orders,
+  autopilotActions,
+  type OfferRuleConfig,
+  type RepriceRuleConfig,
+} from "@/server/db/schema";
+import { simulateOfferRules, simulateRepriceRules } from "../simulation";
+
+const USER = "user-1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-10-01T12:00:00.000Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+const offerConfig: OfferRuleConfig = {
+  autoAcceptThreshold: 0.9,
+  autoDeclineThreshold: 0.5,
+  autoCounterEnabled: true,
+  counterStrategy: "midpoint",
+  maxCounterRounds: 2,
+  highValueThreshold: 200,
+};
+
+const repriceConfig: RepriceRuleConfig = {
+  strategy: "time_decay",
+  maxDailyDropPercent: 0.1,
+  maxWeeklyDropPercent: 0.2,
+  respectFloorPrice: true,
+  highValueThreshold: 200,
+};
+
+async function seedItem(id: string, listingStatus: "active" | "sold", listedDaysAgo: number) {
+  await db.insert(inventoryItems).values({
+    id: `item-${id}`,
+    userId: USER,
+    sku: `SKU-${id}`,
+    title: `Item ${id}`,
+    description: "Test item",
+    condition: "good",
+    askingPrice: 100,
+    floorPrice: 60,
+    status: listingStatus,
+    createdAt: daysAgo(listedDaysAgo),
+    updatedAt: daysAgo(listedDaysAgo),
+    listedAt: daysAgo(listedDaysAgo),
+  });
+  await db.insert(channelListings).values({
+    id: `listing-${id}`,
+    itemId: `item-${id}`,
+    channel: "ebay",
+    price: 100,
+    status: listingStatus,
+    publishedAt: daysAgo(listedDaysAgo),
+    createdAt: daysAgo(listedDaysAgo),
+  });
+}
+
+async function seedOffer(id: string, amount: number, status: "accepted" | "declined" | "countered") {
+  await db.insert(offers).values({
+    id,
+    userId: USER,
+    itemId: "item-a",
+    channelListingId: "listing-a",
+    channel: "ebay",
+    externalOfferId: `ext-${id}`,
+    amount,
+    askingPrice: 100,
+    status,
+    createdAt: daysAgo(5),
+    updatedAt: daysAgo(5),
+  });
+}
+
+describe("Autopilot Simulation", () => {
+  beforeEach(async () => {
+    sqlite.exec(`
+      DELETE FROM offers;
+      DELETE FROM orders;
+      DELETE FROM autopilot_actions;
+      DELETE FROM channel_listings;
+      DELETE FROM inventory_items;
+      DELETE FROM users;
+    `);
+    await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+    await seedItem("a", "active", 10);
+  });
+
+  describe("simulateOfferRules", () => {
+    beforeEach(async () => {
+      await seedOffer("offer-accept", 95, "declined");
+      await seedOffer("offer-decline", 40, "declined");
+      await seedOffer("offer-counter", 75, "accepted");
+    });
+
+    it("should replay past offers through the candidate rules", async () => {
+      const report = await simulateOfferRules(USER, offerConfig, 90, now);
+
+      expect(report.offersReplayed).toBe(3);
+      expect(report.decisions).toEqual({ ACCEPT: 1, DECLINE: 1, COUNTER: 1, MANUAL_REVIEW: 0 });
+      // The accept and the counter differ from what actually happened
+      expect(report.changedFromActual).toBe(2);
+      expect(report.estimatedRevenue).toBe(95);
+      expect(report.actualRevenue).toBe(75);
+      expect(report.revenueImpact).toBe(20);
+      expect(report.counterValue).toBe(87.5);
+      expect(report.samples).toHaveLength(3);
+    });
+
+    it("should route high-value items to manual review", async () => {
+      const report = await simulateOfferRules(
+        USER,
+        { ...offerConfig, highValueThreshold: 50 },
+        90,
+        now
+      );
+
+      expect(report.decisions.MANUAL_REVIEW).toBe(3);
+      expect(report.estimatedRevenue).toBe(0);
+    });
+
+    it("should ignore offers outside the lookback window", async () => {
+      const report = await simulateOfferRules(USER, offerConfig, 3, now);
+
+      expect(report.offersReplayed).toBe(0);
+    });
+  });
+
+  describe("simulateRepriceRules", () => {
+    it("should replay listings day by day through the candidate rules", async () => {
+      await seedItem("b", "active", 40);
+
+      const report = await simulateRepriceRules(USER, repriceConfig, 90, now);
+
+      expect(report.listingsReplayed).toBe(2);
+      // Only the 40-day listing is past the initial listing period
+      expect(report.listingsAffected).toBe(1);
+      expect(report.samples[0]).toMatchObject({ listingId: "listing-b", startPrice: 100 });
+      expect(report.samples[0].simulatedPrice).toBeLessThan(100);
+      expect(report.samples[0].simulatedPrice).toBeGreaterThanOrEqual(60);
+      expect(report.repricesSimulated).toBe(report.samples[0].drops);
+    });
+
+    it("should estimate revenue for sold listings from the simulated price", async () => {
+      await seedItem("c", "sold", 30);
+      await db.insert(orders).values({
+        id: "order-c",
+        userId: USER,
+        itemId: "item-c",
+        channelListingId: "listing-c",
+        channel: "ebay",
+        salePrice: 100,
+        status: "paid",
+        orderedAt: daysAgo(0),
+      });
+
+      const report = await simulateRepriceRules(USER, repriceConfig, 90, now);
+
+      expect(report.soldListings).toBe(1);
+      expect(report.actualRevenue).toBe(100);
+      expect(report.estimatedRevenue).toBeLessThan(100);
+      expect(report.revenueImpact).toBeLessThan(0);
+    });
+
+    it("should start from the price before the first executed reprice", async () => {
+      await seedItem("d", "active", 40);
+      await db.insert(autopilotActions).values({
+        id: "action-d",
+        userId: USER,
+        itemId: "item-d",
+        actionType: "REPRICE",
+        confidence: 0.9,
+        confidenceLevel: "HIGH",
+        beforeState: { price: 120, listingId: "listing-d" },
+        afterState: { price: 100 },
+        status: "executed",
+        requiresApproval: false,
+        reversible: true,
+        createdAt: daysAgo(5),
+        executedAt: daysAgo(5),
+        retryCount: 0,
+      });
+
+      const report = await simulateRepriceRules(USER, repriceConfig, 90, now);
+
+      expect(report.samples.find((s) => s.listingId === "listing-d")?.startPrice).toBe(120);
+    });
+
+    it("should not change any listing prices", async () => {
+      await seedItem("b", "active", 40);
+
+      await simulateRepriceRules(USER, repriceConfig, 90, now);
+
+      const listings = await db.select().from(channelListings);
+      expect(listings.every((l: { price: number }) => l.price === 100)).toBe(true);
+      expect(await db.select().from(autopilotActions)).toHaveLength(0);
+    });
+  });
+});
@@ -6,13 +6,14 @@
  */
 
 import { db } from "@/server/db/client";
-import { autopilotRules, users, type OfferRuleConfig } from "@/server/db/schema";
-import { eq, and } from "drizzle-orm";
+import { users, type OfferRuleConfig } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
 import {
   calculateConfidence,
   type ConfidenceContext,
   type ConfidenceLevel,
 } from "./confidence";
+import { findGoverningRule } from "./rule-scopes";
 
 // ============ TYPES ============
 
@@ -37,6 +38,8 @@ export interface OfferContext {
   buyerUsername?: string;
   /** Days the item has been listed (optional) */
   daysListed?: number;
+  /** Negotiation round with this buyer (1 = first offer, default 1) */
+  round?: number;
 }
 
 export type OfferDecision = "ACCEPT" | "DECLINE" | "COUNTER" | "MANUAL_REVIEW";
@@ -75,22 +78,21 @@ export const DEFAULT_OFFER_RULE_CONFIG: OfferRuleConfig = {
 // ============ RULE LOADING ============
 
 /**
- * Load the user's offer handling rules from the database
+ * Load the user's offer handling rules from the database.
+ * With an item, the most specific rule covering it is used; null when that
+ * rule is turned off.
  */
-export async function loadOfferRules(userId: string): Promise<OfferRuleConfig> {
-  const rule = await db.query.autopilotRules.findFirst({
-    where: and(
-      eq(autopilotRules.userId, userId),
-      eq(autopilotRules.ruleType, "offer"),
-      eq(autopilotRules.enabled, true)
-    ),
-  });
+export async function loadOfferRules(
+  userId: string,
+  itemId?: string
+): Promise<OfferRuleConfig | null> {
+  const rule = await findGoverningRule<OfferRuleConfig>(userId, "offer", itemId);
 
   if (!rule) {
     return DEFAULT_OFFER_RULE_CONFIG;
   }
 
-  return rule.config as OfferRuleConfig;
+  return rule.enabled ? rule.config : null;
 }
 
 /**
@@ -125,21 +127,25 @@ export async function getRuleExecutionCount(
  * Evaluate an incoming offer and determine the appropriate action
  *
  * Decision Flow:
- * 1. Load user's offer rules
+ * 1. Load the offer rule governing the item (or use the given config, e.g.
+ *    when simulating); a disabled rule sends the offer to MANUAL_REVIEW
  * 2. Calculate offer percentage of asking price
  * 3. Apply rules:
  *    - If offer >= autoAcceptThreshold: ACCEPT
  *    - If offer < autoDeclineThreshold: DECLINE
  *    - If counter enabled and between thresholds: COUNTER
+ *      (unless maxCounterRounds counters were already sent: MANUAL_REVIEW)
  *    - Else: MANUAL_REVIEW
  * 4. Calculate confidence based on context
  * 5. Determine if action should be auto-executed
  */
 export async function evaluateOffer(
-  context: OfferContext
+  context: OfferContext,
+  config?: OfferRuleConfig
 ): Promise<OfferEvaluationResult> {
   // Step 1: Load user's offer rules
-  const ruleConfig = await loadOfferRules(context.userId);
+  const loadedConfig = config ?? (await loadOfferRules(context.userId, context.itemId));
+  const ruleConfig = loadedConfig ?? DEFAULT_OFFER_RULE_CONFIG;
 
   // Step 2: Calculate offer percentage
   const offerPercent = context.offerAmount / context.askingPrice;
@@ -166,8 +172,13 @@ export async function evaluateOffer(
   let reason: string;
   let counterAmount: number | undefined;
 
+  // The rule governing this item is turned off
+  if (!loadedConfig) {
+    decision = "MANUAL_REVIEW";
+    reason = "Offer autopilot is turned off for this item";
+  }
   // Check if high-value item requires manual review
-  if (context.askingPrice >= ruleConfig.highValueThreshold) {
+  else if (context.askingPrice >= ruleConfig.highValueThreshold) {
     decision = "MANUAL_REVIEW";
     reason = `High-value item ($${context.askingPrice}) requires manual review`;
   }
@@ -183,6 +194,11 @@ export async function evaluateOffer(
       ? `Offer ($${context.offerAmount}) is below floor price ($${effectiveFloor})`
       : `Offer (${(offerPercent * 100).toFixed(0)}%) is below auto-decline threshold (${(ruleConfig.autoDeclineThreshold * 100).toFixed(0)}%)`;
   }
+  // Stop countering once the buyer has had maxCounterRounds counters
+  else if (ruleConfig.autoCounterEnabled && (context.round ?? 1) > ruleConfig.maxCounterRounds) {
+    decision = "MANUAL_REVIEW";
+    reason = `Counter limit reached (${ruleConfig.maxCounterRounds} rounds) - review offer manually`;
+  }
   // Check if counter is enabled
   else if (ruleConfig.autoCounterEnabled) {
     decision = "COUNTER";
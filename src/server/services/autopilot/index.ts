@@ -36,10 +36,14 @@ export {
   evaluateReprice,
   calculateNewPrice,
   calculateTimeDecayDrop,
+  calculatePerformanceDrop,
+  calculateCompetitiveDrop,
   checkRepriceLimit,
   incrementRepriceCount,
   getRepriceRules,
+  toRepriceRules,
   getActiveListingsForRepricing,
+  loadComparableStats,
   getRepriceHistory,
   createRepriceAction,
   markRepriceExecuted,
@@ -50,3 +54,48 @@ export {
   type RepriceRules,
   type RepriceHistoryEntry,
 } from "./repricing";
+
+// Rule scopes (most specific rule wins)
+export {
+  pickGoverningRule,
+  ruleMatches,
+  describeRuleScope,
+  loadScopedRules,
+  loadRuleTarget,
+  findGoverningRule,
+  SCOPE_PRECEDENCE,
+  type RuleType,
+  type RuleScopeType,
+  type RuleScope,
+  type ScopedRule,
+  type RuleTarget,
+} from "./rule-scopes";
+
+// Listing metrics (performance repricing)
+export {
+  syncListingMetrics,
+  recordListingMetrics,
+  getListingEngagement,
+  countRecentOffers,
+  getLatestMetricsDate,
+  type ListingMetricsEntry,
+  type ListingEngagement,
+  type SyncListingMetricsResult,
+} from "./listing-metrics";
+
+// Rule simulation (dry runs over history)
+export {
+  simulateOfferRules,
+  simulateRepriceRules,
+  type OfferSimulationEntry,
+  type OfferSimulationReport,
+  type RepriceSimulationEntry,
+  type RepriceSimulationReport,
+} from "./simulation";
+
+// Stale listing relists
+export {
+  relistStaleListing,
+  type RelistOptions,
+  type RelistResult,
+} from "./relist";
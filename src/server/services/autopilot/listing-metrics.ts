@@ -0,0 +1,240 @@
+/**
+ * Listing Metrics Service for ResellerOS
+ *
+ * Pulls daily listing traffic (views, impressions) and watcher counts
+ * from eBay into the listing_metrics time series, and summarizes recent
+ * engagement for the performance reprice strategy.
+ */
+
+import { db } from "@/server/db/client";
+import {
+  listingMetrics,
+  channelListings,
+  inventoryItems,
+  offers,
+} from "@/server/db/schema";
+import { eq, and, gte, inArray, isNotNull, sql } from "drizzle-orm";
+import { PERFORMANCE_REPRICE_THRESHOLDS } from "@/lib/constants";
+import { getEbayAdapter } from "@/server/services/channels/ebay";
+
+// ============ TYPES ============
+
+export interface ListingMetricsEntry {
+  channelListingId: string;
+  channel: "ebay" | "poshmark" | "mercari" | "depop";
+  /** Traffic day, YYYY-MM-DD */
+  date: string;
+  views: number;
+  impressions: number | null;
+  watchers: number;
+}
+
+export interface ListingEngagement {
+  /** Views over the window */
+  views: number;
+  /** Impressions over the window, if the channel reports them */
+  impressions: number | null;
+  /** Most recent watcher count */
+  watchers: number;
+  /** Days of metrics the totals cover */
+  days: number;
+}
+
+export interface SyncListingMetricsResult {
+  success: boolean;
+  listingsUpdated: number;
+  error?: string;
+}
+
+// ============ HELPERS ============
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+export function toMetricsDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The most recent complete traffic day (yesterday, UTC)
+ */
+export function getLatestMetricsDate(now: Date = new Date()): string {
+  return toMetricsDate(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+}
+
+// ============ SERVICE ============
+
+/**
+ * Upsert metrics rows, one per listing per day
+ */
+export async function recordListingMetrics(
+  userId: string,
+  entries: ListingMetricsEntry[]
+): Promise<void> {
+  const now = new Date();
+
+  for (const entry of entries) {
+    await db
+      .insert(listingMetrics)
+      .values({
+        id: crypto.randomUUID(),
+        userId,
+        ...entry,
+        recordedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [listingMetrics.channelListingId, listingMetrics.date],
+        set: {
+          views: entry.views,
+          impressions: entry.impressions,
+          watchers: entry.watchers,
+          recordedAt: now,
+        },
+      });
+  }
+}
+
+/**
+ * Pull the latest day of eBay traffic for a user's active listings
+ */
+export async function syncListingMetrics(
+  userId: string,
+  date: string = getLatestMetricsDate()
+): Promise<SyncListingMetricsResult> {
+  const listings: Array<{ id: string; externalId: string }> = await db
+    .select({ id: channelListings.id, externalId: channelListings.externalId })
+    .from(channelListings)
+    .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
+    .where(
+      and(
+        eq(inventoryItems.userId, userId),
+        eq(channelListings.channel, "ebay"),
+        eq(channelListings.status, "active"),
+        isNotNull(channelListings.externalId)
+      )
+    );
+
+  if (listings.length === 0) {
+    return { success: true, listingsUpdated: 0 };
+  }
+
+  const result = await getEbayAdapter().getListingMetrics(
+    userId,
+    listings.map((l) => l.externalId),
+    date
+  );
+
+  if (!result.success) {
+    return { success: false, listingsUpdated: 0, error: result.error };
+  }
+
+  const listingIdByExternalId = new Map(listings.map((l) => [l.externalId, l.id]));
+  const entries: ListingMetricsEntry[] = [];
+  for (const metric of result.metrics) {
+    const channelListingId = listingIdByExternalId.get(metric.listingId);
+    if (!channelListingId) continue;
+
+    entries.push({
+      channelListingId,
+      channel: "ebay",
+      date,
+      views: metric.views,
+      impressions: metric.impressions,
+      watchers: metric.watchers,
+    });
+  }
+
+  await recordListingMetrics(userId, entries);
+
+  return { success: true, listingsUpdated: entries.length };
+}
+
+/**
+ * Summarize recent engagement per listing. Listings without any
+ * metrics in the window are omitted.
+ */
+export async function getListingEngagement(
+  channelListingIds: string[],
+  days: number = PERFORMANCE_REPRICE_THRESHOLDS.metricsWindowDays
+): Promise<Map<string, ListingEngagement>> {
+  const engagement = new Map<string, ListingEngagement>();
+  if (channelListingIds.length === 0) {
+    return engagement;
+  }
+
+  const since = toMetricsDate(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+  const rows: Array<{
+    channelListingId: string;
+    date: string;
+    views: number;
+    impressions: number | null;
+    watchers: number;
+  }> = await db
+    .select({
+      channelListingId: listingMetrics.channelListingId,
+      date: listingMetrics.date,
+      views: listingMetrics.views,
+      impressions: listingMetrics.impressions,
+      watchers: listingMetrics.watchers,
+    })
+    .from(listingMetrics)
+    .where(
+      and(
+        inArray(listingMetrics.channelListingId, channelListingIds),
+        gte(listingMetrics.date, since)
+      )
+    )
+    .orderBy(listingMetrics.date);
+
+  // Rows are in date order, so the last row per listing holds the latest watchers
+  for (const row of rows) {
+    const current = engagement.get(row.channelListingId);
+    engagement.set(row.channelListingId, {
+      views: (current?.views ?? 0) + row.views,
+      impressions:
+        row.impressions === null
+          ? current?.impressions ?? null
+          : (current?.impressions ?? 0) + row.impressions,
+      watchers: row.watchers,
+      days: (current?.days ?? 0) + 1,
+    });
+  }
+
+  return engagement;
+}
+
+/**
+ * Count offers received per listing over the last `days` days
+ */
+export async function countRecentOffers(
+  channelListingIds: string[],
+  days: number = PERFORMANCE_REPRICE_THRESHOLDS.metricsWindowDays
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (channelListingIds.length === 0) {
+    return counts;
+  }
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const rows: Array<{ channelListingId: string; count: number }> = await db
+    .select({
+      channelListingId: offers.channelListingId,
+      count: sql<number>`count(*)`,
+    })
+    .from(offers)
+    .where(
+      and(
+        inArray(offers.channelListingId, channelListingIds),
+        gte(offers.createdAt, since)
+      )
+    )
+    .groupBy(offers.channelListingId);
+
+  for (const row of rows) {
+    counts.set(row.channelListingId, Number(row.count));
+  }
+
+  return counts;
+}
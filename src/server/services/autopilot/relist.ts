@@ -0,0 +1,230 @@
+/**
+ * Stale Listing Relist Service
+ *
+ * Ends a stale eBay listing and publishes a fresh copy, which gets a new
+ * listing ID and shows up as newly listed in search. The replacement is a
+ * new channel listing row linked to the old one via relistedFromId, so
+ * offers, metrics, and sales history stay where they happened.
+ *
+ * Relists draw from the daily RATE_LIMITS.relists bucket; a relist eBay
+ * rejects gives its draw back.
+ */
+
+import { db } from "@/server/db/client";
+import { autopilotActions, channelListings, inventoryItems } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { auditService, type AuditSource } from "@/server/services/audit";
+import { getEbayAdapter } from "@/server/services/channels/ebay/adapter";
+import { notifyUser } from "@/server/services/notifications";
+import { consumeRateLimit, releaseRateLimit } from "@/server/services/rate-limits";
+
+// ============ TYPES ============
+
+export type RelistableStatus = "active" | "sold" | "ended";
+
+export interface RelistOptions {
+  reason: string;
+  daysListed: number;
+  /** Listing statuses that may be relisted; stale relists only take active ones */
+  fromStatuses?: RelistableStatus[];
+  /** Who asked for the relist; defaults to AUTOPILOT */
+  source?: AuditSource;
+}
+
+export interface RelistResult {
+  success: boolean;
+  /** The replacement channel listing */
+  listingId?: string;
+  externalId?: string;
+  externalUrl?: string;
+  actionId?: string;
+  error?: string;
+  rateLimitReached?: boolean;
+}
+
+// ============ RELIST ============
+
+/**
+ * Relist an active eBay listing: end it on eBay, publish a fresh offer,
+ * and record the replacement locally with a reversible LISTING_RELIST
+ * audit entry
+ *
+ * Sold or ended listings can be relisted too when options.fromStatuses
+ * allows it, e.g. an item back in stock after a return. They keep their
+ * status; only active listings are marked ended.
+ */
+export async function relistStaleListing(
+  userId: string,
+  listingId: string,
+  options: RelistOptions,
+  now: Date = new Date()
+): Promise<RelistResult> {
+  const listing = await db.query.channelListings.findFirst({
+    where: eq(channelListings.id, listingId),
+    with: { item: true },
+  });
+
+  if (!listing || listing.item.userId !== userId) {
+    return { success: false, error: "Listing not found" };
+  }
+
+  if (listing.channel !== "ebay" || !listing.externalId) {
+    return { success: false, error: "Only published eBay listings can be relisted automatically" };
+  }
+
+  const fromStatuses: string[] = options.fromStatuses ?? ["active"];
+  if (!fromStatuses.includes(listing.status)) {
+    return {
+      success: false,
+      error: `Listing is ${listing.status}, not ${fromStatuses.join(" or ")}`,
+    };
+  }
+
+  // A sold or ended listing already has its final status
+  const endOldListing =
+    listing.status === "active" ? { status: "ended" as const, endedAt: now } : {};
+
+  const rateLimit = await consumeRateLimit(userId, "relists");
+  if (!rateLimit.allowed) {
+    return {
+      success: false,
+      error: `Daily relists limit reached (${rateLimit.used}/${rateLimit.limit})`,
+      rateLimitReached: true,
+    };
+  }
+
+  const beforeState = {
+    status: listing.item.status,
+    listedAt: listing.item.listedAt?.toISOString() ?? null,
+    listingId: listing.id,
+    listingStatus: listing.status,
+    externalId: listing.externalId,
+    externalUrl: listing.externalUrl,
+  };
+
+  const actionId = crypto.randomUUID();
+  const undoDeadline = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+  const result = await getEbayAdapter().relist(userId, listing.externalId);
+
+  if (!result.success || !result.externalId) {
+    await releaseRateLimit(userId, "relists");
+
+    // eBay ended the old listing but never published the replacement
+    if (result.errorCode === "RELIST_INCOMPLETE") {
+      await db
+        .update(channelListings)
+        .set({ ...endOldListing, statusMessage: result.error ?? null })
+        .where(eq(channelListings.id, listing.id));
+
+      await notifyUser(userId, {
+        type: "ACTION_REQUIRED",
+        channel: listing.channel,
+        itemId: listing.itemId,
+        itemTitle: listing.item.title,
+        priority: "HIGH",
+        message: "Relisting ended the eBay listing but the new one failed to publish. List the item on eBay again.",
+        metadata: { externalId: listing.externalId, error: result.error },
+      });
+    }
+
+    await db.insert(autopilotActions).values({
+      id: actionId,
+      userId,
+      itemId: listing.itemId,
+      actionType: "RELIST",
+      confidence: 0.7,
+      confidenceLevel: "MEDIUM",
+      beforeState,
+      payload: { reason: options.reason, daysListed: options.daysListed },
+      status: "failed",
+      requiresApproval: false,
+      reversible: false,
+      createdAt: now,
+      errorMessage: result.error ?? "eBay relist failed",
+      retryCount: 0,
+    });
+
+    return { success: false, actionId, error: result.error ?? "eBay relist failed" };
+  }
+
+  // End the old listing and link the replacement to it
+  const newListingId = crypto.randomUUID();
+  await db
+    .update(channelListings)
+    .set({ ...endOldListing, statusMessage: `Relisted as ${result.externalId}` })
+    .where(eq(channelListings.id, listing.id));
+
+  await db.insert(channelListings).values({
+    id: newListingId,
+    itemId: listing.itemId,
+    channel: listing.channel,
+    externalId: result.externalId,
+    externalUrl: result.externalUrl ?? null,
+    price: listing.price,
+    status: "active",
+    relistedFromId: listing.id,
+    createdAt: now,
+    publishedAt: now,
+  });
+
+  // Restart the listing clock so the item isn't immediately stale again
+  await db
+    .update(inventoryItems)
+    .set({ listedAt: now, updatedAt: now })
+    .where(eq(inventoryItems.id, listing.itemId));
+
+  const afterState = {
+    status: listing.item.status,
+    listedAt: now.toISOString(),
+    listingId: newListingId,
+    listingStatus: "active",
+    externalId: result.externalId,
+    externalUrl: result.externalUrl ?? null,
+  };
+
+  await db.insert(autopilotActions).values({
+    id: actionId,
+    userId,
+    itemId: listing.itemId,
+    actionType: "RELIST",
+    confidence: 0.7,
+    confidenceLevel: "MEDIUM",
+    beforeState,
+    afterState,
+    payload: { reason: options.reason, daysListed: options.daysListed },
+    status: "executed",
+    requiresApproval: false,
+    reversible: true,
+    undoDeadline,
+    createdAt: now,
+    executedAt: now,
+    retryCount: 0,
+  });
+
+  await auditService.log({
+    userId,
+    actionType: "LISTING_RELIST",
+    actionId,
+    itemId: listing.itemId,
+    channel: listing.channel,
+    source: options.source ?? "AUTOPILOT",
+    beforeState,
+    afterState,
+    metadata: {
+      reason: options.reason,
+      daysListed: options.daysListed,
+      relistedFromId: listing.id,
+    },
+    reversible: true,
+    undoDeadline,
+  });
+
+  return {
+    success: true,
+    listingId: newListingId,
+    externalId: result.externalId,
+    externalUrl: result.externalUrl,
+    actionId,
+  };
+}
@@ -6,15 +6,34 @@
  *
  * Strategies:
  * - time_decay: Gradually reduce price based on days listed
- * - performance: Adjust based on views/watchers/offers (future)
- * - competitive: Match competitor pricing (future)
+ * - performance: Adjust based on views/watchers/offers
+ * - competitive: Price to the market using comparable active and sold listings
  */
 
 import { db } from "@/server/db/client";
-import { autopilotActions, inventoryItems, channelListings, autopilotRules } from "@/server/db/schema";
+import { autopilotActions, inventoryItems, channelListings } from "@/server/db/schema";
 import type { RepriceRuleConfig } from "@/server/db/schema";
 import { eq, and, desc } from "drizzle-orm";
-import { RATE_LIMITS, DEFAULT_REPRICE_RULES } from "@/lib/constants";
+import {
+  DEFAULT_REPRICE_RULES,
+  PERFORMANCE_REPRICE_THRESHOLDS,
+  COMPETITIVE_REPRICE_THRESHOLDS,
+} from "@/lib/constants";
+import {
+  checkRateLimit,
+  consumeRateLimit,
+  releaseRateLimit,
+  type RateLimitStatus,
+} from "@/server/services/rate-limits";
+import { getListingEngagement, countRecentOffers } from "./listing-metrics";
+import { findGoverningRule } from "./rule-scopes";
+import {
+  getComparablesProvider,
+  summarizeComparables,
+  type ComparableStats,
+  type ComparablesProvider,
+} from "@/server/services/comparables";
+import type { Condition } from "@/lib/constants";
 
 // ============ TYPES ============
 
@@ -26,6 +45,9 @@ export interface RepricingContext {
     floorPrice?: number | null;
     listedAt?: Date | null;
     costBasis?: number | null;
+    condition?: Condition;
+    category?: string | null;
+    tags?: string[] | null;
   };
   listing: {
     id: string;
@@ -37,9 +59,14 @@ export interface RepricingContext {
   currentPrice: number;
   floorPrice?: number;
   daysListed: number;
+  /** Views over the metrics window; undefined when no traffic data exists */
   views?: number;
+  impressions?: number | null;
   watchers?: number;
+  /** Offers received over the metrics window */
   offers: number;
+  /** Comparable listing prices, for the competitive strategy */
+  comparables?: ComparableStats | null;
   lastRepriceAt?: Date | null;
 }
 
@@ -76,72 +103,25 @@ export interface RepriceHistoryEntry {
 // ============ RATE LIMITING ============
 
 /**
- * In-memory reprice count tracking (should be persisted in production)
- */
-interface UserRepriceCount {
-  count: number;
-  resetsAt: Date;
-}
-
-const repriceCounts = new Map<string, UserRepriceCount>();
-
-/**
- * Get the next midnight Pacific Time
+ * Check if repricing is allowed under the daily limit
  */
-function getMidnightPT(): Date {
-  const now = new Date();
-  const ptString = now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" });
-  const ptDate = new Date(ptString);
-  const midnight = new Date(ptDate);
-  midnight.setDate(midnight.getDate() + 1);
-  midnight.setHours(0, 0, 0, 0);
-  const ptOffset = now.getTime() - ptDate.getTime();
-  return new Date(midnight.getTime() + ptOffset);
+export async function checkRepriceLimit(userId: string): Promise<RateLimitStatus> {
+  return checkRateLimit(userId, "reprices");
 }
 
 /**
- * Check if repricing is allowed under the daily limit
+ * Consume one reprice from the daily limit.
+ * Returns allowed: false without consuming when the limit is reached.
  */
-export function checkRepriceLimit(userId: string): {
-  allowed: boolean;
-  remaining: number;
-  resetsAt: Date;
-} {
-  const now = new Date();
-  let userCount = repriceCounts.get(userId);
-
-  if (!userCount || now >= userCount.resetsAt) {
-    userCount = {
-      count: 0,
-      resetsAt: getMidnightPT(),
-    };
-    repriceCounts.set(userId, userCount);
-  }
-
-  return {
-    allowed: userCount.count < RATE_LIMITS.reprices,
-    remaining: Math.max(0, RATE_LIMITS.reprices - userCount.count),
-    resetsAt: userCount.resetsAt,
-  };
+export async function incrementRepriceCount(userId: string): Promise<RateLimitStatus> {
+  return consumeRateLimit(userId, "reprices");
 }
 
 /**
- * Increment the reprice count for a user
+ * Give back a reprice reserved for a price change that then failed
  */
-export function incrementRepriceCount(userId: string): void {
-  const now = new Date();
-  let userCount = repriceCounts.get(userId);
-
-  if (!userCount || now >= userCount.resetsAt) {
-    userCount = {
-      count: 1,
-      resetsAt: getMidnightPT(),
-    };
-  } else {
-    userCount.count++;
-  }
-
-  repriceCounts.set(userId, userCount);
+export async function releaseRepriceCount(userId: string): Promise<void> {
+  await releaseRateLimit(userId, "reprices");
 }
 
 // ============ CONFIDENCE CALCULATION ============
@@ -218,6 +198,124 @@ export function calculateTimeDecayDrop(
   return { dropPercent, dropReason };
 }
 
+/**
+ * Calculate recommended drop percentage based on listing engagement
+ *
+ * - Watched (PERFORMANCE_REPRICE_THRESHOLDS.holdWatchers+) or recent offers: hold price
+ * - Low engagement (few views per day): 5% every week instead of every 15 days
+ * - Otherwise: the regular time decay schedule
+ *
+ * Falls back to time decay when no traffic data has been collected.
+ */
+export function calculatePerformanceDrop(
+  context: Pick<RepricingContext, "daysListed" | "views" | "watchers" | "offers">,
+  daysBeforeFirstDrop: number = 14
+): { dropPercent: number; dropReason: string } {
+  const { daysListed, views, watchers = 0, offers } = context;
+  const {
+    metricsWindowDays,
+    holdWatchers,
+    lowViewsPerDay,
+    fastDropIntervalDays,
+  } = PERFORMANCE_REPRICE_THRESHOLDS;
+
+  if (watchers >= holdWatchers) {
+    return { dropPercent: 0, dropReason: `Holding price: ${watchers} watchers` };
+  }
+
+  if (offers > 0) {
+    return {
+      dropPercent: 0,
+      dropReason: `Holding price: ${offers} offer${offers === 1 ? "" : "s"} in the last ${metricsWindowDays} days`,
+    };
+  }
+
+  if (views === undefined) {
+    const timeDecay = calculateTimeDecayDrop(daysListed, daysBeforeFirstDrop);
+    return {
+      dropPercent: timeDecay.dropPercent,
+      dropReason: `${timeDecay.dropReason} (no traffic data yet)`,
+    };
+  }
+
+  if (daysListed <= daysBeforeFirstDrop) {
+    return { dropPercent: 0, dropReason: "Item is still in initial listing period" };
+  }
+
+  const viewsPerDay = views / metricsWindowDays;
+  if (viewsPerDay < lowViewsPerDay) {
+    const dropTier = Math.floor((daysListed - daysBeforeFirstDrop) / fastDropIntervalDays);
+    return {
+      dropPercent: Math.min(dropTier + 1, 10) * 5, // Cap at 50% total drop
+      dropReason: `Low engagement: ${views} views in ${metricsWindowDays} days, ${daysListed} days listed`,
+    };
+  }
+
+  const timeDecay = calculateTimeDecayDrop(daysListed, daysBeforeFirstDrop);
+  return {
+    dropPercent: timeDecay.dropPercent,
+    dropReason: `${timeDecay.dropReason} (${views} views in ${metricsWindowDays} days)`,
+  };
+}
+
+/**
+ * Calculate recommended drop percentage from comparable listings
+ *
+ * The market price is the median of sold comparables when there are
+ * enough of them, otherwise the 25th percentile of active comparables
+ * (undercutting most of the competition). Listings already at or below
+ * the market price hold. Falls back to time decay without enough comps.
+ */
+export function calculateCompetitiveDrop(
+  context: Pick<RepricingContext, "daysListed" | "currentPrice" | "comparables">,
+  daysBeforeFirstDrop: number = 14
+): { dropPercent: number; dropReason: string; marketPrice?: number } {
+  const { daysListed, currentPrice, comparables } = context;
+  const { minComparables, minSoldComparables } = COMPETITIVE_REPRICE_THRESHOLDS;
+
+  const soldCount = comparables?.sold?.count ?? 0;
+  const activeCount = comparables?.active?.count ?? 0;
+
+  if (soldCount + activeCount < minComparables) {
+    const timeDecay = calculateTimeDecayDrop(daysListed, daysBeforeFirstDrop);
+    return {
+      dropPercent: timeDecay.dropPercent,
+      dropReason: `${timeDecay.dropReason} (not enough comparables)`,
+    };
+  }
+
+  if (daysListed <= daysBeforeFirstDrop) {
+    return { dropPercent: 0, dropReason: "Item is still in initial listing period" };
+  }
+
+  let marketPrice: number;
+  let basis: string;
+  if (comparables?.sold && soldCount >= minSoldComparables) {
+    marketPrice = comparables.sold.median;
+    basis = `median of ${soldCount} sold comparables`;
+  } else {
+    marketPrice = comparables?.active?.p25 ?? comparables?.sold?.median ?? 0;
+    basis = comparables?.active
+      ? `25th percentile of ${activeCount} active comparables`
+      : `median of ${soldCount} sold comparables`;
+  }
+
+  if (currentPrice <= marketPrice) {
+    return {
+      dropPercent: 0,
+      dropReason: `Priced at or below market ($${marketPrice.toFixed(2)}, ${basis})`,
+      marketPrice,
+    };
+  }
+
+  const dropPercent = Math.round(((currentPrice - marketPrice) / currentPrice) * 10000) / 100;
+  return {
+    dropPercent,
+    dropReason: `Market price $${marketPrice.toFixed(2)} (${basis})`,
+    marketPrice,
+  };
+}
+
 // ============ MAIN REPRICING LOGIC ============
 
 /**
@@ -265,19 +363,15 @@ export async function evaluateReprice(
       break;
     }
     case "performance": {
-      // Future: Analyze views, watchers, offers
-      // For now, fall back to time decay
-      const timeDecay = calculateTimeDecayDrop(daysListed, daysBeforeFirstDrop);
-      suggestedDropPercent = timeDecay.dropPercent;
-      dropReason = timeDecay.dropReason + " (performance strategy pending)";
+      const performance = calculatePerformanceDrop(context, daysBeforeFirstDrop);
+      suggestedDropPercent = performance.dropPercent;
+      dropReason = performance.dropReason;
       break;
     }
     case "competitive": {
-      // Future: Compare to competitor pricing
-      // For now, fall back to time decay
-      const timeDecay = calculateTimeDecayDrop(daysListed, daysBeforeFirstDrop);
-      suggestedDropPercent = timeDecay.dropPercent;
-      dropReason = timeDecay.dropReason + " (competitive strategy pending)";
+      const competitive = calculateCompetitiveDrop(context, daysBeforeFirstDrop);
+      suggestedDropPercent = competitive.dropPercent;
+      dropReason = competitive.dropReason;
       break;
     }
   }
@@ -374,33 +468,9 @@ export async function evaluateReprice(
 // ============ DATABASE OPERATIONS ============
 
 /**
- * Get reprice rules for a user
+ * Convert a stored reprice rule config to evaluation rules
  */
-export async function getRepriceRules(userId: string): Promise<RepriceRules> {
-  const rules = await db
-    .select()
-    .from(autopilotRules)
-    .where(
-      and(
-        eq(autopilotRules.userId, userId),
-        eq(autopilotRules.ruleType, "reprice"),
-        eq(autopilotRules.enabled, true)
-      )
-    )
-    .limit(1);
-
-  if (rules.length === 0) {
-    // Return default rules
-    return {
-      strategy: DEFAULT_REPRICE_RULES.strategy,
-      maxDailyDropPercent: DEFAULT_REPRICE_RULES.maxDailyDropPercent,
-      maxWeeklyDropPercent: DEFAULT_REPRICE_RULES.maxWeeklyDropPercent,
-      respectFloorPrice: DEFAULT_REPRICE_RULES.respectFloorPrice,
-      highValueThreshold: DEFAULT_REPRICE_RULES.highValueThreshold,
-    };
-  }
-
-  const config = rules[0].config as RepriceRuleConfig;
+export function toRepriceRules(config: RepriceRuleConfig): RepriceRules {
   return {
     strategy: config.strategy,
     maxDailyDropPercent: config.maxDailyDropPercent,
@@ -410,6 +480,25 @@ export async function getRepriceRules(userId: string): Promise<RepriceRules> {
   };
 }
 
+/**
+ * Get reprice rules for a user.
+ * With an item, the most specific rule covering it is used; null when that
+ * rule is turned off.
+ */
+export async function getRepriceRules(
+  userId: string,
+  itemId?: string
+): Promise<RepriceRules | null> {
+  const rule = await findGoverningRule<RepriceRuleConfig>(userId, "reprice", itemId);
+
+  if (!rule) {
+    // Return default rules
+    return toRepriceRules(DEFAULT_REPRICE_RULES);
+  }
+
+  return rule.enabled ? toRepriceRules(rule.config) : null;
+}
+
 /**
  * Get active listings that may need repricing
  */
@@ -459,6 +548,12 @@ export async function getActiveListingsForRepricing(
         .orderBy(desc(autopilotActions.executedAt))
     : [];
 
+  // Engagement for the performance strategy
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const listingIds = items.map((i: any) => i.listing.id);
+  const engagement = await getListingEngagement(listingIds);
+  const recentOffers = await countRecentOffers(listingIds);
+
   // Map to RepricingContext
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return items.map((record: any) => {
@@ -482,6 +577,9 @@ export async function getActiveListingsForRepricing(
         floorPrice: item.floorPrice,
         listedAt: item.listedAt,
         costBasis: item.costBasis,
+        condition: item.condition,
+        category: item.suggestedCategory,
+        tags: item.tags,
       },
       listing: {
         id: listing.id,
@@ -493,12 +591,53 @@ export async function getActiveListingsForRepricing(
       currentPrice: listing.price,
       floorPrice: item.floorPrice ?? undefined,
       daysListed,
-      offers: 0, // TODO: Track offer count
+      views: engagement.get(listing.id)?.views,
+      impressions: engagement.get(listing.id)?.impressions,
+      watchers: engagement.get(listing.id)?.watchers,
+      offers: recentOffers.get(listing.id) ?? 0,
       lastRepriceAt: lastReprice?.executedAt ?? null,
     };
   });
 }
 
+/**
+ * Load comparable price stats for each listing, keyed by listing ID
+ *
+ * Listings whose comparables search fails are left out, so the
+ * competitive strategy falls back to time decay for them.
+ */
+export async function loadComparableStats(
+  userId: string,
+  contexts: Array<{
+    item: Pick<RepricingContext["item"], "title" | "category" | "condition">;
+    listing: Pick<RepricingContext["listing"], "id" | "externalId">;
+  }>,
+  provider: ComparablesProvider = getComparablesProvider()
+): Promise<Record<string, ComparableStats>> {
+  const stats: Record<string, ComparableStats> = {};
+
+  for (const context of contexts) {
+    const result = await provider.search(userId, {
+      title: context.item.title,
+      categoryId: context.item.category ?? undefined,
+      condition: context.item.condition,
+      excludeIds: context.listing.externalId ? [context.listing.externalId] : [],
+    });
+
+    if (!result.success) {
+      console.error(
+        `[Repricing] Comparables search failed for listing ${context.listing.id}:`,
+        result.error
+      );
+      continue;
+    }
+
+    stats[context.listing.id] = summarizeComparables(result.comparables);
+  }
+
+  return stats;
+}
+
 /**
  * Get reprice history for a user
  */
@@ -643,10 +782,15 @@ const repricingService = {
   evaluateReprice,
   calculateNewPrice,
   calculateTimeDecayDrop,
+  calculatePerformanceDrop,
+  calculateCompetitiveDrop,
   checkRepriceLimit,
   incrementRepriceCount,
+  releaseRepriceCount,
   getRepriceRules,
+  toRepriceRules,
   getActiveListingsForRepricing,
+  loadComparableStats,
   getRepriceHistory,
   createRepriceAction,
   markRepriceExecuted,
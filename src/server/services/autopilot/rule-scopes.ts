@@ -0,0 +1,198 @@
+/**
+ * Autopilot Rule Scopes
+ *
+ * A user can have several rules of the same type, each scoped to a subset
+ * of their inventory. For any item the most specific rule governs:
+ *
+ *   item > tag > category > price band > global
+ *
+ * Ties within a level go to the narrower price band, then to the most
+ * recently updated rule. A disabled rule still governs its scope: it turns
+ * autopilot off there instead of handing the items to a broader rule.
+ */
+
+import { db } from "@/server/db/client";
+import { autopilotRules, inventoryItems } from "@/server/db/schema";
+import { eq, and } from "drizzle-orm";
+
+// ============ TYPES ============
+
+export type RuleType = "offer" | "reprice" | "stale" | "delist";
+
+export type RuleScopeType = "global" | "price_band" | "category" | "tag" | "item";
+
+export interface RuleScope {
+  scopeType: RuleScopeType;
+  /** Category, tag, or inventory item ID; null for global and price band */
+  scopeValue: string | null;
+  priceMin: number | null;
+  priceMax: number | null;
+}
+
+export interface ScopedRule<TConfig = unknown> extends RuleScope {
+  id: string;
+  config: TConfig;
+  /** Disabled rules turn autopilot off for their scope */
+  enabled: boolean;
+  updatedAt: Date | string;
+}
+
+/** The item attributes rules can be scoped by */
+export interface RuleTarget {
+  itemId: string;
+  category?: string | null;
+  tags?: string[] | null;
+  /** Price used for price band matching (asking or listing price) */
+  price: number;
+}
+
+/** Higher wins */
+export const SCOPE_PRECEDENCE: Record<RuleScopeType, number> = {
+  global: 0,
+  price_band: 1,
+  category: 2,
+  tag: 3,
+  item: 4,
+};
+
+// ============ MATCHING ============
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Whether a rule's scope covers the target item
+ */
+export function ruleMatches(rule: RuleScope, target: RuleTarget): boolean {
+  switch (rule.scopeType) {
+    case "global":
+      return true;
+    case "item":
+      return rule.scopeValue === target.itemId;
+    case "category":
+      return (
+        !!rule.scopeValue &&
+        !!target.category &&
+        normalize(rule.scopeValue) === normalize(target.category)
+      );
+    case "tag":
+      return (
+        !!rule.scopeValue &&
+        (target.tags ?? []).some((tag) => normalize(tag) === normalize(rule.scopeValue!))
+      );
+    case "price_band":
+      return (
+        (rule.priceMin === null || target.price >= rule.priceMin) &&
+        (rule.priceMax === null || target.price <= rule.priceMax)
+      );
+    default:
+      return false;
+  }
+}
+
+function bandWidth(rule: RuleScope): number {
+  if (rule.scopeType !== "price_band") return 0;
+  return (rule.priceMax ?? Infinity) - (rule.priceMin ?? 0);
+}
+
+/**
+ * Pick the most specific rule covering the target, or null if none do
+ */
+export function pickGoverningRule<T extends ScopedRule>(rules: T[], target: RuleTarget): T | null {
+  const matching = rules.filter((rule) => ruleMatches(rule, target));
+
+  matching.sort(
+    (a, b) =>
+      SCOPE_PRECEDENCE[b.scopeType] - SCOPE_PRECEDENCE[a.scopeType] ||
+      bandWidth(a) - bandWidth(b) ||
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+
+  return matching[0] ?? null;
+}
+
+/**
+ * Human-readable description of a rule's scope
+ */
+export function describeRuleScope(scope: RuleScope): string {
+  switch (scope.scopeType) {
+    case "global":
+      return "All items";
+    case "item":
+      return "This item only";
+    case "category":
+      return `Category: ${scope.scopeValue}`;
+    case "tag":
+      return `Tag: ${scope.scopeValue}`;
+    case "price_band":
+      if (scope.priceMin !== null && scope.priceMax !== null) {
+        return `Priced $${scope.priceMin}–$${scope.priceMax}`;
+      }
+      if (scope.priceMin !== null) return `Priced $${scope.priceMin}+`;
+      if (scope.priceMax !== null) return `Priced up to $${scope.priceMax}`;
+      return "Any price";
+  }
+}
+
+// ============ LOADING ============
+
+/**
+ * Load the user's rules of one type, all scopes, enabled or not
+ */
+export async function loadScopedRules<TConfig>(
+  userId: string,
+  ruleType: RuleType
+): Promise<ScopedRule<TConfig>[]> {
+  const rules = await db
+    .select({
+      id: autopilotRules.id,
+      scopeType: autopilotRules.scopeType,
+      scopeValue: autopilotRules.scopeValue,
+      priceMin: autopilotRules.priceMin,
+      priceMax: autopilotRules.priceMax,
+      config: autopilotRules.config,
+      enabled: autopilotRules.enabled,
+      updatedAt: autopilotRules.updatedAt,
+    })
+    .from(autopilotRules)
+    .where(and(eq(autopilotRules.userId, userId), eq(autopilotRules.ruleType, ruleType)));
+
+  return rules as ScopedRule<TConfig>[];
+}
+
+/**
+ * Load the scoping attributes of an inventory item
+ */
+export async function loadRuleTarget(itemId: string): Promise<RuleTarget | null> {
+  const item = await db.query.inventoryItems.findFirst({
+    where: eq(inventoryItems.id, itemId),
+    columns: { id: true, suggestedCategory: true, tags: true, askingPrice: true },
+  });
+
+  if (!item) return null;
+
+  return {
+    itemId: item.id,
+    category: item.suggestedCategory,
+    tags: item.tags,
+    price: item.askingPrice,
+  };
+}
+
+/**
+ * Find the rule governing an item, or the global rule when no item is given.
+ * A disabled result means autopilot is off for the item.
+ */
+export async function findGoverningRule<TConfig>(
+  userId: string,
+  ruleType: RuleType,
+  itemId?: string
+): Promise<ScopedRule<TConfig> | null> {
+  const rules = await loadScopedRules<TConfig>(userId, ruleType);
+
+  const target = itemId ? await loadRuleTarget(itemId) : null;
+  if (!target) {
+    return rules.find((rule) => rule.scopeType === "global") ?? null;
+  }
+
+  return pickGoverningRule(rules, target);
+}
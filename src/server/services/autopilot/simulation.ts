@@ -0,0 +1,465 @@
+/**
+ * Autopilot Simulation
+ *
+ * Dry-runs a candidate offer or reprice rule configuration over the user's
+ * history so thresholds can be checked before they go live. Past offers are
+ * replayed through evaluateOffer and past listings through evaluateReprice,
+ * one day at a time like the daily reprice check. Nothing is written and no
+ * channel adapter is called.
+ *
+ * Limitations of the replay:
+ * - Confidence uses the user's current activity, not activity at the time
+ * - Historical traffic and comparables aren't kept, so the performance
+ *   strategy only sees offers and the competitive strategy falls back to
+ *   time decay
+ * - Repricing assumes an item still sells on the day it did, and never for
+ *   more than it actually sold for
+ */
+
+import { db } from "@/server/db/client";
+import {
+  autopilotActions,
+  channelListings,
+  inventoryItems,
+  offers,
+  orders,
+  type OfferRuleConfig,
+  type RepriceRuleConfig,
+} from "@/server/db/schema";
+import { eq, and, gte, asc } from "drizzle-orm";
+import { PERFORMANCE_REPRICE_THRESHOLDS } from "@/lib/constants";
+import type { ConfidenceLevel } from "./confidence";
+import { evaluateOffer, type OfferDecision } from "./engine";
+import { evaluateReprice, type RepricingContext } from "./repricing";
+
+// ============ TYPES ============
+
+export interface OfferSimulationEntry {
+  offerId: string;
+  itemId: string;
+  itemTitle: string;
+  offerAmount: number;
+  askingPrice: number;
+  decision: OfferDecision;
+  counterAmount?: number;
+  confidenceLevel: ConfidenceLevel;
+  requiresApproval: boolean;
+  /** What actually happened to the offer */
+  actualStatus: string;
+  reason: string;
+  createdAt: Date;
+}
+
+export interface OfferSimulationReport {
+  lookbackDays: number;
+  offersReplayed: number;
+  decisions: Record<OfferDecision, number>;
+  confidence: Record<ConfidenceLevel, number>;
+  autoExecuted: number;
+  needsApproval: number;
+  /** Offers the candidate rules would have handled differently */
+  changedFromActual: number;
+  /** Offer amounts the rules would have accepted */
+  estimatedRevenue: number;
+  /** Offer amounts that were actually accepted */
+  actualRevenue: number;
+  revenueImpact: number;
+  /** Counter offers the rules would have sent, if every buyer took them */
+  counterValue: number;
+  /** Most recent offers first, capped at SAMPLE_LIMIT */
+  samples: OfferSimulationEntry[];
+}
+
+export interface RepriceSimulationEntry {
+  listingId: string;
+  itemId: string;
+  itemTitle: string;
+  channel: string;
+  outcome: "active" | "sold" | "ended";
+  startPrice: number;
+  /** Price after the replayed drops, at the sale date for sold listings */
+  simulatedPrice: number;
+  drops: number;
+  salePrice?: number;
+}
+
+export interface RepriceSimulationReport {
+  lookbackDays: number;
+  listingsReplayed: number;
+  repricesSimulated: number;
+  needsApproval: number;
+  confidence: Record<ConfidenceLevel, number>;
+  /** Listings that would have been repriced at least once */
+  listingsAffected: number;
+  soldListings: number;
+  /** Sale revenue under the candidate rules (see limitations above) */
+  estimatedRevenue: number;
+  actualRevenue: number;
+  revenueImpact: number;
+  /** Listings with at least one simulated drop, largest drop first */
+  samples: RepriceSimulationEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest listing history replayed day by day
+const MAX_REPLAY_DAYS = 365;
+
+// Entries returned for display
+const SAMPLE_LIMIT = 50;
+
+// Actual offer statuses as the decision that produced them
+const ACTUAL_DECISIONS: Record<string, OfferDecision | undefined> = {
+  accepted: "ACCEPT",
+  declined: "DECLINE",
+  countered: "COUNTER",
+};
+
+const emptyConfidenceCounts = (): Record<ConfidenceLevel, number> => ({
+  HIGH: 0,
+  MEDIUM: 0,
+  LOW: 0,
+  VERY_LOW: 0,
+});
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// ============ OFFER SIMULATION ============
+
+/**
+ * Replay the user's offers from the lookback window through the candidate
+ * offer rules
+ */
+export async function simulateOfferRules(
+  userId: string,
+  config: OfferRuleConfig,
+  lookbackDays: number,
+  now: Date = new Date()
+): Promise<OfferSimulationReport> {
+  const since = new Date(now.getTime() - lookbackDays * DAY_MS);
+
+  const history = await db
+    .select({
+      offer: offers,
+      item: {
+        title: inventoryItems.title,
+        floorPrice: inventoryItems.floorPrice,
+        listedAt: inventoryItems.listedAt,
+        createdAt: inventoryItems.createdAt,
+      },
+    })
+    .from(offers)
+    .innerJoin(inventoryItems, eq(offers.itemId, inventoryItems.id))
+    .where(and(eq(offers.userId, userId), gte(offers.createdAt, since)))
+    .orderBy(asc(offers.createdAt));
+
+  const report: OfferSimulationReport = {
+    lookbackDays,
+    offersReplayed: history.length,
+    decisions: { ACCEPT: 0, DECLINE: 0, COUNTER: 0, MANUAL_REVIEW: 0 },
+    confidence: emptyConfidenceCounts(),
+    autoExecuted: 0,
+    needsApproval: 0,
+    changedFromActual: 0,
+    estimatedRevenue: 0,
+    actualRevenue: 0,
+    revenueImpact: 0,
+    counterValue: 0,
+    samples: [],
+  };
+
+  const entries: OfferSimulationEntry[] = [];
+
+  for (const { offer, item } of history) {
+    const listedAt: Date = item.listedAt ?? item.createdAt;
+    const result = await evaluateOffer(
+      {
+        userId,
+        itemId: offer.itemId,
+        offerId: offer.externalOfferId,
+        offerAmount: offer.amount,
+        askingPrice: offer.askingPrice,
+        floorPrice: item.floorPrice ?? undefined,
+        itemValue: offer.askingPrice,
+        channel: offer.channel,
+        buyerUsername: offer.buyerUsername ?? undefined,
+        daysListed: Math.max(0, Math.floor((offer.createdAt.getTime() - listedAt.getTime()) / DAY_MS)),
+        round: offer.round,
+      },
+      config
+    );
+
+    report.decisions[result.decision]++;
+    report.confidence[result.confidenceLevel]++;
+    if (result.autoExecute) report.autoExecuted++;
+    if (result.requiresApproval) report.needsApproval++;
+
+    const actualDecision = ACTUAL_DECISIONS[offer.status];
+    if (actualDecision && actualDecision !== result.decision) {
+      report.changedFromActual++;
+    }
+
+    if (result.decision === "ACCEPT") report.estimatedRevenue += offer.amount;
+    if (result.decision === "COUNTER" && result.counterAmount !== undefined) {
+      report.counterValue += result.counterAmount;
+    }
+    if (offer.status === "accepted") report.actualRevenue += offer.amount;
+
+    entries.push({
+      offerId: offer.id,
+      itemId: offer.itemId,
+      itemTitle: item.title,
+      offerAmount: offer.amount,
+      askingPrice: offer.askingPrice,
+      decision: result.decision,
+      counterAmount: result.counterAmount,
+      confidenceLevel: result.confidenceLevel,
+      requiresApproval: result.requiresApproval,
+      actualStatus: offer.status,
+      reason: result.reason,
+      createdAt: offer.createdAt,
+    });
+  }
+
+  report.estimatedRevenue = roundCurrency(report.estimatedRevenue);
+  report.actualRevenue = roundCurrency(report.actualRevenue);
+  report.revenueImpact = roundCurrency(report.estimatedRevenue - report.actualRevenue);
+  report.counterValue = roundCurrency(report.counterValue);
+  report.samples = entries.reverse().slice(0, SAMPLE_LIMIT);
+
+  return report;
+}
+
+// ============ REPRICE SIMULATION ============
+
+interface ListingHistory {
+  context: Omit<RepricingContext, "currentPrice" | "daysListed" | "offers" | "lastRepriceAt">;
+  outcome: RepriceSimulationEntry["outcome"];
+  startPrice: number;
+  listedAt: Date;
+  /** When the listing stopped being live (sale, end, or now) */
+  endAt: Date;
+  salePrice?: number;
+  offerDates: Date[];
+}
+
+/**
+ * Load the user's listings that were live during the lookback window
+ */
+async function loadListingHistory(
+  userId: string,
+  since: Date,
+  now: Date
+): Promise<ListingHistory[]> {
+  const rows = await db
+    .select({ item: inventoryItems, listing: channelListings })
+    .from(channelListings)
+    .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
+    .where(eq(inventoryItems.userId, userId));
+
+  const userOrders = await db
+    .select({
+      channelListingId: orders.channelListingId,
+      itemId: orders.itemId,
+      salePrice: orders.salePrice,
+      orderedAt: orders.orderedAt,
+    })
+    .from(orders)
+    .where(eq(orders.userId, userId))
+    .orderBy(asc(orders.orderedAt));
+
+  const userOffers = await db
+    .select({ channelListingId: offers.channelListingId, createdAt: offers.createdAt })
+    .from(offers)
+    .where(eq(offers.userId, userId));
+
+  // The price before the first executed drop is where the listing started
+  const reprices = await db
+    .select({ beforeState: autopilotActions.beforeState })
+    .from(autopilotActions)
+    .where(
+      and(
+        eq(autopilotActions.userId, userId),
+        eq(autopilotActions.actionType, "REPRICE"),
+        eq(autopilotActions.status, "executed")
+      )
+    )
+    .orderBy(asc(autopilotActions.executedAt));
+
+  const startPrices = new Map<string, number>();
+  for (const { beforeState } of reprices) {
+    const listingId = beforeState?.listingId;
+    if (typeof listingId === "string" && typeof beforeState?.price === "number" && !startPrices.has(listingId)) {
+      startPrices.set(listingId, beforeState.price);
+    }
+  }
+
+  const histories: ListingHistory[] = [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  for (const { item, listing } of rows as any[]) {
+    if (!["active", "sold", "ended"].includes(listing.status)) continue;
+
+    const listedAt: Date = listing.publishedAt ?? item.listedAt ?? item.createdAt;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sale = userOrders.find((order: any) =>
+      order.channelListingId
+        ? order.channelListingId === listing.id
+        : order.itemId === item.id && order.orderedAt >= listedAt
+    );
+
+    let outcome: ListingHistory["outcome"];
+    let endAt: Date;
+    if (listing.status === "sold" && sale) {
+      outcome = "sold";
+      endAt = sale.orderedAt;
+    } else if (listing.status === "active") {
+      outcome = "active";
+      endAt = now;
+    } else {
+      outcome = "ended";
+      endAt = listing.endedAt ?? item.soldAt ?? now;
+    }
+
+    if (endAt < since) continue;
+
+    histories.push({
+      context: {
+        item: {
+          id: item.id,
+          title: item.title,
+          askingPrice: item.askingPrice,
+          floorPrice: item.floorPrice,
+          listedAt: item.listedAt,
+          costBasis: item.costBasis,
+          condition: item.condition,
+          category: item.suggestedCategory,
+        },
+        listing: {
+          id: listing.id,
+          channel: listing.channel,
+          externalId: listing.externalId,
+          price: listing.price,
+          publishedAt: listing.publishedAt,
+        },
+        floorPrice: item.floorPrice ?? undefined,
+        comparables: null,
+      },
+      outcome,
+      startPrice: startPrices.get(listing.id) ?? listing.price,
+      listedAt,
+      endAt,
+      salePrice: outcome === "sold" ? sale?.salePrice : undefined,
+      offerDates: userOffers
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .filter((offer: any) => offer.channelListingId === listing.id)
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .map((offer: any) => offer.createdAt),
+    });
+  }
+
+  return histories;
+}
+
+/**
+ * Replay the user's listings from the lookback window through the
+ * candidate reprice rules, one simulated daily check at a time
+ */
+export async function simulateRepriceRules(
+  userId: string,
+  config: RepriceRuleConfig,
+  lookbackDays: number,
+  now: Date = new Date()
+): Promise<RepriceSimulationReport> {
+  const since = new Date(now.getTime() - lookbackDays * DAY_MS);
+  const histories = await loadListingHistory(userId, since, now);
+  const { metricsWindowDays } = PERFORMANCE_REPRICE_THRESHOLDS;
+
+  const report: RepriceSimulationReport = {
+    lookbackDays,
+    listingsReplayed: histories.length,
+    repricesSimulated: 0,
+    needsApproval: 0,
+    confidence: emptyConfidenceCounts(),
+    listingsAffected: 0,
+    soldListings: 0,
+    estimatedRevenue: 0,
+    actualRevenue: 0,
+    revenueImpact: 0,
+    samples: [],
+  };
+
+  const entries: RepriceSimulationEntry[] = [];
+
+  for (const history of histories) {
+    const totalDays = Math.min(
+      Math.floor((history.endAt.getTime() - history.listedAt.getTime()) / DAY_MS),
+      MAX_REPLAY_DAYS
+    );
+
+    let price = history.startPrice;
+    let lastDropDay: number | null = null;
+    let drops = 0;
+
+    for (let day = 1; day <= totalDays; day++) {
+      const checkedAt = history.listedAt.getTime() + day * DAY_MS;
+      const recentOffers = history.offerDates.filter(
+        (date) => date.getTime() <= checkedAt && checkedAt - date.getTime() < metricsWindowDays * DAY_MS
+      ).length;
+
+      const result = await evaluateReprice(
+        {
+          ...history.context,
+          currentPrice: price,
+          daysListed: day,
+          offers: recentOffers,
+          // evaluateReprice measures the gap from the real clock
+          lastRepriceAt:
+            lastDropDay === null ? null : new Date(now.getTime() - (day - lastDropDay) * DAY_MS),
+        },
+        config
+      );
+
+      if (result.newPrice === undefined || result.newPrice >= price) continue;
+
+      // Drops held for approval are assumed approved
+      report.repricesSimulated++;
+      report.confidence[result.confidenceLevel]++;
+      if (!result.shouldReprice) report.needsApproval++;
+
+      price = result.newPrice;
+      lastDropDay = day;
+      drops++;
+    }
+
+    if (history.outcome === "sold" && history.salePrice !== undefined) {
+      report.soldListings++;
+      report.actualRevenue += history.salePrice;
+      report.estimatedRevenue += Math.min(price, history.salePrice);
+    }
+
+    if (drops > 0) {
+      report.listingsAffected++;
+      entries.push({
+        listingId: history.context.listing.id,
+        itemId: history.context.item.id,
+        itemTitle: history.context.item.title,
+        channel: history.context.listing.channel,
+        outcome: history.outcome,
+        startPrice: history.startPrice,
+        simulatedPrice: price,
+        drops,
+        salePrice: history.salePrice,
+      });
+    }
+  }
+
+  report.estimatedRevenue = roundCurrency(report.estimatedRevenue);
+  report.actualRevenue = roundCurrency(report.actualRevenue);
+  report.revenueImpact = roundCurrency(report.estimatedRevenue - report.actualRevenue);
+  report.samples = entries
+    .sort((a, b) => b.startPrice - b.simulatedPrice - (a.startPrice - a.simulatedPrice))
+    .slice(0, SAMPLE_LIMIT);
+
+  return report;
+}
@@ -7,6 +7,7 @@ import {
   getAdapter,
   isNativeChannel,
   isAssistedChannel,
+  canAutomateChannel,
   getChannelCapabilities,
   generateCrossListTemplate,
   CHANNEL_CAPABILITIES,
@@ -31,6 +32,19 @@ vi.mock("../ebay", () => ({
   getEbayClient: vi.fn(),
 }));
 
+// Mock the Mercari adapter
+const { mercariIsConnected } = vi.hoisted(() => ({ mercariIsConnected: vi.fn() }));
+vi.mock("../mercari", () => ({
+  getMercariAdapter: vi.fn(() => ({
+    channelId: "mercari",
+    mode: "native",
+    isConnected: mercariIsConnected,
+  })),
+  MercariAdapter: vi.fn(),
+  MercariApiClient: vi.fn(),
+  getMercariClient: vi.fn(),
+}));
+
 describe("Channel Capabilities", () => {
   it("should define capabilities for all channels", () => {
     expect(CHANNEL_CAPABILITIES).toHaveProperty("ebay");
@@ -48,8 +62,18 @@ describe("Channel Capabilities", () => {
     expect(ebay.requiresManualAction).toBe(false);
   });
 
+  it("should have Mercari with native capabilities except inventory sync", () => {
+    const mercari = CHANNEL_CAPABILITIES.mercari;
+    expect(mercari.canPublish).toBe(true);
+    expect(mercari.canReprice).toBe(true);
+    expect(mercari.canDelist).toBe(true);
+    expect(mercari.canSyncOrders).toBe(true);
+    expect(mercari.canSyncInventory).toBe(false);
+    expect(mercari.requiresManualAction).toBe(false);
+  });
+
   it("should have assisted channels require manual action", () => {
-    const assistedChannels = ["poshmark", "mercari", "depop"] as const;
+    const assistedChannels = ["poshmark", "depop"] as const;
 
     for (const channel of assistedChannels) {
       expect(CHANNEL_CAPABILITIES[channel].requiresManualAction).toBe(true);
@@ -65,34 +89,59 @@ describe("getAdapter", () => {
     expect(adapter.mode).toBe("native");
   });
 
+  it("should return Mercari adapter for mercari channel", () => {
+    const adapter = getAdapter("mercari");
+    expect(adapter.channelId).toBe("mercari");
+    expect(adapter.mode).toBe("native");
+  });
+
   it("should throw error for assisted channels", () => {
     expect(() => getAdapter("poshmark")).toThrow("assisted mode");
-    expect(() => getAdapter("mercari")).toThrow("assisted mode");
     expect(() => getAdapter("depop")).toThrow("assisted mode");
   });
 });
 
 describe("isNativeChannel", () => {
-  it("should return true for eBay", () => {
+  it("should return true for eBay and Mercari", () => {
     expect(isNativeChannel("ebay")).toBe(true);
+    expect(isNativeChannel("mercari")).toBe(true);
   });
 
   it("should return false for assisted channels", () => {
     expect(isNativeChannel("poshmark")).toBe(false);
-    expect(isNativeChannel("mercari")).toBe(false);
     expect(isNativeChannel("depop")).toBe(false);
   });
 });
 
 describe("isAssistedChannel", () => {
-  it("should return true for Poshmark, Mercari, Depop", () => {
+  it("should return true for Poshmark and Depop", () => {
     expect(isAssistedChannel("poshmark")).toBe(true);
-    expect(isAssistedChannel("mercari")).toBe(true);
     expect(isAssistedChannel("depop")).toBe(true);
   });
 
-  it("should return false for eBay", () => {
+  it("should return false for eBay and Mercari", () => {
     expect(isAssistedChannel("ebay")).toBe(false);
+    expect(isAssistedChannel("mercari")).toBe(false);
+  });
+});
+
+describe("canAutomateChannel", () => {
+  it("should always automate eBay", async () => {
+    expect(await canAutomateChannel("user-1", "ebay")).toBe(true);
+  });
+
+  it("should automate Mercari only once the account is connected", async () => {
+    mercariIsConnected.mockResolvedValueOnce(false);
+    expect(await canAutomateChannel("user-1", "mercari")).toBe(false);
+
+    mercariIsConnected.mockResolvedValueOnce(true);
+    expect(await canAutomateChannel("user-1", "mercari")).toBe(true);
+    expect(mercariIsConnected).toHaveBeenCalledWith("user-1");
+  });
+
+  it("should never automate assisted channels", async () => {
+    expect(await canAutomateChannel("user-1", "poshmark")).toBe(false);
+    expect(await canAutomateChannel("user-1", "depop")).toBe(false);
   });
 });
 
@@ -5,6 +5,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { EbayAdapter } from "../adapter";
 import { EbayClient } from "../client";
+import type { EbayTradingClient } from "../trading";
 import type { ListingData } from "../../types";
 
 // Mock the eBay client
@@ -18,8 +19,8 @@ describe("EbayAdapter", () => {
   let mockClient: {
     request: ReturnType<typeof vi.fn>;
     isConnected: ReturnType<typeof vi.fn>;
-    getRevisionStatus: ReturnType<typeof vi.fn>;
-    trackRevision: ReturnType<typeof vi.fn>;
+    reserveRevisions: ReturnType<typeof vi.fn>;
+    releaseRevisions: ReturnType<typeof vi.fn>;
   };
 
   const testUserId = "user-123";
@@ -35,6 +36,12 @@ describe("EbayAdapter", () => {
       brand: "TestBrand",
       size: "Medium",
     },
+    policies: {
+      fulfillmentPolicyId: "fulfillment-1",
+      paymentPolicyId: "payment-1",
+      returnPolicyId: "return-1",
+      merchantLocationKey: "warehouse-1",
+    },
   };
 
   beforeEach(() => {
@@ -44,12 +51,12 @@ describe("EbayAdapter", () => {
     mockClient = {
       request: vi.fn(),
       isConnected: vi.fn().mockResolvedValue(true),
-      getRevisionStatus: vi.fn().mockReturnValue({
+      reserveRevisions: vi.fn().mockResolvedValue({
         allowed: true,
         remaining: 190,
         resetsAt: new Date(Date.now() + 86400000),
       }),
-      trackRevision: vi.fn(),
+      releaseRevisions: vi.fn(),
     };
 
     // Create adapter with mock client
@@ -120,12 +127,13 @@ describe("EbayAdapter", () => {
       // Should have called request 3 times
       expect(mockClient.request).toHaveBeenCalledTimes(3);
 
-      // Should have tracked 3 revisions
-      expect(mockClient.trackRevision).toHaveBeenCalledTimes(3);
+      // Should have reserved 3 revisions up front and kept them
+      expect(mockClient.reserveRevisions).toHaveBeenCalledWith(testUserId, 3);
+      expect(mockClient.releaseRevisions).not.toHaveBeenCalled();
     });
 
     it("should fail when rate limit is exceeded", async () => {
-      mockClient.getRevisionStatus.mockReturnValue({
+      mockClient.reserveRevisions.mockResolvedValue({
         allowed: false,
         remaining: 0,
         resetsAt: new Date(Date.now() + 3600000),
@@ -138,6 +146,35 @@ describe("EbayAdapter", () => {
       expect(mockClient.request).not.toHaveBeenCalled();
     });
 
+    it("should publish the offer with the listing's policies", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ offerId: "offer-123" })
+        .mockResolvedValueOnce({ listingId: "listing-456" });
+
+      await adapter.publish(testUserId, testListing);
+
+      const offerBody = mockClient.request.mock.calls[1][1].body;
+      expect(offerBody.listingPolicies).toEqual({
+        fulfillmentPolicyId: "fulfillment-1",
+        paymentPolicyId: "payment-1",
+        returnPolicyId: "return-1",
+      });
+      expect(offerBody.merchantLocationKey).toBe("warehouse-1");
+    });
+
+    it("should fail without calling eBay when policies are missing", async () => {
+      const result = await adapter.publish(testUserId, {
+        ...testListing,
+        policies: { fulfillmentPolicyId: "fulfillment-1" },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe("POLICIES_NOT_CONFIGURED");
+      expect(result.error).toContain("payment policy");
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
     it("should handle API errors gracefully", async () => {
       const apiError = new Error("eBay API error");
       (apiError as Error & { code: string }).code = "EBAY_ERROR";
@@ -147,6 +184,18 @@ describe("EbayAdapter", () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain("eBay API error");
+      expect(mockClient.releaseRevisions).toHaveBeenCalledWith(testUserId, 3);
+    });
+
+    it("should release only the revisions it didn't make", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ offerId: "offer-123" })
+        .mockRejectedValueOnce(new Error("Publish failed"));
+
+      await adapter.publish(testUserId, testListing);
+
+      expect(mockClient.releaseRevisions).toHaveBeenCalledWith(testUserId, 1);
     });
 
     it("should truncate title to 80 characters", async () => {
@@ -201,7 +250,7 @@ describe("EbayAdapter", () => {
     });
 
     it("should fail when rate limit is exceeded", async () => {
-      mockClient.getRevisionStatus.mockReturnValue({
+      mockClient.reserveRevisions.mockResolvedValue({
         allowed: false,
         remaining: 0,
         resetsAt: new Date(),
@@ -214,6 +263,195 @@ describe("EbayAdapter", () => {
     });
   });
 
+  describe("endListing", () => {
+    it("should withdraw the listing's offer", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({ offers: [{ offerId: "offer-123", sku: "TEST-SKU" }] })
+        .mockResolvedValueOnce({});
+
+      const result = await adapter.endListing(testUserId, "listing-456");
+
+      expect(result.success).toBe(true);
+      expect(mockClient.request.mock.calls[1][1]).toMatchObject({
+        method: "POST",
+        path: "/offer/offer-123/withdraw",
+      });
+    });
+
+    it("should fail when offer not found", async () => {
+      mockClient.request.mockResolvedValueOnce({ offers: [] });
+
+      const result = await adapter.endListing(testUserId, "listing-456");
+
+      expect(result.errorCode).toBe("OFFER_NOT_FOUND");
+    });
+  });
+
+  describe("relist", () => {
+    const currentOffer = {
+      offerId: "offer-123",
+      sku: "TEST-SKU",
+      marketplaceId: "EBAY_US",
+      format: "FIXED_PRICE",
+      availableQuantity: 1,
+      categoryId: "57988",
+      listingPolicies: {
+        fulfillmentPolicyId: "fulfillment-1",
+        paymentPolicyId: "payment-1",
+        returnPolicyId: "return-1",
+      },
+      pricingSummary: { price: { value: "29.99", currency: "USD" } },
+      merchantLocationKey: "warehouse-1",
+      status: "PUBLISHED",
+    };
+
+    it("should end the old offer and publish a fresh copy", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({ offers: [{ offerId: "offer-123", sku: "TEST-SKU" }] })
+        .mockResolvedValueOnce(currentOffer)
+        .mockResolvedValueOnce({}) // withdraw
+        .mockResolvedValueOnce({}) // delete
+        .mockResolvedValueOnce({ offerId: "offer-789" })
+        .mockResolvedValueOnce({ listingId: "listing-999" });
+
+      const result = await adapter.relist(testUserId, "listing-456");
+
+      expect(result).toEqual({
+        success: true,
+        externalId: "listing-999",
+        externalUrl: expect.stringContaining("/itm/listing-999"),
+      });
+
+      const calls = mockClient.request.mock.calls.map((call) => [call[1].method, call[1].path]);
+      expect(calls).toEqual([
+        ["GET", "/offer?listing_id=listing-456"],
+        ["GET", "/offer/offer-123"],
+        ["POST", "/offer/offer-123/withdraw"],
+        ["DELETE", "/offer/offer-123"],
+        ["POST", "/offer"],
+        ["POST", "/offer/offer-789/publish"],
+      ]);
+
+      // The new offer carries over the old terms, without the old ID or status
+      const createBody = mockClient.request.mock.calls[4][1].body;
+      expect(createBody).toMatchObject({
+        sku: "TEST-SKU",
+        categoryId: "57988",
+        pricingSummary: { price: { value: "29.99", currency: "USD" } },
+      });
+      expect(createBody).not.toHaveProperty("offerId");
+      expect(createBody).not.toHaveProperty("status");
+    });
+
+    it("should fail when offer not found", async () => {
+      mockClient.request.mockResolvedValueOnce({ offers: [] });
+
+      const result = await adapter.relist(testUserId, "listing-456");
+
+      expect(result.errorCode).toBe("OFFER_NOT_FOUND");
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+      expect(mockClient.releaseRevisions).toHaveBeenCalledWith(testUserId, 3);
+    });
+
+    it("should report an ended listing whose replacement failed to publish", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({ offers: [{ offerId: "offer-123", sku: "TEST-SKU" }] })
+        .mockResolvedValueOnce(currentOffer)
+        .mockResolvedValueOnce({}) // withdraw
+        .mockRejectedValueOnce(new Error("Offer delete failed"));
+
+      const result = await adapter.relist(testUserId, "listing-456");
+
+      expect(result).toMatchObject({ success: false, errorCode: "RELIST_INCOMPLETE" });
+      expect(result.error).toContain("Offer delete failed");
+      // Only the withdrawal counted as a revision
+      expect(mockClient.releaseRevisions).toHaveBeenCalledWith(testUserId, 2);
+    });
+
+    it("should fail when rate limit is exceeded", async () => {
+      mockClient.reserveRevisions.mockResolvedValue({
+        allowed: false,
+        used: 200,
+        limit: 200,
+        remaining: 0,
+        resetsAt: new Date(),
+      });
+
+      const result = await adapter.relist(testUserId, "listing-456");
+
+      expect(result.errorCode).toBe("RATE_LIMIT_EXCEEDED");
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("markdown promotions", () => {
+    const promotion = {
+      name: "Weekend sale",
+      discountPercent: 20,
+      listingIds: ["listing-1", "listing-2"],
+      startsAt: new Date("2026-11-01T00:00:00.000Z"),
+      endsAt: new Date("2026-11-08T00:00:00.000Z"),
+    };
+
+    it("should create a scheduled markdown and return its ID", async () => {
+      mockClient.request.mockResolvedValueOnce({
+        location: "https://api.ebay.com/sell/marketing/v1/item_price_markdown/promo-42",
+      });
+
+      const result = await adapter.createMarkdownPromotion(testUserId, promotion);
+
+      expect(result).toEqual({ success: true, promotionId: "promo-42" });
+      expect(mockClient.request).toHaveBeenCalledWith(testUserId, {
+        method: "POST",
+        path: "/item_price_markdown",
+        api: "marketing",
+        body: expect.objectContaining({
+          name: "Weekend sale",
+          marketplaceId: "EBAY_US",
+          startDate: "2026-11-01T00:00:00.000Z",
+          endDate: "2026-11-08T00:00:00.000Z",
+          promotionStatus: "SCHEDULED",
+          selectedInventoryDiscounts: [
+            {
+              discountBenefit: { percentageOffItem: "20" },
+              inventoryCriterion: {
+                inventoryCriterionType: "INVENTORY_BY_VALUE",
+                listingIds: ["listing-1", "listing-2"],
+              },
+            },
+          ],
+        }),
+      });
+      // Markdowns don't revise listings
+      expect(mockClient.reserveRevisions).not.toHaveBeenCalled();
+    });
+
+    it("should fail when eBay returns no promotion location", async () => {
+      mockClient.request.mockResolvedValueOnce({});
+
+      const result = await adapter.createMarkdownPromotion(testUserId, promotion);
+
+      expect(result.errorCode).toBe("PROMOTION_ID_MISSING");
+    });
+
+    it("should update and delete a markdown by ID", async () => {
+      mockClient.request.mockResolvedValue({});
+
+      expect(await adapter.updateMarkdownPromotion(testUserId, "promo-42", promotion)).toEqual({
+        success: true,
+      });
+      expect(await adapter.deleteMarkdownPromotion(testUserId, "promo-42")).toEqual({
+        success: true,
+      });
+
+      const calls = mockClient.request.mock.calls.map((call) => [call[1].method, call[1].path]);
+      expect(calls).toEqual([
+        ["PUT", "/item_price_markdown/promo-42"],
+        ["DELETE", "/item_price_markdown/promo-42"],
+      ]);
+    });
+  });
+
   describe("updatePrice", () => {
     const listingId = "listing-456";
     const newPrice = 24.99;
@@ -242,7 +480,7 @@ describe("EbayAdapter", () => {
     });
 
     it("should fail when rate limit exceeded", async () => {
-      mockClient.getRevisionStatus.mockReturnValue({
+      mockClient.reserveRevisions.mockResolvedValue({
         allowed: false,
         remaining: 0,
         resetsAt: new Date(),
@@ -302,7 +540,32 @@ describe("EbayAdapter", () => {
       });
 
       expect(result.success).toBe(true);
-      expect(mockClient.trackRevision).toHaveBeenCalled();
+      expect(mockClient.reserveRevisions).toHaveBeenCalledWith(testUserId, 1);
+    });
+
+    it("should update quantity on the inventory item", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({
+          offers: [{ offerId: "offer-123", sku: "TEST-SKU" }],
+        })
+        .mockResolvedValueOnce({
+          sku: "TEST-SKU",
+          product: { title: "Title", description: "Desc", imageUrls: [] },
+          condition: "NEW",
+          availability: { shipToLocationAvailability: { quantity: 6 } },
+        })
+        .mockResolvedValueOnce({});
+
+      const result = await adapter.update(testUserId, listingId, { quantity: 4 });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.request).toHaveBeenCalledTimes(3);
+
+      const updateCall = mockClient.request.mock.calls[2];
+      expect(updateCall[1].method).toBe("PUT");
+      expect(updateCall[1].path).toBe("/inventory_item/TEST-SKU");
+      expect(updateCall[1].body.availability.shipToLocationAvailability.quantity).toBe(4);
+      expect(updateCall[1].body.product.title).toBe("Title");
     });
   });
 
@@ -377,12 +640,309 @@ describe("EbayAdapter", () => {
       expect(orders[0].lineItems).toHaveLength(1);
     });
 
-    it("should return empty array on API error", async () => {
-      mockClient.request.mockRejectedValueOnce(new Error("API Error"));
+    it("should follow the next link through every page", async () => {
+      const order = {
+        orderId: "order-1",
+        creationDate: "2024-01-15T10:00:00Z",
+        orderFulfillmentStatus: "NOT_STARTED",
+        orderPaymentStatus: "PAID",
+        buyer: { username: "buyer123" },
+        pricingSummary: { total: { value: "20.00", currency: "USD" } },
+        lineItems: [],
+      };
+      mockClient.request
+        .mockResolvedValueOnce({
+          orders: [order],
+          total: 2,
+          offset: 0,
+          limit: 200,
+          next: "https://api.ebay.com/sell/fulfillment/v1/order?offset=1",
+        })
+        .mockResolvedValueOnce({
+          orders: [{ ...order, orderId: "order-2" }],
+          total: 2,
+          offset: 1,
+          limit: 200,
+        });
 
       const orders = await adapter.syncOrders(testUserId, sinceDate);
 
-      expect(orders).toEqual([]);
+      expect(orders.map((o) => o.externalOrderId)).toEqual(["order-1", "order-2"]);
+      expect(mockClient.request.mock.calls[1][1].path).toContain("offset=1");
+    });
+
+    it("should throw when a page fails", async () => {
+      mockClient.request.mockRejectedValueOnce(new Error("API Error"));
+
+      await expect(adapter.syncOrders(testUserId, sinceDate)).rejects.toThrow("API Error");
+    });
+  });
+
+  describe("getReturns", () => {
+    const sinceDate = new Date("2024-01-01T00:00:00.000Z");
+
+    it("should page through Post-Order return cases", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({
+          members: [
+            {
+              returnId: "5000012345",
+              orderId: "order-123",
+              buyerLoginName: "buyer123",
+              state: "REFUND_ISSUED",
+              creationInfo: {
+                item: { itemId: "listing-456", returnQuantity: 1 },
+                reason: "NOT_AS_DESCRIBED",
+                comments: { content: "Stain on sleeve" },
+                creationDate: { value: "2024-01-20T10:00:00.000Z" },
+              },
+              sellerTotalRefund: {
+                actualRefundAmount: { value: 45.99, currency: "USD" },
+              },
+            },
+          ],
+          paginationOutput: { offset: 1, totalPages: 2 },
+        })
+        .mockResolvedValueOnce({
+          members: [
+            {
+              returnId: "5000012346",
+              orderId: "order-124",
+              state: "RETURN_REQUESTED",
+              creationInfo: { item: { itemId: "listing-789" } },
+            },
+          ],
+          paginationOutput: { offset: 2, totalPages: 2 },
+        });
+
+      const result = await adapter.getReturns(testUserId, sinceDate);
+
+      expect(mockClient.request).toHaveBeenCalledWith(
+        testUserId,
+        expect.objectContaining({
+          method: "GET",
+          path: expect.stringContaining("/return/search?creation_date_range_from=2024-01-01T00"),
+          api: "postOrder",
+        })
+      );
+      expect(result.success).toBe(true);
+      expect(result.returns).toEqual([
+        {
+          returnId: "5000012345",
+          orderId: "order-123",
+          itemId: "listing-456",
+          quantity: 1,
+          state: "REFUND_ISSUED",
+          reason: "NOT_AS_DESCRIBED",
+          buyerComments: "Stain on sleeve",
+          buyerUsername: "buyer123",
+          refundAmount: 45.99,
+          createdAt: "2024-01-20T10:00:00.000Z",
+        },
+        expect.objectContaining({
+          returnId: "5000012346",
+          state: "RETURN_REQUESTED",
+          refundAmount: undefined,
+        }),
+      ]);
+    });
+
+    it("should report API errors", async () => {
+      mockClient.request.mockRejectedValueOnce(new Error("API Error"));
+
+      const result = await adapter.getReturns(testUserId, sinceDate);
+
+      expect(result).toEqual({ success: false, returns: [], error: "API Error" });
+    });
+  });
+
+  describe("getBusinessPolicies", () => {
+    it("should map policies and enabled locations", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({
+          total: 1,
+          fulfillmentPolicies: [{ fulfillmentPolicyId: "f-1", name: "Free Shipping" }],
+        })
+        .mockResolvedValueOnce({
+          total: 1,
+          paymentPolicies: [{ paymentPolicyId: "p-1", name: "Managed Payments" }],
+        })
+        .mockResolvedValueOnce({
+          total: 1,
+          returnPolicies: [{ returnPolicyId: "r-1", name: "30 Day Returns" }],
+        })
+        .mockResolvedValueOnce({
+          total: 2,
+          locations: [
+            { merchantLocationKey: "home", name: "Home", merchantLocationStatus: "ENABLED" },
+            { merchantLocationKey: "old", merchantLocationStatus: "DISABLED" },
+          ],
+        });
+
+      const result = await adapter.getBusinessPolicies(testUserId);
+
+      expect(result.success).toBe(true);
+      expect(result.policies).toEqual({
+        fulfillmentPolicies: [{ id: "f-1", name: "Free Shipping" }],
+        paymentPolicies: [{ id: "p-1", name: "Managed Payments" }],
+        returnPolicies: [{ id: "r-1", name: "30 Day Returns" }],
+        locations: [{ key: "home", name: "Home" }],
+      });
+      expect(mockClient.request.mock.calls[0][1]).toMatchObject({
+        path: "/fulfillment_policy?marketplace_id=EBAY_US",
+        api: "account",
+      });
+    });
+
+    it("should return an error result on API failure", async () => {
+      mockClient.request.mockRejectedValue(new Error("API Error"));
+
+      const result = await adapter.getBusinessPolicies(testUserId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("API Error");
+    });
+  });
+
+  describe("getListingMetrics", () => {
+    let mockTradingClient: { getActiveListings: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      mockTradingClient = { getActiveListings: vi.fn() };
+      adapter = new EbayAdapter(
+        mockClient as unknown as EbayClient,
+        mockTradingClient as unknown as EbayTradingClient
+      );
+      vi.spyOn(
+        adapter as unknown as { getAccessToken: (userId: string) => Promise<string> },
+        "getAccessToken"
+      ).mockResolvedValue("access-token");
+    });
+
+    it("should combine traffic report views with watcher counts", async () => {
+      mockClient.request.mockResolvedValueOnce({
+        header: {
+          dimensionKeys: [{ key: "LISTING_ID" }],
+          metrics: [{ key: "LISTING_VIEWS_TOTAL" }, { key: "LISTING_IMPRESSION_TOTAL" }],
+        },
+        records: [
+          {
+            dimensionValues: [{ value: "111" }],
+            metricValues: [{ value: 12, applicable: true }, { value: 340, applicable: true }],
+          },
+        ],
+      });
+      mockTradingClient.getActiveListings.mockResolvedValueOnce({
+        success: true,
+        listings: [
+          { itemId: "111", watchCount: 4 },
+          { itemId: "222", watchCount: 1 },
+        ],
+        totalPages: 1,
+      });
+
+      const result = await adapter.getListingMetrics(testUserId, ["111", "222"], "2024-01-14");
+
+      expect(result.success).toBe(true);
+      expect(result.metrics).toEqual([
+        { listingId: "111", views: 12, impressions: 340, watchers: 4 },
+        { listingId: "222", views: 0, impressions: null, watchers: 1 },
+      ]);
+
+      const [, options] = mockClient.request.mock.calls[0];
+      expect(options.api).toBe("analytics");
+      expect(decodeURIComponent(options.path)).toContain(
+        "listing_ids:{111|222},date_range:[20240114..20240114]"
+      );
+    });
+
+    it("should skip API calls when there are no listings", async () => {
+      const result = await adapter.getListingMetrics(testUserId, [], "2024-01-14");
+
+      expect(result).toEqual({ success: true, metrics: [] });
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it("should return an error result when watcher counts fail", async () => {
+      mockClient.request.mockResolvedValueOnce({ records: [] });
+      mockTradingClient.getActiveListings.mockResolvedValueOnce({
+        success: false,
+        listings: [],
+        totalPages: 0,
+        error: "931: Auth token is invalid",
+      });
+
+      const result = await adapter.getListingMetrics(testUserId, ["111"], "2024-01-14");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("931: Auth token is invalid");
+    });
+  });
+
+  describe("createShippingFulfillment", () => {
+    const orderId = "order-123";
+    const shippedDate = new Date("2024-01-16T12:00:00Z");
+
+    it("should upload tracking for every line item", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({
+          orderId,
+          lineItems: [
+            { lineItemId: "line-1", quantity: 1 },
+            { lineItemId: "line-2", quantity: 2 },
+          ],
+        })
+        .mockResolvedValueOnce(undefined);
+
+      const result = await adapter.createShippingFulfillment(testUserId, orderId, {
+        trackingNumber: "9400111899223344556677",
+        carrier: "usps",
+        shippedDate,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.request).toHaveBeenCalledTimes(2);
+
+      const fulfillmentCall = mockClient.request.mock.calls[1];
+      expect(fulfillmentCall[1]).toMatchObject({
+        method: "POST",
+        path: `/order/${orderId}/shipping_fulfillment`,
+        api: "fulfillment",
+      });
+      expect(fulfillmentCall[1].body).toEqual({
+        lineItems: [
+          { lineItemId: "line-1", quantity: 1 },
+          { lineItemId: "line-2", quantity: 2 },
+        ],
+        shippedDate: shippedDate.toISOString(),
+        shippingCarrierCode: "USPS",
+        trackingNumber: "9400111899223344556677",
+      });
+    });
+
+    it("should fail when the order has no line items", async () => {
+      mockClient.request.mockResolvedValueOnce({ orderId, lineItems: [] });
+
+      const result = await adapter.createShippingFulfillment(testUserId, orderId, {
+        trackingNumber: "1Z999AA10123456784",
+        carrier: "ups",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe("ORDER_NOT_FOUND");
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return an error result on API failure", async () => {
+      mockClient.request.mockRejectedValueOnce(new Error("API Error"));
+
+      const result = await adapter.createShippingFulfillment(testUserId, orderId, {
+        trackingNumber: "1Z999AA10123456784",
+        carrier: "ups",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("API Error");
     });
   });
 
@@ -2,10 +2,11 @@
  * eBay API Client Tests
  */
 
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   checkRevisionLimit,
-  incrementRevisionCount,
+  reserveRevisions,
+  releaseRevisions,
   EbayClient,
 } from "../client";
 import {
@@ -43,74 +44,72 @@ vi.mock("@/server/db/schema", () => ({
   },
 }));
 
+// Mock the shared rate limit service
+const { revisionStatus, mockCheckRateLimit, mockConsumeRateLimit, mockReleaseRateLimit } =
+  vi.hoisted(() => {
+    const revisionStatus = {
+      allowed: true,
+      limit: 200,
+      used: 0,
+      remaining: 200,
+      resetsAt: new Date("2024-01-16T08:00:00Z"),
+    };
+    return {
+      revisionStatus,
+      mockCheckRateLimit: vi.fn(() => Promise.resolve(revisionStatus)),
+      mockConsumeRateLimit: vi.fn(() => Promise.resolve(revisionStatus)),
+      mockReleaseRateLimit: vi.fn(() => Promise.resolve()),
+    };
+  });
+
+vi.mock("@/server/services/rate-limits", () => ({
+  checkRateLimit: mockCheckRateLimit,
+  consumeRateLimit: mockConsumeRateLimit,
+  releaseRateLimit: mockReleaseRateLimit,
+}));
+
 describe("Rate Limiter", () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    vi.useFakeTimers();
-    vi.setSystemTime(new Date("2024-01-15T12:00:00-08:00")); // Noon PT
-  });
-
-  afterEach(() => {
-    vi.useRealTimers();
   });
 
   describe("checkRevisionLimit", () => {
-    it("should allow revisions when under limit", () => {
-      const userId = "test-user-1";
-      const result = checkRevisionLimit(userId);
+    it("should read the ebayRevisions bucket", async () => {
+      const result = await checkRevisionLimit("test-user-1");
 
+      expect(mockCheckRateLimit).toHaveBeenCalledWith("test-user-1", "ebayRevisions");
       expect(result.allowed).toBe(true);
       expect(result.remaining).toBe(200);
     });
 
-    it("should track revision counts correctly", () => {
-      const userId = "test-user-2";
-
-      // First check - should be 200 remaining
-      let result = checkRevisionLimit(userId);
-      expect(result.remaining).toBe(200);
-
-      // Increment 10 times
-      for (let i = 0; i < 10; i++) {
-        incrementRevisionCount(userId);
-      }
-
-      // Check again - should be 190 remaining
-      result = checkRevisionLimit(userId);
-      expect(result.remaining).toBe(190);
-      expect(result.allowed).toBe(true);
-    });
-
-    it("should block when limit reached", () => {
-      const userId = "test-user-3";
-
-      // Increment to the limit
-      for (let i = 0; i < 200; i++) {
-        incrementRevisionCount(userId);
-      }
+    it("should pass through a blocked status", async () => {
+      mockCheckRateLimit.mockResolvedValueOnce({
+        ...revisionStatus,
+        allowed: false,
+        used: 200,
+        remaining: 0,
+      });
 
-      const result = checkRevisionLimit(userId);
+      const result = await checkRevisionLimit("test-user-2");
       expect(result.allowed).toBe(false);
       expect(result.remaining).toBe(0);
     });
+  });
 
-    it("should reset at midnight PT", () => {
-      const userId = "test-user-4";
-
-      // Use up some revisions
-      for (let i = 0; i < 50; i++) {
-        incrementRevisionCount(userId);
-      }
+  describe("reserveRevisions", () => {
+    it("should consume from the ebayRevisions bucket", async () => {
+      const result = await reserveRevisions("test-user-3", 3);
 
-      let result = checkRevisionLimit(userId);
-      expect(result.remaining).toBe(150);
+      expect(mockConsumeRateLimit).toHaveBeenCalledWith("test-user-3", "ebayRevisions", 3);
+      expect(result.allowed).toBe(true);
+    });
+  });
 
-      // Advance time past midnight PT
-      vi.setSystemTime(new Date("2024-01-16T00:01:00-08:00"));
+  describe("releaseRevisions", () => {
+    it("should give revisions back to the ebayRevisions bucket", async () => {
+      await releaseRevisions("test-user-4", 2);
 
-      result = checkRevisionLimit(userId);
-      expect(result.remaining).toBe(200);
-      expect(result.allowed).toBe(true);
+      expect(mockReleaseRateLimit).toHaveBeenCalledWith("test-user-4", "ebayRevisions", 2);
     });
   });
 });
@@ -149,9 +148,8 @@ describe("EbayClient", () => {
   });
 
   describe("getRevisionStatus", () => {
-    it("should return current revision status", () => {
-      const userId = "revision-test-user";
-      const status = client.getRevisionStatus(userId);
+    it("should return current revision status", async () => {
+      const status = await client.getRevisionStatus("revision-test-user");
 
       expect(status.allowed).toBe(true);
       expect(status.remaining).toBeLessThanOrEqual(200);
@@ -159,15 +157,11 @@ describe("EbayClient", () => {
     });
   });
 
-  describe("trackRevision", () => {
-    it("should increment revision count", () => {
-      const userId = "track-revision-user";
-
-      const before = client.getRevisionStatus(userId);
-      client.trackRevision(userId);
-      const after = client.getRevisionStatus(userId);
+  describe("releaseRevisions", () => {
+    it("should skip the write when nothing was reserved", async () => {
+      await client.releaseRevisions("release-revision-user", 0);
 
-      expect(after.remaining).toBe(before.remaining - 1);
+      expect(mockReleaseRateLimit).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,74 @@
+/**
+ * eBay Listing Policies Tests
+ *
+ * Tests for default selection, validation, and override merging.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/server/db/client", () => ({
+  db: {},
+}));
+
+import { pickDefaults, findInvalidPolicy, mergePolicies } from "../policies";
+
+const policies = {
+  fulfillmentPolicies: [{ id: "f-1", name: "Free Shipping" }],
+  paymentPolicies: [
+    { id: "p-1", name: "Managed Payments" },
+    { id: "p-2", name: "Immediate Payment" },
+  ],
+  returnPolicies: [{ id: "r-1", name: "30 Day Returns" }],
+  locations: [{ key: "home", name: "Home" }],
+};
+
+describe("eBay Listing Policies", () => {
+  describe("pickDefaults", () => {
+    it("should select categories with a single option", () => {
+      expect(pickDefaults(policies, {})).toEqual({
+        fulfillmentPolicyId: "f-1",
+        paymentPolicyId: undefined,
+        returnPolicyId: "r-1",
+        merchantLocationKey: "home",
+      });
+    });
+
+    it("should keep existing defaults", () => {
+      expect(pickDefaults(policies, { paymentPolicyId: "p-2" }).paymentPolicyId).toBe("p-2");
+    });
+  });
+
+  describe("findInvalidPolicy", () => {
+    it("should accept IDs that belong to the seller", () => {
+      expect(
+        findInvalidPolicy(policies, { paymentPolicyId: "p-2", merchantLocationKey: "home" })
+      ).toBeNull();
+    });
+
+    it("should report unknown IDs", () => {
+      expect(findInvalidPolicy(policies, { returnPolicyId: "r-9" })).toBe("returnPolicyId");
+    });
+  });
+
+  describe("mergePolicies", () => {
+    it("should layer item overrides on the defaults", () => {
+      expect(
+        mergePolicies(
+          { fulfillmentPolicyId: "f-1", paymentPolicyId: "p-1", returnPolicyId: "r-1" },
+          { paymentPolicyId: "p-2" }
+        )
+      ).toEqual({
+        fulfillmentPolicyId: "f-1",
+        paymentPolicyId: "p-2",
+        returnPolicyId: "r-1",
+        merchantLocationKey: undefined,
+      });
+    });
+
+    it("should return the defaults without overrides", () => {
+      expect(mergePolicies({ fulfillmentPolicyId: "f-1" }, null)).toMatchObject({
+        fulfillmentPolicyId: "f-1",
+      });
+    });
+  });
+});
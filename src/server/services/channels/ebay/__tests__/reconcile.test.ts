@@ -0,0 +1,267 @@
+/**
+ * eBay Inventory Reconciliation Tests
+ *
+ * Drift detection, and applying it to listings, items and the audit log
+ * against the real schema.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import { users, inventoryItems, channelListings, orders, auditLog } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { detectListingDrift, reconcileEbayInventory, type LocalEbayListing } from "../reconcile";
+import type { EbayInventoryItemData } from "../adapter";
+
+const USER = "user-1";
+
+const local: LocalEbayListing = {
+  listingId: "listing-1",
+  itemId: "item-1",
+  externalId: "ebay-111",
+  price: 50,
+  status: "active",
+  sku: "SKU-1",
+  title: "Vintage Denim Jacket",
+  quantity: 1,
+  itemStatus: "active",
+};
+
+function ebayItem(overrides: Partial<EbayInventoryItemData> = {}): EbayInventoryItemData {
+  return {
+    sku: "SKU-1",
+    title: "Vintage Denim Jacket",
+    description: "Denim jacket",
+    condition: "USED_GOOD",
+    quantity: 1,
+    imageUrls: [],
+    price: 50,
+    listingId: "ebay-111",
+    offerId: "offer-1",
+    offerStatus: "PUBLISHED",
+    ...overrides,
+  };
+}
+
+async function seedListing(id: string, sku: string, externalId: string | null) {
+  const now = new Date();
+  await db.insert(inventoryItems).values({
+    id: `item-${id}`,
+    userId: USER,
+    sku,
+    title: "Vintage Denim Jacket",
+    description: "Denim jacket",
+    condition: "good",
+    askingPrice: 50,
+    quantity: 1,
+    status: "active",
+    createdAt: now,
+    updatedAt: now,
+    listedAt: now,
+  });
+  await db.insert(channelListings).values({
+    id: `listing-${id}`,
+    itemId: `item-${id}`,
+    channel: "ebay",
+    externalId,
+    price: 50,
+    status: "active",
+    createdAt: now,
+  });
+}
+
+describe("eBay Inventory Reconciliation", () => {
+  describe("detectListingDrift", () => {
+    it("should report nothing when eBay matches", () => {
+      expect(detectListingDrift(local, ebayItem())).toEqual([]);
+    });
+
+    it("should detect price, quantity and title revisions", () => {
+      expect(
+        detectListingDrift(local, ebayItem({ price: 42, quantity: 3, title: "Levi's Denim Jacket" }))
+      ).toEqual([
+        { kind: "price", before: 50, after: 42 },
+        { kind: "quantity", before: 1, after: 3 },
+        { kind: "title", before: "Vintage Denim Jacket", after: "Levi's Denim Jacket" },
+      ]);
+    });
+
+    it("should detect listings ended or removed on eBay", () => {
+      expect(detectListingDrift(local, ebayItem({ offerStatus: "ENDED" }))).toEqual([
+        { kind: "ended", reason: "ended_on_ebay" },
+      ]);
+      expect(detectListingDrift(local, undefined)).toEqual([
+        { kind: "ended", reason: "removed_from_ebay" },
+      ]);
+    });
+
+    it("should detect listings republished on eBay", () => {
+      expect(detectListingDrift({ ...local, status: "ended" }, ebayItem())).toEqual([
+        { kind: "relisted" },
+      ]);
+    });
+
+    it("should leave sold listings to order sync", () => {
+      expect(detectListingDrift({ ...local, status: "sold" }, undefined)).toEqual([]);
+    });
+  });
+
+  describe("reconcileEbayInventory", () => {
+    beforeEach(async () => {
+      sqlite.exec(`
+        DELETE FROM audit_log;
+        DELETE FROM orders;
+        DELETE FROM channel_listings;
+        DELETE FROM inventory_items;
+        DELETE FROM users;
+      `);
+      const now = new Date();
+      await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+      await seedListing("1", "SKU-1", "ebay-111");
+      await seedListing("2", "SKU-2", null);
+    });
+
+    it("should apply revisions and audit each change as SYSTEM", async () => {
+      const result = await reconcileEbayInventory(USER, [
+        ebayItem({ price: 42, quantity: 2 }),
+        // Matched by SKU when the listing ID isn't known locally
+        ebayItem({ sku: "SKU-2", listingId: "ebay-222", title: "Wool Coat" }),
+      ]);
+
+      expect(result).toEqual({ listingsChecked: 2, ended: 0, relisted: 0, revised: 3, untracked: 0 });
+
+      const listing = await db.query.channelListings.findFirst({
+        where: eq(channelListings.id, "listing-1"),
+      });
+      const item = await db.query.inventoryItems.findFirst({ where: eq(inventoryItems.id, "item-1") });
+      const otherItem = await db.query.inventoryItems.findFirst({
+        where: eq(inventoryItems.id, "item-2"),
+      });
+      expect(listing?.price).toBe(42);
+      expect(item).toMatchObject({ askingPrice: 42, quantity: 2 });
+      expect(otherItem?.title).toBe("Wool Coat");
+
+      const entries = await db.select().from(auditLog);
+      expect(entries).toHaveLength(3);
+      expect(entries.every((e: { source: string }) => e.source === "SYSTEM")).toBe(true);
+      expect(entries.map((e: { actionType: string }) => e.actionType).sort()).toEqual([
+        "ITEM_UPDATE",
+        "ITEM_UPDATE",
+        "PRICE_CHANGE",
+      ]);
+    });
+
+    it("should leave quantity alone while a sale awaits its stock decrement", async () => {
+      await db.insert(orders).values({
+        id: "order-1",
+        userId: USER,
+        itemId: "item-1",
+        channel: "ebay",
+        salePrice: 50,
+        status: "paid",
+        orderedAt: new Date(),
+      });
+
+      // eBay already took the sold unit off
+      const result = await reconcileEbayInventory(USER, [
+        ebayItem({ quantity: 0 }),
+        ebayItem({ sku: "SKU-2", listingId: "ebay-222" }),
+      ]);
+
+      expect(result.revised).toBe(0);
+      const item = await db.query.inventoryItems.findFirst({ where: eq(inventoryItems.id, "item-1") });
+      expect(item?.quantity).toBe(1);
+    });
+
+    it("should end listings no longer live on eBay and move the item to draft", async () => {
+      const result = await reconcileEbayInventory(USER, [
+        ebayItem({ offerStatus: "ENDED" }),
+        ebayItem({ sku: "SKU-2", listingId: "ebay-222" }),
+      ]);
+
+      expect(result.ended).toBe(1);
+
+      const listing = await db.query.channelListings.findFirst({
+        where: eq(channelListings.id, "listing-1"),
+      });
+      const item = await db.query.inventoryItems.findFirst({ where: eq(inventoryItems.id, "item-1") });
+      expect(listing?.status).toBe("ended");
+      expect(listing?.endedAt).toBeInstanceOf(Date);
+      expect(item?.status).toBe("draft");
+
+      const [entry] = await db.select().from(auditLog);
+      expect(entry).toMatchObject({
+        actionType: "LISTING_DELIST",
+        source: "SYSTEM",
+        itemId: "item-1",
+        reversible: false,
+      });
+    });
+
+    it("should keep the item active while it's listed on another channel", async () => {
+      await db.insert(channelListings).values({
+        id: "listing-1-mercari",
+        itemId: "item-1",
+        channel: "mercari",
+        price: 50,
+        status: "active",
+        createdAt: new Date(),
+      });
+
+      await reconcileEbayInventory(USER, [ebayItem({ sku: "SKU-2", listingId: "ebay-222" })]);
+
+      const item = await db.query.inventoryItems.findFirst({ where: eq(inventoryItems.id, "item-1") });
+      expect(item?.status).toBe("active");
+    });
+
+    it("should not match a relisted listing's replaced row by SKU", async () => {
+      await db
+        .update(channelListings)
+        .set({ status: "ended", endedAt: new Date() })
+        .where(eq(channelListings.id, "listing-1"));
+      await db.insert(channelListings).values({
+        id: "listing-1-relist",
+        itemId: "item-1",
+        channel: "ebay",
+        externalId: "ebay-999",
+        price: 50,
+        status: "active",
+        relistedFromId: "listing-1",
+        createdAt: new Date(),
+      });
+
+      const result = await reconcileEbayInventory(USER, [
+        ebayItem({ listingId: "ebay-999" }),
+        ebayItem({ sku: "SKU-2", listingId: "ebay-222" }),
+      ]);
+
+      expect(result).toMatchObject({ relisted: 0, ended: 0, revised: 0 });
+      const replaced = await db.query.channelListings.findFirst({
+        where: eq(channelListings.id, "listing-1"),
+      });
+      expect(replaced?.status).toBe("ended");
+      expect(await db.select().from(auditLog)).toHaveLength(0);
+    });
+
+    it("should not end anything on an empty snapshot", async () => {
+      const result = await reconcileEbayInventory(USER, []);
+
+      expect(result.ended).toBe(0);
+      expect(await db.select().from(auditLog)).toHaveLength(0);
+    });
+
+    it("should count eBay items with no local listing as untracked", async () => {
+      const result = await reconcileEbayInventory(USER, [
+        ebayItem(),
+        ebayItem({ sku: "SKU-2", listingId: "ebay-222" }),
+        ebayItem({ sku: "SKU-3", listingId: "ebay-333" }),
+      ]);
+
+      expect(result).toMatchObject({ revised: 0, untracked: 1 });
+    });
+  });
+});
@@ -6,7 +6,11 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   EbayTradingClient,
   buildRespondToBestOfferXml,
+  buildGetBestOffersXml,
+  buildGetActiveListingsXml,
   parseRespondToBestOfferResponse,
+  parseGetBestOffersResponse,
+  parseGetActiveListingsResponse,
   type RespondToBestOfferInput,
 } from "../trading";
 import { ChannelApiError } from "../../types";
@@ -198,6 +202,211 @@ describe("parseRespondToBestOfferResponse", () => {
   });
 });
 
+describe("buildGetBestOffersXml", () => {
+  it("should default to active offers across all listings", () => {
+    const xml = buildGetBestOffersXml();
+
+    expect(xml).toContain("<GetBestOffersRequest");
+    expect(xml).toContain("<BestOfferStatus>Active</BestOfferStatus>");
+    expect(xml).not.toContain("<ItemID>");
+  });
+
+  it("should filter by item ID when provided", () => {
+    const xml = buildGetBestOffersXml({ itemId: "123456789", status: "All" });
+
+    expect(xml).toContain("<ItemID>123456789</ItemID>");
+    expect(xml).toContain("<BestOfferStatus>All</BestOfferStatus>");
+  });
+});
+
+describe("parseGetBestOffersResponse", () => {
+  it("should parse offers grouped by item", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<GetBestOffersResponse xmlns="urn:ebay:apis:eBLBaseComponents">
+  <Ack>Success</Ack>
+  <ItemBestOffersArray>
+    <ItemBestOffers>
+      <Role>Seller</Role>
+      <Item>
+        <ItemID>111</ItemID>
+        <BuyItNowPrice currencyID="USD">100.00</BuyItNowPrice>
+      </Item>
+      <BestOfferArray>
+        <BestOffer>
+          <BestOfferID>offer-001</BestOfferID>
+          <ExpirationTime>2025-01-03T10:00:00.000Z</ExpirationTime>
+          <Buyer>
+            <UserID>buyer42</UserID>
+          </Buyer>
+          <Price currencyID="USD">80.00</Price>
+          <Status>Pending</Status>
+          <Quantity>1</Quantity>
+          <BuyerMessage>Would you take 80?</BuyerMessage>
+          <BestOfferCodeType>BuyerBestOffer</BestOfferCodeType>
+        </BestOffer>
+        <BestOffer>
+          <BestOfferID>offer-002</BestOfferID>
+          <Buyer>
+            <UserID>buyer7</UserID>
+          </Buyer>
+          <Price currencyID="USD">65.50</Price>
+          <Status>Pending</Status>
+          <Quantity>2</Quantity>
+        </BestOffer>
+      </BestOfferArray>
+    </ItemBestOffers>
+    <ItemBestOffers>
+      <Item>
+        <ItemID>222</ItemID>
+      </Item>
+      <BestOfferArray>
+        <BestOffer>
+          <BestOfferID>offer-003</BestOfferID>
+          <Price currencyID="USD">20.00</Price>
+          <Status>Pending</Status>
+        </BestOffer>
+      </BestOfferArray>
+    </ItemBestOffers>
+  </ItemBestOffersArray>
+</GetBestOffersResponse>`;
+
+    const result = parseGetBestOffersResponse(xml);
+
+    expect(result.success).toBe(true);
+    expect(result.offers).toHaveLength(3);
+    expect(result.offers[0]).toEqual({
+      bestOfferId: "offer-001",
+      itemId: "111",
+      price: 80,
+      currency: "USD",
+      status: "Pending",
+      buyerUsername: "buyer42",
+      buyerMessage: "Would you take 80?",
+      quantity: 1,
+      expiresAt: "2025-01-03T10:00:00.000Z",
+      offerType: "BuyerBestOffer",
+    });
+    expect(result.offers[1].price).toBe(65.5);
+    expect(result.offers[1].quantity).toBe(2);
+    expect(result.offers[2].itemId).toBe("222");
+  });
+
+  it("should parse an item-filtered response", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<GetBestOffersResponse xmlns="urn:ebay:apis:eBLBaseComponents">
+  <Ack>Success</Ack>
+  <BestOfferArray>
+    <BestOffer>
+      <BestOfferID>offer-010</BestOfferID>
+      <Price currencyID="USD">45.00</Price>
+      <Status>Pending</Status>
+    </BestOffer>
+  </BestOfferArray>
+  <Item>
+    <ItemID>333</ItemID>
+  </Item>
+</GetBestOffersResponse>`;
+
+    const result = parseGetBestOffersResponse(xml);
+
+    expect(result.offers).toHaveLength(1);
+    expect(result.offers[0].itemId).toBe("333");
+    expect(result.offers[0].bestOfferId).toBe("offer-010");
+  });
+
+  it("should return no offers when none are pending", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<GetBestOffersResponse xmlns="urn:ebay:apis:eBLBaseComponents">
+  <Ack>Success</Ack>
+</GetBestOffersResponse>`;
+
+    const result = parseGetBestOffersResponse(xml);
+
+    expect(result.success).toBe(true);
+    expect(result.offers).toHaveLength(0);
+  });
+
+  it("should parse a failure response", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<GetBestOffersResponse xmlns="urn:ebay:apis:eBLBaseComponents">
+  <Ack>Failure</Ack>
+  <Errors>
+    <ErrorCode>931</ErrorCode>
+    <ShortMessage>Auth token is invalid.</ShortMessage>
+    <LongMessage>Validation of the authentication token in API request failed.</LongMessage>
+  </Errors>
+</GetBestOffersResponse>`;
+
+    const result = parseGetBestOffersResponse(xml);
+
+    expect(result.success).toBe(false);
+    expect(result.offers).toHaveLength(0);
+    expect(result.error).toContain("931");
+  });
+});
+
+describe("buildGetActiveListingsXml", () => {
+  it("should request the active list with pagination", () => {
+    const xml = buildGetActiveListingsXml({ pageNumber: 3 });
+
+    expect(xml).toContain("<GetMyeBaySellingRequest");
+    expect(xml).toContain("<ActiveList>");
+    expect(xml).toContain("<EntriesPerPage>200</EntriesPerPage>");
+    expect(xml).toContain("<PageNumber>3</PageNumber>");
+  });
+});
+
+describe("parseGetActiveListingsResponse", () => {
+  it("should parse watch counts and total pages", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<GetMyeBaySellingResponse xmlns="urn:ebay:apis:eBLBaseComponents">
+  <Ack>Success</Ack>
+  <ActiveList>
+    <ItemArray>
+      <Item>
+        <ItemID>111</ItemID>
+        <WatchCount>4</WatchCount>
+      </Item>
+      <Item>
+        <ItemID>222</ItemID>
+      </Item>
+    </ItemArray>
+    <PaginationResult>
+      <TotalNumberOfPages>2</TotalNumberOfPages>
+      <TotalNumberOfEntries>250</TotalNumberOfEntries>
+    </PaginationResult>
+  </ActiveList>
+</GetMyeBaySellingResponse>`;
+
+    const result = parseGetActiveListingsResponse(xml);
+
+    expect(result.success).toBe(true);
+    expect(result.listings).toEqual([
+      { itemId: "111", watchCount: 4 },
+      { itemId: "222", watchCount: 0 },
+    ]);
+    expect(result.totalPages).toBe(2);
+  });
+
+  it("should return the error on failure", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<GetMyeBaySellingResponse xmlns="urn:ebay:apis:eBLBaseComponents">
+  <Ack>Failure</Ack>
+  <Errors>
+    <ShortMessage>Invalid token</ShortMessage>
+    <LongMessage>Auth token is invalid.</LongMessage>
+    <ErrorCode>931</ErrorCode>
+  </Errors>
+</GetMyeBaySellingResponse>`;
+
+    const result = parseGetActiveListingsResponse(xml);
+
+    expect(result.success).toBe(false);
+    expect(result.listings).toEqual([]);
+    expect(result.error).toBe("931: Auth token is invalid.");
+  });
+});
+
 describe("EbayTradingClient", () => {
   let client: EbayTradingClient;
 
@@ -435,4 +644,45 @@ describe("EbayTradingClient", () => {
       ).rejects.toThrow(ChannelApiError);
     });
   });
+
+  describe("getBestOffers", () => {
+    it("should call GetBestOffers and parse the offers", async () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<GetBestOffersResponse xmlns="urn:ebay:apis:eBLBaseComponents">
+  <Ack>Success</Ack>
+  <ItemBestOffersArray>
+    <ItemBestOffers>
+      <Item><ItemID>111</ItemID></Item>
+      <BestOfferArray>
+        <BestOffer>
+          <BestOfferID>offer-001</BestOfferID>
+          <Price currencyID="USD">80.00</Price>
+          <Status>Pending</Status>
+        </BestOffer>
+      </BestOfferArray>
+    </ItemBestOffers>
+  </ItemBestOffersArray>
+</GetBestOffersResponse>`;
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: vi.fn().mockResolvedValue(xml),
+      });
+
+      const result = await client.getBestOffers("test-token");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.sandbox.ebay.com/ws/api.dll",
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            "X-EBAY-API-CALL-NAME": "GetBestOffers",
+          }),
+        })
+      );
+      expect(result.success).toBe(true);
+      expect(result.offers).toHaveLength(1);
+      expect(result.offers[0].bestOfferId).toBe("offer-001");
+    });
+  });
 });
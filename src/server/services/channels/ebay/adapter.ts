@@ -1,7 +1,8 @@
 /**
  * eBay Channel Adapter for ResellerOS
  *
- * Native integration with eBay's Inventory, Fulfillment, and Trading APIs.
+ * Native integration with eBay's Inventory, Fulfillment, Analytics, and
+ * Trading APIs.
  * Implements the ChannelAdapter interface for full automation support.
  */
 
@@ -13,14 +14,17 @@ import {
   type DelistResult,
   type UpdateResult,
   type ChannelOrder,
+  type ListingPolicies,
   ChannelApiError,
   RateLimitError,
   CONDITION_TO_EBAY,
 } from "../types";
 import { EbayClient, getEbayClient } from "./client";
+import type { RateLimitStatus } from "@/server/services/rate-limits";
 import {
   EbayTradingClient,
   getEbayTradingClient,
+  type GetBestOffersResult,
   type OfferAction,
   type RespondToBestOfferResult,
 } from "./trading";
@@ -132,6 +136,216 @@ interface EbayOrderResponse {
   total: number;
   offset: number;
   limit: number;
+  next?: string;
+}
+
+interface EbayOrderLineItemsResponse {
+  orderId: string;
+  lineItems: Array<{
+    lineItemId: string;
+    quantity: number;
+  }>;
+}
+
+interface EbayShippingFulfillmentRequest {
+  lineItems: Array<{
+    lineItemId: string;
+    quantity: number;
+  }>;
+  shippedDate: string;
+  shippingCarrierCode: string;
+  trackingNumber: string;
+}
+
+// ============ FULFILLMENT TYPES ============
+
+/**
+ * Shipment details uploaded to eBay for an order
+ */
+export interface ShippingFulfillmentInput {
+  trackingNumber: string;
+  /** Carrier key (usps, ups, fedex, dhl, other) */
+  carrier: string;
+  shippedDate?: Date;
+}
+
+/**
+ * eBay shipping carrier codes, keyed by our carrier values
+ */
+const EBAY_CARRIER_CODES: Record<string, string> = {
+  usps: "USPS",
+  ups: "UPS",
+  fedex: "FEDEX",
+  dhl: "DHL",
+  other: "OTHER",
+};
+
+// ============ ACCOUNT TYPES ============
+
+interface EbayPolicyListResponse {
+  total: number;
+  fulfillmentPolicies?: Array<{ fulfillmentPolicyId: string; name: string }>;
+  paymentPolicies?: Array<{ paymentPolicyId: string; name: string }>;
+  returnPolicies?: Array<{ returnPolicyId: string; name: string }>;
+}
+
+interface EbayLocationsResponse {
+  total: number;
+  locations?: Array<{
+    merchantLocationKey: string;
+    name?: string;
+    merchantLocationStatus?: string;
+  }>;
+}
+
+/**
+ * A seller's business policies and inventory locations
+ */
+export interface EbayBusinessPolicies {
+  fulfillmentPolicies: Array<{ id: string; name: string }>;
+  paymentPolicies: Array<{ id: string; name: string }>;
+  returnPolicies: Array<{ id: string; name: string }>;
+  locations: Array<{ key: string; name: string }>;
+}
+
+export interface GetBusinessPoliciesResult {
+  success: boolean;
+  policies?: EbayBusinessPolicies;
+  error?: string;
+}
+
+// ============ ANALYTICS TYPES ============
+
+interface EbayTrafficReportResponse {
+  header?: {
+    dimensionKeys?: Array<{ key: string }>;
+    metrics?: Array<{ key: string }>;
+  };
+  records?: Array<{
+    dimensionValues?: Array<{ value: string }>;
+    metricValues?: Array<{ value?: number | string; applicable?: boolean }>;
+  }>;
+}
+
+/**
+ * One day of traffic for a listing, plus its current watcher count
+ */
+export interface EbayListingMetrics {
+  /** eBay listing (legacy item) ID */
+  listingId: string;
+  views: number;
+  impressions: number | null;
+  watchers: number;
+}
+
+export interface GetListingMetricsResult {
+  success: boolean;
+  metrics: EbayListingMetrics[];
+  error?: string;
+}
+
+// ============ MARKETING TYPES ============
+
+/**
+ * A percent-off markdown sale across specific listings
+ */
+export interface MarkdownPromotionInput {
+  name: string;
+  /** Whole percent off, e.g. 20 for 20% */
+  discountPercent: number;
+  /** eBay listing IDs (channelListings.externalId) */
+  listingIds: string[];
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface MarkdownPromotionResult {
+  success: boolean;
+  promotionId?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+interface EbayItemPriceMarkdown {
+  name: string;
+  description: string;
+  marketplaceId: string;
+  startDate: string;
+  endDate: string;
+  promotionStatus: "DRAFT" | "SCHEDULED";
+  applyFreeShipping: boolean;
+  autoSelectFutureInventory: boolean;
+  blockPriceIncreaseInItemRevision: boolean;
+  selectedInventoryDiscounts: Array<{
+    discountBenefit: { percentageOffItem: string };
+    inventoryCriterion: {
+      inventoryCriterionType: "INVENTORY_BY_VALUE";
+      listingIds: string[];
+    };
+  }>;
+}
+
+// ============ POST-ORDER TYPES ============
+
+interface EbayAmount {
+  value: number | string;
+  currency?: string;
+}
+
+interface EbayReturnSearchResponse {
+  members?: Array<{
+    returnId: string;
+    orderId?: string;
+    buyerLoginName?: string;
+    state?: string;
+    status?: string;
+    creationInfo?: {
+      item?: {
+        itemId?: string;
+        transactionId?: string;
+        returnQuantity?: number;
+      };
+      reason?: string;
+      comments?: { content?: string };
+      creationDate?: { value?: string };
+    };
+    sellerTotalRefund?: {
+      estimatedRefundAmount?: EbayAmount;
+      actualRefundAmount?: EbayAmount;
+    };
+  }>;
+  paginationOutput?: {
+    offset?: number;
+    totalPages?: number;
+    totalEntries?: number;
+  };
+}
+
+/**
+ * A buyer return case from the Post-Order API
+ */
+export interface EbayReturnCase {
+  returnId: string;
+  /** eBay order ID (matches orders.externalOrderId) */
+  orderId: string;
+  /** eBay item ID (matches channelListings.externalId) */
+  itemId?: string;
+  quantity: number;
+  /** Return state, e.g. RETURN_REQUESTED, ITEM_DELIVERED, REFUND_ISSUED, CLOSED */
+  state: string;
+  reason?: string;
+  buyerComments?: string;
+  buyerUsername?: string;
+  /** Refund actually issued to the buyer, once there is one */
+  refundAmount?: number;
+  /** ISO date string */
+  createdAt: string;
+}
+
+export interface GetReturnsResult {
+  success: boolean;
+  returns: EbayReturnCase[];
+  error?: string;
 }
 
 // ============ INVENTORY TYPES ============
@@ -202,6 +416,24 @@ export interface EbayInventoryItemData {
   offerStatus?: string;
 }
 
+// ============ HELPERS ============
+
+/**
+ * List the policy fields eBay requires that are missing from a selection
+ */
+export function getMissingPolicies(policies: ListingPolicies | undefined): string[] {
+  const required: Array<[keyof ListingPolicies, string]> = [
+    ["fulfillmentPolicyId", "fulfillment policy"],
+    ["paymentPolicyId", "payment policy"],
+    ["returnPolicyId", "return policy"],
+    ["merchantLocationKey", "inventory location"],
+  ];
+
+  return required
+    .filter(([field]) => !policies?.[field])
+    .map(([, label]) => label);
+}
+
 // ============ EBAY ADAPTER ============
 
 export class EbayAdapter implements ChannelAdapter {
@@ -219,14 +451,6 @@ export class EbayAdapter implements ChannelAdapter {
   private client: EbayClient;
   private tradingClient: EbayTradingClient;
 
-  // Default policy IDs - these should be configured per user in production
-  private defaultPolicies = {
-    fulfillmentPolicyId: process.env.EBAY_FULFILLMENT_POLICY_ID ?? "",
-    paymentPolicyId: process.env.EBAY_PAYMENT_POLICY_ID ?? "",
-    returnPolicyId: process.env.EBAY_RETURN_POLICY_ID ?? "",
-    merchantLocationKey: process.env.EBAY_MERCHANT_LOCATION_KEY ?? "",
-  };
-
   constructor(client?: EbayClient, tradingClient?: EbayTradingClient) {
     this.client = client ?? getEbayClient();
     this.tradingClient = tradingClient ?? getEbayTradingClient();
@@ -249,6 +473,8 @@ export class EbayAdapter implements ChannelAdapter {
       "https://api.ebay.com/oauth/api_scope/sell.inventory",
       "https://api.ebay.com/oauth/api_scope/sell.fulfillment",
       "https://api.ebay.com/oauth/api_scope/sell.account",
+      "https://api.ebay.com/oauth/api_scope/sell.analytics.readonly",
+      "https://api.ebay.com/oauth/api_scope/sell.marketing",
     ].join(" ");
 
     return `https://auth.${environment}ebay.com/oauth2/authorize?client_id=${clientId}&response_type=code&redirect_uri=${encodeURIComponent(redirectUri)}&scope=${encodeURIComponent(scopes)}`;
@@ -282,16 +508,24 @@ export class EbayAdapter implements ChannelAdapter {
    * Flow: 1. Create inventory item, 2. Create offer, 3. Publish offer
    */
   async publish(userId: string, listing: ListingData): Promise<PublishResult> {
-    // Check rate limit before making revisions
-    const rateStatus = this.client.getRevisionStatus(userId);
-    if (!rateStatus.allowed) {
+    // eBay rejects offers without business policies and a ship-from location
+    const missingPolicies = getMissingPolicies(listing.policies);
+    if (missingPolicies.length > 0) {
       return {
         success: false,
-        error: `Daily revision limit reached (${200 - rateStatus.remaining}/200). Resets at ${rateStatus.resetsAt.toISOString()}`,
-        errorCode: "RATE_LIMIT_EXCEEDED",
+        error: `eBay listing policies not configured: ${missingPolicies.join(", ")}. Choose defaults in Settings.`,
+        errorCode: "POLICIES_NOT_CONFIGURED",
       };
     }
 
+    // Reserve all three revisions before making any of them
+    const reserved = 3;
+    const rateStatus = await this.client.reserveRevisions(userId, reserved);
+    if (!rateStatus.allowed) {
+      return this.revisionLimitError(rateStatus);
+    }
+    let revisions = 0;
+
     try {
       // Step 1: Create inventory item
       const inventoryItem = this.buildInventoryItem(listing);
@@ -300,9 +534,7 @@ export class EbayAdapter implements ChannelAdapter {
         path: `/inventory_item/${encodeURIComponent(listing.sku)}`,
         body: inventoryItem,
       });
-
-      // Track revision
-      this.client.trackRevision(userId);
+      revisions++;
 
       // Step 2: Create offer
       const offer = this.buildOffer(listing);
@@ -311,28 +543,24 @@ export class EbayAdapter implements ChannelAdapter {
         path: "/offer",
         body: offer,
       });
-
-      // Track revision
-      this.client.trackRevision(userId);
+      revisions++;
 
       // Step 3: Publish offer
       const publishResponse = await this.client.request<EbayPublishResponse>(userId, {
         method: "POST",
         path: `/offer/${offerResponse.offerId}/publish`,
       });
-
-      // Track revision
-      this.client.trackRevision(userId);
+      revisions++;
 
       const listingId = publishResponse.listingId;
-      const environment = process.env.EBAY_ENVIRONMENT === "production" ? "" : "sandbox.";
 
       return {
         success: true,
         externalId: listingId,
-        externalUrl: `https://www.${environment}ebay.com/itm/${listingId}`,
+        externalUrl: this.getListingUrl(listingId),
       };
     } catch (error) {
+      await this.client.releaseRevisions(userId, reserved - revisions);
       return this.handleError(error, "publish");
     }
   }
@@ -345,15 +573,23 @@ export class EbayAdapter implements ChannelAdapter {
     externalId: string,
     updates: Partial<ListingData>
   ): Promise<UpdateResult> {
-    // Check rate limit
-    const rateStatus = this.client.getRevisionStatus(userId);
+    // Title, description, condition, images, and quantity live on the
+    // inventory item and price on the offer; each write is one revision
+    const updatesInventoryItem = Boolean(
+      updates.title ||
+        updates.description ||
+        updates.condition ||
+        updates.imageUrls ||
+        updates.quantity !== undefined
+    );
+    const updatesOffer = updates.price !== undefined;
+    const reserved = Number(updatesInventoryItem) + Number(updatesOffer);
+
+    const rateStatus = await this.client.reserveRevisions(userId, reserved);
     if (!rateStatus.allowed) {
-      return {
-        success: false,
-        error: `Daily revision limit reached. Resets at ${rateStatus.resetsAt.toISOString()}`,
-        errorCode: "RATE_LIMIT_EXCEEDED",
-      };
+      return this.revisionLimitError(rateStatus);
     }
+    let revisions = 0;
 
     try {
       // For eBay, we need to update via the SKU, not the listing ID
@@ -367,6 +603,7 @@ export class EbayAdapter implements ChannelAdapter {
       });
 
       if (!offers.offers || offers.offers.length === 0) {
+        await this.client.releaseRevisions(userId, reserved);
         return {
           success: false,
           error: "No offer found for listing",
@@ -376,34 +613,9 @@ export class EbayAdapter implements ChannelAdapter {
 
       const offer = offers.offers[0];
 
-      // Update inventory item if title, description, condition, or images changed
-      if (updates.title || updates.description || updates.condition || updates.imageUrls) {
-        const currentItem = await this.client.request<EbayInventoryItem>(userId, {
-          method: "GET",
-          path: `/inventory_item/${encodeURIComponent(offer.sku)}`,
-        });
-
-        const updatedItem: Partial<EbayInventoryItem> = {
-          ...currentItem,
-          product: {
-            ...currentItem.product,
-            title: updates.title ?? currentItem.product.title,
-            description: updates.description ?? currentItem.product.description,
-            imageUrls: updates.imageUrls ?? currentItem.product.imageUrls,
-          },
-        };
-
-        if (updates.condition) {
-          updatedItem.condition = CONDITION_TO_EBAY[updates.condition];
-        }
-
-        await this.client.request(userId, {
-          method: "PUT",
-          path: `/inventory_item/${encodeURIComponent(offer.sku)}`,
-          body: updatedItem,
-        });
-
-        this.client.trackRevision(userId);
+      if (updatesInventoryItem) {
+        await this.updateInventoryItem(userId, offer.sku, updates);
+        revisions++;
       }
 
       // Update price via offer update
@@ -420,29 +632,62 @@ export class EbayAdapter implements ChannelAdapter {
             },
           },
         });
-
-        this.client.trackRevision(userId);
-      }
-
-      // Update quantity
-      if (updates.quantity !== undefined) {
-        await this.client.request(userId, {
-          method: "PUT",
-          path: `/offer/${offer.offerId}`,
-          body: {
-            availableQuantity: updates.quantity,
-          },
-        });
-
-        this.client.trackRevision(userId);
+        revisions++;
       }
 
       return { success: true };
     } catch (error) {
+      await this.client.releaseRevisions(userId, reserved - revisions);
       return this.handleError(error, "update");
     }
   }
 
+  /**
+   * Merge listing changes into the inventory item (createOrReplaceInventoryItem).
+   * Available quantity lives on the inventory item, so quantity changes go
+   * here rather than through the offer.
+   */
+  private async updateInventoryItem(
+    userId: string,
+    sku: string,
+    updates: Partial<ListingData>
+  ): Promise<void> {
+    const currentItem = await this.client.request<EbayInventoryItem>(userId, {
+      method: "GET",
+      path: `/inventory_item/${encodeURIComponent(sku)}`,
+    });
+
+    const updatedItem: Partial<EbayInventoryItem> = {
+      ...currentItem,
+      product: {
+        ...currentItem.product,
+        title: updates.title ?? currentItem.product.title,
+        description: updates.description ?? currentItem.product.description,
+        imageUrls: updates.imageUrls ?? currentItem.product.imageUrls,
+      },
+    };
+
+    if (updates.condition) {
+      updatedItem.condition = CONDITION_TO_EBAY[updates.condition];
+    }
+
+    if (updates.quantity !== undefined) {
+      updatedItem.availability = {
+        ...currentItem.availability,
+        shipToLocationAvailability: {
+          ...currentItem.availability?.shipToLocationAvailability,
+          quantity: updates.quantity,
+        },
+      };
+    }
+
+    await this.client.request(userId, {
+      method: "PUT",
+      path: `/inventory_item/${encodeURIComponent(sku)}`,
+      body: updatedItem,
+    });
+  }
+
   /**
    * Update the price of an eBay listing
    */
@@ -451,14 +696,10 @@ export class EbayAdapter implements ChannelAdapter {
     externalId: string,
     newPrice: number
   ): Promise<UpdateResult> {
-    // Check rate limit
-    const rateStatus = this.client.getRevisionStatus(userId);
+    // Reserve the revision before calling eBay
+    const rateStatus = await this.client.reserveRevisions(userId);
     if (!rateStatus.allowed) {
-      return {
-        success: false,
-        error: `Daily revision limit reached. Resets at ${rateStatus.resetsAt.toISOString()}`,
-        errorCode: "RATE_LIMIT_EXCEEDED",
-      };
+      return this.revisionLimitError(rateStatus);
     }
 
     try {
@@ -469,6 +710,7 @@ export class EbayAdapter implements ChannelAdapter {
       });
 
       if (!offers.offers || offers.offers.length === 0) {
+        await this.client.releaseRevisions(userId);
         return {
           success: false,
           error: "No offer found for listing",
@@ -492,10 +734,9 @@ export class EbayAdapter implements ChannelAdapter {
         },
       });
 
-      this.client.trackRevision(userId);
-
       return { success: true };
     } catch (error) {
+      await this.client.releaseRevisions(userId);
       return this.handleError(error, "updatePrice");
     }
   }
@@ -504,14 +745,10 @@ export class EbayAdapter implements ChannelAdapter {
    * Delist an item from eBay (set quantity to 0)
    */
   async delist(userId: string, externalId: string): Promise<DelistResult> {
-    // Check rate limit
-    const rateStatus = this.client.getRevisionStatus(userId);
+    // Reserve the revision before calling eBay
+    const rateStatus = await this.client.reserveRevisions(userId);
     if (!rateStatus.allowed) {
-      return {
-        success: false,
-        error: `Daily revision limit reached. Resets at ${rateStatus.resetsAt.toISOString()}`,
-        errorCode: "RATE_LIMIT_EXCEEDED",
-      };
+      return this.revisionLimitError(rateStatus);
     }
 
     try {
@@ -522,6 +759,7 @@ export class EbayAdapter implements ChannelAdapter {
       });
 
       if (!offers.offers || offers.offers.length === 0) {
+        await this.client.releaseRevisions(userId);
         return {
           success: false,
           error: "No offer found for listing",
@@ -540,32 +778,473 @@ export class EbayAdapter implements ChannelAdapter {
         },
       });
 
-      this.client.trackRevision(userId);
-
       return { success: true };
     } catch (error) {
+      await this.client.releaseRevisions(userId);
       return this.handleError(error, "delist");
     }
   }
 
+  /**
+   * End an eBay listing by withdrawing its offer. Unlike delist, the
+   * listing is closed rather than left live at quantity 0.
+   */
+  async endListing(userId: string, externalId: string): Promise<DelistResult> {
+    // Reserve the revision before calling eBay
+    const rateStatus = await this.client.reserveRevisions(userId);
+    if (!rateStatus.allowed) {
+      return this.revisionLimitError(rateStatus);
+    }
+
+    try {
+      // Get the offer for this listing
+      const offers = await this.client.request<{ offers: EbayOfferResponse[] }>(userId, {
+        method: "GET",
+        path: `/offer?listing_id=${externalId}`,
+      });
+
+      if (!offers.offers || offers.offers.length === 0) {
+        await this.client.releaseRevisions(userId);
+        return {
+          success: false,
+          error: "No offer found for listing",
+          errorCode: "OFFER_NOT_FOUND",
+        };
+      }
+
+      await this.client.request(userId, {
+        method: "POST",
+        path: `/offer/${offers.offers[0].offerId}/withdraw`,
+      });
+
+      return { success: true };
+    } catch (error) {
+      await this.client.releaseRevisions(userId);
+      return this.handleError(error, "endListing");
+    }
+  }
+
+  /**
+   * Relist an eBay listing: end the old offer and publish a fresh one for
+   * the same SKU, which gets a new listing ID.
+   * Flow: 1. Read the offer, 2. Withdraw it, 3. Delete it, 4. Create and
+   * publish a copy
+   *
+   * If a step after the withdrawal fails the old listing stays ended and
+   * the result carries errorCode RELIST_INCOMPLETE so the caller can end
+   * its local copy too.
+   */
+  async relist(userId: string, externalId: string): Promise<PublishResult> {
+    // Withdraw, create, and publish are revisions; the delete is not
+    const reserved = 3;
+    const rateStatus = await this.client.reserveRevisions(userId, reserved);
+    if (!rateStatus.allowed) {
+      return this.revisionLimitError(rateStatus);
+    }
+    let revisions = 0;
+
+    // Once the old listing is withdrawn, a failure leaves nothing live on eBay
+    let withdrawn = false;
+
+    try {
+      // Step 1: Find the offer behind this listing and read it in full
+      const offers = await this.client.request<{ offers: EbayOfferResponse[] }>(userId, {
+        method: "GET",
+        path: `/offer?listing_id=${externalId}`,
+      });
+
+      if (!offers.offers || offers.offers.length === 0) {
+        await this.client.releaseRevisions(userId, reserved);
+        return {
+          success: false,
+          error: "No offer found for listing",
+          errorCode: "OFFER_NOT_FOUND",
+        };
+      }
+
+      const offerId = offers.offers[0].offerId;
+      const current = await this.client.request<EbayOffer>(userId, {
+        method: "GET",
+        path: `/offer/${offerId}`,
+      });
+
+      // Step 2: End the old listing
+      await this.client.request(userId, {
+        method: "POST",
+        path: `/offer/${offerId}/withdraw`,
+      });
+      withdrawn = true;
+      revisions++;
+
+      // Step 3: Remove the old offer; a SKU can only have one per marketplace
+      await this.client.request(userId, {
+        method: "DELETE",
+        path: `/offer/${offerId}`,
+      });
+
+      // Step 4: Create a fresh offer with the same terms and publish it
+      const offer: EbayOffer = {
+        sku: current.sku,
+        marketplaceId: current.marketplaceId,
+        format: current.format,
+        availableQuantity: current.availableQuantity,
+        categoryId: current.categoryId,
+        listingDescription: current.listingDescription,
+        listingPolicies: current.listingPolicies,
+        pricingSummary: current.pricingSummary,
+        merchantLocationKey: current.merchantLocationKey,
+      };
+      const offerResponse = await this.client.request<EbayOfferResponse>(userId, {
+        method: "POST",
+        path: "/offer",
+        body: offer,
+      });
+      revisions++;
+
+      const publishResponse = await this.client.request<EbayPublishResponse>(userId, {
+        method: "POST",
+        path: `/offer/${offerResponse.offerId}/publish`,
+      });
+      revisions++;
+
+      const listingId = publishResponse.listingId;
+
+      return {
+        success: true,
+        externalId: listingId,
+        externalUrl: this.getListingUrl(listingId),
+      };
+    } catch (error) {
+      await this.client.releaseRevisions(userId, reserved - revisions);
+      const result = this.handleError(error, "relist");
+      if (!withdrawn) return result;
+
+      return {
+        success: false,
+        error: `Listing ${externalId} was ended but its replacement could not be published: ${result.error}`,
+        errorCode: "RELIST_INCOMPLETE",
+      };
+    }
+  }
+
+  // ============ ACCOUNT OPERATIONS ============
+
+  /**
+   * Fetch the seller's business policies (Account API) and enabled
+   * inventory locations (Inventory API)
+   */
+  async getBusinessPolicies(userId: string): Promise<GetBusinessPoliciesResult> {
+    try {
+      const marketplace = "marketplace_id=EBAY_US";
+      const [fulfillment, payment, returns, locations] = await Promise.all([
+        this.client.request<EbayPolicyListResponse>(userId, {
+          method: "GET",
+          path: `/fulfillment_policy?${marketplace}`,
+          api: "account",
+        }),
+        this.client.request<EbayPolicyListResponse>(userId, {
+          method: "GET",
+          path: `/payment_policy?${marketplace}`,
+          api: "account",
+        }),
+        this.client.request<EbayPolicyListResponse>(userId, {
+          method: "GET",
+          path: `/return_policy?${marketplace}`,
+          api: "account",
+        }),
+        this.client.request<EbayLocationsResponse>(userId, {
+          method: "GET",
+          path: "/location?limit=100",
+        }),
+      ]);
+
+      return {
+        success: true,
+        policies: {
+          fulfillmentPolicies: (fulfillment.fulfillmentPolicies ?? []).map((p) => ({
+            id: p.fulfillmentPolicyId,
+            name: p.name,
+          })),
+          paymentPolicies: (payment.paymentPolicies ?? []).map((p) => ({
+            id: p.paymentPolicyId,
+            name: p.name,
+          })),
+          returnPolicies: (returns.returnPolicies ?? []).map((p) => ({
+            id: p.returnPolicyId,
+            name: p.name,
+          })),
+          locations: (locations.locations ?? [])
+            .filter((l) => l.merchantLocationStatus !== "DISABLED")
+            .map((l) => ({
+              key: l.merchantLocationKey,
+              name: l.name ?? l.merchantLocationKey,
+            })),
+        },
+      };
+    } catch (error) {
+      console.error("[EbayAdapter] getBusinessPolicies error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error fetching business policies",
+      };
+    }
+  }
+
+  // ============ ANALYTICS ============
+
+  /**
+   * Fetch a day of traffic (Analytics API traffic report) and current
+   * watcher counts (Trading API GetMyeBaySelling) for the given listings
+   *
+   * @param userId - The seller's user ID
+   * @param listingIds - eBay listing IDs to report on
+   * @param date - The traffic day, YYYY-MM-DD
+   */
+  async getListingMetrics(
+    userId: string,
+    listingIds: string[],
+    date: string
+  ): Promise<GetListingMetricsResult> {
+    if (listingIds.length === 0) {
+      return { success: true, metrics: [] };
+    }
+
+    try {
+      const traffic = new Map<string, { views: number; impressions: number | null }>();
+      const day = date.replace(/-/g, "");
+
+      // The traffic report accepts up to 200 listing IDs per call
+      for (let i = 0; i < listingIds.length; i += 200) {
+        const chunk = listingIds.slice(i, i + 200);
+        const filter = `marketplace_ids:{EBAY_US},listing_ids:{${chunk.join("|")}},date_range:[${day}..${day}]`;
+        const report = await this.client.request<EbayTrafficReportResponse>(userId, {
+          method: "GET",
+          path: `/traffic_report?dimension=LISTING&filter=${encodeURIComponent(filter)}&metric=LISTING_VIEWS_TOTAL,LISTING_IMPRESSION_TOTAL`,
+          api: "analytics",
+        });
+
+        const metricKeys = (report.header?.metrics ?? []).map((m) => m.key);
+        const viewsIndex = metricKeys.indexOf("LISTING_VIEWS_TOTAL");
+        const impressionsIndex = metricKeys.indexOf("LISTING_IMPRESSION_TOTAL");
+
+        for (const record of report.records ?? []) {
+          const listingId = record.dimensionValues?.[0]?.value;
+          if (!listingId) continue;
+
+          const values = record.metricValues ?? [];
+          const views = Number(values[viewsIndex]?.value ?? 0);
+          const impressions =
+            impressionsIndex >= 0 && values[impressionsIndex]?.applicable !== false
+              ? Number(values[impressionsIndex]?.value ?? 0)
+              : null;
+
+          traffic.set(listingId, {
+            views: isNaN(views) ? 0 : views,
+            impressions: impressions === null || isNaN(impressions) ? null : impressions,
+          });
+        }
+      }
+
+      // Watcher counts come from the seller's active list
+      const watchers = new Map<string, number>();
+      const accessToken = await this.getAccessToken(userId);
+      let pageNumber = 1;
+      let totalPages = 1;
+      do {
+        const page = await this.tradingClient.getActiveListings(accessToken, { pageNumber });
+        if (!page.success) {
+          throw new Error(page.error ?? "Failed to fetch active listings");
+        }
+        for (const listing of page.listings) {
+          watchers.set(listing.itemId, listing.watchCount);
+        }
+        totalPages = page.totalPages;
+        pageNumber++;
+      } while (pageNumber <= totalPages && pageNumber <= 25);
+
+      return {
+        success: true,
+        metrics: listingIds.map((listingId) => ({
+          listingId,
+          views: traffic.get(listingId)?.views ?? 0,
+          impressions: traffic.get(listingId)?.impressions ?? null,
+          watchers: watchers.get(listingId) ?? 0,
+        })),
+      };
+    } catch (error) {
+      console.error("[EbayAdapter] getListingMetrics error:", error);
+      return {
+        success: false,
+        metrics: [],
+        error: error instanceof Error ? error.message : "Unknown error fetching listing metrics",
+      };
+    }
+  }
+
+  // ============ MARKETING ============
+
+  /**
+   * Schedule an item price markdown (Marketing API). eBay shows the
+   * discount as a strikethrough "was" price without revising the listing,
+   * so it doesn't count against the daily revision limit.
+   */
+  async createMarkdownPromotion(
+    userId: string,
+    promotion: MarkdownPromotionInput
+  ): Promise<MarkdownPromotionResult> {
+    try {
+      const response = await this.client.request<{ location?: string }>(userId, {
+        method: "POST",
+        path: "/item_price_markdown",
+        api: "marketing",
+        body: this.buildMarkdownPromotion(promotion),
+      });
+
+      // The new promotion ID is the last segment of the Location URL
+      const promotionId = response.location?.split("/").pop();
+      if (!promotionId) {
+        return {
+          success: false,
+          error: "eBay did not return a promotion ID",
+          errorCode: "PROMOTION_ID_MISSING",
+        };
+      }
+
+      return { success: true, promotionId };
+    } catch (error) {
+      return this.handleError(error, "createMarkdownPromotion");
+    }
+  }
+
+  /**
+   * Replace a markdown promotion's details, e.g. to end a running sale
+   * early (eBay won't delete a running promotion)
+   */
+  async updateMarkdownPromotion(
+    userId: string,
+    promotionId: string,
+    promotion: MarkdownPromotionInput
+  ): Promise<UpdateResult> {
+    try {
+      await this.client.request(userId, {
+        method: "PUT",
+        path: `/item_price_markdown/${encodeURIComponent(promotionId)}`,
+        api: "marketing",
+        body: this.buildMarkdownPromotion(promotion),
+      });
+
+      return { success: true };
+    } catch (error) {
+      return this.handleError(error, "updateMarkdownPromotion");
+    }
+  }
+
+  /**
+   * Delete a markdown promotion that hasn't started yet
+   */
+  async deleteMarkdownPromotion(userId: string, promotionId: string): Promise<UpdateResult> {
+    try {
+      await this.client.request(userId, {
+        method: "DELETE",
+        path: `/item_price_markdown/${encodeURIComponent(promotionId)}`,
+        api: "marketing",
+      });
+
+      return { success: true };
+    } catch (error) {
+      return this.handleError(error, "deleteMarkdownPromotion");
+    }
+  }
+
   // ============ SYNC OPERATIONS ============
 
   /**
-   * Sync orders from eBay Fulfillment API
+   * Sync orders from eBay Fulfillment API, following pagination
+   *
+   * Throws when a page fails, so callers never treat a partial fetch as
+   * the whole window.
    */
   async syncOrders(userId: string, since: Date): Promise<ChannelOrder[]> {
+    const orders: ChannelOrder[] = [];
+    const sinceIso = since.toISOString();
+    const limit = 200; // eBay's max page size for getOrders
+    let offset = 0;
+    let hasMore = true;
+
     try {
-      const sinceIso = since.toISOString();
-      const response = await this.client.request<EbayOrderResponse>(userId, {
+      while (hasMore) {
+        const response = await this.client.request<EbayOrderResponse>(userId, {
+          method: "GET",
+          path: `/order?filter=creationdate:[${sinceIso}..]&limit=${limit}&offset=${offset}`,
+          api: "fulfillment",
+        });
+
+        const page = response.orders ?? [];
+        orders.push(...page.map((order) => this.mapEbayOrder(order)));
+        offset += page.length;
+
+        if (!response.next || page.length === 0) {
+          hasMore = false;
+        }
+      }
+
+      return orders;
+    } catch (error) {
+      console.error("[EbayAdapter] Order sync failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload tracking for an eBay order via the Fulfillment API.
+   * Marks every line item on the order as shipped in a single fulfillment.
+   *
+   * @param userId - The seller's user ID
+   * @param orderId - The eBay order ID
+   * @param shipment - Tracking number, carrier, and ship date
+   */
+  async createShippingFulfillment(
+    userId: string,
+    orderId: string,
+    shipment: ShippingFulfillmentInput
+  ): Promise<UpdateResult> {
+    try {
+      // The fulfillment must reference the order's line items
+      const order = await this.client.request<EbayOrderLineItemsResponse>(userId, {
         method: "GET",
-        path: `/order?filter=creationdate:[${sinceIso}..] &limit=50`,
+        path: `/order/${encodeURIComponent(orderId)}`,
+        api: "fulfillment",
+      });
+
+      if (!order.lineItems || order.lineItems.length === 0) {
+        return {
+          success: false,
+          error: "No line items found for order",
+          errorCode: "ORDER_NOT_FOUND",
+        };
+      }
+
+      const body: EbayShippingFulfillmentRequest = {
+        lineItems: order.lineItems.map((item) => ({
+          lineItemId: item.lineItemId,
+          quantity: item.quantity,
+        })),
+        shippedDate: (shipment.shippedDate ?? new Date()).toISOString(),
+        shippingCarrierCode:
+          EBAY_CARRIER_CODES[shipment.carrier] ?? shipment.carrier.toUpperCase(),
+        trackingNumber: shipment.trackingNumber,
+      };
+
+      await this.client.request(userId, {
+        method: "POST",
+        path: `/order/${encodeURIComponent(orderId)}/shipping_fulfillment`,
         api: "fulfillment",
+        body,
       });
 
-      return response.orders.map((order) => this.mapEbayOrder(order));
+      return { success: true };
     } catch (error) {
-      console.error("[EbayAdapter] Order sync failed:", error);
-      return [];
+      return this.handleError(error, "createShippingFulfillment");
     }
   }
 
@@ -682,8 +1361,85 @@ export class EbayAdapter implements ChannelAdapter {
     }
   }
 
+  // ============ RETURN OPERATIONS ============
+
+  /**
+   * Get buyer return cases opened since a date via the Post-Order API
+   *
+   * @param userId - The seller's user ID
+   * @param since - Only returns created on or after this date
+   */
+  async getReturns(userId: string, since: Date): Promise<GetReturnsResult> {
+    const returns: EbayReturnCase[] = [];
+    const limit = 200;
+
+    try {
+      // Post-Order pages are numbered from 1
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const response = await this.client.request<EbayReturnSearchResponse>(userId, {
+          method: "GET",
+          path: `/return/search?creation_date_range_from=${encodeURIComponent(since.toISOString())}&limit=${limit}&offset=${page}`,
+          api: "postOrder",
+        });
+
+        for (const member of response.members ?? []) {
+          if (!member.orderId) continue;
+          returns.push(this.mapEbayReturn(member));
+        }
+
+        totalPages = response.paginationOutput?.totalPages ?? 1;
+        page++;
+      } while (page <= totalPages && page <= 10);
+
+      return { success: true, returns };
+    } catch (error) {
+      console.error("[EbayAdapter] getReturns error:", error);
+      return {
+        success: false,
+        returns: [],
+        error: error instanceof Error ? error.message : "Unknown error fetching returns",
+      };
+    }
+  }
+
   // ============ OFFER RESPONSE METHODS ============
 
+  /**
+   * Get pending Best Offers on the seller's eBay listings.
+   * Uses the eBay Trading API (GetBestOffers).
+   *
+   * @param userId - The seller's user ID (for token retrieval)
+   * @param itemId - Optional eBay item ID to restrict the lookup to
+   */
+  async getBestOffers(
+    userId: string,
+    itemId?: string
+  ): Promise<GetBestOffersResult> {
+    try {
+      const accessToken = await this.getAccessToken(userId);
+
+      const result = await this.tradingClient.getBestOffers(accessToken, {
+        itemId,
+        status: "Active",
+      });
+
+      if (!result.success) {
+        console.error(`[EbayAdapter] getBestOffers failed: ${result.error}`);
+      }
+
+      return result;
+    } catch (error) {
+      console.error("[EbayAdapter] getBestOffers error:", error);
+      return {
+        success: false,
+        offers: [],
+        error: error instanceof Error ? error.message : "Unknown error fetching offers",
+      };
+    }
+  }
+
   /**
    * Respond to a Best Offer on an eBay listing.
    * Uses the eBay Trading API (RespondToBestOffer).
@@ -866,9 +1622,9 @@ export class EbayAdapter implements ChannelAdapter {
       availableQuantity: listing.quantity,
       categoryId: listing.category,
       listingPolicies: {
-        fulfillmentPolicyId: this.defaultPolicies.fulfillmentPolicyId,
-        paymentPolicyId: this.defaultPolicies.paymentPolicyId,
-        returnPolicyId: this.defaultPolicies.returnPolicyId,
+        fulfillmentPolicyId: listing.policies?.fulfillmentPolicyId ?? "",
+        paymentPolicyId: listing.policies?.paymentPolicyId ?? "",
+        returnPolicyId: listing.policies?.returnPolicyId ?? "",
       },
       pricingSummary: {
         price: {
@@ -876,7 +1632,7 @@ export class EbayAdapter implements ChannelAdapter {
           currency: "USD",
         },
       },
-      merchantLocationKey: this.defaultPolicies.merchantLocationKey,
+      merchantLocationKey: listing.policies?.merchantLocationKey ?? "",
     };
   }
 
@@ -934,6 +1690,65 @@ export class EbayAdapter implements ChannelAdapter {
     };
   }
 
+  /**
+   * Map a Post-Order return search result to an EbayReturnCase
+   */
+  private mapEbayReturn(
+    member: NonNullable<EbayReturnSearchResponse["members"]>[0]
+  ): EbayReturnCase {
+    const refund = member.sellerTotalRefund?.actualRefundAmount;
+    const refundAmount = refund ? Number(refund.value) : NaN;
+
+    return {
+      returnId: member.returnId,
+      orderId: member.orderId ?? "",
+      itemId: member.creationInfo?.item?.itemId,
+      quantity: Math.max(1, member.creationInfo?.item?.returnQuantity ?? 1),
+      state: member.state ?? member.status ?? "RETURN_REQUESTED",
+      reason: member.creationInfo?.reason,
+      buyerComments: member.creationInfo?.comments?.content,
+      buyerUsername: member.buyerLoginName,
+      refundAmount: isNaN(refundAmount) ? undefined : refundAmount,
+      createdAt: member.creationInfo?.creationDate?.value ?? new Date().toISOString(),
+    };
+  }
+
+  private buildMarkdownPromotion(promotion: MarkdownPromotionInput): EbayItemPriceMarkdown {
+    return {
+      name: promotion.name,
+      description: `${promotion.discountPercent}% off`,
+      marketplaceId: "EBAY_US",
+      startDate: promotion.startsAt.toISOString(),
+      endDate: promotion.endsAt.toISOString(),
+      promotionStatus: "SCHEDULED",
+      applyFreeShipping: false,
+      autoSelectFutureInventory: false,
+      blockPriceIncreaseInItemRevision: true,
+      selectedInventoryDiscounts: [
+        {
+          discountBenefit: { percentageOffItem: String(promotion.discountPercent) },
+          inventoryCriterion: {
+            inventoryCriterionType: "INVENTORY_BY_VALUE",
+            listingIds: promotion.listingIds,
+          },
+        },
+      ],
+    };
+  }
+
+  private getListingUrl(listingId: string): string {
+    const environment = process.env.EBAY_ENVIRONMENT === "production" ? "" : "sandbox.";
+    return `https://www.${environment}ebay.com/itm/${listingId}`;
+  }
+
+  private revisionLimitError(status: RateLimitStatus): PublishResult {
+    return {
+      success: false,
+      error: `Daily revision limit reached (${status.used}/${status.limit}). Resets at ${status.resetsAt.toISOString()}`,
+      errorCode: "RATE_LIMIT_EXCEEDED",
+    };
+  }
+
   /**
    * Handle errors and convert to appropriate result type
    */
@@ -14,6 +14,12 @@ import {
   TokenExpiredError,
   RateLimitError,
 } from "../types";
+import {
+  checkRateLimit,
+  consumeRateLimit,
+  releaseRateLimit,
+  type RateLimitStatus,
+} from "@/server/services/rate-limits";
 
 // ============ CONFIGURATION ============
 
@@ -28,12 +34,22 @@ const EBAY_API_URLS = {
     inventory: "https://api.sandbox.ebay.com/sell/inventory/v1",
     fulfillment: "https://api.sandbox.ebay.com/sell/fulfillment/v1",
     account: "https://api.sandbox.ebay.com/sell/account/v1",
+    analytics: "https://api.sandbox.ebay.com/sell/analytics/v1",
+    marketing: "https://api.sandbox.ebay.com/sell/marketing/v1",
+    browse: "https://api.sandbox.ebay.com/buy/browse/v1",
+    marketplaceInsights: "https://api.sandbox.ebay.com/buy/marketplace_insights/v1_beta",
+    postOrder: "https://api.sandbox.ebay.com/post-order/v2",
     token: "https://api.sandbox.ebay.com/identity/v1/oauth2/token",
   },
   production: {
     inventory: "https://api.ebay.com/sell/inventory/v1",
     fulfillment: "https://api.ebay.com/sell/fulfillment/v1",
     account: "https://api.ebay.com/sell/account/v1",
+    analytics: "https://api.ebay.com/sell/analytics/v1",
+    marketing: "https://api.ebay.com/sell/marketing/v1",
+    browse: "https://api.ebay.com/buy/browse/v1",
+    marketplaceInsights: "https://api.ebay.com/buy/marketplace_insights/v1_beta",
+    postOrder: "https://api.ebay.com/post-order/v2",
     token: "https://api.ebay.com/identity/v1/oauth2/token",
   },
 };
@@ -48,81 +64,35 @@ const getDefaultConfig = (): EbayClientConfig => ({
 // ============ RATE LIMITER ============
 
 /**
- * In-memory rate limiter for eBay revisions (250/day, we use 200 safe limit)
- * In production, this should be stored in the database for persistence across restarts.
+ * eBay revision limiter (250/day, we use RATE_LIMITS.ebayRevisions as a
+ * safe limit). Counts are persisted by the shared rate limit service.
+ * Revisions are reserved before calling eBay so concurrent operations
+ * can't overshoot the limit together, and released if the call fails.
  */
-interface UserRevisionCount {
-  count: number;
-  resetsAt: Date;
-}
-
-const revisionCounts = new Map<string, UserRevisionCount>();
-
-const SAFE_REVISION_LIMIT = 200; // eBay allows 250, we use 200 as buffer
 
 /**
- * Get the next midnight Pacific Time as a Date
+ * Check if a revision is allowed under the rate limit
  */
-function getMidnightPT(): Date {
-  const now = new Date();
-  // Convert to Pacific Time by using toLocaleString
-  const ptString = now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" });
-  const ptDate = new Date(ptString);
-
-  // Get tomorrow at midnight PT
-  const midnight = new Date(ptDate);
-  midnight.setDate(midnight.getDate() + 1);
-  midnight.setHours(0, 0, 0, 0);
-
-  // Convert back to UTC
-  const ptOffset = now.getTime() - ptDate.getTime();
-  return new Date(midnight.getTime() + ptOffset);
+export async function checkRevisionLimit(userId: string): Promise<RateLimitStatus> {
+  return checkRateLimit(userId, "ebayRevisions");
 }
 
 /**
- * Check if a revision is allowed under the rate limit
+ * Reserve revisions ahead of an operation.
+ * Returns allowed: false without reserving when the limit would be exceeded.
  */
-export function checkRevisionLimit(userId: string): {
-  allowed: boolean;
-  remaining: number;
-  resetsAt: Date;
-} {
-  const now = new Date();
-  let userCount = revisionCounts.get(userId);
-
-  // Reset if past reset time or no record exists
-  if (!userCount || now >= userCount.resetsAt) {
-    userCount = {
-      count: 0,
-      resetsAt: getMidnightPT(),
-    };
-    revisionCounts.set(userId, userCount);
-  }
-
-  return {
-    allowed: userCount.count < SAFE_REVISION_LIMIT,
-    remaining: Math.max(0, SAFE_REVISION_LIMIT - userCount.count),
-    resetsAt: userCount.resetsAt,
-  };
+export async function reserveRevisions(
+  userId: string,
+  count: number = 1
+): Promise<RateLimitStatus> {
+  return consumeRateLimit(userId, "ebayRevisions", count);
 }
 
 /**
- * Increment the revision count for a user
+ * Give back reserved revisions that were never made
  */
-export function incrementRevisionCount(userId: string): void {
-  const now = new Date();
-  let userCount = revisionCounts.get(userId);
-
-  if (!userCount || now >= userCount.resetsAt) {
-    userCount = {
-      count: 1,
-      resetsAt: getMidnightPT(),
-    };
-  } else {
-    userCount.count++;
-  }
-
-  revisionCounts.set(userId, userCount);
+export async function releaseRevisions(userId: string, count: number = 1): Promise<void> {
+  await releaseRateLimit(userId, "ebayRevisions", count);
 }
 
 // ============ TOKEN MANAGEMENT ============
@@ -175,13 +145,24 @@ async function updateTokens(
       refreshToken: tokens.refreshToken,
       tokenExpiresAt: tokens.expiresAt,
       status: "active",
-      lastSyncAt: new Date(),
     })
     .where(
       and(eq(channelConnections.userId, userId), eq(channelConnections.channel, "ebay"))
     );
 }
 
+/**
+ * Mark the connection expired after eBay rejects its refresh token
+ */
+async function markConnectionExpired(userId: string): Promise<void> {
+  await db
+    .update(channelConnections)
+    .set({ status: "expired" })
+    .where(
+      and(eq(channelConnections.userId, userId), eq(channelConnections.channel, "ebay"))
+    );
+}
+
 /**
  * Refresh an expired token
  */
@@ -211,6 +192,11 @@ async function refreshToken(
     if (!response.ok) {
       const errorText = await response.text();
       console.error("[EbayClient] Token refresh failed:", errorText);
+      // A rejected refresh token needs the user to reconnect; 5xx may be transient
+      if (response.status < 500) {
+        await markConnectionExpired(userId);
+        throw new AuthenticationError("eBay connection expired. Reconnect your account.");
+      }
       return null;
     }
 
@@ -226,6 +212,9 @@ async function refreshToken(
 
     return newTokens;
   } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw error;
+    }
     console.error("[EbayClient] Token refresh error:", error);
     return null;
   }
@@ -266,7 +255,15 @@ interface RequestOptions {
   path: string;
   body?: unknown;
   headers?: Record<string, string>;
-  api?: "inventory" | "fulfillment" | "account";
+  api?:
+    | "inventory"
+    | "fulfillment"
+    | "account"
+    | "analytics"
+    | "marketing"
+    | "browse"
+    | "marketplaceInsights"
+    | "postOrder";
 }
 
 interface EbayErrorResponse {
@@ -380,7 +377,8 @@ export class EbayClient {
     const url = `${baseUrl}${options.path}`;
 
     const headers: Record<string, string> = {
-      Authorization: `Bearer ${accessToken}`,
+      // The Post-Order API takes OAuth user tokens under the IAF scheme
+      Authorization: `${options.api === "postOrder" ? "IAF" : "Bearer"} ${accessToken}`,
       "Content-Type": "application/json",
       "Content-Language": "en-US",
       "X-EBAY-C-MARKETPLACE-ID": "EBAY_US",
@@ -434,6 +432,13 @@ export class EbayClient {
       throw parseEbayError(data as EbayErrorResponse, response.status);
     }
 
+    // Some creates (e.g. Marketing API promotions) return 201 with no body
+    // and identify the new resource in the Location header
+    const location = response.headers.get("Location");
+    if (data === undefined && location) {
+      return { location } as T;
+    }
+
     return data as T;
   }
 
@@ -452,19 +457,22 @@ export class EbayClient {
   /**
    * Get the user's current revision count status
    */
-  getRevisionStatus(userId: string): {
-    allowed: boolean;
-    remaining: number;
-    resetsAt: Date;
-  } {
+  async getRevisionStatus(userId: string): Promise<RateLimitStatus> {
     return checkRevisionLimit(userId);
   }
 
   /**
-   * Increment revision count after a successful modification
+   * Reserve revisions before modifying listings
+   */
+  async reserveRevisions(userId: string, count: number = 1): Promise<RateLimitStatus> {
+    return reserveRevisions(userId, count);
+  }
+
+  /**
+   * Release reserved revisions after a failed modification
    */
-  trackRevision(userId: string): void {
-    incrementRevisionCount(userId);
+  async releaseRevisions(userId: string, count: number = 1): Promise<void> {
+    if (count > 0) await releaseRevisions(userId, count);
   }
 }
 
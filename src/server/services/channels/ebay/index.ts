@@ -2,14 +2,47 @@
  * eBay Channel Module Exports
  */
 
-export { EbayClient, getEbayClient, checkRevisionLimit, incrementRevisionCount } from "./client";
-export { EbayAdapter, getEbayAdapter } from "./adapter";
+export {
+  EbayClient,
+  getEbayClient,
+  checkRevisionLimit,
+  reserveRevisions,
+  releaseRevisions,
+} from "./client";
+export { EbayAdapter, getEbayAdapter, getMissingPolicies } from "./adapter";
 export { EbayTradingClient, getEbayTradingClient } from "./trading";
+export {
+  getPolicySettings,
+  refreshBusinessPolicies,
+  setPolicyDefaults,
+  resolveListingPolicies,
+} from "./policies";
+export { detectListingDrift, reconcileEbayInventory } from "./reconcile";
 
 // Re-export types
 export type { EbayClientConfig } from "./client";
-export type { EbayInventoryItemData } from "./adapter";
 export type {
+  EbayBusinessPolicies,
+  EbayInventoryItemData,
+  EbayListingMetrics,
+  EbayReturnCase,
+  GetBusinessPoliciesResult,
+  GetListingMetricsResult,
+  GetReturnsResult,
+  MarkdownPromotionInput,
+  MarkdownPromotionResult,
+  ShippingFulfillmentInput,
+} from "./adapter";
+export type { CachedBusinessPolicies, EbayPolicySettings } from "./policies";
+export type { ListingDrift, LocalEbayListing, ReconcileResult } from "./reconcile";
+export type {
+  BestOfferStatus,
+  EbayActiveListing,
+  EbayBestOffer,
+  GetActiveListingsInput,
+  GetActiveListingsResult,
+  GetBestOffersInput,
+  GetBestOffersResult,
   OfferAction,
   RespondToBestOfferInput,
   RespondToBestOfferResult,
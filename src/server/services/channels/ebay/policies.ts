@@ -0,0 +1,200 @@
+/**
+ * eBay Listing Policies
+ *
+ * Per-seller business policies (fulfillment, payment, return) and
+ * inventory locations. Policies are fetched from the eBay Account API
+ * and cached on the seller's channelConnections row alongside their
+ * chosen defaults. Items can override individual defaults.
+ */
+
+import { db } from "@/server/db/client";
+import { channelConnections } from "@/server/db/schema";
+import { eq, and } from "drizzle-orm";
+import type { ListingPolicies } from "../types";
+import { getEbayAdapter, type EbayBusinessPolicies } from "./adapter";
+
+// ============ TYPES ============
+
+export interface CachedBusinessPolicies extends EbayBusinessPolicies {
+  /** ISO date string of the last Account API fetch */
+  fetchedAt: string;
+}
+
+export interface EbayPolicySettings {
+  policies: CachedBusinessPolicies | null;
+  defaults: ListingPolicies;
+}
+
+// ============ HELPERS ============
+
+async function getEbayConnection(userId: string) {
+  const [connection] = await db
+    .select({
+      id: channelConnections.id,
+      businessPolicies: channelConnections.businessPolicies,
+      policyDefaults: channelConnections.policyDefaults,
+    })
+    .from(channelConnections)
+    .where(
+      and(
+        eq(channelConnections.userId, userId),
+        eq(channelConnections.channel, "ebay")
+      )
+    )
+    .limit(1);
+
+  return connection ?? null;
+}
+
+/**
+ * Fill unset defaults where the seller has exactly one option
+ */
+export function pickDefaults(
+  policies: EbayBusinessPolicies,
+  current: ListingPolicies
+): ListingPolicies {
+  const only = <T>(options: T[]): T | undefined =>
+    options.length === 1 ? options[0] : undefined;
+
+  return {
+    fulfillmentPolicyId:
+      current.fulfillmentPolicyId ?? only(policies.fulfillmentPolicies)?.id,
+    paymentPolicyId: current.paymentPolicyId ?? only(policies.paymentPolicies)?.id,
+    returnPolicyId: current.returnPolicyId ?? only(policies.returnPolicies)?.id,
+    merchantLocationKey:
+      current.merchantLocationKey ?? only(policies.locations)?.key,
+  };
+}
+
+/**
+ * Check that every selected ID exists in the seller's policies.
+ * Returns the first invalid field, or null if the selection is valid.
+ */
+export function findInvalidPolicy(
+  policies: EbayBusinessPolicies,
+  selection: ListingPolicies
+): keyof ListingPolicies | null {
+  const checks: Array<[keyof ListingPolicies, string[]]> = [
+    ["fulfillmentPolicyId", policies.fulfillmentPolicies.map((p) => p.id)],
+    ["paymentPolicyId", policies.paymentPolicies.map((p) => p.id)],
+    ["returnPolicyId", policies.returnPolicies.map((p) => p.id)],
+    ["merchantLocationKey", policies.locations.map((l) => l.key)],
+  ];
+
+  for (const [field, validIds] of checks) {
+    const value = selection[field];
+    if (value && !validIds.includes(value)) {
+      return field;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Layer item overrides on top of the seller's defaults
+ */
+export function mergePolicies(
+  defaults: ListingPolicies,
+  overrides: ListingPolicies | null | undefined
+): ListingPolicies {
+  return {
+    fulfillmentPolicyId: overrides?.fulfillmentPolicyId || defaults.fulfillmentPolicyId,
+    paymentPolicyId: overrides?.paymentPolicyId || defaults.paymentPolicyId,
+    returnPolicyId: overrides?.returnPolicyId || defaults.returnPolicyId,
+    merchantLocationKey: overrides?.merchantLocationKey || defaults.merchantLocationKey,
+  };
+}
+
+// ============ SERVICE ============
+
+/**
+ * Get the seller's cached policies and defaults
+ */
+export async function getPolicySettings(userId: string): Promise<EbayPolicySettings> {
+  const connection = await getEbayConnection(userId);
+
+  return {
+    policies: connection?.businessPolicies ?? null,
+    defaults: connection?.policyDefaults ?? {},
+  };
+}
+
+/**
+ * Fetch the seller's policies from eBay and cache them on the connection.
+ * Defaults that no longer exist are cleared, and single-option
+ * categories are selected automatically.
+ */
+export async function refreshBusinessPolicies(
+  userId: string
+): Promise<EbayPolicySettings> {
+  const connection = await getEbayConnection(userId);
+  if (!connection) {
+    throw new Error("eBay is not connected");
+  }
+
+  const result = await getEbayAdapter().getBusinessPolicies(userId);
+  if (!result.success || !result.policies) {
+    throw new Error(result.error ?? "Failed to fetch eBay business policies");
+  }
+
+  const policies: CachedBusinessPolicies = {
+    ...result.policies,
+    fetchedAt: new Date().toISOString(),
+  };
+
+  // Drop defaults that were deleted on eBay, then fill any gaps
+  const current: ListingPolicies = { ...(connection.policyDefaults ?? {}) };
+  let invalid = findInvalidPolicy(policies, current);
+  while (invalid) {
+    delete current[invalid];
+    invalid = findInvalidPolicy(policies, current);
+  }
+  const defaults = pickDefaults(policies, current);
+
+  await db
+    .update(channelConnections)
+    .set({ businessPolicies: policies, policyDefaults: defaults })
+    .where(eq(channelConnections.id, connection.id));
+
+  return { policies, defaults };
+}
+
+/**
+ * Save the seller's default policies
+ */
+export async function setPolicyDefaults(
+  userId: string,
+  defaults: ListingPolicies
+): Promise<ListingPolicies> {
+  const connection = await getEbayConnection(userId);
+  if (!connection) {
+    throw new Error("eBay is not connected");
+  }
+
+  if (connection.businessPolicies) {
+    const invalid = findInvalidPolicy(connection.businessPolicies, defaults);
+    if (invalid) {
+      throw new Error(`Unknown ${invalid} for this eBay account`);
+    }
+  }
+
+  await db
+    .update(channelConnections)
+    .set({ policyDefaults: defaults })
+    .where(eq(channelConnections.id, connection.id));
+
+  return defaults;
+}
+
+/**
+ * Resolve the policies to publish an item with: the item's overrides
+ * layered on the seller's defaults
+ */
+export async function resolveListingPolicies(
+  userId: string,
+  overrides?: ListingPolicies | null
+): Promise<ListingPolicies> {
+  const { defaults } = await getPolicySettings(userId);
+  return mergePolicies(defaults, overrides);
+}
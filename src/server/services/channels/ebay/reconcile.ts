@@ -0,0 +1,364 @@
+/**
+ * eBay Inventory Reconciliation
+ *
+ * Brings local channelListings and inventoryItems back in line with
+ * changes made directly on eBay (Seller Hub, the eBay app, or eBay itself
+ * ending a listing). The eBay side is the source of truth for the listings
+ * it hosts:
+ * - listings ended on eBay are marked ended locally
+ * - listings republished on eBay are marked active again
+ * - price, quantity and title revisions are copied to the local records
+ *
+ * Quantity is left alone while the item has sales not yet taken off local
+ * stock: eBay's count already reflects them, and delist-on-sale is about
+ * to subtract them again.
+ *
+ * Every change is written to the audit log with source SYSTEM. These
+ * entries aren't reversible: undoing them locally would just drift again.
+ */
+
+import { db } from "@/server/db/client";
+import { channelListings, inventoryItems, orders } from "@/server/db/schema";
+import { eq, and, ne, isNull, isNotNull } from "drizzle-orm";
+import { auditService } from "@/server/services/audit";
+import type { EbayInventoryItemData } from "./adapter";
+
+// ============ TYPES ============
+
+export interface LocalEbayListing {
+  listingId: string;
+  itemId: string;
+  externalId: string | null;
+  price: number;
+  status: "draft" | "pending" | "active" | "ended" | "sold" | "error";
+  sku: string;
+  title: string;
+  quantity: number;
+  itemStatus: "draft" | "active" | "sold" | "shipped" | "archived";
+}
+
+export type ListingDrift =
+  | { kind: "ended"; reason: "ended_on_ebay" | "removed_from_ebay" }
+  | { kind: "relisted" }
+  | { kind: "price"; before: number; after: number }
+  | { kind: "quantity"; before: number; after: number }
+  | { kind: "title"; before: string; after: string };
+
+export interface ReconcileResult {
+  listingsChecked: number;
+  ended: number;
+  relisted: number;
+  revised: number;
+  /** eBay inventory items with no local listing (import them with syncFromEbay) */
+  untracked: number;
+}
+
+// Prices closer than this are considered equal
+const PRICE_EPSILON = 0.005;
+
+// Same limit as the eBay title field and inventory.syncFromEbay
+const MAX_TITLE_LENGTH = 80;
+
+// ============ DRIFT DETECTION ============
+
+/**
+ * Work out how a local eBay listing differs from what eBay reports.
+ *
+ * @param local - The local listing and its inventory item
+ * @param remote - The matching eBay inventory item, if eBay still has it
+ */
+export function detectListingDrift(
+  local: LocalEbayListing,
+  remote: EbayInventoryItemData | undefined
+): ListingDrift[] {
+  // Sold listings are settled by order sync; drafts were never on eBay
+  if (local.status !== "active" && local.status !== "ended") {
+    return [];
+  }
+
+  const livesOnEbay = remote?.offerStatus === "PUBLISHED";
+
+  if (local.status === "active" && !livesOnEbay) {
+    return [{ kind: "ended", reason: remote ? "ended_on_ebay" : "removed_from_ebay" }];
+  }
+
+  if (!remote || !livesOnEbay) {
+    return [];
+  }
+
+  const drift: ListingDrift[] = [];
+
+  if (local.status === "ended") {
+    drift.push({ kind: "relisted" });
+  }
+
+  if (remote.price !== undefined && Math.abs(remote.price - local.price) >= PRICE_EPSILON) {
+    drift.push({ kind: "price", before: local.price, after: remote.price });
+  }
+
+  if (remote.quantity !== local.quantity) {
+    drift.push({ kind: "quantity", before: local.quantity, after: remote.quantity });
+  }
+
+  const remoteTitle = remote.title.substring(0, MAX_TITLE_LENGTH);
+  if (remoteTitle !== local.title) {
+    drift.push({ kind: "title", before: local.title, after: remoteTitle });
+  }
+
+  return drift;
+}
+
+// ============ RECONCILIATION ============
+
+async function getLocalEbayListings(userId: string): Promise<LocalEbayListing[]> {
+  return db
+    .select({
+      listingId: channelListings.id,
+      itemId: channelListings.itemId,
+      externalId: channelListings.externalId,
+      price: channelListings.price,
+      status: channelListings.status,
+      sku: inventoryItems.sku,
+      title: inventoryItems.title,
+      quantity: inventoryItems.quantity,
+      itemStatus: inventoryItems.status,
+    })
+    .from(channelListings)
+    .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
+    .where(and(eq(inventoryItems.userId, userId), eq(channelListings.channel, "ebay")));
+}
+
+/**
+ * Local listings whose eBay listing a relist has replaced with a new one
+ */
+async function getReplacedListingIds(userId: string): Promise<Set<string>> {
+  const rows = await db
+    .select({ relistedFromId: channelListings.relistedFromId })
+    .from(channelListings)
+    .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
+    .where(
+      and(
+        eq(inventoryItems.userId, userId),
+        eq(channelListings.channel, "ebay"),
+        isNotNull(channelListings.relistedFromId)
+      )
+    );
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return new Set(rows.map((row: any) => row.relistedFromId as string));
+}
+
+/**
+ * Items with sales whose stock decrement hasn't been applied yet
+ */
+async function getItemsAwaitingStockDecrement(userId: string): Promise<Set<string>> {
+  const rows = await db
+    .select({ itemId: orders.itemId })
+    .from(orders)
+    .where(
+      and(
+        eq(orders.userId, userId),
+        isNull(orders.stockDecrementedAt),
+        ne(orders.status, "cancelled"),
+        isNotNull(orders.itemId)
+      )
+    );
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return new Set(rows.map((row: any) => row.itemId as string));
+}
+
+/**
+ * Whether the item still has a live listing on a channel other than this one
+ */
+async function hasOtherActiveListing(itemId: string, listingId: string): Promise<boolean> {
+  const [other] = await db
+    .select({ id: channelListings.id })
+    .from(channelListings)
+    .where(
+      and(
+        eq(channelListings.itemId, itemId),
+        ne(channelListings.id, listingId),
+        eq(channelListings.status, "active")
+      )
+    )
+    .limit(1);
+
+  return Boolean(other);
+}
+
+async function applyDrift(
+  userId: string,
+  local: LocalEbayListing,
+  drift: ListingDrift,
+  now: Date
+): Promise<void> {
+  const audit = {
+    userId,
+    itemId: local.itemId,
+    channel: "ebay",
+    source: "SYSTEM" as const,
+    reversible: false,
+  };
+  const metadata = {
+    listingId: local.listingId,
+    externalId: local.externalId,
+    sku: local.sku,
+  };
+
+  switch (drift.kind) {
+    case "ended": {
+      await db
+        .update(channelListings)
+        .set({ status: "ended", endedAt: now })
+        .where(eq(channelListings.id, local.listingId));
+
+      // Take the item off the shelf unless it's still listed elsewhere
+      const moveToDraft =
+        local.itemStatus === "active" &&
+        !(await hasOtherActiveListing(local.itemId, local.listingId));
+      if (moveToDraft) {
+        await db
+          .update(inventoryItems)
+          .set({ status: "draft", updatedAt: now })
+          .where(eq(inventoryItems.id, local.itemId));
+      }
+
+      await auditService.log({
+        ...audit,
+        actionType: "LISTING_DELIST",
+        beforeState: { status: "active" },
+        afterState: { status: "ended", ...(moveToDraft ? { itemStatus: "draft" } : {}) },
+        metadata: { ...metadata, reason: drift.reason },
+      });
+      return;
+    }
+
+    case "relisted": {
+      await db
+        .update(channelListings)
+        .set({ status: "active", endedAt: null })
+        .where(eq(channelListings.id, local.listingId));
+
+      if (local.itemStatus === "draft") {
+        await db
+          .update(inventoryItems)
+          .set({ status: "active", listedAt: now, updatedAt: now })
+          .where(eq(inventoryItems.id, local.itemId));
+      }
+
+      await auditService.log({
+        ...audit,
+        actionType: "LISTING_RELIST",
+        beforeState: { status: "ended" },
+        afterState: { status: "active" },
+        metadata: { ...metadata, reason: "relisted_on_ebay" },
+      });
+      return;
+    }
+
+    case "price": {
+      await db
+        .update(channelListings)
+        .set({ price: drift.after })
+        .where(eq(channelListings.id, local.listingId));
+      await db
+        .update(inventoryItems)
+        .set({ askingPrice: drift.after, updatedAt: now })
+        .where(eq(inventoryItems.id, local.itemId));
+
+      await auditService.log({
+        ...audit,
+        actionType: "PRICE_CHANGE",
+        beforeState: { price: drift.before },
+        afterState: { price: drift.after },
+        metadata: { ...metadata, reason: "revised_on_ebay" },
+      });
+      return;
+    }
+
+    case "quantity":
+    case "title": {
+      await db
+        .update(inventoryItems)
+        .set({ [drift.kind]: drift.after, updatedAt: now })
+        .where(eq(inventoryItems.id, local.itemId));
+
+      await auditService.log({
+        ...audit,
+        actionType: "ITEM_UPDATE",
+        beforeState: { [drift.kind]: drift.before },
+        afterState: { [drift.kind]: drift.after },
+        metadata: { ...metadata, reason: "revised_on_ebay" },
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * Reconcile the user's local eBay listings against a fresh
+ * EbayAdapter.syncInventory() snapshot.
+ */
+export async function reconcileEbayInventory(
+  userId: string,
+  ebayItems: EbayInventoryItemData[],
+  now: Date = new Date()
+): Promise<ReconcileResult> {
+  const byListingId = new Map<string, EbayInventoryItemData>();
+  const bySku = new Map<string, EbayInventoryItemData>();
+  for (const ebayItem of ebayItems) {
+    if (ebayItem.listingId) byListingId.set(ebayItem.listingId, ebayItem);
+    bySku.set(ebayItem.sku, ebayItem);
+  }
+
+  const localListings = await getLocalEbayListings(userId);
+  const replacedListingIds = await getReplacedListingIds(userId);
+  const awaitingStockDecrement = await getItemsAwaitingStockDecrement(userId);
+  const result: ReconcileResult = {
+    listingsChecked: localListings.length,
+    ended: 0,
+    relisted: 0,
+    revised: 0,
+    untracked: 0,
+  };
+
+  const matched = new Set<EbayInventoryItemData>();
+
+  for (const local of localListings) {
+    // A replaced listing shares its SKU with the listing that replaced it,
+    // so only its own listing ID can match it
+    const remote =
+      (local.externalId ? byListingId.get(local.externalId) : undefined) ??
+      (replacedListingIds.has(local.listingId) ? undefined : bySku.get(local.sku));
+    if (remote) matched.add(remote);
+
+    // An empty snapshot is more likely a bad response than every listing
+    // being removed at once, so never end listings on it
+    if (!remote && ebayItems.length === 0) {
+      continue;
+    }
+
+    for (const drift of detectListingDrift(local, remote)) {
+      if (drift.kind === "quantity" && awaitingStockDecrement.has(local.itemId)) {
+        continue;
+      }
+
+      try {
+        await applyDrift(userId, local, drift, now);
+        if (drift.kind === "ended") result.ended++;
+        else if (drift.kind === "relisted") result.relisted++;
+        else result.revised++;
+      } catch (error) {
+        console.error(
+          `[reconcileEbayInventory] Failed to apply ${drift.kind} drift to listing ${local.listingId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  result.untracked = ebayItems.filter((ebayItem) => !matched.has(ebayItem)).length;
+
+  return result;
+}
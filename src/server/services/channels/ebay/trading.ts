@@ -1,11 +1,15 @@
 /**
  * eBay Trading API Client for ResellerOS
  *
- * Implements the eBay Trading API for offer management (RespondToBestOffer).
- * The Trading API uses XML format and a different endpoint than the RESTful APIs.
+ * Implements the eBay Trading API for offer management (GetBestOffers,
+ * RespondToBestOffer) and active listing watcher counts (GetMyeBaySelling).
+ * The Trading API uses XML format and a different endpoint than the
+ * RESTful APIs.
  *
  * API Reference:
+ * - GetBestOffers: Lists Best Offers made on the seller's listings.
  * - RespondToBestOffer: Accepts, declines, or counters a Best Offer on a listing.
+ * - GetMyeBaySelling: Lists the seller's active listings with watch counts.
  * - Uses IAF (Identity and Access Framework) tokens from the OAuth flow.
  */
 
@@ -50,6 +54,65 @@ export interface RespondToBestOfferResult {
   error?: string;
 }
 
+export type BestOfferStatus = "Active" | "All";
+
+export interface GetBestOffersInput {
+  /** Restrict results to a single eBay item ID (omit for all listings) */
+  itemId?: string;
+  /** Which offers to return (default: Active) */
+  status?: BestOfferStatus;
+}
+
+export interface EbayBestOffer {
+  /** The Best Offer ID */
+  bestOfferId: string;
+  /** The eBay item ID the offer was made on */
+  itemId: string;
+  /** Offer amount */
+  price: number;
+  /** Currency of the offer amount */
+  currency: string;
+  /** Offer status as reported by eBay (Pending, Accepted, Declined, ...) */
+  status: string;
+  /** Buyer's eBay user ID */
+  buyerUsername?: string;
+  /** Optional message from the buyer */
+  buyerMessage?: string;
+  /** Quantity the buyer offered on */
+  quantity: number;
+  /** When the offer expires (ISO string) */
+  expiresAt?: string;
+  /** BuyerBestOffer, BuyerCounterOffer, SellerCounterOffer, ... */
+  offerType?: string;
+}
+
+export interface GetBestOffersResult {
+  success: boolean;
+  offers: EbayBestOffer[];
+  error?: string;
+}
+
+export interface GetActiveListingsInput {
+  /** Page number, starting at 1 */
+  pageNumber?: number;
+  /** Listings per page (max 200) */
+  entriesPerPage?: number;
+}
+
+export interface EbayActiveListing {
+  /** The eBay item ID */
+  itemId: string;
+  /** Number of buyers watching the listing */
+  watchCount: number;
+}
+
+export interface GetActiveListingsResult {
+  success: boolean;
+  listings: EbayActiveListing[];
+  totalPages: number;
+  error?: string;
+}
+
 // ============ XML BUILDER ============
 
 /**
@@ -95,13 +158,46 @@ ${bestOfferElements}
 </RespondToBestOfferRequest>`;
 }
 
+/**
+ * Build the GetBestOffers XML request body
+ */
+export function buildGetBestOffersXml(input: GetBestOffersInput = {}): string {
+  const itemXml = input.itemId
+    ? `
+    <ItemID>${escapeXml(input.itemId)}</ItemID>`
+    : "";
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<GetBestOffersRequest xmlns="urn:ebay:apis:eBLBaseComponents">${itemXml}
+    <BestOfferStatus>${input.status ?? "Active"}</BestOfferStatus>
+    <DetailLevel>ReturnAll</DetailLevel>
+</GetBestOffersRequest>`;
+}
+
+/**
+ * Build the GetMyeBaySelling XML request body for the active list
+ */
+export function buildGetActiveListingsXml(input: GetActiveListingsInput = {}): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<GetMyeBaySellingRequest xmlns="urn:ebay:apis:eBLBaseComponents">
+    <ActiveList>
+        <Include>true</Include>
+        <Pagination>
+            <EntriesPerPage>${input.entriesPerPage ?? 200}</EntriesPerPage>
+            <PageNumber>${input.pageNumber ?? 1}</PageNumber>
+        </Pagination>
+    </ActiveList>
+    <DetailLevel>ReturnAll</DetailLevel>
+</GetMyeBaySellingRequest>`;
+}
+
 // ============ XML PARSER ============
 
 /**
  * Extract a single element value from XML by tag name
  */
 function extractXmlValue(xml: string, tagName: string): string | null {
-  const regex = new RegExp(`<${tagName}[^>]*>([^<]*)</${tagName}>`, "i");
+  const regex = new RegExp(`<${tagName}(?:\\s[^>]*)?>([^<]*)</${tagName}>`, "i");
   const match = xml.match(regex);
   return match ? match[1].trim() : null;
 }
@@ -110,11 +206,28 @@ function extractXmlValue(xml: string, tagName: string): string | null {
  * Extract all occurrences of an element from XML
  */
 function extractXmlBlocks(xml: string, tagName: string): string[] {
-  const regex = new RegExp(`<${tagName}[^>]*>[\\s\\S]*?</${tagName}>`, "gi");
+  const regex = new RegExp(`<${tagName}(?:\\s[^>]*)?>[\\s\\S]*?</${tagName}>`, "gi");
   const matches = xml.match(regex);
   return matches ?? [];
 }
 
+/**
+ * Extract Trading API error details as a single message
+ */
+function extractErrorMessage(xml: string): string {
+  const errorBlocks = extractXmlBlocks(xml, "Errors");
+  const errors = errorBlocks.map((block) => {
+    const code = extractXmlValue(block, "ErrorCode") ?? "UNKNOWN";
+    const shortMessage = extractXmlValue(block, "ShortMessage") ?? "Unknown error";
+    const longMessage = extractXmlValue(block, "LongMessage") ?? shortMessage;
+    return { code, shortMessage, longMessage };
+  });
+
+  return errors.length > 0
+    ? errors.map((e) => `${e.code}: ${e.longMessage}`).join("; ")
+    : "Unknown Trading API error";
+}
+
 /**
  * Parse the RespondToBestOffer XML response
  */
@@ -122,23 +235,10 @@ export function parseRespondToBestOfferResponse(xml: string): RespondToBestOffer
   const ack = extractXmlValue(xml, "Ack");
 
   if (ack === "Failure") {
-    // Extract error details
-    const errorBlocks = extractXmlBlocks(xml, "Errors");
-    const errors = errorBlocks.map((block) => {
-      const code = extractXmlValue(block, "ErrorCode") ?? "UNKNOWN";
-      const shortMessage = extractXmlValue(block, "ShortMessage") ?? "Unknown error";
-      const longMessage = extractXmlValue(block, "LongMessage") ?? shortMessage;
-      return { code, shortMessage, longMessage };
-    });
-
-    const errorMessage = errors.length > 0
-      ? errors.map((e) => `${e.code}: ${e.longMessage}`).join("; ")
-      : "Unknown Trading API error";
-
     return {
       success: false,
       responses: [],
-      error: errorMessage,
+      error: extractErrorMessage(xml),
     };
   }
 
@@ -168,6 +268,107 @@ export function parseRespondToBestOfferResponse(xml: string): RespondToBestOffer
   };
 }
 
+/**
+ * Parse the GetBestOffers XML response
+ *
+ * The response groups offers per item in ItemBestOffers blocks when no
+ * ItemID filter is given; with a filter, Item and BestOfferArray sit at
+ * the top level of the response.
+ */
+export function parseGetBestOffersResponse(xml: string): GetBestOffersResult {
+  const ack = extractXmlValue(xml, "Ack");
+
+  if (ack === "Failure") {
+    return {
+      success: false,
+      offers: [],
+      error: extractErrorMessage(xml),
+    };
+  }
+
+  const itemBlocks = extractXmlBlocks(xml, "ItemBestOffers");
+  const groups = itemBlocks.length > 0 ? itemBlocks : [xml];
+
+  const offers: EbayBestOffer[] = [];
+  for (const group of groups) {
+    const itemBlock = extractXmlBlocks(group, "Item")[0];
+    const itemId = itemBlock ? extractXmlValue(itemBlock, "ItemID") : null;
+    if (!itemId) continue;
+
+    for (const block of extractXmlBlocks(group, "BestOffer")) {
+      const bestOfferId = extractXmlValue(block, "BestOfferID");
+      const price = parseFloat(extractXmlValue(block, "Price") ?? "");
+      if (!bestOfferId || isNaN(price)) continue;
+
+      const currencyMatch = block.match(/<Price\s+currencyID="([^"]+)"/i);
+      const buyerBlock = extractXmlBlocks(block, "Buyer")[0];
+      const quantity = parseInt(extractXmlValue(block, "Quantity") ?? "1", 10);
+
+      offers.push({
+        bestOfferId,
+        itemId,
+        price,
+        currency: currencyMatch?.[1] ?? "USD",
+        status: extractXmlValue(block, "Status") ?? "Pending",
+        buyerUsername: buyerBlock
+          ? extractXmlValue(buyerBlock, "UserID") ?? undefined
+          : undefined,
+        buyerMessage: extractXmlValue(block, "BuyerMessage") ?? undefined,
+        quantity: isNaN(quantity) ? 1 : quantity,
+        expiresAt: extractXmlValue(block, "ExpirationTime") ?? undefined,
+        offerType: extractXmlValue(block, "BestOfferCodeType") ?? undefined,
+      });
+    }
+  }
+
+  return {
+    success: ack === "Success" || ack === "Warning",
+    offers,
+  };
+}
+
+/**
+ * Parse the GetMyeBaySelling XML response (active list)
+ */
+export function parseGetActiveListingsResponse(xml: string): GetActiveListingsResult {
+  const ack = extractXmlValue(xml, "Ack");
+
+  if (ack === "Failure") {
+    return {
+      success: false,
+      listings: [],
+      totalPages: 0,
+      error: extractErrorMessage(xml),
+    };
+  }
+
+  const activeList = extractXmlBlocks(xml, "ActiveList")[0] ?? "";
+
+  const listings: EbayActiveListing[] = [];
+  for (const block of extractXmlBlocks(activeList, "Item")) {
+    const itemId = extractXmlValue(block, "ItemID");
+    if (!itemId) continue;
+
+    const watchCount = parseInt(extractXmlValue(block, "WatchCount") ?? "0", 10);
+    listings.push({
+      itemId,
+      watchCount: isNaN(watchCount) ? 0 : watchCount,
+    });
+  }
+
+  const paginationBlock = extractXmlBlocks(activeList, "PaginationResult")[0];
+  const totalPages = parseInt(
+    (paginationBlock && extractXmlValue(paginationBlock, "TotalNumberOfPages")) ?? "1",
+    10
+  );
+
+  return {
+    success: ack === "Success" || ack === "Warning",
+    listings,
+    totalPages: isNaN(totalPages) ? 1 : totalPages,
+  };
+}
+
 // ============ TRADING API CLIENT ============
 
 /**
@@ -254,6 +455,51 @@ export class EbayTradingClient {
 
     return parseRespondToBestOfferResponse(responseXml);
   }
+
+  /**
+   * Get Best Offers made on the seller's listings
+   *
+   * Defaults to Active offers only, i.e. offers still awaiting a
+   * seller response.
+   *
+   * @param accessToken - The seller's OAuth access token
+   * @param input - Optional item filter and status
+   * @returns The parsed offers
+   */
+  async getBestOffers(
+    accessToken: string,
+    input: GetBestOffersInput = {}
+  ): Promise<GetBestOffersResult> {
+    const xmlBody = buildGetBestOffersXml(input);
+    const responseXml = await this.makeRequest(
+      "GetBestOffers",
+      accessToken,
+      xmlBody
+    );
+
+    return parseGetBestOffersResponse(responseXml);
+  }
+
+  /**
+   * Get one page of the seller's active listings with watch counts
+   *
+   * @param accessToken - The seller's OAuth access token
+   * @param input - Optional pagination
+   * @returns The parsed listings and total page count
+   */
+  async getActiveListings(
+    accessToken: string,
+    input: GetActiveListingsInput = {}
+  ): Promise<GetActiveListingsResult> {
+    const xmlBody = buildGetActiveListingsXml(input);
+    const responseXml = await this.makeRequest(
+      "GetMyeBaySelling",
+      accessToken,
+      xmlBody
+    );
+
+    return parseGetActiveListingsResponse(responseXml);
+  }
 }
 
 // Singleton instance
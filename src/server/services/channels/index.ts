@@ -4,11 +4,13 @@
  * Factory function to get the appropriate channel adapter.
  * Currently supports:
  * - eBay (native integration)
- * - Poshmark, Mercari, Depop (assisted mode - future implementation)
+ * - Mercari (native integration - publish, reprice, delist, order sync)
+ * - Poshmark, Depop (assisted mode - future implementation)
  */
 
 import type { ChannelId, ChannelAdapter, ChannelCapabilities } from "./types";
 import { getEbayAdapter } from "./ebay";
+import { getMercariAdapter } from "./mercari";
 
 // Re-export all types
 export * from "./types";
@@ -16,6 +18,9 @@ export * from "./types";
 // Re-export eBay module
 export * from "./ebay";
 
+// Re-export Mercari module
+export * from "./mercari";
+
 /**
  * Channel capabilities for all supported channels
  */
@@ -37,12 +42,12 @@ export const CHANNEL_CAPABILITIES: Record<ChannelId, ChannelCapabilities> = {
     requiresManualAction: true,
   },
   mercari: {
-    canPublish: false,
-    canReprice: false,
-    canDelist: false,
-    canSyncOrders: false,
+    canPublish: true,
+    canReprice: true,
+    canDelist: true,
+    canSyncOrders: true,
     canSyncInventory: false,
-    requiresManualAction: true,
+    requiresManualAction: false,
   },
   depop: {
     canPublish: false,
@@ -66,8 +71,10 @@ export function getAdapter(channel: ChannelId): ChannelAdapter {
     case "ebay":
       return getEbayAdapter();
 
-    case "poshmark":
     case "mercari":
+      return getMercariAdapter();
+
+    case "poshmark":
     case "depop":
       throw new Error(
         `Channel "${channel}" is in assisted mode. Use generateCrossListTemplate() for manual listing assistance.`
@@ -82,7 +89,23 @@ export function getAdapter(channel: ChannelId): ChannelAdapter {
  * Check if a channel has native integration support
  */
 export function isNativeChannel(channel: ChannelId): boolean {
-  return channel === "ebay";
+  return channel === "ebay" || channel === "mercari";
+}
+
+/**
+ * Check if listings on a channel can be managed through its adapter for a user
+ *
+ * eBay is always automated. Mercari falls back to the assisted flow until
+ * the user has connected an account.
+ */
+export async function canAutomateChannel(userId: string, channel: ChannelId): Promise<boolean> {
+  if (!isNativeChannel(channel)) {
+    return false;
+  }
+  if (channel === "ebay") {
+    return true;
+  }
+  return getAdapter(channel).isConnected(userId);
 }
 
 /**
@@ -0,0 +1,267 @@
+/**
+ * Mercari Channel Adapter Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MercariAdapter, buildMercariItem, mapMercariOrder } from "../adapter";
+import type { MercariHttpClient } from "../client";
+import type { ListingData } from "../../types";
+import { ChannelApiError, RateLimitError } from "../../types";
+
+// Mock the Mercari client module (the adapter gets a fake client instead)
+vi.mock("../client", () => ({
+  MercariApiClient: vi.fn(),
+  getMercariClient: vi.fn(),
+}));
+
+describe("MercariAdapter", () => {
+  let adapter: MercariAdapter;
+  let mockClient: {
+    request: ReturnType<typeof vi.fn>;
+    isConnected: ReturnType<typeof vi.fn>;
+  };
+
+  const testUserId = "user-123";
+  const testListing: ListingData = {
+    sku: "TEST-SKU-001",
+    title: "Vintage Levi's 501 Jeans Size 32x30 Made in USA Button Fly",
+    description: "Classic denim in great shape.",
+    price: 45.5,
+    quantity: 2,
+    condition: "like_new",
+    category: "cat-denim",
+    imageUrls: ["https://example.com/image1.jpg", "https://example.com/image2.jpg"],
+    itemSpecifics: { brand: "Levi's" },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient = {
+      request: vi.fn(),
+      isConnected: vi.fn().mockResolvedValue(true),
+    };
+
+    adapter = new MercariAdapter(mockClient as unknown as MercariHttpClient);
+  });
+
+  describe("properties", () => {
+    it("should have correct channel ID and mode", () => {
+      expect(adapter.channelId).toBe("mercari");
+      expect(adapter.mode).toBe("native");
+    });
+
+    it("should support publish, reprice, delist and order sync", () => {
+      expect(adapter.capabilities).toEqual({
+        canPublish: true,
+        canReprice: true,
+        canDelist: true,
+        canSyncOrders: true,
+        canSyncInventory: false,
+        requiresManualAction: false,
+      });
+    });
+  });
+
+  describe("isConnected", () => {
+    it("should delegate to the client", async () => {
+      mockClient.isConnected.mockResolvedValue(false);
+
+      expect(await adapter.isConnected(testUserId)).toBe(false);
+      expect(mockClient.isConnected).toHaveBeenCalledWith(testUserId);
+    });
+  });
+
+  describe("buildMercariItem", () => {
+    it("should apply Mercari limits and send the price in cents", () => {
+      const item = buildMercariItem({
+        ...testListing,
+        description: "x".repeat(1500),
+        imageUrls: Array.from({ length: 15 }, (_, i) => `https://example.com/${i}.jpg`),
+      });
+
+      expect(item.name).toHaveLength(40);
+      expect(item.description).toHaveLength(1000);
+      expect(item.photoUrls).toHaveLength(12);
+      expect(item.price).toBe(4550);
+      expect(item.condition).toBe("LIKE_NEW");
+      expect(item.brand).toBe("Levi's");
+      expect(item.categoryId).toBe("cat-denim");
+    });
+  });
+
+  describe("publish", () => {
+    it("should create the item and return its ID and URL", async () => {
+      mockClient.request.mockResolvedValue({
+        id: "m123",
+        url: "https://www.mercari.com/us/item/m123/",
+        status: "ACTIVE",
+      });
+
+      const result = await adapter.publish(testUserId, testListing);
+
+      expect(result).toEqual({
+        success: true,
+        externalId: "m123",
+        externalUrl: "https://www.mercari.com/us/item/m123/",
+      });
+      expect(mockClient.request).toHaveBeenCalledWith(testUserId, {
+        method: "POST",
+        path: "/items",
+        body: expect.objectContaining({ sku: "TEST-SKU-001", price: 4550, quantity: 2 }),
+      });
+    });
+
+    it("should reject listings without photos", async () => {
+      const result = await adapter.publish(testUserId, { ...testListing, imageUrls: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe("PHOTOS_REQUIRED");
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it("should surface API errors", async () => {
+      mockClient.request.mockRejectedValue(
+        new ChannelApiError("Category is required", "INVALID_CATEGORY", 400, false)
+      );
+
+      const result = await adapter.publish(testUserId, testListing);
+
+      expect(result).toEqual({
+        success: false,
+        error: "Category is required",
+        errorCode: "INVALID_CATEGORY",
+      });
+    });
+
+    it("should report rate limits", async () => {
+      mockClient.request.mockRejectedValue(
+        new RateLimitError("Too many requests", new Date(Date.now() + 30000))
+      );
+
+      const result = await adapter.publish(testUserId, testListing);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe("RATE_LIMIT_EXCEEDED");
+    });
+  });
+
+  describe("update", () => {
+    it("should patch only the changed fields", async () => {
+      mockClient.request.mockResolvedValue({});
+
+      const result = await adapter.update(testUserId, "m123", { quantity: 1 });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.request).toHaveBeenCalledWith(testUserId, {
+        method: "PATCH",
+        path: "/items/m123",
+        body: { quantity: 1 },
+      });
+    });
+
+    it("should skip the request when nothing changed", async () => {
+      const result = await adapter.update(testUserId, "m123", {});
+
+      expect(result.success).toBe(true);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updatePrice", () => {
+    it("should patch the price in cents", async () => {
+      mockClient.request.mockResolvedValue({});
+
+      const result = await adapter.updatePrice(testUserId, "m123", 39.99);
+
+      expect(result.success).toBe(true);
+      expect(mockClient.request).toHaveBeenCalledWith(testUserId, {
+        method: "PATCH",
+        path: "/items/m123",
+        body: { price: 3999 },
+      });
+    });
+  });
+
+  describe("delist", () => {
+    it("should deactivate the item", async () => {
+      mockClient.request.mockResolvedValue({});
+
+      const result = await adapter.delist(testUserId, "m123");
+
+      expect(result.success).toBe(true);
+      expect(mockClient.request).toHaveBeenCalledWith(testUserId, {
+        method: "PATCH",
+        path: "/items/m123",
+        body: { status: "INACTIVE" },
+      });
+    });
+
+    it("should return failure when the item is not found", async () => {
+      mockClient.request.mockRejectedValue(
+        new ChannelApiError("Item not found", "NOT_FOUND", 404, false)
+      );
+
+      const result = await adapter.delist(testUserId, "missing");
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe("NOT_FOUND");
+    });
+  });
+
+  describe("syncOrders", () => {
+    const order = {
+      id: "order-1",
+      status: "PAID" as const,
+      createdAt: "2026-03-01T10:00:00Z",
+      paidAt: "2026-03-01T10:05:00Z",
+      buyer: { username: "buyer1" },
+      total: 4550,
+      shippingFee: 599,
+      sellerFee: 455,
+      items: [{ itemId: "m123", sku: "TEST-SKU-001", name: "Jeans", quantity: 1, price: 4550 }],
+    };
+
+    it("should map orders from cents", () => {
+      const mapped = mapMercariOrder(order);
+
+      expect(mapped).toMatchObject({
+        externalOrderId: "order-1",
+        channel: "mercari",
+        buyerUsername: "buyer1",
+        status: "PAID",
+        salePrice: 45.5,
+        shippingPaid: 5.99,
+        platformFees: 4.55,
+      });
+      expect(mapped.lineItems[0]).toEqual({
+        sku: "TEST-SKU-001",
+        title: "Jeans",
+        quantity: 1,
+        price: 45.5,
+        externalListingId: "m123",
+      });
+      expect(mapped.paidAt).toEqual(new Date("2026-03-01T10:05:00Z"));
+    });
+
+    it("should follow page tokens", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({ orders: [order], nextPageToken: "page-2" })
+        .mockResolvedValueOnce({ orders: [{ ...order, id: "order-2" }] });
+
+      const orders = await adapter.syncOrders(testUserId, new Date("2026-03-01T00:00:00Z"));
+
+      expect(orders.map((o) => o.externalOrderId)).toEqual(["order-1", "order-2"]);
+      expect(mockClient.request).toHaveBeenCalledTimes(2);
+      expect(mockClient.request.mock.calls[1][1].path).toContain("page_token=page-2");
+    });
+
+    it("should throw when a later page fails", async () => {
+      mockClient.request
+        .mockResolvedValueOnce({ orders: [order], nextPageToken: "page-2" })
+        .mockRejectedValueOnce(new Error("Network error"));
+
+      await expect(adapter.syncOrders(testUserId, new Date())).rejects.toThrow("Network error");
+    });
+  });
+});
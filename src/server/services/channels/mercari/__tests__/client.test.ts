@@ -0,0 +1,228 @@
+/**
+ * Mercari API Client Tests
+ *
+ * Runs the real fetch-based client against a local stub server.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { MercariApiClient } from "../client";
+import { MercariAdapter } from "../adapter";
+import { AuthenticationError, ChannelApiError } from "../../types";
+
+const { connection } = vi.hoisted(() => ({
+  connection: {
+    current: null as null | {
+      accessToken: string;
+      refreshToken: string;
+      tokenExpiresAt: Date;
+    },
+    updates: [] as Array<Record<string, unknown>>,
+  },
+}));
+
+// Mock the database
+vi.mock("@/server/db/client", () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(() => Promise.resolve(connection.current ? [connection.current] : [])),
+        })),
+      })),
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: Record<string, unknown>) => {
+        connection.updates.push(values);
+        return { where: vi.fn(() => Promise.resolve({})) };
+      }),
+    })),
+  },
+}));
+
+// ============ STUB SERVER ============
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: unknown;
+}
+
+type StubHandler = (req: RecordedRequest, res: ServerResponse) => void;
+
+const requests: RecordedRequest[] = [];
+let handler: StubHandler;
+let server: Server;
+let baseUrl: string;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+describe("MercariApiClient", () => {
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const raw = await readBody(req);
+      const recorded = {
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        authorization: req.headers.authorization,
+        body:
+          raw && req.headers["content-type"] === "application/json" ? JSON.parse(raw) : raw || undefined,
+      };
+      requests.push(recorded);
+      handler(recorded, res);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    connection.updates.length = 0;
+    connection.current = {
+      accessToken: "access-token",
+      refreshToken: "refresh-token",
+      tokenExpiresAt: new Date(Date.now() + 3600000),
+    };
+  });
+
+  it("should send authenticated JSON requests", async () => {
+    handler = (_req, res) => sendJson(res, 201, { id: "m123", status: "ACTIVE" });
+    const client = new MercariApiClient({ baseUrl });
+
+    const result = await client.request<{ id: string }>("user-1", {
+      method: "POST",
+      path: "/items",
+      body: { name: "Jeans", price: 4550 },
+    });
+
+    expect(result.id).toBe("m123");
+    expect(requests[0]).toEqual({
+      method: "POST",
+      url: "/v1/items",
+      authorization: "Bearer access-token",
+      body: { name: "Jeans", price: 4550 },
+    });
+  });
+
+  it("should map API errors to channel errors", async () => {
+    handler = (_req, res) =>
+      sendJson(res, 400, { error: { code: "INVALID_PRICE", message: "Price too low" } });
+    const client = new MercariApiClient({ baseUrl });
+
+    const error = (await client
+      .request("user-1", { method: "PATCH", path: "/items/m123", body: { price: 1 } })
+      .catch((e) => e)) as ChannelApiError;
+
+    expect(error).toBeInstanceOf(ChannelApiError);
+    expect(error.code).toBe("INVALID_PRICE");
+    expect(error.statusCode).toBe(400);
+  });
+
+  it("should throw an authentication error on 401", async () => {
+    handler = (_req, res) => sendJson(res, 401, { error: { message: "Token revoked" } });
+    const client = new MercariApiClient({ baseUrl });
+
+    await expect(client.request("user-1", { method: "GET", path: "/orders" })).rejects.toThrow(
+      AuthenticationError
+    );
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should refresh an expiring token before the request", async () => {
+    connection.current = {
+      accessToken: "old-token",
+      refreshToken: "refresh-token",
+      tokenExpiresAt: new Date(Date.now() + 60000),
+    };
+    handler = (req, res) => {
+      if (req.url === "/v1/oauth/token") {
+        sendJson(res, 200, { access_token: "new-token", expires_in: 3600 });
+      } else {
+        res.writeHead(204);
+        res.end();
+      }
+    };
+    const client = new MercariApiClient({ baseUrl });
+
+    await client.request("user-1", { method: "PATCH", path: "/items/m123", body: {} });
+
+    expect(requests.map((r) => r.url)).toEqual(["/v1/oauth/token", "/v1/items/m123"]);
+    expect(requests[1].authorization).toBe("Bearer new-token");
+  });
+
+  it("should mark the connection expired when the refresh token is rejected", async () => {
+    connection.current = {
+      accessToken: "old-token",
+      refreshToken: "revoked-token",
+      tokenExpiresAt: new Date(Date.now() + 60000),
+    };
+    handler = (_req, res) => sendJson(res, 400, { error: "invalid_grant" });
+    const client = new MercariApiClient({ baseUrl });
+
+    const error = await client
+      .request("user-1", { method: "GET", path: "/items/m123" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(connection.updates).toEqual([{ status: "expired" }]);
+    // Not retried, and the original request is never sent
+    expect(requests.map((r) => r.url)).toEqual(["/v1/oauth/token"]);
+  });
+
+  it("should report whether the user is connected", async () => {
+    const client = new MercariApiClient({ baseUrl });
+    expect(await client.isConnected("user-1")).toBe(true);
+
+    connection.current = null;
+    expect(await client.isConnected("user-1")).toBe(false);
+  });
+
+  it("should run the adapter end to end against the stub", async () => {
+    handler = (req, res) => {
+      if (req.method === "POST" && req.url === "/v1/items") {
+        sendJson(res, 201, { id: "m555", url: "https://www.mercari.com/us/item/m555/" });
+      } else {
+        sendJson(res, 200, { id: "m555", status: "INACTIVE" });
+      }
+    };
+    const adapter = new MercariAdapter(new MercariApiClient({ baseUrl }));
+
+    const published = await adapter.publish("user-1", {
+      sku: "SKU-1",
+      title: "Jeans",
+      description: "Denim",
+      price: 20,
+      quantity: 1,
+      condition: "good",
+      imageUrls: ["https://example.com/1.jpg"],
+    });
+    const delisted = await adapter.delist("user-1", "m555");
+
+    expect(published).toMatchObject({ success: true, externalId: "m555" });
+    expect(delisted.success).toBe(true);
+    expect(requests[1]).toMatchObject({
+      method: "PATCH",
+      url: "/v1/items/m555",
+      body: { status: "INACTIVE" },
+    });
+  });
+});
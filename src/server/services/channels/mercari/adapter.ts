@@ -0,0 +1,417 @@
+/**
+ * Mercari Channel Adapter for ResellerOS
+ *
+ * Native integration with the Mercari seller API: publish, reprice,
+ * delist, and order sync. Offers and inventory sync are not supported,
+ * so those stay on the assisted flow.
+ */
+
+import {
+  type ChannelAdapter,
+  type ChannelCapabilities,
+  type ListingData,
+  type PublishResult,
+  type DelistResult,
+  type UpdateResult,
+  type ChannelOrder,
+  ChannelApiError,
+  RateLimitError,
+} from "../types";
+import type { Condition } from "@/lib/constants";
+import { getMercariClient, type MercariHttpClient } from "./client";
+
+// ============ MERCARI API TYPES ============
+
+/** Prices are integer cents */
+interface MercariItemRequest {
+  name: string;
+  description: string;
+  price: number;
+  condition: MercariCondition;
+  photoUrls: string[];
+  quantity: number;
+  sku: string;
+  brand?: string;
+  categoryId?: string;
+}
+
+interface MercariItemResponse {
+  id: string;
+  url?: string;
+  status: "ACTIVE" | "INACTIVE" | "SOLD_OUT";
+}
+
+type MercariOrderStatus =
+  | "PENDING_PAYMENT"
+  | "PAID"
+  | "SHIPPED"
+  | "COMPLETED"
+  | "CANCELLED"
+  | "REFUNDED";
+
+interface MercariOrder {
+  id: string;
+  status: MercariOrderStatus;
+  createdAt: string;
+  paidAt?: string;
+  shippedAt?: string;
+  buyer?: { username?: string };
+  /** Order total in cents */
+  total: number;
+  shippingFee?: number;
+  sellerFee?: number;
+  shippingAddress?: {
+    name?: string;
+    line1?: string;
+    line2?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+    country?: string;
+  };
+  items: Array<{
+    itemId: string;
+    sku?: string;
+    name: string;
+    quantity: number;
+    price: number;
+  }>;
+}
+
+interface MercariOrdersResponse {
+  orders: MercariOrder[];
+  nextPageToken?: string;
+}
+
+type MercariCondition = "NEW" | "LIKE_NEW" | "GOOD" | "FAIR" | "POOR";
+
+// ============ CONSTANTS ============
+
+const CONDITION_TO_MERCARI: Record<Condition, MercariCondition> = {
+  new: "NEW",
+  like_new: "LIKE_NEW",
+  good: "GOOD",
+  fair: "FAIR",
+  poor: "POOR",
+};
+
+const ORDER_STATUS_FROM_MERCARI: Record<MercariOrderStatus, ChannelOrder["status"]> = {
+  PENDING_PAYMENT: "PENDING",
+  PAID: "PAID",
+  SHIPPED: "SHIPPED",
+  COMPLETED: "DELIVERED",
+  CANCELLED: "CANCELLED",
+  REFUNDED: "REFUNDED",
+};
+
+/** Mercari listing limits (matches the assisted template) */
+const MAX_TITLE_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_PHOTOS = 12;
+
+/** Upper bound on order pages fetched per sync */
+const MAX_ORDER_PAGES = 10;
+
+// ============ HELPERS ============
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Build the Mercari item body for a listing
+ */
+export function buildMercariItem(listing: ListingData): MercariItemRequest {
+  return {
+    name: listing.title.substring(0, MAX_TITLE_LENGTH),
+    description: listing.description.substring(0, MAX_DESCRIPTION_LENGTH),
+    price: toCents(listing.price),
+    condition: CONDITION_TO_MERCARI[listing.condition],
+    photoUrls: listing.imageUrls.slice(0, MAX_PHOTOS),
+    quantity: listing.quantity,
+    sku: listing.sku,
+    brand: listing.itemSpecifics?.brand,
+    categoryId: listing.category,
+  };
+}
+
+/**
+ * Map a Mercari order to a channel order
+ */
+export function mapMercariOrder(order: MercariOrder): ChannelOrder {
+  const address = order.shippingAddress;
+
+  return {
+    externalOrderId: order.id,
+    channel: "mercari",
+    buyerUsername: order.buyer?.username,
+    status: ORDER_STATUS_FROM_MERCARI[order.status] ?? "PENDING",
+    salePrice: fromCents(order.total),
+    shippingPaid: order.shippingFee !== undefined ? fromCents(order.shippingFee) : undefined,
+    platformFees: order.sellerFee !== undefined ? fromCents(order.sellerFee) : undefined,
+    shippingAddress: address
+      ? {
+          name: address.name,
+          street1: address.line1,
+          street2: address.line2,
+          city: address.city,
+          state: address.state,
+          postalCode: address.zip,
+          country: address.country,
+        }
+      : undefined,
+    lineItems: order.items.map((item) => ({
+      sku: item.sku ?? "",
+      title: item.name,
+      quantity: item.quantity,
+      price: fromCents(item.price),
+      externalListingId: item.itemId,
+    })),
+    orderedAt: new Date(order.createdAt),
+    paidAt: order.paidAt ? new Date(order.paidAt) : undefined,
+    shippedAt: order.shippedAt ? new Date(order.shippedAt) : undefined,
+  };
+}
+
+// ============ ADAPTER ============
+
+export class MercariAdapter implements ChannelAdapter {
+  readonly channelId = "mercari" as const;
+  readonly mode = "native" as const;
+  readonly capabilities: ChannelCapabilities = {
+    canPublish: true,
+    canReprice: true,
+    canDelist: true,
+    canSyncOrders: true,
+    canSyncInventory: false,
+    requiresManualAction: false,
+  };
+
+  private client: MercariHttpClient;
+
+  constructor(client?: MercariHttpClient) {
+    this.client = client ?? getMercariClient();
+  }
+
+  // ============ AUTHENTICATION ============
+
+  async isConnected(userId: string): Promise<boolean> {
+    return this.client.isConnected(userId);
+  }
+
+  async getAuthUrl(userId: string): Promise<string> {
+    const clientId = process.env.MERCARI_CLIENT_ID ?? "";
+    const authUrl = process.env.MERCARI_AUTH_URL ?? "https://www.mercari.com/oauth/authorize";
+    const redirectUri =
+      process.env.MERCARI_REDIRECT_URI ?? `${process.env.NEXTAUTH_URL}/api/auth/callback/mercari`;
+
+    const params = new URLSearchParams({
+      client_id: clientId,
+      response_type: "code",
+      redirect_uri: redirectUri,
+      scope: "items orders",
+      state: userId,
+    });
+
+    return `${authUrl}?${params.toString()}`;
+  }
+
+  async handleCallback(_userId: string, _code: string): Promise<void> {
+    // Token exchange is handled by the OAuth callback route
+    throw new Error("OAuth callback is handled by the Mercari callback route");
+  }
+
+  async refreshToken(userId: string): Promise<boolean> {
+    // Token refresh is automatic in the client; this forces a check
+    try {
+      await this.client.request(userId, { method: "GET", path: "/items?limit=1" });
+      return true;
+    } catch (error) {
+      console.error("[MercariAdapter] Token refresh check failed:", error);
+      return false;
+    }
+  }
+
+  // ============ LISTING OPERATIONS ============
+
+  /**
+   * Publish a listing to Mercari
+   */
+  async publish(userId: string, listing: ListingData): Promise<PublishResult> {
+    if (listing.imageUrls.length === 0) {
+      return {
+        success: false,
+        error: "Mercari listings require at least one photo",
+        errorCode: "PHOTOS_REQUIRED",
+      };
+    }
+
+    try {
+      const item = await this.client.request<MercariItemResponse>(userId, {
+        method: "POST",
+        path: "/items",
+        body: buildMercariItem(listing),
+      });
+
+      return {
+        success: true,
+        externalId: item.id,
+        externalUrl: item.url ?? `https://www.mercari.com/us/item/${item.id}/`,
+      };
+    } catch (error) {
+      return this.handleError(error, "publish");
+    }
+  }
+
+  /**
+   * Update an existing Mercari listing
+   */
+  async update(
+    userId: string,
+    externalId: string,
+    updates: Partial<ListingData>
+  ): Promise<UpdateResult> {
+    const body: Partial<MercariItemRequest> = {};
+    if (updates.title !== undefined) body.name = updates.title.substring(0, MAX_TITLE_LENGTH);
+    if (updates.description !== undefined) {
+      body.description = updates.description.substring(0, MAX_DESCRIPTION_LENGTH);
+    }
+    if (updates.price !== undefined) body.price = toCents(updates.price);
+    if (updates.condition !== undefined) body.condition = CONDITION_TO_MERCARI[updates.condition];
+    if (updates.imageUrls !== undefined) body.photoUrls = updates.imageUrls.slice(0, MAX_PHOTOS);
+    if (updates.quantity !== undefined) body.quantity = updates.quantity;
+
+    if (Object.keys(body).length === 0) {
+      return { success: true };
+    }
+
+    try {
+      await this.client.request(userId, {
+        method: "PATCH",
+        path: `/items/${encodeURIComponent(externalId)}`,
+        body,
+      });
+      return { success: true };
+    } catch (error) {
+      return this.handleError(error, "update");
+    }
+  }
+
+  /**
+   * Update the price of a Mercari listing
+   */
+  async updatePrice(userId: string, externalId: string, newPrice: number): Promise<UpdateResult> {
+    try {
+      await this.client.request(userId, {
+        method: "PATCH",
+        path: `/items/${encodeURIComponent(externalId)}`,
+        body: { price: toCents(newPrice) },
+      });
+      return { success: true };
+    } catch (error) {
+      return this.handleError(error, "updatePrice");
+    }
+  }
+
+  /**
+   * Delist a Mercari listing (deactivate it)
+   */
+  async delist(userId: string, externalId: string): Promise<DelistResult> {
+    try {
+      await this.client.request(userId, {
+        method: "PATCH",
+        path: `/items/${encodeURIComponent(externalId)}`,
+        body: { status: "INACTIVE" },
+      });
+      return { success: true };
+    } catch (error) {
+      return this.handleError(error, "delist");
+    }
+  }
+
+  // ============ ORDER OPERATIONS ============
+
+  /**
+   * Fetch orders created since the given date, following pagination
+   *
+   * Throws when a page fails, so callers never treat a partial fetch as
+   * the whole window.
+   */
+  async syncOrders(userId: string, since: Date): Promise<ChannelOrder[]> {
+    const orders: ChannelOrder[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      for (let page = 0; page < MAX_ORDER_PAGES; page++) {
+        const params = new URLSearchParams({
+          created_after: since.toISOString(),
+          limit: "50",
+        });
+        if (pageToken) params.set("page_token", pageToken);
+
+        const response = await this.client.request<MercariOrdersResponse>(userId, {
+          method: "GET",
+          path: `/orders?${params.toString()}`,
+        });
+
+        orders.push(...(response.orders ?? []).map(mapMercariOrder));
+
+        pageToken = response.nextPageToken;
+        if (!pageToken) break;
+      }
+
+      return orders;
+    } catch (error) {
+      console.error("[MercariAdapter] Order sync failed:", error);
+      throw error;
+    }
+  }
+
+  // ============ ERROR HANDLING ============
+
+  /**
+   * Handle errors and convert to appropriate result type
+   */
+  private handleError(
+    error: unknown,
+    operation: string
+  ): PublishResult | DelistResult | UpdateResult {
+    if (error instanceof RateLimitError) {
+      return {
+        success: false,
+        error: `Rate limit exceeded. Try again after ${error.retryAfter ?? 60} seconds.`,
+        errorCode: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    if (error instanceof ChannelApiError) {
+      console.error(`[MercariAdapter] ${operation} error:`, error.message, error.code);
+      return {
+        success: false,
+        error: error.message,
+        errorCode: error.code,
+      };
+    }
+
+    console.error(`[MercariAdapter] ${operation} unexpected error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "An unexpected error occurred",
+      errorCode: "UNKNOWN",
+    };
+  }
+}
+
+// Singleton instance
+let adapterInstance: MercariAdapter | null = null;
+
+/**
+ * Get the Mercari adapter singleton instance
+ */
+export function getMercariAdapter(): MercariAdapter {
+  if (!adapterInstance) {
+    adapterInstance = new MercariAdapter();
+  }
+  return adapterInstance;
+}
+
+export default MercariAdapter;
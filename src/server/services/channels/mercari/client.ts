@@ -0,0 +1,329 @@
+/**
+ * Mercari API Client for ResellerOS
+ *
+ * The adapter talks to Mercari through the MercariHttpClient interface, so
+ * tests can point it at a local stub server or swap in a fake. The default
+ * implementation handles OAuth tokens (stored in channelConnections),
+ * error mapping, and retries.
+ */
+
+import { db } from "@/server/db/client";
+import { channelConnections } from "@/server/db/schema";
+import { eq, and } from "drizzle-orm";
+import {
+  ChannelApiError,
+  AuthenticationError,
+  TokenExpiredError,
+  RateLimitError,
+} from "../types";
+
+// ============ CONFIGURATION ============
+
+export interface MercariClientConfig {
+  /** API base URL, without a trailing slash */
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+const getDefaultConfig = (): MercariClientConfig => ({
+  baseUrl: process.env.MERCARI_API_URL ?? "https://api.mercari.com/v1",
+  clientId: process.env.MERCARI_CLIENT_ID ?? "",
+  clientSecret: process.env.MERCARI_CLIENT_SECRET ?? "",
+});
+
+// ============ HTTP INTERFACE ============
+
+export interface MercariRequestOptions {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  body?: unknown;
+}
+
+/**
+ * HTTP layer used by the Mercari adapter
+ */
+export interface MercariHttpClient {
+  request<T>(userId: string, options: MercariRequestOptions): Promise<T>;
+  isConnected(userId: string): Promise<boolean>;
+}
+
+// ============ TOKEN MANAGEMENT ============
+
+interface TokenData {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+/**
+ * Get tokens for a user from the database
+ */
+async function getTokens(userId: string): Promise<TokenData | null> {
+  const connection = await db
+    .select()
+    .from(channelConnections)
+    .where(
+      and(eq(channelConnections.userId, userId), eq(channelConnections.channel, "mercari"))
+    )
+    .limit(1);
+
+  if (connection.length === 0) {
+    return null;
+  }
+
+  const conn = connection[0];
+  if (!conn.accessToken || !conn.refreshToken) {
+    return null;
+  }
+
+  return {
+    accessToken: conn.accessToken,
+    refreshToken: conn.refreshToken,
+    expiresAt: conn.tokenExpiresAt ?? new Date(0),
+  };
+}
+
+/**
+ * Refresh an expired token and persist it
+ */
+async function refreshToken(
+  userId: string,
+  refreshTokenValue: string,
+  config: MercariClientConfig
+): Promise<TokenData | null> {
+  const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString(
+    "base64"
+  );
+
+  try {
+    const response = await fetch(`${config.baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: refreshTokenValue,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("[MercariClient] Token refresh failed:", await response.text());
+      // A rejected refresh token needs the user to reconnect; 5xx may be transient
+      if (response.status < 500) {
+        await db
+          .update(channelConnections)
+          .set({ status: "expired" })
+          .where(
+            and(eq(channelConnections.userId, userId), eq(channelConnections.channel, "mercari"))
+          );
+        throw new AuthenticationError("Mercari connection expired. Reconnect your account.");
+      }
+      return null;
+    }
+
+    const data = await response.json();
+    const tokens = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || refreshTokenValue,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+    };
+
+    await db
+      .update(channelConnections)
+      .set({
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        tokenExpiresAt: tokens.expiresAt,
+        status: "active",
+      })
+      .where(
+        and(eq(channelConnections.userId, userId), eq(channelConnections.channel, "mercari"))
+      );
+
+    return tokens;
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw error;
+    }
+    console.error("[MercariClient] Token refresh error:", error);
+    return null;
+  }
+}
+
+/**
+ * Get a valid access token, refreshing if necessary
+ */
+async function getValidToken(userId: string, config: MercariClientConfig): Promise<string> {
+  const tokens = await getTokens(userId);
+
+  if (!tokens) {
+    throw new AuthenticationError("No Mercari connection found for user");
+  }
+
+  // Refresh if the token expires in the next 5 minutes
+  const bufferTime = 5 * 60 * 1000;
+  if (tokens.expiresAt.getTime() - Date.now() < bufferTime) {
+    const newTokens = await refreshToken(userId, tokens.refreshToken, config);
+    if (!newTokens) {
+      throw new TokenExpiredError();
+    }
+    return newTokens.accessToken;
+  }
+
+  return tokens.accessToken;
+}
+
+// ============ HTTP CLIENT ============
+
+interface MercariErrorResponse {
+  error?: {
+    code?: string;
+    message?: string;
+  };
+}
+
+/**
+ * Parse a Mercari API error response
+ */
+function parseMercariError(response: MercariErrorResponse | undefined, statusCode: number) {
+  const code = response?.error?.code ?? `HTTP_${statusCode}`;
+  const message = response?.error?.message ?? `Mercari API error (${statusCode})`;
+
+  if (statusCode === 401) {
+    return new AuthenticationError(message);
+  }
+
+  return new ChannelApiError(message, code, statusCode, statusCode >= 500);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Mercari API client over fetch
+ */
+export class MercariApiClient implements MercariHttpClient {
+  private config: MercariClientConfig;
+
+  constructor(config?: Partial<MercariClientConfig>) {
+    this.config = {
+      ...getDefaultConfig(),
+      ...config,
+    };
+  }
+
+  /**
+   * Make an authenticated request with retries on rate limits and server errors
+   */
+  async request<T>(userId: string, options: MercariRequestOptions): Promise<T> {
+    const maxRetries = 3;
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        return await this.executeRequest<T>(userId, options);
+      } catch (error) {
+        lastError = error as Error;
+
+        if (error instanceof AuthenticationError) {
+          throw error;
+        }
+
+        const retryable =
+          error instanceof RateLimitError ||
+          (error instanceof ChannelApiError && error.retryable);
+
+        if (retryable && attempt < maxRetries - 1) {
+          const backoff = Math.min(1000 * Math.pow(2, attempt), 10000);
+          console.log(`[MercariClient] Retryable error, attempt ${attempt + 1}, waiting ${backoff}ms`);
+          await sleep(backoff);
+          continue;
+        }
+
+        throw error;
+      }
+    }
+
+    throw lastError ?? new Error("Request failed after retries");
+  }
+
+  /**
+   * Execute a single request
+   */
+  private async executeRequest<T>(userId: string, options: MercariRequestOptions): Promise<T> {
+    const accessToken = await getValidToken(userId, this.config);
+
+    const fetchOptions: RequestInit = {
+      method: options.method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+    };
+
+    if (options.body !== undefined && options.method !== "GET") {
+      fetchOptions.body = JSON.stringify(options.body);
+    }
+
+    const response = await fetch(`${this.config.baseUrl}${options.path}`, fetchOptions);
+
+    if (response.status === 429) {
+      const retryAfter = response.headers.get("Retry-After");
+      const resetsAt = retryAfter
+        ? new Date(Date.now() + parseInt(retryAfter, 10) * 1000)
+        : new Date(Date.now() + 60000);
+      throw new RateLimitError("Mercari API rate limit exceeded", resetsAt);
+    }
+
+    if (response.status === 204) {
+      return {} as T;
+    }
+
+    const text = await response.text();
+    let data: unknown;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = { error: { message: text } };
+      }
+    }
+
+    if (!response.ok) {
+      throw parseMercariError(data as MercariErrorResponse, response.status);
+    }
+
+    return (data ?? {}) as T;
+  }
+
+  /**
+   * Check if a user has a Mercari connection
+   */
+  async isConnected(userId: string): Promise<boolean> {
+    try {
+      return (await getTokens(userId)) !== null;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+let clientInstance: MercariApiClient | null = null;
+
+/**
+ * Get the Mercari client singleton instance
+ */
+export function getMercariClient(): MercariApiClient {
+  if (!clientInstance) {
+    clientInstance = new MercariApiClient();
+  }
+  return clientInstance;
+}
+
+export default MercariApiClient;
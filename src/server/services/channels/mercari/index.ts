@@ -0,0 +1,9 @@
+/**
+ * Mercari Channel Module Exports
+ */
+
+export { MercariApiClient, getMercariClient } from "./client";
+export { MercariAdapter, getMercariAdapter, buildMercariItem, mapMercariOrder } from "./adapter";
+
+// Re-export types
+export type { MercariClientConfig, MercariHttpClient, MercariRequestOptions } from "./client";
@@ -55,6 +55,16 @@ export const CONDITION_TO_EBAY: Record<Condition, EbayCondition> = {
   poor: "FOR_PARTS_OR_NOT_WORKING",
 };
 
+/**
+ * Seller business policies and ship-from location for a listing
+ */
+export interface ListingPolicies {
+  fulfillmentPolicyId?: string;
+  paymentPolicyId?: string;
+  returnPolicyId?: string;
+  merchantLocationKey?: string;
+}
+
 export interface ListingData {
   title: string;
   description: string;
@@ -65,6 +75,8 @@ export interface ListingData {
   imageUrls: string[];
   itemSpecifics?: Record<string, string>;
   sku: string;
+  /** Business policies to publish with (required by eBay) */
+  policies?: ListingPolicies;
 }
 
 // ============ OPERATION RESULTS ============
@@ -157,6 +169,7 @@ export interface ChannelAdapter {
   delist(userId: string, externalId: string): Promise<DelistResult>;
 
   // Sync Operations (if supported)
+  /** Throws rather than returning a partial list when a fetch fails */
   syncOrders?(userId: string, since: Date): Promise<ChannelOrder[]>;
 
   // Assisted Mode Helpers
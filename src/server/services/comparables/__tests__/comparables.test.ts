@@ -0,0 +1,187 @@
+/**
+ * Comparables Service Tests
+ *
+ * Tests for price statistics and the fixture and eBay comparables providers.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  percentile,
+  calculatePriceStats,
+  summarizeComparables,
+  buildSearchParams,
+  EbayBrowseComparablesProvider,
+  FixtureComparablesProvider,
+  type FixtureComparable,
+} from "..";
+import { ChannelApiError } from "@/server/services/channels/types";
+import type { EbayClient } from "@/server/services/channels/ebay/client";
+
+vi.mock("@/server/db/client", () => ({
+  db: {},
+}));
+
+function createClient(request: ReturnType<typeof vi.fn>): EbayClient {
+  return { request } as unknown as EbayClient;
+}
+
+describe("Comparables Service", () => {
+  // ============ STATS ============
+
+  describe("percentile", () => {
+    it("should interpolate between ranks", () => {
+      expect(percentile([10, 20, 30, 40], 50)).toBe(25);
+      expect(percentile([10, 20, 30, 40], 25)).toBe(17.5);
+    });
+
+    it("should handle empty and single-value lists", () => {
+      expect(percentile([], 50)).toBe(0);
+      expect(percentile([42], 75)).toBe(42);
+    });
+  });
+
+  describe("calculatePriceStats", () => {
+    it("should summarize unsorted prices and ignore non-positive ones", () => {
+      const stats = calculatePriceStats([30, 10, 0, 20, 50, 40]);
+      expect(stats).toEqual({ count: 5, min: 10, max: 50, median: 30, p25: 20, p75: 40 });
+    });
+
+    it("should return null without prices", () => {
+      expect(calculatePriceStats([])).toBeNull();
+    });
+  });
+
+  describe("summarizeComparables", () => {
+    it("should summarize active and sold comparables separately", () => {
+      const stats = summarizeComparables([
+        { id: "1", title: "A", price: 10, status: "active" },
+        { id: "2", title: "B", price: 30, status: "active" },
+        { id: "3", title: "C", price: 25, status: "sold" },
+      ]);
+      expect(stats.active?.median).toBe(20);
+      expect(stats.sold?.count).toBe(1);
+    });
+  });
+
+  // ============ FIXTURE PROVIDER ============
+
+  describe("FixtureComparablesProvider", () => {
+    const fixtures: FixtureComparable[] = [
+      { id: "1", title: "Nike Air Max 90", price: 80, status: "active", categoryId: "15709" },
+      { id: "2", title: "Nike Air Max 95", price: 90, status: "sold", itemCondition: "good" },
+      { id: "3", title: "Nike Air Max 90", price: 70, status: "sold", itemCondition: "new" },
+      { id: "4", title: "Adidas Ultraboost", price: 60, status: "active" },
+      { id: "5", title: "Nike Air Max 90", price: 75, status: "active", categoryId: "11450" },
+    ];
+    const provider = new FixtureComparablesProvider(fixtures);
+
+    it("should match on shared title keywords, category, and condition", async () => {
+      const result = await provider.search("user-1", {
+        title: "Nike Air Max 90 Sneakers",
+        categoryId: "15709",
+        condition: "good",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.comparables.map((c) => c.id)).toEqual(["1", "2"]);
+    });
+
+    it("should leave out excluded listings", async () => {
+      const result = await provider.search("user-1", {
+        title: "Nike Air Max",
+        excludeIds: ["1", "2"],
+      });
+
+      expect(result.comparables.map((c) => c.id)).toEqual(["5", "3"]);
+    });
+
+    it("should not expose fixture-only fields", async () => {
+      const result = await provider.search("user-1", { title: "Nike Air Max 90" });
+      expect(result.comparables[0]).not.toHaveProperty("categoryId");
+    });
+  });
+
+  // ============ EBAY PROVIDER ============
+
+  describe("buildSearchParams", () => {
+    it("should include numeric categories and the condition filter", () => {
+      const params = new URLSearchParams(
+        buildSearchParams({ title: "Nike Air Max", categoryId: "15709", condition: "like_new" })
+      );
+
+      expect(params.get("q")).toBe("Nike Air Max");
+      expect(params.get("category_ids")).toBe("15709");
+      expect(params.get("filter")).toContain("conditions:{USED}");
+    });
+
+    it("should skip non-numeric categories and cap the limit", () => {
+      const params = new URLSearchParams(
+        buildSearchParams({ title: "Nike", categoryId: "Shoes", limit: 500 })
+      );
+
+      expect(params.get("category_ids")).toBeNull();
+      expect(params.get("limit")).toBe("200");
+    });
+  });
+
+  describe("EbayBrowseComparablesProvider", () => {
+    const activeResponse = {
+      itemSummaries: [
+        { itemId: "v1|111|0", legacyItemId: "111", title: "Mine", price: { value: "100.00", currency: "USD" } },
+        { itemId: "v1|222|0", legacyItemId: "222", title: "Other", price: { value: "80.00", currency: "USD" } },
+        { itemId: "v1|333|0", title: "No price" },
+      ],
+    };
+
+    it("should return active and sold comparables", async () => {
+      const request = vi
+        .fn()
+        .mockResolvedValueOnce(activeResponse)
+        .mockResolvedValueOnce({
+          itemSales: [
+            {
+              itemId: "444",
+              title: "Sold one",
+              lastSoldPrice: { value: "70.00", currency: "USD" },
+              lastSoldDate: "2024-01-10T00:00:00.000Z",
+            },
+          ],
+        });
+      const provider = new EbayBrowseComparablesProvider(createClient(request));
+
+      const result = await provider.search("user-1", { title: "Nike", excludeIds: ["111"] });
+
+      expect(result.success).toBe(true);
+      expect(result.comparables).toHaveLength(2);
+      expect(result.comparables[0]).toMatchObject({ id: "222", price: 80, status: "active" });
+      expect(result.comparables[1]).toMatchObject({ id: "444", price: 70, status: "sold" });
+      expect(request.mock.calls[0][1]).toMatchObject({ api: "browse" });
+      expect(request.mock.calls[1][1]).toMatchObject({ api: "marketplaceInsights" });
+    });
+
+    it("should return only active comparables without Marketplace Insights access", async () => {
+      const request = vi
+        .fn()
+        .mockResolvedValueOnce(activeResponse)
+        .mockRejectedValueOnce(new ChannelApiError("Forbidden", "FORBIDDEN", 403));
+      const provider = new EbayBrowseComparablesProvider(createClient(request));
+
+      const result = await provider.search("user-1", { title: "Nike" });
+
+      expect(result.success).toBe(true);
+      expect(result.comparables.every((c) => c.status === "active")).toBe(true);
+    });
+
+    it("should report other API errors", async () => {
+      const request = vi.fn().mockRejectedValue(new ChannelApiError("Server error", "EBAY_500", 500));
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const provider = new EbayBrowseComparablesProvider(createClient(request));
+
+      const result = await provider.search("user-1", { title: "Nike" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Server error");
+      errorSpy.mockRestore();
+    });
+  });
+});
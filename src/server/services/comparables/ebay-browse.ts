@@ -0,0 +1,180 @@
+/**
+ * eBay Comparables Provider
+ *
+ * Active comparables come from the Browse API item search. Sold
+ * comparables come from the Marketplace Insights API, which eBay only
+ * grants to approved applications; without access, only active
+ * comparables are returned.
+ */
+
+import { EbayClient, getEbayClient } from "@/server/services/channels/ebay/client";
+import { ChannelApiError } from "@/server/services/channels/types";
+import type { Condition } from "@/lib/constants";
+import type {
+  Comparable,
+  ComparablesProvider,
+  ComparablesQuery,
+  ComparablesResult,
+} from "./types";
+
+// ============ EBAY API TYPES ============
+
+interface EbayPrice {
+  value: string;
+  currency: string;
+}
+
+interface EbayBrowseSearchResponse {
+  total?: number;
+  itemSummaries?: Array<{
+    itemId: string;
+    legacyItemId?: string;
+    title: string;
+    price?: EbayPrice;
+    condition?: string;
+    itemWebUrl?: string;
+  }>;
+}
+
+interface EbayItemSalesResponse {
+  total?: number;
+  itemSales?: Array<{
+    itemId: string;
+    title: string;
+    lastSoldPrice?: EbayPrice;
+    lastSoldDate?: string;
+    condition?: string;
+    itemWebUrl?: string;
+  }>;
+}
+
+/**
+ * Browse API condition filter values
+ */
+const CONDITION_FILTER: Record<Condition, "NEW" | "USED"> = {
+  new: "NEW",
+  like_new: "USED",
+  good: "USED",
+  fair: "USED",
+  poor: "USED",
+};
+
+// ============ HELPERS ============
+
+/**
+ * Build the shared search query string
+ */
+export function buildSearchParams(query: ComparablesQuery): string {
+  const params = new URLSearchParams();
+  params.set("q", query.title.slice(0, 100));
+  params.set("limit", String(Math.min(query.limit ?? 50, 200)));
+
+  // Only numeric IDs are marketplace categories; names are left to the keywords
+  if (query.categoryId && /^\d+$/.test(query.categoryId)) {
+    params.set("category_ids", query.categoryId);
+  }
+
+  const filters = ["buyingOptions:{FIXED_PRICE}", "priceCurrency:USD"];
+  if (query.condition) {
+    filters.push(`conditions:{${CONDITION_FILTER[query.condition]}}`);
+  }
+  params.set("filter", filters.join(","));
+
+  return params.toString();
+}
+
+// ============ PROVIDER ============
+
+export class EbayBrowseComparablesProvider implements ComparablesProvider {
+  readonly name = "ebay";
+  private client: EbayClient;
+
+  constructor(client?: EbayClient) {
+    this.client = client ?? getEbayClient();
+  }
+
+  async search(userId: string, query: ComparablesQuery): Promise<ComparablesResult> {
+    const excluded = new Set(query.excludeIds ?? []);
+    const searchParams = buildSearchParams(query);
+
+    try {
+      const active = await this.client.request<EbayBrowseSearchResponse>(userId, {
+        method: "GET",
+        path: `/item_summary/search?${searchParams}`,
+        api: "browse",
+      });
+
+      const comparables: Comparable[] = [];
+      for (const item of active.itemSummaries ?? []) {
+        const id = item.legacyItemId ?? item.itemId;
+        const price = parseFloat(item.price?.value ?? "");
+        if (excluded.has(id) || isNaN(price)) continue;
+
+        comparables.push({
+          id,
+          title: item.title,
+          price,
+          status: "active",
+          condition: item.condition,
+          url: item.itemWebUrl,
+        });
+      }
+
+      comparables.push(...(await this.searchSold(userId, searchParams, excluded)));
+
+      return { success: true, comparables };
+    } catch (error) {
+      console.error("[EbayBrowseComparables] search error:", error);
+      return {
+        success: false,
+        comparables: [],
+        error: error instanceof Error ? error.message : "Unknown error searching comparables",
+      };
+    }
+  }
+
+  /**
+   * Sold comparables from Marketplace Insights. Returns none when the
+   * application is not approved for the API.
+   */
+  private async searchSold(
+    userId: string,
+    searchParams: string,
+    excluded: Set<string>
+  ): Promise<Comparable[]> {
+    let sales: EbayItemSalesResponse;
+    try {
+      sales = await this.client.request<EbayItemSalesResponse>(userId, {
+        method: "GET",
+        path: `/item_sales/search?${searchParams}`,
+        api: "marketplaceInsights",
+      });
+    } catch (error) {
+      if (
+        error instanceof ChannelApiError &&
+        (error.statusCode === 403 || error.statusCode === 404)
+      ) {
+        return [];
+      }
+      throw error;
+    }
+
+    const comparables: Comparable[] = [];
+    for (const sale of sales.itemSales ?? []) {
+      const price = parseFloat(sale.lastSoldPrice?.value ?? "");
+      if (excluded.has(sale.itemId) || isNaN(price)) continue;
+
+      comparables.push({
+        id: sale.itemId,
+        title: sale.title,
+        price,
+        status: "sold",
+        condition: sale.condition,
+        url: sale.itemWebUrl,
+        soldAt: sale.lastSoldDate ? new Date(sale.lastSoldDate) : undefined,
+      });
+    }
+
+    return comparables;
+  }
+}
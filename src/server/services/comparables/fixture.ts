@@ -0,0 +1,82 @@
+/**
+ * Fixture Comparables Provider
+ *
+ * Serves comparables from an in-memory list, for tests and local
+ * development without marketplace API access. Matches on shared title
+ * keywords, category, and condition.
+ */
+
+import type {
+  Comparable,
+  ComparablesProvider,
+  ComparablesQuery,
+  ComparablesResult,
+} from "./types";
+
+export interface FixtureComparable extends Comparable {
+  categoryId?: string;
+  /** Inventory condition the comparable matches */
+  itemCondition?: string;
+}
+
+/**
+ * Lowercased title words of 3+ characters
+ */
+function keywords(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 3)
+  );
+}
+
+export class FixtureComparablesProvider implements ComparablesProvider {
+  readonly name = "fixture";
+
+  /**
+   * @param fixtures - The comparables to serve
+   * @param minSharedKeywords - Title words a fixture must share with the query
+   */
+  constructor(
+    private fixtures: FixtureComparable[],
+    private minSharedKeywords: number = 2
+  ) {}
+
+  async search(_userId: string, query: ComparablesQuery): Promise<ComparablesResult> {
+    const queryWords = keywords(query.title);
+    const excluded = new Set(query.excludeIds ?? []);
+    const limit = query.limit ?? 50;
+
+    const matches = this.fixtures.filter((fixture) => {
+      if (excluded.has(fixture.id)) return false;
+      if (query.categoryId && fixture.categoryId && fixture.categoryId !== query.categoryId) {
+        return false;
+      }
+      if (query.condition && fixture.itemCondition && fixture.itemCondition !== query.condition) {
+        return false;
+      }
+
+      const shared = Array.from(keywords(fixture.title)).filter((word) =>
+        queryWords.has(word)
+      ).length;
+      return shared >= Math.min(this.minSharedKeywords, queryWords.size);
+    });
+
+    const active = matches.filter((c) => c.status === "active").slice(0, limit);
+    const sold = matches.filter((c) => c.status === "sold").slice(0, limit);
+
+    return {
+      success: true,
+      comparables: [...active, ...sold].map((fixture) => ({
+        id: fixture.id,
+        title: fixture.title,
+        price: fixture.price,
+        status: fixture.status,
+        condition: fixture.condition,
+        url: fixture.url,
+        soldAt: fixture.soldAt,
+      })),
+    };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Comparables Service
+ *
+ * Central export for comparable-listing providers and price statistics.
+ */
+
+import type { ComparablesProvider } from "./types";
+import { EbayBrowseComparablesProvider } from "./ebay-browse";
+
+export { EbayBrowseComparablesProvider, buildSearchParams } from "./ebay-browse";
+export { FixtureComparablesProvider, type FixtureComparable } from "./fixture";
+export { percentile, calculatePriceStats, summarizeComparables } from "./stats";
+export type {
+  Comparable,
+  ComparableStatus,
+  ComparableStats,
+  ComparablesProvider,
+  ComparablesQuery,
+  ComparablesResult,
+  PriceStats,
+} from "./types";
+
+// Singleton instance
+let providerInstance: ComparablesProvider | null = null;
+
+/**
+ * Get the default comparables provider (eBay Browse)
+ */
+export function getComparablesProvider(): ComparablesProvider {
+  if (!providerInstance) {
+    providerInstance = new EbayBrowseComparablesProvider();
+  }
+  return providerInstance;
+}
@@ -0,0 +1,55 @@
+/**
+ * Comparable Price Statistics
+ *
+ * Median and percentile prices for active and sold comparables.
+ */
+
+import type { Comparable, ComparableStats, PriceStats } from "./types";
+
+/**
+ * Percentile of an ascending-sorted list, with linear interpolation
+ * between the closest ranks
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  if (sorted.length === 1) return sorted[0];
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * weight;
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Summarize a list of prices, or null if there are none
+ */
+export function calculatePriceStats(prices: number[]): PriceStats | null {
+  const sorted = prices.filter((p) => p > 0).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    median: percentile(sorted, 50),
+    p25: percentile(sorted, 25),
+    p75: percentile(sorted, 75),
+  };
+}
+
+/**
+ * Summarize active and sold comparables separately
+ */
+export function summarizeComparables(comparables: Comparable[]): ComparableStats {
+  return {
+    active: calculatePriceStats(
+      comparables.filter((c) => c.status === "active").map((c) => c.price)
+    ),
+    sold: calculatePriceStats(
+      comparables.filter((c) => c.status === "sold").map((c) => c.price)
+    ),
+  };
+}
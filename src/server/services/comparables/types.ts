@@ -0,0 +1,78 @@
+/**
+ * Comparables Types for ResellerOS
+ *
+ * A comparables provider finds similar active and sold listings so the
+ * competitive reprice strategy can price relative to the market.
+ */
+
+import type { Condition } from "@/lib/constants";
+
+// ============ QUERY ============
+
+export interface ComparablesQuery {
+  /** Item title, used as the search keywords */
+  title: string;
+  /** Marketplace category ID, when known */
+  categoryId?: string;
+  condition?: Condition;
+  /** Marketplace listing IDs to leave out (e.g. the seller's own listing) */
+  excludeIds?: string[];
+  /** Max comparables per status (default 50) */
+  limit?: number;
+}
+
+// ============ RESULTS ============
+
+export type ComparableStatus = "active" | "sold";
+
+export interface Comparable {
+  /** Marketplace listing ID */
+  id: string;
+  title: string;
+  price: number;
+  status: ComparableStatus;
+  condition?: string;
+  url?: string;
+  /** When the comparable sold (sold comps only) */
+  soldAt?: Date;
+}
+
+export interface ComparablesResult {
+  success: boolean;
+  comparables: Comparable[];
+  error?: string;
+}
+
+export interface PriceStats {
+  count: number;
+  min: number;
+  max: number;
+  median: number;
+  /** 25th percentile */
+  p25: number;
+  /** 75th percentile */
+  p75: number;
+}
+
+export interface ComparableStats {
+  active: PriceStats | null;
+  sold: PriceStats | null;
+}
+
+// ============ PROVIDER INTERFACE ============
+
+/**
+ * A source of comparable listings
+ */
+export interface ComparablesProvider {
+  /** Provider identifier, for logs and reasons */
+  readonly name: string;
+
+  /**
+   * Search for comparables to an item
+   *
+   * @param userId - The seller, for providers that call the API on their behalf
+   * @param query - What to compare against
+   */
+  search(userId: string, query: ComparablesQuery): Promise<ComparablesResult>;
+}
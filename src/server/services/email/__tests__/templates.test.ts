@@ -0,0 +1,97 @@
+/**
+ * Notification Email Template Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { renderNotificationEmail, renderDigestEmail, escapeHtml } from "../templates";
+import type { NotificationType } from "@/server/services/notifications";
+
+const APP_URL = "https://app.reselleros.test";
+
+describe("Notification Email Templates", () => {
+  const types: NotificationType[] = [
+    "MANUAL_DELIST_REQUIRED",
+    "DELIST_FAILED",
+    "DELIST_SUCCESS",
+    "ACTION_REQUIRED",
+    "OFFER_RECEIVED",
+    "SALE_CONFIRMED",
+    "SYNC_ERROR",
+  ];
+
+  it.each(types)("should render %s as HTML and text", (type) => {
+    const email = renderNotificationEmail(
+      { type, priority: "MEDIUM", message: "Something happened", channel: "ebay" },
+      APP_URL
+    );
+
+    expect(email.subject.length).toBeGreaterThan(0);
+    expect(email.html).toContain("<!DOCTYPE html>");
+    expect(email.html).toContain("Something happened");
+    expect(email.text).toContain("Something happened");
+    expect(email.text).toContain(`${APP_URL}/settings`);
+  });
+
+  it("should name the channel in the subject and link to the item", () => {
+    const email = renderNotificationEmail(
+      {
+        type: "MANUAL_DELIST_REQUIRED",
+        priority: "CRITICAL",
+        message: 'Please manually delist "Vintage Jacket" from poshmark.',
+        itemId: "item-1",
+        channel: "poshmark",
+      },
+      APP_URL
+    );
+
+    expect(email.subject).toBe("Action required: delist your item from Poshmark");
+    expect(email.text).toContain(`View item: ${APP_URL}/inventory/item-1`);
+    expect(email.html).toContain(`href="${APP_URL}/inventory/item-1"`);
+  });
+
+  it("should escape HTML in notification messages", () => {
+    const email = renderNotificationEmail(
+      { type: "ACTION_REQUIRED", priority: "LOW", message: '<script>alert("x")</script>' },
+      APP_URL
+    );
+
+    expect(email.html).not.toContain("<script>");
+    expect(email.html).toContain("&lt;script&gt;");
+    expect(email.text).toContain("<script>");
+  });
+
+  it("should render a digest with one entry per notification", () => {
+    const email = renderDigestEmail(
+      [
+        { type: "SALE_CONFIRMED", priority: "MEDIUM", message: "Sold a jacket", itemId: "item-1" },
+        { type: "DELIST_SUCCESS", priority: "LOW", message: "Delisted a jacket" },
+      ],
+      APP_URL
+    );
+
+    expect(email.subject).toBe("Your ResellerOS daily digest: 2 updates");
+    expect(email.text).toContain("- Sale confirmed: Sold a jacket");
+    expect(email.text).toContain("- Item delisted: Delisted a jacket");
+    expect(email.html.match(/<tr>/g)).toHaveLength(2);
+  });
+
+  it("should cap long digests and link to the rest", () => {
+    const entries = Array.from({ length: 55 }, (_, i) => ({
+      type: "SALE_CONFIRMED" as const,
+      priority: "MEDIUM" as const,
+      message: `Sale ${i}`,
+    }));
+
+    const email = renderDigestEmail(entries, APP_URL);
+
+    expect(email.subject).toContain("55 updates");
+    expect(email.html.match(/<tr>/g)).toHaveLength(50);
+    expect(email.text).toContain("...and 5 more");
+  });
+
+  it("should escape all HTML special characters", () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;"
+    );
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Email Transport Tests
+ *
+ * Runs the SMTP transport against a local stub server and the file sink
+ * against a temporary directory.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server, type Socket } from "net";
+import type { AddressInfo } from "net";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { SmtpTransport, SmtpError } from "../smtp";
+import { FileSinkTransport } from "../file-sink";
+import { buildMimeMessage, encodeHeader } from "../mime";
+
+const message = {
+  from: "ResellerOS <notifications@reselleros.test>",
+  to: "seller@example.com",
+  subject: "Sale confirmed",
+  text: "You sold a jacket.\n.hidden line",
+  html: "<p>You sold a jacket.</p>",
+};
+
+function decodeBase64Part(raw: string, contentType: string): string {
+  const [, rest] = raw.split(`Content-Type: ${contentType}; charset="utf-8"`);
+  const body = rest.split("\r\n\r\n")[1].split("\r\n--")[0];
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+// ============ MIME ============
+
+describe("buildMimeMessage", () => {
+  it("should include headers and both alternatives", () => {
+    const { raw, messageId } = buildMimeMessage(message, new Date("2026-03-01T12:00:00Z"));
+
+    expect(messageId).toMatch(/^<[0-9a-f-]+@reselleros\.test>$/);
+    expect(raw).toContain("To: seller@example.com\r\n");
+    expect(raw).toContain("Date: Sun, 01 Mar 2026 12:00:00 GMT\r\n");
+    expect(raw).toContain("Content-Type: multipart/alternative;");
+    expect(decodeBase64Part(raw, "text/plain")).toBe(message.text);
+    expect(decodeBase64Part(raw, "text/html")).toBe(message.html);
+  });
+
+  it("should encode non-ASCII subjects", () => {
+    expect(encodeHeader("Plain subject")).toBe("Plain subject");
+    expect(encodeHeader("Café sale")).toBe(
+      `=?UTF-8?B?${Buffer.from("Café sale").toString("base64")}?=`
+    );
+  });
+});
+
+// ============ SMTP ============
+
+interface SmtpSession {
+  commands: string[];
+  data: string;
+}
+
+describe("SmtpTransport", () => {
+  let server: Server;
+  let port: number;
+  let sessions: SmtpSession[];
+  let rejectRecipient: boolean;
+
+  beforeAll(async () => {
+    server = createServer((socket: Socket) => {
+      const session: SmtpSession = { commands: [], data: "" };
+      sessions.push(session);
+      let buffer = "";
+      let inData = false;
+
+      socket.setEncoding("utf8");
+      socket.write("220 stub.test ESMTP\r\n");
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 OK queued\r\n");
+        }
+
+        let index: number;
+        while (!inData && (index = buffer.indexOf("\r\n")) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          session.commands.push(line);
+
+          if (line.startsWith("EHLO")) {
+            socket.write("250-stub.test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n");
+          } else if (line.startsWith("AUTH PLAIN")) {
+            socket.write("235 Authenticated\r\n");
+          } else if (line.startsWith("MAIL FROM")) {
+            socket.write("250 OK\r\n");
+          } else if (line.startsWith("RCPT TO")) {
+            socket.write(rejectRecipient ? "550 No such user\r\n" : "250 OK\r\n");
+          } else if (line === "DATA") {
+            inData = true;
+            socket.write("354 Send data\r\n");
+          } else if (line === "QUIT") {
+            socket.end("221 Bye\r\n");
+          } else {
+            socket.write("500 Unknown command\r\n");
+          }
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    sessions = [];
+    rejectRecipient = false;
+  });
+
+  it("should authenticate and deliver the message", async () => {
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      user: "smtp-user",
+      password: "smtp-pass",
+      // The stub server doesn't offer STARTTLS
+      allowInsecureAuth: true,
+    });
+
+    const messageId = await transport.send(message);
+
+    const [session] = sessions;
+    expect(session.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      `AUTH PLAIN ${Buffer.from("\0smtp-user\0smtp-pass").toString("base64")}`,
+      "MAIL FROM:<notifications@reselleros.test>",
+      "RCPT TO:<seller@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(session.data).toContain(`Message-ID: ${messageId}`);
+    expect(session.data).toContain("Subject: Sale confirmed");
+  });
+
+  it("should refuse to send credentials without TLS", async () => {
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      user: "smtp-user",
+      password: "smtp-pass",
+    });
+
+    await expect(transport.send(message)).rejects.toThrow(/refusing to send SMTP credentials/);
+    expect(sessions[0].commands.some((c) => c.startsWith("AUTH"))).toBe(false);
+  });
+
+  it("should skip AUTH when no credentials are configured", async () => {
+    const transport = new SmtpTransport({ host: "127.0.0.1", port, secure: false });
+
+    await transport.send(message);
+
+    expect(sessions[0].commands.some((c) => c.startsWith("AUTH"))).toBe(false);
+  });
+
+  it("should surface server rejections as SmtpError", async () => {
+    rejectRecipient = true;
+    const transport = new SmtpTransport({ host: "127.0.0.1", port, secure: false });
+
+    const error = (await transport.send(message).catch((e) => e)) as SmtpError;
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe(550);
+    expect(error.message).toContain("No such user");
+  });
+
+  it("should fail when the server is unreachable", async () => {
+    const transport = new SmtpTransport({ host: "127.0.0.1", port: 1, secure: false });
+
+    await expect(transport.send(message)).rejects.toThrow();
+  });
+});
+
+// ============ FILE SINK ============
+
+describe("FileSinkTransport", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "reselleros-email-"));
+    return () => rm(directory, { recursive: true, force: true });
+  });
+
+  it("should write each message as an .eml file", async () => {
+    const transport = new FileSinkTransport(path.join(directory, "nested"));
+
+    const messageId = await transport.send(message);
+    await transport.send({ ...message, to: "other@example.com" });
+
+    const files = await readdir(path.join(directory, "nested"));
+    expect(files).toHaveLength(2);
+    expect(files.every((f) => f.endsWith(".eml"))).toBe(true);
+
+    const first = files.find((f) => f.includes("seller@example.com"))!;
+    const raw = await readFile(path.join(directory, "nested", first), "utf8");
+    expect(raw).toContain(`Message-ID: ${messageId}`);
+    expect(decodeBase64Part(raw, "text/html")).toBe(message.html);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * File Sink Email Transport
+ *
+ * Writes each message to disk as an .eml file instead of sending it.
+ * Used in development and tests so notification emails can be inspected
+ * without an SMTP server.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EmailMessage, EmailTransport } from "./types";
+import { buildMimeMessage } from "./mime";
+
+export class FileSinkTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<string> {
+    const now = new Date();
+    const { raw, messageId } = buildMimeMessage(message, now);
+
+    await mkdir(this.directory, { recursive: true });
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const fileName = `${now.toISOString().replace(/[:.]/g, "-")}-${recipient}-${crypto.randomUUID().slice(0, 8)}.eml`;
+    await writeFile(path.join(this.directory, fileName), raw, "utf8");
+
+    return messageId;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Email Service
+ *
+ * Central export for email transports and notification templates.
+ *
+ * The transport is chosen by EMAIL_TRANSPORT ("smtp" or "file"). When unset,
+ * SMTP is used if SMTP_HOST is configured, otherwise messages are written to
+ * EMAIL_FILE_SINK_DIR so development never sends real mail.
+ */
+
+import type { EmailMessage, EmailTransport, SendEmailResult } from "./types";
+import { SmtpTransport } from "./smtp";
+import { FileSinkTransport } from "./file-sink";
+
+export { SmtpTransport, SmtpError } from "./smtp";
+export { FileSinkTransport } from "./file-sink";
+export { buildMimeMessage, encodeHeader } from "./mime";
+export { renderNotificationEmail, renderDigestEmail, escapeHtml } from "./templates";
+export type { NotificationEmailInput, RenderedEmail } from "./templates";
+export type { EmailMessage, EmailTransport, SendEmailResult, SmtpConfig } from "./types";
+
+const DEFAULT_FROM = "ResellerOS <notifications@reselleros.local>";
+const DEFAULT_FILE_SINK_DIR = "./data/emails";
+
+// Singleton instance
+let transportInstance: EmailTransport | null = null;
+
+/**
+ * Get the configured email transport
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transportInstance) {
+    const mode = process.env.EMAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "file");
+
+    if (mode === "smtp") {
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set when EMAIL_TRANSPORT is smtp");
+      }
+      const secure = process.env.SMTP_SECURE === "true";
+      transportInstance = new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT ?? (secure ? "465" : "587"), 10),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === "true",
+      });
+    } else {
+      transportInstance = new FileSinkTransport(
+        process.env.EMAIL_FILE_SINK_DIR ?? DEFAULT_FILE_SINK_DIR
+      );
+    }
+  }
+  return transportInstance;
+}
+
+/**
+ * Override the transport (for testing)
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  transportInstance = transport;
+}
+
+/**
+ * Send an email through the configured transport
+ * Delivery failures are returned rather than thrown
+ */
+export async function sendEmail(message: EmailMessage): Promise<SendEmailResult> {
+  try {
+    const transport = getEmailTransport();
+    const messageId = await transport.send({
+      ...message,
+      from: process.env.EMAIL_FROM ?? DEFAULT_FROM,
+    });
+    return { success: true, messageId };
+  } catch (error) {
+    console.error("[EMAIL] Failed to send email:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * MIME Message Builder
+ *
+ * Serializes an email into an RFC 5322 message with text and HTML
+ * alternatives. Shared by the SMTP transport and the file sink so both
+ * produce identical output.
+ */
+
+import type { EmailMessage } from "./types";
+
+export interface MimeMessage {
+  raw: string;
+  messageId: string;
+}
+
+/**
+ * Build a multipart/alternative message
+ */
+export function buildMimeMessage(
+  message: EmailMessage & { from: string },
+  now: Date = new Date()
+): MimeMessage {
+  const boundary = `=_reselleros_${crypto.randomUUID().replace(/-/g, "")}`;
+  const domain = extractDomain(message.from);
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+
+  const lines = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    'Content-Type: text/plain; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+    "",
+  ];
+
+  return { raw: lines.join("\r\n"), messageId };
+}
+
+/**
+ * RFC 2047 encode a header value when it contains non-ASCII characters
+ */
+export function encodeHeader(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function encodeBody(body: string): string {
+  const encoded = Buffer.from(body, "utf8").toString("base64");
+  return encoded.match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+function extractDomain(address: string): string {
+  const match = address.match(/@([^>\s]+)/);
+  return match ? match[1] : "localhost";
+}
@@ -0,0 +1,240 @@
+/**
+ * SMTP Email Transport
+ *
+ * Minimal SMTP client built on node's net/tls sockets. Supports implicit TLS
+ * (port 465), STARTTLS upgrades when the server offers them, and AUTH PLAIN.
+ * Credentials are never sent over an unencrypted connection unless the
+ * config allows it. One connection is opened per message.
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+import os from "node:os";
+import type { EmailMessage, EmailTransport, SmtpConfig } from "./types";
+import { buildMimeMessage } from "./mime";
+
+// ============ CONSTANTS ============
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+// ============ ERRORS ============
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+// ============ CONNECTION ============
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Line-oriented SMTP session over a socket
+ * Buffers replies so commands can be awaited one at a time
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiter: { resolve: (r: SmtpResponse) => void; reject: (e: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.timeoutMs);
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("timeout", () => {
+      this.fail(new SmtpError("SMTP connection timed out"));
+      socket.destroy();
+    });
+    socket.on("close", () => this.fail(new SmtpError("SMTP connection closed unexpectedly")));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      // "250-..." continues a multiline reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const response = { code: parseInt(line.slice(0, 3), 10), lines: this.lines };
+        this.lines = [];
+        if (this.waiter) {
+          this.waiter.resolve(response);
+          this.waiter = null;
+        } else {
+          this.responses.push(response);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiter) {
+      this.waiter.reject(error);
+      this.waiter = null;
+    }
+  }
+
+  /**
+   * Wait for the next reply and check its status code
+   */
+  async read(expected: number[]): Promise<SmtpResponse> {
+    const response = await new Promise<SmtpResponse>((resolve, reject) => {
+      const queued = this.responses.shift();
+      if (queued) return resolve(queued);
+      if (this.failure) return reject(this.failure);
+      this.waiter = { resolve, reject };
+    });
+
+    if (!expected.includes(response.code)) {
+      throw new SmtpError(
+        `SMTP server replied ${response.code}: ${response.lines.join(" ")}`,
+        response.code
+      );
+    }
+    return response;
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  /**
+   * Upgrade the plain socket to TLS after a successful STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("timeout");
+    plain.removeAllListeners("close");
+
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () => resolve(secure));
+      secure.once("error", reject);
+    });
+    this.attach(this.socket);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners("close");
+    this.socket.end();
+  }
+}
+
+// ============ TRANSPORT ============
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<string> {
+    const { raw, messageId } = buildMimeMessage(message);
+    const connection = await this.connect();
+
+    try {
+      await connection.read([220]);
+      const ehlo = await connection.command(`EHLO ${os.hostname()}`, [250]);
+      let encrypted = this.config.secure;
+
+      if (!encrypted && supports(ehlo, "STARTTLS")) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgrade(this.config.host);
+        await connection.command(`EHLO ${os.hostname()}`, [250]);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        // A server (or anyone in between) that drops STARTTLS must not get the password
+        if (!encrypted && !this.config.allowInsecureAuth) {
+          throw new SmtpError(
+            `${this.config.host} did not offer STARTTLS; refusing to send SMTP credentials unencrypted`
+          );
+        }
+
+        const credentials = Buffer.from(
+          `\0${this.config.user}\0${this.config.password ?? ""}`
+        ).toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await connection.command("DATA", [354]);
+      await connection.command(`${dotStuff(raw)}\r\n.`, [250]);
+      await connection.command("QUIT", [221]).catch(() => undefined);
+
+      return messageId;
+    } finally {
+      connection.close();
+    }
+  }
+
+  private connect(): Promise<SmtpConnection> {
+    const { host, port, secure } = this.config;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const ready = secure ? "secureConnect" : "connect";
+
+      socket.setTimeout(timeoutMs);
+      socket.once("timeout", () => {
+        socket.destroy();
+        reject(new SmtpError(`Timed out connecting to ${host}:${port}`));
+      });
+      socket.once("error", reject);
+      socket.once(ready, () => {
+        socket.removeAllListeners("timeout");
+        socket.removeListener("error", reject);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+    });
+  }
+}
+
+// ============ HELPER FUNCTIONS ============
+
+function supports(ehlo: SmtpResponse, extension: string): boolean {
+  return ehlo.lines.some((line) => line.slice(4).toUpperCase().startsWith(extension));
+}
+
+/**
+ * Pull the bare address out of `"Name" <user@example.com>`
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Escape lines starting with "." so they are not read as the end of DATA
+ */
+function dotStuff(raw: string): string {
+  return raw.replace(/\r\n\./g, "\r\n..");
+}
@@ -0,0 +1,212 @@
+/**
+ * Notification Email Templates
+ *
+ * HTML and plain-text renderings for each notification type, plus the
+ * daily digest that batches LOW and MEDIUM priority notifications.
+ */
+
+import type { NotificationType, NotificationPriority } from "@/server/services/notifications";
+
+// ============ TYPES ============
+
+export interface NotificationEmailInput {
+  type: NotificationType;
+  priority: NotificationPriority;
+  message: string;
+  itemId?: string | null;
+  channel?: string | null;
+  createdAt?: Date;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TypeTemplate {
+  subject: (input: NotificationEmailInput) => string;
+  heading: string;
+  action: string;
+}
+
+// ============ TEMPLATES ============
+
+const CHANNEL_NAMES: Record<string, string> = {
+  ebay: "eBay",
+  poshmark: "Poshmark",
+  mercari: "Mercari",
+  depop: "Depop",
+};
+
+function channelName(channel?: string | null): string {
+  return channel ? CHANNEL_NAMES[channel] ?? channel : "a marketplace";
+}
+
+const TYPE_TEMPLATES: Record<NotificationType, TypeTemplate> = {
+  MANUAL_DELIST_REQUIRED: {
+    subject: (n) => `Action required: delist your item from ${channelName(n.channel)}`,
+    heading: "Manual delist required",
+    action: "View item",
+  },
+  DELIST_FAILED: {
+    subject: (n) => `Delist failed on ${channelName(n.channel)}`,
+    heading: "Automatic delist failed",
+    action: "View item",
+  },
+  DELIST_SUCCESS: {
+    subject: (n) => `Item delisted from ${channelName(n.channel)}`,
+    heading: "Item delisted",
+    action: "View item",
+  },
+  ACTION_REQUIRED: {
+    subject: () => "Action required in ResellerOS",
+    heading: "Action required",
+    action: "Open dashboard",
+  },
+  OFFER_RECEIVED: {
+    subject: (n) => `New offer on ${channelName(n.channel)}`,
+    heading: "New offer received",
+    action: "Review offer",
+  },
+  SALE_CONFIRMED: {
+    subject: (n) => `You made a sale on ${channelName(n.channel)}`,
+    heading: "Sale confirmed",
+    action: "View item",
+  },
+  SYNC_ERROR: {
+    subject: (n) => `Sync problem with ${channelName(n.channel)}`,
+    heading: "Sync error",
+    action: "Check connections",
+  },
+};
+
+// Longer digests link to the notification center for the rest
+const MAX_DIGEST_ENTRIES = 50;
+
+const PRIORITY_COLORS: Record<NotificationPriority, string> = {
+  CRITICAL: "#dc2626",
+  HIGH: "#ea580c",
+  MEDIUM: "#2563eb",
+  LOW: "#6b7280",
+};
+
+// ============ RENDERING ============
+
+/**
+ * Render a single notification as an email
+ */
+export function renderNotificationEmail(
+  input: NotificationEmailInput,
+  appUrl: string = getAppUrl()
+): RenderedEmail {
+  const template = TYPE_TEMPLATES[input.type];
+  const link = notificationLink(input, appUrl);
+  const subject = template.subject(input);
+
+  const text = [
+    template.heading,
+    "",
+    input.message,
+    "",
+    `${template.action}: ${link}`,
+    "",
+    footerText(appUrl),
+  ].join("\n");
+
+  const body = `
+    <h1 style="margin:0 0 12px;font-size:20px;color:${PRIORITY_COLORS[input.priority]}">${escapeHtml(template.heading)}</h1>
+    <p style="margin:0 0 20px;font-size:15px;line-height:1.5">${escapeHtml(input.message)}</p>
+    <a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 16px;background:#111827;color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px">${escapeHtml(template.action)}</a>`;
+
+  return { subject, html: layout(subject, body, appUrl), text };
+}
+
+/**
+ * Render a batch of notifications as a single digest email
+ */
+export function renderDigestEmail(
+  entries: NotificationEmailInput[],
+  appUrl: string = getAppUrl()
+): RenderedEmail {
+  const subject = `Your ResellerOS daily digest: ${entries.length} ${
+    entries.length === 1 ? "update" : "updates"
+  }`;
+
+  const shown = entries.slice(0, MAX_DIGEST_ENTRIES);
+  const more = entries.length - shown.length;
+  const moreText = `...and ${more} more. See them all at ${appUrl}/dashboard`;
+
+  const text = [
+    "Here's what happened since your last digest:",
+    "",
+    ...shown.map(
+      (entry) => `- ${TYPE_TEMPLATES[entry.type].heading}: ${entry.message}\n  ${notificationLink(entry, appUrl)}`
+    ),
+    ...(more > 0 ? ["", moreText] : []),
+    "",
+    footerText(appUrl),
+  ].join("\n");
+
+  const rows = shown
+    .map(
+      (entry) => `
+      <tr>
+        <td style="padding:12px 0;border-bottom:1px solid #e5e7eb">
+          <div style="font-size:12px;font-weight:600;text-transform:uppercase;color:${PRIORITY_COLORS[entry.priority]}">${escapeHtml(TYPE_TEMPLATES[entry.type].heading)}</div>
+          <div style="margin-top:4px;font-size:14px;line-height:1.5"><a href="${escapeHtml(notificationLink(entry, appUrl))}" style="color:#111827;text-decoration:none">${escapeHtml(entry.message)}</a></div>
+        </td>
+      </tr>`
+    )
+    .join("");
+
+  const body = `
+    <h1 style="margin:0 0 12px;font-size:20px">Daily digest</h1>
+    <p style="margin:0 0 8px;font-size:15px">Here's what happened since your last digest:</p>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows}
+    </table>${
+      more > 0
+        ? `
+    <p style="margin:16px 0 0;font-size:14px"><a href="${escapeHtml(appUrl)}/dashboard" style="color:#2563eb">...and ${more} more</a></p>`
+        : ""
+    }`;
+
+  return { subject, html: layout(subject, body, appUrl), text };
+}
+
+// ============ HELPER FUNCTIONS ============
+
+export function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL ?? "http://localhost:3000").replace(/\/$/, "");
+}
+
+function notificationLink(input: NotificationEmailInput, appUrl: string): string {
+  if (input.itemId) return `${appUrl}/inventory/${input.itemId}`;
+  if (input.type === "SYNC_ERROR") return `${appUrl}/settings`;
+  return `${appUrl}/dashboard`;
+}
+
+function footerText(appUrl: string): string {
+  return `You can change which emails you receive in your notification settings: ${appUrl}/settings`;
+}
+
+function layout(title: string, body: string, appUrl: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#111827">
+  <div style="max-width:560px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px">${body}
+  </div>
+  <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280">You can change which emails you receive in your <a href="${escapeHtml(appUrl)}/settings" style="color:#6b7280">notification settings</a>.</p>
+</body>
+</html>`;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,45 @@
+/**
+ * Email Service Types
+ */
+
+// ============ MESSAGES ============
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SendEmailResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+// ============ TRANSPORTS ============
+
+/**
+ * Delivery backend for outgoing email
+ */
+export interface EmailTransport {
+  readonly name: string;
+  /**
+   * Deliver a message
+   * @returns The Message-ID of the delivered message
+   */
+  send(message: EmailMessage & { from: string }): Promise<string>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465). Otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Send credentials over an unencrypted connection; only for local test servers */
+  allowInsecureAuth?: boolean;
+  /** Socket inactivity timeout */
+  timeoutMs?: number;
+}
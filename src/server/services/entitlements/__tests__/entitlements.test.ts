@@ -0,0 +1,216 @@
+/**
+ * Entitlement Service Tests
+ *
+ * Plan caps, period resets and the tRPC FORBIDDEN mapping against an
+ * in-memory SQLite database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+
+const { sqlite } = vi.hoisted(() => ({
+  sqlite: { exec: (_sql: string) => {} },
+}));
+
+vi.mock("@/server/db/client", async () => {
+  const { default: Database } = await import("better-sqlite3");
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const schema = await import("@/server/db/schema");
+
+  const database = new Database(":memory:");
+  database.exec(`
+    CREATE TABLE users (
+      id text PRIMARY KEY NOT NULL,
+      email text,
+      tier text DEFAULT 'free' NOT NULL,
+      listings_this_month integer DEFAULT 0 NOT NULL,
+      ai_listings_this_month integer DEFAULT 0 NOT NULL,
+      bg_removals_this_month integer DEFAULT 0 NOT NULL,
+      period_reset_at integer
+    );
+  `);
+  sqlite.exec = (sql: string) => database.exec(sql);
+
+  return { db: drizzle(database, { schema }) };
+});
+
+// Import after mocking
+import {
+  getNextPeriodReset,
+  getEntitlementUsage,
+  checkEntitlement,
+  assertEntitlement,
+  consumeEntitlement,
+  releaseEntitlement,
+  EntitlementError,
+} from "../index";
+import { createTRPCRouter, createCallerFactory, protectedProcedure } from "@/server/trpc/init";
+
+// Seconds since epoch, as drizzle stores timestamps
+const future = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60;
+const past = Math.floor(Date.now() / 1000) - 24 * 60 * 60;
+
+describe("Entitlement Service", () => {
+  beforeEach(() => {
+    sqlite.exec(`
+      DELETE FROM users;
+      INSERT INTO users (id, tier, listings_this_month, ai_listings_this_month, bg_removals_this_month, period_reset_at) VALUES
+        ('free-user', 'free', 24, 5, 0, ${future}),
+        ('business-user', 'business', 5000, 5000, 5000, ${future}),
+        ('expired-user', 'free', 25, 5, 10, ${past}),
+        ('new-user', 'free', 0, 0, 0, NULL);
+    `);
+  });
+
+  // ============ PERIOD ============
+
+  describe("getNextPeriodReset", () => {
+    it("should start at the beginning of next month for new users", () => {
+      const next = getNextPeriodReset(null, new Date("2026-03-15T10:00:00Z"));
+
+      expect(next.toISOString()).toBe("2026-04-01T00:00:00.000Z");
+    });
+
+    it("should advance monthly from the previous reset past now", () => {
+      const next = getNextPeriodReset(
+        new Date("2026-01-10T00:00:00Z"),
+        new Date("2026-03-15T00:00:00Z")
+      );
+
+      expect(next.toISOString()).toBe("2026-04-10T00:00:00.000Z");
+    });
+  });
+
+  it("should reset counters once the period has ended", async () => {
+    const usage = await getEntitlementUsage("expired-user");
+
+    expect(usage!.usage.listings).toMatchObject({ used: 0, limit: 25, remaining: 25 });
+    expect(usage!.usage.bgRemovals.used).toBe(0);
+    expect(usage!.periodResetAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Persisted, so the next read doesn't reset again
+    await consumeEntitlement("expired-user", "listings");
+    expect((await checkEntitlement("expired-user", "listings")).used).toBe(1);
+  });
+
+  it("should start a period for users who never had one", async () => {
+    const usage = await getEntitlementUsage("new-user");
+
+    expect(usage!.tierName).toBe("Free");
+    expect(usage!.periodResetAt.getUTCDate()).toBe(1);
+  });
+
+  // ============ CAPS ============
+
+  describe("checkEntitlement", () => {
+    it("should report usage against the tier cap", async () => {
+      expect(await checkEntitlement("free-user", "listings")).toEqual({
+        allowed: true,
+        used: 24,
+        limit: 25,
+        remaining: 1,
+      });
+      expect((await checkEntitlement("free-user", "listings", 2)).allowed).toBe(false);
+      expect((await checkEntitlement("free-user", "aiListings")).allowed).toBe(false);
+    });
+
+    it("should treat -1 as unlimited", async () => {
+      expect(await checkEntitlement("business-user", "aiListings")).toEqual({
+        allowed: true,
+        used: 5000,
+        limit: -1,
+        remaining: null,
+      });
+    });
+
+    it("should deny unknown users", async () => {
+      expect((await checkEntitlement("missing", "listings")).allowed).toBe(false);
+    });
+  });
+
+  describe("assertEntitlement", () => {
+    it("should throw a typed error when the cap is reached", async () => {
+      const error = (await assertEntitlement("free-user", "aiListings").catch(
+        (e) => e
+      )) as EntitlementError;
+
+      expect(error).toBeInstanceOf(EntitlementError);
+      expect(error).toMatchObject({ entitlement: "aiListings", tier: "free", used: 5, limit: 5 });
+      expect(error.message).toContain("5 of 5 AI listing drafts on the Free plan");
+    });
+
+    it("should not consume anything", async () => {
+      await assertEntitlement("free-user", "listings");
+
+      expect((await checkEntitlement("free-user", "listings")).used).toBe(24);
+    });
+  });
+
+  describe("consumeEntitlement", () => {
+    it("should increment usage up to the cap and then refuse", async () => {
+      const status = await consumeEntitlement("free-user", "listings");
+      expect(status).toMatchObject({ used: 25, remaining: 0 });
+
+      await expect(consumeEntitlement("free-user", "listings")).rejects.toBeInstanceOf(
+        EntitlementError
+      );
+      expect((await checkEntitlement("free-user", "listings")).used).toBe(25);
+    });
+
+    it("should consume nothing when the amount doesn't fit", async () => {
+      await expect(consumeEntitlement("free-user", "listings", 3)).rejects.toThrow(
+        EntitlementError
+      );
+      expect((await checkEntitlement("free-user", "listings")).used).toBe(24);
+    });
+
+    it("should always succeed on unlimited tiers", async () => {
+      const status = await consumeEntitlement("business-user", "listings", 10);
+
+      expect(status.used).toBe(5010);
+    });
+  });
+
+  describe("releaseEntitlement", () => {
+    it("should give usage back without going below zero", async () => {
+      await releaseEntitlement("free-user", "listings");
+      expect((await checkEntitlement("free-user", "listings")).used).toBe(23);
+
+      await releaseEntitlement("new-user", "aiListings", 5);
+      expect((await checkEntitlement("new-user", "aiListings")).used).toBe(0);
+    });
+  });
+
+  // ============ TRPC ============
+
+  describe("tRPC error mapping", () => {
+    const router = createTRPCRouter({
+      generate: protectedProcedure.mutation(async ({ ctx }) => {
+        await consumeEntitlement(ctx.user.id, "aiListings");
+        return { ok: true };
+      }),
+    });
+
+    const callerFor = (userId: string) =>
+      createCallerFactory(router)({
+        db: {} as never,
+        session: { user: { id: userId }, expires: "" },
+        user: { id: userId },
+      });
+
+    it("should report exceeded caps as FORBIDDEN with the entitlement as cause", async () => {
+      const error = (await callerFor("free-user")
+        .generate()
+        .catch((e) => e)) as TRPCError;
+
+      expect(error).toBeInstanceOf(TRPCError);
+      expect(error.code).toBe("FORBIDDEN");
+      expect(error.cause).toBeInstanceOf(EntitlementError);
+      expect(error.message).toContain("Upgrade your plan");
+    });
+
+    it("should pass through when within the cap", async () => {
+      await expect(callerFor("business-user").generate()).resolves.toEqual({ ok: true });
+    });
+  });
+});
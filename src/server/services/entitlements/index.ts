@@ -0,0 +1,279 @@
+/**
+ * Entitlement Service for ResellerOS
+ *
+ * Enforces the monthly PRICING_TIERS caps using the usage counters on the
+ * users table:
+ * - listings: marketplace listings published (users.listingsThisMonth)
+ * - aiListings: AI listing drafts generated (users.aiListingsThisMonth)
+ * - bgRemovals: background removals (users.bgRemovalsThisMonth)
+ *
+ * Counters reset when users.periodResetAt passes; the next reset is one
+ * month later. A limit of -1 means unlimited.
+ */
+
+import { db } from "@/server/db/client";
+import { users } from "@/server/db/schema";
+import { eq, and, isNull, lte, sql } from "drizzle-orm";
+import { addMonths } from "date-fns";
+import { PRICING_TIERS } from "@/lib/constants";
+
+// ============ TYPES ============
+
+export type Entitlement = "listings" | "aiListings" | "bgRemovals";
+
+export type Tier = keyof typeof PRICING_TIERS;
+
+export interface EntitlementStatus {
+  allowed: boolean;
+  used: number;
+  /** -1 means unlimited */
+  limit: number;
+  /** null when unlimited */
+  remaining: number | null;
+}
+
+export interface EntitlementUsage {
+  tier: Tier;
+  tierName: string;
+  periodResetAt: Date;
+  usage: Record<Entitlement, EntitlementStatus>;
+}
+
+export const ENTITLEMENTS: Entitlement[] = ["listings", "aiListings", "bgRemovals"];
+
+export const ENTITLEMENT_LABELS: Record<Entitlement, string> = {
+  listings: "listings",
+  aiListings: "AI listing drafts",
+  bgRemovals: "background removals",
+};
+
+// Usage counter on the users table for each entitlement
+const USAGE_KEYS = {
+  listings: "listingsThisMonth",
+  aiListings: "aiListingsThisMonth",
+  bgRemovals: "bgRemovalsThisMonth",
+} as const;
+
+// ============ ERRORS ============
+
+/**
+ * Thrown when an action would exceed the user's plan. The tRPC layer maps
+ * it to a FORBIDDEN error carrying these details for the upgrade prompt.
+ */
+export class EntitlementError extends Error {
+  constructor(
+    public readonly entitlement: Entitlement,
+    public readonly tier: Tier,
+    public readonly used: number,
+    public readonly limit: number
+  ) {
+    super(
+      `You've used ${used} of ${limit} ${ENTITLEMENT_LABELS[entitlement]} on the ${PRICING_TIERS[tier].name} plan this month. Upgrade your plan for more.`
+    );
+    this.name = "EntitlementError";
+  }
+}
+
+// ============ PERIOD ============
+
+/**
+ * Get the next reset after `now`: monthly from the previous reset, or the
+ * start of next month (UTC) if the user has never had one
+ */
+export function getNextPeriodReset(previous: Date | null, now: Date = new Date()): Date {
+  if (!previous) {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+
+  let next = previous;
+  for (let months = 1; next <= now; months++) {
+    next = addMonths(previous, months);
+  }
+  return next;
+}
+
+/**
+ * Zero the user's counters if their period has ended
+ */
+async function resetPeriodIfDue(userId: string, now: Date = new Date()) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: {
+      tier: true,
+      listingsThisMonth: true,
+      aiListingsThisMonth: true,
+      bgRemovalsThisMonth: true,
+      periodResetAt: true,
+    },
+  });
+
+  if (!user) return null;
+  if (user.periodResetAt && user.periodResetAt > now) return user;
+
+  const periodResetAt = getNextPeriodReset(user.periodResetAt, now);
+
+  // The periodResetAt condition keeps concurrent resets from clobbering usage
+  await db
+    .update(users)
+    .set({
+      listingsThisMonth: 0,
+      aiListingsThisMonth: 0,
+      bgRemovalsThisMonth: 0,
+      periodResetAt,
+    })
+    .where(
+      and(
+        eq(users.id, userId),
+        user.periodResetAt ? lte(users.periodResetAt, now) : isNull(users.periodResetAt)
+      )
+    );
+
+  return {
+    ...user,
+    listingsThisMonth: 0,
+    aiListingsThisMonth: 0,
+    bgRemovalsThisMonth: 0,
+    periodResetAt,
+  };
+}
+
+// ============ SERVICE ============
+
+function getLimit(tier: Tier, entitlement: Entitlement): number {
+  return PRICING_TIERS[tier][entitlement];
+}
+
+function toStatus(used: number, limit: number, amount: number = 1): EntitlementStatus {
+  if (limit === -1) {
+    return { allowed: true, used, limit, remaining: null };
+  }
+  return {
+    allowed: used + amount <= limit,
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+  };
+}
+
+/**
+ * Get the user's plan and usage for every entitlement
+ */
+export async function getEntitlementUsage(userId: string): Promise<EntitlementUsage | null> {
+  const user = await resetPeriodIfDue(userId);
+  if (!user) return null;
+
+  const tier = user.tier as Tier;
+  const usage = Object.fromEntries(
+    ENTITLEMENTS.map((entitlement) => [
+      entitlement,
+      toStatus(user[USAGE_KEYS[entitlement]], getLimit(tier, entitlement)),
+    ])
+  ) as Record<Entitlement, EntitlementStatus>;
+
+  return {
+    tier,
+    tierName: PRICING_TIERS[tier].name,
+    periodResetAt: user.periodResetAt!,
+    usage,
+  };
+}
+
+/**
+ * Check whether the user can use `amount` more of an entitlement
+ * without consuming it
+ */
+export async function checkEntitlement(
+  userId: string,
+  entitlement: Entitlement,
+  amount: number = 1
+): Promise<EntitlementStatus> {
+  const user = await resetPeriodIfDue(userId);
+  if (!user) {
+    return { allowed: false, used: 0, limit: 0, remaining: 0 };
+  }
+  return toStatus(user[USAGE_KEYS[entitlement]], getLimit(user.tier as Tier, entitlement), amount);
+}
+
+/**
+ * Throw an EntitlementError unless the user can use `amount` more
+ */
+export async function assertEntitlement(
+  userId: string,
+  entitlement: Entitlement,
+  amount: number = 1
+): Promise<void> {
+  const user = await resetPeriodIfDue(userId);
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  const tier = user.tier as Tier;
+  const status = toStatus(user[USAGE_KEYS[entitlement]], getLimit(tier, entitlement), amount);
+  if (!status.allowed) {
+    throw new EntitlementError(entitlement, tier, status.used, status.limit);
+  }
+}
+
+/**
+ * Atomically consume `amount` of an entitlement, throwing an
+ * EntitlementError (and consuming nothing) if it would exceed the cap.
+ * The limit check happens in the UPDATE, so concurrent callers cannot
+ * overshoot.
+ */
+export async function consumeEntitlement(
+  userId: string,
+  entitlement: Entitlement,
+  amount: number = 1
+): Promise<EntitlementStatus> {
+  const user = await resetPeriodIfDue(userId);
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  const tier = user.tier as Tier;
+  const limit = getLimit(tier, entitlement);
+  const key = USAGE_KEYS[entitlement];
+  const column = users[key];
+
+  const [updated] = await db
+    .update(users)
+    .set({ [key]: sql`${column} + ${amount}` })
+    .where(
+      limit === -1
+        ? eq(users.id, userId)
+        : and(eq(users.id, userId), lte(sql`${column} + ${amount}`, limit))
+    )
+    .returning({ used: column });
+
+  if (!updated) {
+    throw new EntitlementError(entitlement, tier, user[key], limit);
+  }
+
+  return toStatus(updated.used, limit, 0);
+}
+
+/**
+ * Give back usage consumed for an action that then failed
+ */
+export async function releaseEntitlement(
+  userId: string,
+  entitlement: Entitlement,
+  amount: number = 1
+): Promise<void> {
+  const key = USAGE_KEYS[entitlement];
+
+  await db
+    .update(users)
+    .set({ [key]: sql`max(${users[key]} - ${amount}, 0)` })
+    .where(eq(users.id, userId));
+}
+
+const entitlementService = {
+  getEntitlementUsage,
+  checkEntitlement,
+  assertEntitlement,
+  consumeEntitlement,
+  releaseEntitlement,
+};
+
+export default entitlementService;
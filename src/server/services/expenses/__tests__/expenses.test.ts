@@ -0,0 +1,230 @@
+/**
+ * Expenses Service Tests
+ *
+ * Recurring expense expansion and the profit and loss statement, against
+ * the real schema.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import { users, inventoryItems, orders, returns, expenses } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  expandExpenseDates,
+  getExpenseOccurrences,
+  getProfitAndLoss,
+  type RecurringExpense,
+} from "..";
+
+const USER = "user-1";
+const now = new Date("2026-10-01T12:00:00.000Z");
+const start = new Date("2026-01-01T00:00:00.000Z");
+const end = new Date("2026-12-31T23:59:59.999Z");
+
+const recurring = (fields: Partial<RecurringExpense>): RecurringExpense => ({
+  id: "expense-1",
+  category: "subscriptions",
+  description: "Listing tool",
+  amount: 10,
+  incurredAt: new Date("2026-01-15T12:00:00.000Z"),
+  recurrence: "monthly",
+  recurrenceEndsAt: null,
+  ...fields,
+});
+
+async function seedSale(
+  id: string,
+  salePrice: number,
+  costBasis: number | null,
+  orderedAt = now,
+  quantity = 1
+) {
+  await db.insert(inventoryItems).values({
+    id,
+    userId: USER,
+    sku: `SKU-${id}`,
+    title: `Item ${id}`,
+    description: "Test item",
+    condition: "good",
+    askingPrice: salePrice,
+    costBasis,
+    status: "sold",
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(orders).values({
+    id: `order-${id}`,
+    userId: USER,
+    itemId: id,
+    channel: "ebay",
+    quantity,
+    salePrice,
+    platformFees: salePrice * 0.1,
+    shippingCost: 5,
+    status: "paid",
+    orderedAt,
+  });
+}
+
+async function seedExpense(id: string, fields: Partial<typeof expenses.$inferInsert>) {
+  await db.insert(expenses).values({
+    id,
+    userId: USER,
+    category: "supplies",
+    description: `Expense ${id}`,
+    amount: 0,
+    incurredAt: now,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  });
+}
+
+describe("Expenses Service", () => {
+  describe("expandExpenseDates", () => {
+    it("should include a one-time expense only inside the period", () => {
+      const expense = recurring({ recurrence: "none" });
+
+      expect(expandExpenseDates(expense, start, end)).toHaveLength(1);
+      expect(expandExpenseDates(expense, new Date("2026-02-01"), end)).toHaveLength(0);
+    });
+
+    it("should repeat monthly until the end of the period", () => {
+      const dates = expandExpenseDates(recurring({}), new Date("2026-03-01"), end);
+
+      expect(dates).toHaveLength(10);
+      expect(dates[0].toISOString()).toBe("2026-03-15T12:00:00.000Z");
+    });
+
+    it("should stop at the recurrence end date", () => {
+      const expense = recurring({
+        recurrence: "weekly",
+        recurrenceEndsAt: new Date("2026-02-05T00:00:00.000Z"),
+      });
+
+      expect(expandExpenseDates(expense, start, end)).toHaveLength(3);
+    });
+
+    it("should keep month-end expenses on the last day without drifting", () => {
+      const expense = recurring({ incurredAt: new Date(2026, 0, 31, 12) });
+
+      const dates = expandExpenseDates(expense, start, new Date(2026, 3, 30, 23));
+
+      expect(dates.map((date) => date.getDate())).toEqual([31, 28, 31, 30]);
+    });
+  });
+
+  describe("profit and loss", () => {
+    beforeEach(async () => {
+      sqlite.exec(`
+        DELETE FROM returns;
+        DELETE FROM orders;
+        DELETE FROM inventory_items;
+        DELETE FROM expenses;
+        DELETE FROM users;
+      `);
+      await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+    });
+
+    it("should combine revenue, cost of goods, and expenses", async () => {
+      await seedSale("item-1", 100, 30);
+      await seedSale("item-2", 50, null);
+      await seedSale("item-4", 40, 5, now, 2);
+      await seedSale("item-3", 500, 100, new Date("2025-06-01T12:00:00.000Z"));
+      await seedExpense("supplies", { amount: 12.5 });
+      await seedExpense("mileage", { category: "mileage", amount: 7, miles: 10 });
+      await seedExpense("subscription", {
+        category: "subscriptions",
+        amount: 20,
+        incurredAt: new Date("2025-11-15T12:00:00.000Z"),
+        recurrence: "monthly",
+        recurrenceEndsAt: new Date("2026-03-31T00:00:00.000Z"),
+      });
+
+      const pnl = await getProfitAndLoss(USER, start, end);
+
+      expect(pnl).toMatchObject({
+        orderCount: 3,
+        revenue: 190,
+        costOfGoods: 40,
+        platformFees: 19,
+        shippingCost: 15,
+        grossProfit: 116,
+      });
+      expect(pnl.expenses.total).toBe(79.5);
+      expect(pnl.expenses.byCategory).toEqual([
+        { category: "subscriptions", amount: 60 },
+        { category: "supplies", amount: 12.5 },
+        { category: "mileage", amount: 7 },
+      ]);
+      expect(pnl.netProfit).toBe(36.5);
+    });
+
+    it("should count shipping charged as revenue and leave out cancelled orders", async () => {
+      await seedSale("item-1", 100, 30);
+      await db.update(orders).set({ shippingPaid: 8 }).where(eq(orders.id, "order-item-1"));
+      await seedSale("item-2", 50, 10);
+      await db.update(orders).set({ status: "cancelled" }).where(eq(orders.id, "order-item-2"));
+
+      const pnl = await getProfitAndLoss(USER, start, end);
+
+      expect(pnl).toMatchObject({
+        orderCount: 1,
+        revenue: 108,
+        costOfGoods: 30,
+        platformFees: 10,
+        shippingCost: 5,
+        grossProfit: 63,
+      });
+    });
+
+    it("should subtract refunds and return labels issued in the period", async () => {
+      await seedSale("item-1", 100, 30);
+      const refund = {
+        userId: USER,
+        orderId: "order-item-1",
+        itemId: "item-1",
+        channel: "ebay" as const,
+        status: "refunded" as const,
+        requestedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db.insert(returns).values([
+        { ...refund, id: "return-1", refundAmount: 40, returnShippingCost: 7, refundedAt: now },
+        {
+          ...refund,
+          id: "return-2",
+          refundAmount: 25,
+          refundedAt: new Date("2027-01-05T12:00:00.000Z"),
+        },
+      ]);
+
+      const pnl = await getProfitAndLoss(USER, start, end);
+
+      expect(pnl).toMatchObject({
+        revenue: 100,
+        refunds: 40,
+        costOfGoods: 30,
+        platformFees: 10,
+        shippingCost: 12,
+        grossProfit: 8,
+      });
+    });
+
+    it("should only report the user's own expenses", async () => {
+      await db.insert(users).values({ id: "user-2", createdAt: now, updatedAt: now });
+      await seedExpense("mine", { amount: 5 });
+      await seedExpense("theirs", { amount: 50, userId: "user-2" });
+
+      const occurrences = await getExpenseOccurrences(USER, start, end);
+
+      expect(occurrences.map((occurrence) => occurrence.expenseId)).toEqual(["mine"]);
+    });
+  });
+});
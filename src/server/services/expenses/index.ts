@@ -0,0 +1,221 @@
+/**
+ * Expenses Service for ResellerOS
+ *
+ * Business expenses that don't belong to a single order: supplies,
+ * subscriptions, mileage, storage rent. Recurring expenses are stored once
+ * and expanded into occurrences for whatever period is being reported.
+ *
+ * The profit and loss statement combines order revenue, cost of goods
+ * sold, and selling costs with these expenses. Cancelled orders are left
+ * out, as in the tax report. Refunds and return labels come from the
+ * returns recorded in the period.
+ */
+
+import { db } from "@/server/db/client";
+import { expenses, orders, inventoryItems, returns } from "@/server/db/schema";
+import { eq, and, gte, lte, ne } from "drizzle-orm";
+import { addWeeks, addMonths, addYears } from "date-fns";
+import type { ExpenseCategory, ExpenseRecurrence } from "@/lib/constants";
+
+// ============ TYPES ============
+
+export interface RecurringExpense {
+  id: string;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  incurredAt: Date;
+  recurrence: ExpenseRecurrence;
+  recurrenceEndsAt: Date | null;
+}
+
+export interface ExpenseOccurrence {
+  expenseId: string;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  date: Date;
+}
+
+export interface ProfitAndLoss {
+  start: Date;
+  end: Date;
+  orderCount: number;
+  /** Sale prices plus shipping charged to buyers */
+  revenue: number;
+  /** Refunded to buyers on returns */
+  refunds: number;
+  costOfGoods: number;
+  platformFees: number;
+  /** Postage on orders and return labels */
+  shippingCost: number;
+  /** Revenue less refunds, cost of goods, fees and shipping */
+  grossProfit: number;
+  expenses: {
+    total: number;
+    byCategory: Array<{ category: ExpenseCategory; amount: number }>;
+  };
+  /** Gross profit less expenses */
+  netProfit: number;
+}
+
+// ============ HELPERS ============
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const ADVANCE: Record<Exclude<ExpenseRecurrence, "none">, (date: Date, n: number) => Date> = {
+  weekly: addWeeks,
+  monthly: addMonths,
+  yearly: addYears,
+};
+
+// ============ RECURRENCE ============
+
+/**
+ * Dates an expense falls on between start and end, inclusive. Each
+ * occurrence is counted from the first date, so a monthly expense on the
+ * 31st lands on the last day of shorter months without drifting.
+ */
+export function expandExpenseDates(expense: RecurringExpense, start: Date, end: Date): Date[] {
+  if (expense.recurrence === "none") {
+    return expense.incurredAt >= start && expense.incurredAt <= end ? [expense.incurredAt] : [];
+  }
+
+  const advance = ADVANCE[expense.recurrence];
+  const last =
+    expense.recurrenceEndsAt && expense.recurrenceEndsAt < end ? expense.recurrenceEndsAt : end;
+  const dates: Date[] = [];
+
+  for (let n = 0; ; n++) {
+    const date = advance(expense.incurredAt, n);
+    if (date > last) break;
+    if (date >= start) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Every expense occurrence for the user between start and end, oldest first
+ */
+export async function getExpenseOccurrences(
+  userId: string,
+  start: Date,
+  end: Date
+): Promise<ExpenseOccurrence[]> {
+  const rows = await db
+    .select()
+    .from(expenses)
+    .where(and(eq(expenses.userId, userId), lte(expenses.incurredAt, end)));
+
+  return (
+    rows
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .flatMap((expense: any) =>
+        expandExpenseDates(expense, start, end).map((date) => ({
+          expenseId: expense.id,
+          category: expense.category,
+          description: expense.description,
+          amount: expense.amount,
+          date,
+        }))
+      )
+      .sort((a: ExpenseOccurrence, b: ExpenseOccurrence) => a.date.getTime() - b.date.getTime())
+  );
+}
+
+// ============ PROFIT AND LOSS ============
+
+/**
+ * Profit and loss for orders placed and expenses incurred between start
+ * and end
+ */
+export async function getProfitAndLoss(
+  userId: string,
+  start: Date,
+  end: Date
+): Promise<ProfitAndLoss> {
+  const sales = await db
+    .select({
+      salePrice: orders.salePrice,
+      shippingPaid: orders.shippingPaid,
+      platformFees: orders.platformFees,
+      shippingCost: orders.shippingCost,
+      quantity: orders.quantity,
+      costBasis: inventoryItems.costBasis,
+    })
+    .from(orders)
+    .innerJoin(inventoryItems, eq(orders.itemId, inventoryItems.id))
+    .where(
+      and(
+        eq(orders.userId, userId),
+        ne(orders.status, "cancelled"),
+        gte(orders.orderedAt, start),
+        lte(orders.orderedAt, end)
+      )
+    );
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const total = (field: string) => sales.reduce((sum: number, row: any) => sum + (row[field] ?? 0), 0);
+  const revenue = total("salePrice") + total("shippingPaid");
+  const costOfGoods = sales.reduce(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (sum: number, row: any) => sum + (row.costBasis ?? 0) * row.quantity,
+    0
+  );
+  const platformFees = total("platformFees");
+
+  const refunded = await db
+    .select({
+      refundAmount: returns.refundAmount,
+      returnShippingCost: returns.returnShippingCost,
+    })
+    .from(returns)
+    .where(
+      and(eq(returns.userId, userId), gte(returns.refundedAt, start), lte(returns.refundedAt, end))
+    );
+  const refunds = refunded.reduce(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (sum: number, row: any) => sum + (row.refundAmount ?? 0),
+    0
+  );
+  const returnShipping = refunded.reduce(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (sum: number, row: any) => sum + (row.returnShippingCost ?? 0),
+    0
+  );
+
+  const shippingCost = total("shippingCost") + returnShipping;
+  const grossProfit = revenue - refunds - costOfGoods - platformFees - shippingCost;
+
+  const occurrences = await getExpenseOccurrences(userId, start, end);
+  const byCategory = new Map<ExpenseCategory, number>();
+  for (const occurrence of occurrences) {
+    byCategory.set(
+      occurrence.category,
+      (byCategory.get(occurrence.category) ?? 0) + occurrence.amount
+    );
+  }
+  const totalExpenses = occurrences.reduce((sum, occurrence) => sum + occurrence.amount, 0);
+
+  return {
+    start,
+    end,
+    orderCount: sales.length,
+    revenue: roundCurrency(revenue),
+    refunds: roundCurrency(refunds),
+    costOfGoods: roundCurrency(costOfGoods),
+    platformFees: roundCurrency(platformFees),
+    shippingCost: roundCurrency(shippingCost),
+    grossProfit: roundCurrency(grossProfit),
+    expenses: {
+      total: roundCurrency(totalExpenses),
+      byCategory: Array.from(byCategory.entries())
+        .map(([category, amount]) => ({ category, amount: roundCurrency(amount) }))
+        .sort((a, b) => b.amount - a.amount),
+    },
+    netProfit: roundCurrency(grossProfit - totalExpenses),
+  };
+}
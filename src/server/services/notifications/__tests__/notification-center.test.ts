@@ -0,0 +1,175 @@
+/**
+ * Notification Center Tests
+ *
+ * Listing, read state and the email digest against an in-memory SQLite
+ * database.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { EmailMessage, EmailTransport } from "@/server/services/email";
+
+const { sqlite } = vi.hoisted(() => ({
+  sqlite: { exec: (_sql: string) => {} },
+}));
+
+vi.mock("@/server/db/client", async () => {
+  const { default: Database } = await import("better-sqlite3");
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const schema = await import("@/server/db/schema");
+
+  const database = new Database(":memory:");
+  database.exec(`
+    CREATE TABLE notifications (
+      id text PRIMARY KEY NOT NULL,
+      user_id text NOT NULL,
+      type text NOT NULL,
+      priority text DEFAULT 'MEDIUM' NOT NULL,
+      message text NOT NULL,
+      item_id text,
+      channel text,
+      metadata text,
+      in_app integer DEFAULT true NOT NULL,
+      read_at integer,
+      email_status text,
+      emailed_at integer,
+      created_at integer NOT NULL
+    );
+    CREATE TABLE users (
+      id text PRIMARY KEY NOT NULL,
+      email text
+    );
+  `);
+  sqlite.exec = (sql: string) => database.exec(sql);
+
+  return { db: drizzle(database, { schema }) };
+});
+
+// Import after mocking
+import {
+  listNotifications,
+  getUnreadCount,
+  markNotificationsRead,
+  markAllNotificationsRead,
+  getUsersWithPendingDigest,
+  sendNotificationDigest,
+} from "../index";
+import { setEmailTransport } from "@/server/services/email";
+
+describe("Notification Center", () => {
+  beforeEach(() => {
+    sqlite.exec(`
+      DELETE FROM notifications;
+      INSERT INTO notifications (id, user_id, type, message, read_at, created_at) VALUES
+        ('n-1', 'user-1', 'SALE_CONFIRMED', 'Sold', NULL, 1000),
+        ('n-2', 'user-1', 'SYNC_ERROR', 'Sync failed', NULL, 3000),
+        ('n-3', 'user-1', 'DELIST_SUCCESS', 'Delisted', 2500, 2000),
+        ('n-4', 'user-2', 'SALE_CONFIRMED', 'Other user', NULL, 4000);
+    `);
+  });
+
+  it("should list the user's notifications newest first", async () => {
+    const entries = await listNotifications("user-1");
+
+    expect(entries.map((n) => n.id)).toEqual(["n-2", "n-3", "n-1"]);
+  });
+
+  it("should list only unread notifications when asked", async () => {
+    const entries = await listNotifications("user-1", { unreadOnly: true, limit: 1 });
+
+    expect(entries.map((n) => n.id)).toEqual(["n-2"]);
+  });
+
+  it("should count unread notifications per user", async () => {
+    expect(await getUnreadCount("user-1")).toBe(2);
+    expect(await getUnreadCount("user-2")).toBe(1);
+  });
+
+  it("should mark only the user's own notifications as read", async () => {
+    const updated = await markNotificationsRead("user-1", ["n-1", "n-3", "n-4"]);
+
+    expect(updated).toBe(1);
+    expect(await getUnreadCount("user-1")).toBe(1);
+    expect(await getUnreadCount("user-2")).toBe(1);
+  });
+
+  it("should mark all notifications as read", async () => {
+    const updated = await markAllNotificationsRead("user-1");
+
+    expect(updated).toBe(2);
+    expect(await getUnreadCount("user-1")).toBe(0);
+    expect(await getUnreadCount("user-2")).toBe(1);
+  });
+
+  it("should hide email-only notifications from the notification center", async () => {
+    sqlite.exec(`
+      INSERT INTO notifications (id, user_id, type, message, in_app, created_at)
+      VALUES ('n-5', 'user-1', 'SALE_CONFIRMED', 'Email only', 0, 5000);
+    `);
+
+    const entries = await listNotifications("user-1");
+
+    expect(entries.map((n) => n.id)).not.toContain("n-5");
+    expect(await getUnreadCount("user-1")).toBe(2);
+  });
+
+  // ============ EMAIL DIGEST ============
+
+  describe("email digest", () => {
+    const sent: Array<EmailMessage & { from: string }> = [];
+    const transport: EmailTransport = {
+      name: "memory",
+      send: async (message) => {
+        sent.push(message);
+        return "<digest@test>";
+      },
+    };
+
+    beforeEach(() => {
+      sent.length = 0;
+      setEmailTransport(transport);
+      sqlite.exec(`
+        DELETE FROM users;
+        INSERT INTO users (id, email) VALUES
+          ('user-1', 'one@example.com'),
+          ('user-2', NULL);
+        UPDATE notifications SET email_status = 'pending' WHERE id IN ('n-1', 'n-2', 'n-4');
+        UPDATE notifications SET email_status = 'sent' WHERE id = 'n-3';
+      `);
+    });
+
+    afterEach(() => {
+      setEmailTransport(null);
+      vi.restoreAllMocks();
+    });
+
+    it("should find users with pending notifications and an email address", async () => {
+      expect(await getUsersWithPendingDigest()).toEqual(["user-1"]);
+    });
+
+    it("should send one digest and mark the notifications sent", async () => {
+      const included = await sendNotificationDigest("user-1");
+
+      expect(included).toBe(2);
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe("one@example.com");
+      expect(sent[0].subject).toBe("Your ResellerOS daily digest: 2 updates");
+      expect(sent[0].text.indexOf("Sold")).toBeLessThan(sent[0].text.indexOf("Sync failed"));
+      expect(await getUsersWithPendingDigest()).toEqual([]);
+      expect(await sendNotificationDigest("user-1")).toBe(0);
+      expect(sent).toHaveLength(1);
+    });
+
+    it("should keep notifications pending when the digest fails", async () => {
+      setEmailTransport({
+        name: "failing",
+        send: async () => {
+          throw new Error("Connection refused");
+        },
+      });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(sendNotificationDigest("user-1")).rejects.toThrow("Connection refused");
+      expect(await getUsersWithPendingDigest()).toEqual(["user-1"]);
+    });
+  });
+});
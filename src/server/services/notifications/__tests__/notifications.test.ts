@@ -6,23 +6,69 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
   notifyUser,
   notifyUserBulk,
+  getNotificationPrefs,
+  isNotificationEnabled,
   type Notification,
   type NotificationType,
   type NotificationPriority,
 } from "../index";
 
+import { DEFAULT_NOTIFICATION_PREFS, type NotificationPrefs } from "@/server/db/schema";
+
+const { savedPrefs, userEmail, insertedValues, updatedValues, mockSendEmail } = vi.hoisted(() => ({
+  savedPrefs: { current: null as Partial<NotificationPrefs> | null },
+  userEmail: { current: null as string | null },
+  insertedValues: [] as Array<Record<string, unknown>>,
+  updatedValues: [] as Array<Record<string, unknown>>,
+  mockSendEmail: vi.fn(),
+}));
+
 // Mock the database
 vi.mock("@/server/db/client", () => ({
   db: {
     insert: vi.fn(() => ({
-      values: vi.fn(() => Promise.resolve()),
+      values: vi.fn((values: Record<string, unknown>) => {
+        insertedValues.push(values);
+        return Promise.resolve();
+      }),
+    })),
+    select: vi.fn((fields: Record<string, unknown>) => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(() => {
+            // User email lookup
+            if ("email" in fields) {
+              return Promise.resolve(userEmail.current ? [{ email: userEmail.current }] : []);
+            }
+            return Promise.resolve(savedPrefs.current ? [{ preferences: savedPrefs.current }] : []);
+          }),
+        })),
+      })),
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: Record<string, unknown>) => ({
+        where: vi.fn(() => {
+          updatedValues.push(values);
+          return Promise.resolve();
+        }),
+      })),
     })),
   },
 }));
 
+vi.mock("@/server/services/email", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/services/email")>()),
+  sendEmail: mockSendEmail,
+}));
+
 describe("Notification Service", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    savedPrefs.current = null;
+    userEmail.current = null;
+    insertedValues.length = 0;
+    updatedValues.length = 0;
+    mockSendEmail.mockResolvedValue({ success: true, messageId: "<msg-1@test>" });
     // Suppress console output during tests
     vi.spyOn(console, "log").mockImplementation(() => {});
     vi.spyOn(console, "error").mockImplementation(() => {});
@@ -131,6 +177,176 @@ describe("Notification Service", () => {
     });
   });
 
+  describe("in-app notifications", () => {
+    const inAppRows = () => insertedValues.filter((v) => "readAt" in v);
+
+    it("should store an unread in-app notification by default", async () => {
+      const result = await notifyUser("user-123", {
+        type: "SALE_CONFIRMED",
+        itemId: "item-1",
+        itemTitle: "Vintage Jacket",
+        channel: "poshmark",
+      });
+
+      expect(result.deliveryMethods).toContain("in_app");
+      expect(result.notificationId).toBeDefined();
+      expect(inAppRows()).toEqual([
+        expect.objectContaining({
+          id: result.notificationId,
+          userId: "user-123",
+          type: "SALE_CONFIRMED",
+          priority: "MEDIUM",
+          itemId: "item-1",
+          channel: "poshmark",
+          readAt: null,
+          message: expect.stringContaining("Vintage Jacket"),
+        }),
+      ]);
+    });
+
+    it("should skip the notification entirely when the category is muted", async () => {
+      savedPrefs.current = { saleConfirmed: { inApp: false, email: false } };
+
+      const result = await notifyUser("user-123", { type: "SALE_CONFIRMED" });
+
+      expect(result.deliveryMethods).not.toContain("in_app");
+      expect(result.deliveryMethods).toContain("audit_log");
+      expect(inAppRows()).toHaveLength(0);
+    });
+
+    it("should store email-only notifications outside the notification center", async () => {
+      savedPrefs.current = { saleConfirmed: { inApp: false, email: true } };
+
+      const result = await notifyUser("user-123", { type: "SALE_CONFIRMED" });
+
+      expect(result.deliveryMethods).not.toContain("in_app");
+      expect(inAppRows()).toEqual([
+        expect.objectContaining({ inApp: false, emailStatus: "pending" }),
+      ]);
+    });
+
+    it("should respect muted categories for CRITICAL notifications", async () => {
+      savedPrefs.current = { delistAlert: { inApp: false, email: false } };
+
+      const result = await notifyUser("user-123", {
+        type: "DELIST_FAILED",
+        priority: "CRITICAL",
+      });
+
+      expect(result.deliveryMethods).not.toContain("in_app");
+      expect(result.notificationId).toBeUndefined();
+    });
+
+    it("should fill missing preference categories with defaults", async () => {
+      savedPrefs.current = { syncError: { inApp: false, email: false } };
+
+      const prefs = await getNotificationPrefs("user-123");
+
+      expect(prefs.syncError.inApp).toBe(false);
+      expect(prefs.saleConfirmed).toEqual(DEFAULT_NOTIFICATION_PREFS.saleConfirmed);
+    });
+
+    it("should always deliver types without a preference category", () => {
+      const allOff = Object.fromEntries(
+        Object.keys(DEFAULT_NOTIFICATION_PREFS).map((key) => [key, { inApp: false, email: false }])
+      ) as unknown as NotificationPrefs;
+
+      expect(isNotificationEnabled(allOff, "ACTION_REQUIRED", "inApp")).toBe(true);
+      expect(isNotificationEnabled(allOff, "OFFER_RECEIVED", "inApp")).toBe(false);
+    });
+  });
+
+  describe("email notifications", () => {
+    beforeEach(() => {
+      userEmail.current = "seller@example.com";
+    });
+
+    it("should email HIGH priority notifications immediately", async () => {
+      const result = await notifyUser("user-123", {
+        type: "MANUAL_DELIST_REQUIRED",
+        channel: "poshmark",
+        itemId: "item-1",
+        itemTitle: "Vintage Jacket",
+        priority: "HIGH",
+      });
+
+      expect(result.deliveryMethods).toContain("email");
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: "seller@example.com",
+          subject: "Action required: delist your item from Poshmark",
+          text: expect.stringContaining("Vintage Jacket"),
+          html: expect.stringContaining("/inventory/item-1"),
+        })
+      );
+      expect(updatedValues).toEqual([
+        expect.objectContaining({ emailStatus: "sent", emailedAt: expect.any(Date) }),
+      ]);
+    });
+
+    it("should not email CRITICAL notifications when email is muted", async () => {
+      savedPrefs.current = { delistAlert: { inApp: true, email: false } };
+
+      const result = await notifyUser("user-123", {
+        type: "DELIST_FAILED",
+        priority: "CRITICAL",
+      });
+
+      expect(result.deliveryMethods).toContain("in_app");
+      expect(result.deliveryMethods).not.toContain("email");
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it("should queue MEDIUM priority notifications for the digest", async () => {
+      const result = await notifyUser("user-123", {
+        type: "SALE_CONFIRMED",
+        itemTitle: "Vintage Jacket",
+        channel: "ebay",
+      });
+
+      expect(result.deliveryMethods).toContain("email_digest");
+      expect(mockSendEmail).not.toHaveBeenCalled();
+      expect(insertedValues).toContainEqual(
+        expect.objectContaining({ type: "SALE_CONFIRMED", emailStatus: "pending" })
+      );
+    });
+
+    it("should not queue email when the category's email is muted", async () => {
+      savedPrefs.current = { saleConfirmed: { inApp: true, email: false } };
+
+      const result = await notifyUser("user-123", { type: "SALE_CONFIRMED" });
+
+      expect(result.deliveryMethods).not.toContain("email_digest");
+      expect(insertedValues).toContainEqual(
+        expect.objectContaining({ type: "SALE_CONFIRMED", emailStatus: null })
+      );
+    });
+
+    it("should leave the email pending for the digest when sending fails", async () => {
+      mockSendEmail.mockResolvedValueOnce({ success: false, error: "Connection refused" });
+
+      const result = await notifyUser("user-123", {
+        type: "DELIST_FAILED",
+        priority: "HIGH",
+      });
+
+      expect(result.deliveryMethods).not.toContain("email");
+      expect(updatedValues).toHaveLength(0);
+    });
+
+    it("should not email users without an email address", async () => {
+      userEmail.current = null;
+
+      const result = await notifyUser("user-123", {
+        type: "DELIST_FAILED",
+        priority: "CRITICAL",
+      });
+
+      expect(result.deliveryMethods).not.toContain("email");
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+  });
+
   describe("notifyUserBulk", () => {
     it("should send multiple notifications", async () => {
       const notifications: Notification[] = [
@@ -2,12 +2,29 @@
  * Notification Service for ResellerOS
  *
  * Handles user notifications for critical events that require attention.
- * Currently logs to console; will be extended with email, push, and in-app
- * notifications in the future.
+ * Notifications are logged to the console and audit log, and stored in the
+ * notifications table for the in-app notification center and email when the
+ * user's preferences allow it. CRITICAL and HIGH priority emails are sent
+ * immediately; LOW and MEDIUM ones are batched into a daily digest.
+ * Push delivery is future work.
  */
 
 import { db } from "@/server/db/client";
-import { auditLog } from "@/server/db/schema";
+import {
+  auditLog,
+  users,
+  notifications,
+  notificationPreferences,
+  DEFAULT_NOTIFICATION_PREFS,
+  type NotificationPrefs,
+} from "@/server/db/schema";
+import { eq, and, asc, desc, isNull, isNotNull, inArray, sql } from "drizzle-orm";
+import {
+  sendEmail,
+  renderNotificationEmail,
+  renderDigestEmail,
+  type NotificationEmailInput,
+} from "@/server/services/email";
 
 // ============ TYPES ============
 
@@ -38,6 +55,24 @@ export interface NotificationResult {
   deliveryMethods: string[];
 }
 
+// ============ CONSTANTS ============
+
+/**
+ * Preference category that controls each notification type
+ * Types mapped to null are always delivered
+ */
+export const NOTIFICATION_PREF_CATEGORY: Record<NotificationType, keyof NotificationPrefs | null> = {
+  MANUAL_DELIST_REQUIRED: "delistAlert",
+  DELIST_FAILED: "delistAlert",
+  DELIST_SUCCESS: "delistAlert",
+  ACTION_REQUIRED: null,
+  OFFER_RECEIVED: "offerReceived",
+  SALE_CONFIRMED: "saleConfirmed",
+  SYNC_ERROR: "syncError",
+};
+
+const NOTIFICATION_CHANNELS = ["ebay", "poshmark", "mercari", "depop"] as const;
+
 // ============ NOTIFICATION SERVICE ============
 
 /**
@@ -71,21 +106,52 @@ export async function notifyUser(
     console.error("[NOTIFICATION] Failed to log to audit:", error);
   }
 
-  // TODO: Future delivery methods
-  // - Email: For CRITICAL and HIGH priority
-  // - Push: For real-time alerts
-  // - In-app: For persistent notifications in the dashboard
+  // In-app notification center and email, if the user's preferences allow
+  // it; priority only decides how soon email goes out
+  let notificationId: string | undefined;
+  try {
+    const prefs = await getNotificationPrefs(userId);
+    const inApp = isNotificationEnabled(prefs, notification.type, "inApp");
+    const email = isNotificationEnabled(prefs, notification.type, "email");
+
+    if (inApp || email) {
+      notificationId = await createNotification(userId, notification, priority, formattedMessage, {
+        inApp,
+        email,
+      });
+      if (inApp) deliveryMethods.push("in_app");
+    }
+
+    if (notificationId && email) {
+      if (isImmediateEmail(priority)) {
+        // Failed sends stay pending and go out with the next digest
+        const sent = await sendNotificationEmail(userId, notificationId, {
+          type: notification.type,
+          priority,
+          message: formattedMessage,
+          itemId: notification.itemId,
+          channel: notification.channel,
+        });
+        if (sent) deliveryMethods.push("email");
+      } else {
+        deliveryMethods.push("email_digest");
+      }
+    }
+  } catch (error) {
+    console.error("[NOTIFICATION] Failed to store notification:", error);
+  }
+
+  // TODO: Push delivery for real-time alerts
 
-  // For CRITICAL notifications, we would trigger additional alerts
   if (priority === "CRITICAL") {
     console.error(
       `[CRITICAL NOTIFICATION] User ${userId}: ${formattedMessage}`
     );
-    // TODO: Send immediate email, SMS, or push notification
   }
 
   return {
     success: true,
+    notificationId,
     deliveryMethods,
   };
 }
@@ -102,6 +168,166 @@ export async function notifyUserBulk(
   );
 }
 
+// ============ NOTIFICATION CENTER ============
+
+export type StoredNotification = typeof notifications.$inferSelect;
+
+/**
+ * List a user's in-app notifications, newest first
+ */
+export async function listNotifications(
+  userId: string,
+  options: { limit?: number; offset?: number; unreadOnly?: boolean } = {}
+): Promise<StoredNotification[]> {
+  const conditions = [eq(notifications.userId, userId), eq(notifications.inApp, true)];
+  if (options.unreadOnly) {
+    conditions.push(isNull(notifications.readAt));
+  }
+
+  return db
+    .select()
+    .from(notifications)
+    .where(and(...conditions))
+    .orderBy(desc(notifications.createdAt))
+    .limit(options.limit ?? 20)
+    .offset(options.offset ?? 0);
+}
+
+/**
+ * Count a user's unread in-app notifications
+ */
+export async function getUnreadCount(userId: string): Promise<number> {
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(notifications)
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        eq(notifications.inApp, true),
+        isNull(notifications.readAt)
+      )
+    );
+
+  return result?.count ?? 0;
+}
+
+/**
+ * Mark specific notifications as read
+ * @returns The number of notifications updated
+ */
+export async function markNotificationsRead(userId: string, ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        inArray(notifications.id, ids),
+        isNull(notifications.readAt)
+      )
+    )
+    .returning({ id: notifications.id });
+
+  return updated.length;
+}
+
+/**
+ * Mark all of a user's notifications as read
+ * @returns The number of notifications updated
+ */
+export async function markAllNotificationsRead(userId: string): Promise<number> {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        eq(notifications.inApp, true),
+        isNull(notifications.readAt)
+      )
+    )
+    .returning({ id: notifications.id });
+
+  return updated.length;
+}
+
+// ============ EMAIL DIGEST ============
+
+/**
+ * Get users with notifications waiting for the daily digest
+ * Users without an email address are skipped
+ */
+export async function getUsersWithPendingDigest(): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ userId: notifications.userId })
+    .from(notifications)
+    .innerJoin(users, eq(users.id, notifications.userId))
+    .where(and(eq(notifications.emailStatus, "pending"), isNotNull(users.email)));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return rows.map((r: any) => r.userId);
+}
+
+/**
+ * Email a user their pending notifications as one digest
+ * @returns The number of notifications included (0 if nothing was sent)
+ */
+export async function sendNotificationDigest(userId: string): Promise<number> {
+  const email = await getUserEmail(userId);
+  if (!email) return 0;
+
+  const pending: StoredNotification[] = await db
+    .select()
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), eq(notifications.emailStatus, "pending")))
+    .orderBy(asc(notifications.createdAt));
+
+  if (pending.length === 0) return 0;
+
+  const rendered = renderDigestEmail(pending.map(toEmailInput));
+  const result = await sendEmail({ to: email, ...rendered });
+  if (!result.success) {
+    throw new Error(`Failed to send digest to user ${userId}: ${result.error}`);
+  }
+
+  await db
+    .update(notifications)
+    .set({ emailStatus: "sent", emailedAt: new Date() })
+    .where(inArray(notifications.id, pending.map((n) => n.id)));
+
+  return pending.length;
+}
+
+// ============ PREFERENCES ============
+
+/**
+ * Get a user's saved notification preferences, filled in with defaults
+ */
+export async function getNotificationPrefs(userId: string): Promise<NotificationPrefs> {
+  const [row] = await db
+    .select({ preferences: notificationPreferences.preferences })
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId))
+    .limit(1);
+
+  return { ...DEFAULT_NOTIFICATION_PREFS, ...(row?.preferences ?? {}) };
+}
+
+/**
+ * Check whether a notification type is enabled for a delivery channel
+ */
+export function isNotificationEnabled(
+  prefs: NotificationPrefs,
+  type: NotificationType,
+  delivery: "inApp" | "email"
+): boolean {
+  const category = NOTIFICATION_PREF_CATEGORY[type];
+  if (!category) return true;
+  return prefs[category]?.[delivery] ?? true;
+}
+
 // ============ HELPER FUNCTIONS ============
 
 /**
@@ -168,6 +394,100 @@ async function logNotificationToAudit(
   });
 }
 
-const notificationService = { notifyUser, notifyUserBulk };
+/**
+ * CRITICAL and HIGH priority emails skip the digest
+ */
+function isImmediateEmail(priority: NotificationPriority): boolean {
+  return priority === "CRITICAL" || priority === "HIGH";
+}
+
+/**
+ * Store a notification for the notification center and/or email delivery
+ */
+async function createNotification(
+  userId: string,
+  notification: Notification,
+  priority: NotificationPriority,
+  formattedMessage: string,
+  delivery: { inApp: boolean; email: boolean }
+): Promise<string> {
+  const id = crypto.randomUUID();
+  const channel = NOTIFICATION_CHANNELS.find((c) => c === notification.channel) ?? null;
+
+  await db.insert(notifications).values({
+    id,
+    userId,
+    type: notification.type,
+    priority,
+    message: formattedMessage,
+    itemId: notification.itemId ?? null,
+    channel,
+    metadata: notification.metadata ?? null,
+    inApp: delivery.inApp,
+    readAt: null,
+    emailStatus: delivery.email ? "pending" : null,
+    emailedAt: null,
+    createdAt: new Date(),
+  });
+
+  return id;
+}
+
+/**
+ * Email a single notification right away
+ * @returns Whether the email was sent
+ */
+async function sendNotificationEmail(
+  userId: string,
+  notificationId: string,
+  input: NotificationEmailInput
+): Promise<boolean> {
+  const email = await getUserEmail(userId);
+  if (!email) return false;
+
+  const result = await sendEmail({ to: email, ...renderNotificationEmail(input) });
+  if (!result.success) return false;
+
+  await db
+    .update(notifications)
+    .set({ emailStatus: "sent", emailedAt: new Date() })
+    .where(eq(notifications.id, notificationId));
+
+  return true;
+}
+
+async function getUserEmail(userId: string): Promise<string | null> {
+  const [user] = await db
+    .select({ email: users.email })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return user?.email ?? null;
+}
+
+function toEmailInput(notification: StoredNotification): NotificationEmailInput {
+  return {
+    type: notification.type as NotificationType,
+    priority: notification.priority,
+    message: notification.message,
+    itemId: notification.itemId,
+    channel: notification.channel,
+    createdAt: notification.createdAt,
+  };
+}
+
+const notificationService = {
+  notifyUser,
+  notifyUserBulk,
+  getNotificationPrefs,
+  isNotificationEnabled,
+  listNotifications,
+  getUnreadCount,
+  markNotificationsRead,
+  markAllNotificationsRead,
+  getUsersWithPendingDigest,
+  sendNotificationDigest,
+};
 
 export default notificationService;
@@ -0,0 +1,134 @@
+/**
+ * Offers Service Tests
+ *
+ * Tests for offer recording, negotiation round counting, expiry, and
+ * outcome mapping.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { selectResults, insertValues, updateSet } = vi.hoisted(() => ({
+  selectResults: [] as unknown[][],
+  insertValues: vi.fn(),
+  updateSet: vi.fn(),
+}));
+
+// Mock the database: each select chain resolves to the next queued result
+vi.mock("@/server/db/client", () => {
+  const nextResult = () => Promise.resolve(selectResults.shift() ?? []);
+  const chain = {
+    from: vi.fn(() => chain),
+    where: vi.fn(() => chain),
+    limit: vi.fn(nextResult),
+    orderBy: vi.fn(nextResult),
+    // Awaiting the chain directly (no limit/orderBy) also resolves
+    then: (resolve: (value: unknown[]) => void) => nextResult().then(resolve),
+  };
+
+  return {
+    db: {
+      select: vi.fn(() => chain),
+      insert: vi.fn(() => ({ values: insertValues })),
+      update: vi.fn(() => ({
+        set: updateSet.mockImplementation(() => ({
+          where: vi.fn().mockResolvedValue(undefined),
+        })),
+      })),
+    },
+  };
+});
+
+// Import after mocking
+import {
+  recordOffer,
+  getNegotiationRound,
+  expireLapsedOffers,
+  outcomeForActionType,
+  type RecordOfferInput,
+} from "../index";
+
+const baseInput: RecordOfferInput = {
+  userId: "user-1",
+  itemId: "item-1",
+  channelListingId: "listing-1",
+  channel: "ebay",
+  externalOfferId: "offer-1",
+  amount: 80,
+  askingPrice: 100,
+  buyerUsername: "buyer42",
+};
+
+describe("Offers Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    selectResults.length = 0;
+  });
+
+  describe("getNegotiationRound", () => {
+    it("should start at round 1 without a buyer username", async () => {
+      expect(await getNegotiationRound("listing-1")).toBe(1);
+    });
+
+    it("should count prior counter-offers to the same buyer", async () => {
+      selectResults.push([{ count: 2 }]);
+      expect(await getNegotiationRound("listing-1", "buyer42")).toBe(3);
+    });
+  });
+
+  describe("recordOffer", () => {
+    it("should insert a new pending offer with its round", async () => {
+      selectResults.push([]); // no existing offer
+      selectResults.push([{ count: 1 }]); // one prior counter
+
+      const result = await recordOffer(baseInput);
+
+      expect(result.isNew).toBe(true);
+      expect(result.offer.status).toBe("pending");
+      expect(result.offer.round).toBe(2);
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({ externalOfferId: "offer-1", round: 2 })
+      );
+    });
+
+    it("should return the existing offer when already recorded", async () => {
+      const existing = { id: "offer-row-1", round: 1, status: "countered" };
+      selectResults.push([existing]);
+
+      const result = await recordOffer(baseInput);
+
+      expect(result.isNew).toBe(false);
+      expect(result.offer).toBe(existing);
+      expect(insertValues).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("expireLapsedOffers", () => {
+    const now = new Date("2026-10-01T12:00:00.000Z");
+
+    it("should mark lapsed pending offers expired", async () => {
+      selectResults.push([{ id: "offer-row-1" }, { id: "offer-row-2" }]);
+
+      expect(await expireLapsedOffers("user-1", now)).toBe(2);
+      expect(updateSet).toHaveBeenCalledWith({ status: "expired", updatedAt: now });
+    });
+
+    it("should leave offers alone when none have lapsed", async () => {
+      selectResults.push([]);
+
+      expect(await expireLapsedOffers("user-1", now)).toBe(0);
+      expect(updateSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("outcomeForActionType", () => {
+    it("should map offer actions to outcomes", () => {
+      expect(outcomeForActionType("OFFER_ACCEPT")).toBe("accepted");
+      expect(outcomeForActionType("OFFER_DECLINE")).toBe("declined");
+      expect(outcomeForActionType("OFFER_COUNTER")).toBe("countered");
+    });
+
+    it("should return null for non-offer actions", () => {
+      expect(outcomeForActionType("REPRICE")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Offers Service
+ *
+ * Persists marketplace offers and their negotiation history.
+ * Each buyer offer (including buyer counter-offers) is one row; the round
+ * number counts how many times we have already countered the same buyer
+ * on the same listing, so `maxCounterRounds` can be enforced.
+ *
+ * Pending offers expire when eBay reports them expired or once their
+ * `expiresAt` has passed.
+ */
+
+import { db } from "@/server/db/client";
+import { offers } from "@/server/db/schema";
+import { eq, and, asc, count, inArray, isNotNull, lte } from "drizzle-orm";
+
+// ============ TYPES ============
+
+export type OfferChannel = "ebay" | "poshmark" | "mercari" | "depop";
+
+export type OfferStatus = "pending" | "accepted" | "declined" | "countered" | "expired";
+
+export interface RecordOfferInput {
+  userId: string;
+  itemId: string;
+  channelListingId: string;
+  channel: OfferChannel;
+  externalOfferId: string;
+  amount: number;
+  askingPrice: number;
+  buyerUsername?: string;
+  buyerMessage?: string;
+  expiresAt?: Date;
+}
+
+export interface OfferRecord {
+  id: string;
+  userId: string;
+  itemId: string;
+  channelListingId: string;
+  channel: OfferChannel;
+  externalOfferId: string;
+  buyerUsername: string | null;
+  amount: number;
+  askingPrice: number;
+  buyerMessage: string | null;
+  round: number;
+  counterAmount: number | null;
+  status: OfferStatus;
+  autopilotActionId: string | null;
+  expiresAt: Date | null;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ResolveOfferInput {
+  status: Exclude<OfferStatus, "pending">;
+  counterAmount?: number;
+  autopilotActionId?: string;
+}
+
+// ============ QUERIES ============
+
+/**
+ * Find an offer by its marketplace offer ID
+ */
+export async function findOfferByExternalId(
+  channel: OfferChannel,
+  externalOfferId: string
+): Promise<OfferRecord | null> {
+  const [offer] = await db
+    .select()
+    .from(offers)
+    .where(
+      and(
+        eq(offers.channel, channel),
+        eq(offers.externalOfferId, externalOfferId)
+      )
+    )
+    .limit(1);
+
+  return offer ?? null;
+}
+
+/**
+ * Get the negotiation round for a new offer from a buyer on a listing.
+ *
+ * Round 1 is the buyer's first offer; every offer we countered before
+ * moves the next one up a round. Without a buyer username the offer
+ * can't be linked to a prior negotiation and starts at round 1.
+ */
+export async function getNegotiationRound(
+  channelListingId: string,
+  buyerUsername?: string
+): Promise<number> {
+  if (!buyerUsername) {
+    return 1;
+  }
+
+  const [result] = await db
+    .select({ count: count() })
+    .from(offers)
+    .where(
+      and(
+        eq(offers.channelListingId, channelListingId),
+        eq(offers.buyerUsername, buyerUsername),
+        eq(offers.status, "countered")
+      )
+    );
+
+  return Number(result?.count ?? 0) + 1;
+}
+
+/**
+ * Get all offers on a listing, oldest first
+ */
+export async function getListingOfferHistory(
+  userId: string,
+  channelListingId: string
+): Promise<OfferRecord[]> {
+  return db
+    .select()
+    .from(offers)
+    .where(
+      and(
+        eq(offers.userId, userId),
+        eq(offers.channelListingId, channelListingId)
+      )
+    )
+    .orderBy(asc(offers.createdAt));
+}
+
+// ============ MUTATIONS ============
+
+/**
+ * Record an incoming offer.
+ *
+ * Idempotent on (channel, externalOfferId): if the offer was already
+ * recorded, the existing row is returned with `isNew: false`.
+ */
+export async function recordOffer(
+  input: RecordOfferInput
+): Promise<{ offer: OfferRecord; isNew: boolean }> {
+  const existing = await findOfferByExternalId(input.channel, input.externalOfferId);
+  if (existing) {
+    return { offer: existing, isNew: false };
+  }
+
+  const round = await getNegotiationRound(input.channelListingId, input.buyerUsername);
+  const now = new Date();
+
+  const offer: OfferRecord = {
+    id: crypto.randomUUID(),
+    userId: input.userId,
+    itemId: input.itemId,
+    channelListingId: input.channelListingId,
+    channel: input.channel,
+    externalOfferId: input.externalOfferId,
+    buyerUsername: input.buyerUsername ?? null,
+    amount: input.amount,
+    askingPrice: input.askingPrice,
+    buyerMessage: input.buyerMessage ?? null,
+    round,
+    counterAmount: null,
+    status: "pending",
+    autopilotActionId: null,
+    expiresAt: input.expiresAt ?? null,
+    respondedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.insert(offers).values(offer);
+
+  return { offer, isNew: true };
+}
+
+/**
+ * Link an offer to the autopilot action created for it
+ */
+export async function linkOfferAction(
+  offerId: string,
+  autopilotActionId: string
+): Promise<void> {
+  await db
+    .update(offers)
+    .set({ autopilotActionId, updatedAt: new Date() })
+    .where(eq(offers.id, offerId));
+}
+
+/**
+ * Record the final outcome of an offer
+ */
+export async function resolveOffer(
+  offerId: string,
+  input: ResolveOfferInput
+): Promise<void> {
+  const now = new Date();
+
+  await db
+    .update(offers)
+    .set({
+      status: input.status,
+      ...(input.counterAmount !== undefined && { counterAmount: input.counterAmount }),
+      ...(input.autopilotActionId !== undefined && {
+        autopilotActionId: input.autopilotActionId,
+      }),
+      respondedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(offers.id, offerId));
+}
+
+/**
+ * Mark a pending offer expired after the marketplace reports it expired.
+ * Offers that were already resolved keep their outcome.
+ */
+export async function expireOffer(
+  channel: OfferChannel,
+  externalOfferId: string,
+  now: Date = new Date()
+): Promise<void> {
+  await db
+    .update(offers)
+    .set({ status: "expired", updatedAt: now })
+    .where(
+      and(
+        eq(offers.channel, channel),
+        eq(offers.externalOfferId, externalOfferId),
+        eq(offers.status, "pending")
+      )
+    );
+}
+
+/**
+ * Mark a user's pending offers expired once their expiry has passed
+ *
+ * @returns The number of offers expired
+ */
+export async function expireLapsedOffers(
+  userId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const lapsed = await db
+    .select({ id: offers.id })
+    .from(offers)
+    .where(
+      and(
+        eq(offers.userId, userId),
+        eq(offers.status, "pending"),
+        isNotNull(offers.expiresAt),
+        lte(offers.expiresAt, now)
+      )
+    );
+
+  if (lapsed.length === 0) {
+    return 0;
+  }
+
+  await db
+    .update(offers)
+    .set({ status: "expired", updatedAt: now })
+    .where(
+      and(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        inArray(offers.id, lapsed.map((offer: any) => offer.id)),
+        eq(offers.status, "pending")
+      )
+    );
+
+  return lapsed.length;
+}
+
+/**
+ * Map an offer autopilot action type to the offer outcome it produces
+ */
+export function outcomeForActionType(
+  actionType: string
+): Exclude<OfferStatus, "pending" | "expired"> | null {
+  switch (actionType) {
+    case "OFFER_ACCEPT":
+      return "accepted";
+    case "OFFER_DECLINE":
+      return "declined";
+    case "OFFER_COUNTER":
+      return "countered";
+    default:
+      return null;
+  }
+}
+
+const offersService = {
+  findOfferByExternalId,
+  getNegotiationRound,
+  getListingOfferHistory,
+  recordOffer,
+  linkOfferAction,
+  resolveOffer,
+  expireOffer,
+  expireLapsedOffers,
+  outcomeForActionType,
+};
+
+export default offersService;
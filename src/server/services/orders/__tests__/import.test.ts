@@ -0,0 +1,253 @@
+/**
+ * Sales Report Import Tests
+ *
+ * CSV parsing for Poshmark and Depop reports, and matching against an
+ * in-memory SQLite database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { sqlite } = vi.hoisted(() => ({
+  sqlite: { exec: (_sql: string) => {} },
+}));
+
+vi.mock("@/server/db/client", async () => {
+  const { default: Database } = await import("better-sqlite3");
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const schema = await import("@/server/db/schema");
+
+  const database = new Database(":memory:");
+  database.exec(`
+    CREATE TABLE inventory_items (
+      id text PRIMARY KEY NOT NULL,
+      user_id text NOT NULL,
+      sku text NOT NULL,
+      title text NOT NULL,
+      cost_basis real,
+      status text DEFAULT 'draft' NOT NULL,
+      quantity integer DEFAULT 1 NOT NULL
+    );
+    CREATE TABLE channel_listings (
+      id text PRIMARY KEY NOT NULL,
+      item_id text NOT NULL,
+      channel text NOT NULL,
+      external_url text
+    );
+    CREATE TABLE orders (
+      id text PRIMARY KEY NOT NULL,
+      user_id text NOT NULL,
+      channel text NOT NULL,
+      external_order_id text
+    );
+  `);
+  sqlite.exec = (sql: string) => database.exec(sql);
+
+  return { db: drizzle(database, { schema }) };
+});
+
+// Import after mocking
+import {
+  parseCsv,
+  parseSalesReport,
+  titleSimilarity,
+  normalizeListingUrl,
+  matchSalesToInventory,
+  type ImportedSale,
+} from "../import";
+
+describe("Sales Report Import", () => {
+  // ============ PARSING ============
+
+  describe("parseCsv", () => {
+    it("should handle quoted fields, escaped quotes and CRLF", () => {
+      const rows = parseCsv('\uFEFFa,b\r\n"x, y","say ""hi"""\r\n\r\n');
+
+      expect(rows).toEqual([
+        ["a", "b"],
+        ["x, y", 'say "hi"'],
+      ]);
+    });
+
+    it("should keep newlines inside quoted fields", () => {
+      const rows = parseCsv('title\n"line one\nline two"');
+
+      expect(rows[1]).toEqual(["line one\nline two"]);
+    });
+  });
+
+  describe("parseSalesReport", () => {
+    it("should parse a Poshmark report and derive fees from net earnings", () => {
+      const csv = [
+        "Order Date,Listing Title,Order Price,Net Earnings,Buyer Username,Order Id,Order Status",
+        '03/01/2026,Nike Air Max 90 White,"$1,050.00",$840.00,buyer1,PM-1,Shipped',
+      ].join("\n");
+
+      const { sales, errors } = parseSalesReport("poshmark", csv);
+
+      expect(errors).toEqual([]);
+      expect(sales[0]).toMatchObject({
+        rowNumber: 1,
+        externalOrderId: "PM-1",
+        title: "Nike Air Max 90 White",
+        salePrice: 1050,
+        platformFees: 210,
+        buyerUsername: "buyer1",
+        status: "shipped",
+        quantity: 1,
+      });
+    });
+
+    it("should sum the Depop fee columns and build a stable order ID", () => {
+      const csv = [
+        "Date of sale,Item description,Item price,Depop fee,Depop Payments fee,Buyer shipping cost,Buyer",
+        '2026-03-02,"Vintage band tee\nSize L",25.00,2.50,1.05,4.99,buyer2',
+      ].join("\n");
+
+      const first = parseSalesReport("depop", csv);
+      const second = parseSalesReport("depop", csv);
+
+      expect(first.sales[0]).toMatchObject({
+        title: "Vintage band tee",
+        salePrice: 25,
+        platformFees: 3.55,
+        shippingPaid: 4.99,
+      });
+      expect(first.sales[0].externalOrderId).toMatch(/^depop-[0-9a-f]{16}$/);
+      expect(second.sales[0].externalOrderId).toBe(first.sales[0].externalOrderId);
+    });
+
+    it("should report invalid and cancelled rows", () => {
+      const csv = [
+        "Order Date,Listing Title,Order Price,Order Status",
+        "not a date,Jacket,20,Sold",
+        "03/01/2026,Jacket,,Sold",
+        "03/01/2026,Jacket,20,Cancelled",
+      ].join("\n");
+
+      const { sales, errors } = parseSalesReport("poshmark", csv);
+
+      expect(sales).toEqual([]);
+      expect(errors.map((e) => e.rowNumber)).toEqual([1, 2, 3]);
+      expect(errors[2].message).toBe("Cancelled order skipped");
+    });
+
+    it("should reject reports missing required columns", () => {
+      const { sales, errors } = parseSalesReport("depop", "Buyer,Item price\nbuyer,10");
+
+      expect(sales).toEqual([]);
+      expect(errors[0].message).toContain("date, title");
+    });
+  });
+
+  describe("titleSimilarity", () => {
+    it("should score identical titles as 1 and unrelated titles as 0", () => {
+      expect(titleSimilarity("Nike Air Max 90", "nike air max 90")).toBe(1);
+      expect(titleSimilarity("Nike Air Max 90", "Levi's 501 Jeans")).toBe(0);
+    });
+
+    it("should score partial overlap between 0 and 1", () => {
+      const score = titleSimilarity("Nike Air Max 90 White", "Nike Air Max 90 Black Size 10");
+      expect(score).toBeGreaterThan(0.6);
+      expect(score).toBeLessThan(1);
+    });
+  });
+
+  describe("normalizeListingUrl", () => {
+    it("should ignore protocol, www, query and trailing slash", () => {
+      expect(normalizeListingUrl("https://www.depop.com/products/abc/?ref=share")).toBe(
+        normalizeListingUrl("http://depop.com/products/abc")
+      );
+    });
+  });
+
+  // ============ MATCHING ============
+
+  describe("matchSalesToInventory", () => {
+    const sale = (overrides: Partial<ImportedSale>): ImportedSale => ({
+      rowNumber: 1,
+      externalOrderId: "PM-1",
+      orderedAt: new Date("2026-03-01"),
+      title: "Unrelated",
+      sku: null,
+      listingUrl: null,
+      quantity: 1,
+      salePrice: 20,
+      shippingPaid: null,
+      platformFees: 4,
+      buyerUsername: null,
+      status: "paid",
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      sqlite.exec(`
+        DELETE FROM inventory_items;
+        DELETE FROM channel_listings;
+        DELETE FROM orders;
+        INSERT INTO inventory_items (id, user_id, sku, title, cost_basis, status, quantity) VALUES
+          ('item-1', 'user-1', 'SKU-1', 'Nike Air Max 90 White Size 10', 30, 'active', 1),
+          ('item-2', 'user-1', 'SKU-2', 'Vintage Band Tee Large', 5, 'active', 1),
+          ('item-3', 'user-1', 'SKU-3', 'Sold Jacket', 10, 'sold', 0),
+          ('item-4', 'user-2', 'SKU-4', 'Nike Air Max 90 White Size 10', 30, 'active', 1);
+        INSERT INTO channel_listings (id, item_id, channel, external_url) VALUES
+          ('listing-2', 'item-2', 'depop', 'https://www.depop.com/products/band-tee/');
+      `);
+    });
+
+    it("should match by SKU first", async () => {
+      const [row] = await matchSalesToInventory("user-1", "poshmark", [
+        sale({ sku: "sku-2", title: "Nike Air Max 90 White Size 10" }),
+      ]);
+
+      expect(row.match).toMatchObject({ itemId: "item-2", matchedBy: "sku", confidence: 1 });
+    });
+
+    it("should match by channel listing URL", async () => {
+      const [row] = await matchSalesToInventory("user-1", "depop", [
+        sale({ listingUrl: "https://depop.com/products/band-tee?utm=1" }),
+      ]);
+
+      expect(row.match).toMatchObject({ itemId: "item-2", matchedBy: "url" });
+    });
+
+    it("should fall back to the closest title among the user's unsold items", async () => {
+      const [row] = await matchSalesToInventory("user-1", "poshmark", [
+        sale({ title: "Nike Air Max 90 White" }),
+      ]);
+
+      expect(row.match).toMatchObject({ itemId: "item-1", matchedBy: "title", costBasis: 30 });
+      expect(row.match!.confidence).toBeGreaterThanOrEqual(0.6);
+    });
+
+    it("should not match sold items or weak titles", async () => {
+      const rows = await matchSalesToInventory("user-1", "poshmark", [
+        sale({ sku: "SKU-3", title: "Sold Jacket" }),
+        sale({ rowNumber: 2, externalOrderId: "PM-2", title: "Nike Hoodie" }),
+      ]);
+
+      expect(rows.map((r) => r.match)).toEqual([null, null]);
+    });
+
+    it("should not give the last unit to two rows", async () => {
+      const rows = await matchSalesToInventory("user-1", "poshmark", [
+        sale({ sku: "SKU-1" }),
+        sale({ rowNumber: 2, externalOrderId: "PM-2", sku: "SKU-1" }),
+      ]);
+
+      expect(rows[0].match?.itemId).toBe("item-1");
+      expect(rows[1].match).toBeNull();
+    });
+
+    it("should flag sales that were already imported", async () => {
+      sqlite.exec(`
+        INSERT INTO orders (id, user_id, channel, external_order_id)
+        VALUES ('order-1', 'user-1', 'poshmark', 'PM-1');
+      `);
+
+      const [row] = await matchSalesToInventory("user-1", "poshmark", [sale({ sku: "SKU-1" })]);
+
+      expect(row.duplicate).toBe(true);
+      expect(row.match).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Orders Service Tests
+ *
+ * Line item splitting, and quantity decrements against an in-memory
+ * SQLite database so the clamp at zero is exercised for real.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { sqlite } = vi.hoisted(() => ({
+  sqlite: { exec: (_sql: string) => {} },
+}));
+
+vi.mock("@/server/db/client", async () => {
+  const { default: Database } = await import("better-sqlite3");
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const schema = await import("@/server/db/schema");
+
+  const database = new Database(":memory:");
+  database.exec(`
+    CREATE TABLE inventory_items (
+      id text PRIMARY KEY NOT NULL,
+      quantity integer DEFAULT 1 NOT NULL,
+      updated_at integer
+    );
+    CREATE TABLE orders (
+      id text PRIMARY KEY NOT NULL,
+      stock_decremented_at integer
+    );
+  `);
+  sqlite.exec = (sql: string) => database.exec(sql);
+
+  return { db: drizzle(database, { schema }) };
+});
+
+// Import after mocking
+import {
+  splitOrderLineItems,
+  decrementItemQuantity,
+  claimStockDecrement,
+  releaseStockDecrement,
+} from "../index";
+
+describe("Orders Service", () => {
+  // ============ LINE ITEMS ============
+
+  describe("splitOrderLineItems", () => {
+    const line = (price: number, quantity = 1) => ({
+      sku: `SKU-${price}`,
+      title: `Item ${price}`,
+      quantity,
+      price,
+    });
+
+    it("should keep the order totals for a single line item", () => {
+      const [sale] = splitOrderLineItems({
+        salePrice: 45.99,
+        shippingPaid: 5.99,
+        platformFees: 6,
+        lineItems: [line(40, 3)],
+      });
+
+      expect(sale).toMatchObject({
+        quantity: 3,
+        salePrice: 45.99,
+        shippingPaid: 5.99,
+        platformFees: 6,
+      });
+    });
+
+    it("should allocate totals by each line's share of the line prices", () => {
+      const sales = splitOrderLineItems({
+        salePrice: 110,
+        platformFees: 11,
+        lineItems: [line(75, 3), line(25)],
+      });
+
+      expect(sales.map((s) => s.salePrice)).toEqual([82.5, 27.5]);
+      expect(sales.map((s) => s.platformFees)).toEqual([8.25, 2.75]);
+      expect(sales.map((s) => s.shippingPaid)).toEqual([null, null]);
+    });
+
+    it("should split evenly when line prices are missing", () => {
+      const sales = splitOrderLineItems({
+        salePrice: 30,
+        lineItems: [line(0), line(0), line(0)],
+      });
+
+      expect(sales.map((s) => s.salePrice)).toEqual([10, 10, 10]);
+    });
+
+    it("should treat a missing quantity as one unit", () => {
+      const [sale] = splitOrderLineItems({
+        salePrice: 10,
+        lineItems: [line(10, 0)],
+      });
+
+      expect(sale.quantity).toBe(1);
+    });
+  });
+
+  // ============ INVENTORY ============
+
+  describe("decrementItemQuantity", () => {
+    beforeEach(() => {
+      sqlite.exec(`
+        DELETE FROM inventory_items;
+        INSERT INTO inventory_items (id, quantity) VALUES ('item-6', 6), ('item-1', 1);
+      `);
+    });
+
+    it("should decrement by the units sold and keep the item in stock", async () => {
+      const result = await decrementItemQuantity("item-6", 2);
+
+      expect(result).toEqual({ previousQuantity: 6, remainingQuantity: 4, soldOut: false });
+    });
+
+    it("should report sold out when the last unit sells", async () => {
+      const result = await decrementItemQuantity("item-1", 1);
+
+      expect(result).toEqual({ previousQuantity: 1, remainingQuantity: 0, soldOut: true });
+    });
+
+    it("should never go below zero", async () => {
+      await decrementItemQuantity("item-1", 1);
+      const result = await decrementItemQuantity("item-1", 1);
+
+      expect(result.remainingQuantity).toBe(0);
+      expect(result.soldOut).toBe(true);
+    });
+
+    it("should throw for unknown items", async () => {
+      await expect(decrementItemQuantity("missing", 1)).rejects.toThrow(
+        "Item missing not found"
+      );
+    });
+  });
+
+  describe("claimStockDecrement", () => {
+    beforeEach(() => {
+      sqlite.exec(`
+        DELETE FROM orders;
+        INSERT INTO orders (id) VALUES ('order-1');
+      `);
+    });
+
+    it("should let only the first caller apply an order line", async () => {
+      expect(await claimStockDecrement("order-1")).toBe(true);
+      expect(await claimStockDecrement("order-1")).toBe(false);
+    });
+
+    it("should allow a retry after the claim is released", async () => {
+      await claimStockDecrement("order-1");
+      await releaseStockDecrement("order-1");
+
+      expect(await claimStockDecrement("order-1")).toBe(true);
+    });
+
+    it("should apply sales with no order row", async () => {
+      expect(await claimStockDecrement("missing")).toBe(true);
+    });
+  });
+});
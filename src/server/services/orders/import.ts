@@ -0,0 +1,502 @@
+/**
+ * Sales Report Import
+ *
+ * Parses the sales report CSVs that Poshmark and Depop let sellers download,
+ * and matches each sale to inventory by SKU, listing URL, or title. The
+ * orders router uses the preview to let the seller confirm matches before
+ * any orders are created.
+ */
+
+import { createHash } from "crypto";
+import { db } from "@/server/db/client";
+import { inventoryItems, channelListings, orders } from "@/server/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+
+// ============ TYPES ============
+
+export type ImportChannel = "poshmark" | "depop";
+
+export interface ImportedSale {
+  /** 1-based row number in the CSV, excluding the header */
+  rowNumber: number;
+  externalOrderId: string;
+  orderedAt: Date;
+  title: string;
+  sku: string | null;
+  listingUrl: string | null;
+  quantity: number;
+  salePrice: number;
+  shippingPaid: number | null;
+  platformFees: number | null;
+  buyerUsername: string | null;
+  status: "paid" | "shipped" | "delivered";
+}
+
+export interface ImportRowError {
+  rowNumber: number;
+  message: string;
+}
+
+export interface ParsedSalesReport {
+  sales: ImportedSale[];
+  errors: ImportRowError[];
+}
+
+export type SaleMatchMethod = "sku" | "url" | "title";
+
+export interface SaleMatch {
+  itemId: string;
+  title: string;
+  sku: string;
+  costBasis: number | null;
+  matchedBy: SaleMatchMethod;
+  /** 1 for SKU and URL matches, title similarity otherwise */
+  confidence: number;
+}
+
+export interface SaleImportPreviewRow extends ImportedSale {
+  match: SaleMatch | null;
+  /** An order with this external ID was already recorded */
+  duplicate: boolean;
+}
+
+// ============ CONSTANTS ============
+
+/** Minimum title similarity for a title-only match */
+export const TITLE_MATCH_THRESHOLD = 0.6;
+
+interface ReportColumns {
+  orderId: string[];
+  date: string[];
+  title: string[];
+  price: string[];
+  /** Every matching fee column is summed */
+  fees: string[];
+  netEarnings: string[];
+  shipping: string[];
+  buyer: string[];
+  sku: string[];
+  url: string[];
+  quantity: string[];
+  status: string[];
+}
+
+/**
+ * Header aliases per channel (compared after normalization)
+ */
+const REPORT_COLUMNS: Record<ImportChannel, ReportColumns> = {
+  poshmark: {
+    orderId: ["order id", "order number"],
+    date: ["order date", "sold date"],
+    title: ["listing title", "title"],
+    price: ["order price", "sale price"],
+    fees: ["posh fee", "poshmark fee"],
+    netEarnings: ["net earnings"],
+    shipping: ["shipping paid", "buyer shipping"],
+    buyer: ["buyer username", "buyer"],
+    sku: ["sku", "sku number", "custom sku"],
+    url: ["listing url", "listing link", "url"],
+    quantity: ["quantity", "qty", "order quantity"],
+    status: ["order status", "status"],
+  },
+  depop: {
+    orderId: ["transaction id", "order id", "receipt id"],
+    date: ["date of sale", "sold date", "date"],
+    title: ["item description", "description", "title"],
+    price: ["item price", "price"],
+    fees: ["depop fee", "depop payments fee", "payment fee", "boosting fee"],
+    netEarnings: ["net earnings"],
+    shipping: ["buyer shipping cost", "shipping"],
+    buyer: ["buyer", "buyer username"],
+    sku: ["sku"],
+    url: ["listing url", "listing link", "link", "url"],
+    quantity: ["quantity", "qty"],
+    status: ["status", "order status"],
+  },
+};
+
+// ============ CSV PARSING ============
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180 quoting)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function parseMoney(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes("-");
+  const amount = parseFloat(trimmed.replace(/[^0-9.]/g, ""));
+  if (isNaN(amount)) return null;
+
+  return negative ? -amount : amount;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function mapReportStatus(value: string | undefined): ImportedSale["status"] | "cancelled" {
+  const status = (value ?? "").toLowerCase();
+  if (status.includes("cancel") || status.includes("refund")) return "cancelled";
+  if (status.includes("deliver") || status.includes("complete")) return "delivered";
+  if (status.includes("ship")) return "shipped";
+  return "paid";
+}
+
+/**
+ * Build a stable order ID for reports without one, so re-imports dedupe
+ */
+function syntheticOrderId(channel: ImportChannel, parts: string[]): string {
+  const hash = createHash("sha1").update(parts.join("|")).digest("hex").slice(0, 16);
+  return `${channel}-${hash}`;
+}
+
+/**
+ * Parse a Poshmark or Depop sales report into normalized sales
+ */
+export function parseSalesReport(channel: ImportChannel, csv: string): ParsedSalesReport {
+  const [headerRow, ...dataRows] = parseCsv(csv);
+  if (!headerRow) {
+    return { sales: [], errors: [{ rowNumber: 0, message: "The file is empty" }] };
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const columns = REPORT_COLUMNS[channel];
+
+  const indexOf = (aliases: string[]): number => {
+    for (const alias of aliases) {
+      const index = headers.indexOf(alias);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+  const feeIndexes = columns.fees
+    .map((alias) => headers.indexOf(alias))
+    .filter((index) => index !== -1);
+
+  const index = {
+    orderId: indexOf(columns.orderId),
+    date: indexOf(columns.date),
+    title: indexOf(columns.title),
+    price: indexOf(columns.price),
+    netEarnings: indexOf(columns.netEarnings),
+    shipping: indexOf(columns.shipping),
+    buyer: indexOf(columns.buyer),
+    sku: indexOf(columns.sku),
+    url: indexOf(columns.url),
+    quantity: indexOf(columns.quantity),
+    status: indexOf(columns.status),
+  };
+
+  const missing = (["date", "title", "price"] as const).filter((key) => index[key] === -1);
+  if (missing.length > 0) {
+    return {
+      sales: [],
+      errors: [
+        {
+          rowNumber: 0,
+          message: `Missing required columns for a ${channel} sales report: ${missing.join(", ")}`,
+        },
+      ],
+    };
+  }
+
+  const sales: ImportedSale[] = [];
+  const errors: ImportRowError[] = [];
+
+  dataRows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    const cell = (column: number): string | undefined =>
+      column === -1 ? undefined : row[column]?.trim() || undefined;
+
+    const title = cell(index.title)?.split(/\r?\n/)[0] ?? "";
+    const orderedAt = new Date(cell(index.date) ?? "");
+    const salePrice = parseMoney(cell(index.price));
+    const status = mapReportStatus(cell(index.status));
+
+    if (!title) {
+      errors.push({ rowNumber, message: "Missing listing title" });
+      return;
+    }
+    if (isNaN(orderedAt.getTime())) {
+      errors.push({ rowNumber, message: `Invalid sale date "${cell(index.date) ?? ""}"` });
+      return;
+    }
+    if (salePrice === null || salePrice <= 0) {
+      errors.push({ rowNumber, message: "Missing or invalid sale price" });
+      return;
+    }
+    if (status === "cancelled") {
+      errors.push({ rowNumber, message: "Cancelled order skipped" });
+      return;
+    }
+
+    // Fees are the listed fee columns, or the gap between price and net earnings
+    let platformFees: number | null = null;
+    if (feeIndexes.length > 0) {
+      platformFees = feeIndexes.reduce(
+        (sum, column) => sum + Math.abs(parseMoney(cell(column)) ?? 0),
+        0
+      );
+    } else {
+      const netEarnings = parseMoney(cell(index.netEarnings));
+      if (netEarnings !== null) {
+        platformFees = Math.max(0, salePrice - netEarnings);
+      }
+    }
+
+    const quantity = parseInt(cell(index.quantity) ?? "1", 10);
+    const buyerUsername = cell(index.buyer) ?? null;
+
+    sales.push({
+      rowNumber,
+      externalOrderId:
+        cell(index.orderId) ??
+        syntheticOrderId(channel, [
+          orderedAt.toISOString(),
+          title,
+          salePrice.toFixed(2),
+          buyerUsername ?? "",
+        ]),
+      orderedAt,
+      title,
+      sku: cell(index.sku) ?? null,
+      listingUrl: cell(index.url) ?? null,
+      quantity: isNaN(quantity) || quantity < 1 ? 1 : quantity,
+      salePrice: roundCurrency(salePrice),
+      shippingPaid: parseMoney(cell(index.shipping)),
+      platformFees: platformFees !== null ? roundCurrency(platformFees) : null,
+      buyerUsername,
+      status,
+    });
+  });
+
+  return { sales, errors };
+}
+
+// ============ MATCHING ============
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 1)
+  );
+}
+
+/**
+ * Dice similarity between the word sets of two titles (0-1)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = titleTokens(a);
+  const tokensB = titleTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const shared = Array.from(tokensA).filter((token) => tokensB.has(token)).length;
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Normalize a listing URL for comparison (no query, hash, or trailing slash)
+ */
+export function normalizeListingUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\/(www\.)?/, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Match parsed sales to the user's unsold inventory
+ *
+ * Tries SKU, then the channel listing URL, then the closest title above
+ * TITLE_MATCH_THRESHOLD. Units are reserved as rows are matched, so two
+ * rows in one report do not both claim the last unit of an item.
+ */
+export async function matchSalesToInventory(
+  userId: string,
+  channel: ImportChannel,
+  sales: ImportedSale[]
+): Promise<SaleImportPreviewRow[]> {
+  const items = await db
+    .select({
+      id: inventoryItems.id,
+      title: inventoryItems.title,
+      sku: inventoryItems.sku,
+      costBasis: inventoryItems.costBasis,
+      quantity: inventoryItems.quantity,
+    })
+    .from(inventoryItems)
+    .where(
+      and(
+        eq(inventoryItems.userId, userId),
+        inArray(inventoryItems.status, ["draft", "active"])
+      )
+    );
+
+  const listings = await db
+    .select({ itemId: channelListings.itemId, externalUrl: channelListings.externalUrl })
+    .from(channelListings)
+    .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
+    .where(and(eq(inventoryItems.userId, userId), eq(channelListings.channel, channel)));
+
+  const externalOrderIds = sales.map((sale) => sale.externalOrderId);
+  const existingOrders =
+    externalOrderIds.length > 0
+      ? await db
+          .select({ externalOrderId: orders.externalOrderId })
+          .from(orders)
+          .where(
+            and(
+              eq(orders.userId, userId),
+              eq(orders.channel, channel),
+              inArray(orders.externalOrderId, externalOrderIds)
+            )
+          )
+      : [];
+  const recorded = new Set<string>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    existingOrders.map((order: any) => order.externalOrderId)
+  );
+
+  type Candidate = { id: string; title: string; sku: string; costBasis: number | null; quantity: number };
+  const remaining = new Map<string, number>(
+    items.map((item: Candidate) => [item.id, item.quantity])
+  );
+  const itemsBySku = new Map<string, Candidate>(
+    items.map((item: Candidate) => [item.sku.toLowerCase(), item])
+  );
+  const itemsById = new Map<string, Candidate>(items.map((item: Candidate) => [item.id, item]));
+  const itemIdByUrl = new Map<string, string>();
+  for (const listing of listings) {
+    if (listing.externalUrl) {
+      itemIdByUrl.set(normalizeListingUrl(listing.externalUrl), listing.itemId);
+    }
+  }
+
+  const hasUnits = (item: Candidate | undefined, quantity: number): item is Candidate =>
+    item !== undefined && (remaining.get(item.id) ?? 0) >= quantity;
+
+  return sales.map((sale) => {
+    const duplicate = recorded.has(sale.externalOrderId);
+    let match: SaleMatch | null = null;
+
+    if (!duplicate) {
+      const bySku = sale.sku ? itemsBySku.get(sale.sku.toLowerCase()) : undefined;
+      const byUrl = sale.listingUrl
+        ? itemsById.get(itemIdByUrl.get(normalizeListingUrl(sale.listingUrl)) ?? "")
+        : undefined;
+
+      if (hasUnits(bySku, sale.quantity)) {
+        match = { ...toMatch(bySku), matchedBy: "sku", confidence: 1 };
+      } else if (hasUnits(byUrl, sale.quantity)) {
+        match = { ...toMatch(byUrl), matchedBy: "url", confidence: 1 };
+      } else {
+        let best: { item: Candidate; score: number } | null = null;
+        for (const item of items as Candidate[]) {
+          if (!hasUnits(item, sale.quantity)) continue;
+          const score = titleSimilarity(sale.title, item.title);
+          if (score >= TITLE_MATCH_THRESHOLD && (!best || score > best.score)) {
+            best = { item, score };
+          }
+        }
+        if (best) {
+          match = {
+            ...toMatch(best.item),
+            matchedBy: "title",
+            confidence: Math.round(best.score * 100) / 100,
+          };
+        }
+      }
+
+      if (match) {
+        remaining.set(match.itemId, (remaining.get(match.itemId) ?? 0) - sale.quantity);
+      }
+    }
+
+    return { ...sale, match, duplicate };
+  });
+}
+
+function toMatch(item: {
+  id: string;
+  title: string;
+  sku: string;
+  costBasis: number | null;
+}): Pick<SaleMatch, "itemId" | "title" | "sku" | "costBasis"> {
+  return { itemId: item.id, title: item.title, sku: item.sku, costBasis: item.costBasis };
+}
+
+/**
+ * Parse a sales report and match it to inventory for the import preview
+ */
+export async function previewSalesImport(
+  userId: string,
+  channel: ImportChannel,
+  csv: string
+): Promise<{ rows: SaleImportPreviewRow[]; errors: ImportRowError[] }> {
+  const { sales, errors } = parseSalesReport(channel, csv);
+  const rows = await matchSalesToInventory(userId, channel, sales);
+  return { rows, errors };
+}
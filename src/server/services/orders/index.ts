@@ -0,0 +1,245 @@
+/**
+ * Orders Service
+ *
+ * Quantity-aware sale handling shared by manual sales, order sync and
+ * marketplace webhooks. Each order line item is recorded as its own order
+ * row, and inventory quantity is decremented by the units on that line.
+ */
+
+import { db } from "@/server/db/client";
+import { channelListings, inventoryItems, orders } from "@/server/db/schema";
+import { eq, and, ne, isNull, sql } from "drizzle-orm";
+import { getAdapter, canAutomateChannel } from "@/server/services/channels";
+import type { ChannelId, ChannelOrder } from "@/server/services/channels/types";
+import { previewSalesImport } from "./import";
+
+// ============ TYPES ============
+
+export interface OrderLineSale {
+  sku: string;
+  title: string;
+  quantity: number;
+  externalListingId?: string;
+  /** Share of the order total for this line */
+  salePrice: number;
+  shippingPaid: number | null;
+  platformFees: number | null;
+}
+
+export interface QuantityDecrement {
+  previousQuantity: number;
+  remainingQuantity: number;
+  soldOut: boolean;
+}
+
+export interface QuantityUpdateResult {
+  channel: ChannelId;
+  listingId: string;
+  externalId: string | null;
+  success: boolean;
+  error?: string;
+}
+
+// ============ LINE ITEMS ============
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split an order into one sale per line item
+ *
+ * A single-line order keeps the order totals. For multi-line orders, the
+ * total, shipping and fees are allocated by each line's share of the
+ * line item prices.
+ */
+export function splitOrderLineItems(
+  order: Pick<ChannelOrder, "salePrice" | "shippingPaid" | "platformFees" | "lineItems">
+): OrderLineSale[] {
+  const { lineItems } = order;
+  const lineTotal = lineItems.reduce((sum, line) => sum + line.price, 0);
+
+  return lineItems.map((line) => {
+    const share =
+      lineItems.length === 1
+        ? 1
+        : lineTotal > 0
+          ? line.price / lineTotal
+          : 1 / lineItems.length;
+
+    return {
+      sku: line.sku,
+      title: line.title,
+      quantity: Math.max(1, line.quantity || 1),
+      externalListingId: line.externalListingId,
+      salePrice: roundCurrency(order.salePrice * share),
+      shippingPaid:
+        order.shippingPaid !== undefined ? roundCurrency(order.shippingPaid * share) : null,
+      platformFees:
+        order.platformFees !== undefined ? roundCurrency(order.platformFees * share) : null,
+    };
+  });
+}
+
+// ============ INVENTORY ============
+
+/**
+ * Decrement an item's available quantity by the units sold, never below zero
+ *
+ * The decrement is a single UPDATE so concurrent sales of the same item
+ * cannot both read the old quantity.
+ */
+export async function decrementItemQuantity(
+  itemId: string,
+  quantity: number
+): Promise<QuantityDecrement> {
+  const [before] = await db
+    .select({ quantity: inventoryItems.quantity })
+    .from(inventoryItems)
+    .where(eq(inventoryItems.id, itemId))
+    .limit(1);
+
+  if (!before) {
+    throw new Error(`Item ${itemId} not found`);
+  }
+
+  const [after] = await db
+    .update(inventoryItems)
+    .set({
+      quantity: sql`max(${inventoryItems.quantity} - ${quantity}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(inventoryItems.id, itemId))
+    .returning({ quantity: inventoryItems.quantity });
+
+  const remainingQuantity = after?.quantity ?? 0;
+
+  return {
+    previousQuantity: before.quantity,
+    remainingQuantity,
+    soldOut: remainingQuantity === 0,
+  };
+}
+
+/**
+ * Claim the inventory decrement for an order line
+ *
+ * Webhooks, order sync and manual sales can all report the same sale. The
+ * first caller to claim the line gets true and decrements stock; later
+ * callers get false. Sales with no order row are always applied.
+ */
+export async function claimStockDecrement(
+  orderId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const claimed = await db
+    .update(orders)
+    .set({ stockDecrementedAt: now })
+    .where(and(eq(orders.id, orderId), isNull(orders.stockDecrementedAt)))
+    .returning({ id: orders.id });
+  if (claimed.length > 0) {
+    return true;
+  }
+
+  const [existing] = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  return !existing;
+}
+
+/**
+ * Release a claim whose decrement did not go through, so a retry can apply it
+ */
+export async function releaseStockDecrement(orderId: string): Promise<void> {
+  await db.update(orders).set({ stockDecrementedAt: null }).where(eq(orders.id, orderId));
+}
+
+/**
+ * Push an item's available quantity to its active native listings
+ *
+ * After a sale, pass the channel that made it: that marketplace has
+ * already decremented its own listing.
+ */
+export async function pushItemQuantity(
+  userId: string,
+  itemId: string,
+  quantity: number,
+  exceptChannel?: ChannelId
+): Promise<QuantityUpdateResult[]> {
+  const conditions = [eq(channelListings.itemId, itemId), eq(channelListings.status, "active")];
+  if (exceptChannel) {
+    conditions.push(ne(channelListings.channel, exceptChannel));
+  }
+
+  const listings = await db
+    .select({
+      id: channelListings.id,
+      channel: channelListings.channel,
+      externalId: channelListings.externalId,
+    })
+    .from(channelListings)
+    .where(and(...conditions));
+
+  const results: QuantityUpdateResult[] = [];
+
+  for (const listing of listings) {
+    const channel = listing.channel as ChannelId;
+    if (!listing.externalId || !(await canAutomateChannel(userId, channel))) continue;
+
+    try {
+      const result = await getAdapter(channel).update(userId, listing.externalId, { quantity });
+      results.push({
+        channel,
+        listingId: listing.id,
+        externalId: listing.externalId,
+        success: result.success,
+        error: result.error,
+      });
+    } catch (error) {
+      results.push({
+        channel,
+        listingId: listing.id,
+        externalId: listing.externalId,
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return results;
+}
+
+// ============ EXPORTS ============
+
+export {
+  parseCsv,
+  parseSalesReport,
+  titleSimilarity,
+  normalizeListingUrl,
+  matchSalesToInventory,
+  previewSalesImport,
+  TITLE_MATCH_THRESHOLD,
+} from "./import";
+export type {
+  ImportChannel,
+  ImportedSale,
+  ImportRowError,
+  ParsedSalesReport,
+  SaleMatch,
+  SaleMatchMethod,
+  SaleImportPreviewRow,
+} from "./import";
+
+export const ordersService = {
+  splitOrderLineItems,
+  decrementItemQuantity,
+  claimStockDecrement,
+  releaseStockDecrement,
+  pushItemQuantity,
+  previewSalesImport,
+};
+
+export default ordersService;
@@ -0,0 +1,318 @@
+/**
+ * Promotions Service Tests
+ *
+ * Creates, cancels, and attributes markdown sales against the real schema
+ * with the eBay adapter mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockAdapter } = vi.hoisted(() => ({
+  mockAdapter: {
+    createMarkdownPromotion: vi.fn(),
+    updateMarkdownPromotion: vi.fn(),
+    deleteMarkdownPromotion: vi.fn(),
+  },
+}));
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+vi.mock("@/server/services/channels/ebay/adapter", () => ({
+  getEbayAdapter: () => mockAdapter,
+}));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import {
+  users,
+  inventoryItems,
+  channelListings,
+  orders,
+  promotions,
+  promotionItems,
+} from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  getPromotionStatus,
+  createPromotion,
+  cancelPromotion,
+  listPromotions,
+  getPromotionPerformance,
+} from "..";
+
+const USER = "user-1";
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date("2026-10-10T12:00:00.000Z");
+const startsAt = new Date(now.getTime() + DAY);
+const endsAt = new Date(now.getTime() + 8 * DAY);
+
+const saleInput = (itemIds: string[]) => ({
+  name: "Fall clearance",
+  discountPercent: 25,
+  itemIds,
+  startsAt,
+  endsAt,
+});
+
+async function seedItem(id: string, listing?: { externalId: string | null; price: number }) {
+  await db.insert(inventoryItems).values({
+    id,
+    userId: USER,
+    sku: `SKU-${id}`,
+    title: `Item ${id}`,
+    description: "Test item",
+    condition: "good",
+    askingPrice: listing?.price ?? 50,
+    status: listing ? "active" : "draft",
+    createdAt: now,
+    updatedAt: now,
+  });
+  if (listing) {
+    await db.insert(channelListings).values({
+      id: `listing-${id}`,
+      itemId: id,
+      channel: "ebay",
+      externalId: listing.externalId,
+      price: listing.price,
+      status: "active",
+      createdAt: now,
+    });
+  }
+}
+
+async function seedOrder(id: string, itemId: string, orderedAt: Date, salePrice: number) {
+  await db.insert(orders).values({
+    id,
+    userId: USER,
+    itemId,
+    channel: "ebay",
+    salePrice,
+    netProfit: salePrice / 2,
+    status: "paid",
+    orderedAt,
+    createdAt: orderedAt,
+    updatedAt: orderedAt,
+  });
+}
+
+describe("Promotions Service", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    sqlite.exec(`
+      DELETE FROM promotion_items;
+      DELETE FROM promotions;
+      DELETE FROM orders;
+      DELETE FROM channel_listings;
+      DELETE FROM inventory_items;
+      DELETE FROM users;
+    `);
+
+    await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+    await seedItem("item-1", { externalId: "111", price: 80 });
+    await seedItem("item-2", { externalId: "222", price: 40 });
+    await seedItem("item-3");
+
+    mockAdapter.createMarkdownPromotion.mockResolvedValue({ success: true, promotionId: "promo-1" });
+    mockAdapter.updateMarkdownPromotion.mockResolvedValue({ success: true });
+    mockAdapter.deleteMarkdownPromotion.mockResolvedValue({ success: true });
+  });
+
+  describe("getPromotionStatus", () => {
+    it("should follow the dates", () => {
+      const promotion = { status: "scheduled" as const, startsAt, endsAt };
+
+      expect(getPromotionStatus(promotion, now)).toBe("scheduled");
+      expect(getPromotionStatus(promotion, startsAt)).toBe("running");
+      expect(getPromotionStatus(promotion, endsAt)).toBe("ended");
+    });
+
+    it("should keep cancelled and error statuses", () => {
+      expect(getPromotionStatus({ status: "cancelled", startsAt, endsAt }, startsAt)).toBe("cancelled");
+      expect(getPromotionStatus({ status: "error", startsAt, endsAt }, endsAt)).toBe("error");
+    });
+  });
+
+  describe("createPromotion", () => {
+    it("should mark down listed items and skip the rest", async () => {
+      const result = await createPromotion(USER, saleInput(["item-1", "item-2", "item-3"]), now);
+
+      expect(result).toMatchObject({
+        success: true,
+        skipped: [{ itemId: "item-3", reason: "No active eBay listing" }],
+      });
+      expect(mockAdapter.createMarkdownPromotion).toHaveBeenCalledWith(USER, {
+        name: "Fall clearance",
+        discountPercent: 25,
+        listingIds: ["111", "222"],
+        startsAt,
+        endsAt,
+      });
+
+      const promotion = await db.query.promotions.findFirst({
+        where: eq(promotions.id, result.promotionId!),
+        with: { items: true },
+      });
+      expect(promotion).toMatchObject({ externalId: "promo-1", status: "scheduled" });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(promotion.items.map((entry: any) => entry.originalPrice).sort()).toEqual([40, 80]);
+    });
+
+    it("should skip listings that were never published", async () => {
+      await db
+        .update(channelListings)
+        .set({ externalId: null })
+        .where(eq(channelListings.id, "listing-item-2"));
+
+      const result = await createPromotion(USER, saleInput(["item-1", "item-2"]), now);
+
+      expect(result.skipped.map((entry) => entry.itemId)).toEqual(["item-2"]);
+    });
+
+    it("should not call eBay when nothing is listed", async () => {
+      const result = await createPromotion(USER, saleInput(["item-3"]), now);
+
+      expect(result.success).toBe(false);
+      expect(mockAdapter.createMarkdownPromotion).not.toHaveBeenCalled();
+      expect(await db.select().from(promotions)).toHaveLength(0);
+    });
+
+    it("should ignore another user's items", async () => {
+      const result = await createPromotion("user-2", saleInput(["item-1"]), now);
+
+      expect(result.success).toBe(false);
+      expect(mockAdapter.createMarkdownPromotion).not.toHaveBeenCalled();
+    });
+
+    it("should store a rejected sale with its error", async () => {
+      mockAdapter.createMarkdownPromotion.mockResolvedValue({
+        success: false,
+        error: "Discount too large",
+      });
+
+      const result = await createPromotion(USER, saleInput(["item-1"]), now);
+
+      expect(result).toMatchObject({ success: false, error: "Discount too large" });
+      const [promotion] = await db.select().from(promotions);
+      expect(promotion).toMatchObject({ status: "error", statusMessage: "Discount too large" });
+    });
+  });
+
+  describe("cancelPromotion", () => {
+    it("should delete a scheduled sale on eBay", async () => {
+      const { promotionId } = await createPromotion(USER, saleInput(["item-1"]), now);
+
+      const result = await cancelPromotion(USER, promotionId!, now);
+
+      expect(result.success).toBe(true);
+      expect(mockAdapter.deleteMarkdownPromotion).toHaveBeenCalledWith(USER, "promo-1");
+      const [promotion] = await db.select().from(promotions);
+      expect(promotion.status).toBe("cancelled");
+    });
+
+    it("should end a running sale early and keep it for attribution", async () => {
+      const { promotionId } = await createPromotion(USER, saleInput(["item-1", "item-2"]), now);
+      const during = new Date(startsAt.getTime() + DAY);
+
+      const result = await cancelPromotion(USER, promotionId!, during);
+
+      expect(result.success).toBe(true);
+      expect(mockAdapter.deleteMarkdownPromotion).not.toHaveBeenCalled();
+      const [, , update] = mockAdapter.updateMarkdownPromotion.mock.calls[0];
+      expect(update.listingIds.sort()).toEqual(["111", "222"]);
+      expect(update.endsAt.getTime()).toBe(during.getTime() + 60 * 1000);
+
+      const [promotion] = await db.select().from(promotions);
+      expect(promotion.status).toBe("ended");
+      expect(promotion.endsAt.getTime()).toBe(during.getTime() + 60 * 1000);
+    });
+
+    it("should leave the sale alone when eBay refuses", async () => {
+      const { promotionId } = await createPromotion(USER, saleInput(["item-1"]), now);
+      mockAdapter.deleteMarkdownPromotion.mockResolvedValue({ success: false, error: "eBay unavailable" });
+
+      const result = await cancelPromotion(USER, promotionId!, now);
+
+      expect(result).toEqual({ success: false, error: "eBay unavailable" });
+      const [promotion] = await db.select().from(promotions);
+      expect(promotion.status).toBe("scheduled");
+    });
+
+    it("should refuse finished and unknown sales", async () => {
+      const { promotionId } = await createPromotion(USER, saleInput(["item-1"]), now);
+
+      expect(await cancelPromotion(USER, promotionId!, endsAt)).toEqual({
+        success: false,
+        error: "Promotion is already ended",
+      });
+      expect(await cancelPromotion("user-2", promotionId!, now)).toEqual({
+        success: false,
+        error: "Promotion not found",
+      });
+    });
+  });
+
+  describe("listPromotions", () => {
+    it("should bring statuses up to date", async () => {
+      await createPromotion(USER, saleInput(["item-1", "item-2"]), now);
+
+      const [listed] = await listPromotions(USER, startsAt);
+
+      expect(listed).toMatchObject({ status: "running", itemCount: 2 });
+      const [stored] = await db.select().from(promotions);
+      expect(stored.status).toBe("running");
+    });
+  });
+
+  describe("getPromotionPerformance", () => {
+    it("should attribute orders for promoted items placed during the sale", async () => {
+      await createPromotion(USER, saleInput(["item-1", "item-2"]), now);
+      await seedItem("item-4", { externalId: "444", price: 30 });
+
+      // During the sale
+      await seedOrder("order-1", "item-1", new Date(startsAt.getTime() + DAY), 60);
+      // Before the sale started
+      await seedOrder("order-2", "item-2", now, 40);
+      // Not in the sale
+      await seedOrder("order-3", "item-4", new Date(startsAt.getTime() + DAY), 30);
+
+      const [performance] = await getPromotionPerformance(USER, endsAt);
+
+      expect(performance).toMatchObject({
+        status: "ended",
+        itemCount: 2,
+        orderCount: 1,
+        unitsSold: 1,
+        revenue: 60,
+        netProfit: 30,
+        sellThrough: 0.5,
+      });
+    });
+
+    it("should leave out cancelled and failed sales", async () => {
+      const { promotionId } = await createPromotion(USER, saleInput(["item-1"]), now);
+      await cancelPromotion(USER, promotionId!, now);
+      await db.insert(promotions).values({
+        id: "promo-error",
+        userId: USER,
+        channel: "ebay",
+        name: "Rejected",
+        discountPercent: 90,
+        startsAt,
+        endsAt,
+        status: "error",
+        createdAt: now,
+        updatedAt: now,
+      });
+      await db.insert(promotionItems).values({
+        id: "entry-error",
+        promotionId: "promo-error",
+        itemId: "item-1",
+        channelListingId: "listing-item-1",
+        originalPrice: 80,
+      });
+
+      expect(await getPromotionPerformance(USER, endsAt)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Promotions Service for ResellerOS
+ *
+ * Scheduled percent-off sales run through eBay's Marketing API (item price
+ * markdowns). Unlike repricing through updatePrice, a markdown keeps the
+ * listing price, shows buyers the "was/now" strikethrough, and doesn't
+ * spend revision quota.
+ *
+ * Promotions are stored locally with the listings they cover. Status
+ * follows the dates (scheduled -> running -> ended) and is refreshed on
+ * read; cancelled and error are final. Orders for promoted items placed
+ * while a promotion ran are attributed to it.
+ */
+
+import { db } from "@/server/db/client";
+import {
+  promotions,
+  promotionItems,
+  inventoryItems,
+  channelListings,
+  orders,
+} from "@/server/db/schema";
+import { eq, and, inArray, desc } from "drizzle-orm";
+import { getEbayAdapter } from "@/server/services/channels/ebay/adapter";
+
+// ============ TYPES ============
+
+export type PromotionStatus = "scheduled" | "running" | "ended" | "cancelled" | "error";
+
+export interface CreatePromotionInput {
+  name: string;
+  /** Whole percent off, e.g. 20 for 20% */
+  discountPercent: number;
+  itemIds: string[];
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface CreatePromotionResult {
+  success: boolean;
+  promotionId?: string;
+  /** Items left out of the sale and why */
+  skipped: Array<{ itemId: string; reason: string }>;
+  error?: string;
+}
+
+export interface CancelPromotionResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface PromotionPerformance {
+  promotionId: string;
+  name: string;
+  status: PromotionStatus;
+  discountPercent: number;
+  startsAt: Date;
+  endsAt: Date;
+  itemCount: number;
+  orderCount: number;
+  unitsSold: number;
+  revenue: number;
+  netProfit: number;
+  /** Share of promoted items that sold during the promotion, 0-1 */
+  sellThrough: number;
+}
+
+// ============ CONSTANTS ============
+
+/** eBay accepts markdowns of 5-80% lasting up to 45 days */
+export const PROMOTION_LIMITS = {
+  minDiscountPercent: 5,
+  maxDiscountPercent: 80,
+  maxDurationDays: 45,
+} as const;
+
+// ============ STATUS ============
+
+/**
+ * Status implied by the promotion's dates. Cancelled and errored
+ * promotions keep their status.
+ */
+export function getPromotionStatus(
+  promotion: { status: PromotionStatus; startsAt: Date; endsAt: Date },
+  now: Date = new Date()
+): PromotionStatus {
+  if (promotion.status === "cancelled" || promotion.status === "error") {
+    return promotion.status;
+  }
+  if (now >= promotion.endsAt) return "ended";
+  if (now >= promotion.startsAt) return "running";
+  return "scheduled";
+}
+
+// ============ CREATE ============
+
+/**
+ * Create a markdown sale across the user's items. Only items with an
+ * active eBay listing are included; the rest are reported as skipped.
+ */
+export async function createPromotion(
+  userId: string,
+  input: CreatePromotionInput,
+  now: Date = new Date()
+): Promise<CreatePromotionResult> {
+  const listings = await db
+    .select({
+      itemId: inventoryItems.id,
+      listingId: channelListings.id,
+      externalId: channelListings.externalId,
+      price: channelListings.price,
+    })
+    .from(inventoryItems)
+    .innerJoin(
+      channelListings,
+      and(
+        eq(channelListings.itemId, inventoryItems.id),
+        eq(channelListings.channel, "ebay"),
+        eq(channelListings.status, "active")
+      )
+    )
+    .where(and(eq(inventoryItems.userId, userId), inArray(inventoryItems.id, input.itemIds)));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eligible = listings.filter((listing: any) => listing.externalId);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eligibleIds = new Set<string>(eligible.map((listing: any) => listing.itemId));
+  const skipped = input.itemIds
+    .filter((itemId) => !eligibleIds.has(itemId))
+    .map((itemId) => ({ itemId, reason: "No active eBay listing" }));
+
+  if (eligible.length === 0) {
+    return { success: false, skipped, error: "None of the selected items are listed on eBay" };
+  }
+
+  const result = await getEbayAdapter().createMarkdownPromotion(userId, {
+    name: input.name,
+    discountPercent: input.discountPercent,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    listingIds: eligible.map((listing: any) => listing.externalId),
+    startsAt: input.startsAt,
+    endsAt: input.endsAt,
+  });
+
+  const promotionId = crypto.randomUUID();
+  await db.insert(promotions).values({
+    id: promotionId,
+    userId,
+    channel: "ebay",
+    externalId: result.promotionId ?? null,
+    name: input.name,
+    discountPercent: input.discountPercent,
+    startsAt: input.startsAt,
+    endsAt: input.endsAt,
+    status: result.success
+      ? getPromotionStatus({ status: "scheduled", startsAt: input.startsAt, endsAt: input.endsAt }, now)
+      : "error",
+    statusMessage: result.success ? null : (result.error ?? "eBay rejected the promotion"),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await db.insert(promotionItems).values(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    eligible.map((listing: any) => ({
+      id: crypto.randomUUID(),
+      promotionId,
+      itemId: listing.itemId,
+      channelListingId: listing.listingId,
+      originalPrice: listing.price,
+    }))
+  );
+
+  if (!result.success) {
+    return { success: false, promotionId, skipped, error: result.error };
+  }
+
+  return { success: true, promotionId, skipped };
+}
+
+// ============ CANCEL ============
+
+/**
+ * Cancel a promotion. Scheduled ones are deleted on eBay; running ones are
+ * ended now, since eBay won't delete a running promotion.
+ */
+export async function cancelPromotion(
+  userId: string,
+  promotionId: string,
+  now: Date = new Date()
+): Promise<CancelPromotionResult> {
+  const promotion = await db.query.promotions.findFirst({
+    where: and(eq(promotions.id, promotionId), eq(promotions.userId, userId)),
+    with: { items: { with: { channelListing: true } } },
+  });
+
+  if (!promotion) {
+    return { success: false, error: "Promotion not found" };
+  }
+
+  const status = getPromotionStatus(promotion, now);
+  if (status !== "scheduled" && status !== "running") {
+    return { success: false, error: `Promotion is already ${status}` };
+  }
+
+  const adapter = getEbayAdapter();
+  let endsAt = promotion.endsAt;
+
+  if (promotion.externalId) {
+    if (status === "scheduled") {
+      const result = await adapter.deleteMarkdownPromotion(userId, promotion.externalId);
+      if (!result.success) return { success: false, error: result.error };
+    } else {
+      // eBay needs an end date in the future; a minute out is the soonest
+      endsAt = new Date(now.getTime() + 60 * 1000);
+      const result = await adapter.updateMarkdownPromotion(userId, promotion.externalId, {
+        name: promotion.name,
+        discountPercent: promotion.discountPercent,
+        listingIds: promotion.items
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .map((entry: any) => entry.channelListing.externalId)
+          .filter(Boolean),
+        startsAt: promotion.startsAt,
+        endsAt,
+      });
+      if (!result.success) return { success: false, error: result.error };
+    }
+  }
+
+  await db
+    .update(promotions)
+    .set({
+      // A running sale keeps its real window so its orders stay attributed
+      status: status === "scheduled" ? "cancelled" : "ended",
+      endsAt,
+      updatedAt: now,
+    })
+    .where(eq(promotions.id, promotionId));
+
+  return { success: true };
+}
+
+// ============ LIST ============
+
+/**
+ * List the user's promotions, newest first, bringing date-driven statuses
+ * up to date
+ */
+export async function listPromotions(userId: string, now: Date = new Date()) {
+  const rows = await db.query.promotions.findMany({
+    where: eq(promotions.userId, userId),
+    with: { items: { columns: { itemId: true } } },
+    orderBy: [desc(promotions.startsAt)],
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const stale = rows.filter((row: any) => getPromotionStatus(row, now) !== row.status);
+  for (const row of stale) {
+    await db
+      .update(promotions)
+      .set({ status: getPromotionStatus(row, now), updatedAt: now })
+      .where(eq(promotions.id, row.id));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return rows.map((row: any) => ({
+    id: row.id,
+    channel: row.channel,
+    name: row.name,
+    discountPercent: row.discountPercent,
+    startsAt: row.startsAt,
+    endsAt: row.endsAt,
+    status: getPromotionStatus(row, now),
+    statusMessage: row.statusMessage,
+    itemCount: row.items.length,
+    createdAt: row.createdAt,
+  }));
+}
+
+// ============ ATTRIBUTION ============
+
+/**
+ * Attribute orders to promotions: an order counts toward a promotion when
+ * the item was in it and the order was placed while it ran
+ */
+export async function getPromotionPerformance(
+  userId: string,
+  now: Date = new Date()
+): Promise<PromotionPerformance[]> {
+  const rows = await db.query.promotions.findMany({
+    where: eq(promotions.userId, userId),
+    with: { items: { columns: { itemId: true } } },
+    orderBy: [desc(promotions.startsAt)],
+  });
+
+  // Cancelled and failed promotions never ran; scheduled ones show as zero
+  const ran = rows.filter(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (row: any) => row.status !== "cancelled" && row.status !== "error"
+  );
+
+  const itemIds = Array.from(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    new Set<string>(ran.flatMap((row: any) => row.items.map((entry: any) => entry.itemId)))
+  );
+
+  const promotedOrders =
+    itemIds.length > 0
+      ? await db
+          .select({
+            itemId: orders.itemId,
+            quantity: orders.quantity,
+            salePrice: orders.salePrice,
+            netProfit: orders.netProfit,
+            orderedAt: orders.orderedAt,
+          })
+          .from(orders)
+          .where(and(eq(orders.userId, userId), inArray(orders.itemId, itemIds)))
+      : [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return ran.map((row: any) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const promoted = new Set<string>(row.items.map((entry: any) => entry.itemId));
+    const attributed = promotedOrders.filter(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (order: any) =>
+        promoted.has(order.itemId) && order.orderedAt >= row.startsAt && order.orderedAt < row.endsAt
+    );
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const soldItems = new Set(attributed.map((order: any) => order.itemId));
+
+    return {
+      promotionId: row.id,
+      name: row.name,
+      status: getPromotionStatus(row, now),
+      discountPercent: row.discountPercent,
+      startsAt: row.startsAt,
+      endsAt: row.endsAt,
+      itemCount: promoted.size,
+      orderCount: attributed.length,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      unitsSold: attributed.reduce((total: number, order: any) => total + order.quantity, 0),
+      revenue: roundCurrency(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        attributed.reduce((total: number, order: any) => total + order.salePrice, 0)
+      ),
+      netProfit: roundCurrency(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        attributed.reduce((total: number, order: any) => total + (order.netProfit ?? 0), 0)
+      ),
+      sellThrough: promoted.size > 0 ? soldItems.size / promoted.size : 0,
+    };
+  });
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,187 @@
+/**
+ * Rate Limit Service Tests
+ *
+ * Runs against an in-memory SQLite database so the upsert's
+ * increment-and-check semantics are exercised for real.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/server/db/client", async () => {
+  const { default: Database } = await import("better-sqlite3");
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const schema = await import("@/server/db/schema");
+
+  const sqlite = new Database(":memory:");
+  sqlite.exec(`
+    CREATE TABLE rate_limit_usage (
+      id text PRIMARY KEY NOT NULL,
+      user_id text NOT NULL,
+      bucket text NOT NULL,
+      window_start integer NOT NULL,
+      resets_at integer NOT NULL,
+      count integer DEFAULT 0 NOT NULL,
+      updated_at integer NOT NULL
+    );
+    CREATE UNIQUE INDEX rate_limit_usage_user_bucket_window_idx
+      ON rate_limit_usage (user_id, bucket, window_start);
+  `);
+
+  return { db: drizzle(sqlite, { schema }) };
+});
+
+// Import after mocking
+import {
+  getRateLimitWindow,
+  checkRateLimit,
+  consumeRateLimit,
+  recordRateLimitUsage,
+  releaseRateLimit,
+  getRateLimitUsage,
+} from "../index";
+
+let userCounter = 0;
+const newUser = () => `rate-limit-user-${++userCounter}`;
+
+describe("Rate Limit Service", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-01-15T12:00:00-08:00")); // Noon PT
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("getRateLimitWindow", () => {
+    it("should span midnight to midnight Pacific Time", () => {
+      const { windowStart, resetsAt } = getRateLimitWindow();
+
+      expect(windowStart.toISOString()).toBe("2024-01-15T08:00:00.000Z");
+      expect(resetsAt.toISOString()).toBe("2024-01-16T08:00:00.000Z");
+    });
+
+    it("should follow daylight saving time", () => {
+      const { windowStart, resetsAt } = getRateLimitWindow(
+        new Date("2024-07-04T12:00:00-07:00")
+      );
+
+      expect(windowStart.toISOString()).toBe("2024-07-04T07:00:00.000Z");
+      expect(resetsAt.toISOString()).toBe("2024-07-05T07:00:00.000Z");
+    });
+  });
+
+  describe("checkRateLimit", () => {
+    it("should report the full limit for a new user", async () => {
+      const result = await checkRateLimit(newUser(), "ebayRevisions");
+
+      expect(result.allowed).toBe(true);
+      expect(result.used).toBe(0);
+      expect(result.remaining).toBe(200);
+      expect(result.limit).toBe(200);
+    });
+  });
+
+  describe("consumeRateLimit", () => {
+    it("should increment usage on each call", async () => {
+      const userId = newUser();
+
+      await consumeRateLimit(userId, "reprices");
+      const result = await consumeRateLimit(userId, "reprices");
+
+      expect(result.allowed).toBe(true);
+      expect(result.used).toBe(2);
+      expect(result.remaining).toBe(98);
+      expect((await checkRateLimit(userId, "reprices")).used).toBe(2);
+    });
+
+    it("should deny without consuming once the limit is reached", async () => {
+      const userId = newUser();
+
+      for (let i = 0; i < 25; i++) {
+        expect((await consumeRateLimit(userId, "relists")).allowed).toBe(true);
+      }
+
+      const result = await consumeRateLimit(userId, "relists");
+      expect(result.allowed).toBe(false);
+      expect(result.used).toBe(25);
+      expect(result.remaining).toBe(0);
+    });
+
+    it("should deny an amount that would overshoot the limit", async () => {
+      const userId = newUser();
+      await consumeRateLimit(userId, "autoAccepts", 48);
+
+      const result = await consumeRateLimit(userId, "autoAccepts", 3);
+
+      expect(result.allowed).toBe(false);
+      expect(result.used).toBe(48);
+    });
+
+    it("should keep buckets and users independent", async () => {
+      const userA = newUser();
+      const userB = newUser();
+
+      await consumeRateLimit(userA, "reprices", 10);
+
+      expect((await checkRateLimit(userA, "autoCounters")).used).toBe(0);
+      expect((await checkRateLimit(userB, "reprices")).used).toBe(0);
+    });
+
+    it("should reset at midnight PT", async () => {
+      const userId = newUser();
+      await consumeRateLimit(userId, "reprices", 50);
+
+      vi.setSystemTime(new Date("2024-01-16T00:01:00-08:00"));
+
+      const result = await checkRateLimit(userId, "reprices");
+      expect(result.used).toBe(0);
+      expect(result.remaining).toBe(100);
+      expect(result.resetsAt.toISOString()).toBe("2024-01-17T08:00:00.000Z");
+    });
+  });
+
+  describe("recordRateLimitUsage", () => {
+    it("should count usage even past the limit", async () => {
+      const userId = newUser();
+
+      await recordRateLimitUsage(userId, "relists", 25);
+      await recordRateLimitUsage(userId, "relists");
+
+      const result = await checkRateLimit(userId, "relists");
+      expect(result.used).toBe(26);
+      expect(result.allowed).toBe(false);
+    });
+  });
+
+  describe("releaseRateLimit", () => {
+    it("should give usage back without going below zero", async () => {
+      const userId = newUser();
+      await consumeRateLimit(userId, "relists", 2);
+
+      await releaseRateLimit(userId, "relists");
+      expect((await checkRateLimit(userId, "relists")).used).toBe(1);
+
+      await releaseRateLimit(userId, "relists", 5);
+      expect((await checkRateLimit(userId, "relists")).used).toBe(0);
+    });
+  });
+
+  describe("getRateLimitUsage", () => {
+    it("should report every bucket for the current window", async () => {
+      const userId = newUser();
+      await recordRateLimitUsage(userId, "ebayRevisions", 3);
+      await consumeRateLimit(userId, "autoAccepts");
+
+      const usage = await getRateLimitUsage(userId);
+
+      expect(Object.keys(usage).sort()).toEqual(
+        ["autoAccepts", "autoCounters", "ebayRevisions", "relists", "reprices"]
+      );
+      expect(usage.ebayRevisions.used).toBe(3);
+      expect(usage.ebayRevisions.remaining).toBe(197);
+      expect(usage.autoAccepts.used).toBe(1);
+      expect(usage.reprices.used).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Rate Limit Service for ResellerOS
+ *
+ * Shared daily limiter backed by the rate_limit_usage table. Each row holds
+ * one user's count for one RATE_LIMITS bucket in one daily window, so
+ * limits survive restarts and are shared across serverless instances.
+ *
+ * Windows run midnight to midnight Pacific Time, matching eBay's reset.
+ */
+
+import { db } from "@/server/db/client";
+import { rateLimitUsage } from "@/server/db/schema";
+import { eq, and, sql } from "drizzle-orm";
+import { RATE_LIMITS } from "@/lib/constants";
+
+// ============ TYPES ============
+
+export type RateLimitBucket = keyof typeof RATE_LIMITS;
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+export interface RateLimitWindow {
+  windowStart: Date;
+  resetsAt: Date;
+}
+
+export const RATE_LIMIT_BUCKETS = Object.keys(RATE_LIMITS) as RateLimitBucket[];
+
+// ============ WINDOW ============
+
+/**
+ * Get the current daily window: the most recent and the next midnight
+ * Pacific Time, as UTC dates
+ */
+export function getRateLimitWindow(now: Date = new Date()): RateLimitWindow {
+  // Wall-clock time in Pacific Time, expressed as a local Date
+  const ptString = now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" });
+  const ptDate = new Date(ptString);
+
+  // Offsets are whole minutes; rounding drops the milliseconds toLocaleString loses
+  const ptOffset = Math.round((now.getTime() - ptDate.getTime()) / 60000) * 60000;
+
+  const start = new Date(ptDate);
+  start.setHours(0, 0, 0, 0);
+
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  return {
+    windowStart: new Date(start.getTime() + ptOffset),
+    resetsAt: new Date(end.getTime() + ptOffset),
+  };
+}
+
+function toStatus(bucket: RateLimitBucket, used: number, resetsAt: Date): RateLimitStatus {
+  const limit = RATE_LIMITS[bucket];
+  return {
+    allowed: used < limit,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetsAt,
+  };
+}
+
+// ============ SERVICE ============
+
+/**
+ * Read a bucket's usage for the current window without consuming it
+ */
+export async function checkRateLimit(
+  userId: string,
+  bucket: RateLimitBucket
+): Promise<RateLimitStatus> {
+  const { windowStart, resetsAt } = getRateLimitWindow();
+
+  const [row] = await db
+    .select({ count: rateLimitUsage.count })
+    .from(rateLimitUsage)
+    .where(
+      and(
+        eq(rateLimitUsage.userId, userId),
+        eq(rateLimitUsage.bucket, bucket),
+        eq(rateLimitUsage.windowStart, windowStart)
+      )
+    )
+    .limit(1);
+
+  return toStatus(bucket, row?.count ?? 0, resetsAt);
+}
+
+/**
+ * Atomically consume `amount` from a bucket if it fits under the limit.
+ * The increment and the limit check happen in a single upsert, so
+ * concurrent callers cannot overshoot. Returns allowed: false (and
+ * consumes nothing) when the limit would be exceeded.
+ */
+export async function consumeRateLimit(
+  userId: string,
+  bucket: RateLimitBucket,
+  amount: number = 1
+): Promise<RateLimitStatus> {
+  const limit = RATE_LIMITS[bucket];
+  const { windowStart, resetsAt } = getRateLimitWindow();
+
+  if (amount > limit) {
+    const status = await checkRateLimit(userId, bucket);
+    return { ...status, allowed: false };
+  }
+
+  const now = new Date();
+  const [row] = await db
+    .insert(rateLimitUsage)
+    .values({
+      id: crypto.randomUUID(),
+      userId,
+      bucket,
+      windowStart,
+      resetsAt,
+      count: amount,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [rateLimitUsage.userId, rateLimitUsage.bucket, rateLimitUsage.windowStart],
+      set: {
+        count: sql`${rateLimitUsage.count} + ${amount}`,
+        updatedAt: now,
+      },
+      setWhere: sql`${rateLimitUsage.count} + ${amount} <= ${limit}`,
+    })
+    .returning({ count: rateLimitUsage.count });
+
+  // No row returned means the conflict update was skipped: over the limit
+  if (!row) {
+    const status = await checkRateLimit(userId, bucket);
+    return { ...status, allowed: false };
+  }
+
+  return {
+    ...toStatus(bucket, row.count, resetsAt),
+    allowed: true,
+  };
+}
+
+/**
+ * Record usage that already happened, regardless of the limit.
+ * Used for multi-call operations that are gated once up front.
+ */
+export async function recordRateLimitUsage(
+  userId: string,
+  bucket: RateLimitBucket,
+  amount: number = 1
+): Promise<void> {
+  const { windowStart, resetsAt } = getRateLimitWindow();
+  const now = new Date();
+
+  await db
+    .insert(rateLimitUsage)
+    .values({
+      id: crypto.randomUUID(),
+      userId,
+      bucket,
+      windowStart,
+      resetsAt,
+      count: amount,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [rateLimitUsage.userId, rateLimitUsage.bucket, rateLimitUsage.windowStart],
+      set: {
+        count: sql`${rateLimitUsage.count} + ${amount}`,
+        updatedAt: now,
+      },
+    });
+}
+
+/**
+ * Give back usage consumed for an action that then failed
+ */
+export async function releaseRateLimit(
+  userId: string,
+  bucket: RateLimitBucket,
+  amount: number = 1
+): Promise<void> {
+  const { windowStart } = getRateLimitWindow();
+
+  await db
+    .update(rateLimitUsage)
+    .set({
+      count: sql`max(${rateLimitUsage.count} - ${amount}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(rateLimitUsage.userId, userId),
+        eq(rateLimitUsage.bucket, bucket),
+        eq(rateLimitUsage.windowStart, windowStart)
+      )
+    );
+}
+
+/**
+ * Get the current window's usage for every bucket
+ */
+export async function getRateLimitUsage(
+  userId: string
+): Promise<Record<RateLimitBucket, RateLimitStatus>> {
+  const { windowStart, resetsAt } = getRateLimitWindow();
+
+  const rows: Array<{ bucket: RateLimitBucket; count: number }> = await db
+    .select({ bucket: rateLimitUsage.bucket, count: rateLimitUsage.count })
+    .from(rateLimitUsage)
+    .where(
+      and(
+        eq(rateLimitUsage.userId, userId),
+        eq(rateLimitUsage.windowStart, windowStart)
+      )
+    );
+
+  const usage = {} as Record<RateLimitBucket, RateLimitStatus>;
+  for (const bucket of RATE_LIMIT_BUCKETS) {
+    const row = rows.find((r) => r.bucket === bucket);
+    usage[bucket] = toStatus(bucket, row?.count ?? 0, resetsAt);
+  }
+
+  return usage;
+}
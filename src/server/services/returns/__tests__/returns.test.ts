@@ -0,0 +1,492 @@
+/**
+ * Returns Service Tests
+ *
+ * Opening, refunding, and restocking returns against the real schema,
+ * including profit reversal, relisting, and marketplace ingestion, with
+ * the channel adapters mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockAdapter } = vi.hoisted(() => ({
+  mockAdapter: {
+    relist: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+vi.mock("@/server/services/channels/ebay/adapter", () => ({
+  getEbayAdapter: () => mockAdapter,
+}));
+
+vi.mock("@/server/services/channels", () => ({
+  getAdapter: () => mockAdapter,
+  canAutomateChannel: async () => true,
+}));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import {
+  users,
+  inventoryItems,
+  channelListings,
+  orders,
+  returns,
+  auditLog,
+} from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { checkRateLimit } from "@/server/services/rate-limits";
+import {
+  createReturn,
+  markReturnReceived,
+  refundReturn,
+  restockReturn,
+  recordChannelReturn,
+  listReturns,
+} from "..";
+
+const USER = "user-1";
+const now = new Date("2026-10-10T12:00:00.000Z");
+
+async function seedItem(fields: Partial<typeof inventoryItems.$inferInsert> = {}) {
+  await db.insert(inventoryItems).values({
+    id: "item-1",
+    userId: USER,
+    sku: "SKU-1",
+    title: "Vintage Denim Jacket",
+    description: "Test item",
+    condition: "like_new",
+    askingPrice: 60,
+    costBasis: 15,
+    quantity: 0,
+    status: "sold",
+    soldAt: now,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  });
+}
+
+async function seedOrder(fields: Partial<typeof orders.$inferInsert> = {}) {
+  await db.insert(orders).values({
+    id: "order-1",
+    userId: USER,
+    itemId: "item-1",
+    channel: "ebay",
+    externalOrderId: "12-34567-89012",
+    salePrice: 50,
+    shippingPaid: 5,
+    platformFees: 7,
+    shippingCost: 6,
+    costBasis: 15,
+    netProfit: 27,
+    status: "delivered",
+    orderedAt: now,
+    ...fields,
+  });
+}
+
+async function getOrder() {
+  const [order] = await db.select().from(orders).where(eq(orders.id, "order-1"));
+  return order;
+}
+
+async function getItem() {
+  const [item] = await db.select().from(inventoryItems).where(eq(inventoryItems.id, "item-1"));
+  return item;
+}
+
+async function openReturn(status: "requested" | "received" = "received") {
+  const result = await createReturn(USER, { orderId: "order-1" }, now);
+  if (status === "received") {
+    await markReturnReceived(USER, result.return!.id, now);
+  }
+  return result.return!.id;
+}
+
+describe("Returns Service", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockAdapter.update.mockResolvedValue({ success: true });
+    sqlite.exec(`
+      DELETE FROM returns;
+      DELETE FROM audit_log;
+      DELETE FROM autopilot_actions;
+      DELETE FROM rate_limit_usage;
+      DELETE FROM orders;
+      DELETE FROM channel_listings;
+      DELETE FROM inventory_items;
+      DELETE FROM users;
+    `);
+    await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+    await seedItem();
+  });
+
+  describe("createReturn", () => {
+    it("should return every unit by default", async () => {
+      await seedOrder({ quantity: 2, salePrice: 100 });
+
+      const result = await createReturn(USER, { orderId: "order-1", reason: "Too small" }, now);
+
+      expect(result.success).toBe(true);
+      expect(result.return).toMatchObject({
+        status: "requested",
+        quantity: 2,
+        reason: "Too small",
+        channel: "ebay",
+        itemId: "item-1",
+      });
+    });
+
+    it("should not return more units than were sold", async () => {
+      await seedOrder({ quantity: 2, salePrice: 100 });
+
+      expect((await createReturn(USER, { orderId: "order-1", quantity: 1 }, now)).success).toBe(
+        true
+      );
+      const tooMany = await createReturn(USER, { orderId: "order-1", quantity: 2 }, now);
+      expect(tooMany).toMatchObject({ success: false, errorCode: "BAD_REQUEST" });
+      expect(tooMany.error).toContain("Only 1 unit(s)");
+
+      await createReturn(USER, { orderId: "order-1" }, now);
+      expect((await createReturn(USER, { orderId: "order-1" }, now)).error).toBe(
+        "Every unit on this order already has a return"
+      );
+    });
+
+    it("should reject cancelled and unknown orders", async () => {
+      await seedOrder({ status: "cancelled" });
+
+      expect((await createReturn(USER, { orderId: "order-1" }, now)).errorCode).toBe(
+        "BAD_REQUEST"
+      );
+      expect((await createReturn(USER, { orderId: "missing" }, now)).errorCode).toBe(
+        "NOT_FOUND"
+      );
+    });
+  });
+
+  describe("refundReturn", () => {
+    it("should reverse the refund and return shipping out of the order's profit", async () => {
+      await seedOrder();
+      const returnId = await openReturn();
+
+      const result = await refundReturn(
+        USER,
+        returnId,
+        { refundAmount: 55, returnShippingCost: 8 },
+        now
+      );
+
+      expect(result.return).toMatchObject({
+        status: "refunded",
+        refundAmount: 55,
+        returnShippingCost: 8,
+        refundedAt: now,
+      });
+      const order = await getOrder();
+      expect(order.netProfit).toBe(-36);
+      expect(order.status).toBe("returned");
+    });
+
+    it("should keep the order open until every unit is refunded", async () => {
+      await seedOrder({ quantity: 2, salePrice: 100, shippingPaid: 0 });
+      const first = await createReturn(USER, { orderId: "order-1", quantity: 1 }, now);
+
+      await refundReturn(USER, first.return!.id, { refundAmount: 50 }, now);
+
+      expect((await getOrder()).status).toBe("delivered");
+    });
+
+    it("should cap each return at its units' share of what the buyer paid", async () => {
+      await seedOrder({ quantity: 2, salePrice: 100, shippingPaid: 10 });
+      const first = await createReturn(USER, { orderId: "order-1", quantity: 1 }, now);
+
+      const tooMuch = await refundReturn(USER, first.return!.id, { refundAmount: 60 }, now);
+      expect(tooMuch.errorCode).toBe("BAD_REQUEST");
+      expect(tooMuch.error).toContain("55.00");
+      expect((await refundReturn(USER, first.return!.id, { refundAmount: 55 }, now)).success).toBe(
+        true
+      );
+    });
+
+    it("should cap refunds across the order at what the buyer paid", async () => {
+      await seedOrder({ quantity: 2, salePrice: 100, shippingPaid: 0 });
+      const first = await createReturn(USER, { orderId: "order-1", quantity: 1 }, now);
+      const second = await createReturn(USER, { orderId: "order-1", quantity: 1 }, now);
+      await refundReturn(USER, first.return!.id, { refundAmount: 50 }, now);
+      // A goodwill refund on the first unit recorded outside the cap
+      await db.update(returns).set({ refundAmount: 80 }).where(eq(returns.id, first.return!.id));
+
+      const result = await refundReturn(USER, second.return!.id, { refundAmount: 50 }, now);
+
+      expect(result.error).toContain("20.00");
+      expect(
+        (await refundReturn(USER, second.return!.id, { refundAmount: 20 }, now)).success
+      ).toBe(true);
+    });
+
+    it("should reject refunds over what the buyer paid and repeat refunds", async () => {
+      await seedOrder();
+      const returnId = await openReturn();
+
+      expect((await refundReturn(USER, returnId, { refundAmount: 60 }, now)).error).toContain(
+        "55.00"
+      );
+      await refundReturn(USER, returnId, { refundAmount: 55 }, now);
+      expect((await refundReturn(USER, returnId, { refundAmount: 55 }, now)).error).toBe(
+        "Return has already been refunded"
+      );
+    });
+  });
+
+  describe("restockReturn", () => {
+    it("should put the units back in inventory and add the cost back to profit", async () => {
+      await seedOrder();
+      const returnId = await openReturn();
+      await refundReturn(USER, returnId, { refundAmount: 55 }, now);
+
+      const result = await restockReturn(
+        USER,
+        returnId,
+        { status: "active", condition: "good" },
+        now
+      );
+
+      expect(result.return).toMatchObject({
+        status: "restocked",
+        restockedTo: "active",
+        conditionBefore: "like_new",
+        conditionAfter: "good",
+        restockedAt: now,
+      });
+      expect(await getItem()).toMatchObject({
+        status: "active",
+        quantity: 1,
+        condition: "good",
+        soldAt: null,
+      });
+      // 27 - 55 refund + 15 cost
+      expect((await getOrder()).netProfit).toBe(-13);
+    });
+
+    it("should keep a still-listed item's status and push the new quantity", async () => {
+      await seedItem({ id: "item-2", sku: "SKU-2", quantity: 1, status: "active", soldAt: null });
+      await seedOrder({ itemId: "item-2", channel: "poshmark", externalOrderId: null });
+      await db.insert(channelListings).values({
+        id: "listing-ebay",
+        itemId: "item-2",
+        channel: "ebay",
+        externalId: "ebay-111",
+        price: 60,
+        status: "active",
+        createdAt: now,
+      });
+      const returnId = await openReturn();
+
+      const result = await restockReturn(USER, returnId, { status: "draft" }, now);
+
+      expect(result.success).toBe(true);
+      const [item] = await db.select().from(inventoryItems).where(eq(inventoryItems.id, "item-2"));
+      expect(item).toMatchObject({ status: "active", quantity: 2 });
+      expect(mockAdapter.update).toHaveBeenCalledWith(USER, "ebay-111", { quantity: 2 });
+    });
+
+    it("should not upgrade the condition", async () => {
+      await seedOrder();
+      const returnId = await openReturn();
+
+      const result = await restockReturn(USER, returnId, { status: "draft", condition: "new" }, now);
+
+      expect(result).toMatchObject({ success: false, errorCode: "BAD_REQUEST" });
+      expect((await getItem()).status).toBe("sold");
+    });
+
+    it("should require the item back before restocking", async () => {
+      await seedOrder();
+      const returnId = await openReturn("requested");
+
+      expect((await restockReturn(USER, returnId, { status: "active" }, now)).error).toBe(
+        "Mark the return received before restocking it"
+      );
+    });
+
+    it("should allow a refund after restocking", async () => {
+      await seedOrder();
+      const returnId = await openReturn();
+      await restockReturn(USER, returnId, { status: "draft" }, now);
+
+      const result = await refundReturn(USER, returnId, { refundAmount: 55 }, now);
+
+      expect(result.return).toMatchObject({ status: "restocked", refundedAt: now });
+      expect((await getOrder()).status).toBe("returned");
+    });
+
+    it("should relist on eBay and leave drafts for assisted channels", async () => {
+      await seedOrder();
+      await db.insert(channelListings).values([
+        {
+          id: "listing-ebay",
+          itemId: "item-1",
+          channel: "ebay",
+          externalId: "ebay-111",
+          price: 60,
+          status: "sold",
+          createdAt: now,
+        },
+        {
+          id: "listing-posh",
+          itemId: "item-1",
+          channel: "poshmark",
+          price: 65,
+          status: "ended",
+          createdAt: now,
+        },
+      ]);
+      mockAdapter.relist.mockResolvedValue({
+        success: true,
+        externalId: "ebay-222",
+        externalUrl: "https://www.ebay.com/itm/ebay-222",
+      });
+      const returnId = await openReturn();
+
+      const result = await restockReturn(USER, returnId, { status: "active", relist: true }, now);
+
+      expect(mockAdapter.relist).toHaveBeenCalledWith(USER, "ebay-111");
+      expect(result.relists).toHaveLength(2);
+      expect((await checkRateLimit(USER, "relists")).used).toBe(1);
+      const [relistEntry] = await db
+        .select()
+        .from(auditLog)
+        .where(eq(auditLog.actionType, "LISTING_RELIST"));
+      expect(relistEntry).toMatchObject({ source: "USER", reversible: true });
+      // The sold listing's inventory item is back in stock before the relist copies it
+      expect(mockAdapter.update).toHaveBeenCalledTimes(1);
+      expect(mockAdapter.update).toHaveBeenCalledWith(USER, "ebay-111", { quantity: 1 });
+      expect(mockAdapter.update.mock.invocationCallOrder[0]).toBeLessThan(
+        mockAdapter.relist.mock.invocationCallOrder[0]
+      );
+      const listings = await db
+        .select()
+        .from(channelListings)
+        .where(eq(channelListings.itemId, "item-1"));
+      expect(listings).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ id: "listing-ebay", status: "sold" }),
+          expect.objectContaining({
+            channel: "ebay",
+            externalId: "ebay-222",
+            status: "active",
+            relistedFromId: "listing-ebay",
+          }),
+          expect.objectContaining({
+            channel: "poshmark",
+            status: "draft",
+            requiresManualAction: true,
+            relistedFromId: "listing-posh",
+          }),
+        ])
+      );
+    });
+
+    it("should not relist on eBay when the quantity cannot be restored", async () => {
+      await seedOrder();
+      await db.insert(channelListings).values({
+        id: "listing-ebay",
+        itemId: "item-1",
+        channel: "ebay",
+        externalId: "ebay-111",
+        price: 60,
+        status: "sold",
+        createdAt: now,
+      });
+      mockAdapter.update.mockResolvedValue({ success: false, error: "No offer found for listing" });
+      const returnId = await openReturn();
+
+      const result = await restockReturn(USER, returnId, { status: "active", relist: true }, now);
+
+      expect(result.relists).toEqual([
+        expect.objectContaining({
+          channel: "ebay",
+          success: false,
+          error: "No offer found for listing",
+        }),
+      ]);
+      expect(mockAdapter.relist).not.toHaveBeenCalled();
+      expect((await checkRateLimit(USER, "relists")).used).toBe(0);
+    });
+
+    it("should only relist items restocked as active", async () => {
+      await seedOrder();
+      const returnId = await openReturn();
+
+      const result = await restockReturn(USER, returnId, { status: "draft", relist: true }, now);
+
+      expect(result.success).toBe(false);
+      expect(mockAdapter.relist).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("recordChannelReturn", () => {
+    const ebayCase = {
+      channel: "ebay" as const,
+      externalReturnId: "5000012345",
+      externalOrderId: "12-34567-89012",
+      quantity: 1,
+      status: "requested" as const,
+      reason: "not as described",
+      requestedAt: now,
+    };
+
+    it("should open a return once per marketplace case", async () => {
+      await seedOrder();
+
+      expect((await recordChannelReturn(USER, ebayCase, now)).outcome).toBe("created");
+      expect((await recordChannelReturn(USER, ebayCase, now)).outcome).toBe("unchanged");
+
+      const entries = await listReturns(USER);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        externalReturnId: "5000012345",
+        itemTitle: "Vintage Denim Jacket",
+        salePrice: 50,
+      });
+    });
+
+    it("should move a known case forward and refund it as the system", async () => {
+      await seedOrder();
+      await recordChannelReturn(USER, ebayCase, now);
+
+      const result = await recordChannelReturn(
+        USER,
+        { ...ebayCase, status: "refunded", refundAmount: 80 },
+        now
+      );
+
+      expect(result.outcome).toBe("updated");
+      // Capped at what the buyer paid for the order line
+      expect(result.return).toMatchObject({ status: "refunded", refundAmount: 55 });
+      expect((await getOrder()).status).toBe("returned");
+    });
+
+    it("should cap a marketplace refund at the returned units' share", async () => {
+      await seedOrder({ quantity: 2, salePrice: 100, shippingPaid: 0 });
+
+      const result = await recordChannelReturn(
+        USER,
+        { ...ebayCase, status: "refunded", refundAmount: 100 },
+        now
+      );
+
+      expect(result.return).toMatchObject({ quantity: 1, refundAmount: 50 });
+      expect((await getOrder()).status).toBe("delivered");
+    });
+
+    it("should report cases with no matching order", async () => {
+      expect((await recordChannelReturn(USER, ebayCase, now)).outcome).toBe("unmatched");
+    });
+  });
+});
@@ -0,0 +1,701 @@
+/**
+ * Returns Service
+ *
+ * Tracks buyer returns against order lines from request to restock.
+ * A return's status is the furthest stage it has reached:
+ *
+ *   requested -> received -> refunded -> restocked
+ *
+ * Refunding a return reverses the refund and return shipping out of the
+ * order's net profit. Restocking puts the units back in inventory as active
+ * or draft, optionally with a worse condition, adds their cost back to the
+ * order (the goods are no longer sold), and can relist the item on the
+ * channels it was listed on before the sale.
+ *
+ * Stages can be skipped forward: a refund can be issued before the item is
+ * back (or never comes back), and a refund recorded after a restock leaves
+ * the status at restocked.
+ */
+
+import { db } from "@/server/db/client";
+import { channelListings, inventoryItems, orders, returns } from "@/server/db/schema";
+import { eq, and, desc, isNotNull } from "drizzle-orm";
+import { CHANNEL_NAMES, CONDITIONS, type Channel, type Condition } from "@/lib/constants";
+import { auditService, type AuditSource } from "@/server/services/audit";
+import { relistStaleListing } from "@/server/services/autopilot/relist";
+import { getEbayAdapter } from "@/server/services/channels/ebay/adapter";
+import { pushItemQuantity } from "@/server/services/orders";
+
+// ============ TYPES ============
+
+export const RETURN_STATUSES = ["requested", "received", "refunded", "restocked"] as const;
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export type ReturnRecord = typeof returns.$inferSelect;
+
+export interface ReturnListEntry extends ReturnRecord {
+  itemTitle: string;
+  itemSku: string;
+  itemCondition: Condition;
+  salePrice: number;
+  shippingPaid: number | null;
+  orderQuantity: number;
+  externalOrderId: string | null;
+  buyerUsername: string | null;
+}
+
+export interface ReturnResult {
+  success: boolean;
+  return?: ReturnRecord;
+  error?: string;
+  errorCode?: "NOT_FOUND" | "BAD_REQUEST";
+}
+
+export interface CreateReturnInput {
+  orderId: string;
+  /** Units being returned; defaults to the whole order line */
+  quantity?: number;
+  reason?: string;
+  refundAmount?: number;
+  returnShippingCost?: number;
+  externalReturnId?: string;
+  requestedAt?: Date;
+}
+
+export interface RefundReturnInput {
+  refundAmount: number;
+  returnShippingCost?: number;
+  /** Who recorded the refund; marketplace ingestion records as SYSTEM */
+  source?: AuditSource;
+}
+
+export interface RestockReturnInput {
+  /** Inventory status the item goes back to */
+  status: "active" | "draft";
+  /** New condition; may only be the same as or worse than the current one */
+  condition?: Condition;
+  /** Relist on the channels the item was listed on before the sale */
+  relist?: boolean;
+}
+
+export interface ReturnRelistResult {
+  channel: Channel;
+  success: boolean;
+  /** The new channel listing */
+  listingId?: string;
+  /** Assisted channels get a draft listing to relist by hand */
+  requiresManualAction: boolean;
+  error?: string;
+}
+
+export interface RestockResult extends ReturnResult {
+  relists?: ReturnRelistResult[];
+}
+
+/**
+ * A return case reported by a marketplace, normalized for ingestion
+ */
+export interface ChannelReturnInput {
+  channel: Channel;
+  externalReturnId: string;
+  /** Marketplace order ID (orders.externalOrderId) */
+  externalOrderId: string;
+  /** Marketplace listing ID, to pick the line on multi-item orders */
+  externalListingId?: string;
+  quantity: number;
+  status: Exclude<ReturnStatus, "restocked">;
+  reason?: string;
+  refundAmount?: number;
+  requestedAt: Date;
+}
+
+export type ChannelReturnOutcome = "created" | "updated" | "unchanged" | "unmatched";
+
+// ============ HELPERS ============
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function notFound(): ReturnResult {
+  return { success: false, error: "Return not found", errorCode: "NOT_FOUND" };
+}
+
+function badRequest(error: string): ReturnResult {
+  return { success: false, error, errorCode: "BAD_REQUEST" };
+}
+
+/**
+ * Check whether a condition is the same as or worse than another
+ */
+export function isConditionDowngrade(from: Condition, to: Condition): boolean {
+  return CONDITIONS.indexOf(to) >= CONDITIONS.indexOf(from);
+}
+
+async function findReturn(userId: string, returnId: string): Promise<ReturnRecord | null> {
+  const [row] = await db
+    .select()
+    .from(returns)
+    .where(and(eq(returns.id, returnId), eq(returns.userId, userId)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+async function findOrder(userId: string, orderId: string) {
+  const [row] = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.userId, userId)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+async function updateReturn(
+  returnId: string,
+  updates: Partial<typeof returns.$inferInsert>
+): Promise<ReturnRecord> {
+  const [row] = await db.update(returns).set(updates).where(eq(returns.id, returnId)).returning();
+  return row;
+}
+
+/**
+ * Units of an order already covered by returns
+ */
+async function getReturnedQuantity(orderId: string): Promise<number> {
+  const rows = await db
+    .select({ quantity: returns.quantity })
+    .from(returns)
+    .where(eq(returns.orderId, orderId));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return rows.reduce((sum: number, row: any) => sum + row.quantity, 0);
+}
+
+/**
+ * Most that can still be refunded on a return: its units' share of what
+ * the buyer paid, less anything other returns on the order already refunded
+ */
+async function getRefundableAmount(
+  order: typeof orders.$inferSelect,
+  ret: ReturnRecord
+): Promise<number> {
+  const paid = order.salePrice + (order.shippingPaid ?? 0);
+
+  const refunded = await db
+    .select({ refundAmount: returns.refundAmount })
+    .from(returns)
+    .where(and(eq(returns.orderId, order.id), isNotNull(returns.refundedAt)));
+  const alreadyRefunded = refunded.reduce(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (sum: number, row: any) => sum + (row.refundAmount ?? 0),
+    0
+  );
+
+  const share = (paid * ret.quantity) / Math.max(order.quantity, 1);
+  return roundCurrency(Math.max(0, Math.min(share, paid - alreadyRefunded)));
+}
+
+// ============ QUERIES ============
+
+/**
+ * List a user's returns, newest first, with their order and item details
+ */
+export async function listReturns(
+  userId: string,
+  status?: ReturnStatus
+): Promise<ReturnListEntry[]> {
+  const conditions = [eq(returns.userId, userId)];
+  if (status) {
+    conditions.push(eq(returns.status, status));
+  }
+
+  const rows = await db
+    .select({
+      return: returns,
+      itemTitle: inventoryItems.title,
+      itemSku: inventoryItems.sku,
+      itemCondition: inventoryItems.condition,
+      salePrice: orders.salePrice,
+      shippingPaid: orders.shippingPaid,
+      orderQuantity: orders.quantity,
+      externalOrderId: orders.externalOrderId,
+      buyerUsername: orders.buyerUsername,
+    })
+    .from(returns)
+    .innerJoin(orders, eq(returns.orderId, orders.id))
+    .innerJoin(inventoryItems, eq(returns.itemId, inventoryItems.id))
+    .where(and(...conditions))
+    .orderBy(desc(returns.requestedAt));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return rows.map(({ return: row, ...details }: any) => ({ ...row, ...details }));
+}
+
+// ============ TRANSITIONS ============
+
+/**
+ * Open a return against an order line
+ */
+export async function createReturn(
+  userId: string,
+  input: CreateReturnInput,
+  now: Date = new Date()
+): Promise<ReturnResult> {
+  const order = await findOrder(userId, input.orderId);
+  if (!order) {
+    return { success: false, error: "Order not found", errorCode: "NOT_FOUND" };
+  }
+
+  if (order.status === "cancelled") {
+    return badRequest("Cancelled orders can't be returned");
+  }
+
+  const available = order.quantity - (await getReturnedQuantity(order.id));
+  const quantity = input.quantity ?? available;
+  if (available <= 0) {
+    return badRequest("Every unit on this order already has a return");
+  }
+  if (quantity < 1 || quantity > available) {
+    return badRequest(`Only ${available} unit(s) on this order can be returned`);
+  }
+
+  const [created] = await db
+    .insert(returns)
+    .values({
+      id: crypto.randomUUID(),
+      userId,
+      orderId: order.id,
+      itemId: order.itemId,
+      channel: order.channel,
+      externalReturnId: input.externalReturnId ?? null,
+      status: "requested",
+      quantity,
+      reason: input.reason ?? null,
+      refundAmount: input.refundAmount ?? null,
+      returnShippingCost: input.returnShippingCost ?? null,
+      requestedAt: input.requestedAt ?? now,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return { success: true, return: created };
+}
+
+/**
+ * Record that the returned item has arrived back
+ */
+export async function markReturnReceived(
+  userId: string,
+  returnId: string,
+  now: Date = new Date()
+): Promise<ReturnResult> {
+  const existing = await findReturn(userId, returnId);
+  if (!existing) return notFound();
+
+  if (existing.status !== "requested") {
+    return badRequest(`Return is already ${existing.status}`);
+  }
+
+  const updated = await updateReturn(returnId, {
+    status: "received",
+    receivedAt: now,
+    updatedAt: now,
+  });
+
+  return { success: true, return: updated };
+}
+
+/**
+ * Record the refund to the buyer and reverse it out of the order's profit
+ *
+ * A return can refund at most its units' share of what the buyer paid,
+ * and refunds across the order never add up to more than that total. The
+ * order is marked returned once refunds cover every unit on it.
+ */
+export async function refundReturn(
+  userId: string,
+  returnId: string,
+  input: RefundReturnInput,
+  now: Date = new Date()
+): Promise<ReturnResult> {
+  const existing = await findReturn(userId, returnId);
+  if (!existing) return notFound();
+
+  if (existing.refundedAt) {
+    return badRequest("Return has already been refunded");
+  }
+
+  const order = await findOrder(userId, existing.orderId);
+  if (!order) {
+    return { success: false, error: "Order not found", errorCode: "NOT_FOUND" };
+  }
+
+  const maxRefund = await getRefundableAmount(order, existing);
+  if (input.refundAmount < 0 || input.refundAmount > maxRefund) {
+    return badRequest(
+      `Refund can't be more than the ${maxRefund.toFixed(2)} the buyer paid for these units, less earlier refunds`
+    );
+  }
+
+  const returnShippingCost = input.returnShippingCost ?? existing.returnShippingCost ?? 0;
+  const updated = await updateReturn(returnId, {
+    status: existing.status === "restocked" ? "restocked" : "refunded",
+    refundAmount: input.refundAmount,
+    returnShippingCost,
+    refundedAt: now,
+    updatedAt: now,
+  });
+
+  const refunded = await db
+    .select({ quantity: returns.quantity })
+    .from(returns)
+    .where(and(eq(returns.orderId, order.id), isNotNull(returns.refundedAt)));
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const refundedUnits = refunded.reduce((sum: number, row: any) => sum + row.quantity, 0);
+
+  const netProfit = roundCurrency(
+    (order.netProfit ?? 0) - input.refundAmount - returnShippingCost
+  );
+  await db
+    .update(orders)
+    .set({
+      netProfit,
+      ...(refundedUnits >= order.quantity && { status: "returned" as const }),
+    })
+    .where(eq(orders.id, order.id));
+
+  await auditService.log({
+    userId,
+    actionType: "ORDER_RETURN",
+    itemId: order.itemId,
+    channel: order.channel,
+    source: input.source ?? "USER",
+    beforeState: { orderStatus: order.status, netProfit: order.netProfit },
+    afterState: {
+      orderStatus: refundedUnits >= order.quantity ? "returned" : order.status,
+      netProfit,
+    },
+    metadata: {
+      returnId,
+      orderId: order.id,
+      quantity: existing.quantity,
+      refundAmount: input.refundAmount,
+      returnShippingCost,
+    },
+  });
+
+  return { success: true, return: updated };
+}
+
+/**
+ * Put returned units back in inventory
+ *
+ * The returned units are added to the item's quantity and pushed to its
+ * live native listings, and their cost comes back off the order's profit.
+ * The item only moves to the requested active or draft status when none
+ * of its listings are still live.
+ */
+export async function restockReturn(
+  userId: string,
+  returnId: string,
+  input: RestockReturnInput,
+  now: Date = new Date()
+): Promise<RestockResult> {
+  const existing = await findReturn(userId, returnId);
+  if (!existing) return notFound();
+
+  if (existing.status === "requested") {
+    return badRequest("Mark the return received before restocking it");
+  }
+  if (existing.status === "restocked") {
+    return badRequest("Return has already been restocked");
+  }
+  if (input.relist && input.status !== "active") {
+    return badRequest("Only items restocked as active can be relisted");
+  }
+
+  const [item] = await db
+    .select()
+    .from(inventoryItems)
+    .where(eq(inventoryItems.id, existing.itemId))
+    .limit(1);
+  if (!item) {
+    return { success: false, error: "Item not found", errorCode: "NOT_FOUND" };
+  }
+
+  const condition = input.condition ?? item.condition;
+  if (!isConditionDowngrade(item.condition, condition)) {
+    return badRequest("A returned item's condition can only stay the same or go down");
+  }
+
+  // Units left on other channels kept the item listed through the sale
+  const [liveListing] = await db
+    .select({ id: channelListings.id })
+    .from(channelListings)
+    .where(and(eq(channelListings.itemId, item.id), eq(channelListings.status, "active")))
+    .limit(1);
+
+  const beforeState = {
+    status: item.status,
+    quantity: item.quantity,
+    condition: item.condition,
+  };
+  const afterState = {
+    status: liveListing ? item.status : input.status,
+    quantity: item.quantity + existing.quantity,
+    condition,
+  };
+
+  await db
+    .update(inventoryItems)
+    .set({ ...afterState, soldAt: null, updatedAt: now })
+    .where(eq(inventoryItems.id, item.id));
+
+  // The units are inventory again, not cost of a sale
+  if (item.costBasis !== null) {
+    const order = await findOrder(userId, existing.orderId);
+    if (order) {
+      await db
+        .update(orders)
+        .set({
+          netProfit: roundCurrency((order.netProfit ?? 0) + item.costBasis * existing.quantity),
+        })
+        .where(eq(orders.id, order.id));
+    }
+  }
+
+  const updated = await updateReturn(returnId, {
+    status: "restocked",
+    restockedTo: input.status,
+    conditionBefore: item.condition,
+    conditionAfter: condition,
+    receivedAt: existing.receivedAt ?? now,
+    restockedAt: now,
+    updatedAt: now,
+  });
+
+  const quantityUpdates = await pushItemQuantity(userId, item.id, afterState.quantity);
+  const relists = input.relist
+    ? await relistOnOriginalChannels(userId, item.id, afterState.quantity, now)
+    : undefined;
+
+  await auditService.log({
+    userId,
+    actionType: "RETURN_RESTOCK",
+    itemId: item.id,
+    channel: existing.channel,
+    source: "USER",
+    beforeState,
+    afterState,
+    metadata: {
+      returnId,
+      orderId: existing.orderId,
+      quantity: existing.quantity,
+      relists,
+      quantityUpdates,
+    },
+  });
+
+  return { success: true, return: updated, relists };
+}
+
+// ============ RELIST ============
+
+/**
+ * Relist a restocked item on each channel it was last listed on
+ *
+ * eBay listings go through the stale relist service, which draws from the
+ * daily relists limit and logs an undoable relist. The relist copies the
+ * inventory item, which the sale left at zero, so the restored quantity is
+ * written to it first. Assisted channels get a draft listing flagged for
+ * manual relisting. Channels where the item already has a live or draft listing
+ * are left alone.
+ */
+async function relistOnOriginalChannels(
+  userId: string,
+  itemId: string,
+  quantity: number,
+  now: Date
+): Promise<ReturnRelistResult[]> {
+  const listings = await db
+    .select()
+    .from(channelListings)
+    .where(eq(channelListings.itemId, itemId))
+    .orderBy(desc(channelListings.createdAt));
+
+  // The newest listing on each channel is the one to relist
+  const latest = new Map<Channel, typeof channelListings.$inferSelect>();
+  for (const listing of listings) {
+    if (!latest.has(listing.channel)) {
+      latest.set(listing.channel, listing);
+    }
+  }
+
+  const results: ReturnRelistResult[] = [];
+
+  for (const listing of Array.from(latest.values())) {
+    if (listing.status !== "sold" && listing.status !== "ended") continue;
+
+    if (listing.channel === "ebay" && listing.externalId) {
+      const restored = await getEbayAdapter().update(userId, listing.externalId, { quantity });
+      if (!restored.success) {
+        results.push({
+          channel: listing.channel,
+          success: false,
+          requiresManualAction: false,
+          error: restored.error ?? "Could not restore the eBay quantity",
+        });
+        continue;
+      }
+
+      const listedAt = listing.publishedAt ?? listing.createdAt;
+      const result = await relistStaleListing(
+        userId,
+        listing.id,
+        {
+          reason: "Back in stock after a return",
+          daysListed: Math.floor((now.getTime() - listedAt.getTime()) / (24 * 60 * 60 * 1000)),
+          fromStatuses: ["sold", "ended"],
+          source: "USER",
+        },
+        now
+      );
+
+      results.push({
+        channel: listing.channel,
+        success: result.success,
+        listingId: result.listingId,
+        requiresManualAction: false,
+        error: result.success ? undefined : (result.error ?? "eBay relist failed"),
+      });
+    } else {
+      const newListingId = crypto.randomUUID();
+      await db.insert(channelListings).values({
+        id: newListingId,
+        itemId,
+        channel: listing.channel,
+        price: listing.price,
+        status: "draft",
+        statusMessage: `Back in stock after a return. Relist on ${CHANNEL_NAMES[listing.channel]} and mark it listed.`,
+        requiresManualAction: true,
+        relistedFromId: listing.id,
+        createdAt: now,
+      });
+
+      results.push({
+        channel: listing.channel,
+        success: true,
+        listingId: newListingId,
+        requiresManualAction: true,
+      });
+    }
+  }
+
+  return results;
+}
+
+// ============ INGESTION ============
+
+/**
+ * Record a marketplace return case, or move an already recorded one forward
+ *
+ * Idempotent on (channel, externalReturnId). Cases never move backwards,
+ * and restocking stays a manual step.
+ */
+export async function recordChannelReturn(
+  userId: string,
+  input: ChannelReturnInput,
+  now: Date = new Date()
+): Promise<{ outcome: ChannelReturnOutcome; return?: ReturnRecord }> {
+  const [existing] = await db
+    .select()
+    .from(returns)
+    .where(
+      and(
+        eq(returns.userId, userId),
+        eq(returns.channel, input.channel),
+        eq(returns.externalReturnId, input.externalReturnId)
+      )
+    )
+    .limit(1);
+
+  let current: ReturnRecord | undefined = existing;
+  let outcome: ChannelReturnOutcome = existing ? "unchanged" : "created";
+
+  if (!current) {
+    const candidates = await db
+      .select({ id: orders.id, listingExternalId: channelListings.externalId })
+      .from(orders)
+      .leftJoin(channelListings, eq(orders.channelListingId, channelListings.id))
+      .where(
+        and(
+          eq(orders.userId, userId),
+          eq(orders.channel, input.channel),
+          eq(orders.externalOrderId, input.externalOrderId)
+        )
+      );
+
+    const order =
+      candidates.find(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (candidate: any) =>
+          input.externalListingId && candidate.listingExternalId === input.externalListingId
+      ) ?? candidates[0];
+    if (!order) {
+      return { outcome: "unmatched" };
+    }
+
+    const created = await createReturn(
+      userId,
+      {
+        orderId: order.id,
+        quantity: input.quantity,
+        reason: input.reason,
+        externalReturnId: input.externalReturnId,
+        requestedAt: input.requestedAt,
+      },
+      now
+    );
+    if (!created.success || !created.return) {
+      // Every unit is already covered by a manually entered return
+      return { outcome: "unmatched" };
+    }
+    current = created.return;
+  }
+
+  if (input.status === "received" && current.status === "requested") {
+    current = (await markReturnReceived(userId, current.id, now)).return ?? current;
+    outcome = outcome === "created" ? outcome : "updated";
+  }
+
+  if (input.status === "refunded" && !current.refundedAt) {
+    const order = await findOrder(userId, current.orderId);
+    const refundable = order ? await getRefundableAmount(order, current) : 0;
+    // Marketplace totals can include amounts outside the order line
+    const refundAmount = Math.min(
+      input.refundAmount ?? current.refundAmount ?? refundable,
+      refundable
+    );
+    current =
+      (await refundReturn(userId, current.id, { refundAmount, source: "SYSTEM" }, now)).return ??
+      current;
+    outcome = outcome === "created" ? outcome : "updated";
+  }
+
+  return { outcome, return: current };
+}
+
+const returnsService = {
+  listReturns,
+  createReturn,
+  markReturnReceived,
+  refundReturn,
+  restockReturn,
+  recordChannelReturn,
+  isConditionDowngrade,
+};
+
+export default returnsService;
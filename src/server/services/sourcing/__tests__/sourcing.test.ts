@@ -0,0 +1,334 @@
+/**
+ * Sourcing Service Tests
+ *
+ * Lot cost allocation, cost basis recomputation as items come and go, and
+ * ROI per lot and per location, against the real schema.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import { users, inventoryItems, sourcingLots, orders, returns } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  allocateLotCost,
+  recomputeLotCosts,
+  assignItemsToLot,
+  removeItemsFromLot,
+  setAllocationValues,
+  getLotRoi,
+  getLocationRoi,
+} from "..";
+
+const USER = "user-1";
+const now = new Date("2026-10-01T12:00:00.000Z");
+
+const item = (
+  id: string,
+  askingPrice: number,
+  allocationValue: number | null = null,
+  quantity = 1
+) => ({
+  id,
+  askingPrice,
+  allocationValue,
+  quantity,
+});
+
+async function seedItem(id: string, askingPrice: number) {
+  await db.insert(inventoryItems).values({
+    id,
+    userId: USER,
+    sku: `SKU-${id}`,
+    title: `Item ${id}`,
+    description: "Test item",
+    condition: "good",
+    askingPrice,
+    status: "active",
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+async function seedLot(
+  id: string,
+  totalCost: number,
+  fields: Partial<typeof sourcingLots.$inferInsert> = {}
+) {
+  await db.insert(sourcingLots).values({
+    id,
+    userId: USER,
+    name: `Lot ${id}`,
+    purchasedAt: now,
+    totalCost,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  });
+}
+
+async function costBasisOf(itemId: string): Promise<number | null> {
+  const row = await db.query.inventoryItems.findFirst({ where: eq(inventoryItems.id, itemId) });
+  return row.costBasis;
+}
+
+describe("Sourcing Service", () => {
+  describe("allocateLotCost", () => {
+    it("should split evenly with leftover cents on the first items", () => {
+      const shares = allocateLotCost(10, "even", [item("a", 5), item("b", 5), item("c", 5)]);
+
+      expect(Array.from(shares.values())).toEqual([3.34, 3.33, 3.33]);
+    });
+
+    it("should split by estimated value, falling back to the asking price", () => {
+      const shares = allocateLotCost(60, "estimated_value", [
+        item("a", 10, 100),
+        item("b", 200),
+      ]);
+
+      expect(shares.get("a")).toBe(20);
+      expect(shares.get("b")).toBe(40);
+    });
+
+    it("should weight shares by units and return the cost per unit", () => {
+      const even = allocateLotCost(40, "even", [item("a", 10, null, 3), item("b", 10)]);
+      expect(even.get("a")).toBe(10);
+      expect(even.get("b")).toBe(10);
+
+      const byValue = allocateLotCost(70, "estimated_value", [
+        item("a", 10, null, 4),
+        item("b", 30),
+      ]);
+      expect(byValue.get("a")).toBe(10);
+      expect(byValue.get("b")).toBe(30);
+    });
+
+    it("should split evenly when no item has a value", () => {
+      const shares = allocateLotCost(60, "estimated_value", [item("a", 0), item("b", 0)]);
+
+      expect(Array.from(shares.values())).toEqual([30, 30]);
+    });
+
+    it("should use manual costs as entered", () => {
+      const shares = allocateLotCost(60, "manual", [item("a", 10, 45), item("b", 10)]);
+
+      expect(shares.get("a")).toBe(45);
+      expect(shares.get("b")).toBe(0);
+    });
+
+    it("should always add up to the lot cost", () => {
+      const items = Array.from({ length: 12 }, (_, i) => item(`item-${i}`, 7 + i * 3));
+
+      for (const method of ["even", "estimated_value"] as const) {
+        const total = Array.from(allocateLotCost(60, method, items).values()).reduce(
+          (sum, share) => sum + share,
+          0
+        );
+        expect(total).toBeCloseTo(60, 10);
+      }
+    });
+  });
+
+  describe("lots", () => {
+    beforeEach(async () => {
+      sqlite.exec(`
+        DELETE FROM returns;
+        DELETE FROM orders;
+        DELETE FROM inventory_items;
+        DELETE FROM sourcing_lots;
+        DELETE FROM users;
+      `);
+      await db.insert(users).values({ id: USER, createdAt: now, updatedAt: now });
+      await seedItem("item-1", 30);
+      await seedItem("item-2", 60);
+      await seedItem("item-3", 90);
+      await seedLot("lot-1", 60, { location: "Portland, OR", mileage: 24 });
+    });
+
+    it("should recompute cost basis as items are added and removed", async () => {
+      expect(await assignItemsToLot(USER, "lot-1", ["item-1", "item-2", "item-3"], now)).toBe(3);
+      expect(await costBasisOf("item-1")).toBe(20);
+
+      expect(await removeItemsFromLot(USER, ["item-3"], now)).toBe(1);
+      expect(await costBasisOf("item-1")).toBe(30);
+      expect(await costBasisOf("item-2")).toBe(30);
+      expect(await costBasisOf("item-3")).toBeNull();
+    });
+
+    it("should recompute the old lot when items move between lots", async () => {
+      await seedLot("lot-2", 10);
+      await assignItemsToLot(USER, "lot-1", ["item-1", "item-2"], now);
+
+      await assignItemsToLot(USER, "lot-2", ["item-2"], now);
+
+      expect(await costBasisOf("item-1")).toBe(60);
+      expect(await costBasisOf("item-2")).toBe(10);
+    });
+
+    it("should not assign another user's items", async () => {
+      expect(await assignItemsToLot("user-2", "lot-1", ["item-1"], now)).toBe(0);
+      expect(await costBasisOf("item-1")).toBeNull();
+    });
+
+    it("should re-split by value and report unallocated manual cost", async () => {
+      await assignItemsToLot(USER, "lot-1", ["item-1", "item-2", "item-3"], now);
+      await db
+        .update(sourcingLots)
+        .set({ allocationMethod: "estimated_value" })
+        .where(eq(sourcingLots.id, "lot-1"));
+
+      await recomputeLotCosts("lot-1", now);
+      expect(await costBasisOf("item-1")).toBe(10);
+      expect(await costBasisOf("item-3")).toBe(30);
+
+      await db
+        .update(sourcingLots)
+        .set({ allocationMethod: "manual" })
+        .where(eq(sourcingLots.id, "lot-1"));
+      const result = await setAllocationValues(
+        "lot-1",
+        [
+          { itemId: "item-1", value: 5 },
+          { itemId: "item-2", value: 15 },
+        ],
+        now
+      );
+
+      expect(await costBasisOf("item-2")).toBe(15);
+      expect(await costBasisOf("item-3")).toBe(0);
+      expect(result.unallocated).toBe(40);
+    });
+
+    it("should refresh the net profit of sold items", async () => {
+      await db
+        .update(inventoryItems)
+        .set({ quantity: 0, status: "sold" })
+        .where(eq(inventoryItems.id, "item-1"));
+      await db.insert(orders).values({
+        id: "order-1",
+        userId: USER,
+        itemId: "item-1",
+        channel: "ebay",
+        salePrice: 50,
+        platformFees: 5,
+        shippingCost: 5,
+        netProfit: 40,
+        status: "paid",
+        orderedAt: now,
+      });
+
+      await assignItemsToLot(USER, "lot-1", ["item-1", "item-2"], now);
+
+      const [order] = await db.select().from(orders);
+      expect(order.netProfit).toBe(10);
+    });
+
+    it("should apply cost changes per unit sold without undoing other adjustments", async () => {
+      await db
+        .update(inventoryItems)
+        .set({ quantity: 1 })
+        .where(eq(inventoryItems.id, "item-1"));
+      // Two units sold with no cost yet; $15 of the profit already refunded
+      await db.insert(orders).values({
+        id: "order-1",
+        userId: USER,
+        itemId: "item-1",
+        channel: "ebay",
+        quantity: 2,
+        salePrice: 100,
+        platformFees: 10,
+        shippingCost: 5,
+        netProfit: 70,
+        status: "paid",
+        orderedAt: now,
+      });
+
+      // Three units of item-1 and one of item-2 split $60 evenly: $15 a unit
+      await assignItemsToLot(USER, "lot-1", ["item-1", "item-2"], now);
+      expect(await costBasisOf("item-1")).toBe(15);
+      expect((await db.select().from(orders))[0].netProfit).toBe(40);
+
+      await removeItemsFromLot(USER, ["item-1"], now);
+      expect((await db.select().from(orders))[0].netProfit).toBe(70);
+    });
+
+    it("should report ROI per lot and per location", async () => {
+      await seedLot("lot-2", 20, { location: "Portland, OR", mileage: 10 });
+      await seedLot("lot-3", 40, { location: "Salem, OR" });
+      await assignItemsToLot(USER, "lot-1", ["item-1", "item-2"], now);
+      await assignItemsToLot(USER, "lot-2", ["item-3"], now);
+      await db.insert(orders).values([
+        {
+          id: "order-1",
+          userId: USER,
+          itemId: "item-1",
+          channel: "ebay",
+          salePrice: 100,
+          platformFees: 10,
+          shippingCost: 10,
+          status: "paid",
+          orderedAt: now,
+        },
+        {
+          id: "order-2",
+          userId: USER,
+          itemId: "item-3",
+          channel: "ebay",
+          salePrice: 40,
+          status: "paid",
+          orderedAt: now,
+        },
+        {
+          id: "order-3",
+          userId: USER,
+          itemId: "item-2",
+          channel: "ebay",
+          salePrice: 90,
+          status: "cancelled",
+          orderedAt: now,
+        },
+      ]);
+      await db.insert(returns).values({
+        id: "return-1",
+        userId: USER,
+        orderId: "order-2",
+        itemId: "item-3",
+        channel: "ebay",
+        status: "refunded",
+        refundAmount: 15,
+        returnShippingCost: 5,
+        requestedAt: now,
+        refundedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const lots = await getLotRoi(USER);
+      const lot1 = lots.find((lot) => lot.lotId === "lot-1");
+      expect(lot1).toMatchObject({
+        itemCount: 2,
+        soldCount: 1,
+        revenue: 100,
+        netProceeds: 80,
+        profit: 20,
+      });
+      expect(lot1?.roi).toBeCloseTo(1 / 3);
+
+      const locations = await getLocationRoi(USER);
+      expect(locations.map((entry) => entry.location)).toEqual(["Portland, OR", "Salem, OR"]);
+      expect(locations[0]).toMatchObject({
+        lotCount: 2,
+        totalCost: 80,
+        mileage: 34,
+        revenue: 140,
+        profit: 20,
+        roi: 0.25,
+      });
+      expect(locations[1]).toMatchObject({ profit: -40, roi: -1 });
+    });
+  });
+});
@@ -0,0 +1,490 @@
+/**
+ * Sourcing Service for ResellerOS
+ *
+ * Purchase lots (a bag of items from an estate sale, a pallet, a thrift
+ * run) and how their total cost is split into each item's costBasis:
+ * - even: the same share for every unit
+ * - estimated_value: in proportion to each unit's estimated resale value
+ *   (lotAllocationValue, falling back to the asking price)
+ * - manual: each item's lotAllocationValue is its cost per unit
+ *
+ * Cost bases are recomputed whenever a lot's items, cost, or method change,
+ * and the net profit on any sales of those items is refreshed to match.
+ */
+
+import { db } from "@/server/db/client";
+import { sourcingLots, inventoryItems, orders, returns } from "@/server/db/schema";
+import { eq, and, ne, inArray, isNotNull, desc, sql } from "drizzle-orm";
+
+// ============ TYPES ============
+
+export type LotAllocationMethod = "even" | "estimated_value" | "manual";
+
+export interface LotAllocationItem {
+  id: string;
+  /** Estimated value (estimated_value) or fixed cost (manual), per unit */
+  allocationValue: number | null;
+  askingPrice: number;
+  /** Units of the item the lot bought */
+  quantity: number;
+}
+
+export interface LotRecomputeResult {
+  allocations: Array<{ itemId: string; costBasis: number }>;
+  /** Lot cost not assigned to any item; only non-zero for manual splits */
+  unallocated: number;
+}
+
+export interface LotRoi {
+  lotId: string;
+  name: string;
+  purchasedAt: Date;
+  source: string | null;
+  location: string | null;
+  totalCost: number;
+  mileage: number;
+  itemCount: number;
+  soldCount: number;
+  revenue: number;
+  /** Revenue less refunds, platform fees, and shipping */
+  netProceeds: number;
+  profit: number;
+  /** profit / totalCost, null for free lots */
+  roi: number | null;
+}
+
+export interface LocationRoi {
+  location: string;
+  lotCount: number;
+  totalCost: number;
+  mileage: number;
+  itemCount: number;
+  soldCount: number;
+  revenue: number;
+  profit: number;
+  roi: number | null;
+}
+
+// ============ ALLOCATION ============
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split a lot's cost across its items and return each item's cost per
+ * unit. Even and by-value splits weight each item by its units and are
+ * rounded to cents with the leftover cents going to the first items, so
+ * the item totals always add up to the lot cost.
+ */
+export function allocateLotCost(
+  totalCost: number,
+  method: LotAllocationMethod,
+  items: LotAllocationItem[]
+): Map<string, number> {
+  const allocations = new Map<string, number>();
+  if (items.length === 0) return allocations;
+
+  if (method === "manual") {
+    for (const item of items) {
+      allocations.set(item.id, roundCurrency(item.allocationValue ?? 0));
+    }
+    return allocations;
+  }
+
+  const units = items.map((item) => Math.max(1, item.quantity));
+  let weights = items.map((item, i) =>
+    method === "estimated_value"
+      ? Math.max(0, item.allocationValue ?? item.askingPrice) * units[i]
+      : units[i]
+  );
+  let totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Nothing to go on; split evenly
+  if (totalWeight === 0) {
+    weights = units;
+    totalWeight = units.reduce((sum, count) => sum + count, 0);
+  }
+
+  const totalCents = Math.round(totalCost * 100);
+  const cents = weights.map((weight) => Math.floor((totalCents * weight) / totalWeight));
+  let leftover = totalCents - cents.reduce((sum, share) => sum + share, 0);
+  for (let i = 0; leftover > 0; i = (i + 1) % cents.length, leftover--) {
+    cents[i] += 1;
+  }
+
+  items.forEach((item, i) => allocations.set(item.id, roundCurrency(cents[i] / 100 / units[i])));
+  return allocations;
+}
+
+/**
+ * Units of each item bought: what's on hand plus what has sold, less
+ * returned units that were put back on hand
+ */
+async function getUnitsBought(
+  items: Array<{ id: string; quantity: number }>
+): Promise<Map<string, number>> {
+  const units = new Map<string, number>(items.map((item) => [item.id, item.quantity]));
+  if (items.length === 0) return units;
+
+  const itemIds = items.map((item) => item.id);
+  const sold = await db
+    .select({ itemId: orders.itemId, quantity: sql<number>`sum(${orders.quantity})` })
+    .from(orders)
+    .where(and(inArray(orders.itemId, itemIds), ne(orders.status, "cancelled")))
+    .groupBy(orders.itemId);
+  const restocked = await db
+    .select({ itemId: returns.itemId, quantity: sql<number>`sum(${returns.quantity})` })
+    .from(returns)
+    .where(and(inArray(returns.itemId, itemIds), isNotNull(returns.restockedAt)))
+    .groupBy(returns.itemId);
+
+  for (const row of sold) {
+    units.set(row.itemId, (units.get(row.itemId) ?? 0) + row.quantity);
+  }
+  for (const row of restocked) {
+    units.set(row.itemId, (units.get(row.itemId) ?? 0) - row.quantity);
+  }
+  return units;
+}
+
+// ============ LOTS ============
+
+/**
+ * Get a lot with its items if it belongs to the user
+ */
+export async function getLot(userId: string, lotId: string) {
+  const lot = await db.query.sourcingLots.findFirst({
+    where: and(eq(sourcingLots.id, lotId), eq(sourcingLots.userId, userId)),
+    with: {
+      items: {
+        columns: {
+          id: true,
+          title: true,
+          sku: true,
+          status: true,
+          askingPrice: true,
+          costBasis: true,
+          lotAllocationValue: true,
+        },
+      },
+    },
+  });
+
+  return lot ?? null;
+}
+
+/**
+ * Recompute the cost basis of every item in a lot, and the net profit of
+ * their sales
+ */
+export async function recomputeLotCosts(
+  lotId: string,
+  now: Date = new Date()
+): Promise<LotRecomputeResult> {
+  const lot = await db.query.sourcingLots.findFirst({
+    where: eq(sourcingLots.id, lotId),
+    with: {
+      items: {
+        columns: {
+          id: true,
+          askingPrice: true,
+          costBasis: true,
+          lotAllocationValue: true,
+          quantity: true,
+        },
+      },
+    },
+  });
+
+  if (!lot) {
+    return { allocations: [], unallocated: 0 };
+  }
+
+  const units = await getUnitsBought(lot.items);
+  const shares = allocateLotCost(
+    lot.totalCost,
+    lot.allocationMethod,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    lot.items.map((item: any) => ({
+      id: item.id,
+      allocationValue: item.lotAllocationValue,
+      askingPrice: item.askingPrice,
+      quantity: units.get(item.id) ?? 1,
+    }))
+  );
+
+  for (const item of lot.items) {
+    const costBasis = shares.get(item.id) ?? 0;
+    if (item.costBasis === costBasis) continue;
+
+    await db
+      .update(inventoryItems)
+      .set({ costBasis, updatedAt: now })
+      .where(eq(inventoryItems.id, item.id));
+    await refreshOrderProfit(item.id, item.costBasis, costBasis);
+  }
+
+  const allocations = Array.from(shares.entries()).map(([itemId, costBasis]) => ({
+    itemId,
+    costBasis,
+  }));
+  const allocated = allocations.reduce(
+    (sum, entry) => sum + entry.costBasis * Math.max(1, units.get(entry.itemId) ?? 1),
+    0
+  );
+
+  return { allocations, unallocated: roundCurrency(lot.totalCost - allocated) };
+}
+
+/**
+ * Keep sales of an item in step with its new cost basis. Only the change
+ * in cost, times the units sold, comes off each order's net profit, so
+ * refunds and other adjustments already made to it stay.
+ */
+async function refreshOrderProfit(
+  itemId: string,
+  previousCostBasis: number | null,
+  costBasis: number | null
+): Promise<void> {
+  const change = (costBasis ?? 0) - (previousCostBasis ?? 0);
+  if (change === 0) return;
+
+  const itemOrders = await db
+    .select({ id: orders.id, quantity: orders.quantity, netProfit: orders.netProfit })
+    .from(orders)
+    .where(eq(orders.itemId, itemId));
+
+  for (const order of itemOrders) {
+    if (order.netProfit === null) continue;
+
+    await db
+      .update(orders)
+      .set({ netProfit: roundCurrency(order.netProfit - change * order.quantity) })
+      .where(eq(orders.id, order.id));
+  }
+}
+
+/**
+ * Move the user's items into a lot and recompute the lot, plus any lots
+ * the items came from. Returns the number of items moved.
+ */
+export async function assignItemsToLot(
+  userId: string,
+  lotId: string,
+  itemIds: string[],
+  now: Date = new Date()
+): Promise<number> {
+  const items = await db
+    .select({ id: inventoryItems.id, lotId: inventoryItems.lotId })
+    .from(inventoryItems)
+    .where(and(eq(inventoryItems.userId, userId), inArray(inventoryItems.id, itemIds)));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const moving = items.filter((item: any) => item.lotId !== lotId);
+  if (moving.length === 0) return 0;
+
+  await db
+    .update(inventoryItems)
+    // Values from another lot don't carry over
+    .set({ lotId, lotAllocationValue: null, updatedAt: now })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .where(inArray(inventoryItems.id, moving.map((item: any) => item.id)));
+
+  const previousLots = new Set<string>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    moving.map((item: any) => item.lotId).filter(Boolean)
+  );
+  for (const previousLotId of Array.from(previousLots)) {
+    await recomputeLotCosts(previousLotId, now);
+  }
+  await recomputeLotCosts(lotId, now);
+
+  return moving.length;
+}
+
+/**
+ * Take the user's items out of their lots. Their cost basis is cleared,
+ * since it was a share of the lot, and the lots are recomputed.
+ */
+export async function removeItemsFromLot(
+  userId: string,
+  itemIds: string[],
+  now: Date = new Date()
+): Promise<number> {
+  const items = await db
+    .select({
+      id: inventoryItems.id,
+      lotId: inventoryItems.lotId,
+      costBasis: inventoryItems.costBasis,
+    })
+    .from(inventoryItems)
+    .where(and(eq(inventoryItems.userId, userId), inArray(inventoryItems.id, itemIds)));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const inLots = items.filter((item: any) => item.lotId);
+  if (inLots.length === 0) return 0;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const ids = inLots.map((item: any) => item.id);
+  await db
+    .update(inventoryItems)
+    .set({ lotId: null, lotAllocationValue: null, costBasis: null, updatedAt: now })
+    .where(inArray(inventoryItems.id, ids));
+  for (const item of inLots) {
+    await refreshOrderProfit(item.id, item.costBasis, null);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const lots = new Set<string>(inLots.map((item: any) => item.lotId));
+  for (const lotId of Array.from(lots)) {
+    await recomputeLotCosts(lotId, now);
+  }
+
+  return inLots.length;
+}
+
+/**
+ * Set items' estimated values or manual costs within a lot, then recompute
+ */
+export async function setAllocationValues(
+  lotId: string,
+  values: Array<{ itemId: string; value: number | null }>,
+  now: Date = new Date()
+): Promise<LotRecomputeResult> {
+  for (const { itemId, value } of values) {
+    await db
+      .update(inventoryItems)
+      .set({ lotAllocationValue: value, updatedAt: now })
+      .where(and(eq(inventoryItems.id, itemId), eq(inventoryItems.lotId, lotId)));
+  }
+
+  return recomputeLotCosts(lotId, now);
+}
+
+// ============ ROI ============
+
+/**
+ * Return on each of the user's lots, newest first. Revenue counts every
+ * sale of the lot's items that wasn't cancelled; profit is what the sales
+ * brought in after refunds, fees, and shipping (return labels included),
+ * less what the lot cost.
+ */
+export async function getLotRoi(userId: string): Promise<LotRoi[]> {
+  const lots = await db.query.sourcingLots.findMany({
+    where: eq(sourcingLots.userId, userId),
+    with: { items: { columns: { id: true } } },
+    orderBy: [desc(sourcingLots.purchasedAt)],
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const itemIds = lots.flatMap((lot: any) => lot.items.map((item: any) => item.id));
+  const lotOrders =
+    itemIds.length > 0
+      ? await db
+          .select({
+            itemId: orders.itemId,
+            salePrice: orders.salePrice,
+            platformFees: orders.platformFees,
+            shippingCost: orders.shippingCost,
+          })
+          .from(orders)
+          .where(
+            and(
+              eq(orders.userId, userId),
+              inArray(orders.itemId, itemIds),
+              ne(orders.status, "cancelled")
+            )
+          )
+      : [];
+  const lotReturns =
+    itemIds.length > 0
+      ? await db
+          .select({
+            itemId: returns.itemId,
+            refundAmount: returns.refundAmount,
+            returnShippingCost: returns.returnShippingCost,
+          })
+          .from(returns)
+          .where(and(eq(returns.userId, userId), inArray(returns.itemId, itemIds)))
+      : [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return lots.map((lot: any) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const lotItemIds = new Set<string>(lot.items.map((item: any) => item.id));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const sales = lotOrders.filter((order: any) => lotItemIds.has(order.itemId));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const revenue = sales.reduce((sum: number, order: any) => sum + order.salePrice, 0);
+    const refunds = lotReturns
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .filter((entry: any) => lotItemIds.has(entry.itemId))
+      .reduce(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (sum: number, entry: any) =>
+          sum + (entry.refundAmount ?? 0) + (entry.returnShippingCost ?? 0),
+        0
+      );
+    const netProceeds =
+      sales.reduce(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (sum: number, order: any) =>
+          sum + order.salePrice - (order.platformFees ?? 0) - (order.shippingCost ?? 0),
+        0
+      ) - refunds;
+    const profit = netProceeds - lot.totalCost;
+
+    return {
+      lotId: lot.id,
+      name: lot.name,
+      purchasedAt: lot.purchasedAt,
+      source: lot.source,
+      location: lot.location,
+      totalCost: lot.totalCost,
+      mileage: lot.mileage ?? 0,
+      itemCount: lotItemIds.size,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      soldCount: new Set(sales.map((order: any) => order.itemId)).size,
+      revenue: roundCurrency(revenue),
+      netProceeds: roundCurrency(netProceeds),
+      profit: roundCurrency(profit),
+      roi: lot.totalCost > 0 ? profit / lot.totalCost : null,
+    };
+  });
+}
+
+/**
+ * Lot ROI rolled up by sourcing location, best return first
+ */
+export async function getLocationRoi(userId: string): Promise<LocationRoi[]> {
+  const lots = await getLotRoi(userId);
+  const byLocation = new Map<string, LocationRoi>();
+
+  for (const lot of lots) {
+    const location = lot.location?.trim() || "Unspecified";
+    const entry = byLocation.get(location) ?? {
+      location,
+      lotCount: 0,
+      totalCost: 0,
+      mileage: 0,
+      itemCount: 0,
+      soldCount: 0,
+      revenue: 0,
+      profit: 0,
+      roi: null,
+    };
+
+    entry.lotCount += 1;
+    entry.totalCost = roundCurrency(entry.totalCost + lot.totalCost);
+    entry.mileage += lot.mileage;
+    entry.itemCount += lot.itemCount;
+    entry.soldCount += lot.soldCount;
+    entry.revenue = roundCurrency(entry.revenue + lot.revenue);
+    entry.profit = roundCurrency(entry.profit + lot.profit);
+    entry.roi = entry.totalCost > 0 ? entry.profit / entry.totalCost : null;
+    byLocation.set(location, entry);
+  }
+
+  return Array.from(byLocation.values()).sort((a, b) => (b.roi ?? -Infinity) - (a.roi ?? -Infinity));
+}
@@ -122,6 +122,22 @@ export function generateImageKey(
   return `images/${userId}/${itemId}/${timestamp}-${random}.${ext}`;
 }
 
+/**
+ * Generate a unique storage key for a receipt photo
+ * Format: receipts/{userId}/{ownerId}/{timestamp}-{random}.{ext}
+ * where ownerId is the lot or expense the receipt belongs to
+ */
+export function generateReceiptKey(
+  userId: string,
+  ownerId: string,
+  contentType: string
+): string {
+  const ext = contentType.split("/")[1] || "jpg";
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).substring(2, 8);
+  return `receipts/${userId}/${ownerId}/${timestamp}-${random}.${ext}`;
+}
+
 /**
  * Generate key for processed (background removed) image
  */
@@ -281,6 +297,7 @@ export const r2Storage = {
   deleteObjects,
   getObjectMetadata,
   generateImageKey,
+  generateReceiptKey,
   generateProcessedImageKey,
   ALLOWED_CONTENT_TYPES,
   MAX_FILE_SIZE,
@@ -0,0 +1,291 @@
+/**
+ * Tax Report Service Tests
+ *
+ * Gross receipts, cost of goods from inventory movement, Schedule C lines,
+ * 1099-K reconciliation, and the CSV and HTML exports, against the real
+ * schema.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import {
+  users,
+  inventoryItems,
+  orders,
+  returns,
+  expenses,
+  sourcingLots,
+  form1099kTotals,
+} from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { getTaxReport, getTaxYearSales, getCostOfGoods } from "..";
+import { buildTaxReportCsvFiles, renderTaxReportHtml } from "../export";
+
+const USER = "user-1";
+const created = new Date("2026-01-02T12:00:00.000Z");
+const lastYear = new Date("2025-06-01T12:00:00.000Z");
+const midYear = new Date("2026-06-15T12:00:00.000Z");
+
+async function seedItem(
+  id: string,
+  costBasis: number | null,
+  fields: Partial<typeof inventoryItems.$inferInsert> = {}
+) {
+  await db.insert(inventoryItems).values({
+    id,
+    userId: USER,
+    sku: `SKU-${id}`,
+    title: `Item ${id}`,
+    description: "Test item",
+    condition: "good",
+    askingPrice: 50,
+    costBasis,
+    status: "active",
+    createdAt: created,
+    updatedAt: created,
+    ...fields,
+  });
+}
+
+async function seedOrder(
+  id: string,
+  itemId: string,
+  fields: Partial<typeof orders.$inferInsert> = {}
+) {
+  await db.insert(orders).values({
+    id,
+    userId: USER,
+    itemId,
+    channel: "ebay",
+    salePrice: 50,
+    status: "paid",
+    orderedAt: midYear,
+    ...fields,
+  });
+}
+
+describe("Tax Report Service", () => {
+  beforeEach(async () => {
+    sqlite.exec(`
+      DELETE FROM returns;
+      DELETE FROM orders;
+      DELETE FROM inventory_items;
+      DELETE FROM sourcing_lots;
+      DELETE FROM expenses;
+      DELETE FROM form_1099k_totals;
+      DELETE FROM users;
+    `);
+    await db.insert(users).values({ id: USER, createdAt: created, updatedAt: created });
+  });
+
+  describe("cost of goods", () => {
+    it("should carry inventory from the prior year and count purchases in the year", async () => {
+      // Bought last year, one of two units sold last year, the other this year
+      await seedItem("old", 10, { quantity: 0, createdAt: lastYear });
+      await seedOrder("old-1", "old", { orderedAt: lastYear });
+      await seedOrder("old-2", "old");
+      // Bought this year, three units, one sold
+      await seedItem("new", 4, { quantity: 2 });
+      await seedOrder("new-1", "new");
+      // Bought next year
+      await seedItem("future", 100, { createdAt: new Date("2027-02-01T12:00:00.000Z") });
+
+      const costOfGoods = await getCostOfGoods(USER, 2026);
+
+      expect(costOfGoods).toEqual({
+        beginningInventory: 10,
+        purchases: 12,
+        endingInventory: 8,
+        costOfGoodsSold: 14,
+        itemsWithoutCost: 0,
+      });
+    });
+
+    it("should date lot items by the lot purchase", async () => {
+      await db.insert(sourcingLots).values({
+        id: "lot-1",
+        userId: USER,
+        name: "Estate sale",
+        purchasedAt: new Date("2025-12-20T12:00:00.000Z"),
+        totalCost: 30,
+        createdAt: created,
+        updatedAt: created,
+      });
+      await seedItem("lot-item", 30, { lotId: "lot-1" });
+
+      const costOfGoods = await getCostOfGoods(USER, 2026);
+
+      expect(costOfGoods.beginningInventory).toBe(30);
+      expect(costOfGoods.purchases).toBe(0);
+    });
+
+    it("should count items without a cost basis", async () => {
+      await seedItem("unknown", null);
+
+      expect((await getCostOfGoods(USER, 2026)).itemsWithoutCost).toBe(1);
+    });
+  });
+
+  describe("report", () => {
+    beforeEach(async () => {
+      await seedItem("item-1", 20, { quantity: 0 });
+      await seedItem("item-2", 5, { quantity: 0 });
+      await seedItem("item-3", 8, { quantity: 0 });
+      await seedOrder("order-1", "item-1", {
+        salePrice: 100,
+        shippingPaid: 10,
+        platformFees: 13,
+        shippingCost: 8,
+      });
+      await seedOrder("order-2", "item-2", {
+        channel: "mercari",
+        salePrice: 40,
+        platformFees: 4,
+        status: "returned",
+      });
+      await seedOrder("order-3", "item-3", { salePrice: 70, status: "cancelled" });
+      // Partially refunded, with a return label paid by the seller
+      await db.insert(returns).values({
+        id: "return-1",
+        userId: USER,
+        orderId: "order-2",
+        itemId: "item-2",
+        channel: "mercari",
+        status: "refunded",
+        refundAmount: 30,
+        returnShippingCost: 6,
+        requestedAt: midYear,
+        refundedAt: midYear,
+        createdAt: midYear,
+        updatedAt: midYear,
+      });
+      await db.insert(expenses).values({
+        id: "expense-1",
+        userId: USER,
+        category: "supplies",
+        description: "Mailers",
+        amount: 15,
+        incurredAt: midYear,
+        createdAt: created,
+        updatedAt: created,
+      });
+    });
+
+    it("should report gross receipts by channel and Schedule C lines", async () => {
+      const report = await getTaxReport(USER, 2026);
+
+      expect(report.channels).toEqual([
+        expect.objectContaining({ channel: "ebay", orderCount: 1, grossReceipts: 110 }),
+        expect.objectContaining({
+          channel: "mercari",
+          grossReceipts: 40,
+          returns: 30,
+          shippingCost: 6,
+        }),
+      ]);
+      expect(Object.fromEntries(report.scheduleC.map((line) => [line.line, line.amount]))).toEqual({
+        "1": 150,
+        "2": 30,
+        "3": 120,
+        "4": 25,
+        "5": 95,
+        "7": 95,
+        "10": 17,
+        "22": 15,
+        "27a": 14,
+        "28": 46,
+        "31": 49,
+      });
+      expect(report.netProfit).toBe(49);
+    });
+
+    it("should count refunds in the year they were issued", async () => {
+      await seedItem("item-4", 10, { quantity: 0 });
+      await seedOrder("order-4", "item-4", { salePrice: 60, orderedAt: lastYear });
+      await db.insert(returns).values({
+        id: "return-2",
+        userId: USER,
+        orderId: "order-4",
+        itemId: "item-4",
+        channel: "poshmark",
+        status: "refunded",
+        refundAmount: 60,
+        requestedAt: midYear,
+        refundedAt: midYear,
+        createdAt: midYear,
+        updatedAt: midYear,
+      });
+
+      const report = await getTaxReport(USER, 2026);
+
+      expect(report.channels).toContainEqual(
+        expect.objectContaining({ channel: "poshmark", orderCount: 0, grossReceipts: 0, returns: 60 })
+      );
+      expect((await getTaxReport(USER, 2025)).returns).toBe(0);
+    });
+
+    it("should reconcile against entered 1099-K totals", async () => {
+      await db.insert(form1099kTotals).values([
+        {
+          id: "form-1",
+          userId: USER,
+          taxYear: 2026,
+          channel: "ebay",
+          grossAmount: 110.5,
+          transactionCount: 1,
+          createdAt: created,
+          updatedAt: created,
+        },
+        {
+          id: "form-2",
+          userId: USER,
+          taxYear: 2026,
+          channel: "poshmark",
+          grossAmount: 600,
+          createdAt: created,
+          updatedAt: created,
+        },
+      ]);
+
+      const { reconciliation } = await getTaxReport(USER, 2026);
+
+      expect(reconciliation.map(({ channel, difference, status }) => ({ channel, difference, status })))
+        .toEqual([
+          { channel: "ebay", difference: 0.5, status: "matched" },
+          { channel: "poshmark", difference: 600, status: "gap" },
+          { channel: "mercari", difference: null, status: "not_entered" },
+        ]);
+    });
+
+    it("should export one CSV per sheet and an escaped HTML summary", async () => {
+      await db
+        .update(inventoryItems)
+        .set({ title: 'Vintage "Levi\'s" <501>' })
+        .where(eq(inventoryItems.id, "item-1"));
+      const report = await getTaxReport(USER, 2026);
+      const sales = await getTaxYearSales(USER, 2026);
+
+      const files = buildTaxReportCsvFiles(report, sales, []);
+
+      expect(files.map((file) => file.name)).toEqual([
+        "schedule-c-summary-2026.csv",
+        "gross-receipts-by-channel-2026.csv",
+        "cost-of-goods-sold-2026.csv",
+        "1099k-reconciliation-2026.csv",
+        "sales-2026.csv",
+        "expenses-2026.csv",
+      ]);
+      expect(files[4].content).toContain('"Vintage ""Levi\'s"" <501>"');
+      expect(String(files[4].content).split("\n")).toHaveLength(3);
+
+      const html = renderTaxReportHtml(report, midYear);
+      expect(html).toContain("<title>Tax Report 2026</title>");
+      expect(html).toContain("Mercari:</strong> No 1099-K total entered");
+    });
+  });
+});
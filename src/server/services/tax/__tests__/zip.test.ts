@@ -0,0 +1,60 @@
+/**
+ * Zip Archive Builder Tests
+ *
+ * Reads archives back through their central directory the way unzip
+ * tools do.
+ */
+
+import { describe, it, expect } from "vitest";
+import { crc32, inflateRawSync } from "zlib";
+import { createZip } from "../zip";
+
+function readZip(zip: Buffer): Array<{ name: string; content: string; crc: number }> {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+
+  const count = zip.readUInt16LE(end + 10);
+  let pointer = zip.readUInt32LE(end + 16);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(pointer)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(pointer + 16);
+    const compressedSize = zip.readUInt32LE(pointer + 20);
+    const nameLength = zip.readUInt16LE(pointer + 28);
+    const offset = zip.readUInt32LE(pointer + 42);
+    const name = zip.toString("utf8", pointer + 46, pointer + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    const content = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString(
+      "utf8"
+    );
+
+    entries.push({ name, content, crc });
+    pointer += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe("createZip", () => {
+  it("should round-trip every file with its checksum", () => {
+    const files = [
+      { name: "sales-2026.csv", content: "Date,Amount\n2026-01-05,12.50" },
+      { name: "résumé.html", content: "<p>Café ☕</p>" },
+      { name: "empty.csv", content: "" },
+    ];
+
+    const entries = readZip(createZip(files, new Date(2026, 0, 31, 9, 30)));
+
+    expect(entries.map(({ name, content }) => ({ name, content }))).toEqual(files);
+    for (const entry of entries) {
+      expect(entry.crc).toBe(crc32(entry.content));
+    }
+  });
+
+  it("should write an empty archive", () => {
+    expect(createZip([])).toHaveLength(22);
+  });
+});
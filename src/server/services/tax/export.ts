@@ -0,0 +1,342 @@
+/**
+ * Tax Report Export
+ *
+ * Renders a tax report as a bundle of CSV sheets and a printable HTML
+ * summary. The zip holds one CSV per sheet plus the same HTML summary.
+ */
+
+import { format } from "date-fns";
+import { CHANNEL_NAMES, EXPENSE_CATEGORY_NAMES } from "@/lib/constants";
+import { escapeHtml } from "@/server/services/email/templates";
+import type { ExpenseOccurrence } from "@/server/services/expenses";
+import {
+  SCHEDULE_C_EXPENSE_LINES,
+  type Reconciliation,
+  type TaxReport,
+  type TaxYearSale,
+} from ".";
+import type { ZipEntry } from "./zip";
+
+// ============ HELPERS ============
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+function money(amount: number | null): string {
+  return amount !== null ? amount.toFixed(2) : "";
+}
+
+function csv(headers: string[], rows: Array<Array<string | number>>): string {
+  return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n");
+}
+
+function formatMoney(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+  });
+  return amount < 0 ? `(${formatted})` : formatted;
+}
+
+const STATUS_LABELS: Record<Reconciliation["status"], string> = {
+  matched: "Matched",
+  gap: "Gap",
+  not_entered: "Not entered",
+};
+
+/**
+ * What a reconciliation result means and what to check
+ */
+export function describeReconciliation(entry: Reconciliation): string {
+  switch (entry.status) {
+    case "matched":
+      return "Recorded sales match the 1099-K.";
+    case "not_entered":
+      return "No 1099-K total entered. Add it when the form arrives, if the platform issues one.";
+    case "gap":
+      return entry.difference !== null && entry.difference > 0
+        ? "The 1099-K shows more than recorded sales. Look for sales missing here, or sales tax the platform collected."
+        : "Recorded sales exceed the 1099-K. Check for refunds, or orders recorded under the wrong channel.";
+  }
+}
+
+// ============ CSV ============
+
+/**
+ * One CSV per sheet of the report
+ */
+export function buildTaxReportCsvFiles(
+  report: TaxReport,
+  sales: TaxYearSale[],
+  occurrences: ExpenseOccurrence[]
+): ZipEntry[] {
+  const year = report.taxYear;
+  const { costOfGoods } = report;
+  const totals = report.channels.reduce(
+    (sum, entry) => ({
+      orderCount: sum.orderCount + entry.orderCount,
+      sales: sum.sales + entry.sales,
+      shippingCharged: sum.shippingCharged + entry.shippingCharged,
+      platformFees: sum.platformFees + entry.platformFees,
+      shippingCost: sum.shippingCost + entry.shippingCost,
+    }),
+    { orderCount: 0, sales: 0, shippingCharged: 0, platformFees: 0, shippingCost: 0 }
+  );
+
+  return [
+    {
+      name: `schedule-c-summary-${year}.csv`,
+      content: csv(
+        ["Line", "Description", "Amount"],
+        report.scheduleC.map((line) => [line.line, quote(line.label), money(line.amount)])
+      ),
+    },
+    {
+      name: `gross-receipts-by-channel-${year}.csv`,
+      content: csv(
+        [
+          "Channel",
+          "Orders",
+          "Sales",
+          "Shipping Charged",
+          "Gross Receipts",
+          "Returns",
+          "Platform Fees",
+          "Shipping Cost",
+        ],
+        [
+          ...report.channels.map((entry) => [
+            CHANNEL_NAMES[entry.channel],
+            entry.orderCount,
+            money(entry.sales),
+            money(entry.shippingCharged),
+            money(entry.grossReceipts),
+            money(entry.returns),
+            money(entry.platformFees),
+            money(entry.shippingCost),
+          ]),
+          [
+            quote("TOTALS"),
+            totals.orderCount,
+            money(totals.sales),
+            money(totals.shippingCharged),
+            money(report.grossReceipts),
+            money(report.returns),
+            money(report.platformFees),
+            money(report.shippingCost),
+          ],
+        ]
+      ),
+    },
+    {
+      name: `cost-of-goods-sold-${year}.csv`,
+      content: csv(
+        ["Line", "Description", "Amount"],
+        [
+          ["35", quote("Inventory at beginning of year"), money(costOfGoods.beginningInventory)],
+          ["36", quote("Purchases"), money(costOfGoods.purchases)],
+          [
+            "40",
+            quote("Add lines 35 through 39"),
+            money(costOfGoods.beginningInventory + costOfGoods.purchases),
+          ],
+          ["41", quote("Inventory at end of year"), money(costOfGoods.endingInventory)],
+          ["42", quote("Cost of goods sold"), money(costOfGoods.costOfGoodsSold)],
+        ]
+      ),
+    },
+    {
+      name: `1099k-reconciliation-${year}.csv`,
+      content: csv(
+        [
+          "Channel",
+          "Recorded Gross",
+          "Recorded Transactions",
+          "1099-K Gross",
+          "1099-K Transactions",
+          "Difference",
+          "Status",
+          "Note",
+        ],
+        report.reconciliation.map((entry) => [
+          CHANNEL_NAMES[entry.channel],
+          money(entry.recordedGross),
+          entry.recordedTransactions,
+          money(entry.reportedGross),
+          entry.reportedTransactions ?? "",
+          money(entry.difference),
+          STATUS_LABELS[entry.status],
+          quote(describeReconciliation(entry)),
+        ])
+      ),
+    },
+    {
+      name: `sales-${year}.csv`,
+      content: csv(
+        [
+          "Date",
+          "Channel",
+          "Order ID",
+          "Item Title",
+          "SKU",
+          "Quantity",
+          "Status",
+          "Sale Price",
+          "Shipping Charged",
+          "Platform Fees",
+          "Shipping Cost",
+          "Cost of Goods",
+        ],
+        sales.map((sale) => [
+          format(sale.orderedAt, "yyyy-MM-dd"),
+          CHANNEL_NAMES[sale.channel],
+          quote(sale.externalOrderId ?? sale.orderId),
+          quote(sale.itemTitle),
+          quote(sale.sku),
+          sale.quantity,
+          sale.status,
+          money(sale.salePrice),
+          money(sale.shippingPaid),
+          money(sale.platformFees),
+          money(sale.shippingCost),
+          money(sale.costOfGoods),
+        ])
+      ),
+    },
+    {
+      name: `expenses-${year}.csv`,
+      content: csv(
+        ["Date", "Category", "Schedule C Line", "Description", "Amount"],
+        occurrences.map((occurrence) => [
+          format(occurrence.date, "yyyy-MM-dd"),
+          quote(EXPENSE_CATEGORY_NAMES[occurrence.category]),
+          SCHEDULE_C_EXPENSE_LINES[occurrence.category].line,
+          quote(occurrence.description),
+          money(occurrence.amount),
+        ])
+      ),
+    },
+  ];
+}
+
+// ============ HTML ============
+
+function table(headers: string[], rows: string[][], numericFrom = 1): string {
+  const cell = (tag: string, value: string, i: number) =>
+    `<${tag}${i >= numericFrom ? ' class="num"' : ""}>${value}</${tag}>`;
+  return `<table>
+  <thead><tr>${headers.map((header, i) => cell("th", escapeHtml(header), i)).join("")}</tr></thead>
+  <tbody>${rows.map((row) => `<tr>${row.map((value, i) => cell("td", value, i)).join("")}</tr>`).join("")}</tbody>
+</table>`;
+}
+
+/**
+ * Printable one-page summary of the report
+ */
+export function renderTaxReportHtml(report: TaxReport, generatedAt: Date = new Date()): string {
+  const { costOfGoods } = report;
+  const flagged = report.reconciliation.filter((entry) => entry.status !== "matched");
+
+  const scheduleC = table(
+    ["Line", "Description", "Amount"],
+    report.scheduleC.map((line) => [
+      escapeHtml(line.line),
+      escapeHtml(line.label),
+      formatMoney(line.amount),
+    ]),
+    2
+  );
+
+  const partIII = table(
+    ["Line", "Description", "Amount"],
+    [
+      ["35", "Inventory at beginning of year", formatMoney(costOfGoods.beginningInventory)],
+      ["36", "Purchases", formatMoney(costOfGoods.purchases)],
+      ["41", "Inventory at end of year", formatMoney(costOfGoods.endingInventory)],
+      ["42", "Cost of goods sold", formatMoney(costOfGoods.costOfGoodsSold)],
+    ],
+    2
+  );
+
+  const channels = table(
+    ["Channel", "Orders", "Gross receipts", "Returns", "Platform fees", "Shipping cost"],
+    report.channels.map((entry) => [
+      escapeHtml(CHANNEL_NAMES[entry.channel]),
+      String(entry.orderCount),
+      formatMoney(entry.grossReceipts),
+      formatMoney(entry.returns),
+      formatMoney(entry.platformFees),
+      formatMoney(entry.shippingCost),
+    ])
+  );
+
+  const reconciliation = table(
+    ["Channel", "Recorded", "1099-K", "Difference", "Status"],
+    report.reconciliation.map((entry) => [
+      escapeHtml(CHANNEL_NAMES[entry.channel]),
+      formatMoney(entry.recordedGross),
+      entry.reportedGross !== null ? formatMoney(entry.reportedGross) : "—",
+      entry.difference !== null ? formatMoney(entry.difference) : "—",
+      `<span class="status-${entry.status}">${STATUS_LABELS[entry.status]}</span>`,
+    ])
+  );
+
+  const expenses = table(
+    ["Category", "Schedule C line", "Amount"],
+    report.expensesByCategory.map((entry) => [
+      escapeHtml(EXPENSE_CATEGORY_NAMES[entry.category]),
+      SCHEDULE_C_EXPENSE_LINES[entry.category].line,
+      formatMoney(entry.amount),
+    ]),
+    2
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tax Report ${report.taxYear}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; max-width: 760px; margin: 32px auto; padding: 0 16px; font-size: 14px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  p.meta { color: #6b7280; margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f3f4f6; }
+  th { font-size: 12px; text-transform: uppercase; color: #6b7280; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .status-matched { color: #15803d; }
+  .status-gap { color: #b91c1c; font-weight: 600; }
+  .status-not_entered { color: #b45309; }
+  ul.flags { padding-left: 20px; }
+  .warning { color: #b45309; }
+  footer { margin-top: 32px; font-size: 12px; color: #6b7280; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } table { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Tax Report ${report.taxYear}</h1>
+<p class="meta">${format(report.start, "MMM d, yyyy")} – ${format(report.end, "MMM d, yyyy")} · Generated ${format(generatedAt, "MMM d, yyyy")}</p>
+
+<h2>Schedule C Summary</h2>
+${scheduleC}
+
+<h2>Cost of Goods Sold (Part III)</h2>
+${partIII}
+${costOfGoods.itemsWithoutCost > 0 ? `<p class="warning">${costOfGoods.itemsWithoutCost} item(s) have no cost basis and are not included.</p>` : ""}
+
+<h2>Gross Receipts by Channel</h2>
+${report.channels.length > 0 ? channels : "<p>No sales recorded this year.</p>"}
+
+<h2>1099-K Reconciliation</h2>
+${report.reconciliation.length > 0 ? reconciliation : "<p>No sales or 1099-K forms this year.</p>"}
+${flagged.length > 0 ? `<ul class="flags">${flagged.map((entry) => `<li><strong>${escapeHtml(CHANNEL_NAMES[entry.channel])}:</strong> ${escapeHtml(describeReconciliation(entry))}</li>`).join("")}</ul>` : ""}
+
+<h2>Expenses</h2>
+${report.expensesByCategory.length > 0 ? expenses : "<p>No expenses recorded this year.</p>"}
+
+<footer>Prepared from the sales, inventory, and expenses recorded in ResellerOS. Review with a tax professional before filing.</footer>
+</body>
+</html>`;
+}
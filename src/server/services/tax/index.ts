@@ -0,0 +1,503 @@
+/**
+ * Tax Report Service for ResellerOS
+ *
+ * Year-end figures laid out the way Schedule C asks for them: gross
+ * receipts by channel, cost of goods sold from beginning inventory,
+ * purchases and ending inventory (Part III), and selling costs and
+ * expenses by line. Recorded receipts are reconciled against the 1099-K
+ * totals the user enters for each channel.
+ *
+ * Cancelled orders are left out. Returned orders still count toward gross
+ * receipts, matching how 1099-K forms report them; the refunds issued
+ * during the year are the returns and allowances, and return labels count
+ * as shipping.
+ */
+
+import { db } from "@/server/db/client";
+import {
+  orders,
+  inventoryItems,
+  returns,
+  sourcingLots,
+  form1099kTotals,
+} from "@/server/db/schema";
+import { eq, and, gte, lte, ne, desc } from "drizzle-orm";
+import { startOfYear, endOfYear } from "date-fns";
+import {
+  CHANNELS,
+  type Channel,
+  type ExpenseCategory,
+} from "@/lib/constants";
+import { getExpenseOccurrences, type ExpenseOccurrence } from "@/server/services/expenses";
+
+// ============ TYPES ============
+
+export interface ChannelReceipts {
+  channel: Channel;
+  orderCount: number;
+  sales: number;
+  shippingCharged: number;
+  /** Sales plus shipping charged to buyers */
+  grossReceipts: number;
+  /** Refunds issued during the year */
+  returns: number;
+  platformFees: number;
+  /** Postage on orders and return labels */
+  shippingCost: number;
+}
+
+export interface CostOfGoods {
+  /** Line 35 */
+  beginningInventory: number;
+  /** Line 36 */
+  purchases: number;
+  /** Line 41 */
+  endingInventory: number;
+  /** Line 42 */
+  costOfGoodsSold: number;
+  /** Items sold or held during the year with no cost basis */
+  itemsWithoutCost: number;
+}
+
+export type ReconciliationStatus = "matched" | "gap" | "not_entered";
+
+export interface Reconciliation {
+  channel: Channel;
+  recordedGross: number;
+  recordedTransactions: number;
+  reportedGross: number | null;
+  reportedTransactions: number | null;
+  /** Reported less recorded; positive when the form shows more */
+  difference: number | null;
+  status: ReconciliationStatus;
+}
+
+export interface ScheduleCLine {
+  line: string;
+  label: string;
+  amount: number;
+}
+
+export interface TaxReport {
+  taxYear: number;
+  start: Date;
+  end: Date;
+  channels: ChannelReceipts[];
+  grossReceipts: number;
+  returns: number;
+  costOfGoods: CostOfGoods;
+  platformFees: number;
+  shippingCost: number;
+  expensesByCategory: Array<{ category: ExpenseCategory; amount: number }>;
+  scheduleC: ScheduleCLine[];
+  netProfit: number;
+  reconciliation: Reconciliation[];
+}
+
+export interface TaxYearSale {
+  orderId: string;
+  orderedAt: Date;
+  channel: Channel;
+  externalOrderId: string | null;
+  itemTitle: string;
+  sku: string;
+  quantity: number;
+  status: string;
+  salePrice: number;
+  shippingPaid: number;
+  platformFees: number;
+  shippingCost: number;
+  costOfGoods: number | null;
+}
+
+export interface TaxYearRefund {
+  channel: Channel;
+  refundAmount: number;
+  returnShippingCost: number;
+}
+
+// ============ CONSTANTS ============
+
+/** Differences up to this are treated as rounding */
+export const RECONCILIATION_TOLERANCE = 1;
+
+/** Where each expense category is reported on Schedule C */
+export const SCHEDULE_C_EXPENSE_LINES: Record<ExpenseCategory, { line: string; label: string }> = {
+  mileage: { line: "9", label: "Car and truck expenses" },
+  storage: { line: "20b", label: "Rent or lease: other business property" },
+  supplies: { line: "22", label: "Supplies" },
+  equipment: { line: "22", label: "Supplies" },
+  shipping: { line: "27a", label: "Other expenses" },
+  subscriptions: { line: "27a", label: "Other expenses" },
+  fees: { line: "27a", label: "Other expenses" },
+  other: { line: "27a", label: "Other expenses" },
+};
+
+// ============ HELPERS ============
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Calendar year boundaries
+ */
+export function getTaxYearRange(taxYear: number): { start: Date; end: Date } {
+  const start = startOfYear(new Date(taxYear, 0, 1));
+  return { start, end: endOfYear(start) };
+}
+
+// ============ SALES ============
+
+/**
+ * Orders placed during the year, excluding cancellations, newest first
+ */
+export async function getTaxYearSales(userId: string, taxYear: number): Promise<TaxYearSale[]> {
+  const { start, end } = getTaxYearRange(taxYear);
+
+  const rows = await db
+    .select({
+      orderId: orders.id,
+      orderedAt: orders.orderedAt,
+      channel: orders.channel,
+      externalOrderId: orders.externalOrderId,
+      itemTitle: inventoryItems.title,
+      sku: inventoryItems.sku,
+      quantity: orders.quantity,
+      status: orders.status,
+      salePrice: orders.salePrice,
+      shippingPaid: orders.shippingPaid,
+      platformFees: orders.platformFees,
+      shippingCost: orders.shippingCost,
+      costBasis: inventoryItems.costBasis,
+    })
+    .from(orders)
+    .innerJoin(inventoryItems, eq(orders.itemId, inventoryItems.id))
+    .where(
+      and(
+        eq(orders.userId, userId),
+        ne(orders.status, "cancelled"),
+        gte(orders.orderedAt, start),
+        lte(orders.orderedAt, end)
+      )
+    )
+    .orderBy(desc(orders.orderedAt));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return rows.map(({ costBasis, ...row }: any) => ({
+    ...row,
+    shippingPaid: row.shippingPaid ?? 0,
+    platformFees: row.platformFees ?? 0,
+    shippingCost: row.shippingCost ?? 0,
+    costOfGoods: costBasis !== null ? costBasis * row.quantity : null,
+  }));
+}
+
+/**
+ * Refunds issued during the year, whenever the order was placed
+ */
+export async function getTaxYearRefunds(
+  userId: string,
+  taxYear: number
+): Promise<TaxYearRefund[]> {
+  const { start, end } = getTaxYearRange(taxYear);
+
+  const rows = await db
+    .select({
+      channel: returns.channel,
+      refundAmount: returns.refundAmount,
+      returnShippingCost: returns.returnShippingCost,
+    })
+    .from(returns)
+    .where(
+      and(eq(returns.userId, userId), gte(returns.refundedAt, start), lte(returns.refundedAt, end))
+    );
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return rows.map((row: any) => ({
+    channel: row.channel,
+    refundAmount: row.refundAmount ?? 0,
+    returnShippingCost: row.returnShippingCost ?? 0,
+  }));
+}
+
+/**
+ * Gross receipts, returns, and selling costs for each channel with sales
+ * or refunds
+ */
+export function summarizeChannels(
+  sales: TaxYearSale[],
+  refunds: TaxYearRefund[] = []
+): ChannelReceipts[] {
+  const byChannel = new Map<Channel, ChannelReceipts>();
+  const entryFor = (channel: Channel): ChannelReceipts => {
+    const entry = byChannel.get(channel) ?? {
+      channel,
+      orderCount: 0,
+      sales: 0,
+      shippingCharged: 0,
+      grossReceipts: 0,
+      returns: 0,
+      platformFees: 0,
+      shippingCost: 0,
+    };
+    byChannel.set(channel, entry);
+    return entry;
+  };
+
+  for (const sale of sales) {
+    const entry = entryFor(sale.channel);
+    entry.orderCount++;
+    entry.sales += sale.salePrice;
+    entry.shippingCharged += sale.shippingPaid;
+    entry.grossReceipts += sale.salePrice + sale.shippingPaid;
+    entry.platformFees += sale.platformFees;
+    entry.shippingCost += sale.shippingCost;
+  }
+
+  for (const refund of refunds) {
+    const entry = entryFor(refund.channel);
+    entry.returns += refund.refundAmount;
+    entry.shippingCost += refund.returnShippingCost;
+  }
+
+  return CHANNELS.filter((channel) => byChannel.has(channel)).map((channel) => {
+    const entry = byChannel.get(channel)!;
+    return {
+      ...entry,
+      sales: roundCurrency(entry.sales),
+      shippingCharged: roundCurrency(entry.shippingCharged),
+      grossReceipts: roundCurrency(entry.grossReceipts),
+      returns: roundCurrency(entry.returns),
+      platformFees: roundCurrency(entry.platformFees),
+      shippingCost: roundCurrency(entry.shippingCost),
+    };
+  });
+}
+
+// ============ COST OF GOODS ============
+
+/**
+ * Schedule C Part III for the year. Each item is acquired on its lot's
+ * purchase date (or when it was added) and holds its remaining quantity
+ * plus every unit sold since; inventory on a date is what was acquired by
+ * then less what had sold.
+ */
+export async function getCostOfGoods(userId: string, taxYear: number): Promise<CostOfGoods> {
+  const { start, end } = getTaxYearRange(taxYear);
+
+  const items = await db
+    .select({
+      id: inventoryItems.id,
+      costBasis: inventoryItems.costBasis,
+      quantity: inventoryItems.quantity,
+      createdAt: inventoryItems.createdAt,
+      lotPurchasedAt: sourcingLots.purchasedAt,
+    })
+    .from(inventoryItems)
+    .leftJoin(sourcingLots, eq(inventoryItems.lotId, sourcingLots.id))
+    .where(eq(inventoryItems.userId, userId));
+
+  const sold = await db
+    .select({ itemId: orders.itemId, quantity: orders.quantity, orderedAt: orders.orderedAt })
+    .from(orders)
+    .where(and(eq(orders.userId, userId), ne(orders.status, "cancelled")));
+
+  const salesByItem = new Map<string, Array<{ quantity: number; orderedAt: Date }>>();
+  for (const sale of sold) {
+    salesByItem.set(sale.itemId, [...(salesByItem.get(sale.itemId) ?? []), sale]);
+  }
+
+  let beginningInventory = 0;
+  let purchases = 0;
+  let endingInventory = 0;
+  let itemsWithoutCost = 0;
+
+  for (const item of items) {
+    const acquiredAt: Date = item.lotPurchasedAt ?? item.createdAt;
+    if (acquiredAt > end) continue;
+
+    const sales = salesByItem.get(item.id) ?? [];
+    const acquiredUnits =
+      item.quantity + sales.reduce((sum, sale) => sum + sale.quantity, 0);
+    const unitsOnHand = (date: Date) =>
+      acquiredAt > date
+        ? 0
+        : Math.max(
+            0,
+            acquiredUnits -
+              sales
+                .filter((sale) => sale.orderedAt <= date)
+                .reduce((sum, sale) => sum + sale.quantity, 0)
+          );
+
+    const openingUnits = unitsOnHand(new Date(start.getTime() - 1));
+    const purchasedUnits = acquiredAt >= start ? acquiredUnits : 0;
+    const closingUnits = unitsOnHand(end);
+
+    if (openingUnits === 0 && purchasedUnits === 0) continue;
+    if (item.costBasis === null) {
+      itemsWithoutCost++;
+      continue;
+    }
+
+    beginningInventory += item.costBasis * openingUnits;
+    purchases += item.costBasis * purchasedUnits;
+    endingInventory += item.costBasis * closingUnits;
+  }
+
+  return {
+    beginningInventory: roundCurrency(beginningInventory),
+    purchases: roundCurrency(purchases),
+    endingInventory: roundCurrency(endingInventory),
+    costOfGoodsSold: roundCurrency(beginningInventory + purchases - endingInventory),
+    itemsWithoutCost,
+  };
+}
+
+// ============ 1099-K ============
+
+/**
+ * Compare recorded gross receipts with the 1099-K totals entered for the
+ * year. Channels with sales but no form entered are flagged too, since a
+ * form may still be on its way.
+ */
+export async function reconcile1099K(
+  userId: string,
+  taxYear: number,
+  channels: ChannelReceipts[]
+): Promise<Reconciliation[]> {
+  const forms = await db
+    .select()
+    .from(form1099kTotals)
+    .where(and(eq(form1099kTotals.userId, userId), eq(form1099kTotals.taxYear, taxYear)));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const formByChannel = new Map<Channel, any>(forms.map((form: any) => [form.channel, form]));
+
+  return CHANNELS.filter(
+    (channel) => formByChannel.has(channel) || channels.some((entry) => entry.channel === channel)
+  ).map((channel) => {
+    const recorded = channels.find((entry) => entry.channel === channel);
+    const form = formByChannel.get(channel);
+    const recordedGross = recorded?.grossReceipts ?? 0;
+
+    if (!form) {
+      return {
+        channel,
+        recordedGross,
+        recordedTransactions: recorded?.orderCount ?? 0,
+        reportedGross: null,
+        reportedTransactions: null,
+        difference: null,
+        status: "not_entered" as const,
+      };
+    }
+
+    const difference = roundCurrency(form.grossAmount - recordedGross);
+    return {
+      channel,
+      recordedGross,
+      recordedTransactions: recorded?.orderCount ?? 0,
+      reportedGross: form.grossAmount,
+      reportedTransactions: form.transactionCount,
+      difference,
+      status:
+        Math.abs(difference) <= RECONCILIATION_TOLERANCE ? ("matched" as const) : ("gap" as const),
+    };
+  });
+}
+
+// ============ REPORT ============
+
+/**
+ * Schedule C lines from the year's receipts, cost of goods, and expenses
+ */
+export function buildScheduleC(
+  channels: ChannelReceipts[],
+  costOfGoods: CostOfGoods,
+  occurrences: ExpenseOccurrence[]
+): ScheduleCLine[] {
+  const sum = (field: keyof Omit<ChannelReceipts, "channel">) =>
+    channels.reduce((total, entry) => total + entry[field], 0);
+
+  const grossReceipts = sum("grossReceipts");
+  const returns = sum("returns");
+  const grossProfit = grossReceipts - returns - costOfGoods.costOfGoodsSold;
+
+  // Platform fees are commissions; postage paid on orders is an other expense
+  const expenseLines = new Map<string, ScheduleCLine>([
+    ["10", { line: "10", label: "Commissions and fees", amount: sum("platformFees") }],
+    ["27a", { line: "27a", label: "Other expenses", amount: sum("shippingCost") }],
+  ]);
+  for (const occurrence of occurrences) {
+    const { line, label } = SCHEDULE_C_EXPENSE_LINES[occurrence.category];
+    const entry = expenseLines.get(line) ?? { line, label, amount: 0 };
+    entry.amount += occurrence.amount;
+    expenseLines.set(line, entry);
+  }
+
+  const expenses = Array.from(expenseLines.values())
+    .filter((entry) => entry.amount !== 0)
+    .sort((a, b) => parseFloat(a.line) - parseFloat(b.line))
+    .map((entry) => ({ ...entry, amount: roundCurrency(entry.amount) }));
+  const totalExpenses = expenses.reduce((total, entry) => total + entry.amount, 0);
+
+  return [
+    { line: "1", label: "Gross receipts or sales", amount: roundCurrency(grossReceipts) },
+    { line: "2", label: "Returns and allowances", amount: roundCurrency(returns) },
+    { line: "3", label: "Subtract line 2 from line 1", amount: roundCurrency(grossReceipts - returns) },
+    { line: "4", label: "Cost of goods sold", amount: costOfGoods.costOfGoodsSold },
+    { line: "5", label: "Gross profit", amount: roundCurrency(grossProfit) },
+    { line: "7", label: "Gross income", amount: roundCurrency(grossProfit) },
+    ...expenses,
+    { line: "28", label: "Total expenses", amount: roundCurrency(totalExpenses) },
+    { line: "31", label: "Net profit or (loss)", amount: roundCurrency(grossProfit - totalExpenses) },
+  ];
+}
+
+/**
+ * The full year-end report for a calendar year
+ */
+export async function getTaxReport(userId: string, taxYear: number): Promise<TaxReport> {
+  const { start, end } = getTaxYearRange(taxYear);
+
+  const [sales, refunds, costOfGoods, occurrences] = await Promise.all([
+    getTaxYearSales(userId, taxYear),
+    getTaxYearRefunds(userId, taxYear),
+    getCostOfGoods(userId, taxYear),
+    getExpenseOccurrences(userId, start, end),
+  ]);
+
+  const channels = summarizeChannels(sales, refunds);
+  const scheduleC = buildScheduleC(channels, costOfGoods, occurrences);
+  const reconciliation = await reconcile1099K(userId, taxYear, channels);
+
+  const byCategory = new Map<ExpenseCategory, number>();
+  for (const occurrence of occurrences) {
+    byCategory.set(
+      occurrence.category,
+      (byCategory.get(occurrence.category) ?? 0) + occurrence.amount
+    );
+  }
+  const sum = (field: keyof Omit<ChannelReceipts, "channel">) =>
+    roundCurrency(channels.reduce((total, entry) => total + entry[field], 0));
+
+  return {
+    taxYear,
+    start,
+    end,
+    channels,
+    grossReceipts: sum("grossReceipts"),
+    returns: sum("returns"),
+    costOfGoods,
+    platformFees: sum("platformFees"),
+    shippingCost: sum("shippingCost"),
+    expensesByCategory: Array.from(byCategory.entries())
+      .map(([category, amount]) => ({ category, amount: roundCurrency(amount) }))
+      .sort((a, b) => b.amount - a.amount),
+    scheduleC,
+    netProfit: scheduleC[scheduleC.length - 1].amount,
+    reconciliation,
+  };
+}
@@ -2,6 +2,7 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 import { type Context } from "./context";
+import { EntitlementError } from "@/server/services/entitlements";
 
 /**
  * Initialization of tRPC backend
@@ -16,6 +17,16 @@ const t = initTRPC.context<Context>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? error.cause.flatten() : null,
+        // Plan limit details so the client can show an upgrade prompt
+        entitlement:
+          error.cause instanceof EntitlementError
+            ? {
+                entitlement: error.cause.entitlement,
+                tier: error.cause.tier,
+                used: error.cause.used,
+                limit: error.cause.limit,
+              }
+            : null,
       },
     };
   },
@@ -53,11 +64,27 @@ const enforceAuth = t.middleware(({ ctx, next }) => {
   });
 });
 
+/**
+ * Middleware to report plan limits as FORBIDDEN
+ * Services throw EntitlementError; without this it would surface as a 500
+ */
+const mapEntitlementErrors = t.middleware(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof EntitlementError) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: result.error.cause.message,
+      cause: result.error.cause,
+    });
+  }
+  return result;
+});
+
 /**
  * Protected (authenticated) procedure
  * Requires user to be logged in
  */
-export const protectedProcedure = t.procedure.use(enforceAuth);
+export const protectedProcedure = t.procedure.use(enforceAuth).use(mapEntitlementErrors);
 
 /**
  * Alias for backward compatibility
@@ -9,6 +9,13 @@ import { imagesRouter } from "./routers/images";
 import { aiRouter } from "./routers/ai";
 import { auditRouter } from "./routers/audit";
 import { settingsRouter } from "./routers/settings";
+import { offersRouter } from "./routers/offers";
+import { notificationsRouter } from "./routers/notifications";
+import { promotionsRouter } from "./routers/promotions";
+import { sourcingRouter } from "./routers/sourcing";
+import { expensesRouter } from "./routers/expenses";
+import { taxRouter } from "./routers/tax";
+import { returnsRouter } from "./routers/returns";
 
 /**
  * This is the primary router for the server.
@@ -26,6 +33,13 @@ export const appRouter = createTRPCRouter({
   ai: aiRouter,
   audit: auditRouter,
   settings: settingsRouter,
+  offers: offersRouter,
+  notifications: notificationsRouter,
+  promotions: promotionsRouter,
+  sourcing: sourcingRouter,
+  expenses: expensesRouter,
+  tax: taxRouter,
+  returns: returnsRouter,
 });
 
 // Export type definition of API
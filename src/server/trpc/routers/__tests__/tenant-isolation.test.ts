@@ -0,0 +1,637 @@
+/**
+ * Tenant Isolation Tests
+ *
+ * Seeds two users against the real schema and checks that one user's
+ * callers can neither read nor mutate the other's rows through any router.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+
+vi.mock("@/server/db/client", () => import("@/server/db/testing"));
+
+// Import after mocking
+import { db } from "@/server/db/client";
+import { sqlite } from "@/server/db/testing";
+import {
+  users,
+  inventoryItems,
+  itemImages,
+  channelListings,
+  orders,
+  auditLog,
+  autopilotRules,
+  autopilotActions,
+  offers,
+  promotions,
+  sourcingLots,
+  expenses,
+  form1099kTotals,
+  returns,
+  notifications,
+} from "@/server/db/schema";
+import { appRouter } from "@/server/trpc/root";
+import { createCallerFactory } from "@/server/trpc/init";
+import { eq } from "drizzle-orm";
+
+const OWNER = "user-a";
+const OTHER = "user-b";
+
+const callerFor = (userId: string) =>
+  createCallerFactory(appRouter)({
+    db,
+    session: { user: { id: userId }, expires: "" },
+    user: { id: userId },
+  });
+
+async function expectNotFound(promise: Promise<unknown>) {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(TRPCError);
+  expect((error as TRPCError).code).toBe("NOT_FOUND");
+}
+
+async function seedUser(userId: string) {
+  const now = new Date();
+  const hourFromNow = new Date(now.getTime() + 60 * 60 * 1000);
+
+  await db.insert(users).values({ id: userId, createdAt: now, updatedAt: now });
+  await db.insert(sourcingLots).values({
+    id: `lot-${userId}`,
+    userId,
+    name: `Estate sale of ${userId}`,
+    purchasedAt: now,
+    totalCost: 20,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(inventoryItems).values({
+    id: `item-${userId}`,
+    userId,
+    sku: `SKU-${userId}`,
+    title: `Jacket of ${userId}`,
+    description: "Denim jacket",
+    condition: "good",
+    askingPrice: 50,
+    floorPrice: 30,
+    status: "active",
+    lotId: `lot-${userId}`,
+    costBasis: 20,
+    createdAt: now,
+    updatedAt: now,
+    listedAt: now,
+  });
+  await db.insert(itemImages).values({
+    id: `image-${userId}`,
+    itemId: `item-${userId}`,
+    originalUrl: `https://cdn.example.com/images/${userId}/item-${userId}/1.jpg`,
+    position: 0,
+    createdAt: now,
+  });
+  await db.insert(channelListings).values({
+    id: `listing-${userId}`,
+    itemId: `item-${userId}`,
+    channel: "mercari",
+    price: 50,
+    status: "active",
+    createdAt: now,
+  });
+  await db.insert(orders).values({
+    id: `order-${userId}`,
+    userId,
+    itemId: `item-${userId}`,
+    channel: "mercari",
+    salePrice: 45,
+    status: "paid",
+    orderedAt: now,
+  });
+  await db.insert(auditLog).values({
+    id: `audit-${userId}`,
+    userId,
+    actionType: "PRICE_CHANGE",
+    itemId: `item-${userId}`,
+    channel: "mercari",
+    source: "USER",
+    beforeState: { price: 60 },
+    afterState: { price: 50 },
+    reversible: true,
+    undoDeadline: hourFromNow,
+    timestamp: now,
+  });
+  await db.insert(autopilotRules).values({
+    id: `rule-${userId}`,
+    userId,
+    ruleType: "offer",
+    config: {},
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(autopilotActions).values({
+    id: `action-${userId}`,
+    userId,
+    itemId: `item-${userId}`,
+    ruleId: `rule-${userId}`,
+    actionType: "REPRICE",
+    confidence: 0.9,
+    confidenceLevel: "HIGH",
+    beforeState: { price: 50 },
+    afterState: { price: 45 },
+    status: "pending",
+    requiresApproval: true,
+    reversible: true,
+    undoDeadline: hourFromNow,
+    createdAt: now,
+  });
+  await db.insert(offers).values({
+    id: `offer-${userId}`,
+    userId,
+    itemId: `item-${userId}`,
+    channelListingId: `listing-${userId}`,
+    channel: "mercari",
+    externalOfferId: `external-offer-${userId}`,
+    amount: 40,
+    askingPrice: 50,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(promotions).values({
+    id: `promotion-${userId}`,
+    userId,
+    channel: "ebay",
+    name: `Sale of ${userId}`,
+    discountPercent: 10,
+    startsAt: hourFromNow,
+    endsAt: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000),
+    status: "scheduled",
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(expenses).values({
+    id: `expense-${userId}`,
+    userId,
+    category: "supplies",
+    description: `Mailers of ${userId}`,
+    amount: 12,
+    incurredAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(form1099kTotals).values({
+    id: `form-${userId}`,
+    userId,
+    taxYear: now.getFullYear(),
+    channel: "mercari",
+    grossAmount: 45,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(returns).values({
+    id: `return-${userId}`,
+    userId,
+    orderId: `order-${userId}`,
+    itemId: `item-${userId}`,
+    channel: "mercari",
+    status: "requested",
+    requestedAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.insert(notifications).values({
+    id: `notification-${userId}`,
+    userId,
+    type: "SALE",
+    message: `Sold the jacket of ${userId}`,
+    createdAt: now,
+  });
+}
+
+async function getOwnerItem() {
+  return db.query.inventoryItems.findFirst({ where: eq(inventoryItems.id, `item-${OWNER}`) });
+}
+
+describe("tenant isolation", () => {
+  const other = callerFor(OTHER);
+
+  beforeEach(async () => {
+    sqlite.exec(`
+      DELETE FROM notifications;
+      DELETE FROM returns;
+      DELETE FROM form_1099k_totals;
+      DELETE FROM expenses;
+      DELETE FROM promotion_items;
+      DELETE FROM promotions;
+      DELETE FROM offers;
+      DELETE FROM autopilot_actions;
+      DELETE FROM autopilot_rules;
+      DELETE FROM audit_log;
+      DELETE FROM orders;
+      DELETE FROM channel_listings;
+      DELETE FROM item_images;
+      DELETE FROM inventory_items;
+      DELETE FROM sourcing_lots;
+      DELETE FROM users;
+    `);
+    await seedUser(OWNER);
+    await seedUser(OTHER);
+  });
+
+  it("should reject unauthenticated callers", async () => {
+    const anonymous = createCallerFactory(appRouter)({ db, session: null, user: null });
+
+    for (const call of [
+      anonymous.inventory.list({}),
+      anonymous.inventory.getById({ id: `item-${OWNER}` }),
+      anonymous.inventory.getStats(),
+    ]) {
+      const error = await call.catch((e) => e);
+      expect((error as TRPCError).code).toBe("UNAUTHORIZED");
+    }
+  });
+
+  // ============ INVENTORY ============
+
+  describe("inventory", () => {
+    it("should only read the caller's items", async () => {
+      const { items } = await other.inventory.list({});
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(items.map((item: any) => item.id)).toEqual([`item-${OTHER}`]);
+
+      expect((await other.inventory.getStats()).total).toBe(1);
+      await expectNotFound(other.inventory.getById({ id: `item-${OWNER}` }));
+    });
+
+    it("should not mutate another user's items", async () => {
+      await expectNotFound(other.inventory.update({ id: `item-${OWNER}`, title: "Taken" }));
+      await expectNotFound(other.inventory.delete({ ids: [`item-${OWNER}`] }));
+      await expectNotFound(
+        other.inventory.bulkReprice({ ids: [`item-${OWNER}`], mode: "fixed", value: 1 })
+      );
+      await expectNotFound(other.inventory.toggleShipReady({ id: `item-${OWNER}` }));
+      await expectNotFound(other.inventory.publish({ id: `item-${OWNER}`, channels: ["mercari"] }));
+      await other.inventory.archive({ ids: [`item-${OWNER}`] });
+      await other.inventory.bulkUpdateStatus({ ids: [`item-${OWNER}`], status: "sold" });
+      await other.inventory.bulkDelist({ ids: [`item-${OWNER}`] });
+
+      const item = await getOwnerItem();
+      expect(item).toMatchObject({ title: `Jacket of ${OWNER}`, status: "active", askingPrice: 50 });
+      const listing = await db.query.channelListings.findFirst({
+        where: eq(channelListings.id, `listing-${OWNER}`),
+      });
+      expect(listing?.status).toBe("active");
+    });
+  });
+
+  // ============ LISTINGS ============
+
+  describe("listings", () => {
+    it("should only read the caller's listings", async () => {
+      const { listings } = await other.listings.list({});
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(listings.map((listing: any) => listing.id)).toEqual([`listing-${OTHER}`]);
+
+      expect(await other.listings.getByItemId({ itemId: `item-${OWNER}` })).toEqual([]);
+    });
+
+    it("should not mutate another user's listings", async () => {
+      await expectNotFound(other.listings.updatePrice({ listingId: `listing-${OWNER}`, price: 1 }));
+      await expectNotFound(other.listings.delist({ listingId: `listing-${OWNER}` }));
+      await expectNotFound(
+        other.listings.updateExternalUrl({
+          listingId: `listing-${OWNER}`,
+          externalUrl: "https://example.com/listing",
+        })
+      );
+
+      const listing = await db.query.channelListings.findFirst({
+        where: eq(channelListings.id, `listing-${OWNER}`),
+      });
+      expect(listing).toMatchObject({ price: 50, status: "active", externalUrl: null });
+    });
+  });
+
+  // ============ ORDERS ============
+
+  describe("orders", () => {
+    it("should only read the caller's orders", async () => {
+      const { orders: result } = await other.orders.list({});
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(result.map((order: any) => order.id)).toEqual([`order-${OTHER}`]);
+
+      expect(await other.orders.getById({ id: `order-${OWNER}` })).toBeNull();
+    });
+
+    it("should not mutate another user's orders or sell their items", async () => {
+      await expectNotFound(
+        other.orders.markShipped({ orderId: `order-${OWNER}`, trackingNumber: "1Z", carrier: "ups" })
+      );
+      await expectNotFound(other.orders.updateStatus({ id: `order-${OWNER}`, status: "cancelled" }));
+      await expectNotFound(
+        other.orders.recordSale({ itemId: `item-${OWNER}`, channel: "mercari", salePrice: 1 })
+      );
+
+      const order = await db.query.orders.findFirst({ where: eq(orders.id, `order-${OWNER}`) });
+      expect(order).toMatchObject({ status: "paid", trackingNumber: null });
+      expect((await getOwnerItem())?.status).toBe("active");
+    });
+  });
+
+  // ============ IMAGES ============
+
+  describe("images", () => {
+    it("should not read another user's images", async () => {
+      await expectNotFound(other.images.getByItemId({ itemId: `item-${OWNER}` }));
+      await expectNotFound(
+        other.images.getUploadUrl({ itemId: `item-${OWNER}`, contentType: "image/jpeg" })
+      );
+    });
+
+    it("should not mutate another user's images", async () => {
+      await expectNotFound(
+        other.images.confirmUpload({
+          itemId: `item-${OWNER}`,
+          key: `images/${OWNER}/item-${OWNER}/2.jpg`,
+        })
+      );
+      await expectNotFound(other.images.delete({ imageId: `image-${OWNER}` }));
+      await expectNotFound(
+        other.images.reorder({ itemId: `item-${OWNER}`, imageIds: [`image-${OWNER}`] })
+      );
+      await expectNotFound(
+        other.images.setProcessedUrl({
+          imageId: `image-${OWNER}`,
+          processedUrl: "https://example.com/taken.png",
+        })
+      );
+      await expectNotFound(other.images.deleteAllForItem({ itemId: `item-${OWNER}` }));
+
+      const images = await db.query.itemImages.findMany({
+        where: eq(itemImages.itemId, `item-${OWNER}`),
+      });
+      expect(images).toHaveLength(1);
+      expect(images[0].processedUrl).toBeNull();
+    });
+
+    it("should reject upload keys issued for another user", async () => {
+      const error = await callerFor(OTHER)
+        .images.confirmUpload({
+          itemId: `item-${OTHER}`,
+          key: `images/${OWNER}/item-${OWNER}/1.jpg`,
+        })
+        .catch((e) => e);
+
+      expect((error as TRPCError).code).toBe("BAD_REQUEST");
+    });
+  });
+
+  // ============ AUDIT ============
+
+  describe("audit", () => {
+    it("should only read the caller's audit entries", async () => {
+      const { entries } = await other.audit.list({});
+      expect(entries.map((entry) => entry.id)).toEqual([`audit-${OTHER}`]);
+
+      await expectNotFound(other.audit.getById({ id: `audit-${OWNER}` }));
+      expect((await other.audit.canUndo({ auditId: `audit-${OWNER}` })).canUndo).toBe(false);
+    });
+
+    it("should not undo another user's actions", async () => {
+      await expectNotFound(other.audit.undo({ auditId: `audit-${OWNER}` }));
+
+      const entry = await db.query.auditLog.findFirst({
+        where: eq(auditLog.id, `audit-${OWNER}`),
+      });
+      expect(entry?.reversedAt).toBeNull();
+    });
+  });
+
+  // ============ AUTOPILOT ============
+
+  describe("autopilot", () => {
+    it("should only read the caller's rules and actions", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const ruleIds = (await other.autopilot.listRules()).map((rule: any) => rule.id);
+      expect(ruleIds).toEqual([`rule-${OTHER}`]);
+
+      expect(await other.autopilot.getRuleById({ id: `rule-${OWNER}` })).toBeNull();
+
+      const { actions } = await other.autopilot.getPendingActions();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(actions.map((action: any) => action.id)).toEqual([`action-${OTHER}`]);
+    });
+
+    it("should not mutate another user's rules or actions", async () => {
+      await expectNotFound(other.autopilot.toggleRule({ id: `rule-${OWNER}`, enabled: false }));
+      await expectNotFound(
+        other.autopilot.resolveAction({ actionId: `action-${OWNER}`, decision: "reject" })
+      );
+      await expectNotFound(other.autopilot.undoAction({ actionId: `action-${OWNER}` }));
+      await other.autopilot
+        .bulkResolveActions({ actionIds: [`action-${OWNER}`], decision: "reject" })
+        .catch(() => undefined);
+
+      const rule = await db.query.autopilotRules.findFirst({
+        where: eq(autopilotRules.id, `rule-${OWNER}`),
+      });
+      expect(rule?.enabled).toBe(true);
+      const action = await db.query.autopilotActions.findFirst({
+        where: eq(autopilotActions.id, `action-${OWNER}`),
+      });
+      expect(action?.status).toBe("pending");
+    });
+  });
+
+  // ============ OFFERS ============
+
+  describe("offers", () => {
+    it("should only read the caller's offers", async () => {
+      const { offers: result, pendingCount } = await other.offers.list({});
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(result.map((offer: any) => offer.id)).toEqual([`offer-${OTHER}`]);
+      expect(pendingCount).toBe(1);
+
+      await expectNotFound(other.offers.getById({ id: `offer-${OWNER}` }));
+      await expectNotFound(other.offers.history({ channelListingId: `listing-${OWNER}` }));
+    });
+  });
+
+  // ============ PROMOTIONS ============
+
+  describe("promotions", () => {
+    it("should only read the caller's sales", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const ids = (await other.promotions.list()).map((promotion: any) => promotion.id);
+      expect(ids).toEqual([`promotion-${OTHER}`]);
+    });
+
+    it("should not cancel another user's sales or discount their items", async () => {
+      await expectNotFound(other.promotions.cancel({ id: `promotion-${OWNER}` }));
+      const error = await other.promotions
+        .create({
+          name: "Taken",
+          discountPercent: 20,
+          itemIds: [`item-${OWNER}`],
+          startsAt: new Date(Date.now() + 60 * 60 * 1000),
+          endsAt: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+        })
+        .catch((e) => e);
+      expect((error as TRPCError).code).toBe("BAD_REQUEST");
+
+      const promotion = await db.query.promotions.findFirst({
+        where: eq(promotions.id, `promotion-${OWNER}`),
+      });
+      expect(promotion?.status).toBe("scheduled");
+      expect(await db.query.promotionItems.findMany()).toEqual([]);
+    });
+  });
+
+  // ============ SOURCING ============
+
+  describe("sourcing", () => {
+    it("should only read the caller's lots", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((await other.sourcing.list()).map((lot: any) => lot.lotId)).toEqual([`lot-${OTHER}`]);
+
+      await expectNotFound(other.sourcing.get({ id: `lot-${OWNER}` }));
+    });
+
+    it("should not mutate another user's lots or move their items", async () => {
+      await expectNotFound(other.sourcing.update({ id: `lot-${OWNER}`, totalCost: 1 }));
+      await expectNotFound(other.sourcing.delete({ id: `lot-${OWNER}` }));
+      await expectNotFound(
+        other.sourcing.addItems({ lotId: `lot-${OWNER}`, itemIds: [`item-${OTHER}`] })
+      );
+      await expectNotFound(
+        other.sourcing.addItems({ lotId: `lot-${OTHER}`, itemIds: [`item-${OWNER}`] })
+      );
+      await expectNotFound(
+        other.sourcing.setAllocationValues({
+          lotId: `lot-${OWNER}`,
+          values: [{ itemId: `item-${OWNER}`, value: 1 }],
+        })
+      );
+      await expectNotFound(
+        other.sourcing.getReceiptUploadUrl({ lotId: `lot-${OWNER}`, contentType: "image/jpeg" })
+      );
+      await expectNotFound(
+        other.sourcing.addReceipt({ lotId: `lot-${OWNER}`, key: `receipts/${OWNER}/lot-${OWNER}/1.jpg` })
+      );
+      expect((await other.sourcing.removeItems({ itemIds: [`item-${OWNER}`] })).removed).toBe(0);
+
+      const lot = await db.query.sourcingLots.findFirst({
+        where: eq(sourcingLots.id, `lot-${OWNER}`),
+      });
+      expect(lot).toMatchObject({ totalCost: 20, receiptUrls: null });
+      expect(await getOwnerItem()).toMatchObject({ lotId: `lot-${OWNER}`, costBasis: 20 });
+    });
+  });
+
+  // ============ EXPENSES ============
+
+  describe("expenses", () => {
+    it("should only read the caller's expenses", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((await other.expenses.list()).map((expense: any) => expense.id)).toEqual([
+        `expense-${OTHER}`,
+      ]);
+    });
+
+    it("should not mutate another user's expenses", async () => {
+      await expectNotFound(other.expenses.update({ id: `expense-${OWNER}`, amount: 1 }));
+      await expectNotFound(other.expenses.delete({ id: `expense-${OWNER}` }));
+      await expectNotFound(
+        other.expenses.getReceiptUploadUrl({
+          expenseId: `expense-${OWNER}`,
+          contentType: "image/jpeg",
+        })
+      );
+      await expectNotFound(
+        other.expenses.addReceipt({
+          expenseId: `expense-${OWNER}`,
+          key: `receipts/${OWNER}/expense-${OWNER}/1.jpg`,
+        })
+      );
+
+      const expense = await db.query.expenses.findFirst({
+        where: eq(expenses.id, `expense-${OWNER}`),
+      });
+      expect(expense).toMatchObject({ amount: 12, receiptUrl: null });
+    });
+  });
+
+  // ============ TAX ============
+
+  describe("tax", () => {
+    const taxYear = new Date().getFullYear();
+
+    it("should only report the caller's sales, expenses, and 1099-K totals", async () => {
+      const report = await other.tax.report({ taxYear });
+
+      expect(report.channels).toEqual([
+        expect.objectContaining({ channel: "mercari", orderCount: 1, grossReceipts: 45 }),
+      ]);
+      expect(report.scheduleC.find((line) => line.line === "22")?.amount).toBe(12);
+      expect(report.reconciliation).toEqual([
+        expect.objectContaining({ channel: "mercari", reportedGross: 45, difference: 0 }),
+      ]);
+    });
+
+    it("should not change another user's 1099-K totals", async () => {
+      await other.tax.set1099K({ taxYear, channel: "mercari", grossAmount: 1 });
+      await other.tax.delete1099K({ taxYear, channel: "mercari" });
+
+      const form = await db.query.form1099kTotals.findFirst({
+        where: eq(form1099kTotals.id, `form-${OWNER}`),
+      });
+      expect(form?.grossAmount).toBe(45);
+    });
+  });
+
+  // ============ RETURNS ============
+
+  describe("returns", () => {
+    it("should only read the caller's returns", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((await other.returns.list()).map((entry: any) => entry.id)).toEqual([
+        `return-${OTHER}`,
+      ]);
+    });
+
+    it("should not open or move another user's returns", async () => {
+      await expectNotFound(other.returns.create({ orderId: `order-${OWNER}` }));
+      await expectNotFound(other.returns.markReceived({ id: `return-${OWNER}` }));
+      await expectNotFound(other.returns.refund({ id: `return-${OWNER}`, refundAmount: 45 }));
+      await expectNotFound(other.returns.restock({ id: `return-${OWNER}`, status: "active" }));
+
+      const entries = await db.query.returns.findMany({
+        where: eq(returns.orderId, `order-${OWNER}`),
+      });
+      expect(entries).toEqual([
+        expect.objectContaining({ id: `return-${OWNER}`, status: "requested", refundAmount: null }),
+      ]);
+      const order = await db.query.orders.findFirst({ where: eq(orders.id, `order-${OWNER}`) });
+      expect(order?.status).toBe("paid");
+    });
+  });
+
+  // ============ NOTIFICATIONS ============
+
+  describe("notifications", () => {
+    it("should only read the caller's notifications", async () => {
+      const { notifications: entries } = await other.notifications.list({});
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(entries.map((entry: any) => entry.id)).toEqual([`notification-${OTHER}`]);
+      expect((await other.notifications.unreadCount()).count).toBe(1);
+    });
+
+    it("should not mark another user's notifications read", async () => {
+      expect((await other.notifications.markRead({ ids: [`notification-${OWNER}`] })).updated).toBe(0);
+      await other.notifications.markAllRead();
+
+      const notification = await db.query.notifications.findFirst({
+        where: eq(notifications.id, `notification-${OWNER}`),
+      });
+      expect(notification?.readAt).toBeNull();
+    });
+  });
+});
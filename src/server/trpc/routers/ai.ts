@@ -15,9 +15,15 @@ import {
   checkBgRemovalQuota,
 } from "@/server/services/ai/background-removal";
 import { suggestPrice } from "@/server/services/ai/price-suggestion";
+import {
+  assertEntitlement,
+  consumeEntitlement,
+  releaseEntitlement,
+} from "@/server/services/entitlements";
 import { db } from "@/server/db/client";
-import { inventoryItems, itemImages } from "@/server/db/schema";
-import { eq, inArray } from "drizzle-orm";
+import { inventoryItems } from "@/server/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getOwnedImages } from "../tenant";
 
 // ============ INPUT SCHEMAS ============
 
@@ -124,14 +130,13 @@ export const aiRouter = createTRPCRouter({
    * 2. Calls the AI service to analyze images
    * 3. Returns a complete listing draft with confidence scores
    *
-   * Rate limit considerations:
-   * - GPT-4o vision calls are expensive (~$0.01-0.03 per call)
-   * - Consider implementing rate limiting in production
+   * Each draft counts against the plan's monthly aiListings cap; failed
+   * generations are not counted.
    */
   generateDraft: protectedProcedure
     .input(generateDraftInput)
     .output(generatedListingSchema)
-    .mutation(async ({ input, ctx: _ctx }) => {
+    .mutation(async ({ input, ctx }) => {
       // Determine which image URLs to use
       let imageUrls: string[] = [];
 
@@ -140,14 +145,7 @@ export const aiRouter = createTRPCRouter({
         imageUrls = input.imageUrls;
       } else if (input.imageIds && input.imageIds.length > 0) {
         // Fetch URLs from database
-        const images = await db
-          .select({
-            id: itemImages.id,
-            originalUrl: itemImages.originalUrl,
-            processedUrl: itemImages.processedUrl,
-          })
-          .from(itemImages)
-          .where(inArray(itemImages.id, input.imageIds));
+        const images = await getOwnedImages(ctx.user.id, input.imageIds);
 
         if (images.length === 0) {
           throw new TRPCError({
@@ -157,8 +155,7 @@ export const aiRouter = createTRPCRouter({
         }
 
         // Prefer processed URLs (background removed) if available
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        imageUrls = images.map((img: any) => img.processedUrl || img.originalUrl);
+        imageUrls = images.map((img) => img.processedUrl || img.originalUrl);
       }
 
       if (imageUrls.length === 0) {
@@ -168,6 +165,8 @@ export const aiRouter = createTRPCRouter({
         });
       }
 
+      await consumeEntitlement(ctx.user.id, "aiListings");
+
       try {
         // Call the AI service
         const result = await generateListing({
@@ -178,6 +177,8 @@ export const aiRouter = createTRPCRouter({
 
         return result;
       } catch (error) {
+        await releaseEntitlement(ctx.user.id, "aiListings");
+
         // Map service errors to tRPC errors
         const message =
           error instanceof Error ? error.message : "Failed to generate listing";
@@ -215,7 +216,10 @@ export const aiRouter = createTRPCRouter({
   regenerateField: protectedProcedure
     .input(regenerateFieldInput)
     .output(z.object({ value: z.string(), tokensUsed: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      // Regenerating doesn't count as a new draft, but needs AI quota left
+      await assertEntitlement(ctx.user.id, "aiListings");
+
       try {
         // Generate a full listing but only return the requested field
         const result = await generateListing({
@@ -271,7 +275,7 @@ export const aiRouter = createTRPCRouter({
         targetPlatform: z.enum(["ebay", "poshmark", "mercari"]).default("ebay"),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       let title = input.title ?? "";
       let description = input.description;
       let condition = input.condition ?? "good";
@@ -282,7 +286,10 @@ export const aiRouter = createTRPCRouter({
       // If itemId provided, fetch item details from DB
       if (input.itemId) {
         const item = await db.query.inventoryItems.findFirst({
-          where: eq(inventoryItems.id, input.itemId),
+          where: and(
+            eq(inventoryItems.id, input.itemId),
+            eq(inventoryItems.userId, ctx.user.id)
+          ),
           with: { images: true },
         });
 
@@ -16,6 +16,10 @@ import {
   eachWeekOfInterval,
   eachMonthOfInterval,
 } from "date-fns";
+import { getPromotionPerformance } from "@/server/services/promotions";
+import { getLotRoi, getLocationRoi } from "@/server/services/sourcing";
+import { getProfitAndLoss, getExpenseOccurrences } from "@/server/services/expenses";
+import { EXPENSE_CATEGORY_NAMES } from "@/lib/constants";
 
 // Helper to get date range based on period
 function getDateRange(period: string): { start: Date; end: Date } {
@@ -567,6 +571,39 @@ export const analyticsRouter = createTRPCRouter({
       };
     }),
 
+  /**
+   * Orders attributed to each scheduled, running, or ended markdown sale
+   */
+  promotionPerformance: protectedProcedure.query(async ({ ctx }) => {
+    return getPromotionPerformance(ctx.user.id);
+  }),
+
+  /**
+   * Return on each sourcing lot, plus the same rolled up by location
+   */
+  sourcingRoi: protectedProcedure.query(async ({ ctx }) => {
+    const [lots, locations] = await Promise.all([
+      getLotRoi(ctx.user.id),
+      getLocationRoi(ctx.user.id),
+    ]);
+    return { lots, locations };
+  }),
+
+  /**
+   * Profit and loss for the period: order revenue less cost of goods,
+   * selling costs, and business expenses
+   */
+  profitAndLoss: protectedProcedure
+    .input(
+      z.object({
+        period: z.enum(["7d", "30d", "90d", "ytd", "all"]).default("30d"),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { start, end } = getDateRange(input.period);
+      return getProfitAndLoss(ctx.user.id, start, end);
+    }),
+
   /**
    * Export sales data as CSV
    */
@@ -830,4 +867,58 @@ export const analyticsRouter = createTRPCRouter({
         content: csv,
       };
     }),
+
+  /**
+   * Export the profit and loss statement, with each expense listed
+   */
+  exportPnLCSV: protectedProcedure
+    .input(
+      z.object({
+        period: z.enum(["7d", "30d", "90d", "ytd", "all"]).default("30d"),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
+      const { start, end } = getDateRange(input.period);
+
+      const [pnl, occurrences] = await Promise.all([
+        getProfitAndLoss(userId, start, end),
+        getExpenseOccurrences(userId, start, end),
+      ]);
+
+      const statement: Array<[string, number]> = [
+        ["Revenue", pnl.revenue],
+        ["Refunds", -pnl.refunds],
+        ["Cost of Goods Sold", -pnl.costOfGoods],
+        ["Platform Fees", -pnl.platformFees],
+        ["Shipping", -pnl.shippingCost],
+        ["Gross Profit", pnl.grossProfit],
+        ...pnl.expenses.byCategory.map(
+          ({ category, amount }) =>
+            [`Expenses: ${EXPENSE_CATEGORY_NAMES[category]}`, -amount] as [string, number]
+        ),
+        ["Total Expenses", -pnl.expenses.total],
+        ["Net Profit", pnl.netProfit],
+      ];
+
+      const expenseRows = occurrences.map((occurrence) => [
+        format(occurrence.date, "yyyy-MM-dd"),
+        EXPENSE_CATEGORY_NAMES[occurrence.category],
+        `"${occurrence.description.replace(/"/g, '""')}"`,
+        occurrence.amount.toFixed(2),
+      ]);
+
+      const csv = [
+        "Line,Amount",
+        ...statement.map(([line, amount]) => `"${line}",${amount.toFixed(2)}`),
+        "",
+        "Date,Category,Description,Amount",
+        ...expenseRows.map((r) => r.join(",")),
+      ].join("\n");
+
+      return {
+        filename: `pnl-report-${format(new Date(), "yyyy-MM-dd")}.csv`,
+        content: csv,
+      };
+    }),
 });
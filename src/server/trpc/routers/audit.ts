@@ -88,21 +88,14 @@ export const auditRouter = createTRPCRouter({
     .query(async ({ input, ctx }) => {
       const entry = await auditService.getById(input.id);
 
-      if (!entry) {
+      // Other users' entries are reported as missing
+      if (!entry || entry.userId !== ctx.user.id) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "Audit entry not found",
         });
       }
 
-      // Verify ownership
-      if (entry.userId !== ctx.user.id) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "You do not have access to this audit entry",
-        });
-      }
-
       return {
         id: entry.id,
         actionType: entry.actionType,
@@ -159,18 +152,18 @@ export const auditRouter = createTRPCRouter({
       // First check if we can undo
       const checkResult = await undoService.canUndo(input.auditId);
 
-      if (!checkResult.canUndo) {
+      // Verify ownership before revealing anything about the entry
+      if (checkResult.entry && checkResult.entry.userId !== userId) {
         throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: checkResult.reason ?? "Cannot undo this action",
+          code: "NOT_FOUND",
+          message: "Audit entry not found",
         });
       }
 
-      // Verify ownership
-      if (checkResult.entry && checkResult.entry.userId !== userId) {
+      if (!checkResult.canUndo) {
         throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "You do not have permission to undo this action",
+          code: "BAD_REQUEST",
+          message: checkResult.reason ?? "Cannot undo this action",
         });
       }
 
@@ -202,7 +195,8 @@ export const auditRouter = createTRPCRouter({
       if (checkResult.entry && checkResult.entry.userId !== ctx.user.id) {
         return {
           canUndo: false,
-          reason: "You do not have permission to undo this action",
+          reason: "Audit entry not found",
+          timeRemaining: null,
         };
       }
 
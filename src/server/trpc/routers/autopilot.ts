@@ -9,18 +9,27 @@ import {
   type OfferRuleConfig,
   type RepriceRuleConfig,
 } from "@/server/db/schema";
-import { eq, and, desc, inArray, gte, sql } from "drizzle-orm";
+import { eq, and, desc, inArray, isNull } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
 import { auditService } from "@/server/services/audit";
 import {
   validateOfferRuleConfig,
+  simulateOfferRules,
+  simulateRepriceRules,
+  loadScopedRules,
+  loadRuleTarget,
+  pickGoverningRule,
+  describeRuleScope,
   DEFAULT_OFFER_RULE_CONFIG,
 } from "@/server/services/autopilot";
 import {
   getAdapter,
-  isNativeChannel,
+  canAutomateChannel,
   type ChannelId,
 } from "@/server/services/channels";
+import { resolveOffer, outcomeForActionType } from "@/server/services/offers";
+import { getRateLimitUsage } from "@/server/services/rate-limits";
+import { assertItemOwner } from "../tenant";
 
 // ============ INPUT SCHEMAS ============
 
@@ -45,6 +54,40 @@ const repriceRuleInputSchema = z.object({
   enabled: z.boolean().default(true),
 });
 
+// A rule scoped to part of the inventory; the most specific one wins
+const scopedRuleInputSchema = z
+  .object({
+    id: z.string().optional(),
+    scopeType: z.enum(["price_band", "category", "tag", "item"]),
+    scopeValue: z.string().trim().min(1).max(100).nullable().default(null),
+    priceMin: z.number().nonnegative().nullable().default(null),
+    priceMax: z.number().positive().nullable().default(null),
+    enabled: z.boolean().default(true),
+  })
+  .and(
+    z.discriminatedUnion("ruleType", [
+      z.object({
+        ruleType: z.literal("offer"),
+        config: offerRuleInputSchema.omit({ id: true, enabled: true }),
+      }),
+      z.object({
+        ruleType: z.literal("reprice"),
+        config: repriceRuleInputSchema.omit({ id: true, enabled: true }),
+      }),
+    ])
+  );
+
+// Candidate rules for a dry run: the rule fields without id/enabled
+const simulationLookbackSchema = z.number().int().min(1).max(365).default(90);
+
+const simulateOfferRulesInputSchema = offerRuleInputSchema
+  .omit({ id: true, enabled: true })
+  .extend({ lookbackDays: simulationLookbackSchema });
+
+const simulateRepriceRulesInputSchema = repriceRuleInputSchema
+  .omit({ id: true, enabled: true })
+  .extend({ lookbackDays: simulationLookbackSchema });
+
 const resolveActionInputSchema = z.object({
   actionId: z.string(),
   decision: z.enum(["approve", "reject"]),
@@ -112,7 +155,7 @@ async function executeAutopilotAction(
     const channel = listing.channel as ChannelId;
 
     // Check if this is a native channel
-    if (isNativeChannel(channel)) {
+    if (await canAutomateChannel(userId, channel)) {
       try {
         const adapter = getAdapter(channel);
 
@@ -290,7 +333,7 @@ async function executeUndoAction(
   for (const listing of listings) {
     const channel = listing.channel as ChannelId;
 
-    if (isNativeChannel(channel)) {
+    if (await canAutomateChannel(userId, channel)) {
       try {
         const adapter = getAdapter(channel);
 
@@ -402,104 +445,6 @@ async function executeUndoAction(
   return { success: true };
 }
 
-// ============ RATE LIMIT TRACKING ============
-
-/**
- * Rate limit configuration
- */
-const RATE_LIMITS = {
-  ebayRevisions: { daily: 200 },
-  reprices: { daily: 100 },
-  autoAccepts: { daily: 50 },
-};
-
-/**
- * Get the start of the current day in Pacific Time (eBay's reset time)
- */
-function getTodayStartPT(): Date {
-  const now = new Date();
-  const ptString = now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" });
-  const ptDate = new Date(ptString);
-  ptDate.setHours(0, 0, 0, 0);
-
-  // Convert back to UTC
-  const ptOffset = now.getTime() - new Date(now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" })).getTime();
-  return new Date(ptDate.getTime() + ptOffset);
-}
-
-/**
- * Get rate limit usage from the database by counting today's executed actions
- */
-async function getRateLimitUsage(userId: string): Promise<{
-  ebayRevisions: { daily: number; used: number; remaining: number };
-  reprices: { daily: number; used: number; remaining: number };
-  autoAccepts: { daily: number; used: number; remaining: number };
-}> {
-  const todayStart = getTodayStartPT();
-
-  // Count reprices executed today
-  const repriceCount = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(autopilotActions)
-    .where(
-      and(
-        eq(autopilotActions.userId, userId),
-        eq(autopilotActions.actionType, "REPRICE"),
-        eq(autopilotActions.status, "executed"),
-        gte(autopilotActions.executedAt, todayStart)
-      )
-    );
-
-  // Count auto-accepts executed today
-  const autoAcceptCount = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(autopilotActions)
-    .where(
-      and(
-        eq(autopilotActions.userId, userId),
-        eq(autopilotActions.actionType, "OFFER_ACCEPT"),
-        eq(autopilotActions.status, "executed"),
-        gte(autopilotActions.executedAt, todayStart)
-      )
-    );
-
-  // Count all channel-affecting actions as eBay revisions
-  // (REPRICE, DELIST, RELIST, ARCHIVE all count as revisions)
-  const revisionCount = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(autopilotActions)
-    .where(
-      and(
-        eq(autopilotActions.userId, userId),
-        eq(autopilotActions.status, "executed"),
-        gte(autopilotActions.executedAt, todayStart),
-        inArray(autopilotActions.actionType, ["REPRICE", "DELIST", "RELIST", "ARCHIVE"])
-      )
-    );
-
-  const repricesUsed = Number(repriceCount[0]?.count ?? 0);
-  const autoAcceptsUsed = Number(autoAcceptCount[0]?.count ?? 0);
-  const revisionsUsed = Number(revisionCount[0]?.count ?? 0);
-
-  return {
-    ebayRevisions: {
-      daily: RATE_LIMITS.ebayRevisions.daily,
-      used: revisionsUsed,
-      remaining: Math.max(0, RATE_LIMITS.ebayRevisions.daily - revisionsUsed),
-    },
-    reprices: {
-      daily: RATE_LIMITS.reprices.daily,
-      used: repricesUsed,
-      remaining: Math.max(0, RATE_LIMITS.reprices.daily - repricesUsed),
-    },
-    autoAccepts: {
-      daily: RATE_LIMITS.autoAccepts.daily,
-      used: autoAcceptsUsed,
-      remaining: Math.max(0, RATE_LIMITS.autoAccepts.daily - autoAcceptsUsed),
-    },
-  };
-}
-
 // ============ ROUTER ============
 
 export const autopilotRouter = createTRPCRouter({
@@ -514,7 +459,8 @@ export const autopilotRouter = createTRPCRouter({
       orderBy: [desc(autopilotRules.createdAt)],
     });
 
-    return rules;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return rules.map((rule: any) => ({ ...rule, scopeLabel: describeRuleScope(rule) }));
   }),
 
   /**
@@ -540,7 +486,8 @@ export const autopilotRouter = createTRPCRouter({
     const rule = await db.query.autopilotRules.findFirst({
       where: and(
         eq(autopilotRules.userId, ctx.user.id),
-        eq(autopilotRules.ruleType, "offer")
+        eq(autopilotRules.ruleType, "offer"),
+        eq(autopilotRules.scopeType, "global")
       ),
     });
 
@@ -608,7 +555,8 @@ export const autopilotRouter = createTRPCRouter({
       const existing = await db.query.autopilotRules.findFirst({
         where: and(
           eq(autopilotRules.userId, ctx.user.id),
-          eq(autopilotRules.ruleType, "offer")
+          eq(autopilotRules.ruleType, "offer"),
+          eq(autopilotRules.scopeType, "global")
         ),
       });
 
@@ -680,7 +628,8 @@ export const autopilotRouter = createTRPCRouter({
       const existing = await db.query.autopilotRules.findFirst({
         where: and(
           eq(autopilotRules.userId, ctx.user.id),
-          eq(autopilotRules.ruleType, "reprice")
+          eq(autopilotRules.ruleType, "reprice"),
+          eq(autopilotRules.scopeType, "global")
         ),
       });
 
@@ -748,6 +697,231 @@ export const autopilotRouter = createTRPCRouter({
       return { success: true };
     }),
 
+  /**
+   * Create or update a rule scoped to a price band, category, tag, or item.
+   * A rule with the same type and scope is updated rather than duplicated.
+   */
+  upsertScopedRule: protectedProcedure
+    .input(scopedRuleInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+      const scope = {
+        scopeType: input.scopeType,
+        scopeValue: input.scopeType === "price_band" ? null : input.scopeValue,
+        priceMin: input.scopeType === "price_band" ? input.priceMin : null,
+        priceMax: input.scopeType === "price_band" ? input.priceMax : null,
+      };
+
+      if (scope.scopeType === "price_band") {
+        if (scope.priceMin === null && scope.priceMax === null) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "A price band needs a minimum or maximum price",
+          });
+        }
+        if (scope.priceMin !== null && scope.priceMax !== null && scope.priceMin > scope.priceMax) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Price band minimum must not exceed the maximum",
+          });
+        }
+      } else if (!scope.scopeValue) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            scope.scopeType === "item"
+              ? "An item rule needs an item to target"
+              : `A ${scope.scopeType} rule needs a ${scope.scopeType} to target`,
+        });
+      }
+
+      if (scope.scopeType === "item") {
+        await assertItemOwner(userId, scope.scopeValue!);
+      }
+      if (scope.scopeType === "tag") {
+        scope.scopeValue = scope.scopeValue!.toLowerCase();
+      }
+
+      let config: OfferRuleConfig | RepriceRuleConfig;
+      if (input.ruleType === "offer") {
+        config = input.config;
+        const validation = validateOfferRuleConfig(config);
+        if (!validation.valid) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: validation.errors.join(", "),
+          });
+        }
+      } else {
+        config = {
+          strategy: input.config.strategy,
+          maxDailyDropPercent: input.config.maxDailyDrop,
+          maxWeeklyDropPercent: input.config.maxWeeklyDrop,
+          respectFloorPrice: input.config.respectFloorPrice,
+          highValueThreshold: input.config.highValueThreshold,
+        };
+      }
+
+      const now = new Date();
+
+      const existing = await db.query.autopilotRules.findFirst({
+        where: input.id
+          ? and(eq(autopilotRules.id, input.id), eq(autopilotRules.userId, userId))
+          : and(
+              eq(autopilotRules.userId, userId),
+              eq(autopilotRules.ruleType, input.ruleType),
+              eq(autopilotRules.scopeType, scope.scopeType),
+              scope.scopeValue === null
+                ? isNull(autopilotRules.scopeValue)
+                : eq(autopilotRules.scopeValue, scope.scopeValue),
+              scope.priceMin === null
+                ? isNull(autopilotRules.priceMin)
+                : eq(autopilotRules.priceMin, scope.priceMin),
+              scope.priceMax === null
+                ? isNull(autopilotRules.priceMax)
+                : eq(autopilotRules.priceMax, scope.priceMax)
+            ),
+      });
+
+      if (input.id && (!existing || existing.scopeType === "global")) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Rule not found" });
+      }
+
+      if (existing) {
+        await db
+          .update(autopilotRules)
+          .set({
+            ...scope,
+            config,
+            enabled: input.enabled,
+            updatedAt: now,
+          })
+          .where(eq(autopilotRules.id, existing.id));
+
+        return { id: existing.id, updated: true };
+      }
+
+      const id = crypto.randomUUID();
+      await db.insert(autopilotRules).values({
+        id,
+        userId,
+        ruleType: input.ruleType,
+        ...scope,
+        config,
+        enabled: input.enabled,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      return { id, updated: false };
+    }),
+
+  /**
+   * Delete a scoped rule. The default (all items) rule can only be disabled.
+   */
+  deleteRule: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const rule = await db.query.autopilotRules.findFirst({
+        where: and(
+          eq(autopilotRules.id, input.id),
+          eq(autopilotRules.userId, ctx.user.id)
+        ),
+      });
+
+      if (!rule) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Rule not found" });
+      }
+
+      if (rule.scopeType === "global") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The default rule can't be deleted. Disable it instead.",
+        });
+      }
+
+      await db.delete(autopilotRules).where(eq(autopilotRules.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Which offer and reprice rules govern an item, and its own overrides
+   */
+  getItemRules: protectedProcedure
+    .input(z.object({ itemId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+      await assertItemOwner(userId, input.itemId);
+
+      const target = await loadRuleTarget(input.itemId);
+      const overrides = await db.query.autopilotRules.findMany({
+        where: and(
+          eq(autopilotRules.userId, userId),
+          eq(autopilotRules.scopeType, "item"),
+          eq(autopilotRules.scopeValue, input.itemId)
+        ),
+      });
+
+      const resolve = async <TConfig,>(ruleType: "offer" | "reprice") => {
+        const rules = await loadScopedRules<TConfig>(userId, ruleType);
+        const governing = target ? pickGoverningRule(rules, target) : null;
+
+        return {
+          governing: governing
+            ? { ...governing, label: describeRuleScope(governing) }
+            : null,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          override: overrides.find((rule: any) => rule.ruleType === ruleType) ?? null,
+        };
+      };
+
+      return {
+        offer: await resolve<OfferRuleConfig>("offer"),
+        reprice: await resolve<RepriceRuleConfig>("reprice"),
+      };
+    }),
+
+  // ============ SIMULATION ============
+
+  /**
+   * Dry-run candidate offer rules over the user's past offers.
+   * Nothing is saved and no channel is contacted.
+   */
+  simulateOfferRules: protectedProcedure
+    .input(simulateOfferRulesInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { lookbackDays, ...config } = input;
+
+      const validation = validateOfferRuleConfig(config);
+      if (!validation.valid) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: validation.errors.join(", "),
+        });
+      }
+
+      return simulateOfferRules(ctx.user.id, config, lookbackDays);
+    }),
+
+  /**
+   * Dry-run candidate repricing rules over the user's past listings and
+   * sales. Nothing is saved and no channel is contacted.
+   */
+  simulateRepriceRules: protectedProcedure
+    .input(simulateRepriceRulesInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const config: RepriceRuleConfig = {
+        strategy: input.strategy,
+        maxDailyDropPercent: input.maxDailyDrop,
+        maxWeeklyDropPercent: input.maxWeeklyDrop,
+        respectFloorPrice: input.respectFloorPrice,
+        highValueThreshold: input.highValueThreshold,
+      };
+
+      return simulateRepriceRules(ctx.user.id, config, input.lookbackDays);
+    }),
+
   // ============ PENDING ACTIONS ============
 
   /**
@@ -882,6 +1056,17 @@ export const autopilotRouter = createTRPCRouter({
           })
           .where(eq(autopilotActions.id, input.actionId));
 
+        // Record the outcome on the linked offer
+        const offerRecordId = action.payload?.offerRecordId as string | undefined;
+        const outcome = outcomeForActionType(action.actionType);
+        if (offerRecordId && outcome) {
+          await resolveOffer(offerRecordId, {
+            status: outcome,
+            counterAmount: action.payload?.counterAmount as number | undefined,
+            autopilotActionId: action.id,
+          });
+        }
+
         // Log to audit
         await auditService.log({
           userId: ctx.user.id,
@@ -1111,7 +1296,6 @@ export const autopilotRouter = createTRPCRouter({
    * Get rate limit status
    */
   getRateLimitStatus: protectedProcedure.query(async ({ ctx }) => {
-    // Get actual rate limit usage from database
     return getRateLimitUsage(ctx.user.id);
   }),
 
@@ -4,11 +4,23 @@ import { TRPCError } from "@trpc/server";
 import { db } from "@/server/db/client";
 import { channelConnections } from "@/server/db/schema";
 import { eq, and } from "drizzle-orm";
-import { getEbayAdapter } from "@/server/services/channels/ebay";
+import {
+  getEbayAdapter,
+  getPolicySettings,
+  refreshBusinessPolicies,
+  setPolicyDefaults,
+} from "@/server/services/channels/ebay";
 
 const ChannelEnum = z.enum(["ebay", "poshmark", "mercari", "depop"]);
 type Channel = z.infer<typeof ChannelEnum>;
 
+const ListingPoliciesSchema = z.object({
+  fulfillmentPolicyId: z.string().min(1).optional(),
+  paymentPolicyId: z.string().min(1).optional(),
+  returnPolicyId: z.string().min(1).optional(),
+  merchantLocationKey: z.string().min(1).optional(),
+});
+
 export const channelsRouter = createTRPCRouter({
   /**
    * Get all connected channels for the current user
@@ -193,6 +205,44 @@ export const channelsRouter = createTRPCRouter({
       });
     }),
 
+  /**
+   * Get the user's cached eBay business policies, locations, and defaults
+   */
+  getEbayPolicies: protectedProcedure.query(async ({ ctx }) => {
+    return getPolicySettings(ctx.session.user.id);
+  }),
+
+  /**
+   * Re-fetch eBay business policies and locations from the Account API
+   */
+  refreshEbayPolicies: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      return await refreshBusinessPolicies(ctx.session.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to fetch eBay policies",
+      });
+    }
+  }),
+
+  /**
+   * Set the default eBay policies and location used when publishing
+   */
+  setEbayPolicyDefaults: protectedProcedure
+    .input(ListingPoliciesSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const defaults = await setPolicyDefaults(ctx.session.user.id, input);
+        return { success: true, defaults };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to save eBay policies",
+        });
+      }
+    }),
+
   /**
    * Get channel capabilities
    */
@@ -231,13 +281,13 @@ export const channelsRouter = createTRPCRouter({
           requiresManualAction: true,
         },
         mercari: {
-          mode: "assisted",
-          canPublish: false,
-          canReprice: false,
-          canDelist: false,
-          canSyncOrders: false,
+          mode: "native",
+          canPublish: true,
+          canReprice: true,
+          canDelist: true,
+          canSyncOrders: true,
           canSyncInventory: false,
-          requiresManualAction: true,
+          requiresManualAction: false,
         },
         depop: {
           mode: "assisted",
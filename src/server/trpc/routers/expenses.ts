@@ -0,0 +1,213 @@
+/**
+ * Expenses tRPC Router
+ *
+ * Business expenses outside of orders, with receipts. Recurring expenses
+ * are stored once and expanded when reporting; see the P&L in analytics.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import { db } from "@/server/db/client";
+import { expenses } from "@/server/db/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { r2Storage, generateReceiptKey } from "@/server/services/storage/r2";
+import { EXPENSE_CATEGORIES, EXPENSE_RECURRENCES, MILEAGE_RATE } from "@/lib/constants";
+
+// ============ INPUT SCHEMAS ============
+
+const expenseFieldsSchema = z.object({
+  category: z.enum(EXPENSE_CATEGORIES),
+  description: z.string().trim().min(1).max(200),
+  amount: z.number().nonnegative().optional(),
+  miles: z.number().nonnegative().nullable().optional(),
+  incurredAt: z.date(),
+  recurrence: z.enum(EXPENSE_RECURRENCES).default("none"),
+  recurrenceEndsAt: z.date().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const receiptContentType = z.enum([
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+]);
+
+// ============ HELPERS ============
+
+/**
+ * Get an expense, throwing NOT_FOUND unless it belongs to the user
+ */
+async function getOwnedExpense(userId: string, expenseId: string) {
+  const expense = await db.query.expenses.findFirst({
+    where: and(eq(expenses.id, expenseId), eq(expenses.userId, userId)),
+  });
+  if (!expense) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+  }
+  return expense;
+}
+
+/**
+ * Mileage is valued at the standard rate; everything else needs an amount
+ */
+function resolveAmount(amount: number | undefined, miles: number | null | undefined): number {
+  if (miles !== null && miles !== undefined) {
+    return Math.round(miles * MILEAGE_RATE * 100) / 100;
+  }
+  if (amount === undefined) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Enter an amount or the miles driven" });
+  }
+  return amount;
+}
+
+function receiptKeyFromUrl(url: string): string {
+  return new URL(url).pathname.replace(/^\//, "");
+}
+
+async function deleteReceipt(url: string | null) {
+  if (!url) return;
+  try {
+    await r2Storage.deleteObjects([receiptKeyFromUrl(url)]);
+  } catch (error) {
+    // Log but don't fail - the DB record is more important
+    console.error("Failed to delete receipt from R2:", error);
+  }
+}
+
+// ============ ROUTER ============
+
+export const expensesRouter = createTRPCRouter({
+  /**
+   * List expenses, newest first, optionally for one category
+   */
+  list: protectedProcedure
+    .input(z.object({ category: z.enum(EXPENSE_CATEGORIES).optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      const conditions = [eq(expenses.userId, ctx.user.id)];
+      if (input?.category) {
+        conditions.push(eq(expenses.category, input.category));
+      }
+
+      return db
+        .select()
+        .from(expenses)
+        .where(and(...conditions))
+        .orderBy(desc(expenses.incurredAt));
+    }),
+
+  /**
+   * Record an expense
+   */
+  create: protectedProcedure.input(expenseFieldsSchema).mutation(async ({ input, ctx }) => {
+    const { amount, ...fields } = input;
+    const id = crypto.randomUUID();
+    const now = new Date();
+
+    await db.insert(expenses).values({
+      ...fields,
+      amount: resolveAmount(amount, input.miles),
+      id,
+      userId: ctx.user.id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { id };
+  }),
+
+  /**
+   * Update an expense; new miles re-value a mileage expense
+   */
+  update: protectedProcedure
+    .input(expenseFieldsSchema.partial().extend({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const { id, amount, ...fields } = input;
+      await getOwnedExpense(ctx.user.id, id);
+
+      const updates: Partial<typeof expenses.$inferInsert> = { ...fields, updatedAt: new Date() };
+      if (input.miles !== undefined && input.miles !== null) {
+        updates.amount = resolveAmount(amount, input.miles);
+      } else if (amount !== undefined) {
+        updates.amount = amount;
+      }
+
+      await db.update(expenses).set(updates).where(eq(expenses.id, id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Delete an expense and its receipt
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const expense = await getOwnedExpense(ctx.user.id, input.id);
+
+      await deleteReceipt(expense.receiptUrl);
+      await db.delete(expenses).where(eq(expenses.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Get a presigned URL for uploading a receipt photo
+   */
+  getReceiptUploadUrl: protectedProcedure
+    .input(z.object({ expenseId: z.string(), contentType: receiptContentType }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedExpense(ctx.user.id, input.expenseId);
+
+      try {
+        const key = generateReceiptKey(ctx.user.id, input.expenseId, input.contentType);
+        return await r2Storage.getUploadUrl(key, input.contentType);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to generate upload URL",
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Attach an uploaded receipt to an expense, replacing any earlier one
+   */
+  addReceipt: protectedProcedure
+    .input(z.object({ expenseId: z.string(), key: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      const expense = await getOwnedExpense(ctx.user.id, input.expenseId);
+
+      // Only accept keys issued by getReceiptUploadUrl for this user and expense
+      if (!input.key.startsWith(`receipts/${ctx.user.id}/${input.expenseId}/`)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Storage key does not belong to this expense",
+        });
+      }
+
+      const metadata = await r2Storage.getObjectMetadata(input.key);
+      if (!metadata) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Upload not found. Please try uploading again.",
+        });
+      }
+
+      const receiptUrl = r2Storage.getPublicUrl(input.key);
+      await db
+        .update(expenses)
+        .set({ receiptUrl, updatedAt: new Date() })
+        .where(eq(expenses.id, input.expenseId));
+
+      if (expense.receiptUrl && expense.receiptUrl !== receiptUrl) {
+        await deleteReceipt(expense.receiptUrl);
+      }
+
+      return { receiptUrl };
+    }),
+});
@@ -13,6 +13,7 @@ import { db } from "@/server/db/client";
 import { itemImages } from "@/server/db/schema";
 import { eq, and, max } from "drizzle-orm";
 import { generateId } from "@/lib/utils";
+import { assertItemOwner, getOwnedImage } from "../tenant";
 
 // ============ INPUT SCHEMAS ============
 
@@ -65,10 +66,9 @@ export const imagesRouter = createTRPCRouter({
    */
   getUploadUrl: protectedProcedure
     .input(getUploadUrlInput)
-    .mutation(async ({ input, ctx: _ctx }) => {
-      // In a real app, we'd verify the user owns this item
-      // const userId = ctx.user.id;
-      const userId = "demo-user"; // Placeholder until auth is implemented
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+      await assertItemOwner(userId, input.itemId);
 
       try {
         // Generate a unique key for this image
@@ -100,7 +100,17 @@ export const imagesRouter = createTRPCRouter({
    */
   confirmUpload: protectedProcedure
     .input(confirmUploadInput)
-    .mutation(async ({ input, ctx: _ctx }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertItemOwner(ctx.user.id, input.itemId);
+
+      // Only accept keys issued by getUploadUrl for this user and item
+      if (!input.key.startsWith(`images/${ctx.user.id}/${input.itemId}/`)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Storage key does not belong to this item",
+        });
+      }
+
       // Verify the upload exists in R2
       const metadata = await r2Storage.getObjectMetadata(input.key);
       if (!metadata) {
@@ -152,28 +162,8 @@ export const imagesRouter = createTRPCRouter({
    */
   delete: protectedProcedure
     .input(deleteImageInput)
-    .mutation(async ({ input, ctx: _ctx }) => {
-      // Get the image record
-      const images = await db
-        .select()
-        .from(itemImages)
-        .where(eq(itemImages.id, input.imageId))
-        .limit(1);
-
-      const image = images[0];
-      if (!image) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Image not found",
-        });
-      }
-
-      // In a real app, verify the user owns this item
-      // const item = await db.select().from(inventoryItems)
-      //   .where(and(
-      //     eq(inventoryItems.id, image.itemId),
-      //     eq(inventoryItems.userId, ctx.user.id)
-      //   )).limit(1);
+    .mutation(async ({ input, ctx }) => {
+      const image = await getOwnedImage(ctx.user.id, input.imageId);
 
       // Extract the key from the URL
       const extractKeyFromUrl = (url: string): string => {
@@ -231,7 +221,9 @@ export const imagesRouter = createTRPCRouter({
    */
   reorder: protectedProcedure
     .input(reorderImagesInput)
-    .mutation(async ({ input, ctx: _ctx }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertItemOwner(ctx.user.id, input.itemId);
+
       // Update positions based on the order of imageIds
       for (let i = 0; i < input.imageIds.length; i++) {
         await db
@@ -253,7 +245,9 @@ export const imagesRouter = createTRPCRouter({
    */
   getByItemId: protectedProcedure
     .input(getImagesInput)
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      await assertItemOwner(ctx.user.id, input.itemId);
+
       const images = await db
         .select()
         .from(itemImages)
@@ -285,7 +279,9 @@ export const imagesRouter = createTRPCRouter({
         processedUrl: z.string().url(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedImage(ctx.user.id, input.imageId);
+
       await db
         .update(itemImages)
         .set({ processedUrl: input.processedUrl })
@@ -300,7 +296,9 @@ export const imagesRouter = createTRPCRouter({
    */
   deleteAllForItem: protectedProcedure
     .input(z.object({ itemId: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      await assertItemOwner(ctx.user.id, input.itemId);
+
       // Get all images for the item
       const images = await db
         .select()
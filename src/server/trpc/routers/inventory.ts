@@ -1,24 +1,33 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure, protectedProcedure } from "../init";
+import { createTRPCRouter, protectedProcedure } from "../init";
 import { db } from "@/server/db/client";
-import { inventoryItems, itemImages, channelListings } from "@/server/db/schema";
+import { inventoryItems, itemImages, channelListings, promotionItems } from "@/server/db/schema";
 import { eq, and, or, desc, like, inArray, count } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
 import { getEbayAdapter, type EbayInventoryItemData } from "@/server/services/channels/ebay";
+import {
+  assertEntitlement,
+  consumeEntitlement,
+  releaseEntitlement,
+} from "@/server/services/entitlements";
+import { recomputeLotCosts } from "@/server/services/sourcing";
 
 // Status enum for type safety
 const statusEnum = z.enum(["draft", "active", "sold", "shipped", "archived"]);
 const conditionEnum = z.enum(["new", "like_new", "good", "fair", "poor"]);
+const listingPoliciesSchema = z.object({
+  fulfillmentPolicyId: z.string().min(1).optional(),
+  paymentPolicyId: z.string().min(1).optional(),
+  returnPolicyId: z.string().min(1).optional(),
+  merchantLocationKey: z.string().min(1).optional(),
+});
 
 export const inventoryRouter = createTRPCRouter({
   /**
    * Get inventory statistics for dashboard
    */
-  getStats: publicProcedure.query(async ({ ctx }) => {
-    const userId = ctx.user?.id;
-    if (!userId) {
-      return { total: 0, active: 0, draft: 0, sold: 0 };
-    }
+  getStats: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.user.id;
 
     const stats = await db
       .select({
@@ -44,7 +53,7 @@ export const inventoryRouter = createTRPCRouter({
   /**
    * Get all inventory items for the current user with pagination
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(
       z.object({
         status: statusEnum.optional(),
@@ -56,10 +65,7 @@ export const inventoryRouter = createTRPCRouter({
       })
     )
     .query(async ({ input, ctx }) => {
-      const userId = ctx.user?.id;
-      if (!userId) {
-        return { items: [], nextCursor: undefined };
-      }
+      const userId = ctx.user.id;
 
       // Build conditions
       const conditions = [eq(inventoryItems.userId, userId)];
@@ -117,6 +123,7 @@ export const inventoryRouter = createTRPCRouter({
           status: item.status,
           condition: item.condition,
           quantity: item.quantity,
+          suggestedCategory: item.suggestedCategory,
           createdAt: item.createdAt,
           listedAt: item.listedAt,
           storageLocation: item.storageLocation,
@@ -141,13 +148,10 @@ export const inventoryRouter = createTRPCRouter({
   /**
    * Get a single inventory item by ID with all details
    */
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ input, ctx }) => {
-      const userId = ctx.user?.id;
-      if (!userId) {
-        throw new TRPCError({ code: "UNAUTHORIZED" });
-      }
+      const userId = ctx.user.id;
 
       const item = await db.query.inventoryItems.findFirst({
         where: and(
@@ -181,10 +185,12 @@ export const inventoryRouter = createTRPCRouter({
         aiConfidence: item.aiConfidence,
         suggestedCategory: item.suggestedCategory,
         itemSpecifics: item.itemSpecifics,
+        listingPolicies: item.listingPolicies,
         storageLocation: item.storageLocation,
         bin: item.bin,
         shelf: item.shelf,
         shipReady: item.shipReady,
+        tags: item.tags ?? [],
         createdAt: item.createdAt,
         updatedAt: item.updatedAt,
         listedAt: item.listedAt,
@@ -233,6 +239,11 @@ export const inventoryRouter = createTRPCRouter({
     )
     .mutation(async ({ input, ctx }) => {
       const userId = ctx.user.id;
+
+      // New items can't be added once the monthly listing cap is used up.
+      // Only publishing to a channel draws from the cap.
+      await assertEntitlement(userId, "listings");
+
       const now = new Date();
       const id = crypto.randomUUID();
       const sku = `SKU-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
@@ -284,9 +295,11 @@ export const inventoryRouter = createTRPCRouter({
         status: statusEnum.optional(),
         itemSpecifics: z.record(z.string()).nullable().optional(),
         suggestedCategory: z.string().nullable().optional(),
+        listingPolicies: listingPoliciesSchema.nullable().optional(),
         storageLocation: z.string().nullable().optional(),
         bin: z.string().nullable().optional(),
         shelf: z.string().nullable().optional(),
+        tags: z.array(z.string().trim().min(1).max(30)).max(20).optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -328,9 +341,14 @@ export const inventoryRouter = createTRPCRouter({
       }
       if (updates.itemSpecifics !== undefined) updateData.itemSpecifics = updates.itemSpecifics;
       if (updates.suggestedCategory !== undefined) updateData.suggestedCategory = updates.suggestedCategory;
+      if (updates.listingPolicies !== undefined) updateData.listingPolicies = updates.listingPolicies;
       if (updates.storageLocation !== undefined) updateData.storageLocation = updates.storageLocation;
       if (updates.bin !== undefined) updateData.bin = updates.bin;
       if (updates.shelf !== undefined) updateData.shelf = updates.shelf;
+      if (updates.tags !== undefined) {
+        // Stored lowercase and de-duplicated so tag-scoped rules match reliably
+        updateData.tags = Array.from(new Set(updates.tags.map((tag) => tag.toLowerCase())));
+      }
 
       await db
         .update(inventoryItems)
@@ -354,7 +372,7 @@ export const inventoryRouter = createTRPCRouter({
 
       // Verify ownership of all items
       const items = await db
-        .select({ id: inventoryItems.id })
+        .select({ id: inventoryItems.id, lotId: inventoryItems.lotId })
         .from(inventoryItems)
         .where(
           and(
@@ -375,6 +393,11 @@ export const inventoryRouter = createTRPCRouter({
         .delete(itemImages)
         .where(inArray(itemImages.itemId, input.ids));
 
+      // Drop the items from any sales before their listings go
+      await db
+        .delete(promotionItems)
+        .where(inArray(promotionItems.itemId, input.ids));
+
       // Delete channel listings
       await db
         .delete(channelListings)
@@ -385,6 +408,15 @@ export const inventoryRouter = createTRPCRouter({
         .delete(inventoryItems)
         .where(inArray(inventoryItems.id, input.ids));
 
+      // The remaining items in their lots take up the cost
+      const lotIds = new Set<string>(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        items.map((item: any) => item.lotId).filter(Boolean)
+      );
+      for (const lotId of Array.from(lotIds)) {
+        await recomputeLotCosts(lotId);
+      }
+
       return { success: true, deletedCount: input.ids.length };
     }),
 
@@ -556,7 +588,7 @@ export const inventoryRouter = createTRPCRouter({
       const now = new Date();
       const adapter = getEbayAdapter();
 
-      // Get all channel listings for these items
+      // Get all channel listings for these items (only the user's own)
       const listings = await db
         .select({
           id: channelListings.id,
@@ -566,9 +598,11 @@ export const inventoryRouter = createTRPCRouter({
           status: channelListings.status,
         })
         .from(channelListings)
+        .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
         .where(
           and(
             inArray(channelListings.itemId, input.ids),
+            eq(inventoryItems.userId, userId),
             eq(channelListings.channel, "ebay")
           )
         );
@@ -648,29 +682,58 @@ export const inventoryRouter = createTRPCRouter({
         throw new TRPCError({ code: "NOT_FOUND", message: "Item not found" });
       }
 
-      // Update item status to active
-      await db
-        .update(inventoryItems)
-        .set({
-          status: "active",
-          listedAt: item.listedAt ?? now,
-          updatedAt: now,
-        })
-        .where(eq(inventoryItems.id, input.id));
+      // Channels the item is already listed on (or queued for) keep their listing
+      const existingListings = await db
+        .select({ channel: channelListings.channel })
+        .from(channelListings)
+        .where(
+          and(
+            eq(channelListings.itemId, input.id),
+            inArray(channelListings.status, ["draft", "pending", "active", "error"])
+          )
+        );
+      const listedChannels = new Set(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        existingListings.map((listing: any) => listing.channel as string)
+      );
+      const newChannels = input.channels.filter((channel) => !listedChannels.has(channel));
 
-      // Create channel listings
-      const channelListingData = input.channels.map((channel) => ({
-        id: crypto.randomUUID(),
-        itemId: input.id,
-        channel,
-        price: item.askingPrice,
-        status: channel === "ebay" ? ("pending" as const) : ("draft" as const),
-        requiresManualAction: channel !== "ebay",
-        createdAt: now,
-      }));
+      // Each new channel listing counts against the plan's monthly listing cap
+      if (newChannels.length > 0) {
+        await consumeEntitlement(userId, "listings", newChannels.length);
+      }
 
-      if (channelListingData.length > 0) {
-        await db.insert(channelListings).values(channelListingData);
+      try {
+        // Update item status to active
+        await db
+          .update(inventoryItems)
+          .set({
+            status: "active",
+            listedAt: item.listedAt ?? now,
+            updatedAt: now,
+          })
+          .where(eq(inventoryItems.id, input.id));
+
+        // Create channel listings
+        const channelListingData = newChannels.map((channel) => ({
+          id: crypto.randomUUID(),
+          itemId: input.id,
+          channel,
+          price: item.askingPrice,
+          status: channel === "ebay" ? ("pending" as const) : ("draft" as const),
+          requiresManualAction: channel !== "ebay",
+          createdAt: now,
+        }));
+
+        if (channelListingData.length > 0) {
+          await db.insert(channelListings).values(channelListingData);
+        }
+      } catch (error) {
+        // None of the listings were created
+        if (newChannels.length > 0) {
+          await releaseEntitlement(userId, "listings", newChannels.length);
+        }
+        throw error;
       }
 
       return {
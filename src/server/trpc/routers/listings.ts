@@ -4,8 +4,14 @@ import { db } from "@/server/db/client";
 import { inventoryItems, channelListings, itemImages } from "@/server/db/schema";
 import { eq, and, desc, sql } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
-import { generateCrossListTemplate, getAdapter, isNativeChannel } from "@/server/services/channels";
+import {
+  canAutomateChannel,
+  generateCrossListTemplate,
+  getAdapter,
+} from "@/server/services/channels";
+import { resolveListingPolicies } from "@/server/services/channels/ebay";
 import { auditService } from "@/server/services/audit";
+import { consumeEntitlement, releaseEntitlement } from "@/server/services/entitlements";
 
 const ChannelEnum = z.enum(["ebay", "poshmark", "mercari", "depop"]);
 
@@ -263,26 +269,51 @@ export const listingsRouter = createTRPCRouter({
         });
       }
 
-      // For native channels (eBay), call the adapter
-      if (isNativeChannel(input.channel)) {
+      // Counts against the plan's monthly listing cap. Draft and pending rows
+      // (from inventory.publish or an earlier assisted publish) were charged
+      // when they were created.
+      const chargeListing =
+        !existingListing || !["draft", "pending"].includes(existingListing.status);
+      if (chargeListing) {
+        await consumeEntitlement(userId, "listings");
+      }
+
+      // For native channels (eBay, connected Mercari), call the adapter
+      if (await canAutomateChannel(userId, input.channel)) {
         const adapter = getAdapter(input.channel);
 
-        const result = await adapter.publish(userId, {
-          title: item.title,
-          description: item.description,
-          price,
-          quantity: item.quantity,
-          condition: item.condition,
-          category: item.suggestedCategory ?? undefined,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          imageUrls: images.map((img: any) => img.processedUrl ?? img.originalUrl),
-          itemSpecifics: item.itemSpecifics ?? undefined,
-          sku: item.sku,
-        });
+        // Seller defaults with this item's overrides (eBay business policies)
+        const policies =
+          input.channel === "ebay"
+            ? await resolveListingPolicies(userId, item.listingPolicies)
+            : undefined;
+
+        const result = await adapter
+          .publish(userId, {
+            title: item.title,
+            description: item.description,
+            price,
+            quantity: item.quantity,
+            condition: item.condition,
+            category: item.suggestedCategory ?? undefined,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            imageUrls: images.map((img: any) => img.processedUrl ?? img.originalUrl),
+            itemSpecifics: item.itemSpecifics ?? undefined,
+            sku: item.sku,
+            policies,
+          })
+          .catch(async (error) => {
+            if (chargeListing) await releaseEntitlement(userId, "listings");
+            throw error;
+          });
 
         if (!result.success) {
+          if (chargeListing) await releaseEntitlement(userId, "listings");
           throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
+            code:
+              result.errorCode === "POLICIES_NOT_CONFIGURED"
+                ? "PRECONDITION_FAILED"
+                : "INTERNAL_SERVER_ERROR",
             message: result.error ?? `Failed to publish to ${input.channel}`,
           });
         }
@@ -404,9 +435,10 @@ export const listingsRouter = createTRPCRouter({
       }
 
       const oldPrice = listing.price;
+      const automated = await canAutomateChannel(userId, listing.channel);
 
       // For native channels, update via adapter
-      if (isNativeChannel(listing.channel) && listing.externalId) {
+      if (automated && listing.externalId) {
         const adapter = getAdapter(listing.channel);
 
         const result = await adapter.update(userId, listing.externalId, {
@@ -447,7 +479,7 @@ export const listingsRouter = createTRPCRouter({
 
       return {
         success: true,
-        requiresManualAction: !isNativeChannel(listing.channel),
+        requiresManualAction: !automated,
       };
     }),
 
@@ -469,8 +501,10 @@ export const listingsRouter = createTRPCRouter({
         throw new TRPCError({ code: "NOT_FOUND", message: "Listing not found" });
       }
 
+      const automated = await canAutomateChannel(userId, listing.channel);
+
       // For native channels, delist via adapter
-      if (isNativeChannel(listing.channel) && listing.externalId) {
+      if (automated && listing.externalId) {
         const adapter = getAdapter(listing.channel);
         const result = await adapter.delist(userId, listing.externalId);
 
@@ -505,7 +539,7 @@ export const listingsRouter = createTRPCRouter({
 
       return {
         success: true,
-        requiresManualAction: !isNativeChannel(listing.channel),
+        requiresManualAction: !automated,
       };
     }),
 
@@ -599,6 +633,9 @@ export const listingsRouter = createTRPCRouter({
         };
       }
 
+      // Listings not created through publish count against the plan here
+      await consumeEntitlement(userId, "listings");
+
       // Create new listing
       const listingId = crypto.randomUUID();
 
@@ -0,0 +1,65 @@
+/**
+ * Notifications tRPC Router
+ *
+ * Provides API endpoints for the in-app notification center.
+ */
+
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import {
+  listNotifications,
+  getUnreadCount,
+  markNotificationsRead,
+  markAllNotificationsRead,
+} from "@/server/services/notifications";
+
+// ============ INPUT SCHEMAS ============
+
+const listInputSchema = z.object({
+  limit: z.number().min(1).max(100).default(20),
+  offset: z.number().min(0).default(0),
+  unreadOnly: z.boolean().default(false),
+});
+
+const markReadInputSchema = z.object({
+  ids: z.array(z.string()).min(1).max(100),
+});
+
+// ============ ROUTER ============
+
+export const notificationsRouter = createTRPCRouter({
+  /**
+   * List notifications for the current user, newest first
+   */
+  list: protectedProcedure.input(listInputSchema).query(async ({ input, ctx }) => {
+    const entries = await listNotifications(ctx.user.id, input);
+
+    return {
+      notifications: entries,
+      hasMore: entries.length === input.limit,
+    };
+  }),
+
+  /**
+   * Count unread notifications for the bell badge
+   */
+  unreadCount: protectedProcedure.query(async ({ ctx }) => {
+    return { count: await getUnreadCount(ctx.user.id) };
+  }),
+
+  /**
+   * Mark specific notifications as read
+   */
+  markRead: protectedProcedure.input(markReadInputSchema).mutation(async ({ input, ctx }) => {
+    const updated = await markNotificationsRead(ctx.user.id, input.ids);
+    return { success: true, updated };
+  }),
+
+  /**
+   * Mark all notifications as read
+   */
+  markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+    const updated = await markAllNotificationsRead(ctx.user.id);
+    return { success: true, updated };
+  }),
+});
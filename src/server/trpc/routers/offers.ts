@@ -0,0 +1,191 @@
+/**
+ * Offers tRPC Router
+ *
+ * Provides the offers inbox and per-listing negotiation history.
+ */
+
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import { db } from "@/server/db/client";
+import { offers, inventoryItems, channelListings } from "@/server/db/schema";
+import { eq, and, asc, desc, count } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { getListingOfferHistory } from "@/server/services/offers";
+
+// ============ INPUT SCHEMAS ============
+
+const OfferStatusEnum = z.enum(["pending", "accepted", "declined", "countered", "expired"]);
+
+const listInputSchema = z.object({
+  status: OfferStatusEnum.optional(),
+  channel: z.enum(["ebay", "poshmark", "mercari", "depop"]).optional(),
+  itemId: z.string().optional(),
+  limit: z.number().min(1).max(100).default(25),
+  offset: z.number().min(0).default(0),
+});
+
+// ============ ROUTER ============
+
+export const offersRouter = createTRPCRouter({
+  /**
+   * List offers for the inbox with filtering and pagination
+   */
+  list: protectedProcedure
+    .input(listInputSchema)
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+
+      const conditions = [eq(offers.userId, userId)];
+      if (input.status) {
+        conditions.push(eq(offers.status, input.status));
+      }
+      if (input.channel) {
+        conditions.push(eq(offers.channel, input.channel));
+      }
+      if (input.itemId) {
+        conditions.push(eq(offers.itemId, input.itemId));
+      }
+
+      const rows = await db
+        .select({
+          offer: offers,
+          item: {
+            id: inventoryItems.id,
+            title: inventoryItems.title,
+            sku: inventoryItems.sku,
+          },
+        })
+        .from(offers)
+        .innerJoin(inventoryItems, eq(offers.itemId, inventoryItems.id))
+        .where(and(...conditions))
+        .orderBy(desc(offers.createdAt))
+        .limit(input.limit)
+        .offset(input.offset);
+
+      const [totalResult] = await db
+        .select({ count: count() })
+        .from(offers)
+        .where(and(...conditions));
+
+      const pendingResult = await db
+        .select({ count: count() })
+        .from(offers)
+        .where(and(eq(offers.userId, userId), eq(offers.status, "pending")));
+
+      const totalCount = Number(totalResult?.count ?? 0);
+
+      return {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        offers: rows.map((row: any) => ({
+          ...row.offer,
+          item: row.item,
+        })),
+        totalCount,
+        pendingCount: Number(pendingResult[0]?.count ?? 0),
+        hasMore: input.offset + rows.length < totalCount,
+      };
+    }),
+
+  /**
+   * Get a single offer with its item, listing, and negotiation thread
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+
+      const offer = await db.query.offers.findFirst({
+        where: and(eq(offers.id, input.id), eq(offers.userId, userId)),
+        with: {
+          item: {
+            columns: {
+              id: true,
+              title: true,
+              sku: true,
+              askingPrice: true,
+              floorPrice: true,
+            },
+          },
+          channelListing: {
+            columns: {
+              id: true,
+              channel: true,
+              externalId: true,
+              externalUrl: true,
+              price: true,
+              status: true,
+            },
+          },
+          autopilotAction: {
+            columns: {
+              id: true,
+              actionType: true,
+              status: true,
+              confidence: true,
+              confidenceLevel: true,
+              payload: true,
+            },
+          },
+        },
+      });
+
+      if (!offer) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Offer not found" });
+      }
+
+      // The negotiation thread is every offer from the same buyer on this listing
+      const thread = offer.buyerUsername
+        ? await db
+            .select()
+            .from(offers)
+            .where(
+              and(
+                eq(offers.userId, userId),
+                eq(offers.channelListingId, offer.channelListingId),
+                eq(offers.buyerUsername, offer.buyerUsername)
+              )
+            )
+            .orderBy(asc(offers.createdAt))
+        : [offer];
+
+      return {
+        ...offer,
+        reason: (offer.autopilotAction?.payload?.reason as string | undefined) ?? null,
+        thread,
+      };
+    }),
+
+  /**
+   * Get the full offer history for a channel listing, oldest first
+   */
+  history: protectedProcedure
+    .input(z.object({ channelListingId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+
+      // Verify the user owns the listing
+      const [listing] = await db
+        .select({ id: channelListings.id })
+        .from(channelListings)
+        .innerJoin(inventoryItems, eq(channelListings.itemId, inventoryItems.id))
+        .where(
+          and(
+            eq(channelListings.id, input.channelListingId),
+            eq(inventoryItems.userId, userId)
+          )
+        )
+        .limit(1);
+
+      if (!listing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Listing not found" });
+      }
+
+      const history = await getListingOfferHistory(userId, input.channelListingId);
+
+      return {
+        offers: history,
+        totalOffers: history.length,
+        maxRound: history.reduce((max, o) => Math.max(max, o.round), 0),
+      };
+    }),
+});
@@ -8,10 +8,19 @@ import {
   channelListings,
   itemImages,
 } from "@/server/db/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, desc, sql, inArray } from "drizzle-orm";
 import { getEbayAdapter } from "@/server/services/channels/ebay";
 import type { ChannelOrder } from "@/server/services/channels/types";
 import { inngest } from "@/server/inngest";
+import { calculateFees, ebayFeeCategoryFor } from "@/lib/fees";
+import {
+  splitOrderLineItems,
+  parseSalesReport,
+  previewSalesImport,
+} from "@/server/services/orders";
+
+/** Largest sales report accepted for import (characters) */
+const MAX_IMPORT_CSV_LENGTH = 5_000_000;
 
 /**
  * Calculate net profit for an order
@@ -313,25 +322,13 @@ export const ordersRouter = createTRPCRouter({
 
     for (const ebayOrder of ebayOrders) {
       try {
-        // Check if order already exists
-        const existing = await db
-          .select()
-          .from(orders)
-          .where(
-            and(
-              eq(orders.userId, userId),
-              eq(orders.externalOrderId, ebayOrder.externalOrderId)
-            )
-          )
-          .limit(1);
+        // Each line item is recorded as its own order row
+        for (const line of splitOrderLineItems(ebayOrder)) {
+          // Find matching inventory item by SKU
+          let itemId: string | null = null;
+          let costBasis: number | null = null;
 
-        // Find matching inventory item by SKU
-        let itemId: string | null = null;
-        let costBasis: number | null = null;
-
-        if (ebayOrder.lineItems.length > 0) {
-          const lineItem = ebayOrder.lineItems[0];
-          if (lineItem.sku) {
+          if (line.sku) {
             const item = await db
               .select({
                 id: inventoryItems.id,
@@ -341,7 +338,7 @@ export const ordersRouter = createTRPCRouter({
               .where(
                 and(
                   eq(inventoryItems.userId, userId),
-                  eq(inventoryItems.sku, lineItem.sku)
+                  eq(inventoryItems.sku, line.sku)
                 )
               )
               .limit(1);
@@ -351,79 +348,95 @@ export const ordersRouter = createTRPCRouter({
               costBasis = item[0].costBasis;
             }
           }
-        }
 
-        // Calculate net profit
-        const netProfit = calculateNetProfit(
-          ebayOrder.salePrice,
-          costBasis,
-          ebayOrder.platformFees ?? null,
-          null // Shipping cost not available from order sync
-        );
+          // Check if this line's order already exists
+          const existing = await db
+            .select()
+            .from(orders)
+            .where(
+              and(
+                eq(orders.userId, userId),
+                eq(orders.externalOrderId, ebayOrder.externalOrderId),
+                eq(orders.itemId, itemId ?? "")
+              )
+            )
+            .limit(1);
+
+          // Calculate net profit (cost basis is per unit)
+          const netProfit = calculateNetProfit(
+            line.salePrice,
+            costBasis !== null ? costBasis * line.quantity : null,
+            line.platformFees,
+            null // Shipping cost not available from order sync
+          );
 
-        if (existing.length > 0) {
-          // Update existing order
-          await db
-            .update(orders)
-            .set({
-              status: mapEbayStatus(ebayOrder.status),
-              salePrice: ebayOrder.salePrice,
-              shippingPaid: ebayOrder.shippingPaid,
-              platformFees: ebayOrder.platformFees,
+          if (existing.length > 0) {
+            // Update existing order
+            await db
+              .update(orders)
+              .set({
+                status: mapEbayStatus(ebayOrder.status),
+                quantity: line.quantity,
+                salePrice: line.salePrice,
+                shippingPaid: line.shippingPaid,
+                platformFees: line.platformFees,
+                netProfit,
+                buyerUsername: ebayOrder.buyerUsername,
+                shippingAddress: ebayOrder.shippingAddress,
+                paidAt: ebayOrder.paidAt,
+                shippedAt: ebayOrder.shippedAt,
+              })
+              .where(eq(orders.id, existing[0].id));
+
+            results.updated++;
+          } else {
+            // Create new order
+            const orderId = crypto.randomUUID();
+            await db.insert(orders).values({
+              id: orderId,
+              userId,
+              itemId: itemId ?? "", // Empty string if no matching item found
+              channel: "ebay",
+              externalOrderId: ebayOrder.externalOrderId,
+              quantity: line.quantity,
+              salePrice: line.salePrice,
+              shippingPaid: line.shippingPaid,
+              platformFees: line.platformFees,
               netProfit,
               buyerUsername: ebayOrder.buyerUsername,
               shippingAddress: ebayOrder.shippingAddress,
+              status: mapEbayStatus(ebayOrder.status),
+              orderedAt: ebayOrder.orderedAt,
               paidAt: ebayOrder.paidAt,
               shippedAt: ebayOrder.shippedAt,
-            })
-            .where(eq(orders.id, existing[0].id));
-
-          results.updated++;
-        } else {
-          // Create new order
-          const orderId = crypto.randomUUID();
-          await db.insert(orders).values({
-            id: orderId,
-            userId,
-            itemId: itemId ?? "", // Empty string if no matching item found
-            channel: "ebay",
-            externalOrderId: ebayOrder.externalOrderId,
-            salePrice: ebayOrder.salePrice,
-            shippingPaid: ebayOrder.shippingPaid,
-            platformFees: ebayOrder.platformFees,
-            netProfit,
-            buyerUsername: ebayOrder.buyerUsername,
-            shippingAddress: ebayOrder.shippingAddress,
-            status: mapEbayStatus(ebayOrder.status),
-            orderedAt: ebayOrder.orderedAt,
-            paidAt: ebayOrder.paidAt,
-            shippedAt: ebayOrder.shippedAt,
-          });
-
-          // Trigger delist-on-sale automation if we have a valid item ID
-          // This will delist from other channels to prevent overselling
-          if (itemId) {
-            try {
-              await inngest.send({
-                name: "order/confirmed",
-                data: {
-                  orderId,
-                  userId,
-                  itemId,
-                  channel: "ebay",
-                  salePrice: ebayOrder.salePrice,
-                },
-              });
-            } catch (sendError) {
-              // Log but don't fail - the order was created successfully
-              console.error(
-                "[orders.syncFromEbay] Failed to trigger delist-on-sale:",
-                sendError
-              );
+            });
+
+            // Trigger delist-on-sale automation if we have a valid item ID
+            // This decrements quantity and delists other channels once sold out
+            if (itemId) {
+              try {
+                await inngest.send({
+                  name: "order/confirmed",
+                  data: {
+                    orderId,
+                    userId,
+                    itemId,
+                    channel: "ebay",
+                    salePrice: line.salePrice,
+                    quantity: line.quantity,
+                  },
+                });
+              } catch (sendError) {
+                // Log but don't fail - the order was created successfully
+                console.error(
+                  "[orders.syncFromEbay] Failed to trigger delist-on-sale:",
+                  sendError
+                );
+              }
             }
-          }
 
-          results.created++;
+            results.created++;
+          }
         }
 
         results.synced++;
@@ -479,23 +492,29 @@ export const ordersRouter = createTRPCRouter({
         });
       }
 
-      // Calculate updated net profit if shipping cost provided
+      // Apply the shipping cost to net profit if provided
       let netProfit = order.netProfit;
       if (input.shippingCost !== undefined) {
-        // Get item cost basis for recalculation
-        const itemResult = await db
-          .select({ costBasis: inventoryItems.costBasis })
-          .from(inventoryItems)
-          .where(eq(inventoryItems.id, order.itemId))
-          .limit(1);
-
-        const costBasis = itemResult[0]?.costBasis ?? null;
-        netProfit = calculateNetProfit(
-          order.salePrice,
-          costBasis,
-          order.platformFees,
-          input.shippingCost
-        );
+        if (netProfit !== null) {
+          // Only shipping changed; keep refunds and cost adjustments already applied
+          netProfit =
+            Math.round((netProfit - (input.shippingCost - (order.shippingCost ?? 0))) * 100) / 100;
+        } else {
+          const itemResult = await db
+            .select({ costBasis: inventoryItems.costBasis })
+            .from(inventoryItems)
+            .where(eq(inventoryItems.id, order.itemId))
+            .limit(1);
+
+          // Cost basis is per unit
+          const costBasis = itemResult[0]?.costBasis ?? null;
+          netProfit = calculateNetProfit(
+            order.salePrice,
+            costBasis !== null ? costBasis * order.quantity : null,
+            order.platformFees,
+            input.shippingCost
+          );
+        }
       }
 
       // Update order in database
@@ -504,6 +523,8 @@ export const ordersRouter = createTRPCRouter({
         .update(orders)
         .set({
           status: "shipped",
+          trackingNumber: input.trackingNumber,
+          carrier: input.carrier,
           shippingCost: input.shippingCost,
           netProfit,
           shippedAt: now,
@@ -511,20 +532,28 @@ export const ordersRouter = createTRPCRouter({
         .where(eq(orders.id, input.orderId));
 
       // If eBay order, upload tracking number
+      let trackingUploaded = false;
+      let trackingUploadError: string | undefined;
       if (order.channel === "ebay" && order.externalOrderId) {
-        try {
-          const _adapter = getEbayAdapter();
-          // Note: eBay tracking upload would need to be implemented in the adapter
-          // For now, we just log it
-          console.log(
-            `[orders.markShipped] Would upload tracking ${input.trackingNumber} to eBay order ${order.externalOrderId}`
-          );
-        } catch (error) {
+        const adapter = getEbayAdapter();
+        const result = await adapter.createShippingFulfillment(
+          userId,
+          order.externalOrderId,
+          {
+            trackingNumber: input.trackingNumber,
+            carrier: input.carrier,
+            shippedDate: now,
+          }
+        );
+
+        trackingUploaded = result.success;
+        if (!result.success) {
+          // Don't fail the mutation, tracking can be added manually on eBay
+          trackingUploadError = result.error;
           console.error(
             "[orders.markShipped] Failed to upload tracking to eBay:",
-            error
+            result.error
           );
-          // Don't fail the mutation, tracking can be added manually
         }
       }
 
@@ -539,10 +568,31 @@ export const ordersRouter = createTRPCRouter({
           .where(eq(inventoryItems.id, order.itemId));
       }
 
+      try {
+        await inngest.send({
+          name: "order/shipped",
+          data: {
+            orderId: input.orderId,
+            userId,
+            trackingNumber: input.trackingNumber,
+            carrier: input.carrier,
+          },
+        });
+      } catch (sendError) {
+        // Log but don't fail - the order was updated successfully
+        console.error(
+          "[orders.markShipped] Failed to emit order/shipped:",
+          sendError
+        );
+      }
+
       return {
         success: true,
         orderId: input.orderId,
         trackingNumber: input.trackingNumber,
+        carrier: input.carrier,
+        trackingUploaded,
+        trackingUploadError,
       };
     }),
 
@@ -556,6 +606,7 @@ export const ordersRouter = createTRPCRouter({
         itemId: z.string(),
         channel: z.enum(["poshmark", "mercari", "depop"]),
         salePrice: z.number().positive(),
+        quantity: z.number().int().positive().default(1),
         platformFees: z.number().nonnegative().optional(),
         shippingCost: z.number().nonnegative().optional(),
         buyerUsername: z.string().optional(),
@@ -589,11 +640,27 @@ export const ordersRouter = createTRPCRouter({
         });
       }
 
-      // Calculate net profit
+      if (input.quantity > item.quantity) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Only ${item.quantity} in stock`,
+        });
+      }
+
+      // Default to the channel's fee schedule when fees aren't entered
+      const platformFees =
+        input.platformFees ??
+        calculateFees({
+          channel: input.channel,
+          salePrice: input.salePrice,
+          ebayCategory: ebayFeeCategoryFor(item.suggestedCategory),
+        }).total;
+
+      // Calculate net profit (cost basis is per unit)
       const netProfit = calculateNetProfit(
         input.salePrice,
-        item.costBasis,
-        input.platformFees ?? null,
+        item.costBasis !== null ? item.costBasis * input.quantity : null,
+        platformFees,
         input.shippingCost ?? null
       );
 
@@ -606,8 +673,9 @@ export const ordersRouter = createTRPCRouter({
         userId,
         itemId: input.itemId,
         channel: input.channel,
+        quantity: input.quantity,
         salePrice: input.salePrice,
-        platformFees: input.platformFees,
+        platformFees,
         shippingCost: input.shippingCost,
         netProfit,
         buyerUsername: input.buyerUsername,
@@ -618,9 +686,11 @@ export const ordersRouter = createTRPCRouter({
 
       // Trigger delist-on-sale automation
       // This will:
-      // 1. Delist from native channels (eBay) automatically
-      // 2. Send notifications for assisted channels (Poshmark, Mercari, Depop)
-      // 3. Update inventory status to 'sold'
+      // 1. Decrement inventory quantity by the units sold
+      // 2. Push the remaining quantity to eBay while units remain
+      // 3. Once sold out, delist from native channels (eBay) automatically,
+      //    send notifications for assisted channels (Poshmark, Mercari, Depop)
+      //    and update inventory status to 'sold'
       // 4. Log all actions to audit
       try {
         await inngest.send({
@@ -631,6 +701,7 @@ export const ordersRouter = createTRPCRouter({
             itemId: input.itemId,
             channel: input.channel,
             salePrice: input.salePrice,
+            quantity: input.quantity,
           },
         });
       } catch (sendError) {
@@ -648,6 +719,164 @@ export const ordersRouter = createTRPCRouter({
       };
     }),
 
+  /**
+   * Preview a Poshmark or Depop sales report import
+   * Parses the CSV and matches each sale to inventory without writing anything
+   */
+  previewImport: protectedProcedure
+    .input(
+      z.object({
+        channel: z.enum(["poshmark", "depop"]),
+        csv: z.string().min(1).max(MAX_IMPORT_CSV_LENGTH),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { rows, errors } = await previewSalesImport(ctx.user.id, input.channel, input.csv);
+
+      return {
+        rows,
+        errors,
+        summary: {
+          total: rows.length,
+          matched: rows.filter((row) => row.match && !row.duplicate).length,
+          unmatched: rows.filter((row) => !row.match && !row.duplicate).length,
+          duplicates: rows.filter((row) => row.duplicate).length,
+        },
+      };
+    }),
+
+  /**
+   * Import confirmed sales from a Poshmark or Depop sales report
+   * Creates an order per confirmed row and triggers delist-on-sale for each
+   */
+  confirmImport: protectedProcedure
+    .input(
+      z.object({
+        channel: z.enum(["poshmark", "depop"]),
+        csv: z.string().min(1).max(MAX_IMPORT_CSV_LENGTH),
+        rows: z
+          .array(z.object({ rowNumber: z.number().int().positive(), itemId: z.string() }))
+          .min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+      const { sales } = parseSalesReport(input.channel, input.csv);
+      const salesByRow = new Map(sales.map((sale) => [sale.rowNumber, sale]));
+
+      // Only the user's own unsold items can be matched
+      const itemIds = Array.from(new Set(input.rows.map((row) => row.itemId)));
+      const items = await db
+        .select({
+          id: inventoryItems.id,
+          costBasis: inventoryItems.costBasis,
+          status: inventoryItems.status,
+        })
+        .from(inventoryItems)
+        .where(and(eq(inventoryItems.userId, userId), inArray(inventoryItems.id, itemIds)));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const itemMap = new Map(items.map((item: any) => [item.id, item]));
+
+      const results = {
+        created: 0,
+        skipped: 0,
+        errors: [] as string[],
+      };
+      const delistEvents: Array<{
+        name: "autopilot/delist-on-sale";
+        data: {
+          userId: string;
+          itemId: string;
+          soldOnChannel: "poshmark" | "depop";
+          orderId: string;
+          quantity: number;
+        };
+      }> = [];
+
+      for (const row of input.rows) {
+        const sale = salesByRow.get(row.rowNumber);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const item = itemMap.get(row.itemId) as any;
+
+        if (!sale) {
+          results.errors.push(`Row ${row.rowNumber} was not found in the report`);
+          continue;
+        }
+        if (!item || item.status === "sold" || item.status === "shipped") {
+          results.errors.push(`Row ${row.rowNumber}: item is not available`);
+          continue;
+        }
+
+        // Re-imports of the same report are skipped
+        const existing = await db
+          .select({ id: orders.id })
+          .from(orders)
+          .where(
+            and(
+              eq(orders.userId, userId),
+              eq(orders.channel, input.channel),
+              eq(orders.externalOrderId, sale.externalOrderId)
+            )
+          )
+          .limit(1);
+
+        if (existing.length > 0) {
+          results.skipped++;
+          continue;
+        }
+
+        // Cost basis is per unit
+        const netProfit = calculateNetProfit(
+          sale.salePrice,
+          item.costBasis !== null ? item.costBasis * sale.quantity : null,
+          sale.platformFees,
+          null
+        );
+
+        const orderId = crypto.randomUUID();
+        await db.insert(orders).values({
+          id: orderId,
+          userId,
+          itemId: item.id,
+          channel: input.channel,
+          externalOrderId: sale.externalOrderId,
+          quantity: sale.quantity,
+          salePrice: sale.salePrice,
+          shippingPaid: sale.shippingPaid,
+          platformFees: sale.platformFees,
+          netProfit,
+          buyerUsername: sale.buyerUsername,
+          status: sale.status,
+          orderedAt: sale.orderedAt,
+          paidAt: sale.orderedAt,
+        });
+
+        delistEvents.push({
+          name: "autopilot/delist-on-sale",
+          data: {
+            userId,
+            itemId: item.id,
+            soldOnChannel: input.channel,
+            orderId,
+            quantity: sale.quantity,
+          },
+        });
+        results.created++;
+      }
+
+      // Decrement quantity and delist elsewhere for each imported sale
+      if (delistEvents.length > 0) {
+        try {
+          await inngest.send(delistEvents);
+        } catch (sendError) {
+          // Log but don't fail - the orders were created successfully
+          console.error("[orders.confirmImport] Failed to trigger delist-on-sale:", sendError);
+        }
+      }
+
+      return results;
+    }),
+
   /**
    * Update order status
    */
@@ -0,0 +1,95 @@
+/**
+ * Promotions tRPC Router
+ *
+ * Creates, lists, and cancels scheduled markdown sales.
+ */
+
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import { TRPCError } from "@trpc/server";
+import {
+  createPromotion,
+  cancelPromotion,
+  listPromotions,
+  PROMOTION_LIMITS,
+} from "@/server/services/promotions";
+
+// ============ INPUT SCHEMAS ============
+
+const createInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(90),
+    discountPercent: z
+      .number()
+      .int()
+      .min(PROMOTION_LIMITS.minDiscountPercent)
+      .max(PROMOTION_LIMITS.maxDiscountPercent),
+    itemIds: z.array(z.string()).min(1).max(500),
+    startsAt: z.date(),
+    endsAt: z.date(),
+  })
+  .refine((input) => input.endsAt > input.startsAt, {
+    message: "End date must be after the start date",
+    path: ["endsAt"],
+  })
+  .refine(
+    (input) =>
+      input.endsAt.getTime() - input.startsAt.getTime() <=
+      PROMOTION_LIMITS.maxDurationDays * 24 * 60 * 60 * 1000,
+    {
+      message: `Sales can run for at most ${PROMOTION_LIMITS.maxDurationDays} days`,
+      path: ["endsAt"],
+    }
+  );
+
+// ============ ROUTER ============
+
+export const promotionsRouter = createTRPCRouter({
+  /**
+   * List markdown sales, newest first
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return listPromotions(ctx.user.id);
+  }),
+
+  /**
+   * Schedule a percent-off sale across inventory items. Items without an
+   * active eBay listing are skipped and returned.
+   */
+  create: protectedProcedure
+    .input(createInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      if (input.endsAt <= new Date()) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "End date must be in the future" });
+      }
+
+      const result = await createPromotion(ctx.user.id, input);
+
+      if (!result.success && !result.promotionId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: result.error ?? "Failed to create sale",
+        });
+      }
+
+      return result;
+    }),
+
+  /**
+   * Cancel a scheduled sale, or end a running one early
+   */
+  cancel: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const result = await cancelPromotion(ctx.user.id, input.id);
+
+      if (!result.success) {
+        throw new TRPCError({
+          code: result.error === "Promotion not found" ? "NOT_FOUND" : "BAD_REQUEST",
+          message: result.error ?? "Failed to cancel sale",
+        });
+      }
+
+      return result;
+    }),
+});
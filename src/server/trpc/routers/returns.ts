@@ -0,0 +1,117 @@
+/**
+ * Returns tRPC Router
+ *
+ * Buyer returns against recorded orders: requested, received, refunded,
+ * and restocked. Refunds reverse the order's profit; restocking puts the
+ * item back in inventory and can relist it. See the returns service.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import { CONDITIONS } from "@/lib/constants";
+import {
+  RETURN_STATUSES,
+  listReturns,
+  createReturn,
+  markReturnReceived,
+  refundReturn,
+  restockReturn,
+  type ReturnResult,
+} from "@/server/services/returns";
+
+// ============ INPUT SCHEMAS ============
+
+const createReturnSchema = z.object({
+  orderId: z.string(),
+  quantity: z.number().int().positive().optional(),
+  reason: z.string().trim().max(500).optional(),
+  refundAmount: z.number().nonnegative().optional(),
+  returnShippingCost: z.number().nonnegative().optional(),
+});
+
+const refundReturnSchema = z.object({
+  id: z.string(),
+  refundAmount: z.number().nonnegative(),
+  returnShippingCost: z.number().nonnegative().optional(),
+});
+
+const restockReturnSchema = z.object({
+  id: z.string(),
+  status: z.enum(["active", "draft"]),
+  condition: z.enum(CONDITIONS).optional(),
+  relist: z.boolean().default(false),
+});
+
+// ============ HELPERS ============
+
+/**
+ * Unwrap a service result, throwing the matching TRPCError on failure
+ */
+function unwrap<T extends ReturnResult>(result: T): T {
+  if (!result.success) {
+    throw new TRPCError({
+      code: result.errorCode ?? "INTERNAL_SERVER_ERROR",
+      message: result.error ?? "Return update failed",
+    });
+  }
+  return result;
+}
+
+// ============ ROUTER ============
+
+export const returnsRouter = createTRPCRouter({
+  /**
+   * List returns, newest first, optionally by status
+   */
+  list: protectedProcedure
+    .input(z.object({ status: z.enum(RETURN_STATUSES).optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      return listReturns(ctx.user.id, input?.status);
+    }),
+
+  /**
+   * Open a return against an order
+   */
+  create: protectedProcedure.input(createReturnSchema).mutation(async ({ ctx, input }) => {
+    const { refundAmount, returnShippingCost, ...returnInput } = input;
+    const created = unwrap(await createReturn(ctx.user.id, returnInput));
+
+    // Refunds issued up front (e.g. a return opened after the buyer was
+    // already refunded) are recorded in the same step
+    if (refundAmount !== undefined && created.return) {
+      return unwrap(
+        await refundReturn(ctx.user.id, created.return.id, { refundAmount, returnShippingCost })
+      ).return;
+    }
+
+    return created.return;
+  }),
+
+  /**
+   * Mark a returned item as received back
+   */
+  markReceived: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return unwrap(await markReturnReceived(ctx.user.id, input.id)).return;
+    }),
+
+  /**
+   * Record the refund and reverse the order's profit
+   */
+  refund: protectedProcedure.input(refundReturnSchema).mutation(async ({ ctx, input }) => {
+    const { id, ...refund } = input;
+    return unwrap(await refundReturn(ctx.user.id, id, refund)).return;
+  }),
+
+  /**
+   * Put the returned units back in inventory, optionally relisting them
+   */
+  restock: protectedProcedure.input(restockReturnSchema).mutation(async ({ ctx, input }) => {
+    const { id, ...restock } = input;
+    const result = unwrap(await restockReturn(ctx.user.id, id, restock));
+
+    return { return: result.return, relists: result.relists ?? [] };
+  }),
+});
@@ -1,5 +1,7 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { createTRPCRouter, protectedProcedure } from "../init";
+import { getEntitlementUsage } from "@/server/services/entitlements";
 import {
   notificationPreferences,
   DEFAULT_NOTIFICATION_PREFS,
@@ -72,4 +74,15 @@ export const settingsRouter = createTRPCRouter({
 
       return { success: true };
     }),
+
+  /**
+   * Get the current plan and this period's usage against its caps
+   */
+  getUsage: protectedProcedure.query(async ({ ctx }) => {
+    const usage = await getEntitlementUsage(ctx.user.id);
+    if (!usage) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+    }
+    return usage;
+  }),
 });
@@ -0,0 +1,269 @@
+/**
+ * Sourcing tRPC Router
+ *
+ * Purchase lots, their receipts, and the items bought in them. Every
+ * change to a lot's items, cost, or split recomputes the items' costBasis.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import { db } from "@/server/db/client";
+import { sourcingLots, inventoryItems } from "@/server/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { r2Storage, generateReceiptKey } from "@/server/services/storage/r2";
+import {
+  getLot,
+  getLotRoi,
+  recomputeLotCosts,
+  assignItemsToLot,
+  removeItemsFromLot,
+  setAllocationValues,
+} from "@/server/services/sourcing";
+
+// ============ INPUT SCHEMAS ============
+
+const allocationMethodEnum = z.enum(["even", "estimated_value", "manual"]);
+
+const lotFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  purchasedAt: z.date(),
+  source: z.string().trim().max(200).nullable().optional(),
+  location: z.string().trim().max(200).nullable().optional(),
+  totalCost: z.number().nonnegative(),
+  mileage: z.number().nonnegative().nullable().optional(),
+  allocationMethod: allocationMethodEnum.default("even"),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const receiptContentType = z.enum([
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+]);
+
+// ============ HELPERS ============
+
+/**
+ * Get a lot with its items, throwing NOT_FOUND unless it belongs to the user
+ */
+async function getOwnedLot(userId: string, lotId: string) {
+  const lot = await getLot(userId, lotId);
+  if (!lot) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Lot not found" });
+  }
+  return lot;
+}
+
+// ============ ROUTER ============
+
+export const sourcingRouter = createTRPCRouter({
+  /**
+   * List lots, newest first, with their sales so far
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return getLotRoi(ctx.user.id);
+  }),
+
+  /**
+   * Get a lot with its items and how its cost is split
+   */
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const lot = await getOwnedLot(ctx.user.id, input.id);
+      const allocated = lot.items.reduce(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (sum: number, item: any) => sum + (item.costBasis ?? 0),
+        0
+      );
+
+      return {
+        ...lot,
+        unallocated: Math.round((lot.totalCost - allocated) * 100) / 100,
+      };
+    }),
+
+  /**
+   * Create a lot, optionally with the items bought in it
+   */
+  create: protectedProcedure
+    .input(lotFieldsSchema.extend({ itemIds: z.array(z.string()).max(500).optional() }))
+    .mutation(async ({ input, ctx }) => {
+      const { itemIds, ...fields } = input;
+      const id = crypto.randomUUID();
+      const now = new Date();
+
+      await db.insert(sourcingLots).values({
+        ...fields,
+        id,
+        userId: ctx.user.id,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      if (itemIds && itemIds.length > 0) {
+        await assignItemsToLot(ctx.user.id, id, itemIds, now);
+      }
+
+      return { id };
+    }),
+
+  /**
+   * Update a lot's details; a new cost or split method is re-allocated
+   */
+  update: protectedProcedure
+    .input(lotFieldsSchema.partial().extend({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const { id, ...fields } = input;
+      await getOwnedLot(ctx.user.id, id);
+
+      const now = new Date();
+      await db
+        .update(sourcingLots)
+        .set({ ...fields, updatedAt: now })
+        .where(eq(sourcingLots.id, id));
+
+      return recomputeLotCosts(id, now);
+    }),
+
+  /**
+   * Delete a lot. Its items stay in inventory without a cost basis.
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const lot = await getOwnedLot(ctx.user.id, input.id);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const itemIds = lot.items.map((item: any) => item.id);
+      if (itemIds.length > 0) {
+        await removeItemsFromLot(ctx.user.id, itemIds);
+      }
+
+      const keys = (lot.receiptUrls ?? []).map((url: string) =>
+        new URL(url).pathname.replace(/^\//, "")
+      );
+      if (keys.length > 0) {
+        try {
+          await r2Storage.deleteObjects(keys);
+        } catch (error) {
+          // Log but don't fail - the DB record deletion is more important
+          console.error("Failed to delete receipts from R2:", error);
+        }
+      }
+
+      await db.delete(sourcingLots).where(eq(sourcingLots.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Add items to a lot, moving them out of any lot they were in
+   */
+  addItems: protectedProcedure
+    .input(z.object({ lotId: z.string(), itemIds: z.array(z.string()).min(1).max(500) }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedLot(ctx.user.id, input.lotId);
+
+      const owned = await db
+        .select({ id: inventoryItems.id })
+        .from(inventoryItems)
+        .where(
+          and(inArray(inventoryItems.id, input.itemIds), eq(inventoryItems.userId, ctx.user.id))
+        );
+      if (owned.length !== new Set(input.itemIds).size) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Some items not found or not owned by user",
+        });
+      }
+
+      const added = await assignItemsToLot(ctx.user.id, input.lotId, input.itemIds);
+      return { added };
+    }),
+
+  /**
+   * Take items out of their lots
+   */
+  removeItems: protectedProcedure
+    .input(z.object({ itemIds: z.array(z.string()).min(1).max(500) }))
+    .mutation(async ({ input, ctx }) => {
+      const removed = await removeItemsFromLot(ctx.user.id, input.itemIds);
+      return { removed };
+    }),
+
+  /**
+   * Set estimated values (by-value split) or costs (manual split) for
+   * items in a lot
+   */
+  setAllocationValues: protectedProcedure
+    .input(
+      z.object({
+        lotId: z.string(),
+        values: z
+          .array(z.object({ itemId: z.string(), value: z.number().nonnegative().nullable() }))
+          .min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedLot(ctx.user.id, input.lotId);
+      return setAllocationValues(input.lotId, input.values);
+    }),
+
+  /**
+   * Get a presigned URL for uploading a receipt photo
+   */
+  getReceiptUploadUrl: protectedProcedure
+    .input(z.object({ lotId: z.string(), contentType: receiptContentType }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedLot(ctx.user.id, input.lotId);
+
+      try {
+        const key = generateReceiptKey(ctx.user.id, input.lotId, input.contentType);
+        return await r2Storage.getUploadUrl(key, input.contentType);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to generate upload URL",
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Attach an uploaded receipt to a lot
+   */
+  addReceipt: protectedProcedure
+    .input(z.object({ lotId: z.string(), key: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      const lot = await getOwnedLot(ctx.user.id, input.lotId);
+
+      // Only accept keys issued by getReceiptUploadUrl for this user and lot
+      if (!input.key.startsWith(`receipts/${ctx.user.id}/${input.lotId}/`)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Storage key does not belong to this lot",
+        });
+      }
+
+      const metadata = await r2Storage.getObjectMetadata(input.key);
+      if (!metadata) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Upload not found. Please try uploading again.",
+        });
+      }
+
+      const receiptUrls = [...(lot.receiptUrls ?? []), r2Storage.getPublicUrl(input.key)];
+      await db
+        .update(sourcingLots)
+        .set({ receiptUrls, updatedAt: new Date() })
+        .where(eq(sourcingLots.id, input.lotId));
+
+      return { receiptUrls };
+    }),
+});
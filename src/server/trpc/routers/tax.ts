@@ -0,0 +1,125 @@
+/**
+ * Tax tRPC Router
+ *
+ * The year-end tax report, the 1099-K totals it reconciles against, and
+ * its downloads: a zip of CSV sheets and a printable HTML summary.
+ */
+
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import { db } from "@/server/db/client";
+import { form1099kTotals } from "@/server/db/schema";
+import { eq, and } from "drizzle-orm";
+import { CHANNELS } from "@/lib/constants";
+import { getExpenseOccurrences } from "@/server/services/expenses";
+import { getTaxReport, getTaxYearSales, getTaxYearRange } from "@/server/services/tax";
+import { buildTaxReportCsvFiles, renderTaxReportHtml } from "@/server/services/tax/export";
+import { createZip } from "@/server/services/tax/zip";
+
+// ============ INPUT SCHEMAS ============
+
+const taxYearSchema = z.object({
+  taxYear: z.number().int().min(2000).max(2100),
+});
+
+// ============ ROUTER ============
+
+export const taxRouter = createTRPCRouter({
+  /**
+   * Schedule C figures and 1099-K reconciliation for a calendar year
+   */
+  report: protectedProcedure.input(taxYearSchema).query(async ({ input, ctx }) => {
+    return getTaxReport(ctx.user.id, input.taxYear);
+  }),
+
+  /**
+   * Enter or correct the 1099-K gross amount for a channel
+   */
+  set1099K: protectedProcedure
+    .input(
+      taxYearSchema.extend({
+        channel: z.enum(CHANNELS),
+        grossAmount: z.number().nonnegative(),
+        transactionCount: z.number().int().nonnegative().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const now = new Date();
+      const values = {
+        grossAmount: input.grossAmount,
+        transactionCount: input.transactionCount ?? null,
+        updatedAt: now,
+      };
+
+      await db
+        .insert(form1099kTotals)
+        .values({
+          ...values,
+          id: crypto.randomUUID(),
+          userId: ctx.user.id,
+          taxYear: input.taxYear,
+          channel: input.channel,
+          createdAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [form1099kTotals.userId, form1099kTotals.taxYear, form1099kTotals.channel],
+          set: values,
+        });
+
+      return { success: true };
+    }),
+
+  /**
+   * Remove the 1099-K entry for a channel
+   */
+  delete1099K: protectedProcedure
+    .input(taxYearSchema.extend({ channel: z.enum(CHANNELS) }))
+    .mutation(async ({ input, ctx }) => {
+      await db
+        .delete(form1099kTotals)
+        .where(
+          and(
+            eq(form1099kTotals.userId, ctx.user.id),
+            eq(form1099kTotals.taxYear, input.taxYear),
+            eq(form1099kTotals.channel, input.channel)
+          )
+        );
+
+      return { success: true };
+    }),
+
+  /**
+   * Download the report as a zip of CSV sheets plus the HTML summary.
+   * The archive is base64 encoded for transport.
+   */
+  exportZip: protectedProcedure.input(taxYearSchema).query(async ({ input, ctx }) => {
+    const { start, end } = getTaxYearRange(input.taxYear);
+    const [report, sales, occurrences] = await Promise.all([
+      getTaxReport(ctx.user.id, input.taxYear),
+      getTaxYearSales(ctx.user.id, input.taxYear),
+      getExpenseOccurrences(ctx.user.id, start, end),
+    ]);
+
+    const zip = createZip([
+      ...buildTaxReportCsvFiles(report, sales, occurrences),
+      { name: `tax-summary-${input.taxYear}.html`, content: renderTaxReportHtml(report) },
+    ]);
+
+    return {
+      filename: `tax-report-${input.taxYear}.zip`,
+      content: zip.toString("base64"),
+    };
+  }),
+
+  /**
+   * Printable HTML summary of the report
+   */
+  exportHtml: protectedProcedure.input(taxYearSchema).query(async ({ input, ctx }) => {
+    const report = await getTaxReport(ctx.user.id, input.taxYear);
+
+    return {
+      filename: `tax-summary-${input.taxYear}.html`,
+      content: renderTaxReportHtml(report),
+    };
+  }),
+});
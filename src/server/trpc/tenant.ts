@@ -0,0 +1,67 @@
+/**
+ * Tenant isolation guards
+ *
+ * Every row a procedure reads or writes must belong to ctx.user. Tables
+ * with a userId column are filtered on it directly; tables that hang off an
+ * inventory item (images, listings) are checked through the owning item
+ * with these helpers.
+ *
+ * Rows owned by someone else are reported as NOT_FOUND rather than
+ * FORBIDDEN so ids can't be probed for existence.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { db } from "@/server/db/client";
+import { inventoryItems, itemImages } from "@/server/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+
+export type ItemImage = typeof itemImages.$inferSelect;
+
+/**
+ * Throw NOT_FOUND unless the inventory item belongs to the user
+ */
+export async function assertItemOwner(userId: string, itemId: string): Promise<void> {
+  const [item] = await db
+    .select({ id: inventoryItems.id })
+    .from(inventoryItems)
+    .where(and(eq(inventoryItems.id, itemId), eq(inventoryItems.userId, userId)))
+    .limit(1);
+
+  if (!item) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Item not found" });
+  }
+}
+
+/**
+ * Get an image if its item belongs to the user, throwing NOT_FOUND otherwise
+ */
+export async function getOwnedImage(userId: string, imageId: string): Promise<ItemImage> {
+  const [row] = await db
+    .select({ image: itemImages })
+    .from(itemImages)
+    .innerJoin(inventoryItems, eq(itemImages.itemId, inventoryItems.id))
+    .where(and(eq(itemImages.id, imageId), eq(inventoryItems.userId, userId)))
+    .limit(1);
+
+  if (!row) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Image not found" });
+  }
+
+  return row.image;
+}
+
+/**
+ * Get the subset of images whose items belong to the user
+ */
+export async function getOwnedImages(userId: string, imageIds: string[]): Promise<ItemImage[]> {
+  if (imageIds.length === 0) return [];
+
+  const rows = await db
+    .select({ image: itemImages })
+    .from(itemImages)
+    .innerJoin(inventoryItems, eq(itemImages.itemId, inventoryItems.id))
+    .where(and(inArray(itemImages.id, imageIds), eq(inventoryItems.userId, userId)));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return rows.map((row: any) => row.image);
+}